@@ -0,0 +1,23 @@
+CREATE TABLE "issuer_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"company_name" varchar(255) NOT NULL,
+	"legal_form" varchar(100) DEFAULT 'Entrepreneur individuel (EI)' NOT NULL,
+	"address" text NOT NULL,
+	"postal_code" varchar(20) NOT NULL,
+	"city" varchar(100) NOT NULL,
+	"country" varchar(100) DEFAULT 'France' NOT NULL,
+	"siret" varchar(14) NOT NULL,
+	"tva_number" varchar(20),
+	"email" varchar(255),
+	"phone" varchar(30),
+	"iban" varchar(34),
+	"bic" varchar(11),
+	"payment_terms_days" integer DEFAULT 30 NOT NULL,
+	"late_penalty_rate" numeric(5, 2) DEFAULT '12.15' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "issuer_profiles_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "issuer_profiles" ADD CONSTRAINT "issuer_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
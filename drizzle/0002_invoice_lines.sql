@@ -0,0 +1,21 @@
+CREATE TABLE "invoice_lines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(12, 3) DEFAULT '1' NOT NULL,
+	"unit" varchar(20),
+	"unit_price" numeric(12, 2) NOT NULL,
+	"tax_rate" numeric(5, 2) NOT NULL,
+	"discount" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"amount_ht" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ALTER COLUMN "tax_rate" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoice_lines_invoice_id_idx" ON "invoice_lines" USING btree ("invoice_id");--> statement-breakpoint
+-- Backfill: every existing invoice becomes a single line
+INSERT INTO "invoice_lines" ("invoice_id", "position", "description", "quantity", "unit_price", "tax_rate", "discount", "amount_ht")
+SELECT "id", 0, COALESCE(NULLIF("description", ''), 'Prestation de services'), 1, "amount_ht", "tax_rate", 0, "amount_ht"
+FROM "invoices";
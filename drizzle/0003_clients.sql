@@ -0,0 +1,38 @@
+CREATE TABLE "clients" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"address" text,
+	"postal_code" varchar(20),
+	"city" varchar(100),
+	"country" varchar(2) DEFAULT 'FR' NOT NULL,
+	"siren" varchar(9),
+	"siret" varchar(14),
+	"tva_number" varchar(20),
+	"email" varchar(255),
+	"payment_terms_days" integer,
+	"default_tax_rate" numeric(5, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "client_id" uuid;--> statement-breakpoint
+ALTER TABLE "clients" ADD CONSTRAINT "clients_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "clients_user_id_idx" ON "clients" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "clients_user_id_name_idx" ON "clients" USING btree ("user_id","name");--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoices_client_id_idx" ON "invoices" USING btree ("client_id");--> statement-breakpoint
+-- Migrate free-text clients (saved autocomplete list + names used on invoices) into the directory
+INSERT INTO "clients" ("user_id", "name")
+SELECT DISTINCT "user_id", "name" FROM (
+	SELECT "user_id", TRIM("name") AS "name" FROM "invoice_clients"
+	UNION
+	SELECT "user_id", COALESCE(NULLIF(TRIM("client"), ''), 'Client sans nom') AS "name" FROM "invoices"
+) AS "names"
+WHERE "name" <> ''
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+UPDATE "invoices" SET "client_id" = "clients"."id"
+FROM "clients"
+WHERE "clients"."user_id" = "invoices"."user_id" AND "clients"."name" = COALESCE(NULLIF(TRIM("invoices"."client"), ''), 'Client sans nom');--> statement-breakpoint
+ALTER TABLE "invoices" ALTER COLUMN "client_id" SET NOT NULL;--> statement-breakpoint
+DROP TABLE "invoice_clients" CASCADE;
\ No newline at end of file
@@ -0,0 +1,23 @@
+ALTER TABLE "invoices" ADD COLUMN "type" varchar(20) DEFAULT 'invoice' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "credited_invoice_id" uuid;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_credited_invoice_id_invoices_id_fk" FOREIGN KEY ("credited_invoice_id") REFERENCES "public"."invoices"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoices_credited_invoice_id_idx" ON "invoices" USING btree ("credited_invoice_id");--> statement-breakpoint
+-- Replace cancellations with full credit notes, offset on the same date so past totals are unchanged
+WITH "canceled" AS (
+	SELECT *, ROW_NUMBER() OVER (PARTITION BY "user_id", EXTRACT(YEAR FROM "invoice_date") ORDER BY "invoice_date", "created_at") AS "seq"
+	FROM "invoices"
+	WHERE "is_canceled" = true
+)
+INSERT INTO "invoices" ("user_id", "type", "credited_invoice_id", "client_id", "client", "description", "invoice_date", "payment_date", "amount_ht", "tax_rate", "amount_ttc", "invoice_number")
+SELECT "user_id", 'credit_note', "id", "client_id", "client",
+	'Annulation de la facture ' || COALESCE("invoice_number", ''),
+	"invoice_date", COALESCE("payment_date", "invoice_date"), -"amount_ht", "tax_rate", -"amount_ttc",
+	'AV' || TO_CHAR("invoice_date", 'YYYYMM') || LPAD("seq"::text, 2, '0')
+FROM "canceled";--> statement-breakpoint
+INSERT INTO "invoice_lines" ("invoice_id", "position", "description", "quantity", "unit", "unit_price", "tax_rate", "discount", "amount_ht")
+SELECT "credit_notes"."id", "invoice_lines"."position", "invoice_lines"."description", "invoice_lines"."quantity", "invoice_lines"."unit",
+	-"invoice_lines"."unit_price", "invoice_lines"."tax_rate", "invoice_lines"."discount", -"invoice_lines"."amount_ht"
+FROM "invoice_lines"
+INNER JOIN "invoices" AS "credit_notes" ON "credit_notes"."credited_invoice_id" = "invoice_lines"."invoice_id";--> statement-breakpoint
+UPDATE "invoices" SET "payment_date" = "invoice_date" WHERE "is_canceled" = true AND "payment_date" IS NULL;--> statement-breakpoint
+ALTER TABLE "invoices" DROP COLUMN "is_canceled";
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "invoice_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"payment_date" date NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"method" varchar(20) DEFAULT 'transfer' NOT NULL,
+	"reference" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoice_payments_invoice_id_idx" ON "invoice_payments" USING btree ("invoice_id");--> statement-breakpoint
+CREATE INDEX "invoice_payments_payment_date_idx" ON "invoice_payments" USING btree ("payment_date");--> statement-breakpoint
+INSERT INTO "invoice_payments" ("invoice_id", "payment_date", "amount", "method")
+SELECT "id", "payment_date", "amount_ttc", 'other'
+FROM "invoices"
+WHERE "payment_date" IS NOT NULL;--> statement-breakpoint
+-- Credit notes still waiting on an unpaid invoice are offset against its balance
+INSERT INTO "invoice_payments" ("invoice_id", "payment_date", "amount", "method", "reference")
+SELECT cn."credited_invoice_id", cn."invoice_date", -cn."amount_ttc", 'credit_note', cn."invoice_number"
+FROM "invoices" cn
+JOIN "invoices" src ON src."id" = cn."credited_invoice_id"
+WHERE cn."type" = 'credit_note' AND cn."payment_date" IS NULL AND src."payment_date" IS NULL;--> statement-breakpoint
+INSERT INTO "invoice_payments" ("invoice_id", "payment_date", "amount", "method", "reference")
+SELECT cn."id", cn."invoice_date", cn."amount_ttc", 'credit_note', src."invoice_number"
+FROM "invoices" cn
+JOIN "invoices" src ON src."id" = cn."credited_invoice_id"
+WHERE cn."type" = 'credit_note' AND cn."payment_date" IS NULL AND src."payment_date" IS NULL;--> statement-breakpoint
+UPDATE "invoices" cn
+SET "payment_date" = cn."invoice_date"
+FROM "invoices" src
+WHERE src."id" = cn."credited_invoice_id" AND cn."type" = 'credit_note' AND cn."payment_date" IS NULL AND src."payment_date" IS NULL;
@@ -0,0 +1,24 @@
+CREATE TABLE "bank_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"date" date NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"label" text NOT NULL,
+	"counterparty" varchar(255),
+	"reference" varchar(255),
+	"source" varchar(10) NOT NULL,
+	"import_hash" varchar(64) NOT NULL,
+	"status" varchar(20) DEFAULT 'unmatched' NOT NULL,
+	"match_type" varchar(20),
+	"match_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "account_balances" ADD COLUMN "balance_date" date;--> statement-breakpoint
+ALTER TABLE "invoice_payments" ADD COLUMN "bank_transaction_id" uuid;--> statement-breakpoint
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bank_transactions_user_id_idx" ON "bank_transactions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "bank_transactions_date_idx" ON "bank_transactions" USING btree ("date");--> statement-breakpoint
+CREATE UNIQUE INDEX "bank_transactions_user_hash_idx" ON "bank_transactions" USING btree ("user_id","import_hash");--> statement-breakpoint
+ALTER TABLE "invoice_payments" ADD CONSTRAINT "invoice_payments_bank_transaction_id_bank_transactions_id_fk" FOREIGN KEY ("bank_transaction_id") REFERENCES "public"."bank_transactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "account_balances" SET "balance_date" = "updated_at"::date;
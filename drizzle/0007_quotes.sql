@@ -0,0 +1,40 @@
+CREATE TABLE "quote_lines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"quote_id" uuid NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(12, 3) DEFAULT '1' NOT NULL,
+	"unit" varchar(20),
+	"unit_price" numeric(12, 2) NOT NULL,
+	"tax_rate" numeric(5, 2) NOT NULL,
+	"discount" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"amount_ht" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "quotes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"client_id" uuid NOT NULL,
+	"client" varchar(255) NOT NULL,
+	"description" text,
+	"quote_number" varchar(50) NOT NULL,
+	"quote_date" date NOT NULL,
+	"valid_until" date NOT NULL,
+	"status" varchar(20) DEFAULT 'draft' NOT NULL,
+	"amount_ht" numeric(12, 2) NOT NULL,
+	"tax_rate" numeric(5, 2),
+	"amount_ttc" numeric(12, 2) NOT NULL,
+	"invoice_id" uuid,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quote_lines" ADD CONSTRAINT "quote_lines_quote_id_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quotes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "quote_lines_quote_id_idx" ON "quote_lines" USING btree ("quote_id");--> statement-breakpoint
+CREATE INDEX "quotes_user_id_idx" ON "quotes" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "quotes_client_id_idx" ON "quotes" USING btree ("client_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "quotes_user_id_number_idx" ON "quotes" USING btree ("user_id","quote_number");
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "numbering_sequences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"document_type" varchar(20) NOT NULL,
+	"period_key" varchar(7) NOT NULL,
+	"last_value" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "invoice_number_pattern" varchar(50) DEFAULT '{YYYY}{MM}{SEQ:2}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "invoice_number_reset" varchar(10) DEFAULT 'yearly' NOT NULL;--> statement-breakpoint
+ALTER TABLE "numbering_sequences" ADD CONSTRAINT "numbering_sequences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "numbering_sequences_user_type_period_idx" ON "numbering_sequences" USING btree ("user_id","document_type","period_key");--> statement-breakpoint
+UPDATE "invoices" SET "invoice_number" = NULL WHERE "invoice_number" = '';--> statement-breakpoint
+-- Numbers issued twice before uniqueness was enforced: the later documents get a suffix
+UPDATE "invoices" SET "invoice_number" = "duplicates"."invoice_number" || '-' || "duplicates"."rank"
+FROM (
+	SELECT "id", "invoice_number", row_number() OVER (PARTITION BY "user_id", "invoice_number" ORDER BY "created_at", "id") AS "rank"
+	FROM "invoices"
+	WHERE "invoice_number" IS NOT NULL
+) AS "duplicates"
+WHERE "invoices"."id" = "duplicates"."id" AND "duplicates"."rank" > 1;--> statement-breakpoint
+CREATE UNIQUE INDEX "invoices_user_id_number_idx" ON "invoices" USING btree ("user_id","invoice_number");--> statement-breakpoint
+INSERT INTO "numbering_sequences" ("user_id", "document_type", "period_key", "last_value")
+SELECT "user_id", 'invoice', substring("invoice_number" from 1 for 4), max(substring("invoice_number" from 7)::integer)
+FROM "invoices"
+WHERE "type" = 'invoice' AND "invoice_number" ~ '^[0-9]{8}$'
+GROUP BY "user_id", substring("invoice_number" from 1 for 4);--> statement-breakpoint
+INSERT INTO "numbering_sequences" ("user_id", "document_type", "period_key", "last_value")
+SELECT "user_id", 'credit_note', substring("invoice_number" from 3 for 4), max(substring("invoice_number" from 9)::integer)
+FROM "invoices"
+WHERE "type" = 'credit_note' AND "invoice_number" ~ '^AV[0-9]{8,}$'
+GROUP BY "user_id", substring("invoice_number" from 3 for 4);
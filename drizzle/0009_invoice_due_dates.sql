@@ -0,0 +1,8 @@
+ALTER TABLE "clients" ADD COLUMN "payment_terms_end_of_month" boolean;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "due_date" date;--> statement-breakpoint
+ALTER TABLE "issuer_profiles" ADD COLUMN "payment_terms_end_of_month" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "invoices_due_date_idx" ON "invoices" USING btree ("due_date");--> statement-breakpoint
+UPDATE "invoices" SET "due_date" = "invoices"."invoice_date" + COALESCE("clients"."payment_terms_days", "issuer_profiles"."payment_terms_days", 30)
+FROM "clients"
+LEFT JOIN "issuer_profiles" ON "issuer_profiles"."user_id" = "clients"."user_id"
+WHERE "clients"."id" = "invoices"."client_id" AND "invoices"."type" = 'invoice';
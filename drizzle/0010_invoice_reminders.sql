@@ -0,0 +1,27 @@
+CREATE TABLE "invoice_reminders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"level" varchar(20) NOT NULL,
+	"recipient" varchar(255) NOT NULL,
+	"subject" varchar(255) NOT NULL,
+	"body" text NOT NULL,
+	"transport" varchar(10) NOT NULL,
+	"message_id" varchar(255) NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "reminder_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"level" varchar(20) NOT NULL,
+	"delay_days" integer NOT NULL,
+	"subject" varchar(255) NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_reminders" ADD CONSTRAINT "invoice_reminders_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reminder_templates" ADD CONSTRAINT "reminder_templates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoice_reminders_invoice_id_idx" ON "invoice_reminders" USING btree ("invoice_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "reminder_templates_user_level_idx" ON "reminder_templates" USING btree ("user_id","level");
\ No newline at end of file
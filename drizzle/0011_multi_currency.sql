@@ -0,0 +1,16 @@
+CREATE TABLE "exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"currency" varchar(3) NOT NULL,
+	"date" date NOT NULL,
+	"rate" numeric(12, 6) NOT NULL,
+	"source" varchar(10) DEFAULT 'manual' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "currency" varchar(3) DEFAULT 'EUR' NOT NULL;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "exchange_rate" numeric(12, 6) DEFAULT '1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "currency" varchar(3) DEFAULT 'EUR' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invoices" ADD COLUMN "exchange_rate" numeric(12, 6) DEFAULT '1' NOT NULL;--> statement-breakpoint
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "exchange_rates_user_currency_date_idx" ON "exchange_rates" USING btree ("user_id","currency","date");
\ No newline at end of file
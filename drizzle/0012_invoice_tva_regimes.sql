@@ -0,0 +1,13 @@
+ALTER TABLE "invoices" ADD COLUMN "tva_regime" varchar(20) DEFAULT 'domestic' NOT NULL;--> statement-breakpoint
+-- Record the reason previously inferred for 0% invoices: franchise without issuer TVA number, else the client country
+UPDATE "invoices" SET "tva_regime" = CASE
+	WHEN COALESCE("issuer_profiles"."tva_number", '') = '' THEN 'franchise'
+	WHEN "clients"."country" = 'FR' THEN 'domestic'
+	WHEN "clients"."country" IN ('AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'GR', 'HR', 'HU',
+		'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK') THEN 'intra_eu'
+	ELSE 'export'
+END
+FROM "clients"
+LEFT JOIN "issuer_profiles" ON "issuer_profiles"."user_id" = "clients"."user_id"
+WHERE "clients"."id" = "invoices"."client_id"
+	AND NOT EXISTS (SELECT 1 FROM "invoice_lines" WHERE "invoice_lines"."invoice_id" = "invoices"."id" AND "invoice_lines"."tax_rate" > 0);
@@ -0,0 +1 @@
+ALTER TABLE "expenses" ADD COLUMN "reverse_charge_rate" numeric(5, 2) DEFAULT '20' NOT NULL;
\ No newline at end of file
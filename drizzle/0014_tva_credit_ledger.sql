@@ -0,0 +1,14 @@
+CREATE TABLE "tva_credit_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"period_month" varchar(7) NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"refund_status" varchar(20),
+	"refund_received_date" date,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tva_credit_entries" ADD CONSTRAINT "tva_credit_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tva_credit_entries_user_id_idx" ON "tva_credit_entries" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tva_credit_entries_user_period_type_idx" ON "tva_credit_entries" USING btree ("user_id","period_month","type");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "tva_filing_regimes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"year" integer NOT NULL,
+	"regime" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tva_filing_regimes" ADD CONSTRAINT "tva_filing_regimes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tva_filing_regimes_user_year_idx" ON "tva_filing_regimes" USING btree ("user_id","year");
\ No newline at end of file
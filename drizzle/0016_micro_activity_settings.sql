@@ -0,0 +1,2 @@
+ALTER TABLE "settings" ADD COLUMN "business_start_date" date;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "activity_type" varchar(20) DEFAULT 'bnc' NOT NULL;
\ No newline at end of file
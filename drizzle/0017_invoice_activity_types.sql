@@ -0,0 +1,5 @@
+ALTER TABLE "invoices" ADD COLUMN "activity_type" varchar(20) DEFAULT 'bnc' NOT NULL;--> statement-breakpoint
+-- Existing invoices take the activity set in the settings
+UPDATE "invoices" SET "activity_type" = "settings"."activity_type"
+FROM "settings"
+WHERE "settings"."user_id" = "invoices"."user_id";
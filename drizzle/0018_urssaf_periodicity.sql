@@ -0,0 +1,12 @@
+CREATE TABLE "urssaf_periodicities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"year" integer NOT NULL,
+	"periodicity" varchar(10) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "urssaf_payments" ADD COLUMN "month" integer;--> statement-breakpoint
+ALTER TABLE "urssaf_periodicities" ADD CONSTRAINT "urssaf_periodicities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "urssaf_periodicities_user_year_idx" ON "urssaf_periodicities" USING btree ("user_id","year");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "income_tax_options" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"year" integer NOT NULL,
+	"versement_liberatoire" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "acre" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "chamber" varchar(4) DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE "income_tax_options" ADD CONSTRAINT "income_tax_options_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "income_tax_options_user_year_idx" ON "income_tax_options" USING btree ("user_id","year");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "income_tax_options" ADD COLUMN "reference_tax_income" numeric(12, 2);
\ No newline at end of file
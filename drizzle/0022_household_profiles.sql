@@ -0,0 +1,27 @@
+CREATE TABLE "household_incomes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"year" integer NOT NULL,
+	"category" varchar(20) NOT NULL,
+	"label" varchar(255) NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "household_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"year" integer NOT NULL,
+	"marital_status" varchar(10) DEFAULT 'single' NOT NULL,
+	"children" integer DEFAULT 0 NOT NULL,
+	"single_parent" boolean DEFAULT false NOT NULL,
+	"parts" numeric(4, 2),
+	"spouse_salary" numeric(12, 2) DEFAULT '0.00' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "household_incomes" ADD CONSTRAINT "household_incomes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_profiles" ADD CONSTRAINT "household_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "household_incomes_user_year_idx" ON "household_incomes" USING btree ("user_id","year");--> statement-breakpoint
+CREATE UNIQUE INDEX "household_profiles_user_year_idx" ON "household_profiles" USING btree ("user_id","year");
\ No newline at end of file
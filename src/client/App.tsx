@@ -4,11 +4,14 @@ import ProtectedRoute from './components/ProtectedRoute'
 import Dashboard from './pages/Dashboard'
 import Invoices from './pages/Invoices'
 import InvoiceSettings from './pages/InvoiceSettings'
+import Quotes from './pages/Quotes'
 import Expenses from './pages/Expenses'
 import TVA from './pages/TVA'
 import TvaDeclaration from './pages/TvaDeclaration'
+import DesDeclaration from './pages/DesDeclaration'
 import Urssaf from './pages/Urssaf'
 import BusinessAccount from './pages/BusinessAccount'
+import BankReconciliation from './pages/BankReconciliation'
 import IncomeTax from './pages/IncomeTax'
 import Calculator from './pages/Calculator'
 import Settings from './pages/Settings'
@@ -32,11 +35,14 @@ function App() {
         <Route index element={<Dashboard />} />
         <Route path="invoices" element={<Invoices />} />
         <Route path="invoices/settings" element={<InvoiceSettings />} />
+        <Route path="quotes" element={<Quotes />} />
         <Route path="expenses" element={<Expenses />} />
         <Route path="tva" element={<TVA />} />
         <Route path="tva/declaration" element={<TvaDeclaration />} />
+        <Route path="tva/des" element={<DesDeclaration />} />
         <Route path="urssaf" element={<Urssaf />} />
         <Route path="account" element={<BusinessAccount />} />
+        <Route path="bank" element={<BankReconciliation />} />
         <Route path="income-tax" element={<IncomeTax />} />
         <Route path="calculator" element={<Calculator />} />
         <Route path="settings" element={<Settings />} />
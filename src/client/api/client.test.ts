@@ -139,6 +139,35 @@ describe('ApiClient', () => {
     })
   })
 
+  describe('Blob requests', () => {
+    it('returns the response body as a Blob', async () => {
+      const blob = new Blob(['%PDF-1.3'], { type: 'application/pdf' })
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        blob: () => Promise.resolve(blob),
+      })
+
+      const result = await api.getBlob('/invoices/1/pdf')
+
+      expect(result).toBe(blob)
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/invoices/1/pdf',
+        expect.objectContaining({ method: 'GET', credentials: 'include' })
+      )
+    })
+
+    it('throws Error with message from JSON error response', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ message: 'Profil émetteur manquant' }),
+      })
+
+      await expect(api.getBlob('/invoices/1/pdf')).rejects.toThrow('Profil émetteur manquant')
+    })
+  })
+
   describe('error handling', () => {
     it('throws Error with message from API response', async () => {
       mockFetch.mockResolvedValueOnce({
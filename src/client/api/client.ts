@@ -40,6 +40,23 @@ class ApiClient {
     return response.json()
   }
 
+  // Binary responses (e.g. generated PDFs); errors are still returned as JSON
+  async getBlob(endpoint: string): Promise<Blob> {
+    const response = await fetch(`${API_BASE}${endpoint}`, {
+      method: 'GET',
+      credentials: 'include',
+    })
+
+    if (!response.ok) {
+      const error: ApiError = await response.json().catch(() => ({
+        message: 'Une erreur est survenue',
+      }))
+      throw new Error(error.message)
+    }
+
+    return response.blob()
+  }
+
   async get<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'GET' })
   }
@@ -0,0 +1,107 @@
+import { DataTable, type DataTableColumn } from './ui/DataTable'
+import type { AgingBucket, AgingReport } from '@shared/types'
+
+interface AgingReportSectionProps {
+  report: AgingReport
+}
+
+const bucketLabels: Record<AgingBucket, string> = {
+  current: 'Non échu',
+  days1to30: '1-30 j',
+  days31to60: '31-60 j',
+  days61to90: '61-90 j',
+  over90: '+90 j',
+}
+
+const buckets = Object.keys(bucketLabels) as AgingBucket[]
+
+const agingColumns: DataTableColumn[] = [
+  { key: 'client', label: 'Client', className: 'w-[200px]' },
+  ...buckets.map((bucket) => ({ key: bucket, label: bucketLabels[bucket], className: 'text-right' })),
+  { key: 'total', label: 'Total', className: 'text-right' },
+]
+
+const overdueColumns: DataTableColumn[] = [
+  { key: 'invoice', label: 'Facture', className: 'w-[200px]' },
+  { key: 'due-date', label: 'Échéance' },
+  { key: 'outstanding', label: 'Restant dû', className: 'text-right' },
+  { key: 'penalty', label: 'Pénalités', className: 'text-right' },
+  { key: 'indemnity', label: 'Indemnité', className: 'text-right' },
+  { key: 'total', label: 'Total exigible', className: 'text-right' },
+]
+
+function formatCurrency(amount: string | number): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(num)
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('fr-FR', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+export function AgingReportSection({ report }: AgingReportSectionProps) {
+  const rate = parseFloat(report.latePenaltyRate).toFixed(2).replace('.', ',')
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-end justify-between gap-3">
+        <h2 className="font-['Space_Grotesk'] text-lg font-semibold text-(--text-primary)">Balance âgée</h2>
+        <p className="text-xs text-(--text-secondary)">
+          {formatCurrency(report.total)} à encaisser, dont {formatCurrency(report.overdueTotal)} échus
+        </p>
+      </div>
+
+      <DataTable columns={agingColumns} minWidthClassName="min-w-[760px]">
+        {report.clients.map((entry, index) => (
+          <tr
+            key={entry.clientId}
+            className={['h-11 border-b border-(--border-default)', index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)'].join(' ')}
+          >
+            <td className="px-4 text-sm font-medium text-(--text-primary)">{entry.client}</td>
+            {buckets.map((bucket) => (
+              <td
+                key={bucket}
+                className={[
+                  'px-4 text-right text-sm',
+                  parseFloat(entry.buckets[bucket]) === 0
+                    ? 'text-(--text-tertiary)'
+                    : bucket === 'current' ? 'text-(--text-primary)' : 'text-[#B91C1C]',
+                ].join(' ')}
+              >
+                {formatCurrency(entry.buckets[bucket])}
+              </td>
+            ))}
+            <td className="px-4 text-right text-sm font-semibold text-(--text-primary)">{formatCurrency(entry.total)}</td>
+          </tr>
+        ))}
+      </DataTable>
+
+      {report.overdueInvoices.length > 0 && (
+        <>
+          <p className="text-xs text-(--text-secondary)">
+            Pénalités au taux annuel de {rate} % et indemnité forfaitaire de recouvrement de 40 € par facture (art. L441-10 et D441-5 du Code de commerce).
+          </p>
+          <DataTable columns={overdueColumns} minWidthClassName="min-w-[760px]">
+            {report.overdueInvoices.map((invoice, index) => (
+              <tr
+                key={invoice.invoiceId}
+                className={['h-11 border-b border-(--border-default)', index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)'].join(' ')}
+              >
+                <td className="px-4 text-sm text-(--text-primary)">
+                  <span className="font-mono text-xs">{invoice.invoiceNumber || '-'}</span> {invoice.client}
+                </td>
+                <td className="px-4 text-sm text-[#B91C1C]">
+                  {formatDate(invoice.dueDate)} <span className="text-xs">({invoice.daysOverdue} j)</span>
+                </td>
+                <td className="px-4 text-right text-sm">{formatCurrency(invoice.outstanding)}</td>
+                <td className="px-4 text-right text-sm">{formatCurrency(invoice.latePenalty)}</td>
+                <td className="px-4 text-right text-sm">{formatCurrency(invoice.recoveryIndemnity)}</td>
+                <td className="px-4 text-right text-sm font-semibold">{formatCurrency(invoice.totalDue)}</td>
+              </tr>
+            ))}
+          </DataTable>
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,116 @@
+import { CalendarPlus, Copy, Loader2, RefreshCw } from 'lucide-react'
+import {
+  calendarFeedUrl,
+  useCalendarFeed,
+  useDisableCalendarFeed,
+  useEnableCalendarFeed,
+} from '../hooks/useCalendar'
+import { AppButton } from './ui/AppButton'
+
+interface CalendarFeedSectionProps {
+  onSuccess: (message: string) => void
+  onError: (message: string) => void
+}
+
+export function CalendarFeedSection({ onSuccess, onError }: CalendarFeedSectionProps) {
+  const { data: feed, isLoading } = useCalendarFeed()
+  const enableMutation = useEnableCalendarFeed()
+  const disableMutation = useDisableCalendarFeed()
+  const url = feed?.token ? calendarFeedUrl(feed.token) : null
+
+  const handleEnable = async () => {
+    try {
+      await enableMutation.mutateAsync()
+      onSuccess(url
+        ? 'Nouvelle adresse générée : l\'ancienne ne fonctionne plus'
+        : 'Calendrier activé : abonnez-vous à son adresse depuis votre agenda')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de l\'activation du calendrier')
+    }
+  }
+
+  const handleDisable = async () => {
+    try {
+      await disableMutation.mutateAsync()
+      onSuccess('Calendrier désactivé')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de la désactivation du calendrier')
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!url) return
+    try {
+      await navigator.clipboard.writeText(url)
+      onSuccess('Adresse du calendrier copiée')
+    } catch {
+      onError('Impossible de copier l\'adresse')
+    }
+  }
+
+  return (
+    <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-5 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+      <div className="flex flex-col gap-4">
+        <div className="space-y-1">
+          <h2 className="font-['Space_Grotesk'] text-sm font-semibold text-(--text-primary)">Calendrier des échéances</h2>
+          <p className="text-xs text-(--text-secondary)">
+            Déclarations Urssaf, TVA, CFE, acomptes et déclaration de revenus dans votre agenda (Google Agenda, Outlook, Calendrier Apple),
+            avec un rappel 3 jours avant chaque échéance. Toute personne disposant de l'adresse peut lire le calendrier.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-(--text-tertiary)" />
+        ) : url ? (
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={url}
+                className="h-8 w-full rounded-lg border border-(--border-default) bg-(--bg-hover) px-3 font-mono text-xs text-(--text-primary) outline-none"
+                onFocus={(e) => e.target.select()}
+              />
+              <AppButton type="button" variant="outline" size="sm" startIcon={<Copy className="h-4 w-4" />} onClick={handleCopy}>
+                Copier
+              </AppButton>
+            </div>
+            <div className="flex gap-2">
+              <AppButton
+                type="button"
+                variant="outline"
+                size="sm"
+                startIcon={enableMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                onClick={handleEnable}
+                disabled={enableMutation.isPending}
+              >
+                Générer une nouvelle adresse
+              </AppButton>
+              <AppButton
+                type="button"
+                variant="danger-outline"
+                size="sm"
+                onClick={handleDisable}
+                disabled={disableMutation.isPending}
+              >
+                Désactiver
+              </AppButton>
+            </div>
+          </div>
+        ) : (
+          <div>
+            <AppButton
+              type="button"
+              variant="outline"
+              size="sm"
+              startIcon={enableMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarPlus className="h-4 w-4" />}
+              onClick={handleEnable}
+              disabled={enableMutation.isPending}
+            >
+              Activer le calendrier
+            </AppButton>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { useState, type FormEvent } from 'react'
+import { Plus, Upload, Loader2, Trash2 } from 'lucide-react'
+import {
+  useExchangeRates,
+  useCreateExchangeRate,
+  useImportExchangeRates,
+  useDeleteExchangeRate,
+} from '../hooks/useExchangeRates'
+import { AppButton } from './ui/AppButton'
+import { Select } from './ui/Select'
+
+interface ExchangeRatesSectionProps {
+  onSuccess: (message: string) => void
+  onError: (message: string) => void
+}
+
+// Currencies offered in the invoice and expense forms, euro first
+export const currencyOptions = [
+  { value: 'EUR', label: 'EUR - Euro' },
+  { value: 'USD', label: 'USD - Dollar américain' },
+  { value: 'GBP', label: 'GBP - Livre sterling' },
+  { value: 'CHF', label: 'CHF - Franc suisse' },
+  { value: 'CAD', label: 'CAD - Dollar canadien' },
+  { value: 'JPY', label: 'JPY - Yen' },
+  { value: 'AUD', label: 'AUD - Dollar australien' },
+  { value: 'SEK', label: 'SEK - Couronne suédoise' },
+  { value: 'DKK', label: 'DKK - Couronne danoise' },
+  { value: 'NOK', label: 'NOK - Couronne norvégienne' },
+  { value: 'PLN', label: 'PLN - Zloty' },
+]
+
+const foreignCurrencyOptions = currencyOptions.filter((option) => option.value !== 'EUR')
+
+const inputClass =
+  'h-8 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none focus:border-(--color-primary)'
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('fr-FR', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+export function ExchangeRatesSection({ onSuccess, onError }: ExchangeRatesSectionProps) {
+  const [filterCurrency, setFilterCurrency] = useState('')
+  const { data, isLoading } = useExchangeRates(filterCurrency || undefined)
+  const createMutation = useCreateExchangeRate()
+  const importMutation = useImportExchangeRates()
+  const deleteMutation = useDeleteExchangeRate()
+  const [currency, setCurrency] = useState('USD')
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0])
+  const [rate, setRate] = useState('')
+  const [fileContent, setFileContent] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [importFrom, setImportFrom] = useState(`${new Date().getFullYear() - 1}-01-01`)
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setFileContent(await file.text())
+  }
+
+  const handleImport = async () => {
+    if (!fileContent) {
+      onError('Sélectionnez un fichier de cours BCE')
+      return
+    }
+
+    try {
+      const result = await importMutation.mutateAsync({
+        content: fileContent,
+        currencies: foreignCurrencyOptions.map((option) => option.value),
+        from: importFrom || undefined,
+      })
+      onSuccess(result.imported > 0
+        ? `${result.imported} cours importés (${result.currencies.join(', ')}) du ${formatDate(result.from!)} au ${formatDate(result.to!)}`
+        : 'Aucun cours à importer pour ces devises et cette période')
+      setFileContent('')
+      setFileName('')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de l\'import')
+    }
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+
+    try {
+      await createMutation.mutateAsync({ currency, date, rate: parseFloat(rate) })
+      onSuccess(`Cours ${currency} du ${formatDate(date)} enregistré`)
+      setRate('')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de la sauvegarde')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMutation.mutateAsync(id)
+      onSuccess('Cours supprimé')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de la suppression')
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-5 shadow-[0_1px_4px_rgba(0,0,0,0.06)]"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="space-y-1">
+          <h2 className="font-['Space_Grotesk'] text-sm font-semibold text-(--text-primary)">Taux de change</h2>
+          <p className="text-xs text-(--text-secondary)">
+            Cours de référence de la BCE (1 EUR = taux × devise), utilisés pour convertir en euros les factures et dépenses en devises.
+            Importez eurofxref.csv ou eurofxref-hist.csv, ou saisissez un cours.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-[1fr_160px_auto] items-end gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-(--text-primary)">Fichier BCE</span>
+            <input
+              type="file"
+              accept=".csv,.txt"
+              className="file-input file-input-bordered file-input-sm w-full text-sm"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+            {fileName ? <span className="text-[11px] text-(--text-tertiary)">{fileName}</span> : null}
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-(--text-primary)">À partir du</span>
+            <input
+              type="date"
+              className={inputClass}
+              value={importFrom}
+              onChange={(e) => setImportFrom(e.target.value)}
+            />
+          </label>
+          <AppButton
+            type="button"
+            variant="outline"
+            startIcon={importMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            onClick={handleImport}
+            disabled={importMutation.isPending}
+          >
+            Importer
+          </AppButton>
+        </div>
+
+        <div className="grid grid-cols-[1fr_160px_140px_auto] items-end gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-(--text-primary)">Devise *</span>
+            <Select value={currency} onChange={(e) => setCurrency(e.target.value)} options={foreignCurrencyOptions} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-(--text-primary)">Date *</span>
+            <input type="date" className={inputClass} value={date} onChange={(e) => setDate(e.target.value)} required />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-(--text-primary)">Taux *</span>
+            <input
+              type="number"
+              step="0.000001"
+              min="0"
+              className={inputClass}
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="1.168100"
+              required
+            />
+          </label>
+          <AppButton
+            type="submit"
+            startIcon={createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            disabled={createMutation.isPending}
+          >
+            Ajouter
+          </AppButton>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-xs text-(--text-secondary)">
+            {data ? `${data.total} cours enregistré(s)` : ''}
+          </span>
+          <div className="w-56">
+            <Select
+              value={filterCurrency}
+              onChange={(e) => setFilterCurrency(e.target.value)}
+              options={[{ value: '', label: 'Toutes les devises' }, ...foreignCurrencyOptions]}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : data && data.data.length > 0 ? (
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="h-9 border-b border-(--border-default) text-[11px] uppercase tracking-[0.08em] text-(--text-tertiary)">
+                  <th className="text-left font-semibold">Date</th>
+                  <th className="text-left font-semibold">Devise</th>
+                  <th className="text-right font-semibold">1 EUR =</th>
+                  <th className="text-left font-semibold pl-4">Source</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {data.data.map((entry) => (
+                  <tr key={entry.id} className="h-9 border-b border-(--border-default)">
+                    <td className="text-(--text-primary)">{formatDate(entry.date)}</td>
+                    <td className="font-mono text-(--text-primary)">{entry.currency}</td>
+                    <td className="text-right font-mono text-(--text-primary)">{parseFloat(entry.rate)}</td>
+                    <td className="pl-4 text-xs text-(--text-secondary)">{entry.source === 'ecb' ? 'BCE' : 'Saisie'}</td>
+                    <td className="text-center">
+                      <button
+                        type="button"
+                        className="inline-flex h-7 w-7 items-center justify-center rounded-md text-[#DC2626] transition-colors hover:bg-[#FEE2E2] disabled:cursor-not-allowed disabled:opacity-40"
+                        onClick={() => handleDelete(entry.id)}
+                        disabled={deleteMutation.isPending}
+                        title="Supprimer"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="py-4 text-center text-xs text-(--text-tertiary)">Aucun cours enregistré</p>
+        )}
+      </div>
+    </form>
+  )
+}
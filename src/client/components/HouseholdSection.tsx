@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react'
+import { Check, Loader2, Plus, Trash2 } from 'lucide-react'
+import type { HouseholdIncomeCategory, MaritalStatus } from '@shared/types'
+import { useHousehold, useSetHousehold } from '../hooks/useSettings'
+import { householdIncomeCategoryOptions, isCouple, maritalStatusOptions } from '../utils/household'
+import { MathInput } from './MathInput'
+import { AppButton } from './ui/AppButton'
+import { Select } from './ui/Select'
+import { Switch } from './ui/Switch'
+
+interface HouseholdSectionProps {
+  year: number
+  onSuccess: (message: string) => void
+  onError: (message: string) => void
+}
+
+interface IncomeDraft {
+  category: HouseholdIncomeCategory
+  label: string
+  amount: number
+}
+
+function formatCurrency(amount: string | number): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'currency',
+    currency: 'EUR',
+  }).format(num)
+}
+
+function formatParts(parts: number): string {
+  return `${parts.toLocaleString('fr-FR')} part${parts > 1 ? 's' : ''}`
+}
+
+const inputClassName = 'input h-10 w-full border-(--border-default) bg-(--card-bg) text-sm focus:border-(--border-focus) focus:outline-none'
+
+export function HouseholdSection({ year, onSuccess, onError }: HouseholdSectionProps) {
+  const { data: household, isLoading } = useHousehold(year)
+  const setHouseholdMutation = useSetHousehold()
+
+  const [maritalStatus, setMaritalStatus] = useState<MaritalStatus>('single')
+  const [children, setChildren] = useState('0')
+  const [singleParent, setSingleParent] = useState(false)
+  const [parts, setParts] = useState('')
+  const [spouseSalary, setSpouseSalary] = useState(0)
+  const [incomes, setIncomes] = useState<IncomeDraft[]>([])
+
+  useEffect(() => {
+    if (!household) return
+    setMaritalStatus(household.maritalStatus)
+    setChildren(household.children.toString())
+    setSingleParent(household.singleParent)
+    setParts(household.parts !== null ? household.parts.toString() : '')
+    setSpouseSalary(parseFloat(household.spouseSalary))
+    setIncomes(household.incomes.map((income) => ({
+      category: income.category,
+      label: income.label,
+      amount: parseFloat(income.amount),
+    })))
+  }, [household])
+
+  const couple = isCouple(maritalStatus)
+  const childCount = parseInt(children) || 0
+
+  const updateIncome = (index: number, changes: Partial<IncomeDraft>) => {
+    setIncomes((prev) => prev.map((income, i) => (i === index ? { ...income, ...changes } : income)))
+  }
+
+  const handleSave = async () => {
+    try {
+      await setHouseholdMutation.mutateAsync({
+        year,
+        maritalStatus,
+        children: childCount,
+        singleParent: !couple && childCount > 0 && singleParent,
+        parts: parts.trim() ? parseFloat(parts.replace(',', '.')) : null,
+        spouseSalary: couple ? spouseSalary : 0,
+        incomes: incomes.map((income) => ({ ...income, label: income.label.trim() })),
+      })
+      onSuccess(`Foyer fiscal ${year} enregistré`)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement du foyer fiscal')
+    }
+  }
+
+  return (
+    <section className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-6 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">Foyer fiscal {year}</h2>
+        {household && (
+          <span className="text-[13px] font-medium text-(--text-secondary)">
+            {formatParts(household.parts ?? household.computedParts)}
+            {!household.saved && ' (par défaut)'}
+          </span>
+        )}
+      </div>
+      <p className="mt-3 max-w-275 text-[13px] leading-relaxed text-(--text-secondary)">
+        La situation de famille fixe le nombre de parts du quotient familial, dont l'avantage est plafonné par demi-part.
+        Les autres revenus du foyer s'ajoutent au revenu de l'activité, chacun après sa déduction forfaitaire.
+        Vous pouvez utiliser des expressions mathématiques dans les montants (ex: 1000 + 500).
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="mt-4 h-4 w-4 animate-spin text-(--text-tertiary)" />
+      ) : (
+        <div className="mt-4 flex flex-col gap-5">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            <label className="flex flex-col gap-1.5">
+              <span className="text-[13px] font-medium text-(--text-secondary)">Situation de famille</span>
+              <Select
+                value={maritalStatus}
+                onChange={(e) => setMaritalStatus(e.target.value as MaritalStatus)}
+                options={maritalStatusOptions}
+              />
+            </label>
+            <label className="flex flex-col gap-1.5">
+              <span className="text-[13px] font-medium text-(--text-secondary)">Enfants à charge</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                className={inputClassName}
+                value={children}
+                onChange={(e) => setChildren(e.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1.5">
+              <span className="text-[13px] font-medium text-(--text-secondary)">Nombre de parts</span>
+              <input
+                type="number"
+                min="1"
+                step="0.25"
+                className={inputClassName}
+                value={parts}
+                onChange={(e) => setParts(e.target.value)}
+                placeholder={household ? `Calculé (${household.computedParts.toLocaleString('fr-FR')})` : 'Calculé'}
+              />
+            </label>
+            {couple && (
+              <label className="flex flex-col gap-1.5">
+                <span className="text-[13px] font-medium text-(--text-secondary)">Salaire imposable du conjoint (EUR)</span>
+                <MathInput
+                  value={spouseSalary}
+                  onChange={setSpouseSalary}
+                  className="h-10 border-(--border-default)! bg-(--card-bg)!"
+                />
+              </label>
+            )}
+          </div>
+
+          {!couple && childCount > 0 && (
+            <Switch
+              checked={singleParent}
+              onChange={(e) => setSingleParent(e.target.checked)}
+              label="Parent isolé (case T) : vous vivez seul(e) avec vos enfants"
+            />
+          )}
+
+          <div className="flex flex-col gap-2">
+            <span className="text-[13px] font-medium text-(--text-secondary)">Autres revenus du foyer</span>
+            {incomes.length === 0 && (
+              <p className="text-[13px] text-(--text-tertiary)">Aucun autre revenu pour {year}.</p>
+            )}
+            {incomes.map((income, index) => (
+              <div key={index} className="grid grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)_160px_auto] items-center gap-2">
+                <Select
+                  value={income.category}
+                  onChange={(e) => updateIncome(index, { category: e.target.value as HouseholdIncomeCategory })}
+                  options={householdIncomeCategoryOptions}
+                />
+                <input
+                  type="text"
+                  className={inputClassName}
+                  value={income.label}
+                  onChange={(e) => updateIncome(index, { label: e.target.value })}
+                  placeholder="Libellé"
+                />
+                <MathInput
+                  value={income.amount}
+                  onChange={(amount) => updateIncome(index, { amount })}
+                  className="h-10 border-(--border-default)! bg-(--card-bg)!"
+                />
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-xs h-6 min-h-6 w-6 p-0 text-(--color-error) hover:bg-transparent"
+                  onClick={() => setIncomes((prev) => prev.filter((_, i) => i !== index))}
+                  title="Supprimer"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            {household && household.incomes.some((income) => parseFloat(income.deduction) > 0) && (
+              <p className="text-xs text-(--text-tertiary)">
+                Après déductions :{' '}
+                {household.incomes.map((income) => `${income.label} ${formatCurrency(income.net)}`).join(', ')}
+              </p>
+            )}
+            <div>
+              <AppButton
+                type="button"
+                variant="outline"
+                size="sm"
+                startIcon={<Plus className="h-4 w-4" />}
+                onClick={() => setIncomes((prev) => [...prev, { category: 'salary', label: '', amount: 0 }])}
+              >
+                Ajouter un revenu
+              </AppButton>
+            </div>
+          </div>
+
+          <div>
+            <AppButton
+              startIcon={setHouseholdMutation.isPending ? <span className="loading loading-spinner loading-xs"></span> : <Check className="h-4 w-4" />}
+              onClick={handleSave}
+              disabled={setHouseholdMutation.isPending}
+            >
+              Enregistrer le foyer
+            </AppButton>
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect, type FormEvent } from 'react'
+import { Save, Loader2 } from 'lucide-react'
+import { useSettings, useUpdateSettings } from '../hooks/useSettings'
+import { AppButton } from './ui/AppButton'
+import { Select } from './ui/Select'
+import type { NumberingReset } from '@shared/types'
+
+interface InvoiceNumberingSectionProps {
+  onSuccess: (message: string) => void
+  onError: (message: string) => void
+}
+
+const resetOptions = [
+  { value: 'yearly', label: 'Chaque année' },
+  { value: 'monthly', label: 'Chaque mois' },
+  { value: 'never', label: 'Jamais' },
+]
+
+const inputClass =
+  'h-8 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 font-mono text-sm text-(--text-primary) outline-none focus:border-(--color-primary)'
+
+// Mirrors the server formatting so the preview matches the next allocated number
+function previewNumber(pattern: string, sequence: number): string {
+  const [year, month] = new Date().toISOString().split('T')[0].split('-')
+  return pattern.replace(/\{(YYYY|YY|MM|SEQ:([1-8]))\}/g, (_, token: string, width?: string) => {
+    if (token === 'YYYY') return year
+    if (token === 'YY') return year.slice(2)
+    if (token === 'MM') return month
+    return sequence.toString().padStart(Number(width), '0')
+  })
+}
+
+export function InvoiceNumberingSection({ onSuccess, onError }: InvoiceNumberingSectionProps) {
+  const { data: settings, isLoading } = useSettings()
+  const updateMutation = useUpdateSettings()
+  const [pattern, setPattern] = useState('{YYYY}{MM}{SEQ:2}')
+  const [reset, setReset] = useState<NumberingReset>('yearly')
+
+  useEffect(() => {
+    if (settings) {
+      setPattern(settings.invoiceNumberPattern)
+      setReset(settings.invoiceNumberReset)
+    }
+  }, [settings])
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+
+    try {
+      await updateMutation.mutateAsync({ invoiceNumberPattern: pattern.trim(), invoiceNumberReset: reset })
+      onSuccess('Numérotation des factures enregistrée')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de la sauvegarde')
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-5 shadow-[0_1px_4px_rgba(0,0,0,0.06)]"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="space-y-1">
+          <h2 className="font-['Space_Grotesk'] text-sm font-semibold text-(--text-primary)">Numérotation des factures</h2>
+          <p className="text-xs text-(--text-secondary)">
+            Variables disponibles : {'{YYYY}'}, {'{YY}'}, {'{MM}'} et {'{SEQ:n}'} (compteur sur n chiffres). Les numéros se suivent sans trou ni doublon.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-(--text-primary)">Format *</span>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="F-{YYYY}-{SEQ:4}"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                required
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-(--text-primary)">Remise à zéro du compteur</span>
+              <Select
+                value={reset}
+                onChange={(e) => setReset(e.target.value as NumberingReset)}
+                options={resetOptions}
+              />
+            </label>
+            <p className="col-span-2 text-xs text-(--text-secondary)">
+              Exemple : <span className="font-mono text-(--text-primary)">{previewNumber(pattern, 1)}</span>
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <AppButton
+            type="submit"
+            startIcon={updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            disabled={updateMutation.isPending}
+          >
+            Enregistrer
+          </AppButton>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect, type FormEvent } from 'react'
+import { Save, Loader2 } from 'lucide-react'
+import { useIssuerProfile, useUpdateIssuerProfile } from '../hooks/useSettings'
+import { AppButton } from './ui/AppButton'
+import { Checkbox } from './ui/Checkbox'
+import type { UpdateIssuerProfileInput } from '@shared/types'
+
+interface IssuerProfileSectionProps {
+  onSuccess: (message: string) => void
+  onError: (message: string) => void
+}
+
+interface IssuerFormData {
+  companyName: string
+  legalForm: string
+  address: string
+  postalCode: string
+  city: string
+  country: string
+  siret: string
+  tvaNumber: string
+  email: string
+  phone: string
+  iban: string
+  bic: string
+  paymentTermsDays: string
+  paymentTermsEndOfMonth: boolean
+  latePenaltyRate: string
+}
+
+const emptyForm: IssuerFormData = {
+  companyName: '',
+  legalForm: 'Entrepreneur individuel (EI)',
+  address: '',
+  postalCode: '',
+  city: '',
+  country: 'France',
+  siret: '',
+  tvaNumber: '',
+  email: '',
+  phone: '',
+  iban: '',
+  bic: '',
+  paymentTermsDays: '30',
+  paymentTermsEndOfMonth: false,
+  latePenaltyRate: '12.15',
+}
+
+const inputClass =
+  'h-8 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none focus:border-(--color-primary)'
+
+export function IssuerProfileSection({ onSuccess, onError }: IssuerProfileSectionProps) {
+  const { data: profile, isLoading } = useIssuerProfile()
+  const updateMutation = useUpdateIssuerProfile()
+  const [formData, setFormData] = useState<IssuerFormData>(emptyForm)
+
+  useEffect(() => {
+    if (profile) {
+      setFormData({
+        companyName: profile.companyName,
+        legalForm: profile.legalForm,
+        address: profile.address,
+        postalCode: profile.postalCode,
+        city: profile.city,
+        country: profile.country,
+        siret: profile.siret,
+        tvaNumber: profile.tvaNumber || '',
+        email: profile.email || '',
+        phone: profile.phone || '',
+        iban: profile.iban || '',
+        bic: profile.bic || '',
+        paymentTermsDays: profile.paymentTermsDays.toString(),
+        paymentTermsEndOfMonth: profile.paymentTermsEndOfMonth,
+        latePenaltyRate: profile.latePenaltyRate,
+      })
+    }
+  }, [profile])
+
+  const updateField = <K extends keyof IssuerFormData>(field: K, value: IssuerFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+
+    const data: UpdateIssuerProfileInput = {
+      companyName: formData.companyName.trim(),
+      legalForm: formData.legalForm.trim() || undefined,
+      address: formData.address.trim(),
+      postalCode: formData.postalCode.trim(),
+      city: formData.city.trim(),
+      country: formData.country.trim() || undefined,
+      siret: formData.siret.replace(/\s/g, ''),
+      tvaNumber: formData.tvaNumber.replace(/\s/g, '').toUpperCase() || null,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+      iban: formData.iban.replace(/\s/g, '').toUpperCase() || null,
+      bic: formData.bic.trim().toUpperCase() || null,
+      paymentTermsDays: parseInt(formData.paymentTermsDays) || 0,
+      paymentTermsEndOfMonth: formData.paymentTermsEndOfMonth,
+      latePenaltyRate: parseFloat(formData.latePenaltyRate) || 0,
+    }
+
+    try {
+      await updateMutation.mutateAsync(data)
+      onSuccess('Informations émetteur enregistrées')
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de la sauvegarde')
+    }
+  }
+
+  const fields: { key: Exclude<keyof IssuerFormData, 'paymentTermsEndOfMonth'>; label: string; placeholder?: string; required?: boolean; type?: string }[] = [
+    { key: 'companyName', label: 'Nom ou raison sociale', placeholder: 'Jean Dupont', required: true },
+    { key: 'legalForm', label: 'Forme juridique', placeholder: 'Entrepreneur individuel (EI)' },
+    { key: 'siret', label: 'SIRET', placeholder: '12345678900012', required: true },
+    { key: 'tvaNumber', label: 'N° TVA intracommunautaire', placeholder: 'FR12345678901' },
+    { key: 'address', label: 'Adresse', placeholder: '12 rue de la Paix', required: true },
+    { key: 'postalCode', label: 'Code postal', placeholder: '75002', required: true },
+    { key: 'city', label: 'Ville', placeholder: 'Paris', required: true },
+    { key: 'country', label: 'Pays', placeholder: 'France' },
+    { key: 'email', label: 'Email', placeholder: 'contact@exemple.fr', type: 'email' },
+    { key: 'phone', label: 'Téléphone', placeholder: '06 12 34 56 78' },
+    { key: 'iban', label: 'IBAN', placeholder: 'FR76 3000 6000 0112 3456 7890 189' },
+    { key: 'bic', label: 'BIC', placeholder: 'AGRIFRPP' },
+    { key: 'paymentTermsDays', label: 'Délai de paiement (jours)', placeholder: '30', type: 'number' },
+    { key: 'latePenaltyRate', label: 'Taux des pénalités de retard (%)', placeholder: '12.15', type: 'number' },
+  ]
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-5 shadow-[0_1px_4px_rgba(0,0,0,0.06)]"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="space-y-1">
+          <h2 className="font-['Space_Grotesk'] text-sm font-semibold text-(--text-primary)">Informations émetteur</h2>
+          <p className="text-xs text-(--text-secondary)">
+            Mentions légales imprimées sur vos factures PDF (SIRET, TVA, conditions de paiement).
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {fields.map((field) => (
+              <label key={field.key} className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-(--text-primary)">
+                  {field.label}{field.required ? ' *' : ''}
+                </span>
+                <input
+                  type={field.type ?? 'text'}
+                  step={field.type === 'number' ? '0.01' : undefined}
+                  min={field.type === 'number' ? '0' : undefined}
+                  className={inputClass}
+                  placeholder={field.placeholder}
+                  value={formData[field.key]}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  required={field.required}
+                />
+              </label>
+            ))}
+            <div className="col-span-2">
+              <Checkbox
+                checked={formData.paymentTermsEndOfMonth}
+                onChange={(e) => updateField('paymentTermsEndOfMonth', e.target.checked)}
+                label="Échéance en fin de mois"
+                description="Le délai court jusqu'à la fin du mois atteint (45 jours maximum)"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <AppButton
+            type="submit"
+            startIcon={updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            disabled={updateMutation.isPending}
+          >
+            Enregistrer
+          </AppButton>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react'
+import { Send, X } from 'lucide-react'
+import { useInvoiceReminders, usePreviewReminder, useSendReminder } from '../hooks/useReminders'
+import { useSnackbar } from '../contexts/SnackbarContext'
+import { AppButton } from './ui/AppButton'
+import { Select } from './ui/Select'
+import { reminderLevelLabels } from './ReminderTemplatesSection'
+import type { Invoice, ReminderLevel } from '@shared/types'
+
+interface ReminderModalProps {
+  invoice: Invoice
+  onClose: () => void
+}
+
+interface ReminderFormData {
+  level: ReminderLevel
+  recipient: string
+  subject: string
+  body: string
+}
+
+const fieldLabelClass = 'mb-1.5 block text-[11px] font-semibold uppercase tracking-[0.06em] text-(--text-tertiary)'
+const inputClass =
+  'h-10 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
+const textareaClass =
+  'h-64 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 py-2 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('fr-FR', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+export function ReminderModal({ invoice, onClose }: ReminderModalProps) {
+  const { showSuccess, showError } = useSnackbar()
+  const { data: reminders } = useInvoiceReminders(invoice.id)
+  const previewMutation = usePreviewReminder()
+  const sendMutation = useSendReminder()
+  const [form, setForm] = useState<ReminderFormData | null>(null)
+  const [suggestedLevel, setSuggestedLevel] = useState<ReminderLevel | null>(null)
+  const [daysOverdue, setDaysOverdue] = useState(0)
+
+  const loadPreview = async (level?: ReminderLevel) => {
+    try {
+      const preview = await previewMutation.mutateAsync({ invoiceId: invoice.id, level })
+      setSuggestedLevel(preview.suggestedLevel)
+      setDaysOverdue(preview.daysOverdue)
+      setForm((current) => ({
+        level: preview.level,
+        recipient: current?.recipient || preview.recipient || '',
+        subject: preview.subject,
+        body: preview.body,
+      }))
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Impossible de préparer la relance')
+      onClose()
+    }
+  }
+
+  useEffect(() => {
+    loadPreview()
+  }, [invoice.id])
+
+  const updateField = <K extends keyof ReminderFormData>(field: K, value: ReminderFormData[K]) => {
+    setForm((current) => (current ? { ...current, [field]: value } : current))
+  }
+
+  const handleSend = async () => {
+    if (!form) return
+
+    try {
+      await sendMutation.mutateAsync({
+        invoiceId: invoice.id,
+        data: {
+          level: form.level,
+          recipient: form.recipient.trim(),
+          subject: form.subject.trim(),
+          body: form.body.trim(),
+        },
+      })
+      showSuccess(`Relance envoyée à ${form.recipient.trim()}`)
+      onClose()
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erreur lors de l\'envoi de la relance')
+    }
+  }
+
+  const levelOptions = (Object.keys(reminderLevelLabels) as ReminderLevel[]).map((level) => ({
+    value: level,
+    label: level === suggestedLevel ? `${reminderLevelLabels[level]} (suggéré)` : reminderLevelLabels[level],
+  }))
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box my-6 w-[calc(100%-1.5rem)] max-w-2xl rounded-[10px] border border-(--border-default) bg-(--card-bg) p-0 shadow-[0_12px_34px_rgba(17,24,39,0.16)] sm:w-[calc(100%-2rem)]">
+        <header className="px-5 pb-2 pt-4">
+          <div className="flex items-start justify-between gap-3">
+            <h3 className="font-['Space_Grotesk'] text-lg font-semibold text-(--text-primary)">Relancer le client</h3>
+            <AppButton
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={onClose}
+              title="Fermer"
+              className="text-(--text-secondary)"
+            >
+              <X className="h-4 w-4" />
+            </AppButton>
+          </div>
+        </header>
+
+        <div className="space-y-4 px-5 pb-5 pt-2">
+          <p className="text-sm text-(--text-secondary)">
+            Facture <span className="font-mono">{invoice.invoiceNumber || '-'}</span> pour{' '}
+            <span className="font-medium">{invoice.client}</span>
+            {daysOverdue > 0 && <> - <span className="text-[#B91C1C]">{daysOverdue} jours de retard</span></>}
+          </p>
+
+          {(reminders?.length ?? 0) > 0 && (
+            <ul className="divide-y divide-(--border-default) rounded-lg border border-(--border-default)">
+              {reminders?.map((reminder) => (
+                <li key={reminder.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <span className="text-(--text-primary)">{reminderLevelLabels[reminder.level]}</span>
+                  <span className="truncate text-xs text-(--text-secondary)">
+                    {formatDateTime(reminder.sentAt)} - {reminder.recipient}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!form ? (
+            <div className="flex justify-center py-8">
+              <span className="loading loading-spinner loading-lg"></span>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={fieldLabelClass}>Niveau</label>
+                  <Select
+                    value={form.level}
+                    onChange={(e) => loadPreview(e.target.value as ReminderLevel)}
+                    options={levelOptions}
+                    disabled={previewMutation.isPending}
+                  />
+                </div>
+                <div>
+                  <label className={fieldLabelClass}>Destinataire *</label>
+                  <input
+                    type="email"
+                    className={inputClass}
+                    value={form.recipient}
+                    onChange={(e) => updateField('recipient', e.target.value)}
+                    placeholder="compta@client.fr"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={fieldLabelClass}>Objet</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  value={form.subject}
+                  onChange={(e) => updateField('subject', e.target.value)}
+                />
+              </div>
+              <div>
+                <label className={fieldLabelClass}>Message</label>
+                <textarea
+                  className={textareaClass}
+                  value={form.body}
+                  onChange={(e) => updateField('body', e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <AppButton type="button" variant="outline" onClick={onClose}>
+              Annuler
+            </AppButton>
+            <AppButton
+              type="button"
+              startIcon={<Send className="h-4 w-4" />}
+              onClick={handleSend}
+              disabled={!form || !form.recipient.trim() || sendMutation.isPending || previewMutation.isPending}
+            >
+              {sendMutation.isPending ? <span className="loading loading-spinner loading-sm" /> : 'Envoyer'}
+            </AppButton>
+          </div>
+        </div>
+      </div>
+      <div className="modal-backdrop bg-[#18223a]/40 backdrop-blur-[1px]" onClick={onClose}></div>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect, type FormEvent } from 'react'
+import { Save, Loader2, RotateCcw } from 'lucide-react'
+import { useReminderTemplates, useUpdateReminderTemplate, useResetReminderTemplate } from '../hooks/useReminders'
+import { AppButton } from './ui/AppButton'
+import { Select } from './ui/Select'
+import type { ReminderLevel } from '@shared/types'
+
+interface ReminderTemplatesSectionProps {
+  onSuccess: (message: string) => void
+  onError: (message: string) => void
+}
+
+export const reminderLevelLabels: Record<ReminderLevel, string> = {
+  friendly: 'Rappel amiable',
+  firm: 'Relance ferme',
+  formal_notice: 'Mise en demeure',
+}
+
+const levelOptions = (Object.keys(reminderLevelLabels) as ReminderLevel[]).map((level) => ({
+  value: level,
+  label: reminderLevelLabels[level],
+}))
+
+const inputClass =
+  'h-8 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none focus:border-(--color-primary)'
+const textareaClass =
+  'h-56 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 py-2 text-sm text-(--text-primary) outline-none focus:border-(--color-primary)'
+
+export function ReminderTemplatesSection({ onSuccess, onError }: ReminderTemplatesSectionProps) {
+  const { data, isLoading } = useReminderTemplates()
+  const updateMutation = useUpdateReminderTemplate()
+  const resetMutation = useResetReminderTemplate()
+  const [level, setLevel] = useState<ReminderLevel>('friendly')
+  const [delayDays, setDelayDays] = useState('')
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+
+  const template = data?.templates.find((entry) => entry.level === level)
+
+  useEffect(() => {
+    if (template) {
+      setDelayDays(template.delayDays.toString())
+      setSubject(template.subject)
+      setBody(template.body)
+    }
+  }, [template])
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+
+    try {
+      await updateMutation.mutateAsync({
+        level,
+        data: { delayDays: parseInt(delayDays) || 0, subject: subject.trim(), body: body.trim() },
+      })
+      onSuccess(`Modèle "${reminderLevelLabels[level]}" enregistré`)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de la sauvegarde')
+    }
+  }
+
+  const handleReset = async () => {
+    try {
+      await resetMutation.mutateAsync(level)
+      onSuccess(`Modèle "${reminderLevelLabels[level]}" rétabli`)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Erreur lors de la réinitialisation')
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-5 shadow-[0_1px_4px_rgba(0,0,0,0.06)]"
+    >
+      <div className="flex flex-col gap-4">
+        <div className="space-y-1">
+          <h2 className="font-['Space_Grotesk'] text-sm font-semibold text-(--text-primary)">Relances de paiement</h2>
+          <p className="text-xs text-(--text-secondary)">
+            Un modèle par niveau de relance, proposé une fois le délai après échéance écoulé. Variables disponibles :{' '}
+            {data?.placeholders.map((placeholder) => `{${placeholder}}`).join(', ')}.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-(--text-primary)">Niveau</span>
+              <Select
+                value={level}
+                onChange={(e) => setLevel(e.target.value as ReminderLevel)}
+                options={levelOptions}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-(--text-primary)">Délai après échéance (jours)</span>
+              <input
+                type="number"
+                min="0"
+                className={inputClass}
+                value={delayDays}
+                onChange={(e) => setDelayDays(e.target.value)}
+                required
+              />
+            </label>
+            <label className="col-span-2 flex flex-col gap-1">
+              <span className="text-xs font-medium text-(--text-primary)">Objet *</span>
+              <input
+                type="text"
+                className={inputClass}
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                required
+              />
+            </label>
+            <label className="col-span-2 flex flex-col gap-1">
+              <span className="text-xs font-medium text-(--text-primary)">Message *</span>
+              <textarea
+                className={textareaClass}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                required
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {template && !template.isDefault && (
+            <AppButton
+              type="button"
+              variant="outline"
+              startIcon={<RotateCcw className="h-4 w-4" />}
+              onClick={handleReset}
+              disabled={resetMutation.isPending}
+            >
+              Rétablir le modèle par défaut
+            </AppButton>
+          )}
+          <AppButton
+            type="submit"
+            startIcon={updateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            disabled={updateMutation.isPending}
+          >
+            Enregistrer
+          </AppButton>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -4,11 +4,13 @@ import { useAuth } from '../contexts/AuthContext'
 import {
   LayoutDashboard,
   FileText,
-  FileCog,
+  FilePen,
+  Users,
   Wallet,
   Receipt,
   Landmark,
   Building2,
+  ArrowLeftRight,
   ClipboardList,
   Calculator,
   Settings,
@@ -30,8 +32,11 @@ interface NavItem {
 const navItems: NavItem[] = [
   { to: '/', label: 'Tableau de bord', icon: LayoutDashboard },
   { to: '/invoices', label: 'Factures', icon: FileText },
+  { to: '/quotes', label: 'Devis', icon: FilePen },
+  { to: '/invoices/settings', label: 'Clients', icon: Users },
   { to: '/expenses', label: 'Dépenses', icon: Wallet },
   { to: '/account', label: 'Compte entreprise', icon: Building2 },
+  { to: '/bank', label: 'Rapprochement', icon: ArrowLeftRight },
   { to: '/calculator', label: 'Calculateur', icon: Calculator },
 ]
 
@@ -43,7 +48,6 @@ const taxItems: NavItem[] = [
 
 const settingsItems: NavItem[] = [
   { to: '/settings', label: 'Configuration', icon: Settings },
-  { to: '/invoices/settings', label: 'Param. factures', icon: FileCog },
   { to: '/passkeys', label: 'Passkeys', icon: KeyRound },
 ]
 
@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../api/client'
+import type {
+  BankMatchType,
+  BankTransaction,
+  BankTransactionStatus,
+  ImportBankStatementInput,
+  ImportBankStatementResult,
+} from '@shared/types'
+
+interface BankTransactionListResponse {
+  data: BankTransaction[]
+  total: number
+  limit: number
+  offset: number
+}
+
+// A match settles invoices and payments: refresh every view that shows them
+function invalidateReconciledData(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ['bankTransactions'] })
+  queryClient.invalidateQueries({ queryKey: ['invoices'] })
+  queryClient.invalidateQueries({ queryKey: ['invoice'] })
+  queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
+  queryClient.invalidateQueries({ queryKey: ['taxPayments'] })
+  queryClient.invalidateQueries({ queryKey: ['urssafPayments'] })
+  queryClient.invalidateQueries({ queryKey: ['incomeTaxPayments'] })
+  queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] })
+  queryClient.invalidateQueries({ queryKey: ['yearlyDashboard'] })
+  queryClient.invalidateQueries({ queryKey: ['accountBalance'] })
+  queryClient.invalidateQueries({ queryKey: ['accountSummary'] })
+}
+
+export function useBankTransactions(status?: BankTransactionStatus) {
+  return useQuery({
+    queryKey: ['bankTransactions', status],
+    queryFn: () => {
+      const params = new URLSearchParams({ limit: '500' })
+      if (status) params.set('status', status)
+      return api.get<BankTransactionListResponse>(`/bank/transactions?${params}`)
+    },
+  })
+}
+
+export function useImportBankStatement() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: ImportBankStatementInput) =>
+      api.post<ImportBankStatementResult>('/bank/import', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bankTransactions'] })
+      queryClient.invalidateQueries({ queryKey: ['accountBalance'] })
+      queryClient.invalidateQueries({ queryKey: ['accountSummary'] })
+    },
+  })
+}
+
+export function useMatchBankTransaction() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, type, matchId }: { id: string; type: BankMatchType; matchId: string }) =>
+      api.post<BankTransaction>(`/bank/transactions/${id}/match`, { type, id: matchId }),
+    onSuccess: () => invalidateReconciledData(queryClient),
+  })
+}
+
+export function useUnmatchBankTransaction() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<BankTransaction>(`/bank/transactions/${id}/unmatch`, {}),
+    onSuccess: () => invalidateReconciledData(queryClient),
+  })
+}
+
+export function useIgnoreBankTransaction() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<BankTransaction>(`/bank/transactions/${id}/ignore`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bankTransactions'] })
+    },
+  })
+}
+
+export function useDeleteBankTransaction() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<void>(`/bank/transactions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bankTransactions'] })
+      queryClient.invalidateQueries({ queryKey: ['accountBalance'] })
+      queryClient.invalidateQueries({ queryKey: ['accountSummary'] })
+    },
+  })
+}
@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../api/client'
+import type { CalendarFeed, FiscalCalendar } from '@shared/types'
+
+export function useFiscalCalendar(from?: string, to?: string) {
+  return useQuery({
+    queryKey: ['fiscalCalendar', from, to],
+    queryFn: () => {
+      const params = new URLSearchParams()
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      return api.get<FiscalCalendar>(`/calendar?${params}`)
+    },
+    staleTime: 1000 * 60 * 2,
+  })
+}
+
+export function useCalendarFeed() {
+  return useQuery({
+    queryKey: ['calendarFeed'],
+    queryFn: () => api.get<CalendarFeed>('/calendar/feed'),
+  })
+}
+
+// Address to subscribe to from a calendar application
+export function calendarFeedUrl(token: string): string {
+  return `${window.location.origin}/api/calendar/feed/${token}.ics`
+}
+
+// Enables the feed, or replaces its token when it already is
+export function useEnableCalendarFeed() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => api.post<CalendarFeed>('/calendar/feed'),
+    onSuccess: (feed) => {
+      queryClient.setQueryData(['calendarFeed'], feed)
+    },
+  })
+}
+
+export function useDisableCalendarFeed() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => api.delete<void>('/calendar/feed'),
+    onSuccess: () => {
+      queryClient.setQueryData(['calendarFeed'], { token: null })
+    },
+  })
+}
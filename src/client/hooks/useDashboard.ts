@@ -1,6 +1,6 @@
 import { useQuery } from '@tanstack/react-query'
 import { api } from '../api/client'
-import type { DashboardSummary, YearlyDashboard } from '@shared/types'
+import type { DashboardSummary, MicroCeilingMonitoring, YearlyDashboard } from '@shared/types'
 
 export function useDashboardSummary(year: number, month: number) {
   return useQuery({
@@ -19,3 +19,12 @@ export function useYearlyDashboard(year: number) {
     staleTime: 1000 * 60 * 2,
   })
 }
+
+export function useMicroCeiling(year: number) {
+  return useQuery({
+    queryKey: ['microCeiling', year],
+    queryFn: () =>
+      api.get<MicroCeilingMonitoring>(`/dashboard/micro-ceiling?year=${year}`),
+    staleTime: 1000 * 60 * 2,
+  })
+}
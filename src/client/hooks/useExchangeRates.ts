@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../api/client'
+import type {
+  ExchangeRate,
+  CreateExchangeRateInput,
+  ImportExchangeRatesInput,
+  ImportExchangeRatesResult,
+  ExchangeRateLookup,
+} from '@shared/types'
+
+interface ExchangeRateListResponse {
+  data: ExchangeRate[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export function useExchangeRates(currency?: string) {
+  return useQuery({
+    queryKey: ['exchangeRates', currency],
+    queryFn: () => {
+      const params = new URLSearchParams({ limit: '100' })
+      if (currency) params.set('currency', currency)
+      return api.get<ExchangeRateListResponse>(`/exchange-rates?${params}`)
+    },
+  })
+}
+
+// Rate a new document of that date would get; disabled for euros
+export function useExchangeRateLookup(currency: string, date: string) {
+  return useQuery({
+    queryKey: ['exchangeRateLookup', currency, date],
+    queryFn: () => api.get<ExchangeRateLookup>(`/exchange-rates/lookup?${new URLSearchParams({ currency, date })}`),
+    enabled: currency !== 'EUR' && /^[A-Z]{3}$/.test(currency) && /^\d{4}-\d{2}-\d{2}$/.test(date),
+  })
+}
+
+export function useCreateExchangeRate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateExchangeRateInput) => api.post<ExchangeRate>('/exchange-rates', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates'] })
+      queryClient.invalidateQueries({ queryKey: ['exchangeRateLookup'] })
+    },
+  })
+}
+
+export function useImportExchangeRates() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: ImportExchangeRatesInput) =>
+      api.post<ImportExchangeRatesResult>('/exchange-rates/import', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates'] })
+      queryClient.invalidateQueries({ queryKey: ['exchangeRateLookup'] })
+    },
+  })
+}
+
+export function useDeleteExchangeRate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/exchange-rates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates'] })
+      queryClient.invalidateQueries({ queryKey: ['exchangeRateLookup'] })
+    },
+  })
+}
@@ -1,6 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../api/client'
-import type { Invoice, CreateInvoiceInput, UpdateInvoiceInput } from '@shared/types'
+import type {
+  Invoice,
+  InvoiceWithLines,
+  InvoicePayment,
+  CreateInvoiceInput,
+  UpdateInvoiceInput,
+  CreateCreditNoteInput,
+  CreateInvoicePaymentInput,
+  NumberingGaps,
+  AgingReport,
+} from '@shared/types'
 
 interface InvoiceListResponse {
   data: Invoice[]
@@ -55,7 +65,7 @@ export function useInvoices(params: InvoiceListParams = {}) {
 export function useInvoice(id: string | null) {
   return useQuery({
     queryKey: ['invoice', id],
-    queryFn: () => api.get<Invoice>(`/invoices/${id}`),
+    queryFn: () => api.get<InvoiceWithLines>(`/invoices/${id}`),
     enabled: !!id,
     staleTime: 1000 * 60 * 2,
   })
@@ -70,6 +80,8 @@ export function useCreateInvoice() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['invoices'] })
       queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
+      // A new client name is added to the directory on the fly
+      queryClient.invalidateQueries({ queryKey: ['clients'] })
     },
   })
 }
@@ -84,6 +96,48 @@ export function useUpdateInvoice() {
       queryClient.invalidateQueries({ queryKey: ['invoices'] })
       queryClient.invalidateQueries({ queryKey: ['invoice', id] })
       queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
+      queryClient.invalidateQueries({ queryKey: ['clients'] })
+    },
+  })
+}
+
+export function useCreateCreditNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ invoiceId, data }: { invoiceId: string; data: CreateCreditNoteInput }) =>
+      api.post<InvoiceWithLines>(`/invoices/${invoiceId}/credit-notes`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
+    },
+  })
+}
+
+export function useCreateInvoicePayment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ invoiceId, data }: { invoiceId: string; data: CreateInvoicePaymentInput }) =>
+      api.post<InvoicePayment>(`/invoices/${invoiceId}/payments`, data),
+    onSuccess: (_, { invoiceId }) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] })
+      queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
+    },
+  })
+}
+
+export function useDeleteInvoicePayment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ invoiceId, paymentId }: { invoiceId: string; paymentId: string }) =>
+      api.delete<void>(`/invoices/${invoiceId}/payments/${paymentId}`),
+    onSuccess: (_, { invoiceId }) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      queryClient.invalidateQueries({ queryKey: ['invoice', invoiceId] })
+      queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
     },
   })
 }
@@ -96,6 +150,39 @@ export function useDeleteInvoice() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['invoices'] })
       queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
+      // A quote converted into the deleted invoice becomes open again
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      queryClient.invalidateQueries({ queryKey: ['quotePipeline'] })
+    },
+  })
+}
+
+export function useDownloadInvoicePdf() {
+  return useMutation({
+    mutationFn: async (invoice: Invoice) => {
+      const blob = await api.getBlob(`/invoices/${invoice.id}/pdf`)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${invoice.type === 'credit_note' ? 'avoir' : 'facture'}-${invoice.invoiceNumber || invoice.id}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+    },
+  })
+}
+
+// Structured e-invoices: Factur-X (PDF/A-3 with embedded XML) or standalone UBL XML
+export function useDownloadEInvoice() {
+  return useMutation({
+    mutationFn: async ({ invoice, format }: { invoice: Invoice; format: 'facturx' | 'ubl' }) => {
+      const blob = await api.getBlob(`/invoices/${invoice.id}/${format}`)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      const basename = `${invoice.type === 'credit_note' ? 'avoir' : 'facture'}-${invoice.invoiceNumber || invoice.id}`
+      link.href = url
+      link.download = format === 'facturx' ? `${basename}-facturx.pdf` : `${basename}.xml`
+      link.click()
+      URL.revokeObjectURL(url)
     },
   })
 }
@@ -126,11 +213,17 @@ export function useNextInvoiceNumber() {
   })
 }
 
-export function useInvoiceClients() {
+export function useAgingReport() {
   return useQuery({
-    queryKey: ['invoices', 'clients'],
-    queryFn: () => api.get<{ clients: string[] }>('/invoices/clients'),
-    staleTime: 1000 * 60 * 5,
+    queryKey: ['invoices', 'aging'],
+    queryFn: () => api.get<AgingReport>('/invoices/aging'),
+  })
+}
+
+export function useNumberingGaps() {
+  return useQuery({
+    queryKey: ['invoices', 'numberingGaps'],
+    queryFn: () => api.get<NumberingGaps>('/invoices/numbering-gaps'),
   })
 }
 
@@ -0,0 +1,117 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../api/client'
+import type {
+  Quote,
+  QuoteWithLines,
+  QuoteStatus,
+  QuotePipeline,
+  CreateQuoteInput,
+  UpdateQuoteInput,
+  ConvertQuoteResult,
+} from '@shared/types'
+
+interface QuoteListResponse {
+  data: Quote[]
+  total: number
+  limit: number
+  offset: number
+}
+
+interface QuoteListParams {
+  year?: number
+  status?: QuoteStatus
+}
+
+export function useQuotes(params: QuoteListParams = {}) {
+  const queryString = new URLSearchParams({ limit: '500' })
+  if (params.year) queryString.set('year', params.year.toString())
+  if (params.status) queryString.set('status', params.status)
+
+  return useQuery({
+    queryKey: ['quotes', params],
+    queryFn: () => api.get<QuoteListResponse>(`/quotes?${queryString}`),
+    staleTime: 1000 * 60 * 2,
+  })
+}
+
+export function useQuote(id: string | null) {
+  return useQuery({
+    queryKey: ['quote', id],
+    queryFn: () => api.get<QuoteWithLines>(`/quotes/${id}`),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 2,
+  })
+}
+
+export function useQuotePipeline() {
+  return useQuery({
+    queryKey: ['quotePipeline'],
+    queryFn: () => api.get<QuotePipeline>('/quotes/pipeline'),
+    staleTime: 1000 * 60 * 2,
+  })
+}
+
+export function useNextQuoteNumber() {
+  return useQuery({
+    queryKey: ['quotes', 'nextNumber'],
+    queryFn: () => api.get<{ quoteNumber: string }>('/quotes/next-number'),
+    staleTime: 0,
+  })
+}
+
+export function useCreateQuote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateQuoteInput) => api.post<QuoteWithLines>('/quotes', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      queryClient.invalidateQueries({ queryKey: ['quotePipeline'] })
+      // A new client name is added to the directory on the fly
+      queryClient.invalidateQueries({ queryKey: ['clients'] })
+    },
+  })
+}
+
+export function useUpdateQuote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateQuoteInput }) =>
+      api.put<Quote>(`/quotes/${id}`, data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      queryClient.invalidateQueries({ queryKey: ['quote', id] })
+      queryClient.invalidateQueries({ queryKey: ['quotePipeline'] })
+      queryClient.invalidateQueries({ queryKey: ['clients'] })
+    },
+  })
+}
+
+export function useConvertQuote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, invoiceDate }: { id: string; invoiceDate?: string }) =>
+      api.post<ConvertQuoteResult>(`/quotes/${id}/convert`, { invoiceDate }),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      queryClient.invalidateQueries({ queryKey: ['quote', id] })
+      queryClient.invalidateQueries({ queryKey: ['quotePipeline'] })
+      queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      queryClient.invalidateQueries({ queryKey: ['invoiceSummary'] })
+    },
+  })
+}
+
+export function useDeleteQuote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<void>(`/quotes/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      queryClient.invalidateQueries({ queryKey: ['quotePipeline'] })
+    },
+  })
+}
@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../api/client'
+import type {
+  ReminderLevel,
+  ReminderTemplates,
+  ReminderTemplate,
+  UpdateReminderTemplateInput,
+  InvoiceReminder,
+  ReminderPreview,
+  SendReminderInput,
+} from '@shared/types'
+
+export function useReminderTemplates() {
+  return useQuery({
+    queryKey: ['reminderTemplates'],
+    queryFn: () => api.get<ReminderTemplates>('/reminders/templates'),
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+export function useUpdateReminderTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ level, data }: { level: ReminderLevel; data: UpdateReminderTemplateInput }) =>
+      api.put<ReminderTemplate>(`/reminders/templates/${level}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminderTemplates'] })
+    },
+  })
+}
+
+export function useResetReminderTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (level: ReminderLevel) => api.delete(`/reminders/templates/${level}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reminderTemplates'] })
+    },
+  })
+}
+
+export function useInvoiceReminders(invoiceId: string | null) {
+  return useQuery({
+    queryKey: ['invoiceReminders', invoiceId],
+    queryFn: () => api.get<InvoiceReminder[]>(`/invoices/${invoiceId}/reminders`),
+    enabled: !!invoiceId,
+  })
+}
+
+export function usePreviewReminder() {
+  return useMutation({
+    mutationFn: ({ invoiceId, level }: { invoiceId: string; level?: ReminderLevel }) =>
+      api.post<ReminderPreview>(`/invoices/${invoiceId}/reminders/preview`, { level }),
+  })
+}
+
+export function useSendReminder() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ invoiceId, data }: { invoiceId: string; data: SendReminderInput }) =>
+      api.post<InvoiceReminder>(`/invoices/${invoiceId}/reminders`, data),
+    onSuccess: (_, { invoiceId }) => {
+      queryClient.invalidateQueries({ queryKey: ['invoiceReminders', invoiceId] })
+    },
+  })
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../api/client'
-import type { Settings, UpdateSettingsInput } from '@shared/types'
+import type { ActivityRatesResponse, Household, IncomeTaxOptions, SetHouseholdInput, SetIncomeTaxOptionsInput, Settings, UpdateSettingsInput, IssuerProfile, UpdateIssuerProfileInput } from '@shared/types'
 
 export function useSettings() {
   return useQuery({
@@ -18,8 +18,93 @@ export function useUpdateSettings() {
       api.put<Settings>('/settings', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['settings'] })
+      queryClient.invalidateQueries({ queryKey: ['activityRates'] })
+      // ACRE and the chamber change the URSSAF contributions
+      queryClient.invalidateQueries({ queryKey: ['urssafSummary'] })
       // Also invalidate income-tax summary since additionalTaxableIncome affects it
       queryClient.invalidateQueries({ queryKey: ['incomeTaxSummary'] })
+      queryClient.invalidateQueries({ queryKey: ['household'] })
+      // The numbering pattern changes the next invoice number and the gaps
+      queryClient.invalidateQueries({ queryKey: ['invoices', 'nextNumber'] })
+      queryClient.invalidateQueries({ queryKey: ['invoices', 'numberingGaps'] })
+    },
+  })
+}
+
+// URSSAF and abattement rates of each activity for a year
+export function useActivityRates(year: number) {
+  return useQuery({
+    queryKey: ['activityRates', year],
+    queryFn: () => api.get<ActivityRatesResponse>(`/settings/activity-rates?year=${year}`),
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+export function useIncomeTaxOptions(year: number) {
+  return useQuery({
+    queryKey: ['incomeTaxOptions', year],
+    queryFn: () => api.get<IncomeTaxOptions>(`/settings/income-tax-options?year=${year}`),
+  })
+}
+
+// The versement libératoire is collected with the URSSAF contributions and replaces the income tax estimate
+export function useSetIncomeTaxOptions() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: SetIncomeTaxOptionsInput) =>
+      api.put<IncomeTaxOptions>('/settings/income-tax-options', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['incomeTaxOptions'] })
+      queryClient.invalidateQueries({ queryKey: ['urssafSummary'] })
+      queryClient.invalidateQueries({ queryKey: ['urssafCalculation'] })
+      queryClient.invalidateQueries({ queryKey: ['incomeTaxSummary'] })
+      queryClient.invalidateQueries({ queryKey: ['yearlyDashboard'] })
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] })
+      queryClient.invalidateQueries({ queryKey: ['accountSummary'] })
+      queryClient.invalidateQueries({ queryKey: ['fiscalCalendar'] })
+    },
+  })
+}
+
+export function useHousehold(year: number) {
+  return useQuery({
+    queryKey: ['household', year],
+    queryFn: () => api.get<Household>(`/settings/household?year=${year}`),
+  })
+}
+
+// The household sets the parts and the other income of the tax, and the RFR estimated two years later
+export function useSetHousehold() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: SetHouseholdInput) =>
+      api.put<Household>('/settings/household', data),
+    onSuccess: (household) => {
+      queryClient.setQueryData(['household', household.year], household)
+      queryClient.invalidateQueries({ queryKey: ['incomeTaxSummary'] })
+      queryClient.invalidateQueries({ queryKey: ['incomeTaxOptions'] })
+    },
+  })
+}
+
+export function useIssuerProfile() {
+  return useQuery({
+    queryKey: ['issuerProfile'],
+    queryFn: () => api.get<IssuerProfile | null>('/settings/issuer'),
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+export function useUpdateIssuerProfile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: UpdateIssuerProfileInput) =>
+      api.put<IssuerProfile>('/settings/issuer', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['issuerProfile'] })
     },
   })
 }
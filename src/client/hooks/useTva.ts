@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../api/client'
-import type { TaxPayment, CreateTaxPaymentInput, UpdateTaxPaymentInput, TvaDeclaration } from '@shared/types'
+import type { TaxPayment, CreateTaxPaymentInput, UpdateTaxPaymentInput, TvaDeclaration, DesDeclaration, TvaCreditLedger, FileTvaDeclarationResult, TvaFilingRegime, TvaFilingRegimeSetting, TvaScheduleEntry, FranchiseMonitoring } from '@shared/types'
 
 interface TaxPaymentListResponse {
   data: TaxPayment[]
@@ -20,11 +20,13 @@ interface TvaSummary {
   startDate: string
   endDate: string
   tvaCollected: string
+  collectedByRate: { rate: string; baseHt: string; tva: string }[]
   tvaRecoverable: string
   netTva: string
   totalPaid: string
   totalPending: string
   balance: string
+  franchise: FranchiseMonitoring
 }
 
 interface MonthlyTvaData {
@@ -33,15 +35,13 @@ interface MonthlyTvaData {
   tvaCollected: string
   tvaRecoverable: string
   netTva: string
-  paidAmount: string
-  pendingAmount: string
-  dueDate: string
-  paymentStatus: 'paid' | 'pending' | 'due' | 'overdue' | 'upcoming' | 'not_due'
 }
 
 interface MonthlyTvaResponse {
   year: number
+  regime: TvaFilingRegime
   months: MonthlyTvaData[]
+  schedule: TvaScheduleEntry[]
 }
 
 export function useTaxPayments(params: TaxPaymentListParams = {}) {
@@ -130,11 +130,106 @@ export function useMonthlyTva(year: number) {
   })
 }
 
-export function useTvaDeclaration(month: string) {
+export function useTvaFilingRegime(year: number) {
   return useQuery({
-    queryKey: ['tvaDeclaration', month],
-    queryFn: () => api.get<TvaDeclaration>(`/tva/declaration/${month}`),
+    queryKey: ['tvaFilingRegime', year],
+    queryFn: () => api.get<TvaFilingRegimeSetting>(`/settings/tva-regime?year=${year}`),
+  })
+}
+
+export function useSetTvaFilingRegime() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: TvaFilingRegimeSetting) =>
+      api.put<TvaFilingRegimeSetting>('/settings/tva-regime', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tvaFilingRegime'] })
+      queryClient.invalidateQueries({ queryKey: ['monthlyTva'] })
+      queryClient.invalidateQueries({ queryKey: ['tvaDeclaration'] })
+    },
+  })
+}
+
+// Period is a month, a quarter (YYYY-T1) or a year following the regime of its year.
+// Line 22 comes from the credit ledger; the refund (line 26) is typed before filing
+export function useTvaDeclaration(period: string, refundRequested = 0) {
+  return useQuery({
+    queryKey: ['tvaDeclaration', period, refundRequested],
+    queryFn: () => api.get<TvaDeclaration>(`/tva/declaration/${period}?refundRequested=${refundRequested}`),
+    enabled: !!period,
+    staleTime: 1000 * 60 * 2,
+  })
+}
+
+export function useFileTvaDeclaration() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ period, refundRequested }: { period: string; refundRequested: number }) =>
+      api.post<FileTvaDeclarationResult>(`/tva/declaration/${period}/file`, { refundRequested }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tvaDeclaration'] })
+      queryClient.invalidateQueries({ queryKey: ['tvaCredits'] })
+      queryClient.invalidateQueries({ queryKey: ['monthlyTva'] })
+      queryClient.invalidateQueries({ queryKey: ['accountSummary'] })
+    },
+  })
+}
+
+export function useUnfileTvaDeclaration() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (period: string) => api.delete(`/tva/declaration/${period}/file`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tvaDeclaration'] })
+      queryClient.invalidateQueries({ queryKey: ['tvaCredits'] })
+      queryClient.invalidateQueries({ queryKey: ['monthlyTva'] })
+      queryClient.invalidateQueries({ queryKey: ['accountSummary'] })
+    },
+  })
+}
+
+export function useTvaCredits() {
+  return useQuery({
+    queryKey: ['tvaCredits'],
+    queryFn: () => api.get<TvaCreditLedger>('/tva/credits'),
+  })
+}
+
+export function useMarkTvaRefundReceived() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, receivedDate }: { id: string; receivedDate: string }) =>
+      api.patch(`/tva/credits/${id}/received`, { receivedDate }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tvaCredits'] })
+    },
+  })
+}
+
+export function useDesDeclaration(month: string) {
+  return useQuery({
+    queryKey: ['desDeclaration', month],
+    queryFn: () => api.get<DesDeclaration>(`/tva/des/${month}`),
     enabled: !!month,
     staleTime: 1000 * 60 * 2,
   })
 }
+
+// Customs XML file or CSV of the DES; the server refuses the export while a line is invalid
+export function useDownloadDes() {
+  return useMutation({
+    mutationFn: async ({ month, format }: { month: string; format: 'xml' | 'csv' }) => {
+      const blob = await api.getBlob(`/tva/des/${month}/export?format=${format}`)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `des-${month}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    },
+  })
+}
@@ -1,6 +1,20 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../api/client'
-import type { UrssafPayment, CreateUrssafPaymentInput, UpdateUrssafPaymentInput } from '@shared/types'
+import type {
+  AcreWindow,
+  ActivityLine,
+  ChamberType,
+  ActivityRatesResponse,
+  MicroActivityType,
+  UrssafPayment,
+  CreateUrssafPaymentInput,
+  UpdateUrssafPaymentInput,
+  UrssafComponent,
+  UrssafContributionComponent,
+  UrssafPeriod,
+  UrssafPeriodicity,
+  UrssafPeriodicitySetting,
+} from '@shared/types'
 
 interface UrssafPaymentListResponse {
   data: UrssafPayment[]
@@ -16,19 +30,27 @@ interface UrssafPaymentListParams {
   offset?: number
 }
 
-interface TrimesterData {
-  trimester: number
-  startDate: string
-  endDate: string
+interface PeriodData extends UrssafPeriod {
   actualRevenue: string
   estimatedAmount: string
+  activities: ActivityLine[] // Social contributions of each activity at its own rate
+  components: UrssafContributionComponent[]
+  acreReduction: number // % off the social contributions, 0 outside the ACRE window
   payment: UrssafPayment | null
 }
 
 interface UrssafSummary {
   year: number
-  urssafRate: number
-  trimesters: TrimesterData[]
+  urssafRate: number // Rate of the main activity
+  contributionRate: number // All components on the main activity
+  mainActivity: MicroActivityType
+  activityRates: ActivityRatesResponse['rates']
+  versementLiberatoire: boolean
+  chamber: ChamberType
+  acre: AcreWindow | null
+  components: { component: UrssafComponent; label: string; total: string }[] // Yearly estimate of each component
+  periodicity: UrssafPeriodicity
+  periods: PeriodData[]
   totals: {
     totalRevenue: string
     totalAmount: string
@@ -41,6 +63,16 @@ interface UrssafCalculation {
   revenue: string
   rate: number
   amount: string
+  lines: ActivityLine[]
+  components: (UrssafContributionComponent & { label: string })[]
+  acreReduction: number
+}
+
+interface UrssafCalculationInput {
+  revenue?: number
+  revenueByActivity?: Partial<Record<MicroActivityType, number>>
+  year?: number
+  date?: string
 }
 
 export function useUrssafPayments(params: UrssafPaymentListParams = {}) {
@@ -116,9 +148,39 @@ export function useUrssafSummary(year: number) {
   })
 }
 
+export function useUrssafPeriodicity(year: number) {
+  return useQuery({
+    queryKey: ['urssafPeriodicity', year],
+    queryFn: () => api.get<UrssafPeriodicitySetting>(`/settings/urssaf-periodicity?year=${year}`),
+  })
+}
+
+export function useSetUrssafPeriodicity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: UrssafPeriodicitySetting) =>
+      api.put<UrssafPeriodicitySetting>('/settings/urssaf-periodicity', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['urssafPeriodicity'] })
+      queryClient.invalidateQueries({ queryKey: ['urssafSummary'] })
+    },
+  })
+}
+
 export function useCalculateUrssaf() {
   return useMutation({
-    mutationFn: (revenue: number) =>
-      api.post<UrssafCalculation>('/urssaf/calculate', { revenue }),
+    mutationFn: (input: UrssafCalculationInput) =>
+      api.post<UrssafCalculation>('/urssaf/calculate', input),
+  })
+}
+
+// Contributions of an amount, line by line, for the calculator
+export function useUrssafCalculation(input: UrssafCalculationInput, enabled = true) {
+  return useQuery({
+    queryKey: ['urssafCalculation', input],
+    queryFn: () => api.post<UrssafCalculation>('/urssaf/calculate', input),
+    enabled,
+    staleTime: 1000 * 60 * 2,
   })
 }
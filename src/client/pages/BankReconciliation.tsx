@@ -0,0 +1,595 @@
+import { useMemo, useState } from 'react'
+import { Check, EyeOff, Trash2, Undo2, Upload, X } from 'lucide-react'
+import {
+  useBankTransactions,
+  useImportBankStatement,
+  useMatchBankTransaction,
+  useUnmatchBankTransaction,
+  useIgnoreBankTransaction,
+  useDeleteBankTransaction,
+} from '../hooks/useBank'
+import { useAccountBalance } from '../hooks/useAccount'
+import type {
+  BankMatchType,
+  BankStatementFormat,
+  BankTransaction,
+  BankTransactionStatus,
+  CsvColumnMapping,
+} from '@shared/types'
+import { ConfirmDialog } from '../components/ConfirmDialog'
+import { useSnackbar } from '../contexts/SnackbarContext'
+import { AppButton } from '../components/ui/AppButton'
+import { Select } from '../components/ui/Select'
+import { DataTable, type DataTableColumn } from '../components/ui/DataTable'
+import { KpiCard } from '../components/ui/KpiCard'
+
+function formatCurrency(amount: string | number): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'currency',
+    currency: 'EUR',
+  }).format(num)
+}
+
+const CSV_MAPPING_STORAGE_KEY = 'bankCsvMapping'
+
+const defaultCsvMapping: CsvColumnMapping = {
+  delimiter: ';',
+  dateColumn: 'Date',
+  dateFormat: 'DD/MM/YYYY',
+  labelColumn: 'Libellé',
+  debitColumn: 'Débit',
+  creditColumn: 'Crédit',
+  decimalSeparator: ',',
+}
+
+function loadCsvMapping(): CsvColumnMapping {
+  try {
+    const stored = localStorage.getItem(CSV_MAPPING_STORAGE_KEY)
+    return stored ? { ...defaultCsvMapping, ...JSON.parse(stored) } : defaultCsvMapping
+  } catch {
+    return defaultCsvMapping
+  }
+}
+
+function formatFromFileName(fileName: string): BankStatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx'
+  if (extension === 'xml') return 'camt'
+  return 'csv'
+}
+
+const matchTypeLabels: Record<BankMatchType, string> = {
+  invoice: 'Facture',
+  expense: 'Dépense',
+  tva: 'TVA',
+  urssaf: 'Urssaf',
+  income_tax: 'Impôt',
+}
+
+const statusOptions = [
+  { value: 'unmatched', label: 'À rapprocher' },
+  { value: 'matched', label: 'Rapprochées' },
+  { value: 'ignored', label: 'Ignorées' },
+  { value: 'all', label: 'Toutes' },
+]
+
+const formatOptions = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'ofx', label: 'OFX' },
+  { value: 'camt', label: 'CAMT.053 (XML)' },
+]
+
+const delimiterOptions = [
+  { value: ';', label: 'Point-virgule (;)' },
+  { value: ',', label: 'Virgule (,)' },
+  { value: '\t', label: 'Tabulation' },
+]
+
+const dateFormatOptions = [
+  { value: 'DD/MM/YYYY', label: 'JJ/MM/AAAA' },
+  { value: 'YYYY-MM-DD', label: 'AAAA-MM-JJ' },
+  { value: 'MM/DD/YYYY', label: 'MM/JJ/AAAA' },
+]
+
+const decimalOptions = [
+  { value: ',', label: 'Virgule (1 234,56)' },
+  { value: '.', label: 'Point (1,234.56)' },
+]
+
+const columns: DataTableColumn[] = [
+  { key: 'date', label: 'Date', className: 'w-28' },
+  { key: 'label', label: 'Libellé' },
+  { key: 'amount', label: 'Montant', className: 'w-32 text-right' },
+  { key: 'match', label: 'Correspondance', className: 'w-80' },
+  { key: 'actions', label: 'Actions', className: 'w-28 text-center' },
+]
+
+const suggestionKey = (type: BankMatchType, id: string) => `${type}:${id}`
+
+export default function BankReconciliation() {
+  const { showSuccess, showError } = useSnackbar()
+  const [statusFilter, setStatusFilter] = useState<BankTransactionStatus | 'all'>('unmatched')
+  const { data, isLoading } = useBankTransactions(statusFilter === 'all' ? undefined : statusFilter)
+  const { data: balance } = useAccountBalance()
+
+  const importMutation = useImportBankStatement()
+  const matchMutation = useMatchBankTransaction()
+  const unmatchMutation = useUnmatchBankTransaction()
+  const ignoreMutation = useIgnoreBankTransaction()
+  const deleteMutation = useDeleteBankTransaction()
+
+  const [selectedSuggestions, setSelectedSuggestions] = useState<Record<string, string>>({})
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [fileContent, setFileContent] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [format, setFormat] = useState<BankStatementFormat>('csv')
+  const [mapping, setMapping] = useState<CsvColumnMapping>(loadCsvMapping)
+  const [amountMode, setAmountMode] = useState<'single' | 'split'>(mapping.amountColumn ? 'single' : 'split')
+  const [importError, setImportError] = useState('')
+
+  const transactions = data?.data ?? []
+
+  // Column names read from the first line of the selected CSV file
+  const csvHeaders = useMemo(() => {
+    if (format !== 'csv' || !fileContent) return []
+    const firstLine = fileContent.replace(/^\uFEFF/, '').split(/\r?\n/)[0] ?? ''
+    return firstLine.split(mapping.delimiter).map((cell) => cell.trim().replace(/^"|"$/g, '')).filter(Boolean)
+  }, [fileContent, format, mapping.delimiter])
+
+  const headerOptions = (optional: boolean) => [
+    ...(optional ? [{ value: '', label: 'Aucune' }] : []),
+    ...csvHeaders.map((header) => ({ value: header, label: header })),
+  ]
+
+  const totals = useMemo(() => ({
+    credits: transactions.filter((t) => parseFloat(t.amount) > 0).reduce((sum, t) => sum + parseFloat(t.amount), 0),
+    debits: transactions.filter((t) => parseFloat(t.amount) < 0).reduce((sum, t) => sum + parseFloat(t.amount), 0),
+  }), [transactions])
+
+  const updateMapping = <K extends keyof CsvColumnMapping>(field: K, value: CsvColumnMapping[K]) => {
+    setMapping((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const openImportModal = () => {
+    setFileContent('')
+    setFileName('')
+    setImportError('')
+    setIsImportOpen(true)
+  }
+
+  const closeImportModal = () => {
+    setIsImportOpen(false)
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setFormat(formatFromFileName(file.name))
+    setFileContent(await file.text())
+  }
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setImportError('')
+
+    if (!fileContent) {
+      setImportError('Sélectionnez un relevé à importer')
+      return
+    }
+
+    const csvMapping: CsvColumnMapping = {
+      ...mapping,
+      amountColumn: amountMode === 'single' ? mapping.amountColumn : undefined,
+      debitColumn: amountMode === 'split' ? mapping.debitColumn : undefined,
+      creditColumn: amountMode === 'split' ? mapping.creditColumn : undefined,
+      counterpartyColumn: mapping.counterpartyColumn || undefined,
+      referenceColumn: mapping.referenceColumn || undefined,
+    }
+
+    try {
+      const result = await importMutation.mutateAsync({
+        format,
+        content: fileContent,
+        mapping: format === 'csv' ? csvMapping : undefined,
+      })
+      if (format === 'csv') {
+        localStorage.setItem(CSV_MAPPING_STORAGE_KEY, JSON.stringify(csvMapping))
+      }
+      showSuccess(
+        result.duplicates > 0
+          ? `${result.imported} opération(s) importée(s), ${result.duplicates} déjà présente(s)`
+          : `${result.imported} opération(s) importée(s)`
+      )
+      closeImportModal()
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const handleConfirmMatch = async (transaction: BankTransaction) => {
+    const selected = selectedSuggestions[transaction.id]
+      ?? (transaction.suggestions[0] ? suggestionKey(transaction.suggestions[0].type, transaction.suggestions[0].id) : null)
+    const suggestion = transaction.suggestions.find((s) => suggestionKey(s.type, s.id) === selected)
+    if (!suggestion) return
+
+    try {
+      await matchMutation.mutateAsync({ id: transaction.id, type: suggestion.type, matchId: suggestion.id })
+      showSuccess('Rapprochement confirmé')
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erreur lors du rapprochement')
+    }
+  }
+
+  const handleUnmatch = async (id: string) => {
+    try {
+      await unmatchMutation.mutateAsync(id)
+      showSuccess('Rapprochement annulé')
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erreur lors de l\'annulation')
+    }
+  }
+
+  const handleIgnore = async (id: string) => {
+    try {
+      await ignoreMutation.mutateAsync(id)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erreur lors de la mise à jour')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMutation.mutateAsync(id)
+      setDeleteConfirmId(null)
+      showSuccess('Opération supprimée')
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erreur lors de la suppression')
+    }
+  }
+
+  const inputClassName = 'h-10 w-full rounded-lg border border-(--border-default) bg-white px-3 text-sm text-(--text-primary) focus:border-(--color-primary) focus:outline-none'
+
+  const renderColumnField = (label: string, field: keyof CsvColumnMapping, optional = false) => (
+    <div className="space-y-1.5">
+      <label className="block text-[13px] font-medium text-(--text-primary)">
+        {label} {optional ? <span className="text-xs font-normal text-(--text-tertiary)">(optionnel)</span> : '*'}
+      </label>
+      {csvHeaders.length > 0 ? (
+        <Select
+          className="h-10"
+          value={(mapping[field] as string | undefined) ?? ''}
+          onChange={(e) => updateMapping(field, e.target.value as never)}
+          options={headerOptions(optional)}
+        />
+      ) : (
+        <input
+          type="text"
+          className={inputClassName}
+          value={(mapping[field] as string | undefined) ?? ''}
+          onChange={(e) => updateMapping(field, e.target.value as never)}
+          required={!optional}
+        />
+      )}
+    </div>
+  )
+
+  return (
+    <div className="flex flex-col gap-7">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight text-(--text-primary)">Rapprochement bancaire</h1>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="w-44">
+            <Select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as BankTransactionStatus | 'all')}
+              options={statusOptions}
+            />
+          </div>
+          <AppButton
+            className="shadow-[0_8px_20px_-12px_rgba(37,99,235,0.75)]"
+            startIcon={<Upload className="h-4 w-4" />}
+            onClick={openImportModal}
+          >
+            Importer un relevé
+          </AppButton>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <KpiCard
+          title="Solde calculé"
+          value={balance ? formatCurrency(balance.currentBalance) : '-'}
+          description={balance?.balanceDate
+            ? `Solde au ${new Date(balance.balanceDate).toLocaleDateString('fr-FR')} + ${balance.transactionsSinceBalance} opération(s)`
+            : 'Aucun solde de référence'}
+          accentColor="#818CF8"
+        />
+        <KpiCard
+          title="Encaissements"
+          value={isLoading ? <span className="loading loading-spinner loading-sm"></span> : formatCurrency(totals.credits)}
+          description={`${data?.total ?? 0} opération(s) affichée(s)`}
+          accentColor="#34D399"
+        />
+        <KpiCard
+          title="Décaissements"
+          value={isLoading ? <span className="loading loading-spinner loading-sm"></span> : formatCurrency(totals.debits)}
+          accentColor="#F87171"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) py-8 text-center shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : transactions.length === 0 ? (
+        <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) py-10 text-center text-sm text-(--text-secondary) shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+          {statusFilter === 'unmatched' ? 'Toutes les opérations sont rapprochées' : 'Aucune opération'}
+        </div>
+      ) : (
+        <DataTable columns={columns}>
+          {transactions.map((transaction, index) => {
+            const amount = parseFloat(transaction.amount)
+            const selected = selectedSuggestions[transaction.id]
+              ?? (transaction.suggestions[0] ? suggestionKey(transaction.suggestions[0].type, transaction.suggestions[0].id) : '')
+
+            return (
+              <tr
+                key={transaction.id}
+                className={[
+                  'h-14 border-b border-(--border-default)',
+                  index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)',
+                ].join(' ')}
+              >
+                <td className="px-4 text-sm text-(--text-primary)">
+                  {new Date(transaction.date).toLocaleDateString('fr-FR')}
+                </td>
+                <td className="px-4 py-2">
+                  <p className="truncate text-sm text-(--text-primary)" title={transaction.label}>{transaction.label}</p>
+                  {transaction.counterparty ? (
+                    <p className="truncate text-[11px] text-(--text-tertiary)">{transaction.counterparty}</p>
+                  ) : null}
+                </td>
+                <td className={`px-4 text-right font-mono text-sm font-semibold ${amount >= 0 ? 'text-[#16A34A]' : 'text-(--text-primary)'}`}>
+                  {formatCurrency(amount)}
+                </td>
+                <td className="px-4">
+                  {transaction.status === 'matched' && transaction.matchType ? (
+                    <span className="badge h-5.5 min-h-5.5 border-0 bg-[#ECFDF5] px-2 text-[10px] font-semibold text-[#16A34A]">
+                      {matchTypeLabels[transaction.matchType]}
+                    </span>
+                  ) : transaction.status === 'ignored' ? (
+                    <span className="badge h-5.5 min-h-5.5 border-0 bg-base-200 px-2 text-[10px] font-semibold text-(--text-secondary)">
+                      Ignorée
+                    </span>
+                  ) : transaction.suggestions.length > 0 ? (
+                    <Select
+                      className="h-8 text-[13px]"
+                      value={selected}
+                      onChange={(e) => setSelectedSuggestions((prev) => ({ ...prev, [transaction.id]: e.target.value }))}
+                      options={transaction.suggestions.map((suggestion) => ({
+                        value: suggestionKey(suggestion.type, suggestion.id),
+                        label: `${matchTypeLabels[suggestion.type]} · ${suggestion.label}`,
+                      }))}
+                    />
+                  ) : (
+                    <span className="text-xs text-(--text-tertiary)">Aucune correspondance</span>
+                  )}
+                </td>
+                <td className="px-4">
+                  <div className="flex justify-center gap-1">
+                    {transaction.status === 'unmatched' && transaction.suggestions.length > 0 ? (
+                      <button
+                        className="btn btn-ghost btn-xs h-6 min-h-6 w-6 p-0 text-[#16A34A] hover:bg-transparent"
+                        onClick={() => handleConfirmMatch(transaction)}
+                        disabled={matchMutation.isPending}
+                        title="Confirmer le rapprochement"
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                    ) : null}
+                    {transaction.status === 'unmatched' ? (
+                      <button
+                        className="btn btn-ghost btn-xs h-6 min-h-6 w-6 p-0 text-(--text-secondary) hover:bg-transparent"
+                        onClick={() => handleIgnore(transaction.id)}
+                        title="Ignorer"
+                      >
+                        <EyeOff className="h-4 w-4" />
+                      </button>
+                    ) : (
+                      <button
+                        className="btn btn-ghost btn-xs h-6 min-h-6 w-6 p-0 text-(--text-secondary) hover:bg-transparent"
+                        onClick={() => handleUnmatch(transaction.id)}
+                        disabled={unmatchMutation.isPending}
+                        title={transaction.status === 'matched' ? 'Annuler le rapprochement' : 'Remettre à rapprocher'}
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </button>
+                    )}
+                    {transaction.status !== 'matched' ? (
+                      <button
+                        className="btn btn-ghost btn-xs h-6 min-h-6 w-6 p-0 text-error hover:bg-transparent"
+                        onClick={() => setDeleteConfirmId(transaction.id)}
+                        title="Supprimer"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    ) : null}
+                  </div>
+                </td>
+              </tr>
+            )
+          })}
+        </DataTable>
+      )}
+
+      {isImportOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <button
+            type="button"
+            className="absolute inset-0 bg-black/45"
+            onClick={closeImportModal}
+            aria-label="Fermer"
+          />
+
+          <div className="relative w-full max-w-140 overflow-hidden rounded-2xl border border-(--border-default) bg-(--card-bg) shadow-[0_8px_32px_-4px_rgba(0,0,0,0.15)]">
+            <div className="flex items-center justify-between px-7 pt-6 pb-0">
+              <div>
+                <h3 className="font-['Space_Grotesk'] text-[22px] font-semibold tracking-[-0.02em] text-(--text-primary)">
+                  Importer un relevé
+                </h3>
+                <p className="mt-1 text-[13px] text-(--text-secondary)">
+                  CSV, OFX ou CAMT.053 — les opérations déjà importées sont ignorées
+                </p>
+              </div>
+
+              <button
+                type="button"
+                onClick={closeImportModal}
+                className="inline-flex h-8 w-8 items-center justify-center rounded-lg text-(--text-secondary) transition-colors hover:bg-(--bg-hover) hover:text-(--text-primary)"
+                aria-label="Fermer"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+
+            <form onSubmit={handleImport}>
+              <div className="max-h-[65vh] space-y-4 overflow-y-auto px-7 py-5">
+                {importError && (
+                  <div className="rounded-lg border border-[#FCA5A5] bg-[#FEF2F2] px-3 py-2 text-sm text-[#B91C1C]">
+                    {importError}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_180px]">
+                  <div className="space-y-1.5">
+                    <label className="block text-[13px] font-medium text-(--text-primary)">Fichier *</label>
+                    <input
+                      type="file"
+                      accept=".csv,.txt,.ofx,.qfx,.xml"
+                      className="file-input file-input-bordered h-10 w-full text-sm"
+                      onChange={(e) => handleFileChange(e.target.files?.[0])}
+                    />
+                    {fileName ? <p className="text-[11px] text-(--text-tertiary)">{fileName}</p> : null}
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <label className="block text-[13px] font-medium text-(--text-primary)">Format</label>
+                    <Select
+                      className="h-10"
+                      value={format}
+                      onChange={(e) => setFormat(e.target.value as BankStatementFormat)}
+                      options={formatOptions}
+                    />
+                  </div>
+                </div>
+
+                {format === 'csv' && (
+                  <>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div className="space-y-1.5">
+                        <label className="block text-[13px] font-medium text-(--text-primary)">Séparateur</label>
+                        <Select
+                          className="h-10"
+                          value={mapping.delimiter}
+                          onChange={(e) => updateMapping('delimiter', e.target.value as CsvColumnMapping['delimiter'])}
+                          options={delimiterOptions}
+                        />
+                      </div>
+                      <div className="space-y-1.5">
+                        <label className="block text-[13px] font-medium text-(--text-primary)">Décimales</label>
+                        <Select
+                          className="h-10"
+                          value={mapping.decimalSeparator}
+                          onChange={(e) => updateMapping('decimalSeparator', e.target.value as CsvColumnMapping['decimalSeparator'])}
+                          options={decimalOptions}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      {renderColumnField('Colonne date', 'dateColumn')}
+                      <div className="space-y-1.5">
+                        <label className="block text-[13px] font-medium text-(--text-primary)">Format de date</label>
+                        <Select
+                          className="h-10"
+                          value={mapping.dateFormat}
+                          onChange={(e) => updateMapping('dateFormat', e.target.value as CsvColumnMapping['dateFormat'])}
+                          options={dateFormatOptions}
+                        />
+                      </div>
+                    </div>
+
+                    {renderColumnField('Colonne libellé', 'labelColumn')}
+
+                    <div className="space-y-1.5">
+                      <label className="block text-[13px] font-medium text-(--text-primary)">Montants</label>
+                      <Select
+                        className="h-10"
+                        value={amountMode}
+                        onChange={(e) => setAmountMode(e.target.value as 'single' | 'split')}
+                        options={[
+                          { value: 'split', label: 'Colonnes débit et crédit' },
+                          { value: 'single', label: 'Une colonne signée' },
+                        ]}
+                      />
+                    </div>
+
+                    {amountMode === 'single' ? (
+                      renderColumnField('Colonne montant', 'amountColumn')
+                    ) : (
+                      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        {renderColumnField('Colonne débit', 'debitColumn')}
+                        {renderColumnField('Colonne crédit', 'creditColumn')}
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      {renderColumnField('Colonne tiers', 'counterpartyColumn', true)}
+                      {renderColumnField('Colonne référence', 'referenceColumn', true)}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="h-px w-full bg-(--border-default)" />
+              <div className="flex items-center justify-end gap-3 px-7 pt-4 pb-6">
+                <AppButton type="button" variant="outline" onClick={closeImportModal}>
+                  Annuler
+                </AppButton>
+                <AppButton
+                  type="submit"
+                  startIcon={importMutation.isPending ? null : <Upload className="h-4 w-4" />}
+                  disabled={importMutation.isPending}
+                >
+                  {importMutation.isPending ? (
+                    <span className="loading loading-spinner loading-sm" />
+                  ) : (
+                    'Importer'
+                  )}
+                </AppButton>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={deleteConfirmId !== null}
+        title="Supprimer l'opération"
+        message="Cette opération sera retirée du relevé importé. Un nouvel import du même relevé la recréera."
+        confirmLabel="Supprimer"
+        cancelLabel="Annuler"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+        onConfirm={() => deleteConfirmId && handleDelete(deleteConfirmId)}
+        onCancel={() => setDeleteConfirmId(null)}
+      />
+    </div>
+  )
+}
@@ -20,7 +20,7 @@ export default function BusinessAccount() {
 
   useEffect(() => {
     if (balance) {
-      setInputBalance(balance.balance)
+      setInputBalance(balance.currentBalance)
     }
   }, [balance])
 
@@ -47,7 +47,10 @@ export default function BusinessAccount() {
 
   const availableFundsValue = summary ? parseFloat(summary.availableFunds) : 0
   const isAvailablePositive = availableFundsValue >= 0
-  const totalTva = summary ? parseFloat(summary.pendingTva) + parseFloat(summary.estimatedTva) : 0
+  // The TVA credit of filed returns only offsets the TVA still to declare
+  const tvaCredit = summary ? parseFloat(summary.tvaCredit) : 0
+  const estimatedTvaAfterCredit = summary ? Math.max(0, parseFloat(summary.estimatedTva) - tvaCredit) : 0
+  const totalTva = summary ? parseFloat(summary.pendingTva) + estimatedTvaAfterCredit : 0
   const totalUrssaf = summary ? parseFloat(summary.pendingUrssaf) + parseFloat(summary.estimatedUrssaf) : 0
   const expensesSampleMonths = summary?.typicalMonthlyExpensesMonths ?? 0
   const expensesTypicalLabel = expensesSampleMonths === 0
@@ -106,7 +109,12 @@ export default function BusinessAccount() {
 
           {balance ? (
             <p className="mt-3 text-[11px] text-(--text-tertiary)">
-              Dernière mise à jour : {new Date(balance.updatedAt).toLocaleDateString('fr-FR')}
+              {balance.balanceDate
+                ? `Solde de ${formatCurrency(balance.balance)} au ${new Date(balance.balanceDate).toLocaleDateString('fr-FR')}`
+                : `Dernière mise à jour : ${new Date(balance.updatedAt).toLocaleDateString('fr-FR')}`}
+              {balance.transactionsSinceBalance > 0
+                ? `, plus ${balance.transactionsSinceBalance} opération(s) bancaire(s) importée(s) depuis`
+                : ''}
             </p>
           ) : null}
         </section>
@@ -147,7 +155,12 @@ export default function BusinessAccount() {
                     <span className="inline-flex h-5.5 items-center rounded-full bg-[#DBEAFE] px-2 text-[11px] font-semibold text-[#3B82F6]">TVA</span>
                   </td>
                   <td className="px-3 text-right text-[13px] text-(--text-primary)">{summary ? formatCurrency(summary.pendingTva) : '0 €'}</td>
-                  <td className="px-3 text-right text-[13px] text-(--text-secondary)">{summary ? formatCurrency(summary.estimatedTva) : '0 €'}</td>
+                  <td className="px-3 text-right text-[13px] text-(--text-secondary)">
+                    {formatCurrency(estimatedTvaAfterCredit)}
+                    {tvaCredit > 0 && (
+                      <span className="block text-[11px] text-(--color-success)">après crédit de {formatCurrency(tvaCredit)}</span>
+                    )}
+                  </td>
                   <td className="px-6 text-right text-[13px] font-medium text-(--text-primary)">{formatCurrency(totalTva)}</td>
                 </tr>
 
@@ -156,7 +169,12 @@ export default function BusinessAccount() {
                     <span className="inline-flex h-5.5 items-center rounded-full bg-[#E0F2FE] px-2 text-[11px] font-semibold text-[#0284C7]">Urssaf</span>
                   </td>
                   <td className="px-3 text-right text-[13px] text-(--text-primary)">{summary ? formatCurrency(summary.pendingUrssaf) : '0 €'}</td>
-                  <td className="px-3 text-right text-[13px] text-(--text-secondary)">{summary ? formatCurrency(summary.estimatedUrssaf) : '0 €'}</td>
+                  <td className="px-3 text-right text-[13px] text-(--text-secondary)">
+                    {summary ? formatCurrency(summary.estimatedUrssaf) : '0 €'}
+                    {summary && parseFloat(summary.estimatedVersementLiberatoire) > 0 && (
+                      <span className="block text-[11px] text-(--text-tertiary)">dont versement libératoire {formatCurrency(summary.estimatedVersementLiberatoire)}</span>
+                    )}
+                  </td>
                   <td className="px-6 text-right text-[13px] font-medium text-(--text-primary)">{formatCurrency(totalUrssaf)}</td>
                 </tr>
 
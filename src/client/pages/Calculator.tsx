@@ -4,6 +4,12 @@ import { Info } from 'lucide-react'
 import { api } from '../api/client'
 import { YearSelect } from '../components/PeriodSelect'
 import { AppButton } from '../components/ui/AppButton'
+import { Select } from '../components/ui/Select'
+import { useActivityRates } from '../hooks/useSettings'
+import { useUrssafCalculation } from '../hooks/useUrssaf'
+import { activityTypeLabels, activityTypeOptions } from '../utils/activityTypes'
+import { urssafComponentLabels } from '../utils/urssafComponents'
+import type { MicroActivityType } from '@shared/types'
 
 type InputMode = 'ht' | 'ttc'
 
@@ -33,16 +39,24 @@ export default function Calculator() {
   const [amount, setAmount] = useState('')
   const [taxRate, setTaxRate] = useState('20')
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear())
+  const [selectedActivity, setSelectedActivity] = useState<MicroActivityType | null>(null)
 
   const { data: yearlyRates, isLoading: isLoadingRates } = useQuery({
     queryKey: ['yearlyRates', selectedYear],
     queryFn: () => api.get<YearlyRatesResponse>(`/settings/yearly-rates?year=${selectedYear}`),
   })
+  const { data: activityRates, isLoading: isLoadingActivityRates } = useActivityRates(selectedYear)
 
-  const calculations = useMemo(() => {
+  // The main activity until another one is picked
+  const activityType = selectedActivity ?? activityRates?.mainActivity ?? 'bnc'
+
+  const amounts = useMemo(() => {
     const inputAmount = parseFloat(amount) || 0
     const rate = parseFloat(taxRate) || 0
-    const urssafRate = yearlyRates ? parseFloat(yearlyRates.urssafRate) : 22
+    const urssafRate = activityRates
+      ? activityRates.rates[activityType].urssafRate
+      : yearlyRates ? parseFloat(yearlyRates.urssafRate) : 22
+    const deductionRate = activityRates ? activityRates.rates[activityType].deductionRate : 34
     const estimatedTaxRate = yearlyRates ? parseFloat(yearlyRates.estimatedTaxRate) : 11
 
     let amountHt: number
@@ -59,23 +73,46 @@ export default function Calculator() {
       tvaAmount = amountTtc - amountHt
     }
 
-    const urssafAmount = amountHt * (urssafRate / 100)
+    const taxableIncome = amountHt * (1 - deductionRate / 100)
     const estimatedTax = amountHt * (estimatedTaxRate / 100)
-    const totalDeductions = urssafAmount + estimatedTax
-    const netRemaining = amountHt - totalDeductions
 
     return {
       amountHt,
       amountTtc,
       tvaAmount,
-      urssafAmount,
       urssafRate,
+      deductionRate,
+      taxableIncome,
       estimatedTax,
       estimatedTaxRate,
-      totalDeductions,
-      netRemaining,
     }
-  }, [amount, taxRate, inputMode, yearlyRates])
+  }, [amount, taxRate, inputMode, yearlyRates, activityRates, activityType])
+
+  // Contributions line by line (social, CFP, versement libératoire, chamber), with ACRE as of today
+  // for the current year
+  const amountHtCents = Math.round(amounts.amountHt * 100) / 100
+  const today = new Date().toISOString().split('T')[0]
+  const { data: urssafCalculation } = useUrssafCalculation(
+    {
+      revenueByActivity: { [activityType]: amountHtCents },
+      year: selectedYear,
+      date: today.startsWith(`${selectedYear}-`) ? today : undefined,
+    },
+    amountHtCents > 0
+  )
+
+  const urssafAmount = amountHtCents > 0 && urssafCalculation
+    ? parseFloat(urssafCalculation.amount)
+    : amounts.amountHt * (amounts.urssafRate / 100)
+  const totalDeductions = urssafAmount + amounts.estimatedTax
+  const calculations = {
+    ...amounts,
+    urssafAmount,
+    // Blended rate of all the components once computed
+    urssafRate: amountHtCents > 0 && urssafCalculation ? urssafCalculation.rate : amounts.urssafRate,
+    totalDeductions,
+    netRemaining: amounts.amountHt - totalDeductions,
+  }
 
   const handleInputModeChange = (mode: InputMode) => {
     if (mode === inputMode) return
@@ -99,9 +136,10 @@ export default function Calculator() {
     setAmount('')
     setTaxRate('20')
     setInputMode('ht')
+    setSelectedActivity(null)
   }
 
-  if (isLoadingRates) {
+  if (isLoadingRates || isLoadingActivityRates) {
     return (
       <div className="flex h-64 items-center justify-center">
         <span className="loading loading-spinner loading-lg"></span>
@@ -188,6 +226,16 @@ export default function Calculator() {
               </select>
             </div>
 
+            <div>
+              <label className="mb-2 block text-[13px] font-medium text-(--text-secondary)">Type d'activité</label>
+              <Select
+                className="h-10.5"
+                value={activityType}
+                onChange={(e) => setSelectedActivity(e.target.value as MicroActivityType)}
+                options={activityTypeOptions}
+              />
+            </div>
+
             <div>
               <AppButton variant="outline" className="w-full" onClick={handleReset}>
                 Reinitialiser
@@ -220,6 +268,11 @@ export default function Calculator() {
               <span className="text-sm text-(--text-secondary)">TVA ({taxRate}%)</span>
               <span className="text-sm font-semibold text-(--text-primary)">{formatCurrency(calculations.tvaAmount)}</span>
             </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-(--text-secondary)">Revenu imposable (abattement {calculations.deductionRate}%)</span>
+              <span className="text-sm font-semibold text-(--text-primary)">{formatCurrency(calculations.taxableIncome)}</span>
+            </div>
           </div>
 
           <div className="h-px w-full bg-(--border-default)"></div>
@@ -232,6 +285,17 @@ export default function Calculator() {
               <span className="text-sm font-semibold text-(--color-error)">- {formatCurrency(calculations.urssafAmount)}</span>
             </div>
 
+            {amountHtCents > 0 && urssafCalculation?.components.map((component) => (
+              <div key={component.component} className="flex items-center justify-between pl-4">
+                <span className="text-xs text-(--text-tertiary)">
+                  {urssafComponentLabels[component.component]}
+                  {component.lines.length === 1 ? ` (${component.lines[0].rate}%)` : ''}
+                  {component.component === 'social' && urssafCalculation.acreReduction > 0 ? ` · ACRE -${urssafCalculation.acreReduction}%` : ''}
+                </span>
+                <span className="text-xs text-(--text-secondary)">- {formatCurrency(component.total)}</span>
+              </div>
+            ))}
+
             <div className="flex items-center justify-between">
               <span className="text-sm text-(--text-secondary)">Impot estime ({calculations.estimatedTaxRate}%)</span>
               <span className="text-sm font-semibold text-(--color-error)">- {formatCurrency(calculations.estimatedTax)}</span>
@@ -282,7 +346,7 @@ export default function Calculator() {
             <p className="mt-1 font-['Space_Grotesk'] text-xl font-semibold text-(--text-primary)">
               {formatPercent(calculations.urssafRate)}%
             </p>
-            <p className="mt-1 text-xs text-(--text-secondary)">Cotisations sociales</p>
+            <p className="mt-1 text-xs text-(--text-secondary)">{activityTypeLabels[activityType]}</p>
           </article>
 
           <article className="rounded-lg border border-(--border-default) bg-[#FAFAFA] p-4">
@@ -290,7 +354,7 @@ export default function Calculator() {
             <p className="mt-1 font-['Space_Grotesk'] text-xl font-semibold text-(--text-primary)">
               {formatPercent(calculations.estimatedTaxRate)}%
             </p>
-            <p className="mt-1 text-xs text-(--text-secondary)">Versement liberatoire</p>
+            <p className="mt-1 text-xs text-(--text-secondary)">Impot sur le revenu</p>
           </article>
 
           <article className="rounded-lg border border-(--border-default) bg-[#FAFAFA] p-4">
@@ -1,11 +1,13 @@
 import { useState } from 'react'
-import { useYearlyDashboard } from '../hooks/useDashboard'
+import { useDashboardSummary, useMicroCeiling, useYearlyDashboard } from '../hooks/useDashboard'
 import { useAccountSummary } from '../hooks/useAccount'
+import { useAgingReport } from '../hooks/useInvoices'
 import { Link } from 'react-router-dom'
 import { YearSelect } from '../components/PeriodSelect'
-import { ArrowUpRight, Landmark, Receipt, Wallet } from 'lucide-react'
+import { AlertCircle, ArrowUpRight, CalendarClock, Landmark, Receipt, TriangleAlert, Wallet } from 'lucide-react'
 import { KpiCard } from '../components/ui/KpiCard'
 import { DataTable, type DataTableColumn } from '../components/ui/DataTable'
+import type { UpcomingPayment } from '@shared/types'
 
 function formatCurrency(amount: string | number): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount
@@ -25,6 +27,23 @@ function formatRoundedCurrency(amount: string | number): string {
   }).format(Math.round(num))
 }
 
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+const deadlineTypeLabels: Record<UpcomingPayment['type'], string> = {
+  urssaf: 'Urssaf',
+  tva: 'TVA',
+  cfe: 'CFE',
+  income_tax: 'Impôt',
+}
+
+const deadlineStatusLabels: Record<UpcomingPayment['status'], { label: string; className: string }> = {
+  overdue: { label: 'En retard', className: 'bg-[#FEE2E2] text-[#991B1B]' },
+  pending: { label: 'En attente', className: 'bg-[#FEF3C7] text-[#92400E]' },
+  upcoming: { label: 'À venir', className: 'bg-[#E0E7FF] text-[#3730A3]' },
+}
+
 const MONTHS = [
   'Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin',
   'Juillet', 'Août', 'Septembre', 'Octobre', 'Novembre', 'Décembre'
@@ -46,6 +65,9 @@ export default function Dashboard() {
 
   const { data: yearlyData, isLoading: yearlyLoading } = useYearlyDashboard(selectedYear)
   const { data: accountSummary, isLoading: accountLoading } = useAccountSummary()
+  const { data: agingReport } = useAgingReport()
+  const { data: microCeiling } = useMicroCeiling(selectedYear)
+  const { data: summary } = useDashboardSummary(currentYear, new Date().getMonth() + 1)
 
   const isLoading = yearlyLoading || accountLoading
 
@@ -105,7 +127,7 @@ export default function Dashboard() {
               <KpiCard
                 title="Impôts sur le revenu"
                 value={yearlyData ? formatCurrency(yearlyData.kpis.totalIncomeTaxEstimated) : '0 €'}
-                description={`Payé: ${yearlyData ? formatCurrency(yearlyData.kpis.totalIncomeTaxPaid) : '0 €'}`}
+                description={`Part due à l'activité | Payé: ${yearlyData ? formatCurrency(yearlyData.kpis.totalIncomeTaxPaid) : '0 €'}`}
                 accentColor="#A78BFA"
                 valueColor="#A78BFA"
               />
@@ -119,6 +141,115 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {agingReport && agingReport.overdueInvoices.length > 0 && (
+            <Link
+              to="/invoices"
+              className="mb-8 flex items-center justify-between gap-3 rounded-[10px] border border-[#FECACA] bg-[#FEF2F2] px-5 py-4 shadow-[0_1px_4px_rgba(0,0,0,0.06)] transition-colors hover:bg-[#FEE2E2]"
+            >
+              <div className="flex items-center gap-3">
+                <TriangleAlert className="h-5 w-5 text-[#DC2626]" />
+                <div>
+                  <p className="text-sm font-semibold text-[#991B1B]">
+                    {agingReport.overdueInvoices.length} facture(s) en retard de paiement
+                  </p>
+                  <p className="text-xs text-[#B91C1C]">
+                    {formatCurrency(agingReport.overdueTotal)} échus, la plus ancienne depuis {agingReport.overdueInvoices[0].daysOverdue} jours
+                  </p>
+                </div>
+              </div>
+              <ArrowUpRight className="h-4 w-4 text-[#B91C1C]" />
+            </Link>
+          )}
+
+          {yearlyData && yearlyData.franchiseAlerts.length > 0 && (
+            <Link
+              to="/tva"
+              className="mb-8 flex items-center justify-between gap-3 rounded-[10px] border border-[#FDE68A] bg-[#FFFBEB] px-5 py-4 shadow-[0_1px_4px_rgba(0,0,0,0.06)] transition-colors hover:bg-[#FEF3C7]"
+            >
+              <div className="flex items-center gap-3">
+                <TriangleAlert className="h-5 w-5 text-[#B45309]" />
+                <div>
+                  <p className="text-sm font-semibold text-[#92400E]">Franchise en base de TVA</p>
+                  {yearlyData.franchiseAlerts.map((alert) => (
+                    <p key={alert} className="text-xs text-[#B45309]">{alert}</p>
+                  ))}
+                </div>
+              </div>
+              <ArrowUpRight className="h-4 w-4 text-[#B45309]" />
+            </Link>
+          )}
+
+          {/* Next deadlines from the fiscal calendar */}
+          {summary && summary.upcomingPayments.length > 0 && (
+            <div className="mb-8 space-y-3">
+              <div className="flex items-baseline justify-between gap-3">
+                <h2 className="text-lg font-semibold">Prochaines échéances</h2>
+                <Link to="/settings" className="text-xs text-(--text-secondary) hover:text-(--text-primary)">
+                  Ajouter à mon agenda
+                </Link>
+              </div>
+              <div className="divide-y divide-(--border-default) rounded-[10px] border border-(--border-default) bg-(--card-bg) shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+                {summary.upcomingPayments.map((payment) => (
+                  <div key={`${payment.type}-${payment.dueDate}-${payment.description}`} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      <CalendarClock className="h-4 w-4 text-(--text-tertiary)" />
+                      <div>
+                        <p className="text-sm font-medium text-(--text-primary)">{payment.description}</p>
+                        <p className="text-xs text-(--text-secondary)">
+                          {deadlineTypeLabels[payment.type]} · échéance le {formatDate(payment.dueDate)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {payment.amount !== null && (
+                        <span className="font-mono text-sm font-semibold text-(--text-primary)">{formatCurrency(payment.amount)}</span>
+                      )}
+                      <span className={`inline-flex h-6 items-center rounded-full px-2 text-[10px] font-semibold ${deadlineStatusLabels[payment.status].className}`}>
+                        {deadlineStatusLabels[payment.status].label}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Micro-entreprise revenue ceiling */}
+          {microCeiling && (
+            <div className="mb-8 space-y-3">
+              <div className="flex items-baseline justify-between gap-3">
+                <h2 className="text-lg font-semibold">Plafond micro-entreprise</h2>
+                <span className="text-sm text-(--text-secondary)">
+                  CA {selectedYear} : <span className="font-mono font-semibold text-(--text-primary)">{formatRoundedCurrency(microCeiling.current.revenueHt)}</span>
+                  {' '}sur {formatRoundedCurrency(microCeiling.current.ceiling)}
+                  {microCeiling.current.prorated && ` (proratisé sur ${microCeiling.current.activityDays} jours)`}
+                </span>
+              </div>
+              <div className="space-y-3 rounded-[10px] border border-(--border-default) bg-(--card-bg) p-4 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+                <progress
+                  className={`progress w-full ${microCeiling.current.status === 'under' ? 'progress-success' : microCeiling.current.status === 'projected_over' ? 'progress-warning' : 'progress-error'}`}
+                  value={Math.min(microCeiling.current.revenueHt, microCeiling.current.ceiling)}
+                  max={microCeiling.current.ceiling}
+                />
+                <div className="flex flex-wrap justify-between gap-2 text-xs text-(--text-secondary)">
+                  <span>Projection au rythme actuel : {formatRoundedCurrency(microCeiling.current.projectedRevenueHt)}</span>
+                  {microCeiling.previous && (
+                    <span>
+                      CA {microCeiling.previous.year} : {formatRoundedCurrency(microCeiling.previous.revenueHt)} sur {formatRoundedCurrency(microCeiling.previous.ceiling)}
+                      {microCeiling.previous.exceeded ? ' (dépassé)' : ''}
+                    </span>
+                  )}
+                </div>
+                {microCeiling.alerts.map((alert) => (
+                  <div key={alert} className="flex items-start gap-2 text-sm text-[#B45309]">
+                    <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                    <span>{alert}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Monthly Breakdown Table */}
           <div className="mb-8">
             <h2 className="mb-4 text-lg font-semibold">Détail mensuel</h2>
@@ -204,7 +335,12 @@ export default function Dashboard() {
                 <div className="font-['Space_Grotesk'] text-2xl font-semibold tracking-tight text-[#F59E0B]">
                   {accountSummary ? formatCurrency(accountSummary.totalObligations) : '0 €'}
                 </div>
-                <p className="mt-2 text-xs text-[#71717A]">TVA + Urssaf + Impôts</p>
+                <p className="mt-2 text-xs text-[#71717A]">
+                  TVA + Urssaf + Impôts
+                  {accountSummary && parseFloat(accountSummary.tvaCredit) > 0
+                    ? ` · crédit de TVA ${formatCurrency(accountSummary.tvaCredit)} déduit`
+                    : ''}
+                </p>
               </div>
               <div className="rounded-[10px] border border-[#E2E5F0] bg-white p-5 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
                 <div className="mb-3 flex items-center justify-between">
@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import { AlertTriangle, Download, Loader2 } from 'lucide-react'
+import { useDesDeclaration, useDownloadDes } from '../hooks/useTva'
+import { MonthSelect } from '../components/PeriodSelect'
+import { AppButton } from '../components/ui/AppButton'
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'currency',
+    currency: 'EUR',
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('fr-FR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+// The DES of a month is filed by the 10th of the following month
+function getPreviousMonth(): string {
+  const now = new Date()
+  const previous = new Date(now.getFullYear(), now.getMonth() - 1, 1)
+  return `${previous.getFullYear()}-${(previous.getMonth() + 1).toString().padStart(2, '0')}`
+}
+
+export default function DesDeclaration() {
+  const [selectedMonth, setSelectedMonth] = useState(getPreviousMonth())
+  const [downloadError, setDownloadError] = useState<string | null>(null)
+  const { data: declaration, isLoading, error } = useDesDeclaration(selectedMonth)
+  const downloadMutation = useDownloadDes()
+
+  const currentYear = new Date().getFullYear()
+  const canExport = !!declaration && declaration.lines.length > 0 && declaration.issues.length === 0
+
+  const handleDownload = async (format: 'xml' | 'csv') => {
+    setDownloadError(null)
+    try {
+      await downloadMutation.mutateAsync({ month: selectedMonth, format })
+    } catch (err) {
+      setDownloadError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-7">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight text-(--text-primary)">Déclaration européenne de services</h1>
+          <p className="text-sm text-(--text-secondary)">
+            Prestations facturées en autoliquidation à des clients établis dans un autre pays de l'UE, à déposer sur douane.gouv.fr avant le 10 du mois suivant.
+          </p>
+        </div>
+        <MonthSelect
+          value={selectedMonth}
+          onChange={setSelectedMonth}
+          years={[currentYear, currentYear - 1, currentYear - 2]}
+        />
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-12">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      )}
+
+      {error && (
+        <div className="alert alert-error">
+          <span>Erreur lors du chargement des donnees</span>
+        </div>
+      )}
+
+      {declaration && (
+        <>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-4">
+              <p className="text-[11px] font-semibold uppercase tracking-[0.05em] text-(--text-tertiary)">Clients déclarés</p>
+              <p className="mt-1 font-['Space_Grotesk'] text-2xl font-semibold tracking-tight text-(--text-primary)">{declaration.lines.length}</p>
+            </div>
+            <div className="rounded-[10px] border border-[#2563EB] bg-[#EFF6FF] p-4">
+              <p className="text-[11px] font-semibold uppercase tracking-[0.05em] text-[#2563EB]">Montant total HT</p>
+              <p className="mt-1 font-['Space_Grotesk'] text-2xl font-semibold tracking-tight text-[#2563EB]">{formatCurrency(declaration.total)}</p>
+            </div>
+            <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-4">
+              <p className="text-[11px] font-semibold uppercase tracking-[0.05em] text-(--text-tertiary)">N° TVA déclarant</p>
+              <p className="mt-1 font-mono text-lg font-semibold text-(--text-primary)">{declaration.issuerTvaNumber ?? '-'}</p>
+            </div>
+          </div>
+
+          {declaration.issues.length > 0 && (
+            <div className="rounded-[10px] border border-[#F59E0B] bg-[#FFFBEB] p-4">
+              <div className="flex items-center gap-2 text-sm font-semibold text-[#B45309]">
+                <AlertTriangle className="h-4 w-4" />
+                A corriger avant l'export
+              </div>
+              <ul className="mt-2 list-disc space-y-1 pl-6 text-sm text-[#B45309]">
+                {declaration.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {downloadError && (
+            <div className="alert alert-error">
+              <span>{downloadError}</span>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <AppButton
+              startIcon={downloadMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              onClick={() => handleDownload('xml')}
+              disabled={!canExport || downloadMutation.isPending}
+            >
+              Fichier douane (XML)
+            </AppButton>
+            <AppButton
+              variant="outline"
+              startIcon={<Download className="h-4 w-4" />}
+              onClick={() => handleDownload('csv')}
+              disabled={!canExport || downloadMutation.isPending}
+            >
+              CSV
+            </AppButton>
+          </div>
+
+          <div className="overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+            {declaration.lines.length === 0 ? (
+              <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucune prestation intracommunautaire facturée ce mois</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-160">
+                  <thead className="h-9 border-b border-(--border-default) bg-(--color-base-200)">
+                    <tr>
+                      <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Ligne</th>
+                      <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Client</th>
+                      <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">N° TVA</th>
+                      <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Factures</th>
+                      <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Montant HT</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {declaration.lines.map((line, index) => (
+                      <tr key={line.lineNumber} className={`h-10 align-top ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
+                        <td className="px-5 py-2.5 text-sm text-(--text-secondary)">{line.lineNumber}</td>
+                        <td className="px-5 py-2.5 text-sm text-(--text-primary)">{line.client}</td>
+                        <td className={`px-5 py-2.5 font-mono text-sm ${line.issues.length > 0 ? 'text-[#DC2626]' : 'text-(--text-primary)'}`}>
+                          {line.tvaNumber || '-'}
+                        </td>
+                        <td className="px-5 py-2.5 text-xs text-(--text-secondary)">
+                          {line.invoices.map((invoice) => (
+                            <div key={invoice.invoiceId}>
+                              {invoice.invoiceNumber ?? '-'} du {formatDate(invoice.invoiceDate)}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-5 py-2.5 text-right text-sm font-medium text-(--text-primary)">{formatCurrency(line.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
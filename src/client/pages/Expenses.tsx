@@ -6,6 +6,7 @@ import {
   useDeleteExpense,
   useRecurringExpenses,
 } from '../hooks/useExpenses'
+import { useExchangeRateLookup } from '../hooks/useExchangeRates'
 import type { Expense, CreateExpenseInput, ExpenseCategory, RecurrencePeriod } from '@shared/types'
 import { ArrowUpDown, Check, ChevronDown, ChevronUp, Pencil, Plus, Repeat2, Trash2, Wallet, X } from 'lucide-react'
 import { ConfirmDialog } from '../components/ConfirmDialog'
@@ -16,6 +17,7 @@ import { Checkbox } from '../components/ui/Checkbox'
 import { KpiCard } from '../components/ui/KpiCard'
 import { Radio } from '../components/ui/Radio'
 import { Select } from '../components/ui/Select'
+import { currencyOptions } from '../components/ExchangeRatesSection'
 import { Switch } from '../components/ui/Switch'
 import { DataTable, type DataTableColumn } from '../components/ui/DataTable'
 
@@ -34,14 +36,20 @@ function formatMonth(dateString: string): string {
   })
 }
 
-function formatCurrency(amount: string | number): string {
+function formatCurrency(amount: string | number, currency = 'EUR'): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount
   return new Intl.NumberFormat('fr-FR', {
     style: 'currency',
-    currency: 'EUR',
+    currency,
   }).format(num)
 }
 
+// Expense amounts are in the expense currency; totals across expenses are in euros
+function toEur(amount: string | number, expense: Expense): number {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount
+  return num / parseFloat(expense.exchangeRate)
+}
+
 function getCurrentMonth(): string {
   const now = new Date()
   return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`
@@ -78,6 +86,14 @@ const taxRateOptions = [
   { value: '20', label: '20%' },
 ]
 
+// Rate of the TVA self-assessed on intra-EU purchases, one per CA3 line
+const reverseChargeRateOptions = [
+  { value: '20', label: '20% (Taux normal)' },
+  { value: '10', label: '10%' },
+  { value: '5.5', label: '5.5%' },
+  { value: '2.1', label: '2.1%' },
+]
+
 const taxRecoveryRateOptions = [
   { value: '100', label: '100% (Recuperation totale)' },
   { value: '80', label: '80% (Recuperation partielle)' },
@@ -140,6 +156,7 @@ interface ExpenseFormData {
   category: ExpenseCategory
   isRecurring: boolean
   isIntraEu: boolean
+  reverseChargeRate: string
   recurrencePeriod: RecurrencePeriod | ''
   startMonth: string
   endMonth: string
@@ -148,6 +165,8 @@ interface ExpenseFormData {
   inputMode: 'ht' | 'ttc'
   amountTtc: string
   taxRate: string
+  currency: string
+  exchangeRate: string
 }
 
 const defaultFormData: ExpenseFormData = {
@@ -159,6 +178,7 @@ const defaultFormData: ExpenseFormData = {
   category: 'one-time',
   isRecurring: false,
   isIntraEu: false,
+  reverseChargeRate: '20',
   recurrencePeriod: 'monthly',
   startMonth: `${new Date().getFullYear()}-01`,
   endMonth: '',
@@ -167,6 +187,8 @@ const defaultFormData: ExpenseFormData = {
   inputMode: 'ttc',
   amountTtc: '',
   taxRate: '20',
+  currency: 'EUR',
+  exchangeRate: '',
 }
 
 export default function Expenses() {
@@ -199,6 +221,10 @@ export default function Expenses() {
   const createMutation = useCreateExpense()
   const updateMutation = useUpdateExpense()
   const deleteMutation = useDeleteExpense()
+  const { data: rateLookup } = useExchangeRateLookup(
+    formData.currency,
+    formData.isRecurring ? `${formData.startMonth}-01` : formData.date,
+  )
   const currentMonthKey = getCurrentMonth()
 
   const nonFixedExpenses = useMemo(
@@ -216,9 +242,9 @@ export default function Expenses() {
     let totalRecoverable = 0
 
     filtered.forEach((expense) => {
-      const tax = parseFloat(expense.taxAmount)
+      const tax = toEur(expense.taxAmount, expense)
       const recoveryRate = parseFloat(expense.taxRecoveryRate) / 100
-      totalHt += parseFloat(expense.amountHt)
+      totalHt += toEur(expense.amountHt, expense)
       totalTax += tax
       totalRecoverable += tax * recoveryRate
     })
@@ -239,8 +265,8 @@ export default function Expenses() {
     let totalTax = 0
     let totalRecoverable = 0
     activeFixedData.data.forEach((expense) => {
-      const ht = parseFloat(expense.amountHt)
-      const tax = parseFloat(expense.taxAmount)
+      const ht = toEur(expense.amountHt, expense)
+      const tax = toEur(expense.taxAmount, expense)
       const recoveryRate = parseFloat(expense.taxRecoveryRate) / 100
       totalHt += ht
       totalTax += tax
@@ -276,8 +302,8 @@ export default function Expenses() {
     let yearlyTotal = 0
 
     allFixedData.data.forEach((expense) => {
-      const ht = parseFloat(expense.amountHt)
-      const tax = parseFloat(expense.taxAmount)
+      const ht = toEur(expense.amountHt, expense)
+      const tax = toEur(expense.taxAmount, expense)
       const ttc = ht + tax
 
       switch (expense.recurrencePeriod) {
@@ -474,6 +500,7 @@ export default function Expenses() {
       category: expense.category as ExpenseCategory,
       isRecurring: expense.isRecurring,
       isIntraEu: expense.isIntraEu,
+      reverseChargeRate: parseFloat(expense.reverseChargeRate).toString(),
       recurrencePeriod: (expense.recurrencePeriod as RecurrencePeriod) || 'monthly',
       startMonth: expense.startMonth ? expense.startMonth.substring(0, 7) : `${new Date().getFullYear()}-01`,
       endMonth: expense.endMonth ? expense.endMonth.substring(0, 7) : '',
@@ -482,6 +509,8 @@ export default function Expenses() {
       inputMode: 'ht',
       amountTtc: ttc.toFixed(2),
       taxRate: ht > 0 ? ((tax / ht) * 100).toFixed(1) : '20',
+      currency: expense.currency,
+      exchangeRate: expense.currency === 'EUR' ? '' : parseFloat(expense.exchangeRate).toString(),
     })
     setError('')
     setIsModalOpen(true)
@@ -525,11 +554,14 @@ export default function Expenses() {
       category: formData.category,
       isRecurring: formData.isRecurring,
       isIntraEu: formData.isIntraEu,
+      reverseChargeRate: formData.isIntraEu ? parseFloat(formData.reverseChargeRate) : undefined,
       recurrencePeriod: formData.isRecurring ? (formData.recurrencePeriod as RecurrencePeriod) : undefined,
       startMonth: formData.isRecurring ? `${formData.startMonth}-01` : undefined,
       endMonth: formData.isRecurring && formData.endMonth ? `${formData.endMonth}-01` : undefined,
       paymentDay: formData.isRecurring ? parseInt(formData.paymentDay) : undefined,
       note: formData.note.trim() || undefined,
+      currency: formData.currency,
+      exchangeRate: formData.currency !== 'EUR' && formData.exchangeRate ? parseFloat(formData.exchangeRate) : undefined,
     }
 
     try {
@@ -739,8 +771,8 @@ export default function Expenses() {
                     >
                       <td className="px-3 text-sm font-medium text-(--text-primary) md:px-4">{expense.description}</td>
                       <td className="px-3 text-center text-sm text-(--text-primary) md:px-4">{expense.paymentDay}</td>
-                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(ht)}</td>
-                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(ttc)}</td>
+                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(ht, expense.currency)}</td>
+                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(ttc, expense.currency)}</td>
                     </tr>
                   )
                 })}
@@ -797,10 +829,10 @@ export default function Expenses() {
                         )}
                       </td>
                       <td className="px-3 text-sm text-(--text-primary) md:px-4">{formatDate(expense.date)}</td>
-                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(expense.amountHt)}</td>
-                      <td className="px-3 text-right font-mono text-sm text-(--text-secondary) md:px-4">{formatCurrency(expense.taxAmount)}</td>
+                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(expense.amountHt, expense.currency)}</td>
+                      <td className="px-3 text-right font-mono text-sm text-(--text-secondary) md:px-4">{formatCurrency(expense.taxAmount, expense.currency)}</td>
                       <td className="px-3 text-right font-mono text-sm md:px-4">
-                        <span className="text-[#15803D]">{formatCurrency(taxRecovery)}</span>
+                        <span className="text-[#15803D]">{formatCurrency(taxRecovery, expense.currency)}</span>
                         <span className="ml-1 text-[11px] text-(--text-tertiary)">({parseFloat(expense.taxRecoveryRate)}%)</span>
                       </td>
                       <td className="px-3 md:px-4">
@@ -917,7 +949,7 @@ export default function Expenses() {
                           <div className="max-w-xs truncate text-xs text-(--text-secondary)">{expense.note}</div>
                         )}
                       </td>
-                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(ttc)}</td>
+                      <td className="px-3 text-right font-mono text-sm text-(--text-primary) md:px-4">{formatCurrency(ttc, expense.currency)}</td>
                       <td className="px-3 text-center text-sm text-(--text-primary) md:px-4">{expense.paymentDay}</td>
                       <td className="px-3 text-sm md:px-4">
                         <span className="group relative inline-flex">
@@ -1102,22 +1134,62 @@ export default function Expenses() {
                   </>
                 )}
 
-                {!formData.isRecurring && (
-                  <Checkbox
-                    checked={formData.isIntraEu}
-                    onChange={(e) => {
-                      updateFormField('isIntraEu', e.target.checked)
-                      if (e.target.checked) {
-                        updateFormField('taxAmount', '0')
-                        updateFormField('taxRate', '0')
-                      }
-                    }}
-                    label="Achat intracommunautaire (intra-UE)"
-                    description="Auto-liquidation TVA"
-                    alignTop
-                  />
+                <Checkbox
+                  checked={formData.isIntraEu}
+                  onChange={(e) => {
+                    updateFormField('isIntraEu', e.target.checked)
+                    if (e.target.checked) {
+                      updateFormField('taxAmount', '0')
+                      updateFormField('taxRate', '0')
+                    }
+                  }}
+                  label="Achat intracommunautaire (intra-UE)"
+                  description="Auto-liquidation TVA"
+                  alignTop
+                />
+
+                {formData.isIntraEu && (
+                  <div className="space-y-1.5">
+                    <label className="block text-[13px] font-medium text-(--text-primary)">Taux d'autoliquidation</label>
+                    <Select
+                      value={formData.reverseChargeRate}
+                      onChange={(e) => updateFormField('reverseChargeRate', e.target.value)}
+                      options={reverseChargeRateOptions}
+                    />
+                  </div>
                 )}
 
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div className="space-y-1.5">
+                    <label className="block text-[13px] font-medium text-(--text-primary)">Devise</label>
+                    <Select
+                      value={formData.currency}
+                      onChange={(e) => updateFormField('currency', e.target.value)}
+                      options={currencyOptions}
+                    />
+                  </div>
+
+                  {formData.currency !== 'EUR' && (
+                    <div className="space-y-1.5">
+                      <label className="block text-[13px] font-medium text-(--text-primary)">Taux (1 EUR = x {formData.currency})</label>
+                      <input
+                        type="number"
+                        step="0.000001"
+                        min="0"
+                        className="h-10 w-full rounded-lg border border-(--border-default) bg-white px-3 text-sm text-(--text-primary) focus:border-(--color-primary) focus:outline-none"
+                        value={formData.exchangeRate}
+                        onChange={(e) => updateFormField('exchangeRate', e.target.value)}
+                        placeholder={rateLookup?.rate ? parseFloat(rateLookup.rate).toString() : ''}
+                      />
+                      <p className="text-[11px] text-(--text-tertiary)">
+                        {rateLookup?.rate
+                          ? 'Laissez vide pour appliquer le dernier cours enregistré'
+                          : 'Aucun cours enregistré à cette date : saisissez le taux'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <label className="block text-[13px] font-medium text-(--text-primary)">Mode de saisie</label>
                   <div className="flex flex-wrap items-center gap-4">
@@ -1139,7 +1211,7 @@ export default function Expenses() {
                 {formData.inputMode === 'ttc' ? (
                   <div className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_160px]">
                     <div className="space-y-1.5">
-                      <label className="block text-[13px] font-medium text-(--text-primary)">Montant TTC (EUR) *</label>
+                      <label className="block text-[13px] font-medium text-(--text-primary)">Montant TTC ({formData.currency}) *</label>
                       <input
                         type="number"
                         step="0.01"
@@ -1163,7 +1235,7 @@ export default function Expenses() {
                 ) : (
                   <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                     <div className="space-y-1.5">
-                      <label className="block text-[13px] font-medium text-(--text-primary)">Montant HT (EUR) *</label>
+                      <label className="block text-[13px] font-medium text-(--text-primary)">Montant HT ({formData.currency}) *</label>
                       <input
                         type="number"
                         step="0.01"
@@ -1176,7 +1248,7 @@ export default function Expenses() {
                     </div>
 
                     <div className="space-y-1.5">
-                      <label className="block text-[13px] font-medium text-(--text-primary)">Montant TVA (EUR)</label>
+                      <label className="block text-[13px] font-medium text-(--text-primary)">Montant TVA ({formData.currency})</label>
                       <input
                         type="number"
                         step="0.01"
@@ -1215,22 +1287,22 @@ export default function Expenses() {
                   <div className="space-y-2 rounded-lg bg-[#EEF2FF] px-4 py-3.5">
                     <div className="flex items-center justify-between text-[13px]">
                       <span className="text-(--text-secondary)">Montant HT :</span>
-                      <span className="font-medium text-(--text-primary)">{formatCurrency(calculatedValues.ht)}</span>
+                      <span className="font-medium text-(--text-primary)">{formatCurrency(calculatedValues.ht, formData.currency)}</span>
                     </div>
                     <div className="flex items-center justify-between text-[13px]">
                       <span className="text-(--text-secondary)">TVA :</span>
-                      <span className="font-medium text-(--text-primary)">{formatCurrency(calculatedValues.tax)}</span>
+                      <span className="font-medium text-(--text-primary)">{formatCurrency(calculatedValues.tax, formData.currency)}</span>
                     </div>
                     <div className="flex items-center justify-between text-[13px]">
                       <span className="text-(--text-secondary)">Total TTC :</span>
-                      <span className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">{formatCurrency(calculatedValues.ttc)}</span>
+                      <span className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">{formatCurrency(calculatedValues.ttc, formData.currency)}</span>
                     </div>
                     {calculatedValues.tax > 0 && (
                       <>
                         <div className="h-px w-full bg-(--border-default)" />
                         <div className="flex items-center justify-between text-[13px]">
                           <span className="text-(--text-secondary)">TVA recuperable :</span>
-                          <span className="font-['Space_Grotesk'] text-base font-semibold text-(--color-success)">{formatCurrency(calculatedRecovery)}</span>
+                          <span className="font-['Space_Grotesk'] text-base font-semibold text-(--color-success)">{formatCurrency(calculatedRecovery, formData.currency)}</span>
                         </div>
                       </>
                     )}
@@ -6,16 +6,19 @@ import {
   useUpdateIncomeTaxPayment,
   useDeleteIncomeTaxPayment,
 } from '../hooks/useIncomeTax'
-import { useSettings, useUpdateSettings } from '../hooks/useSettings'
+import { useIncomeTaxOptions, useSetIncomeTaxOptions } from '../hooks/useSettings'
 import type { IncomeTaxPayment, CreateIncomeTaxPaymentInput } from '@shared/types'
-import { Check, Pencil, Trash2 } from 'lucide-react'
+import { Check, Pencil, Trash2, TriangleAlert } from 'lucide-react'
 import { ConfirmDialog } from '../components/ConfirmDialog'
+import { HouseholdSection } from '../components/HouseholdSection'
 import { YearSelect, YEARS } from '../components/PeriodSelect'
 import { useSnackbar } from '../contexts/SnackbarContext'
 import { MathInput } from '../components/MathInput'
 import { AppButton } from '../components/ui/AppButton'
 import { KpiCard } from '../components/ui/KpiCard'
 import { Select } from '../components/ui/Select'
+import { Switch } from '../components/ui/Switch'
+import { activityTypeLabels } from '../utils/activityTypes'
 
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString('fr-FR', {
@@ -68,27 +71,46 @@ export default function IncomeTax() {
   const [editingPayment, setEditingPayment] = useState<IncomeTaxPayment | null>(null)
   const [formData, setFormData] = useState<IncomeTaxFormData>(defaultFormData)
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
-  const [additionalIncomeDraft, setAdditionalIncomeDraft] = useState(0)
+  const [referenceIncomeDraft, setReferenceIncomeDraft] = useState(0)
 
   const { showSuccess, showError } = useSnackbar()
 
   const { data: summary, isLoading: isLoadingSummary } = useIncomeTaxSummary(selectedYear)
   const { data: paymentsData, isLoading: isLoadingPayments } = useIncomeTaxPayments({ year: selectedYear })
-  const { data: settings } = useSettings()
-  const updateSettingsMutation = useUpdateSettings()
+  const { data: incomeTaxOptions } = useIncomeTaxOptions(selectedYear)
+  const setIncomeTaxOptionsMutation = useSetIncomeTaxOptions()
 
   const createMutation = useCreateIncomeTaxPayment()
   const updateMutation = useUpdateIncomeTaxPayment()
   const deleteMutation = useDeleteIncomeTaxPayment()
 
+  // Starts from the estimate until a revenu fiscal de référence is entered
   useEffect(() => {
-    setAdditionalIncomeDraft(parseFloat(settings?.additionalTaxableIncome || '0'))
-  }, [settings?.additionalTaxableIncome])
+    setReferenceIncomeDraft(incomeTaxOptions?.referenceTaxIncome
+      ? parseFloat(incomeTaxOptions.referenceTaxIncome)
+      : Math.round(incomeTaxOptions?.eligibility.referenceIncome ?? 0))
+  }, [incomeTaxOptions?.referenceTaxIncome, incomeTaxOptions?.eligibility.referenceIncome])
 
-  const handleAdditionalIncomeSave = async () => {
+  const handleVersementLiberatoireChange = async (versementLiberatoire: boolean) => {
     try {
-      await updateSettingsMutation.mutateAsync({ additionalTaxableIncome: additionalIncomeDraft })
-      showSuccess('Revenu supplémentaire mis à jour')
+      await setIncomeTaxOptionsMutation.mutateAsync({ year: selectedYear, versementLiberatoire })
+      showSuccess(versementLiberatoire
+        ? `Versement libératoire activé pour ${selectedYear}`
+        : `Versement libératoire désactivé pour ${selectedYear}`)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  // null goes back to the estimate from the revenue recorded for the reference year
+  const handleReferenceIncomeSave = async (referenceTaxIncome: number | null) => {
+    try {
+      await setIncomeTaxOptionsMutation.mutateAsync({
+        year: selectedYear,
+        versementLiberatoire: incomeTaxOptions?.versementLiberatoire ?? false,
+        referenceTaxIncome,
+      })
+      showSuccess('Revenu fiscal de référence mis à jour')
     } catch (err) {
       showError(err instanceof Error ? err.message : 'Une erreur est survenue')
     }
@@ -166,7 +188,12 @@ export default function IncomeTax() {
   const totalPaid = parseFloat(summary?.totalPaid || '0')
   const totalPending = parseFloat(summary?.totalPending || '0')
   const remaining = parseFloat(summary?.remaining || '0')
-  const totalProgress = totalPaid + totalPending
+  // Versement libératoire paid with the URSSAF contributions
+  const versementLiberatoirePaid = parseFloat(summary?.versementLiberatoirePaid || '0')
+  const totalProgress = totalPaid + totalPending + versementLiberatoirePaid
+  const isVersementLiberatoire = summary?.method === 'versement_liberatoire'
+  const eligibility = summary?.versementLiberatoireEligibility
+  const quotientFamilial = summary?.quotientFamilial
   const progressPercent = estimatedTax > 0 ? Math.min(100, (totalProgress / estimatedTax) * 100) : 0
 
   const activeBrackets = useMemo(
@@ -203,7 +230,7 @@ export default function IncomeTax() {
             <>
               Après abattement ({formatPercent(summary?.deductionRate || '34')})
               {parseFloat(summary?.additionalTaxableIncome || '0') > 0 && (
-                <> + {formatCurrency(summary?.additionalTaxableIncome || '0')}</>
+                <> + {formatCurrency(summary?.additionalTaxableIncome || '0')} d'autres revenus</>
               )}
             </>
           )}
@@ -214,7 +241,9 @@ export default function IncomeTax() {
         <KpiCard
           title="IMPÔT ESTIMÉ"
           value={isLoadingSummary ? <span className="loading loading-spinner loading-sm"></span> : formatCurrency(estimatedTax)}
-          description="Selon les tranches fiscales"
+          description={isVersementLiberatoire
+            ? `Versement libératoire + taux effectif de ${formatPercent(summary?.effectiveRate || '0')}`
+            : `Foyer de ${(summary?.household.parts ?? 1).toLocaleString('fr-FR')} part${(summary?.household.parts ?? 1) > 1 ? 's' : ''}, dont ${formatCurrency(summary?.businessShare || '0')} dû à l'activité`}
           accentColor="var(--border-default)"
           valueColor="var(--text-secondary)"
           valueClassName="text-[22px]"
@@ -222,47 +251,114 @@ export default function IncomeTax() {
         <KpiCard
           title="RESTE À PAYER"
           value={isLoadingSummary ? <span className="loading loading-spinner loading-sm"></span> : formatCurrency(remaining)}
-          description={totalPaid > 0 ? `${formatCurrency(totalPaid)} déjà payé` : 'Aucun paiement enregistré'}
+          description={totalPaid + versementLiberatoirePaid > 0
+            ? `${formatCurrency(totalPaid + versementLiberatoirePaid)} déjà payé`
+            : 'Aucun paiement enregistré'}
           accentColor="var(--kpi-amber, #FBBF24)"
           valueColor="var(--kpi-amber, #FBBF24)"
           valueClassName="text-[22px]"
         />
       </div>
 
+      {summary && summary.activities.length > 1 && (
+        <section className="overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+          <table className="w-full text-sm">
+            <tbody>
+              {summary.activities.map((line) => (
+                <tr key={line.activityType} className="h-10 border-b border-(--border-default) last:border-b-0">
+                  <td className="px-4 text-(--text-primary)">{activityTypeLabels[line.activityType]}</td>
+                  <td className="px-4 text-right font-mono text-(--text-secondary)">{formatCurrency(line.revenueHt)}</td>
+                  <td className="px-4 text-right text-(--text-secondary)">Abattement {formatPercent(100 - line.rate)}</td>
+                  <td className="px-4 text-right font-mono font-semibold text-(--text-primary)">{formatCurrency(line.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <HouseholdSection year={selectedYear} onSuccess={showSuccess} onError={showError} />
+
       <section className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-6 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
-        <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">Revenu imposable supplémentaire</h2>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">Versement libératoire {selectedYear}</h2>
+          <Switch
+            checked={incomeTaxOptions?.versementLiberatoire ?? false}
+            onChange={(e) => handleVersementLiberatoireChange(e.target.checked)}
+            disabled={!incomeTaxOptions || setIncomeTaxOptionsMutation.isPending}
+            label="Option pour le versement libératoire"
+          />
+        </div>
         <p className="mt-3 max-w-275 text-[13px] leading-relaxed text-(--text-secondary)">
-          Ajoutez un montant supplémentaire à votre revenu imposable (ex: autres revenus, revenus fonciers). Vous pouvez utiliser des expressions mathématiques (ex: 1000 + 500).
+          L'impôt sur le chiffre d'affaires est payé avec les cotisations Urssaf, à un taux forfaitaire. Le revenu après abattement
+          ne compte plus que pour le taux effectif appliqué à vos autres revenus. L'option est ouverte si le revenu fiscal de référence
+          de l'avant-dernière année ne dépasse pas la limite par part.
         </p>
 
         <div className="mt-4 flex flex-wrap items-end gap-3">
           <label className="flex w-full max-w-70 flex-col gap-1.5">
-            <span className="text-[13px] font-medium text-(--text-secondary)">Montant supplémentaire (EUR)</span>
+            <span className="text-[13px] font-medium text-(--text-secondary)">
+              Revenu fiscal de référence {eligibility?.referenceYear ?? selectedYear - 2} (EUR)
+            </span>
             <MathInput
-              value={additionalIncomeDraft}
-              onChange={setAdditionalIncomeDraft}
-              placeholder="0"
-              disabled={updateSettingsMutation.isPending}
+              value={referenceIncomeDraft}
+              onChange={setReferenceIncomeDraft}
+              disabled={setIncomeTaxOptionsMutation.isPending}
               className="h-10 border-(--border-default)! bg-(--card-bg)!"
             />
           </label>
 
           <AppButton
-            startIcon={updateSettingsMutation.isPending ? <span className="loading loading-spinner loading-xs"></span> : <Check className="h-4 w-4" />}
-            onClick={handleAdditionalIncomeSave}
-            disabled={updateSettingsMutation.isPending}
+            startIcon={<Check className="h-4 w-4" />}
+            onClick={() => handleReferenceIncomeSave(referenceIncomeDraft)}
+            disabled={!incomeTaxOptions || setIncomeTaxOptionsMutation.isPending}
           >
             Valider
           </AppButton>
+          {incomeTaxOptions?.referenceTaxIncome !== null && (
+            <AppButton
+              variant="ghost"
+              onClick={() => handleReferenceIncomeSave(null)}
+              disabled={setIncomeTaxOptionsMutation.isPending}
+            >
+              Utiliser l'estimation
+            </AppButton>
+          )}
         </div>
+
+        {eligibility && (
+          <p className="mt-3 text-[13px] text-(--text-secondary)">
+            {eligibility.referenceIncome !== null
+              ? <>RFR {eligibility.referenceYear}{eligibility.estimated && ' estimé d\'après le chiffre d\'affaires enregistré'} : {formatCurrency(eligibility.referenceIncome)} pour une limite de {formatCurrency(eligibility.limit)}</>
+              : <>Limite de revenu fiscal de référence {eligibility.referenceYear} : {formatCurrency(eligibility.limit)}</>}
+          </p>
+        )}
+
+        {eligibility?.warning && (
+          <div className="mt-3 flex items-start gap-2 rounded-lg border border-[#FDE68A] bg-[#FFFBEB] px-4 py-3 text-[13px] text-[#92400E]">
+            <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0 text-[#B45309]" />
+            <span>{eligibility.warning}</span>
+          </div>
+        )}
       </section>
 
       <div className="grid gap-6 grid-cols-[minmax(0,1fr)_340px]">
         <section className="overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
           <div className="border-b border-(--border-default) px-6 py-4">
             <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">
-              Calcul progressif de l'impôt {selectedYear}
+              {isVersementLiberatoire ? `Taux effectif ${selectedYear}` : `Calcul progressif de l'impôt ${selectedYear}`}
             </h2>
+            {isVersementLiberatoire && (
+              <p className="mt-1 text-xs text-(--text-secondary)">
+                Barème appliqué à l'ensemble des revenus : vos autres revenus en supportent la part proportionnelle
+              </p>
+            )}
+            {quotientFamilial && quotientFamilial.parts !== 1 && (
+              <p className="mt-1 text-xs text-(--text-secondary)">
+                Tranches appliquées au revenu par part ({formatCurrency(quotientFamilial.quotient)}), montants pour les{' '}
+                {quotientFamilial.parts.toLocaleString('fr-FR')} parts du foyer
+              </p>
+            )}
           </div>
 
           {isLoadingSummary ? (
@@ -312,10 +408,50 @@ export default function IncomeTax() {
                   })}
                 </tbody>
                 <tfoot>
+                  {parseFloat(quotientFamilial?.ceilingAdjustment || '0') > 0 && (
+                    <tr className="h-10 border-t border-(--border-default)">
+                      <td colSpan={3} className="px-4 text-sm text-(--text-secondary)">
+                        Plafonnement du quotient familial (avantage limité à {formatCurrency(quotientFamilial?.ceiling || '0')})
+                      </td>
+                      <td className="px-4 text-right font-mono text-sm whitespace-nowrap text-(--text-primary)">+{formatCurrency(quotientFamilial?.ceilingAdjustment || '0')}</td>
+                    </tr>
+                  )}
+                  {parseFloat(summary?.decote || '0') > 0 && (
+                    <tr className="h-10 border-t border-(--border-default)">
+                      <td colSpan={3} className="px-4 text-sm text-(--text-secondary)">Décote</td>
+                      <td className="px-4 text-right font-mono text-sm whitespace-nowrap text-(--text-primary)">-{formatCurrency(summary?.decote || '0')}</td>
+                    </tr>
+                  )}
+                  {isVersementLiberatoire && (
+                    <>
+                      <tr className="h-10 border-t border-(--border-default)">
+                        <td colSpan={3} className="px-4 text-sm text-(--text-secondary)">
+                          Impôt sur les autres revenus (taux effectif {formatPercent(summary?.effectiveRate || '0')})
+                        </td>
+                        <td className="px-4 text-right font-mono text-sm whitespace-nowrap text-(--text-primary)">{formatCurrency(summary?.progressiveTax || '0')}</td>
+                      </tr>
+                      <tr className="h-10 border-t border-(--border-default)">
+                        <td colSpan={3} className="px-4 text-sm text-(--text-secondary)">Versement libératoire</td>
+                        <td className="px-4 text-right font-mono text-sm whitespace-nowrap text-(--text-primary)">{formatCurrency(versementLiberatoirePaid)}</td>
+                      </tr>
+                    </>
+                  )}
+                  {parseFloat(summary?.cehr || '0') > 0 && (
+                    <tr className="h-10 border-t border-(--border-default)">
+                      <td colSpan={3} className="px-4 text-sm text-(--text-secondary)">Contribution exceptionnelle sur les hauts revenus</td>
+                      <td className="px-4 text-right font-mono text-sm whitespace-nowrap text-(--text-primary)">{formatCurrency(summary?.cehr || '0')}</td>
+                    </tr>
+                  )}
                   <tr className="h-11 border-t border-(--border-default) bg-(--color-base-200)">
                     <td colSpan={3} className="px-4 text-sm font-semibold text-(--text-primary)">Total impôt estimé</td>
                     <td className="px-4 text-right font-mono text-sm font-bold whitespace-nowrap text-(--color-warning)">{formatCurrency(estimatedTax)}</td>
                   </tr>
+                  <tr className="h-10 border-t border-(--border-default)">
+                    <td colSpan={3} className="px-4 text-sm text-(--text-secondary)">
+                      Dont impôt dû à l'activité (impôt du foyer moins l'impôt sans le revenu de l'activité)
+                    </td>
+                    <td className="px-4 text-right font-mono text-sm font-semibold whitespace-nowrap text-(--text-primary)">{formatCurrency(summary?.businessShare || '0')}</td>
+                  </tr>
                 </tfoot>
               </table>
             </div>
@@ -339,6 +475,12 @@ export default function IncomeTax() {
               <span className="h-2 w-2 rounded-full bg-(--color-success)"></span>
               <span>Payé: {formatCurrency(totalPaid)}</span>
             </div>
+            {summary?.versementLiberatoire && (
+              <div className="flex items-center gap-2 text-(--text-primary)">
+                <span className="h-2 w-2 rounded-full bg-(--color-info)"></span>
+                <span>Versement libératoire (Urssaf): {formatCurrency(versementLiberatoirePaid)}</span>
+              </div>
+            )}
             <div className="flex items-center gap-2 text-(--text-primary)">
               <span className="h-2 w-2 rounded-full bg-(--color-warning)"></span>
               <span>En attente: {formatCurrency(totalPending)}</span>
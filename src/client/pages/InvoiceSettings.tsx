@@ -1,54 +1,112 @@
 import { useState, type FormEvent } from 'react'
-import { Plus, Trash2 } from 'lucide-react'
-import { useInvoiceClients, useInvoiceDescriptions } from '../hooks/useInvoices'
+import { Plus, Trash2, Pencil, X } from 'lucide-react'
+import { useInvoiceDescriptions } from '../hooks/useInvoices'
+import { useClients, useCreateClient, useUpdateClient, useDeleteClient } from '../hooks/useClients'
 import { ConfirmDialog } from '../components/ConfirmDialog'
 import { useSnackbar } from '../contexts/SnackbarContext'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../api/client'
 import { AppButton } from '../components/ui/AppButton'
+import { FinanceTable, type FinanceTableColumn } from '../components/ui/FinanceTable'
+import { Select } from '../components/ui/Select'
+import type { ClientWithStats, CreateClientInput } from '@shared/types'
 
 const sectionTitleClass = "font-['Space_Grotesk'] text-[22px] font-semibold leading-tight tracking-[-0.015em] text-(--text-primary)"
 const inputClass =
   'h-10 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
+const modalFieldLabelClass = 'mb-1.5 block text-[11px] font-semibold uppercase tracking-[0.06em] text-(--text-tertiary)'
+
+const clientColumns: FinanceTableColumn[] = [
+  { key: 'name', label: 'Client', className: 'w-[220px]' },
+  { key: 'address', label: 'Adresse', className: 'w-[220px]' },
+  { key: 'identifiers', label: 'SIRET / TVA', className: 'w-[180px]' },
+  { key: 'terms', label: 'Paiement', className: 'w-[96px]' },
+  { key: 'invoices', label: 'Factures', className: 'w-[80px] text-right' },
+  { key: 'actions', label: 'Actions', className: 'w-[96px] text-right' },
+]
+
+const paymentTermsTypeOptions = [
+  { value: '', label: 'Par défaut' },
+  { value: 'net', label: 'À date de facture' },
+  { value: 'end-of-month', label: 'Fin de mois' },
+]
+
+const taxRateOptions = [
+  { value: '', label: 'Aucun' },
+  { value: '0', label: '0% (Exonere)' },
+  { value: '5.5', label: '5.5%' },
+  { value: '10', label: '10%' },
+  { value: '20', label: '20% (Taux normal)' },
+]
+
+interface ClientFormData {
+  name: string
+  address: string
+  postalCode: string
+  city: string
+  country: string
+  siren: string
+  siret: string
+  tvaNumber: string
+  email: string
+  paymentTermsDays: string
+  paymentTermsType: string
+  defaultTaxRate: string
+}
+
+const emptyClientForm: ClientFormData = {
+  name: '',
+  address: '',
+  postalCode: '',
+  city: '',
+  country: 'FR',
+  siren: '',
+  siret: '',
+  tvaNumber: '',
+  email: '',
+  paymentTermsDays: '',
+  paymentTermsType: '',
+  defaultTaxRate: '',
+}
+
+function toClientFormData(client: ClientWithStats): ClientFormData {
+  return {
+    name: client.name,
+    address: client.address || '',
+    postalCode: client.postalCode || '',
+    city: client.city || '',
+    country: client.country,
+    siren: client.siren || '',
+    siret: client.siret || '',
+    tvaNumber: client.tvaNumber || '',
+    email: client.email || '',
+    paymentTermsDays: client.paymentTermsDays?.toString() ?? '',
+    paymentTermsType: client.paymentTermsEndOfMonth === null ? '' : client.paymentTermsEndOfMonth ? 'end-of-month' : 'net',
+    defaultTaxRate: client.defaultTaxRate ? parseFloat(client.defaultTaxRate).toString() : '',
+  }
+}
 
 export default function InvoiceSettings() {
   const queryClient = useQueryClient()
   const { showSuccess, showError } = useSnackbar()
 
-  const { data: clientsData, isLoading: isLoadingClients } = useInvoiceClients()
+  const { data: clientsData, isLoading: isLoadingClients } = useClients()
   const { data: descriptionsData, isLoading: isLoadingDescriptions } = useInvoiceDescriptions()
+  const createClientMutation = useCreateClient()
+  const updateClientMutation = useUpdateClient()
+  const deleteClientMutation = useDeleteClient()
 
-  const [newClient, setNewClient] = useState('')
+  const [isClientModalOpen, setIsClientModalOpen] = useState(false)
+  const [editingClient, setEditingClient] = useState<ClientWithStats | null>(null)
+  const [clientForm, setClientForm] = useState<ClientFormData>(emptyClientForm)
   const [newDescription, setNewDescription] = useState('')
-  const [deleteConfirm, setDeleteConfirm] = useState<{ type: 'client' | 'description'; value: string } | null>(null)
+  const [deleteConfirm, setDeleteConfirm] = useState<
+    { type: 'client'; client: ClientWithStats } | { type: 'description'; value: string } | null
+  >(null)
 
-  const clients = clientsData?.clients || []
+  const clients = clientsData?.data || []
   const descriptions = descriptionsData?.descriptions || []
 
-  const addClientMutation = useMutation({
-    mutationFn: (client: string) => api.post<void>('/invoices/settings/clients', { client }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['invoices', 'clients'] })
-      setNewClient('')
-      showSuccess('Client ajouté avec succès')
-    },
-    onError: (error) => {
-      showError(error instanceof Error ? error.message : 'Erreur lors de l\'ajout')
-    },
-  })
-
-  const deleteClientMutation = useMutation({
-    mutationFn: (client: string) => api.delete<void>(`/invoices/settings/clients/${encodeURIComponent(client)}`),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['invoices', 'clients'] })
-      setDeleteConfirm(null)
-      showSuccess('Client supprimé avec succès')
-    },
-    onError: (error) => {
-      showError(error instanceof Error ? error.message : 'Erreur lors de la suppression')
-    },
-  })
-
   const addDescriptionMutation = useMutation({
     mutationFn: (description: string) => api.post<void>('/invoices/settings/descriptions', { description }),
     onSuccess: () => {
@@ -73,10 +131,57 @@ export default function InvoiceSettings() {
     },
   })
 
-  const handleAddClient = (e: FormEvent) => {
+  const openCreateClientModal = () => {
+    setEditingClient(null)
+    setClientForm(emptyClientForm)
+    setIsClientModalOpen(true)
+  }
+
+  const openEditClientModal = (client: ClientWithStats) => {
+    setEditingClient(client)
+    setClientForm(toClientFormData(client))
+    setIsClientModalOpen(true)
+  }
+
+  const closeClientModal = () => {
+    setIsClientModalOpen(false)
+    setEditingClient(null)
+    setClientForm(emptyClientForm)
+  }
+
+  const updateClientField = (field: keyof ClientFormData, value: string) => {
+    setClientForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmitClient = async (e: FormEvent) => {
     e.preventDefault()
-    if (newClient.trim()) {
-      addClientMutation.mutate(newClient.trim())
+
+    const data: CreateClientInput = {
+      name: clientForm.name.trim(),
+      address: clientForm.address.trim() || null,
+      postalCode: clientForm.postalCode.trim() || null,
+      city: clientForm.city.trim() || null,
+      country: clientForm.country.trim().toUpperCase() || 'FR',
+      siren: clientForm.siren.replace(/\s/g, '') || null,
+      siret: clientForm.siret.replace(/\s/g, '') || null,
+      tvaNumber: clientForm.tvaNumber.replace(/\s/g, '').toUpperCase() || null,
+      email: clientForm.email.trim() || null,
+      paymentTermsDays: clientForm.paymentTermsDays ? parseInt(clientForm.paymentTermsDays) : null,
+      paymentTermsEndOfMonth: clientForm.paymentTermsType ? clientForm.paymentTermsType === 'end-of-month' : null,
+      defaultTaxRate: clientForm.defaultTaxRate ? parseFloat(clientForm.defaultTaxRate) : null,
+    }
+
+    try {
+      if (editingClient) {
+        await updateClientMutation.mutateAsync({ id: editingClient.id, data })
+        showSuccess('Client modifié avec succès')
+      } else {
+        await createClientMutation.mutateAsync(data)
+        showSuccess('Client ajouté avec succès')
+      }
+      closeClientModal()
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
     }
   }
 
@@ -87,154 +192,268 @@ export default function InvoiceSettings() {
     }
   }
 
-  const handleConfirmDelete = () => {
+  const handleConfirmDelete = async () => {
     if (!deleteConfirm) return
     if (deleteConfirm.type === 'client') {
-      deleteClientMutation.mutate(deleteConfirm.value)
+      try {
+        await deleteClientMutation.mutateAsync(deleteConfirm.client.id)
+        setDeleteConfirm(null)
+        showSuccess('Client supprimé avec succès')
+      } catch (err) {
+        showError(err instanceof Error ? err.message : 'Erreur lors de la suppression')
+      }
     } else {
       deleteDescriptionMutation.mutate(deleteConfirm.value)
     }
   }
 
+  const clientFields: { key: keyof ClientFormData; label: string; placeholder?: string; type?: string; span?: boolean }[] = [
+    { key: 'address', label: 'Adresse', placeholder: '1 avenue des Champs-Élysées', span: true },
+    { key: 'postalCode', label: 'Code postal', placeholder: '75008' },
+    { key: 'city', label: 'Ville', placeholder: 'Paris' },
+    { key: 'country', label: 'Pays (code ISO)', placeholder: 'FR' },
+    { key: 'email', label: 'Email de contact', placeholder: 'compta@client.fr', type: 'email' },
+    { key: 'siren', label: 'SIREN', placeholder: '987654321' },
+    { key: 'siret', label: 'SIRET', placeholder: '98765432100015' },
+    { key: 'tvaNumber', label: 'N° TVA intracommunautaire', placeholder: 'FR12987654321' },
+    { key: 'paymentTermsDays', label: 'Délai de paiement (jours)', placeholder: 'Par défaut', type: 'number' },
+  ]
+
   return (
     <div className="space-y-7">
-      <div className="space-y-2">
-        <h1 className="font-['Space_Grotesk'] text-[32px] font-bold leading-tight tracking-[-0.02em] text-(--text-primary)">
-          Paramètres des factures
-        </h1>
-        <p className="text-sm text-(--text-secondary)">
-          Gérez les valeurs suggérées pour accélérer la création de vos factures.
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="font-['Space_Grotesk'] text-[32px] font-bold leading-tight tracking-[-0.02em] text-(--text-primary)">
+            Clients
+          </h1>
+          <p className="text-sm text-(--text-secondary)">
+            Votre répertoire clients : coordonnées, identifiants et conditions reprises sur vos factures.
+          </p>
+        </div>
+        <AppButton startIcon={<Plus className="h-4 w-4" />} onClick={openCreateClientModal}>
+          Ajouter un client
+        </AppButton>
       </div>
 
-      <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
-        <section className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-6 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
-          <div className="space-y-1">
-            <h2 className={sectionTitleClass}>Clients</h2>
-            <p className="text-sm text-(--text-secondary)">
-              Liste des clients pour l'autocomplétion lors de la création de factures.
-            </p>
-          </div>
-
-          <form onSubmit={handleAddClient} className="mt-5 flex items-end gap-2">
-            <div className="flex-1 space-y-1.5">
-              <label htmlFor="new-client" className="text-xs font-medium text-(--text-secondary)">
-                Nouveau client
-              </label>
-              <input
-                id="new-client"
-                type="text"
-                className={inputClass}
-                placeholder="Ex: SARL Martin Conseil"
-                value={newClient}
-                onChange={(e) => setNewClient(e.target.value)}
-              />
-            </div>
-            <AppButton
-              type="submit"
-              disabled={!newClient.trim() || addClientMutation.isPending}
-              startIcon={addClientMutation.isPending ? undefined : <Plus className="h-4 w-4" />}
+      {isLoadingClients ? (
+        <div className="flex justify-center py-10">
+          <span className="loading loading-spinner loading-md" />
+        </div>
+      ) : clients.length === 0 ? (
+        <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-8 text-center shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+          <p className="text-sm text-(--text-secondary)">Aucun client enregistré.</p>
+        </div>
+      ) : (
+        <FinanceTable columns={clientColumns} minWidthClassName="min-w-[900px]">
+          {clients.map((client, index) => (
+            <tr
+              key={client.id}
+              className={[
+                'h-12 border-b border-(--border-default) align-middle',
+                index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)',
+              ].join(' ')}
             >
-              {addClientMutation.isPending ? <span className="loading loading-spinner loading-sm" /> : 'Ajouter'}
-            </AppButton>
-          </form>
-
-          {isLoadingClients ? (
-            <div className="flex justify-center py-10">
-              <span className="loading loading-spinner loading-md" />
-            </div>
-          ) : clients.length === 0 ? (
-            <p className="py-10 text-center text-sm text-(--text-tertiary)">Aucun client enregistré</p>
-          ) : (
-            <ul className="mt-5 space-y-2">
-              {clients.map((client) => (
-                <li
-                  key={client}
-                  className="flex items-center justify-between rounded-lg border border-(--border-default) bg-[#F8FAFC] px-3 py-2.5"
-                >
-                  <span className="min-w-0 truncate text-sm text-(--text-primary)">{client}</span>
+              <td className="px-3 md:px-4">
+                <p className="truncate text-sm font-medium text-(--text-primary)">{client.name}</p>
+                {client.email && <p className="truncate text-xs text-(--text-secondary)">{client.email}</p>}
+              </td>
+              <td className="px-3 text-xs text-(--text-secondary) md:px-4">
+                <p className="truncate">{client.address || '-'}</p>
+                {(client.postalCode || client.city) && (
+                  <p className="truncate">
+                    {[client.postalCode, client.city].filter(Boolean).join(' ')}
+                    {client.country !== 'FR' ? ` (${client.country})` : ''}
+                  </p>
+                )}
+              </td>
+              <td className="px-3 font-mono text-[11px] text-(--text-secondary) md:px-4">
+                <p className="truncate">{client.siret || client.siren || '-'}</p>
+                {client.tvaNumber && <p className="truncate">{client.tvaNumber}</p>}
+              </td>
+              <td className="px-3 text-xs text-(--text-primary) md:px-4">
+                {client.paymentTermsDays !== null ? `${client.paymentTermsDays} j` : 'Par défaut'}
+                {client.paymentTermsEndOfMonth && ' fin de mois'}
+              </td>
+              <td className="px-3 text-right text-sm text-(--text-primary) md:px-4">{client.invoiceCount}</td>
+              <td className="px-3 md:px-4">
+                <div className="flex justify-end gap-1">
+                  <AppButton size="icon-sm" variant="ghost" onClick={() => openEditClientModal(client)} title="Modifier">
+                    <Pencil className="h-4 w-4" />
+                  </AppButton>
                   <AppButton
-                    variant="ghost"
                     size="icon-sm"
-                    onClick={() => setDeleteConfirm({ type: 'client', value: client })}
-                    title="Supprimer ce client"
-                    className="h-8 w-8 text-[#DC2626] hover:bg-[#FEE2E2] hover:text-[#B91C1C]"
+                    variant="ghost"
+                    onClick={() => setDeleteConfirm({ type: 'client', client })}
+                    disabled={client.invoiceCount > 0}
+                    title={client.invoiceCount > 0 ? 'Client utilisé par des factures' : 'Supprimer ce client'}
+                    className="text-(--color-error) hover:bg-[#FEE2E2]"
                   >
                     <Trash2 className="h-4 w-4" />
                   </AppButton>
-                </li>
-              ))}
-            </ul>
-          )}
-        </section>
-
-        <section className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-6 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
-          <div className="space-y-1">
-            <h2 className={sectionTitleClass}>Descriptions</h2>
-            <p className="text-sm text-(--text-secondary)">
-              Liste des descriptions prédéfinies pour les factures.
-            </p>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </FinanceTable>
+      )}
+
+      <section className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-6 shadow-[0_1px_4px_rgba(0,0,0,0.06)] xl:max-w-[50%]">
+        <div className="space-y-1">
+          <h2 className={sectionTitleClass}>Descriptions</h2>
+          <p className="text-sm text-(--text-secondary)">
+            Liste des descriptions prédéfinies pour les factures.
+          </p>
+        </div>
+
+        <form onSubmit={handleAddDescription} className="mt-5 flex items-end gap-2">
+          <div className="flex-1 space-y-1.5">
+            <label htmlFor="new-description" className="text-xs font-medium text-(--text-secondary)">
+              Nouvelle description
+            </label>
+            <input
+              id="new-description"
+              type="text"
+              className={inputClass}
+              placeholder="Ex: Développement et maintenance"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+            />
           </div>
+          <AppButton
+            type="submit"
+            disabled={!newDescription.trim() || addDescriptionMutation.isPending}
+            startIcon={addDescriptionMutation.isPending ? undefined : <Plus className="h-4 w-4" />}
+          >
+            {addDescriptionMutation.isPending ? <span className="loading loading-spinner loading-sm" /> : 'Ajouter'}
+          </AppButton>
+        </form>
 
-          <form onSubmit={handleAddDescription} className="mt-5 flex items-end gap-2">
-            <div className="flex-1 space-y-1.5">
-              <label htmlFor="new-description" className="text-xs font-medium text-(--text-secondary)">
-                Nouvelle description
-              </label>
-              <input
-                id="new-description"
-                type="text"
-                className={inputClass}
-                placeholder="Ex: Développement et maintenance"
-                value={newDescription}
-                onChange={(e) => setNewDescription(e.target.value)}
-              />
-            </div>
-            <AppButton
-              type="submit"
-              disabled={!newDescription.trim() || addDescriptionMutation.isPending}
-              startIcon={addDescriptionMutation.isPending ? undefined : <Plus className="h-4 w-4" />}
-            >
-              {addDescriptionMutation.isPending ? <span className="loading loading-spinner loading-sm" /> : 'Ajouter'}
-            </AppButton>
-          </form>
-
-          {isLoadingDescriptions ? (
-            <div className="flex justify-center py-10">
-              <span className="loading loading-spinner loading-md" />
-            </div>
-          ) : descriptions.length === 0 ? (
-            <p className="py-10 text-center text-sm text-(--text-tertiary)">Aucune description enregistrée</p>
-          ) : (
-            <ul className="mt-5 space-y-2">
-              {descriptions.map((description) => (
-                <li
-                  key={description}
-                  className="flex items-center justify-between rounded-lg border border-(--border-default) bg-[#F8FAFC] px-3 py-2.5"
+        {isLoadingDescriptions ? (
+          <div className="flex justify-center py-10">
+            <span className="loading loading-spinner loading-md" />
+          </div>
+        ) : descriptions.length === 0 ? (
+          <p className="py-10 text-center text-sm text-(--text-tertiary)">Aucune description enregistrée</p>
+        ) : (
+          <ul className="mt-5 space-y-2">
+            {descriptions.map((description) => (
+              <li
+                key={description}
+                className="flex items-center justify-between rounded-lg border border-(--border-default) bg-[#F8FAFC] px-3 py-2.5"
+              >
+                <span className="min-w-0 flex-1 truncate pr-2 text-sm text-(--text-primary)">{description}</span>
+                <AppButton
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setDeleteConfirm({ type: 'description', value: description })}
+                  title="Supprimer cette description"
+                  className="h-8 w-8 text-[#DC2626] hover:bg-[#FEE2E2] hover:text-[#B91C1C]"
                 >
-                  <span className="min-w-0 flex-1 truncate pr-2 text-sm text-(--text-primary)">{description}</span>
-                  <AppButton
-                    variant="ghost"
-                    size="icon-sm"
-                    onClick={() => setDeleteConfirm({ type: 'description', value: description })}
-                    title="Supprimer cette description"
-                    className="h-8 w-8 text-[#DC2626] hover:bg-[#FEE2E2] hover:text-[#B91C1C]"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </AppButton>
-                </li>
-              ))}
-            </ul>
-          )}
-        </section>
-      </div>
+                  <Trash2 className="h-4 w-4" />
+                </AppButton>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Create/Edit Client Modal */}
+      {isClientModalOpen && (
+        <div className="modal modal-open">
+          <div className="modal-box my-6 w-[calc(100%-1.5rem)] max-w-2xl overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) p-0 shadow-[0_12px_34px_rgba(17,24,39,0.16)] sm:w-[calc(100%-2rem)]">
+            <header className="px-6 pb-3 pt-5">
+              <div className="flex items-start justify-between gap-3">
+                <h3 className="font-['Space_Grotesk'] text-xl font-semibold tracking-[-0.01em] text-(--text-primary)">
+                  {editingClient ? 'Modifier le client' : 'Nouveau client'}
+                </h3>
+                <AppButton
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={closeClientModal}
+                  title="Fermer"
+                  className="text-(--text-secondary)"
+                >
+                  <X className="h-4 w-4" />
+                </AppButton>
+              </div>
+            </header>
+
+            <form onSubmit={handleSubmitClient} className="px-6 pb-6 pt-2">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="md:col-span-2">
+                  <label className={modalFieldLabelClass}>Raison sociale *</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={clientForm.name}
+                    onChange={(e) => updateClientField('name', e.target.value)}
+                    placeholder="SARL Martin Conseil"
+                    required
+                  />
+                </div>
+
+                {clientFields.map((field) => (
+                  <div key={field.key} className={field.span ? 'md:col-span-2' : ''}>
+                    <label className={modalFieldLabelClass}>{field.label}</label>
+                    <input
+                      type={field.type ?? 'text'}
+                      min={field.type === 'number' ? '0' : undefined}
+                      className={inputClass}
+                      value={clientForm[field.key]}
+                      onChange={(e) => updateClientField(field.key, e.target.value)}
+                      placeholder={field.placeholder}
+                    />
+                  </div>
+                ))}
+
+                <div>
+                  <label className={modalFieldLabelClass}>Échéance</label>
+                  <Select
+                    className="h-10"
+                    value={clientForm.paymentTermsType}
+                    onChange={(e) => updateClientField('paymentTermsType', e.target.value)}
+                    options={paymentTermsTypeOptions}
+                  />
+                </div>
+
+                <div>
+                  <label className={modalFieldLabelClass}>Taux de TVA par défaut</label>
+                  <Select
+                    className="h-10"
+                    value={clientForm.defaultTaxRate}
+                    onChange={(e) => updateClientField('defaultTaxRate', e.target.value)}
+                    options={taxRateOptions}
+                  />
+                </div>
+              </div>
+
+              <div className="mt-6 flex justify-end gap-2">
+                <AppButton type="button" variant="outline" onClick={closeClientModal}>
+                  Annuler
+                </AppButton>
+                <AppButton type="submit" disabled={createClientMutation.isPending || updateClientMutation.isPending}>
+                  {createClientMutation.isPending || updateClientMutation.isPending ? (
+                    <span className="loading loading-spinner loading-sm" />
+                  ) : editingClient ? (
+                    'Enregistrer'
+                  ) : (
+                    'Créer'
+                  )}
+                </AppButton>
+              </div>
+            </form>
+          </div>
+          <div className="modal-backdrop bg-[#0F172A]/50 backdrop-blur-[1px]" onClick={closeClientModal}></div>
+        </div>
+      )}
 
       <ConfirmDialog
         isOpen={deleteConfirm !== null}
         title={deleteConfirm?.type === 'client' ? 'Supprimer le client' : 'Supprimer la description'}
         message={
           deleteConfirm
-            ? `Êtes-vous sûr de vouloir supprimer "${deleteConfirm.value}" ? Cette action est irréversible.`
+            ? `Êtes-vous sûr de vouloir supprimer "${deleteConfirm.type === 'client' ? deleteConfirm.client.name : deleteConfirm.value}" ? Cette action est irréversible.`
             : ''
         }
         confirmLabel="Supprimer"
@@ -1,25 +1,41 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import {
   useInvoices,
+  useInvoice,
   useCreateInvoice,
   useUpdateInvoice,
   useDeleteInvoice,
   useInvoiceYearlySummary,
   useNextInvoiceNumber,
-  useInvoiceClients,
+  useNumberingGaps,
+  useAgingReport,
   useInvoiceDescriptions,
+  useDownloadInvoicePdf,
+  useDownloadEInvoice,
+  useCreateCreditNote,
+  useCreateInvoicePayment,
+  useDeleteInvoicePayment,
 } from '../hooks/useInvoices'
-import { useSettings } from '../hooks/useSettings'
-import type { Invoice, CreateInvoiceInput } from '@shared/types'
-import { Pencil, Trash2, CreditCard, Ban, RotateCcw, Plus, X, Sparkles } from 'lucide-react'
+import { useSettings, useIssuerProfile } from '../hooks/useSettings'
+import { useQuotePipeline } from '../hooks/useQuotes'
+import { useClients } from '../hooks/useClients'
+import { useExchangeRateLookup } from '../hooks/useExchangeRates'
+import type { Invoice, InvoiceLine, InvoicePaymentMethod, CreateInvoiceInput, CreateInvoicePaymentInput, MicroActivityType, TvaRegime } from '@shared/types'
+import { Pencil, Trash2, CreditCard, FileMinus, Plus, X, Sparkles, FileDown, FileCheck, FileCode, TriangleAlert, Mail } from 'lucide-react'
 import { ActionModal } from '../components/ui/ActionModal'
 import { useSnackbar } from '../contexts/SnackbarContext'
 import { ComboSelect } from '../components/ComboSelect'
 import { YearSelect } from '../components/PeriodSelect'
 import { AppButton } from '../components/ui/AppButton'
 import { KpiCard } from '../components/ui/KpiCard'
+import { AgingReportSection } from '../components/AgingReportSection'
+import { ReminderModal } from '../components/ReminderModal'
 import { FinanceTable, type FinanceTableColumn } from '../components/ui/FinanceTable'
 import { Select } from '../components/ui/Select'
+import { currencyOptions } from '../components/ExchangeRatesSection'
+import { suggestTvaRegime, tvaRegimeOptions } from '../utils/tvaRegimes'
+import { activityTypeOptions } from '../utils/activityTypes'
 
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString('fr-FR', {
@@ -29,14 +45,24 @@ function formatDate(dateString: string): string {
   })
 }
 
-function formatCurrency(amount: string | number): string {
+function formatCurrency(amount: string | number, currency = 'EUR'): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount
   return new Intl.NumberFormat('fr-FR', {
     style: 'currency',
-    currency: 'EUR',
+    currency,
   }).format(num)
 }
 
+// Invoice amounts are in the invoice currency; totals across invoices are in euros
+function toEur(amount: string | number, invoice: Invoice): number {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount
+  return num / parseFloat(invoice.exchangeRate)
+}
+
+function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
 function normalizeTaxRateForSelect(taxRate: string): string {
   const parsedRate = Number.parseFloat(taxRate)
   return Number.isNaN(parsedRate) ? taxRate : parsedRate.toString()
@@ -53,18 +79,39 @@ const invoiceColumns: FinanceTableColumn[] = [
   { key: 'invoice-date', label: 'Date facture', className: 'w-[106px]' },
   { key: 'payment-date', label: 'Paiement', className: 'w-[116px]' },
   { key: 'amount-ht', label: 'Montant', className: 'w-[168px] text-right' },
-  { key: 'actions', label: 'Actions', className: 'w-[96px] text-right' },
+  { key: 'actions', label: 'Actions', className: 'w-[128px] text-right' },
 ]
 
+interface InvoiceLineFormData {
+  description: string
+  quantity: string
+  unit: string
+  unitPrice: string
+  taxRate: string
+  discount: string
+}
+
 interface InvoiceFormData {
   client: string
   description: string
   invoiceDate: string
   paymentDate: string
-  amountHt: string
-  taxRate: string
+  lines: InvoiceLineFormData[]
   invoiceNumber: string
   note: string
+  currency: string
+  exchangeRate: string
+  tvaRegime: TvaRegime
+  activityType: MicroActivityType
+}
+
+const defaultLine: InvoiceLineFormData = {
+  description: '',
+  quantity: '1',
+  unit: '',
+  unitPrice: '',
+  taxRate: '20',
+  discount: '0',
 }
 
 const defaultFormData: InvoiceFormData = {
@@ -72,18 +119,83 @@ const defaultFormData: InvoiceFormData = {
   description: '',
   invoiceDate: new Date().toISOString().split('T')[0],
   paymentDate: '',
-  amountHt: '',
-  taxRate: '20',
+  lines: [defaultLine],
   invoiceNumber: '',
   note: '',
+  currency: 'EUR',
+  exchangeRate: '',
+  tvaRegime: 'domestic',
+  activityType: 'bnc',
+}
+
+function toLineFormData(line: InvoiceLine): InvoiceLineFormData {
+  return {
+    description: line.description,
+    quantity: parseFloat(line.quantity).toString(),
+    unit: line.unit || '',
+    unitPrice: line.unitPrice,
+    taxRate: normalizeTaxRateForSelect(line.taxRate),
+    discount: parseFloat(line.discount).toString(),
+  }
+}
+
+function computeLineHt(line: InvoiceLineFormData): number {
+  const quantity = parseFloat(line.quantity) || 0
+  const unitPrice = parseFloat(line.unitPrice) || 0
+  const discount = parseFloat(line.discount) || 0
+  return roundCents(quantity * unitPrice * (1 - discount / 100))
 }
 
 const modalFieldLabelClass = 'mb-1.5 block text-[11px] font-semibold uppercase tracking-[0.06em] text-(--text-tertiary)'
 const modalInputClass =
   'h-10 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
+const lineInputClass =
+  'h-9 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-2 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
 const modalTextareaClass =
   'w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 py-2 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
 
+interface PaymentFormData {
+  paymentDate: string
+  amount: string
+  method: NonNullable<CreateInvoicePaymentInput['method']>
+  reference: string
+}
+
+interface CreditNoteFormData {
+  mode: 'full' | 'partial'
+  invoiceDate: string
+  refundDate: string
+  amountHt: string
+  taxRate: string
+  reason: string
+}
+
+const paymentMethodLabels: Record<InvoicePaymentMethod, string> = {
+  transfer: 'Virement',
+  check: 'Chèque',
+  card: 'Carte',
+  cash: 'Espèces',
+  direct_debit: 'Prélèvement',
+  credit_note: 'Avoir',
+  other: 'Autre',
+}
+
+const paymentMethodOptions = (['transfer', 'check', 'card', 'cash', 'direct_debit', 'other'] as const).map((method) => ({
+  value: method,
+  label: paymentMethodLabels[method],
+}))
+
+// Balance still due, signed like the invoice (negative for a credit note to refund)
+function getOutstanding(invoice: Invoice): number {
+  return roundCents(parseFloat(invoice.amountTtc) - parseFloat(invoice.amountPaid ?? '0'))
+}
+
+// Unpaid invoice whose due date has passed
+function isOverdue(invoice: Invoice): boolean {
+  const today = new Date().toISOString().split('T')[0]
+  return invoice.type === 'invoice' && !invoice.paymentDate && invoice.dueDate !== null && invoice.dueDate < today
+}
+
 const taxRateOptions = [
   { value: '0', label: '0% (Exonere)' },
   { value: '5.5', label: '5.5%' },
@@ -99,8 +211,11 @@ export default function Invoices() {
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false)
   const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null)
-  const [paymentDate, setPaymentDate] = useState('')
+  const [paymentForm, setPaymentForm] = useState<PaymentFormData | null>(null)
   const [hoveredVatInvoiceId, setHoveredVatInvoiceId] = useState<string | null>(null)
+  const [creditNoteInvoice, setCreditNoteInvoice] = useState<Invoice | null>(null)
+  const [creditNoteForm, setCreditNoteForm] = useState<CreditNoteFormData | null>(null)
+  const [reminderInvoice, setReminderInvoice] = useState<Invoice | null>(null)
   const [error, setError] = useState('')
 
   const { showSuccess, showError } = useSnackbar()
@@ -111,13 +226,32 @@ export default function Invoices() {
 
   const { data: summary, isLoading: isLoadingSummary } = useInvoiceYearlySummary(selectedYear)
   const { data: settings } = useSettings()
+  const { data: issuerProfile } = useIssuerProfile()
+  const { data: quotePipeline, isLoading: isLoadingPipeline } = useQuotePipeline()
 
   const createMutation = useCreateInvoice()
   const updateMutation = useUpdateInvoice()
   const deleteMutation = useDeleteInvoice()
+  const downloadPdfMutation = useDownloadInvoicePdf()
+  const downloadEInvoiceMutation = useDownloadEInvoice()
+  const createCreditNoteMutation = useCreateCreditNote()
+  const createPaymentMutation = useCreateInvoicePayment()
+  const deletePaymentMutation = useDeleteInvoicePayment()
   const { refetch: refetchNextNumber } = useNextInvoiceNumber()
-  const { data: clientsData } = useInvoiceClients()
+  const { data: numberingGaps } = useNumberingGaps()
+  const { data: agingReport } = useAgingReport()
+  const { data: clientsData } = useClients()
   const { data: descriptionsData } = useInvoiceDescriptions()
+  const { data: editingInvoiceDetails } = useInvoice(editingInvoice?.id ?? null)
+  const { data: paymentInvoiceDetails } = useInvoice(paymentInvoice?.id ?? null)
+  const { data: rateLookup } = useExchangeRateLookup(formData.currency, formData.invoiceDate)
+
+  // The list endpoint only returns totals: swap in the real lines once loaded
+  useEffect(() => {
+    if (editingInvoiceDetails && editingInvoiceDetails.id === editingInvoice?.id && editingInvoiceDetails.lines.length > 0) {
+      setFormData((prev) => ({ ...prev, lines: editingInvoiceDetails.lines.map(toLineFormData) }))
+    }
+  }, [editingInvoiceDetails, editingInvoice?.id])
 
   const calculatedSummary = useMemo(() => {
     if (!summary || !settings) return null
@@ -140,25 +274,45 @@ export default function Invoices() {
   }, [summary, settings])
 
   const invoiceMetrics = useMemo(() => {
+    // Credit notes carry negative amounts, so plain sums already net them out
     const allInvoices = invoicesData?.data ?? []
-    const activeInvoices = allInvoices.filter((invoice) => !invoice.isCanceled)
-    const paidInvoices = activeInvoices.filter((invoice) => Boolean(invoice.paymentDate))
-    const unpaidInvoices = activeInvoices.filter((invoice) => !invoice.paymentDate)
+    const paidInvoices = allInvoices.filter((invoice) => Boolean(invoice.paymentDate))
+    const unpaidInvoices = allInvoices.filter((invoice) => !invoice.paymentDate)
+    const overdueInvoices = unpaidInvoices.filter((invoice) => isOverdue(invoice))
 
-    const totalTtc = activeInvoices.reduce((acc, invoice) => acc + parseFloat(invoice.amountTtc), 0)
-    const paidAmountTtc = paidInvoices.reduce((acc, invoice) => acc + parseFloat(invoice.amountTtc), 0)
-    const pendingAmountTtc = unpaidInvoices.reduce((acc, invoice) => acc + parseFloat(invoice.amountTtc), 0)
+    const totalTtc = allInvoices.reduce((acc, invoice) => acc + toEur(invoice.amountTtc, invoice), 0)
+    const paidAmountTtc = allInvoices.reduce((acc, invoice) => acc + toEur(invoice.amountPaid ?? '0', invoice), 0)
+    const pendingAmountTtc = unpaidInvoices.reduce((acc, invoice) => acc + toEur(getOutstanding(invoice), invoice), 0)
 
     return {
       paidCount: paidInvoices.length,
-      pendingCount: unpaidInvoices.length,
+      pendingCount: unpaidInvoices.filter((invoice) => invoice.type === 'invoice').length,
       totalTtc,
       paidAmountTtc,
       pendingAmountTtc,
-      canceledCount: allInvoices.filter((invoice) => invoice.isCanceled).length,
+      overdueCount: overdueInvoices.length,
+      overdueAmountTtc: overdueInvoices.reduce((acc, invoice) => acc + toEur(getOutstanding(invoice), invoice), 0),
+      creditNoteCount: allInvoices.filter((invoice) => invoice.type === 'credit_note').length,
     }
   }, [invoicesData])
 
+  // HT amount already credited per invoice, from the credit notes of the loaded year
+  const creditedHtByInvoice = useMemo(() => {
+    const credited = new Map<string, number>()
+    for (const invoice of invoicesData?.data ?? []) {
+      if (invoice.type === 'credit_note' && invoice.creditedInvoiceId) {
+        credited.set(
+          invoice.creditedInvoiceId,
+          (credited.get(invoice.creditedInvoiceId) ?? 0) - parseFloat(invoice.amountHt)
+        )
+      }
+    }
+    return credited
+  }, [invoicesData])
+
+  const isFullyCredited = (invoice: Invoice) =>
+    roundCents(creditedHtByInvoice.get(invoice.id) ?? 0) >= parseFloat(invoice.amountHt)
+
   // Group invoices by month (prioritize payment date, fall back to invoice date)
   const invoicesByMonth = useMemo(() => {
     if (!invoicesData?.data) return new Map<number, Invoice[]>()
@@ -185,6 +339,8 @@ export default function Invoices() {
     setFormData({
       ...defaultFormData,
       invoiceNumber: data?.invoiceNumber || '',
+      tvaRegime: suggestTvaRegime(issuerProfile?.tvaNumber, undefined),
+      activityType: settings?.activityType ?? defaultFormData.activityType,
     })
     setError('')
     setIsModalOpen(true)
@@ -197,10 +353,18 @@ export default function Invoices() {
       description: invoice.description || '',
       invoiceDate: invoice.invoiceDate,
       paymentDate: invoice.paymentDate || '',
-      amountHt: invoice.amountHt,
-      taxRate: normalizeTaxRateForSelect(invoice.taxRate),
+      lines: [{
+        ...defaultLine,
+        description: invoice.description || '',
+        unitPrice: invoice.amountHt,
+        taxRate: normalizeTaxRateForSelect(invoice.taxRate ?? defaultLine.taxRate),
+      }],
       invoiceNumber: invoice.invoiceNumber || '',
       note: invoice.note || '',
+      currency: invoice.currency,
+      exchangeRate: invoice.currency === 'EUR' ? '' : parseFloat(invoice.exchangeRate).toString(),
+      tvaRegime: invoice.tvaRegime,
+      activityType: invoice.activityType,
     })
     setError('')
     setIsModalOpen(true)
@@ -217,15 +381,29 @@ export default function Invoices() {
     e.preventDefault()
     setError('')
 
+    const clientName = formData.client.trim()
+    const directoryClient = clientsData?.data.find((client) => client.name === clientName)
+
     const data: CreateInvoiceInput = {
-      client: formData.client.trim(),
+      clientId: directoryClient?.id,
+      client: directoryClient ? undefined : clientName,
       description: formData.description.trim() || undefined,
       invoiceDate: formData.invoiceDate,
       paymentDate: formData.paymentDate || undefined,
-      amountHt: parseFloat(formData.amountHt),
-      taxRate: parseFloat(formData.taxRate),
+      lines: formData.lines.map((line) => ({
+        description: line.description.trim(),
+        quantity: parseFloat(line.quantity),
+        unit: line.unit.trim() || undefined,
+        unitPrice: parseFloat(line.unitPrice),
+        taxRate: parseFloat(line.taxRate),
+        discount: parseFloat(line.discount) || 0,
+      })),
       invoiceNumber: formData.invoiceNumber.trim() || undefined,
       note: formData.note.trim() || undefined,
+      currency: formData.currency,
+      exchangeRate: formData.currency !== 'EUR' && formData.exchangeRate ? parseFloat(formData.exchangeRate) : undefined,
+      tvaRegime: formData.tvaRegime,
+      activityType: formData.activityType,
     }
 
     try {
@@ -254,22 +432,32 @@ export default function Invoices() {
 
   const openPaymentModal = (invoice: Invoice) => {
     setPaymentInvoice(invoice)
-    setPaymentDate(new Date().toISOString().split('T')[0])
+    setPaymentForm({
+      paymentDate: new Date().toISOString().split('T')[0],
+      amount: Math.abs(getOutstanding(invoice)).toFixed(2),
+      method: 'transfer',
+      reference: '',
+    })
     setIsPaymentModalOpen(true)
   }
 
   const closePaymentModal = () => {
     setIsPaymentModalOpen(false)
     setPaymentInvoice(null)
-    setPaymentDate('')
+    setPaymentForm(null)
   }
 
   const handleConfirmPayment = async () => {
-    if (!paymentInvoice) return
+    if (!paymentInvoice || !paymentForm) return
     try {
-      await updateMutation.mutateAsync({
-        id: paymentInvoice.id,
-        data: { paymentDate },
+      await createPaymentMutation.mutateAsync({
+        invoiceId: paymentInvoice.id,
+        data: {
+          paymentDate: paymentForm.paymentDate,
+          amount: parseFloat(paymentForm.amount) || 0,
+          method: paymentForm.method,
+          reference: paymentForm.reference || undefined,
+        },
       })
       showSuccess('Paiement enregistré avec succès')
       closePaymentModal()
@@ -278,27 +466,146 @@ export default function Invoices() {
     }
   }
 
-  const handleToggleCanceled = async (invoice: Invoice) => {
+  const handleDeletePayment = async (paymentId: string) => {
+    if (!paymentInvoice) return
+    try {
+      await deletePaymentMutation.mutateAsync({ invoiceId: paymentInvoice.id, paymentId })
+      showSuccess('Paiement supprimé')
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const updatePaymentField = (field: keyof PaymentFormData, value: string) => {
+    setPaymentForm((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const openCreditNoteModal = (invoice: Invoice) => {
+    const today = new Date().toISOString().split('T')[0]
+    setCreditNoteInvoice(invoice)
+    setCreditNoteForm({
+      mode: creditedHtByInvoice.has(invoice.id) ? 'partial' : 'full',
+      invoiceDate: today,
+      refundDate: parseFloat(invoice.amountPaid ?? '0') > 0 ? today : '',
+      amountHt: '',
+      taxRate: normalizeTaxRateForSelect(invoice.taxRate ?? defaultLine.taxRate),
+      reason: '',
+    })
+  }
+
+  const closeCreditNoteModal = () => {
+    setCreditNoteInvoice(null)
+    setCreditNoteForm(null)
+  }
+
+  const updateCreditNoteField = (field: keyof CreditNoteFormData, value: string) => {
+    setCreditNoteForm((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const handleConfirmCreditNote = async () => {
+    if (!creditNoteInvoice || !creditNoteForm) return
     try {
-      await updateMutation.mutateAsync({
-        id: invoice.id,
-        data: { isCanceled: !invoice.isCanceled },
+      await createCreditNoteMutation.mutateAsync({
+        invoiceId: creditNoteInvoice.id,
+        data: {
+          invoiceDate: creditNoteForm.invoiceDate,
+          refundDate: creditNoteForm.refundDate || undefined,
+          reason: creditNoteForm.reason || undefined,
+          lines: creditNoteForm.mode === 'partial'
+            ? [{
+                description: creditNoteForm.reason || 'Remise commerciale',
+                quantity: 1,
+                unitPrice: parseFloat(creditNoteForm.amountHt) || 0,
+                taxRate: parseFloat(creditNoteForm.taxRate) || 0,
+              }]
+            : undefined,
+        },
       })
-      showSuccess(invoice.isCanceled ? 'Facture restaurée' : 'Facture annulée')
+      showSuccess('Avoir créé avec succès')
+      closeCreditNoteModal()
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    try {
+      await downloadPdfMutation.mutateAsync(invoice)
     } catch (err) {
       showError(err instanceof Error ? err.message : 'Une erreur est survenue')
     }
   }
 
-  const updateFormField = (field: keyof InvoiceFormData, value: string) => {
+  const handleDownloadEInvoice = async (invoice: Invoice, format: 'facturx' | 'ubl') => {
+    try {
+      await downloadEInvoiceMutation.mutateAsync({ invoice, format })
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const updateFormField = (field: Exclude<keyof InvoiceFormData, 'lines'>, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }))
   }
 
-  const calculatedTtc = useMemo(() => {
-    const ht = parseFloat(formData.amountHt) || 0
-    const rate = parseFloat(formData.taxRate) || 0
-    return ht * (1 + rate / 100)
-  }, [formData.amountHt, formData.taxRate])
+  // Pre-fill the TVA regime and line rates from the client when drafting a new invoice
+  const handleClientChange = (value: string) => {
+    const directoryClient = clientsData?.data.find((client) => client.name === value)
+    setFormData((prev) => {
+      if (editingInvoice || !directoryClient) {
+        return { ...prev, client: value }
+      }
+      const tvaRegime = suggestTvaRegime(issuerProfile?.tvaNumber, directoryClient.country)
+      const taxRate = tvaRegime !== 'domestic'
+        ? '0'
+        : directoryClient.defaultTaxRate ? normalizeTaxRateForSelect(directoryClient.defaultTaxRate) : undefined
+      return {
+        ...prev,
+        client: value,
+        tvaRegime,
+        lines: taxRate ? prev.lines.map((line) => ({ ...line, taxRate })) : prev.lines,
+      }
+    })
+  }
+
+  // Regimes without TVA only take 0% lines
+  const handleTvaRegimeChange = (tvaRegime: TvaRegime) => {
+    setFormData((prev) => ({
+      ...prev,
+      tvaRegime,
+      lines: tvaRegime === 'domestic' ? prev.lines : prev.lines.map((line) => ({ ...line, taxRate: '0' })),
+    }))
+  }
+
+  const updateLineField = (index: number, field: keyof InvoiceLineFormData, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, lineIndex) => (lineIndex === index ? { ...line, [field]: value } : line)),
+    }))
+  }
+
+  const addLine = () => {
+    setFormData((prev) => ({ ...prev, lines: [...prev.lines, defaultLine] }))
+  }
+
+  const removeLine = (index: number) => {
+    setFormData((prev) => ({ ...prev, lines: prev.lines.filter((_, lineIndex) => lineIndex !== index) }))
+  }
+
+  // Mirrors the server: TVA is computed once per rate on the summed HT base
+  const calculatedTotals = useMemo(() => {
+    const bases = new Map<number, number>()
+    for (const line of formData.lines) {
+      const rate = parseFloat(line.taxRate) || 0
+      bases.set(rate, (bases.get(rate) ?? 0) + computeLineHt(line))
+    }
+    const taxByRate = Array.from(bases.entries())
+      .sort((a, b) => b[0] - a[0])
+      .map(([rate, baseHt]) => ({ rate, baseHt, tva: roundCents(baseHt * rate / 100) }))
+    const totalHt = taxByRate.reduce((sum, group) => sum + group.baseHt, 0)
+    const totalTva = taxByRate.reduce((sum, group) => sum + group.tva, 0)
+    return { taxByRate, totalHt, totalTtc: totalHt + totalTva }
+  }, [formData.lines])
 
   const deleteInvoice = useMemo(() => {
     if (!deleteConfirmId) return null
@@ -323,7 +630,7 @@ export default function Invoices() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-3 xl:grid-cols-3">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4">
         <KpiCard
           title={`CA HT ${selectedYear}`}
           value={isLoadingSummary ? <span className="loading loading-spinner loading-sm" /> : formatCurrency(calculatedSummary?.totalHt || 0)}
@@ -339,12 +646,38 @@ export default function Invoices() {
         <KpiCard
           title="À encaisser"
           value={isLoadingSummary ? <span className="loading loading-spinner loading-sm" /> : formatCurrency(invoiceMetrics.pendingAmountTtc)}
-          description={`${invoiceMetrics.pendingCount} facture(s) en attente`}
+          description={
+            invoiceMetrics.overdueCount > 0
+              ? `${invoiceMetrics.pendingCount} en attente, dont ${invoiceMetrics.overdueCount} en retard (${formatCurrency(invoiceMetrics.overdueAmountTtc)})`
+              : `${invoiceMetrics.pendingCount} facture(s) en attente`
+          }
           accentColor="#FBBF24"
           valueClassName={invoiceMetrics.pendingAmountTtc > 0 ? 'text-[#B45309]' : ''}
         />
+        <Link to="/quotes" className="block">
+          <KpiCard
+            title="Devis en cours"
+            value={isLoadingPipeline ? <span className="loading loading-spinner loading-sm" /> : formatCurrency(quotePipeline?.amountHt || 0)}
+            description={`${quotePipeline?.count || 0} devis ouvert(s), dont ${quotePipeline?.byStatus.accepted.count || 0} accepté(s)`}
+            accentColor="#22C55E"
+          />
+        </Link>
       </div>
 
+      {numberingGaps && numberingGaps.missing.length > 0 && (
+        <div className="flex items-start gap-3 rounded-[10px] border border-(--color-warning) bg-(--card-bg) px-4 py-3 text-sm text-(--text-primary)">
+          <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0 text-(--color-warning)" />
+          <p>
+            {numberingGaps.missing.length} numéro(s) manquant(s) dans la séquence
+            {numberingGaps.periodKey !== 'all' ? ` ${numberingGaps.periodKey}` : ''} (compteur{' '}
+            {numberingGaps.missing.slice(0, 10).join(', ')}{numberingGaps.missing.length > 10 ? '…' : ''}).
+            La numérotation des factures doit être continue : annulez une facture par un avoir plutôt que de la supprimer.
+          </p>
+        </div>
+      )}
+
+      {agingReport && agingReport.clients.length > 0 && <AgingReportSection report={agingReport} />}
+
       {/* Invoice Timeline */}
       {isLoadingInvoices ? (
         <div className="flex justify-center py-8">
@@ -362,10 +695,9 @@ export default function Invoices() {
       ) : (
         <div className="space-y-6">
           {Array.from(invoicesByMonth.entries()).map(([month, monthInvoices]) => {
-            const activeInvoices = monthInvoices.filter(inv => !inv.isCanceled)
-            const monthTotal = activeInvoices.reduce((acc, inv) => acc + parseFloat(inv.amountHt), 0)
-            const monthTotalTtc = activeInvoices.reduce((acc, inv) => acc + parseFloat(inv.amountTtc), 0)
-            const monthPaid = activeInvoices.filter(inv => inv.paymentDate).length
+            const monthTotal = monthInvoices.reduce((acc, inv) => acc + toEur(inv.amountHt, inv), 0)
+            const monthTotalTtc = monthInvoices.reduce((acc, inv) => acc + toEur(inv.amountTtc, inv), 0)
+            const monthPaid = monthInvoices.filter(inv => inv.type === 'invoice' && inv.paymentDate).length
 
             return (
               <section key={month} className="space-y-3">
@@ -390,56 +722,86 @@ export default function Invoices() {
                   columns={invoiceColumns}
                   minWidthClassName=""
                 >
-                  {monthInvoices.map((invoice, index) => (
+                  {monthInvoices.map((invoice, index) => {
+                    const isCreditNote = invoice.type === 'credit_note'
+                    const fullyCredited = !isCreditNote && isFullyCredited(invoice)
+                    const partiallyCredited = !isCreditNote && !fullyCredited && creditedHtByInvoice.has(invoice.id)
+                    const isPartiallyPaid = !invoice.paymentDate && parseFloat(invoice.amountPaid ?? '0') !== 0
+                    const overdue = !fullyCredited && isOverdue(invoice)
+
+                    return (
                     <tr
                       key={invoice.id}
                       className={[
                         'h-12 border-b border-(--border-default) align-middle',
                         index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)',
-                        invoice.isCanceled ? 'opacity-55' : '',
+                        fullyCredited ? 'opacity-55' : '',
                       ].join(' ')}
                     >
                       <td className="px-3 font-mono text-[11px] text-(--text-primary) md:px-4 md:text-xs">
-                        <span className={invoice.isCanceled ? 'line-through' : ''}>{invoice.invoiceNumber || '-'}</span>
-                        {invoice.isCanceled && (
+                        <span className={fullyCredited ? 'line-through' : ''}>{invoice.invoiceNumber || '-'}</span>
+                        {isCreditNote && (
+                          <span className="ml-2 inline-flex rounded-full bg-[#E0E7FF] px-2 py-0.5 text-[10px] font-semibold text-[#4338CA]">
+                            Avoir
+                          </span>
+                        )}
+                        {fullyCredited && (
                           <span className="ml-2 inline-flex rounded-full bg-[#FEE2E2] px-2 py-0.5 text-[10px] font-semibold text-[#B91C1C]">
                             Annulée
                           </span>
                         )}
+                        {partiallyCredited && (
+                          <span className="ml-2 inline-flex rounded-full bg-[#FEF3C7] px-2 py-0.5 text-[10px] font-semibold text-[#92400E]">
+                            Avoir partiel
+                          </span>
+                        )}
+                        {overdue && (
+                          <span className="ml-2 inline-flex rounded-full bg-[#FEE2E2] px-2 py-0.5 text-[10px] font-semibold text-[#B91C1C]">
+                            En retard
+                          </span>
+                        )}
                       </td>
                       <td className="px-3 md:px-4">
-                        <p className={['truncate text-sm font-medium text-(--text-primary)', invoice.isCanceled ? 'line-through' : ''].join(' ')}>
+                        <p className={['truncate text-sm font-medium text-(--text-primary)', fullyCredited ? 'line-through' : ''].join(' ')}>
                           {invoice.client}
                         </p>
                         {invoice.description && (
                           <p className={[
                             'max-w-72.5 truncate text-xs text-(--text-secondary)',
-                            invoice.isCanceled ? 'line-through' : '',
+                            fullyCredited ? 'line-through' : '',
                           ].join(' ')}>
                             {invoice.description}
                           </p>
                         )}
                       </td>
-                      <td className={['px-3 text-xs text-(--text-primary) md:px-4 md:text-sm', invoice.isCanceled ? 'line-through' : ''].join(' ')}>
+                      <td className={['px-3 text-xs text-(--text-primary) md:px-4 md:text-sm', fullyCredited ? 'line-through' : ''].join(' ')}>
                         {formatDate(invoice.invoiceDate)}
+                        {invoice.dueDate && !invoice.paymentDate && (
+                          <p className={['text-[11px]', overdue ? 'font-semibold text-[#B91C1C]' : 'text-(--text-secondary)'].join(' ')}>
+                            Éch. {formatDate(invoice.dueDate)}
+                          </p>
+                        )}
                       </td>
                       <td className="px-3 md:px-4">
-                        {invoice.isCanceled ? (
-                          <span className="text-xs text-(--text-secondary) md:text-sm">-</span>
-                        ) : invoice.paymentDate ? (
-                          <span className="inline-flex rounded-full bg-[#DCFCE7] px-2 py-1 text-[11px] font-semibold text-[#15803D] md:text-xs">
+                        {invoice.paymentDate ? (
+                          <button
+                            type="button"
+                            onClick={() => openPaymentModal(invoice)}
+                            className="inline-flex rounded-full bg-[#DCFCE7] px-2 py-1 text-[11px] font-semibold text-[#15803D] md:text-xs"
+                            title="Voir les paiements"
+                          >
                             {formatDate(invoice.paymentDate)}
-                          </span>
+                          </button>
                         ) : (
                           <AppButton
                             size="sm"
                             variant="outline"
                             onClick={() => openPaymentModal(invoice)}
-                            disabled={updateMutation.isPending}
                             className="h-7 border-[#F59E0B]/35 bg-[#FFFBEB] px-2 text-[11px] text-[#92400E] hover:bg-[#FEF3C7] md:px-2.5 md:text-xs"
                             startIcon={<CreditCard className="h-3.5 w-3.5" />}
+                            title={isPartiallyPaid ? `Reste ${formatCurrency(Math.abs(getOutstanding(invoice)), invoice.currency)}` : undefined}
                           >
-                            Attente
+                            {isCreditNote ? 'Rembourser' : isPartiallyPaid ? 'Partiel' : 'Attente'}
                           </AppButton>
                         )}
                       </td>
@@ -450,67 +812,91 @@ export default function Invoices() {
                               type="button"
                               className={[
                                 'cursor-help bg-transparent p-0 text-right text-sm text-(--text-primary) md:text-sm',
-                                invoice.isCanceled ? 'line-through' : '',
+                                fullyCredited ? 'line-through' : '',
                               ].join(' ')}
                               onMouseEnter={() => setHoveredVatInvoiceId(invoice.id)}
                               onMouseLeave={() => setHoveredVatInvoiceId((current) => (current === invoice.id ? null : current))}
                               onFocus={() => setHoveredVatInvoiceId(invoice.id)}
                               onBlur={() => setHoveredVatInvoiceId((current) => (current === invoice.id ? null : current))}
                             >
-                              {formatCurrency(invoice.amountHt)} HT
+                              {formatCurrency(invoice.amountHt, invoice.currency)} HT
                             </button>
                             {hoveredVatInvoiceId === invoice.id && (
                               <span className="pointer-events-none absolute right-0 top-0 z-20 -translate-y-[120%] whitespace-nowrap rounded-md bg-[#111827] px-2 py-1 text-[10px] font-medium text-white shadow-lg">
-                                TVA ({parseFloat(invoice.taxRate)}%): {formatCurrency(parseFloat(invoice.amountTtc) - parseFloat(invoice.amountHt))}
+                                TVA ({invoice.taxRate !== null ? `${parseFloat(invoice.taxRate)}%` : 'multi-taux'}): {formatCurrency(parseFloat(invoice.amountTtc) - parseFloat(invoice.amountHt), invoice.currency)}
                               </span>
                             )}
                           </div>
                           <span
                             className={[
                               'font-mono text-[11px] text-(--text-secondary)',
-                              invoice.isCanceled ? 'line-through' : '',
+                              fullyCredited ? 'line-through' : '',
                             ].join(' ')}
                           >
-                            {formatCurrency(invoice.amountTtc)} TTC
+                            {formatCurrency(invoice.amountTtc, invoice.currency)} TTC
                           </span>
                         </div>
                       </td>
                       <td className="px-3 md:px-4">
                         <div className="flex justify-end gap-1">
-                          {invoice.isCanceled ? (
+                          <AppButton
+                            size="icon-sm"
+                            variant="ghost"
+                            onClick={() => handleDownloadPdf(invoice)}
+                            title="Télécharger le PDF"
+                            disabled={downloadPdfMutation.isPending}
+                          >
+                            <FileDown className="h-4 w-4" />
+                          </AppButton>
+                          <AppButton
+                            size="icon-sm"
+                            variant="ghost"
+                            onClick={() => handleDownloadEInvoice(invoice, 'facturx')}
+                            title="Télécharger en Factur-X"
+                            disabled={downloadEInvoiceMutation.isPending}
+                          >
+                            <FileCheck className="h-4 w-4" />
+                          </AppButton>
+                          <AppButton
+                            size="icon-sm"
+                            variant="ghost"
+                            onClick={() => handleDownloadEInvoice(invoice, 'ubl')}
+                            title="Télécharger en UBL (XML)"
+                            disabled={downloadEInvoiceMutation.isPending}
+                          >
+                            <FileCode className="h-4 w-4" />
+                          </AppButton>
+                          {overdue && (
+                            <AppButton
+                              size="icon-sm"
+                              variant="ghost"
+                              onClick={() => setReminderInvoice(invoice)}
+                              title="Relancer le client"
+                              className="text-[#B91C1C] hover:bg-[#FEE2E2]"
+                            >
+                              <Mail className="h-4 w-4" />
+                            </AppButton>
+                          )}
+                          {!isCreditNote && (
+                            <AppButton
+                              size="icon-sm"
+                              variant="ghost"
+                              onClick={() => openEditModal(invoice)}
+                              title="Modifier"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </AppButton>
+                          )}
+                          {!isCreditNote && !fullyCredited && (
                             <AppButton
                               size="icon-sm"
                               variant="ghost"
-                              onClick={() => handleToggleCanceled(invoice)}
-                              title="Restaurer la facture"
-                              disabled={updateMutation.isPending}
-                              className="text-[#059669] hover:bg-[#ECFDF5]"
+                              onClick={() => openCreditNoteModal(invoice)}
+                              title="Créer un avoir"
+                              className="text-[#B45309] hover:bg-[#FFFBEB]"
                             >
-                              <RotateCcw className="h-4 w-4" />
+                              <FileMinus className="h-4 w-4" />
                             </AppButton>
-                          ) : (
-                            <>
-                              <AppButton
-                                size="icon-sm"
-                                variant="ghost"
-                                onClick={() => openEditModal(invoice)}
-                                title="Modifier"
-                              >
-                                <Pencil className="h-4 w-4" />
-                              </AppButton>
-                              {!invoice.paymentDate && (
-                                <AppButton
-                                  size="icon-sm"
-                                  variant="ghost"
-                                  onClick={() => handleToggleCanceled(invoice)}
-                                  title="Annuler la facture"
-                                  disabled={updateMutation.isPending}
-                                  className="text-[#B45309] hover:bg-[#FFFBEB]"
-                                >
-                                  <Ban className="h-4 w-4" />
-                                </AppButton>
-                              )}
-                            </>
                           )}
                           <AppButton
                             size="icon-sm"
@@ -524,7 +910,8 @@ export default function Invoices() {
                         </div>
                       </td>
                     </tr>
-                  ))}
+                    )
+                  })}
                 </FinanceTable>
               </section>
             )
@@ -535,7 +922,7 @@ export default function Invoices() {
       {/* Create/Edit Modal */}
       {isModalOpen && (
         <div className="modal modal-open">
-          <div className="modal-box my-6 w-[calc(100%-1.5rem)] max-w-xl overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) p-0 shadow-[0_12px_34px_rgba(17,24,39,0.16)] sm:w-[calc(100%-2rem)]">
+          <div className="modal-box my-6 w-[calc(100%-1.5rem)] max-w-3xl overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) p-0 shadow-[0_12px_34px_rgba(17,24,39,0.16)] sm:w-[calc(100%-2rem)]">
             <header className="px-6 pb-3 pt-5">
               <div className="flex items-start justify-between gap-3">
                 <div>
@@ -572,8 +959,8 @@ export default function Invoices() {
                     <label className={modalFieldLabelClass}>Client *</label>
                     <ComboSelect
                       value={formData.client}
-                      options={clientsData?.clients || []}
-                      onChange={(value) => updateFormField('client', value)}
+                      options={clientsData?.data.map((client) => client.name) || []}
+                      onChange={handleClientChange}
                       placeholder="Sélectionner un client..."
                       required
                     />
@@ -638,33 +1025,147 @@ export default function Invoices() {
                   </div>
 
                   <div>
-                    <label className={modalFieldLabelClass}>Montant HT *</label>
-                    <div className="relative">
-                      <input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        className={[modalInputClass, 'pr-9'].join(' ')}
-                        value={formData.amountHt}
-                        onChange={(e) => updateFormField('amountHt', e.target.value)}
-                        required
-                      />
-                      <span className="pointer-events-none absolute inset-y-0 right-3 flex items-center text-sm text-(--text-secondary)">
-                        €
-                      </span>
-                    </div>
+                    <label className={modalFieldLabelClass}>Régime de TVA</label>
+                    <Select
+                      className="h-10"
+                      value={formData.tvaRegime}
+                      onChange={(e) => handleTvaRegimeChange(e.target.value as TvaRegime)}
+                      options={tvaRegimeOptions}
+                    />
                   </div>
 
                   <div>
-                    <label className={modalFieldLabelClass}>Taux TVA (%) *</label>
+                    <label className={modalFieldLabelClass}>Type d'activité</label>
                     <Select
                       className="h-10"
-                      value={formData.taxRate}
-                      onChange={(e) => updateFormField('taxRate', e.target.value)}
-                      options={taxRateOptions}
+                      value={formData.activityType}
+                      onChange={(e) => updateFormField('activityType', e.target.value)}
+                      options={activityTypeOptions}
                     />
                   </div>
 
+                  <div>
+                    <label className={modalFieldLabelClass}>Devise</label>
+                    <Select
+                      className="h-10"
+                      value={formData.currency}
+                      onChange={(e) => updateFormField('currency', e.target.value)}
+                      options={currencyOptions}
+                    />
+                  </div>
+
+                  {formData.currency !== 'EUR' && (
+                    <div>
+                      <label className={modalFieldLabelClass}>Taux (1 EUR = x {formData.currency})</label>
+                      <input
+                        type="number"
+                        step="0.000001"
+                        min="0"
+                        className={modalInputClass}
+                        value={formData.exchangeRate}
+                        onChange={(e) => updateFormField('exchangeRate', e.target.value)}
+                        placeholder={rateLookup?.rate ? parseFloat(rateLookup.rate).toString() : ''}
+                      />
+                      <p className="mt-1 text-[11px] text-(--text-tertiary)">
+                        {rateLookup?.rate
+                          ? 'Laissez vide pour appliquer le dernier cours enregistré'
+                          : 'Aucun cours enregistré à cette date : saisissez le taux'}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="md:col-span-2">
+                    <label className={modalFieldLabelClass}>Lignes *</label>
+                    <div className="space-y-2">
+                      <div className="hidden grid-cols-[1fr_64px_64px_96px_96px_64px_32px] gap-2 text-[11px] text-(--text-tertiary) md:grid">
+                        <span>Désignation</span>
+                        <span>Qté</span>
+                        <span>Unité</span>
+                        <span>PU HT ({formData.currency})</span>
+                        <span>TVA</span>
+                        <span>Remise %</span>
+                        <span />
+                      </div>
+                      {formData.lines.map((line, index) => (
+                        <div key={index} className="grid grid-cols-2 gap-2 md:grid-cols-[1fr_64px_64px_96px_96px_64px_32px]">
+                          <input
+                            type="text"
+                            className={[lineInputClass, 'col-span-2 md:col-span-1'].join(' ')}
+                            value={line.description}
+                            onChange={(e) => updateLineField(index, 'description', e.target.value)}
+                            placeholder="Désignation"
+                            required
+                          />
+                          <input
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            className={lineInputClass}
+                            value={line.quantity}
+                            onChange={(e) => updateLineField(index, 'quantity', e.target.value)}
+                            title="Quantité"
+                            required
+                          />
+                          <input
+                            type="text"
+                            className={lineInputClass}
+                            value={line.unit}
+                            onChange={(e) => updateLineField(index, 'unit', e.target.value)}
+                            placeholder="jour"
+                            maxLength={20}
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className={lineInputClass}
+                            value={line.unitPrice}
+                            onChange={(e) => updateLineField(index, 'unitPrice', e.target.value)}
+                            title="Prix unitaire HT"
+                            required
+                          />
+                          <Select
+                            className="h-9"
+                            value={line.taxRate}
+                            onChange={(e) => updateLineField(index, 'taxRate', e.target.value)}
+                            options={taxRateOptions}
+                            disabled={formData.tvaRegime !== 'domestic'}
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="100"
+                            className={lineInputClass}
+                            value={line.discount}
+                            onChange={(e) => updateLineField(index, 'discount', e.target.value)}
+                            title="Remise (%)"
+                          />
+                          <AppButton
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => removeLine(index)}
+                            disabled={formData.lines.length === 1}
+                            title="Supprimer la ligne"
+                            className="h-9 w-8 text-(--color-error) hover:bg-[#FEE2E2]"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </AppButton>
+                        </div>
+                      ))}
+                      <AppButton
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={addLine}
+                        startIcon={<Plus className="h-3.5 w-3.5" />}
+                      >
+                        Ajouter une ligne
+                      </AppButton>
+                    </div>
+                  </div>
+
                   <div className="md:col-span-2">
                     <label className={modalFieldLabelClass}>Note</label>
                     <textarea
@@ -677,11 +1178,21 @@ export default function Invoices() {
                   </div>
                 </div>
 
-                <div className="mt-4 rounded-lg border border-(--border-default) bg-(--color-base-200)/70 px-4 py-3">
-                  <div className="flex items-center justify-between">
+                <div className="mt-4 space-y-1 rounded-lg border border-(--border-default) bg-(--color-base-200)/70 px-4 py-3">
+                  <div className="flex items-center justify-between text-xs text-(--text-secondary)">
+                    <span>Total HT</span>
+                    <span>{formatCurrency(calculatedTotals.totalHt, formData.currency)}</span>
+                  </div>
+                  {calculatedTotals.taxByRate.map((group) => (
+                    <div key={group.rate} className="flex items-center justify-between text-xs text-(--text-secondary)">
+                      <span>TVA {group.rate}% sur {formatCurrency(group.baseHt, formData.currency)}</span>
+                      <span>{formatCurrency(group.tva, formData.currency)}</span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between pt-1">
                     <span className="text-xs font-medium text-(--text-secondary)">Montant TTC calculé :</span>
                     <span className="font-['Space_Grotesk'] text-xl font-semibold text-(--text-primary)">
-                      {formatCurrency(calculatedTtc)}
+                      {formatCurrency(calculatedTotals.totalTtc, formData.currency)}
                     </span>
                   </div>
                 </div>
@@ -713,7 +1224,9 @@ export default function Invoices() {
           <div className="modal-box my-6 w-[calc(100%-1.5rem)] max-w-105 rounded-[10px] border border-(--border-default) bg-(--card-bg) p-0 shadow-[0_12px_34px_rgba(17,24,39,0.16)] sm:w-[calc(100%-2rem)]">
             <header className="px-5 pb-2 pt-4">
               <div className="flex items-start justify-between gap-3">
-                <h3 className="font-['Space_Grotesk'] text-lg font-semibold text-(--text-primary)">Enregistrer le paiement</h3>
+                <h3 className="font-['Space_Grotesk'] text-lg font-semibold text-(--text-primary)">
+                  {paymentInvoice.type === 'credit_note' ? 'Remboursements' : 'Paiements'}
+                </h3>
                 <AppButton
                   type="button"
                   variant="ghost"
@@ -729,31 +1242,229 @@ export default function Invoices() {
 
             <div className="px-5 pb-5 pt-2">
               <p className="mb-4 text-sm text-(--text-secondary)">
-              Facture <span className="font-mono">{paymentInvoice.invoiceNumber || '-'}</span> pour{' '}
+              {paymentInvoice.type === 'credit_note' ? 'Avoir' : 'Facture'} <span className="font-mono">{paymentInvoice.invoiceNumber || '-'}</span> pour{' '}
               <span className="font-medium">{paymentInvoice.client}</span>
+              {!paymentInvoice.paymentDate && <> - reste {formatCurrency(Math.abs(getOutstanding(paymentInvoice)), paymentInvoice.currency)}</>}
               </p>
-              <label className={modalFieldLabelClass}>Date de paiement</label>
-              <input
-                type="date"
-                className={modalInputClass}
-                value={paymentDate}
-                onChange={(e) => setPaymentDate(e.target.value)}
-              />
+
+              {(paymentInvoiceDetails?.payments.length ?? 0) > 0 && (
+                <ul className="mb-4 divide-y divide-(--border-default) rounded-lg border border-(--border-default)">
+                  {paymentInvoiceDetails?.payments.map((payment) => (
+                    <li key={payment.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <span className="text-(--text-primary)">{formatDate(payment.paymentDate)}</span>
+                        <span className="ml-2 text-xs text-(--text-secondary)">
+                          {paymentMethodLabels[payment.method]}{payment.reference ? ` - ${payment.reference}` : ''}
+                        </span>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-1">
+                        <span className="font-mono text-xs text-(--text-primary)">{formatCurrency(payment.amount, paymentInvoice.currency)}</span>
+                        {payment.method !== 'credit_note' && (
+                          <AppButton
+                            size="icon-sm"
+                            variant="ghost"
+                            onClick={() => handleDeletePayment(payment.id)}
+                            title="Supprimer le paiement"
+                            disabled={deletePaymentMutation.isPending}
+                            className="text-(--color-error) hover:bg-[#FEE2E2]"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </AppButton>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {paymentForm && !paymentInvoice.paymentDate && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={modalFieldLabelClass}>
+                      {paymentInvoice.type === 'credit_note' ? 'Date de remboursement' : 'Date de paiement'}
+                    </label>
+                    <input
+                      type="date"
+                      className={modalInputClass}
+                      value={paymentForm.paymentDate}
+                      onChange={(e) => updatePaymentField('paymentDate', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className={modalFieldLabelClass}>Montant TTC ({paymentInvoice.currency})</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      className={modalInputClass}
+                      value={paymentForm.amount}
+                      onChange={(e) => updatePaymentField('amount', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className={modalFieldLabelClass}>Moyen</label>
+                    <Select
+                      value={paymentForm.method}
+                      onChange={(e) => updatePaymentField('method', e.target.value)}
+                      options={paymentMethodOptions}
+                    />
+                  </div>
+                  <div>
+                    <label className={modalFieldLabelClass}>Référence</label>
+                    <input
+                      type="text"
+                      className={modalInputClass}
+                      value={paymentForm.reference}
+                      onChange={(e) => updatePaymentField('reference', e.target.value)}
+                      placeholder="N° de chèque, libellé..."
+                    />
+                  </div>
+                </div>
+              )}
 
               <div className="mt-5 flex justify-end gap-2">
                 <AppButton type="button" variant="outline" onClick={closePaymentModal}>
+                  {paymentInvoice.paymentDate ? 'Fermer' : 'Annuler'}
+                </AppButton>
+                {!paymentInvoice.paymentDate && (
+                  <AppButton type="button" onClick={handleConfirmPayment} disabled={createPaymentMutation.isPending}>
+                    {createPaymentMutation.isPending ? <span className="loading loading-spinner loading-sm" /> : 'Confirmer'}
+                  </AppButton>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="modal-backdrop bg-[#18223a]/40 backdrop-blur-[1px]" onClick={closePaymentModal}></div>
+        </div>
+      )}
+
+      {/* Credit Note Modal */}
+      {creditNoteInvoice && creditNoteForm && (
+        <div className="modal modal-open">
+          <div className="modal-box my-6 w-[calc(100%-1.5rem)] max-w-105 rounded-[10px] border border-(--border-default) bg-(--card-bg) p-0 shadow-[0_12px_34px_rgba(17,24,39,0.16)] sm:w-[calc(100%-2rem)]">
+            <header className="px-5 pb-2 pt-4">
+              <div className="flex items-start justify-between gap-3">
+                <h3 className="font-['Space_Grotesk'] text-lg font-semibold text-(--text-primary)">Créer un avoir</h3>
+                <AppButton
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={closeCreditNoteModal}
+                  title="Fermer"
+                  className="text-(--text-secondary)"
+                >
+                  <X className="h-4 w-4" />
+                </AppButton>
+              </div>
+            </header>
+
+            <div className="space-y-4 px-5 pb-5 pt-2">
+              <p className="text-sm text-(--text-secondary)">
+                Facture <span className="font-mono">{creditNoteInvoice.invoiceNumber || '-'}</span> pour{' '}
+                <span className="font-medium">{creditNoteInvoice.client}</span> ({formatCurrency(creditNoteInvoice.amountHt, creditNoteInvoice.currency)} HT)
+              </p>
+
+              {!creditedHtByInvoice.has(creditNoteInvoice.id) && (
+                <div className="flex gap-4">
+                  <label className="flex items-center gap-2 text-sm text-(--text-primary)">
+                    <input
+                      type="radio"
+                      className="radio radio-sm"
+                      checked={creditNoteForm.mode === 'full'}
+                      onChange={() => updateCreditNoteField('mode', 'full')}
+                    />
+                    Avoir total
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-(--text-primary)">
+                    <input
+                      type="radio"
+                      className="radio radio-sm"
+                      checked={creditNoteForm.mode === 'partial'}
+                      onChange={() => updateCreditNoteField('mode', 'partial')}
+                    />
+                    Avoir partiel
+                  </label>
+                </div>
+              )}
+
+              {creditNoteForm.mode === 'partial' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={modalFieldLabelClass}>Montant HT *</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      className={modalInputClass}
+                      value={creditNoteForm.amountHt}
+                      onChange={(e) => updateCreditNoteField('amountHt', e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className={modalFieldLabelClass}>Taux TVA</label>
+                    <Select
+                      value={creditNoteForm.taxRate}
+                      onChange={(e) => updateCreditNoteField('taxRate', e.target.value)}
+                      options={taxRateOptions}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={modalFieldLabelClass}>Date de l'avoir</label>
+                  <input
+                    type="date"
+                    className={modalInputClass}
+                    value={creditNoteForm.invoiceDate}
+                    onChange={(e) => updateCreditNoteField('invoiceDate', e.target.value)}
+                  />
+                </div>
+                {parseFloat(creditNoteInvoice.amountPaid ?? '0') > 0 && (
+                  <div>
+                    <label className={modalFieldLabelClass}>Date de remboursement</label>
+                    <input
+                      type="date"
+                      className={modalInputClass}
+                      value={creditNoteForm.refundDate}
+                      onChange={(e) => updateCreditNoteField('refundDate', e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className={modalFieldLabelClass}>Motif</label>
+                <input
+                  type="text"
+                  className={modalInputClass}
+                  value={creditNoteForm.reason}
+                  onChange={(e) => updateCreditNoteField('reason', e.target.value)}
+                  placeholder="Annulation, remise commerciale..."
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <AppButton type="button" variant="outline" onClick={closeCreditNoteModal}>
                   Annuler
                 </AppButton>
-                <AppButton type="button" onClick={handleConfirmPayment} disabled={updateMutation.isPending}>
-                  {updateMutation.isPending ? <span className="loading loading-spinner loading-sm" /> : 'Confirmer'}
+                <AppButton type="button" onClick={handleConfirmCreditNote} disabled={createCreditNoteMutation.isPending}>
+                  {createCreditNoteMutation.isPending ? <span className="loading loading-spinner loading-sm" /> : 'Créer l\'avoir'}
                 </AppButton>
               </div>
             </div>
           </div>
-          <div className="modal-backdrop bg-[#18223a]/40 backdrop-blur-[1px]" onClick={closePaymentModal}></div>
+          <div className="modal-backdrop bg-[#18223a]/40 backdrop-blur-[1px]" onClick={closeCreditNoteModal}></div>
         </div>
       )}
 
+      {/* Reminder Modal */}
+      {reminderInvoice && (
+        <ReminderModal invoice={reminderInvoice} onClose={() => setReminderInvoice(null)} />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <ActionModal
         isOpen={deleteConfirmId !== null}
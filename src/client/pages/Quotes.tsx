@@ -0,0 +1,759 @@
+import { useState, useMemo, useEffect } from 'react'
+import {
+  useQuotes,
+  useQuote,
+  useQuotePipeline,
+  useNextQuoteNumber,
+  useCreateQuote,
+  useUpdateQuote,
+  useConvertQuote,
+  useDeleteQuote,
+} from '../hooks/useQuotes'
+import { useClients } from '../hooks/useClients'
+import { useInvoiceDescriptions } from '../hooks/useInvoices'
+import type { Quote, QuoteLine, QuoteStatus, CreateQuoteInput } from '@shared/types'
+import { Pencil, Trash2, Plus, X, Sparkles, FileCheck2 } from 'lucide-react'
+import { ActionModal } from '../components/ui/ActionModal'
+import { useSnackbar } from '../contexts/SnackbarContext'
+import { ComboSelect } from '../components/ComboSelect'
+import { YearSelect } from '../components/PeriodSelect'
+import { AppButton } from '../components/ui/AppButton'
+import { KpiCard } from '../components/ui/KpiCard'
+import { FinanceTable, type FinanceTableColumn } from '../components/ui/FinanceTable'
+import { Select } from '../components/ui/Select'
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('fr-FR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+function formatCurrency(amount: string | number): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount
+  return new Intl.NumberFormat('fr-FR', {
+    style: 'currency',
+    currency: 'EUR',
+  }).format(num)
+}
+
+function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0]
+}
+
+const quoteColumns: FinanceTableColumn[] = [
+  { key: 'quote-number', label: 'N° Devis', className: 'w-[128px]' },
+  { key: 'client', label: 'Client', className: 'w-[200px]' },
+  { key: 'quote-date', label: 'Date', className: 'w-[106px]' },
+  { key: 'valid-until', label: 'Validité', className: 'w-[106px]' },
+  { key: 'status', label: 'Statut', className: 'w-[148px]' },
+  { key: 'amount-ht', label: 'Montant', className: 'w-[140px] text-right' },
+  { key: 'actions', label: 'Actions', className: 'w-[112px] text-right' },
+]
+
+const statusLabels: Record<QuoteStatus, string> = {
+  draft: 'Brouillon',
+  sent: 'Envoyé',
+  accepted: 'Accepté',
+  refused: 'Refusé',
+  expired: 'Expiré',
+}
+
+const statusOptions = (Object.keys(statusLabels) as QuoteStatus[]).map((status) => ({
+  value: status,
+  label: statusLabels[status],
+}))
+
+const statusFilterOptions = [{ value: '', label: 'Tous les statuts' }, ...statusOptions]
+
+const taxRateOptions = [
+  { value: '0', label: '0% (Exonere)' },
+  { value: '5.5', label: '5.5%' },
+  { value: '10', label: '10%' },
+  { value: '20', label: '20% (Taux normal)' },
+]
+
+interface QuoteLineFormData {
+  description: string
+  quantity: string
+  unit: string
+  unitPrice: string
+  taxRate: string
+  discount: string
+}
+
+interface QuoteFormData {
+  client: string
+  description: string
+  quoteDate: string
+  validUntil: string
+  lines: QuoteLineFormData[]
+  quoteNumber: string
+  note: string
+}
+
+const defaultLine: QuoteLineFormData = {
+  description: '',
+  quantity: '1',
+  unit: '',
+  unitPrice: '',
+  taxRate: '20',
+  discount: '0',
+}
+
+function createDefaultFormData(): QuoteFormData {
+  const quoteDate = new Date().toISOString().split('T')[0]
+  return {
+    client: '',
+    description: '',
+    quoteDate,
+    validUntil: addDays(quoteDate, 30),
+    lines: [defaultLine],
+    quoteNumber: '',
+    note: '',
+  }
+}
+
+function toLineFormData(line: QuoteLine): QuoteLineFormData {
+  return {
+    description: line.description,
+    quantity: parseFloat(line.quantity).toString(),
+    unit: line.unit || '',
+    unitPrice: line.unitPrice,
+    taxRate: parseFloat(line.taxRate).toString(),
+    discount: parseFloat(line.discount).toString(),
+  }
+}
+
+function computeLineHt(line: QuoteLineFormData): number {
+  const quantity = parseFloat(line.quantity) || 0
+  const unitPrice = parseFloat(line.unitPrice) || 0
+  const discount = parseFloat(line.discount) || 0
+  return roundCents(quantity * unitPrice * (1 - discount / 100))
+}
+
+function StatusBadge({ quote }: { quote: Quote }) {
+  if (quote.invoiceId) {
+    return (
+      <span className="inline-flex rounded-full bg-[#E0E7FF] px-2 py-1 text-[11px] font-semibold text-[#4338CA]">
+        Facturé
+      </span>
+    )
+  }
+
+  const className: Record<QuoteStatus, string> = {
+    draft: 'bg-(--color-base-200) text-(--text-secondary)',
+    sent: 'bg-[#DBEAFE] text-[#1D4ED8]',
+    accepted: 'bg-[#DCFCE7] text-[#15803D]',
+    refused: 'bg-[#FEE2E2] text-[#B91C1C]',
+    expired: 'bg-[#FEF3C7] text-[#92400E]',
+  }
+
+  return (
+    <span className={['inline-flex rounded-full px-2 py-1 text-[11px] font-semibold', className[quote.status]].join(' ')}>
+      {statusLabels[quote.status]}
+    </span>
+  )
+}
+
+const modalFieldLabelClass = 'mb-1.5 block text-[11px] font-semibold uppercase tracking-[0.06em] text-(--text-tertiary)'
+const modalInputClass =
+  'h-10 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
+const lineInputClass =
+  'h-9 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-2 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
+const modalTextareaClass =
+  'w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 py-2 text-sm text-(--text-primary) outline-none transition-colors placeholder:text-(--text-tertiary) focus:border-(--color-primary)'
+
+export default function Quotes() {
+  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear())
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | ''>('')
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingQuote, setEditingQuote] = useState<Quote | null>(null)
+  const [formData, setFormData] = useState<QuoteFormData>(createDefaultFormData)
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
+  const [convertQuote, setConvertQuote] = useState<Quote | null>(null)
+
+  const { showSuccess, showError } = useSnackbar()
+
+  const { data: quotesData, isLoading } = useQuotes({
+    year: selectedYear,
+    status: statusFilter || undefined,
+  })
+  const { data: pipeline, isLoading: isLoadingPipeline } = useQuotePipeline()
+  const { refetch: refetchNextNumber } = useNextQuoteNumber()
+  const { data: clientsData } = useClients()
+  const { data: descriptionsData } = useInvoiceDescriptions()
+  const { data: editingQuoteDetails } = useQuote(editingQuote?.id ?? null)
+
+  const createMutation = useCreateQuote()
+  const updateMutation = useUpdateQuote()
+  const convertMutation = useConvertQuote()
+  const deleteMutation = useDeleteQuote()
+
+  // The list endpoint only returns totals: swap in the real lines once loaded
+  useEffect(() => {
+    if (editingQuoteDetails && editingQuoteDetails.id === editingQuote?.id && editingQuoteDetails.lines.length > 0) {
+      setFormData((prev) => ({ ...prev, lines: editingQuoteDetails.lines.map(toLineFormData) }))
+    }
+  }, [editingQuoteDetails, editingQuote?.id])
+
+  const quoteMetrics = useMemo(() => {
+    const allQuotes = quotesData?.data ?? []
+    const answered = allQuotes.filter((quote) => quote.status === 'accepted' || quote.status === 'refused')
+    const accepted = answered.filter((quote) => quote.status === 'accepted')
+    return {
+      acceptanceRate: answered.length > 0 ? Math.round((accepted.length / answered.length) * 100) : null,
+      answeredCount: answered.length,
+    }
+  }, [quotesData])
+
+  const openCreateModal = async () => {
+    setEditingQuote(null)
+    const { data } = await refetchNextNumber()
+    setFormData({
+      ...createDefaultFormData(),
+      quoteNumber: data?.quoteNumber || '',
+    })
+    setIsModalOpen(true)
+  }
+
+  const openEditModal = (quote: Quote) => {
+    setEditingQuote(quote)
+    setFormData({
+      client: quote.client,
+      description: quote.description || '',
+      quoteDate: quote.quoteDate,
+      validUntil: quote.validUntil,
+      lines: [{
+        ...defaultLine,
+        description: quote.description || '',
+        unitPrice: quote.amountHt,
+        taxRate: quote.taxRate ? parseFloat(quote.taxRate).toString() : defaultLine.taxRate,
+      }],
+      quoteNumber: quote.quoteNumber,
+      note: quote.note || '',
+    })
+    setIsModalOpen(true)
+  }
+
+  const closeModal = () => {
+    setIsModalOpen(false)
+    setEditingQuote(null)
+    setFormData(createDefaultFormData())
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const clientName = formData.client.trim()
+    const directoryClient = clientsData?.data.find((client) => client.name === clientName)
+
+    const data: CreateQuoteInput = {
+      clientId: directoryClient?.id,
+      client: directoryClient ? undefined : clientName,
+      description: formData.description.trim() || undefined,
+      quoteDate: formData.quoteDate,
+      validUntil: formData.validUntil || undefined,
+      lines: formData.lines.map((line) => ({
+        description: line.description.trim(),
+        quantity: parseFloat(line.quantity),
+        unit: line.unit.trim() || undefined,
+        unitPrice: parseFloat(line.unitPrice),
+        taxRate: parseFloat(line.taxRate),
+        discount: parseFloat(line.discount) || 0,
+      })),
+      quoteNumber: formData.quoteNumber.trim() || undefined,
+      note: formData.note.trim() || undefined,
+    }
+
+    try {
+      if (editingQuote) {
+        await updateMutation.mutateAsync({ id: editingQuote.id, data })
+        showSuccess('Devis modifié avec succès')
+      } else {
+        await createMutation.mutateAsync(data)
+        showSuccess('Devis créé avec succès')
+      }
+      closeModal()
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const handleStatusChange = async (quote: Quote, status: QuoteStatus) => {
+    try {
+      await updateMutation.mutateAsync({ id: quote.id, data: { status } })
+      showSuccess(`Devis ${quote.quoteNumber} : ${statusLabels[status].toLowerCase()}`)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const handleConvert = async () => {
+    if (!convertQuote) return
+    try {
+      const { invoice } = await convertMutation.mutateAsync({ id: convertQuote.id })
+      showSuccess(`Facture ${invoice.invoiceNumber} créée à partir du devis`)
+      setConvertQuote(null)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMutation.mutateAsync(id)
+      setDeleteConfirmId(null)
+      showSuccess('Devis supprimé avec succès')
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const updateFormField = (field: Exclude<keyof QuoteFormData, 'lines'>, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+  }
+
+  // Pre-fill line TVA rates from the client's default when drafting a new quote
+  const handleClientChange = (value: string) => {
+    const directoryClient = clientsData?.data.find((client) => client.name === value)
+    setFormData((prev) => {
+      if (editingQuote || !directoryClient?.defaultTaxRate) {
+        return { ...prev, client: value }
+      }
+      const taxRate = parseFloat(directoryClient.defaultTaxRate).toString()
+      return { ...prev, client: value, lines: prev.lines.map((line) => ({ ...line, taxRate })) }
+    })
+  }
+
+  const updateLineField = (index: number, field: keyof QuoteLineFormData, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, lineIndex) => (lineIndex === index ? { ...line, [field]: value } : line)),
+    }))
+  }
+
+  const addLine = () => {
+    setFormData((prev) => ({ ...prev, lines: [...prev.lines, defaultLine] }))
+  }
+
+  const removeLine = (index: number) => {
+    setFormData((prev) => ({ ...prev, lines: prev.lines.filter((_, lineIndex) => lineIndex !== index) }))
+  }
+
+  // Mirrors the server: TVA is computed once per rate on the summed HT base
+  const calculatedTotals = useMemo(() => {
+    const bases = new Map<number, number>()
+    for (const line of formData.lines) {
+      const rate = parseFloat(line.taxRate) || 0
+      bases.set(rate, (bases.get(rate) ?? 0) + computeLineHt(line))
+    }
+    const totalHt = Array.from(bases.values()).reduce((sum, baseHt) => sum + baseHt, 0)
+    const totalTva = Array.from(bases.entries()).reduce((sum, [rate, baseHt]) => sum + roundCents(baseHt * rate / 100), 0)
+    return { totalHt, totalTtc: totalHt + totalTva }
+  }, [formData.lines])
+
+  const deleteQuote = quotesData?.data.find((quote) => quote.id === deleteConfirmId) ?? null
+
+  return (
+    <div className="space-y-7">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="font-['Space_Grotesk'] text-[32px] font-bold leading-tight tracking-[-0.02em] text-(--text-primary)">
+            Devis
+          </h1>
+        </div>
+        <div className="ml-auto flex shrink-0 items-center gap-3 self-start">
+          <Select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as QuoteStatus | '')}
+            options={statusFilterOptions}
+          />
+          <YearSelect value={selectedYear} onChange={setSelectedYear} />
+          <AppButton startIcon={<Plus className="h-4 w-4" />} onClick={openCreateModal}>
+            Nouveau devis
+          </AppButton>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3 xl:grid-cols-3">
+        <KpiCard
+          title="Devis en cours"
+          value={isLoadingPipeline ? <span className="loading loading-spinner loading-sm" /> : formatCurrency(pipeline?.amountHt || 0)}
+          description={`${pipeline?.count || 0} devis ouvert(s) - ${formatCurrency(pipeline?.amountTtc || 0)} ttc`}
+          accentColor="#6366F1"
+        />
+        <KpiCard
+          title="Acceptés à facturer"
+          value={isLoadingPipeline ? <span className="loading loading-spinner loading-sm" /> : formatCurrency(pipeline?.byStatus.accepted.amountHt || 0)}
+          description={`${pipeline?.byStatus.accepted.count || 0} devis accepté(s)`}
+          accentColor="#22C55E"
+        />
+        <KpiCard
+          title={`Taux d'acceptation ${selectedYear}`}
+          value={quoteMetrics.acceptanceRate === null ? '-' : `${quoteMetrics.acceptanceRate} %`}
+          description={`${quoteMetrics.answeredCount} devis avec réponse`}
+          accentColor="#3B82F6"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : !quotesData?.data.length ? (
+        <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) p-8 text-center shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+          <p className="text-sm text-(--text-secondary)">Aucun devis pour {selectedYear}.</p>
+          <div className="mt-4">
+            <AppButton startIcon={<Plus className="h-4 w-4" />} onClick={openCreateModal}>
+              Créer le premier devis
+            </AppButton>
+          </div>
+        </div>
+      ) : (
+        <FinanceTable columns={quoteColumns} minWidthClassName="">
+          {quotesData.data.map((quote, index) => (
+            <tr
+              key={quote.id}
+              className={[
+                'h-12 border-b border-(--border-default) align-middle',
+                index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)',
+              ].join(' ')}
+            >
+              <td className="px-3 font-mono text-[11px] text-(--text-primary) md:px-4 md:text-xs">{quote.quoteNumber}</td>
+              <td className="px-3 md:px-4">
+                <p className="truncate text-sm font-medium text-(--text-primary)">{quote.client}</p>
+                {quote.description && (
+                  <p className="max-w-72.5 truncate text-xs text-(--text-secondary)">{quote.description}</p>
+                )}
+              </td>
+              <td className="px-3 text-xs text-(--text-primary) md:px-4 md:text-sm">{formatDate(quote.quoteDate)}</td>
+              <td className="px-3 text-xs text-(--text-primary) md:px-4 md:text-sm">{formatDate(quote.validUntil)}</td>
+              <td className="px-3 md:px-4">
+                {quote.invoiceId ? (
+                  <StatusBadge quote={quote} />
+                ) : (
+                  <Select
+                    className="h-8 text-xs"
+                    value={quote.status}
+                    onChange={(e) => handleStatusChange(quote, e.target.value as QuoteStatus)}
+                    options={statusOptions}
+                    disabled={updateMutation.isPending}
+                  />
+                )}
+              </td>
+              <td className="px-3 text-right md:px-4">
+                <div className="flex flex-col items-end">
+                  <span className="text-sm font-semibold text-(--text-primary)">{formatCurrency(quote.amountHt)} HT</span>
+                  <span className="font-mono text-[11px] text-(--text-secondary)">{formatCurrency(quote.amountTtc)} TTC</span>
+                </div>
+              </td>
+              <td className="px-3 md:px-4">
+                <div className="flex justify-end gap-1">
+                  {quote.status === 'accepted' && !quote.invoiceId && (
+                    <AppButton
+                      size="icon-sm"
+                      variant="ghost"
+                      onClick={() => setConvertQuote(quote)}
+                      title="Convertir en facture"
+                      className="text-[#15803D] hover:bg-[#DCFCE7]"
+                    >
+                      <FileCheck2 className="h-4 w-4" />
+                    </AppButton>
+                  )}
+                  {!quote.invoiceId && (
+                    <AppButton
+                      size="icon-sm"
+                      variant="ghost"
+                      onClick={() => openEditModal(quote)}
+                      title="Modifier"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </AppButton>
+                  )}
+                  <AppButton
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() => setDeleteConfirmId(quote.id)}
+                    title="Supprimer"
+                    className="text-(--color-error) hover:bg-[#FEE2E2]"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </AppButton>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </FinanceTable>
+      )}
+
+      {/* Create/Edit Modal */}
+      {isModalOpen && (
+        <div className="modal modal-open">
+          <div className="modal-box my-6 w-[calc(100%-1.5rem)] max-w-3xl overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) p-0 shadow-[0_12px_34px_rgba(17,24,39,0.16)] sm:w-[calc(100%-2rem)]">
+            <header className="px-6 pb-3 pt-5">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <h3 className="font-['Space_Grotesk'] text-xl font-semibold tracking-[-0.01em] text-(--text-primary)">
+                    {editingQuote ? 'Modifier le devis' : 'Nouveau devis'}
+                  </h3>
+                  <p className="mt-1 text-xs text-(--text-secondary)">
+                    Une fois accepté, le devis pourra être converti en facture.
+                  </p>
+                </div>
+                <AppButton
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={closeModal}
+                  title="Fermer"
+                  className="text-(--text-secondary)"
+                >
+                  <X className="h-4 w-4" />
+                </AppButton>
+              </div>
+            </header>
+
+            <div className="px-6 pb-6 pt-2">
+              <form onSubmit={handleSubmit}>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <div className="md:col-span-2">
+                    <label className={modalFieldLabelClass}>Client *</label>
+                    <ComboSelect
+                      value={formData.client}
+                      options={clientsData?.data.map((client) => client.name) || []}
+                      onChange={handleClientChange}
+                      placeholder="Sélectionner un client..."
+                      required
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className={modalFieldLabelClass}>N° Devis</label>
+                    <div className="grid grid-cols-[1fr_auto] gap-2">
+                      <input
+                        type="text"
+                        className={[modalInputClass, 'min-w-0 flex-1'].join(' ')}
+                        value={formData.quoteNumber}
+                        onChange={(e) => updateFormField('quoteNumber', e.target.value)}
+                        placeholder="DEVYYYYMMXX"
+                      />
+                      <AppButton
+                        type="button"
+                        size="icon-sm"
+                        className="h-10 w-10"
+                        onClick={async () => {
+                          const { data } = await refetchNextNumber()
+                          if (data?.quoteNumber) {
+                            updateFormField('quoteNumber', data.quoteNumber)
+                          }
+                        }}
+                        title="Générer automatiquement"
+                      >
+                        <Sparkles className="h-4 w-4" />
+                      </AppButton>
+                    </div>
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className={modalFieldLabelClass}>Description</label>
+                    <ComboSelect
+                      value={formData.description}
+                      options={descriptionsData?.descriptions || []}
+                      onChange={(value) => updateFormField('description', value)}
+                      placeholder="Sélectionner une description..."
+                    />
+                  </div>
+
+                  <div>
+                    <label className={modalFieldLabelClass}>Date du devis *</label>
+                    <input
+                      type="date"
+                      className={modalInputClass}
+                      value={formData.quoteDate}
+                      onChange={(e) => updateFormField('quoteDate', e.target.value)}
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label className={modalFieldLabelClass}>Valable jusqu'au *</label>
+                    <input
+                      type="date"
+                      className={modalInputClass}
+                      value={formData.validUntil}
+                      min={formData.quoteDate}
+                      onChange={(e) => updateFormField('validUntil', e.target.value)}
+                      required
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className={modalFieldLabelClass}>Lignes *</label>
+                    <div className="space-y-2">
+                      <div className="hidden grid-cols-[1fr_64px_64px_96px_96px_64px_32px] gap-2 text-[11px] text-(--text-tertiary) md:grid">
+                        <span>Désignation</span>
+                        <span>Qté</span>
+                        <span>Unité</span>
+                        <span>PU HT (€)</span>
+                        <span>TVA</span>
+                        <span>Remise %</span>
+                        <span />
+                      </div>
+                      {formData.lines.map((line, index) => (
+                        <div key={index} className="grid grid-cols-2 gap-2 md:grid-cols-[1fr_64px_64px_96px_96px_64px_32px]">
+                          <input
+                            type="text"
+                            className={[lineInputClass, 'col-span-2 md:col-span-1'].join(' ')}
+                            value={line.description}
+                            onChange={(e) => updateLineField(index, 'description', e.target.value)}
+                            placeholder="Désignation"
+                            required
+                          />
+                          <input
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            className={lineInputClass}
+                            value={line.quantity}
+                            onChange={(e) => updateLineField(index, 'quantity', e.target.value)}
+                            title="Quantité"
+                            required
+                          />
+                          <input
+                            type="text"
+                            className={lineInputClass}
+                            value={line.unit}
+                            onChange={(e) => updateLineField(index, 'unit', e.target.value)}
+                            placeholder="jour"
+                            maxLength={20}
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className={lineInputClass}
+                            value={line.unitPrice}
+                            onChange={(e) => updateLineField(index, 'unitPrice', e.target.value)}
+                            title="Prix unitaire HT"
+                            required
+                          />
+                          <Select
+                            className="h-9"
+                            value={line.taxRate}
+                            onChange={(e) => updateLineField(index, 'taxRate', e.target.value)}
+                            options={taxRateOptions}
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max="100"
+                            className={lineInputClass}
+                            value={line.discount}
+                            onChange={(e) => updateLineField(index, 'discount', e.target.value)}
+                            title="Remise (%)"
+                          />
+                          <AppButton
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            onClick={() => removeLine(index)}
+                            disabled={formData.lines.length === 1}
+                            title="Supprimer la ligne"
+                            className="h-9 w-8 text-(--color-error) hover:bg-[#FEE2E2]"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </AppButton>
+                        </div>
+                      ))}
+                      <AppButton
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={addLine}
+                        startIcon={<Plus className="h-3.5 w-3.5" />}
+                      >
+                        Ajouter une ligne
+                      </AppButton>
+                    </div>
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className={modalFieldLabelClass}>Note</label>
+                    <textarea
+                      className={[modalTextareaClass, 'h-10 resize-none overflow-hidden'].join(' ')}
+                      value={formData.note}
+                      onChange={(e) => updateFormField('note', e.target.value)}
+                      placeholder="Conditions, délais de réalisation..."
+                      rows={1}
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-4 space-y-1 rounded-lg border border-(--border-default) bg-(--color-base-200)/70 px-4 py-3">
+                  <div className="flex items-center justify-between text-xs text-(--text-secondary)">
+                    <span>Total HT</span>
+                    <span>{formatCurrency(calculatedTotals.totalHt)}</span>
+                  </div>
+                  <div className="flex items-center justify-between pt-1">
+                    <span className="text-xs font-medium text-(--text-secondary)">Montant TTC calculé :</span>
+                    <span className="font-['Space_Grotesk'] text-xl font-semibold text-(--text-primary)">
+                      {formatCurrency(calculatedTotals.totalTtc)}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="mt-6 flex justify-end gap-2">
+                  <AppButton type="button" variant="outline" onClick={closeModal}>
+                    Annuler
+                  </AppButton>
+                  <AppButton type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
+                    {createMutation.isPending || updateMutation.isPending ? (
+                      <span className="loading loading-spinner loading-sm" />
+                    ) : editingQuote ? (
+                      'Enregistrer'
+                    ) : (
+                      'Créer'
+                    )}
+                  </AppButton>
+                </div>
+              </form>
+            </div>
+          </div>
+          <div className="modal-backdrop bg-[#0F172A]/50 backdrop-blur-[1px]" onClick={closeModal}></div>
+        </div>
+      )}
+
+      <ActionModal
+        isOpen={convertQuote !== null}
+        title="Convertir en facture ?"
+        message={`Une facture datée d'aujourd'hui sera créée avec les lignes du devis ${convertQuote?.quoteNumber ?? ''} et le prochain numéro de facture.`}
+        confirmLabel="Créer la facture"
+        cancelLabel="Annuler"
+        variant="validation"
+        isLoading={convertMutation.isPending}
+        onConfirm={handleConvert}
+        onCancel={() => setConvertQuote(null)}
+      />
+
+      <ActionModal
+        isOpen={deleteConfirmId !== null}
+        title="Supprimer le devis ?"
+        message={`Cette action est irréversible. Le devis ${deleteQuote?.quoteNumber ?? '-'} sera définitivement supprimé.`}
+        confirmLabel="Supprimer"
+        cancelLabel="Annuler"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+        onConfirm={() => deleteConfirmId && handleDelete(deleteConfirmId)}
+        onCancel={() => setDeleteConfirmId(null)}
+      />
+    </div>
+  )
+}
@@ -4,6 +4,16 @@ import { api } from '../api/client'
 import { Save, Loader2, CheckCircle, XCircle, Plus, Trash2, RotateCcw } from 'lucide-react'
 import { AppButton } from '../components/ui/AppButton'
 import { YearSelect } from '../components/YearSelect'
+import { IssuerProfileSection } from '../components/IssuerProfileSection'
+import { InvoiceNumberingSection } from '../components/InvoiceNumberingSection'
+import { ReminderTemplatesSection } from '../components/ReminderTemplatesSection'
+import { ExchangeRatesSection } from '../components/ExchangeRatesSection'
+import { CalendarFeedSection } from '../components/CalendarFeedSection'
+import { Select } from '../components/ui/Select'
+import { Switch } from '../components/ui/Switch'
+import { activityTypeOptions } from '../utils/activityTypes'
+import { chamberOptions } from '../utils/urssafComponents'
+import type { ChamberType, MicroActivityType } from '@shared/types'
 
 interface UserSettings {
   id: string
@@ -13,6 +23,10 @@ interface UserSettings {
   revenueDeductionRate: string
   monthlySalary: string
   additionalTaxableIncome: string
+  businessStartDate: string | null
+  activityType: MicroActivityType
+  acre: boolean
+  chamber: ChamberType
   createdAt: string
   updatedAt: string
 }
@@ -23,6 +37,10 @@ interface UpdateSettingsData {
   revenueDeductionRate?: number
   monthlySalary?: number
   additionalTaxableIncome?: number
+  businessStartDate?: string | null
+  activityType?: MicroActivityType
+  acre?: boolean
+  chamber?: ChamberType
 }
 
 interface TaxBracket {
@@ -57,6 +75,10 @@ export default function Settings() {
   const queryClient = useQueryClient()
   const [revenueDeductionRate, setRevenueDeductionRate] = useState('')
   const [monthlySalary, setMonthlySalary] = useState('')
+  const [activityType, setActivityType] = useState<MicroActivityType>('bnc')
+  const [businessStartDate, setBusinessStartDate] = useState('')
+  const [acre, setAcre] = useState(false)
+  const [chamber, setChamber] = useState<ChamberType>('none')
   const [successMessage, setSuccessMessage] = useState('')
   const [errorMessage, setErrorMessage] = useState('')
 
@@ -90,6 +112,8 @@ export default function Settings() {
     mutationFn: (data: UpdateSettingsData) => api.put<UserSettings>('/settings', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['settings'] })
+      queryClient.invalidateQueries({ queryKey: ['microCeiling'] })
+      queryClient.invalidateQueries({ queryKey: ['urssafSummary'] })
       setSuccessMessage('Paramètres enregistrés avec succès')
       setErrorMessage('')
       setTimeout(() => setSuccessMessage(''), 3000)
@@ -164,6 +188,10 @@ export default function Settings() {
     if (settings) {
       setRevenueDeductionRate(settings.revenueDeductionRate)
       setMonthlySalary(settings.monthlySalary)
+      setActivityType(settings.activityType)
+      setBusinessStartDate(settings.businessStartDate ?? '')
+      setAcre(settings.acre)
+      setChamber(settings.chamber)
     }
   }, [settings])
 
@@ -196,6 +224,10 @@ export default function Settings() {
     updateMutation.mutate({
       revenueDeductionRate: parseFloat(revenueDeductionRate),
       monthlySalary: parseFloat(monthlySalary),
+      activityType,
+      businessStartDate: businessStartDate || null,
+      acre,
+      chamber,
     })
   }
 
@@ -310,6 +342,47 @@ export default function Settings() {
                 />
                 <span className="text-[10px] text-(--text-tertiary)">Objectif de rémunération mensuelle nette</span>
               </label>
+
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-(--text-primary)">Type d'activité</span>
+                <Select
+                  value={activityType}
+                  onChange={(e) => setActivityType(e.target.value as MicroActivityType)}
+                  options={activityTypeOptions}
+                />
+                <span className="text-[10px] text-(--text-tertiary)">Détermine le plafond micro-entreprise et les seuils de franchise de TVA</span>
+              </label>
+
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-(--text-primary)">Date de début d'activité</span>
+                <input
+                  type="date"
+                  className="h-8 w-full rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-sm text-(--text-primary) outline-none focus:border-(--color-primary)"
+                  value={businessStartDate}
+                  onChange={(e) => setBusinessStartDate(e.target.value)}
+                />
+                <span className="text-[10px] text-(--text-tertiary)">Le plafond de la première année est proratisé</span>
+              </label>
+
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-(--text-primary)">Chambre consulaire</span>
+                <Select
+                  value={chamber}
+                  onChange={(e) => setChamber(e.target.value as ChamberType)}
+                  options={chamberOptions}
+                />
+                <span className="text-[10px] text-(--text-tertiary)">Taxe pour frais de chambre et taux de CFP des artisans</span>
+              </label>
+
+              <div className="flex flex-col justify-center gap-1">
+                <Switch
+                  checked={acre}
+                  onChange={(e) => setAcre(e.target.checked)}
+                  label="ACRE obtenue"
+                  description="Réduit les cotisations sociales jusqu'à la fin du 3e trimestre suivant le début d'activité"
+                  disabled={!businessStartDate}
+                />
+              </div>
             </div>
 
             <div className="flex justify-end">
@@ -407,6 +480,66 @@ export default function Settings() {
         </div>
       </div>
 
+      <IssuerProfileSection
+        onSuccess={(message) => {
+          setErrorMessage('')
+          setSuccessMessage(message)
+          setTimeout(() => setSuccessMessage(''), 3000)
+        }}
+        onError={(message) => {
+          setErrorMessage(message)
+          setSuccessMessage('')
+        }}
+      />
+
+      <InvoiceNumberingSection
+        onSuccess={(message) => {
+          setErrorMessage('')
+          setSuccessMessage(message)
+          setTimeout(() => setSuccessMessage(''), 3000)
+        }}
+        onError={(message) => {
+          setErrorMessage(message)
+          setSuccessMessage('')
+        }}
+      />
+
+      <ReminderTemplatesSection
+        onSuccess={(message) => {
+          setErrorMessage('')
+          setSuccessMessage(message)
+          setTimeout(() => setSuccessMessage(''), 3000)
+        }}
+        onError={(message) => {
+          setErrorMessage(message)
+          setSuccessMessage('')
+        }}
+      />
+
+      <ExchangeRatesSection
+        onSuccess={(message) => {
+          setErrorMessage('')
+          setSuccessMessage(message)
+          setTimeout(() => setSuccessMessage(''), 3000)
+        }}
+        onError={(message) => {
+          setErrorMessage(message)
+          setSuccessMessage('')
+        }}
+      />
+
+      <CalendarFeedSection
+        onSuccess={(message) => {
+          setErrorMessage('')
+          setSuccessMessage(message)
+          setTimeout(() => setSuccessMessage(''), 3000)
+        }}
+        onError={(message) => {
+          setErrorMessage(message)
+          setSuccessMessage('')
+        }}
+      />
+
       <section className="overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
         <div className="flex flex-wrap items-center justify-between gap-3 border-b border-(--border-default) px-6 py-4">
           <div className="flex items-center gap-3">
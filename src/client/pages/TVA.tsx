@@ -7,8 +7,12 @@ import {
   useDeleteTaxPayment,
   useTvaSummary,
   useMonthlyTva,
+  useTvaCredits,
+  useMarkTvaRefundReceived,
+  useTvaFilingRegime,
+  useSetTvaFilingRegime,
 } from '../hooks/useTva'
-import type { TaxPayment, CreateTaxPaymentInput } from '@shared/types'
+import type { TaxPayment, CreateTaxPaymentInput, TvaCreditEntry, TvaCreditEntryType, TvaFilingRegime } from '@shared/types'
 import { Pencil, Trash2, Check, Clock, AlertCircle, CalendarClock, Minus } from 'lucide-react'
 import { ConfirmDialog } from '../components/ConfirmDialog'
 import { YearSelect } from '../components/PeriodSelect'
@@ -16,6 +20,7 @@ import { useSnackbar } from '../contexts/SnackbarContext'
 import { DataTable, type DataTableColumn } from '../components/ui/DataTable'
 import { AppButton } from '../components/ui/AppButton'
 import { KpiCard } from '../components/ui/KpiCard'
+import { Select } from '../components/ui/Select'
 
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString('fr-FR', {
@@ -33,9 +38,16 @@ function formatCurrency(amount: string | number): string {
   }).format(num)
 }
 
-function formatMonth(month: number): string {
-  const date = new Date(2024, month - 1, 1)
-  return date.toLocaleDateString('fr-FR', { month: 'long' })
+const regimeOptions: { value: TvaFilingRegime; label: string }[] = [
+  { value: 'monthly', label: 'CA3 mensuelle' },
+  { value: 'quarterly', label: 'CA3 trimestrielle' },
+  { value: 'annual', label: 'CA12 annuelle (acomptes)' },
+]
+
+const creditEntryLabels: Record<TvaCreditEntryType, string> = {
+  credit: 'Crédit de TVA (case 25)',
+  imputation: 'Imputé sur la déclaration (case 22)',
+  refund: 'Remboursement demandé (3519)',
 }
 
 function formatPeriodMonth(periodMonth: string): string {
@@ -64,11 +76,11 @@ const defaultFormData: TaxPaymentFormData = {
   note: '',
 }
 
-const monthlyColumns: DataTableColumn[] = [
-  { key: 'month', label: 'Mois' },
+const scheduleColumns: DataTableColumn[] = [
+  { key: 'period', label: 'Période' },
   { key: 'collected', label: 'Collectée', className: 'w-30 text-right' },
   { key: 'recoverable', label: 'Récupérable', className: 'w-30 text-right' },
-  { key: 'net', label: 'Nette', className: 'w-30 text-right' },
+  { key: 'net', label: 'À payer', className: 'w-30 text-right' },
   { key: 'payment', label: 'Paiement', className: 'w-30 text-center' },
 ]
 
@@ -91,6 +103,10 @@ export default function TVA() {
   const [error, setError] = useState('')
 
   const { showSuccess, showError } = useSnackbar()
+  const { data: creditLedger } = useTvaCredits()
+  const markRefundReceivedMutation = useMarkTvaRefundReceived()
+  const { data: regimeSetting } = useTvaFilingRegime(selectedYear)
+  const setRegimeMutation = useSetTvaFilingRegime()
 
   // Dates for the full year summary
   const startDate = `${selectedYear}-01-01`
@@ -178,22 +194,40 @@ export default function TVA() {
   }
 
   const now = new Date()
-  const currentMonth = now.getMonth() + 1
-  const isCurrentYearSelected = selectedYear === now.getFullYear()
-  const currentMonthData = isCurrentYearSelected
-    ? monthlyData?.months.find((m) => m.month === currentMonth)
-    : null
+  const currentMonthKey = `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`
+  // Return of the running month, a quarter or the whole year depending on the regime
+  const currentPeriodData = monthlyData?.schedule.find(
+    (entry) => entry.kind === 'return' && entry.startMonth <= currentMonthKey && currentMonthKey <= entry.endMonth
+  )
 
   const totalPendingAmount = parseFloat(summary?.totalPending || '0')
-  const currentMonthNetTva = parseFloat(currentMonthData?.netTva || '0')
-  const currentMonthDeclaredAmount = currentMonthData
-    ? parseFloat(currentMonthData.paidAmount) + parseFloat(currentMonthData.pendingAmount)
+  const currentPeriodNetTva = parseFloat(currentPeriodData?.amountDue || '0')
+  const currentPeriodDeclaredAmount = currentPeriodData
+    ? parseFloat(currentPeriodData.paidAmount) + parseFloat(currentPeriodData.pendingAmount)
     : 0
-  const undeclaredCurrentMonthAmount = Math.max(0, currentMonthNetTva - currentMonthDeclaredAmount)
-  const remainingToDeclareAndPay = totalPendingAmount + undeclaredCurrentMonthAmount
+  const undeclaredCurrentPeriodAmount = Math.max(0, currentPeriodNetTva - currentPeriodDeclaredAmount)
+  const remainingToDeclareAndPay = totalPendingAmount + undeclaredCurrentPeriodAmount
+
+  const handleRegimeChange = async (regime: TvaFilingRegime) => {
+    try {
+      await setRegimeMutation.mutateAsync({ year: selectedYear, regime })
+      showSuccess(`Régime de TVA ${selectedYear} enregistré`)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
 
   const isSubmitting = createMutation.isPending || updateMutation.isPending
 
+  const handleRefundReceived = async (entry: TvaCreditEntry) => {
+    try {
+      await markRefundReceivedMutation.mutateAsync({ id: entry.id, receivedDate: new Date().toISOString().split('T')[0] })
+      showSuccess('Remboursement de crédit marqué comme reçu')
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
   return (
     <div className="flex flex-col gap-7">
       <div className="flex flex-wrap items-start justify-between gap-4">
@@ -202,9 +236,20 @@ export default function TVA() {
           <AppButton variant="outline" onClick={() => navigate('/tva/declaration')}>
             Assistant déclaration
           </AppButton>
+          <AppButton variant="outline" onClick={() => navigate('/tva/des')}>
+            Déclaration DES
+          </AppButton>
         </div>
         <div className="flex flex-wrap items-center gap-3">
           <YearSelect value={selectedYear} onChange={setSelectedYear} />
+          <Select
+            className="w-56"
+            value={regimeSetting?.regime ?? 'monthly'}
+            onChange={(e) => handleRegimeChange(e.target.value as TvaFilingRegime)}
+            options={regimeOptions}
+            disabled={!regimeSetting || setRegimeMutation.isPending}
+            aria-label="Régime de déclaration"
+          />
           <AppButton className="shadow-[0_8px_20px_-12px_rgba(37,99,235,0.75)]" onClick={openCreateModal}>
             Ajouter un paiement
           </AppButton>
@@ -253,16 +298,94 @@ export default function TVA() {
         />
       </div>
 
-      {/* Monthly Breakdown */}
+      {/* Franchise en base thresholds */}
+      {summary?.franchise.applies && (
+        <section className="space-y-3">
+          <div className="flex items-baseline justify-between gap-3">
+            <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">Franchise en base de TVA</h2>
+            <span className="text-sm text-(--text-secondary)">
+              Encaissé {selectedYear} : <span className="font-mono font-semibold text-(--text-primary)">{formatCurrency(summary.franchise.receiptsHt)}</span>
+            </span>
+          </div>
+          <div className="space-y-3 rounded-[10px] border border-(--border-default) bg-(--card-bg) p-4 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+            <progress
+              className={`progress w-full ${summary.franchise.status === 'under' ? 'progress-success' : summary.franchise.status === 'approaching' ? 'progress-warning' : 'progress-error'}`}
+              value={Math.min(summary.franchise.receiptsHt, summary.franchise.thresholds.majore)}
+              max={summary.franchise.thresholds.majore}
+            />
+            <div className="flex flex-wrap justify-between gap-2 text-xs text-(--text-secondary)">
+              <span>Seuil de base : {formatCurrency(summary.franchise.thresholds.base)}</span>
+              <span>Seuil majoré : {formatCurrency(summary.franchise.thresholds.majore)}</span>
+            </div>
+            {summary.franchise.alerts.map((alert) => (
+              <div key={alert} className="flex items-start gap-2 text-sm text-[#B45309]">
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                <span>{alert}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* TVA credit ledger */}
+      {creditLedger && creditLedger.entries.length > 0 && (
+        <section className="space-y-3">
+          <div className="flex items-baseline justify-between gap-3">
+            <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">Crédit de TVA</h2>
+            <span className="text-sm text-(--text-secondary)">
+              Solde reporté : <span className="font-mono font-semibold text-(--color-success)">{formatCurrency(creditLedger.balance)}</span>
+            </span>
+          </div>
+          <div className="overflow-hidden rounded-[10px] border border-(--border-default) bg-(--card-bg) shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+            <table className="w-full text-sm">
+              <tbody>
+                {creditLedger.entries.map((entry) => (
+                  <tr key={entry.id} className="h-10 border-b border-(--border-default) last:border-b-0">
+                    <td className="px-4 text-(--text-primary)">{formatPeriodMonth(entry.periodMonth)}</td>
+                    <td className="px-4 text-(--text-secondary)">{creditEntryLabels[entry.type]}</td>
+                    <td className={`px-4 text-right font-mono ${entry.type === 'credit' ? 'text-(--color-success)' : 'text-(--text-primary)'}`}>
+                      {entry.type === 'credit' ? '+' : '−'}{formatCurrency(entry.amount)}
+                    </td>
+                    <td className="w-48 px-4 text-right">
+                      {entry.type === 'refund' && (entry.refundStatus === 'received' ? (
+                        <span className="text-xs text-(--color-success)">
+                          Reçu{entry.refundReceivedDate ? ` le ${formatDate(entry.refundReceivedDate)}` : ''}
+                        </span>
+                      ) : (
+                        <AppButton
+                          variant="outline"
+                          onClick={() => handleRefundReceived(entry)}
+                          disabled={markRefundReceivedMutation.isPending}
+                        >
+                          Marquer reçu
+                        </AppButton>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* Filing schedule */}
       <section className="space-y-3">
-        <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">Détail mensuel</h2>
+        <div className="flex flex-wrap items-baseline justify-between gap-3">
+          <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">Échéances</h2>
+          {monthlyData?.regime === 'annual' && (
+            <span className="text-xs text-(--text-secondary)">
+              Le solde de la CA12 s&apos;enregistre sur le mois de son échéance (mai de l&apos;année suivante)
+            </span>
+          )}
+        </div>
         {isLoadingMonthly ? (
           <div className="rounded-[10px] border border-(--border-default) bg-(--card-bg) py-8 text-center shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
             <span className="loading loading-spinner loading-lg"></span>
           </div>
         ) : (
           <DataTable
-            columns={monthlyColumns}
+            columns={scheduleColumns}
             minWidthClassName=""
             footer={
               <tr className="h-11 border-t border-(--border-default) bg-(--card-bg)">
@@ -282,11 +405,12 @@ export default function TVA() {
               </tr>
             }
           >
-            {monthlyData?.months.map((m, index) => {
-              const collected = parseFloat(m.tvaCollected)
-              const recoverable = parseFloat(m.tvaRecoverable)
-              const net = parseFloat(m.netTva)
-              const hasData = collected > 0 || recoverable > 0
+            {monthlyData?.schedule.map((m, index) => {
+              const collected = parseFloat(m.tvaCollected ?? '0')
+              const recoverable = parseFloat(m.tvaRecoverable ?? '0')
+              const net = parseFloat(m.amountDue)
+              const creditCarried = parseFloat(m.creditCarriedForward ?? '0')
+              const hasData = m.kind === 'installment' || collected > 0 || recoverable > 0 || creditCarried > 0
 
               const getPaymentStatusBadge = () => {
                 if (net <= 0) {
@@ -341,21 +465,29 @@ export default function TVA() {
 
               return (
                 <tr
-                  key={m.month}
+                  key={m.key}
                   className={[
                     'h-11 border-b border-(--border-default)',
                     index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)',
                     !hasData ? 'text-base-content/40' : '',
                   ].join(' ').trim()}
                 >
-                  <td className="px-4 text-sm font-medium text-(--text-primary)">{formatMonth(m.month)}</td>
+                  <td className="px-4 text-sm font-medium text-(--text-primary)">
+                    {m.label}
+                    <span className="ml-2 text-xs font-normal text-(--text-secondary)">avant le {formatDate(m.dueDate)}</span>
+                  </td>
                   <td className="px-4 text-right font-mono text-sm text-(--text-primary)">{collected > 0 ? formatCurrency(collected) : '-'}</td>
                   <td className="px-4 text-right font-mono text-sm text-(--color-success)">{recoverable > 0 ? formatCurrency(recoverable) : '-'}</td>
                   <td className="px-4 text-right font-mono text-sm">
                     {hasData ? (
-                      <span className={net > 0 ? 'text-(--color-warning)' : 'text-(--color-success)'}>
-                        {formatCurrency(Math.round(net))}
-                      </span>
+                      <>
+                        <span className={net > 0 ? 'text-(--color-warning)' : 'text-(--color-success)'}>
+                          {formatCurrency(Math.round(net))}
+                        </span>
+                        {creditCarried > 0 && (
+                          <span className="block text-[10px] text-(--text-secondary)">dont crédit reporté -{formatCurrency(creditCarried)}</span>
+                        )}
+                      </>
                     ) : (
                       '-'
                     )}
@@ -1,7 +1,10 @@
 import { useState } from 'react'
-import { useTvaDeclaration } from '../hooks/useTva'
-import { ChevronDown, ChevronUp, Info } from 'lucide-react'
+import { useTvaDeclaration, useFileTvaDeclaration, useUnfileTvaDeclaration, useTvaFilingRegime } from '../hooks/useTva'
+import { AppButton } from '../components/ui/AppButton'
+import { Check, ChevronDown, ChevronUp, Info } from 'lucide-react'
 import { MonthSelect } from '../components/PeriodSelect'
+import { receiptCa3Line, tvaRegimeLabels } from '../utils/tvaRegimes'
+import type { Ca3RateLineCode, TvaFilingRegime } from '@shared/types'
 
 function formatCurrency(amount: number | string): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount
@@ -25,6 +28,33 @@ function getCurrentMonth(): string {
   return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`
 }
 
+// Return covering a month under the regime of its year
+function periodKeyOf(month: string, regime: TvaFilingRegime): string {
+  const [year, monthNum] = month.split('-').map(Number)
+  if (regime === 'annual') return `${year}`
+  if (regime === 'quarterly') return `${year}-T${Math.ceil(monthNum / 3)}`
+  return month
+}
+
+const rateLineLabels: Record<Ca3RateLineCode, string> = {
+  '08': 'Taux normal 20 %',
+  '9B': 'Taux réduit 10 %',
+  '09': 'Taux réduit 5,5 %',
+  '14': 'Taux particulier 2,1 % (annexe 3310 A)',
+}
+
+const amountInputClass =
+  'h-8 w-32 rounded-lg border border-(--border-default) bg-(--card-bg) px-3 text-right text-sm text-(--text-primary) outline-none focus:border-(--color-primary)'
+
+function Ca3Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="flex flex-col gap-3">
+      <h2 className="text-[11px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">{title}</h2>
+      {children}
+    </section>
+  )
+}
+
 interface CollapsibleSectionProps {
   title: string
   count: number
@@ -137,21 +167,125 @@ function SummaryCard({ label, value, description, tone }: SummaryCardProps) {
 export default function TvaDeclaration() {
   const [selectedMonth, setSelectedMonth] = useState(getCurrentMonth())
 
-  const { data: declaration, isLoading, error } = useTvaDeclaration(selectedMonth)
+  const [refundRequested, setRefundRequested] = useState('')
+  const [fileMessage, setFileMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const { data: regimeSetting } = useTvaFilingRegime(parseInt(selectedMonth.split('-')[0]))
+  const period = regimeSetting ? periodKeyOf(selectedMonth, regimeSetting.regime) : ''
+  const { data: declaration, isLoading, error } = useTvaDeclaration(period, parseFloat(refundRequested) || 0)
+  const fileMutation = useFileTvaDeclaration()
+  const unfileMutation = useUnfileTvaDeclaration()
+
+  const handleMonthChange = (month: string) => {
+    setSelectedMonth(month)
+    setRefundRequested('')
+    setFileMessage(null)
+  }
+
+  const handleFile = async () => {
+    setFileMessage(null)
+    try {
+      const result = await fileMutation.mutateAsync({ period, refundRequested: parseFloat(refundRequested) || 0 })
+      setFileMessage({
+        type: 'success',
+        text: parseFloat(result.balance) > 0
+          ? `Déclaration enregistrée : ${formatCurrency(result.balance)} de crédit reporté sur la prochaine déclaration`
+          : 'Déclaration enregistrée',
+      })
+    } catch (err) {
+      setFileMessage({ type: 'error', text: err instanceof Error ? err.message : 'Une erreur est survenue' })
+    }
+  }
+
+  const handleUnfile = async () => {
+    setFileMessage(null)
+    try {
+      await unfileMutation.mutateAsync(period)
+      setRefundRequested('')
+    } catch (err) {
+      setFileMessage({ type: 'error', text: err instanceof Error ? err.message : 'Une erreur est survenue' })
+    }
+  }
 
   const currentYear = new Date().getFullYear()
+  const installmentsTotal = declaration?.installments.reduce((sum, installment) => sum + installment.amount, 0) ?? 0
 
   return (
     <div className="flex flex-col gap-7">
       <div className="flex flex-wrap items-center justify-between gap-4">
-        <h1 className="text-3xl font-semibold tracking-tight text-(--text-primary)">Assistant Declaration TVA</h1>
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight text-(--text-primary)">Assistant Declaration TVA</h1>
+          {declaration && (
+            <p className="text-sm text-(--text-secondary)">
+              {declaration.period.form} · {declaration.period.label} · à déposer avant le {formatDate(declaration.period.dueDate)}
+            </p>
+          )}
+        </div>
         <MonthSelect
           value={selectedMonth}
-          onChange={setSelectedMonth}
+          onChange={handleMonthChange}
           years={[currentYear + 1, currentYear, currentYear - 1, currentYear - 2]}
         />
       </div>
 
+      <div className="flex flex-wrap items-end gap-4 rounded-[10px] border border-(--border-default) bg-(--card-bg) px-5 py-4">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-(--text-primary)">Case 26 : remboursement demandé</span>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            className={amountInputClass}
+            value={declaration?.filed ? declaration.cases.case26 : refundRequested}
+            onChange={(e) => setRefundRequested(e.target.value)}
+            placeholder="0"
+            disabled={declaration?.filed}
+          />
+        </label>
+        <p className="max-w-md flex-1 text-xs text-(--text-secondary)">
+          Le crédit des déclarations enregistrées est reporté automatiquement en case 22. Le remboursement (formulaire 3519)
+          est possible à partir de 760 € de crédit, 150 € sur la dernière déclaration de l'année.
+        </p>
+        {declaration?.filed ? (
+          <div className="flex items-center gap-3">
+            <span className="inline-flex h-6 items-center gap-1 rounded-full bg-[#ECFDF5] px-2.5 text-xs font-semibold text-[#16A34A]">
+              <Check className="h-3.5 w-3.5" />
+              Enregistrée
+            </span>
+            <AppButton variant="outline" onClick={handleUnfile} disabled={unfileMutation.isPending}>
+              Annuler l&apos;enregistrement
+            </AppButton>
+          </div>
+        ) : (
+          <AppButton onClick={handleFile} disabled={!declaration || fileMutation.isPending}>
+            Enregistrer la déclaration
+          </AppButton>
+        )}
+      </div>
+
+      {declaration?.refundMismatch && (
+        <div className="alert alert-warning">
+          <span>
+            {declaration.refundMismatch}. Annulez l&apos;enregistrement pour corriger le remboursement de cette période.
+          </span>
+        </div>
+      )}
+
+      {declaration?.unfiledPrevious && declaration.unfiledPrevious.creditCarriedForward !== declaration.cases.case22 && (
+        <div className="alert alert-warning">
+          <span>
+            La déclaration de {declaration.unfiledPrevious.label} n&apos;est pas enregistrée : la case 22 passera de{' '}
+            {formatCurrency(declaration.cases.case22)} à {formatCurrency(declaration.unfiledPrevious.creditCarriedForward)} une fois
+            celle-ci enregistrée.
+          </span>
+        </div>
+      )}
+
+      {fileMessage && (
+        <div className={`alert ${fileMessage.type === 'success' ? 'alert-success' : 'alert-error'}`}>
+          <span>{fileMessage.text}</span>
+        </div>
+      )}
+
       {isLoading && (
         <div className="flex justify-center py-12">
           <span className="loading loading-spinner loading-lg"></span>
@@ -160,68 +294,189 @@ export default function TvaDeclaration() {
 
       {error && (
         <div className="alert alert-error">
-          <span>Erreur lors du chargement des donnees</span>
+          <span>{error instanceof Error ? error.message : 'Erreur lors du chargement des donnees'}</span>
         </div>
       )}
 
       {declaration && (
         <>
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
-            <CaseCard
-              label="Case A1"
-              value={formatCurrency(declaration.cases.A1)}
-              description="CA encaisse HT"
-            />
-            <CaseCard
-              label="Case B2"
-              value={formatCurrency(declaration.cases.B2)}
-              description="Achats intra-UE"
-            />
-            <CaseCard
-              label="Case 08"
-              value={formatCurrency(declaration.cases.case08)}
-              description="Base HT 20%"
-              variant="primary"
-            />
-          </div>
+          <Ca3Section title="A. Montant des opérations réalisées">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              <CaseCard
+                label="Case A1"
+                value={formatCurrency(declaration.cases.A1)}
+                description="Ventes, prestations de services"
+              />
+              <CaseCard
+                label="Case B2"
+                value={formatCurrency(declaration.cases.B2)}
+                description="Acquisitions intracommunautaires"
+              />
+              <CaseCard
+                label="Case E1"
+                value={formatCurrency(declaration.cases.E1)}
+                description="Exportations hors UE"
+              />
+              <CaseCard
+                label="Case E2"
+                value={formatCurrency(declaration.cases.E2)}
+                description="Services intra-UE et hors UE"
+              />
+              <CaseCard
+                label="Case F2"
+                value={formatCurrency(declaration.cases.F2)}
+                description="Livraisons intracommunautaires"
+              />
+            </div>
+          </Ca3Section>
 
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
-            <CaseCard
-              label="Case 17"
-              value={formatCurrency(declaration.cases.case17)}
-              description="TVA intra-UE"
-            />
-            <CaseCard
-              label="Case 19"
-              value={formatCurrency(declaration.cases.case19)}
-              description="TVA immobilisations"
-              variant="success"
-            />
-            <CaseCard
-              label="Case 20"
-              value={formatCurrency(declaration.cases.case20)}
-              description="Autre TVA deductible"
-              variant="success"
-            />
-          </div>
+          <Ca3Section title="B. TVA brute">
+            <div className="overflow-x-auto rounded-[10px] border border-(--border-default) bg-(--card-bg)">
+              <table className="w-full min-w-140">
+                <thead className="h-9 border-b border-(--border-default) bg-(--color-base-200)">
+                  <tr>
+                    <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Ligne</th>
+                    <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Taux</th>
+                    <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Base HT</th>
+                    <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Taxe due</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {declaration.cases.rateLines.map((line, index) => (
+                    <tr key={line.line} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
+                      <td className="px-5 text-sm font-semibold text-(--text-primary)">{line.line}</td>
+                      <td className="px-5 text-sm text-(--text-secondary)">{rateLineLabels[line.line]}</td>
+                      <td className="px-5 text-right text-sm text-(--text-primary)">{formatCurrency(line.baseHt)}</td>
+                      <td className="px-5 text-right text-sm font-medium text-(--text-primary)">{formatCurrency(line.tva)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <CaseCard
+                label="Case 16"
+                value={formatCurrency(declaration.cases.case16)}
+                description="Total de la TVA brute due"
+                variant="primary"
+              />
+              <CaseCard
+                label="Case 17"
+                value={formatCurrency(declaration.cases.case17)}
+                description="Dont TVA sur acquisitions intracommunautaires"
+              />
+            </div>
+          </Ca3Section>
+
+          <Ca3Section title="TVA déductible">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+              <CaseCard
+                label="Case 19"
+                value={formatCurrency(declaration.cases.case19)}
+                description="Biens constituant des immobilisations"
+                variant="success"
+              />
+              <CaseCard
+                label="Case 20"
+                value={formatCurrency(declaration.cases.case20)}
+                description="Autres biens et services"
+                variant="success"
+              />
+              <CaseCard
+                label="Case 22"
+                value={formatCurrency(declaration.cases.case22)}
+                description="Crédit reporté des déclarations enregistrées"
+                variant="success"
+              />
+              <CaseCard
+                label="Case 23"
+                value={formatCurrency(declaration.cases.case23)}
+                description="Total TVA déductible"
+                variant="primary"
+              />
+            </div>
+          </Ca3Section>
+
+          <Ca3Section title="Crédit et taxe à payer">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+              <CaseCard
+                label="Case 25"
+                value={formatCurrency(declaration.cases.case25)}
+                description="Crédit de TVA (23 - 16)"
+              />
+              <CaseCard
+                label="Case 26"
+                value={formatCurrency(declaration.cases.case26)}
+                description="Remboursement demandé (3519)"
+              />
+              <CaseCard
+                label="Case 27"
+                value={formatCurrency(declaration.cases.case27)}
+                description="Crédit à reporter"
+                variant="success"
+              />
+              <CaseCard
+                label="Case 28"
+                value={formatCurrency(declaration.cases.case28)}
+                description="TVA nette due (16 - 23)"
+                variant="primary"
+              />
+            </div>
+          </Ca3Section>
+
+          {declaration.period.form === 'CA12' && (
+            <Ca3Section title="Acomptes (CA12)">
+              {declaration.installments.length === 0 ? (
+                <p className="text-sm text-(--text-secondary)">
+                  Pas d&apos;acompte : la TVA de l&apos;année précédente est inférieure à 1 000 €.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                  {declaration.installments.map((installment) => (
+                    <CaseCard
+                      key={installment.key}
+                      label={installment.label}
+                      value={formatCurrency(installment.amount)}
+                      description={`${installment.rate} % de la TVA de l'année précédente, avant le ${formatDate(installment.dueDate)}`}
+                    />
+                  ))}
+                  {declaration.cases.case28 >= installmentsTotal ? (
+                    <CaseCard
+                      label="Solde à payer"
+                      value={formatCurrency(declaration.cases.case28 - installmentsTotal)}
+                      description="TVA nette due moins les acomptes"
+                      variant="primary"
+                    />
+                  ) : (
+                    <CaseCard
+                      label="Excédent d'acomptes"
+                      value={formatCurrency(installmentsTotal - declaration.cases.case28)}
+                      description="Reporté en crédit de TVA à l'enregistrement"
+                      variant="success"
+                    />
+                  )}
+                </div>
+              )}
+            </Ca3Section>
+          )}
 
           <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
             <SummaryCard
-              label="TVA COLLECTEE"
+              label="TVA BRUTE"
               value={formatCurrency(declaration.summary.tvaCollected)}
-              description="20% de case 08"
+              description="Case 16"
               tone="warning"
             />
             <SummaryCard
               label="TVA DEDUCTIBLE"
               value={formatCurrency(declaration.summary.tvaDeductible)}
-              description="Case 19 + Case 20"
+              description="Case 23"
               tone="success"
             />
             <SummaryCard
               label="TVA NETTE"
               value={formatCurrency(Math.abs(declaration.summary.tvaNet))}
-              description={declaration.summary.tvaNet >= 0 ? 'A payer' : 'Credit de TVA'}
+              description={declaration.summary.tvaNet >= 0 ? 'A payer (case 28)' : 'Credit de TVA (case 25)'}
               tone={declaration.summary.tvaNet >= 0 ? 'error' : 'success'}
             />
           </div>
@@ -231,11 +486,11 @@ export default function TvaDeclaration() {
             <CollapsibleSection
               title="Encaissements"
               count={declaration.details.invoicesPaid.length}
-              total={formatCurrency(declaration.cases.A1)}
+              total={formatCurrency(declaration.cases.A1 + declaration.cases.E1 + declaration.cases.E2 + declaration.cases.F2)}
               defaultOpen={true}
             >
               {declaration.details.invoicesPaid.length === 0 ? (
-                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucun encaissement ce mois</p>
+                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucun encaissement sur la période</p>
               ) : (
                 <div className="overflow-x-auto">
                   <table className="w-full min-w-160">
@@ -243,6 +498,7 @@ export default function TvaDeclaration() {
                       <tr>
                         <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Client</th>
                         <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Date paiement</th>
+                        <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Case</th>
                         <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Montant HT</th>
                       </tr>
                     </thead>
@@ -251,6 +507,7 @@ export default function TvaDeclaration() {
                         <tr key={inv.id} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
                           <td className="px-5 text-sm text-(--text-primary)">{inv.client}</td>
                           <td className="px-5 text-right text-sm text-(--text-secondary)">{inv.paymentDate ? formatDate(inv.paymentDate) : '-'}</td>
+                          <td className="px-5 text-right text-sm text-(--text-secondary)" title={tvaRegimeLabels[inv.tvaRegime]}>{receiptCa3Line(inv.tvaRegime, inv.activityType)}</td>
                           <td className="px-5 text-right text-sm font-medium text-(--text-primary)">{formatCurrency(parseFloat(inv.amountHt))}</td>
                         </tr>
                       ))}
@@ -266,7 +523,7 @@ export default function TvaDeclaration() {
               total={formatCurrency(declaration.cases.B2)}
             >
               {declaration.details.expensesIntraEu.length === 0 ? (
-                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucun achat intra-UE ce mois</p>
+                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucun achat intra-UE sur la période</p>
               ) : (
                 <div className="overflow-x-auto">
                   <table className="w-full min-w-160">
@@ -274,14 +531,16 @@ export default function TvaDeclaration() {
                       <tr>
                         <th className="px-5 text-left text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Description</th>
                         <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Date</th>
+                        <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Taux</th>
                         <th className="px-5 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-(--text-tertiary)">Montant HT</th>
                       </tr>
                     </thead>
                     <tbody>
                       {declaration.details.expensesIntraEu.map((exp, index) => (
-                        <tr key={exp.id} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
+                        <tr key={`${exp.id}-${exp.date}`} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
                           <td className="px-5 text-sm text-(--text-primary)">{exp.description}</td>
                           <td className="px-5 text-right text-sm text-(--text-secondary)">{formatDate(exp.date)}</td>
+                          <td className="px-5 text-right text-sm text-(--text-secondary)">{parseFloat(exp.reverseChargeRate)} %</td>
                           <td className="px-5 text-right text-sm font-medium text-(--text-primary)">{formatCurrency(parseFloat(exp.amountHt))}</td>
                         </tr>
                       ))}
@@ -297,7 +556,7 @@ export default function TvaDeclaration() {
               total={formatCurrency(declaration.cases.case19)}
             >
               {declaration.details.expensesOver500.length === 0 ? (
-                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucune immobilisation ce mois</p>
+                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucune immobilisation sur la période</p>
               ) : (
                 <div className="overflow-x-auto">
                   <table className="w-full min-w-190">
@@ -314,7 +573,7 @@ export default function TvaDeclaration() {
                       {declaration.details.expensesOver500.map((exp, index) => {
                         const recoverable = parseFloat(exp.taxAmount) * parseFloat(exp.taxRecoveryRate) / 100
                         return (
-                          <tr key={exp.id} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
+                          <tr key={`${exp.id}-${exp.date}`} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
                             <td className="px-5 text-sm text-(--text-primary)">{exp.description}</td>
                             <td className="px-5 text-right text-sm text-(--text-secondary)">{formatDate(exp.date)}</td>
                             <td className="px-5 text-right text-sm font-medium text-(--text-primary)">{formatCurrency(parseFloat(exp.amountHt))}</td>
@@ -332,10 +591,13 @@ export default function TvaDeclaration() {
             <CollapsibleSection
               title="Autres depenses avec TVA"
               count={declaration.details.expensesWithTva.length}
-              total={formatCurrency(declaration.cases.case20 - declaration.cases.case17)}
+              total={formatCurrency(declaration.details.expensesWithTva.reduce(
+                (sum, exp) => sum + parseFloat(exp.taxAmount) * parseFloat(exp.taxRecoveryRate) / 100,
+                0
+              ))}
             >
               {declaration.details.expensesWithTva.length === 0 ? (
-                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucune autre depense avec TVA ce mois</p>
+                <p className="px-5 py-4 text-sm text-(--text-secondary)">Aucune autre depense avec TVA sur la période</p>
               ) : (
                 <div className="overflow-x-auto">
                   <table className="w-full min-w-190">
@@ -352,7 +614,7 @@ export default function TvaDeclaration() {
                       {declaration.details.expensesWithTva.map((exp, index) => {
                         const recoverable = parseFloat(exp.taxAmount) * parseFloat(exp.taxRecoveryRate) / 100
                         return (
-                          <tr key={exp.id} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
+                          <tr key={`${exp.id}-${exp.date}`} className={`h-10 ${index % 2 === 1 ? 'bg-(--color-base-200)/45' : ''}`}>
                             <td className="px-5 text-sm text-(--text-primary)">{exp.description}</td>
                             <td className="px-5 text-right text-sm text-(--text-secondary)">{formatDate(exp.date)}</td>
                             <td className="px-5 text-right text-sm font-medium text-(--text-primary)">{formatCurrency(parseFloat(exp.amountHt))}</td>
@@ -373,8 +635,9 @@ export default function TvaDeclaration() {
                 <div>
                   <p className="text-[13px] font-semibold text-[#3B82F6]">Note sur le calcul</p>
                   <p className="mt-1 text-xs leading-5 text-[#3B82F6]/80">
-                    Case 20 inclut la TVA auto-liquidee (case 17) pour neutraliser l&apos;effet des achats intra-UE.
-                    Les montants sont arrondis a l&apos;euro le plus proche.
+                    Les achats intra-UE sont auto-liquides a leur taux (lignes 08 a 14, dont case 17) et la TVA
+                    correspondante est deduite en case 20. Chaque case est arrondie a l&apos;euro le plus proche et les totaux
+                    additionnent les cases arrondies.
                   </p>
                 </div>
               </div>
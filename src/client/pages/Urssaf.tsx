@@ -4,16 +4,22 @@ import {
   useCreateUrssafPayment,
   useUpdateUrssafPayment,
   useDeleteUrssafPayment,
+  useUrssafPeriodicity,
+  useSetUrssafPeriodicity,
 } from '../hooks/useUrssaf'
-import type { UrssafPayment, CreateUrssafPaymentInput } from '@shared/types'
+import { useIncomeTaxOptions, useSetIncomeTaxOptions } from '../hooks/useSettings'
+import type { UrssafPayment, CreateUrssafPaymentInput, UrssafPeriodicity } from '@shared/types'
 import { Check, Pencil, Trash2, X } from 'lucide-react'
 import { ConfirmDialog } from '../components/ConfirmDialog'
 import { YearSelect, YEARS } from '../components/PeriodSelect'
 import { useSnackbar } from '../contexts/SnackbarContext'
 import { AppButton } from '../components/ui/AppButton'
 import { Select } from '../components/ui/Select'
+import { Switch } from '../components/ui/Switch'
 import { DataTable, type DataTableColumn } from '../components/ui/DataTable'
 import { KpiCard } from '../components/ui/KpiCard'
+import { activityTypeLabels } from '../utils/activityTypes'
+import { urssafComponentLabels } from '../utils/urssafComponents'
 
 function formatCurrency(amount: string | number): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount
@@ -32,18 +38,40 @@ const trimesterLabels: Record<number, string> = {
   4: 'T4 (Oct-Déc)',
 }
 
-const trimesterOptions = [1, 2, 3, 4].map((trimester) => ({
-  value: trimester.toString(),
-  label: trimesterLabels[trimester],
-}))
+const monthLabels = [
+  'Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin',
+  'Juillet', 'Août', 'Septembre', 'Octobre', 'Novembre', 'Décembre',
+]
+
+// Trimesters or months, the value being the trimester (1-4) or the month (1-12)
+const periodOptions: Record<UrssafPeriodicity, { value: string; label: string }[]> = {
+  quarterly: [1, 2, 3, 4].map((trimester) => ({
+    value: trimester.toString(),
+    label: trimesterLabels[trimester],
+  })),
+  monthly: monthLabels.map((label, index) => ({
+    value: (index + 1).toString(),
+    label,
+  })),
+}
+
+const periodicityOptions: { value: UrssafPeriodicity; label: string }[] = [
+  { value: 'quarterly', label: 'Déclaration trimestrielle' },
+  { value: 'monthly', label: 'Déclaration mensuelle' },
+]
 
 const statusOptions = [
   { value: 'pending', label: 'En attente' },
   { value: 'paid', label: 'Payé' },
 ]
 
-const quarterlyColumns: DataTableColumn[] = [
-  { key: 'trimester', label: 'Trimestre', className: 'w-34' },
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('fr-FR')
+}
+
+const periodColumns: DataTableColumn[] = [
+  { key: 'period', label: 'Période', className: 'w-34' },
+  { key: 'due-date', label: 'Échéance', className: 'w-28 text-center' },
   { key: 'actual-revenue', label: 'CA réel', className: 'w-34 text-right' },
   { key: 'estimated', label: 'Cotisation estimée', className: 'w-40 text-right' },
   { key: 'declared', label: 'Cotisation déclarée', className: 'w-40 text-right' },
@@ -52,7 +80,7 @@ const quarterlyColumns: DataTableColumn[] = [
 ]
 
 interface UrssafFormData {
-  trimester: string
+  period: string // Trimester or month depending on the periodicity
   year: string
   revenue: string
   amount: string
@@ -63,7 +91,7 @@ interface UrssafFormData {
 }
 
 const defaultFormData: UrssafFormData = {
-  trimester: '1',
+  period: '1',
   year: currentYear.toString(),
   revenue: '',
   amount: '',
@@ -84,17 +112,32 @@ export default function Urssaf() {
   const { showSuccess, showError } = useSnackbar()
 
   const { data: summary, isLoading: isLoadingSummary } = useUrssafSummary(selectedYear)
+  const { data: periodicitySetting } = useUrssafPeriodicity(selectedYear)
+  const setPeriodicityMutation = useSetUrssafPeriodicity()
+  const { data: incomeTaxOptions } = useIncomeTaxOptions(selectedYear)
+  const setIncomeTaxOptionsMutation = useSetIncomeTaxOptions()
 
   const createMutation = useCreateUrssafPayment()
   const updateMutation = useUpdateUrssafPayment()
   const deleteMutation = useDeleteUrssafPayment()
 
-  const openCreateModal = (trimester?: number) => {
+  const periodicity = summary?.periodicity ?? 'quarterly'
+  // An existing payment keeps the periodicity it was declared under
+  const formPeriodicity: UrssafPeriodicity = editingPayment
+    ? editingPayment.month !== null ? 'monthly' : 'quarterly'
+    : periodicity
+
+  const openCreateModal = (periodKey?: string) => {
+    // Declaring a period starts from its actual revenue and the estimate of each activity
+    const periodData = summary?.periods.find((p) => p.key === periodKey)
+    const hasRevenue = periodData !== undefined && parseFloat(periodData.actualRevenue) > 0
     setEditingPayment(null)
     setFormData({
       ...defaultFormData,
-      trimester: trimester?.toString() || '1',
+      period: periodData ? (periodData.month ?? periodData.trimester).toString() : '1',
       year: selectedYear.toString(),
+      revenue: hasRevenue ? periodData.actualRevenue : '',
+      amount: hasRevenue ? periodData.estimatedAmount : '',
     })
     setError('')
     setIsModalOpen(true)
@@ -103,7 +146,7 @@ export default function Urssaf() {
   const openEditModal = (payment: UrssafPayment) => {
     setEditingPayment(payment)
     setFormData({
-      trimester: payment.trimester.toString(),
+      period: (payment.month ?? payment.trimester).toString(),
       year: payment.year.toString(),
       revenue: payment.revenue,
       amount: payment.amount,
@@ -128,7 +171,9 @@ export default function Urssaf() {
     setError('')
 
     const data: CreateUrssafPaymentInput = {
-      trimester: parseInt(formData.trimester),
+      ...(formPeriodicity === 'monthly'
+        ? { month: parseInt(formData.period) }
+        : { trimester: parseInt(formData.period) }),
       year: parseInt(formData.year),
       revenue: parseFloat(formData.revenue),
       amount: parseFloat(formData.amount),
@@ -152,6 +197,26 @@ export default function Urssaf() {
     }
   }
 
+  const handlePeriodicityChange = async (value: UrssafPeriodicity) => {
+    try {
+      await setPeriodicityMutation.mutateAsync({ year: selectedYear, periodicity: value })
+      showSuccess(`Périodicité Urssaf ${selectedYear} enregistrée`)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
+  const handleVersementLiberatoireChange = async (versementLiberatoire: boolean) => {
+    try {
+      await setIncomeTaxOptionsMutation.mutateAsync({ year: selectedYear, versementLiberatoire })
+      showSuccess(versementLiberatoire
+        ? `Versement libératoire activé pour ${selectedYear}`
+        : `Versement libératoire désactivé pour ${selectedYear}`)
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Une erreur est survenue')
+    }
+  }
+
   const handleDelete = async (id: string) => {
     try {
       await deleteMutation.mutateAsync(id)
@@ -166,10 +231,10 @@ export default function Urssaf() {
     setFormData((prev) => {
       const updated = { ...prev, [field]: value }
 
-      // Auto-calculate amount when revenue changes using the rate from summary
+      // Auto-calculate amount when revenue changes using the rate from summary, all components included
       if (field === 'revenue' && summary) {
         const revenue = parseFloat(value) || 0
-        const calculatedAmount = revenue * (summary.urssafRate / 100)
+        const calculatedAmount = revenue * (summary.contributionRate / 100)
         updated.amount = calculatedAmount.toFixed(2)
       }
 
@@ -179,7 +244,7 @@ export default function Urssaf() {
 
   const parsedRevenue = parseFloat(formData.revenue) || 0
   const parsedAmount = parseFloat(formData.amount) || 0
-  const urssafRate = summary?.urssafRate || 22
+  const urssafRate = summary?.contributionRate || 22
   const calculatedAmount = parsedRevenue * (urssafRate / 100)
   const modalTitle = editingPayment ? 'Modifier la cotisation Urssaf' : 'Nouvelle cotisation Urssaf'
   const submitLabel = editingPayment ? 'Enregistrer' : 'Déclarer'
@@ -194,6 +259,20 @@ export default function Urssaf() {
 
         <div className="flex flex-wrap items-center gap-3">
           <YearSelect value={selectedYear} onChange={setSelectedYear} />
+          <Select
+            className="w-56"
+            value={periodicitySetting?.periodicity ?? 'quarterly'}
+            onChange={(e) => handlePeriodicityChange(e.target.value as UrssafPeriodicity)}
+            options={periodicityOptions}
+            disabled={!periodicitySetting || setPeriodicityMutation.isPending}
+            aria-label="Périodicité de déclaration"
+          />
+          <Switch
+            checked={incomeTaxOptions?.versementLiberatoire ?? false}
+            onChange={(e) => handleVersementLiberatoireChange(e.target.checked)}
+            disabled={!incomeTaxOptions || setIncomeTaxOptionsMutation.isPending}
+            label="Versement libératoire"
+          />
           <AppButton
             className="shadow-[0_8px_20px_-12px_rgba(37,99,235,0.75)]"
             onClick={() => openCreateModal()}
@@ -232,10 +311,30 @@ export default function Urssaf() {
         />
       </div>
 
-      {/* Quarterly Breakdown */}
+      {/* Estimated contributions of the year, component by component */}
+      {summary && summary.components.length > 0 && (
+        <section className="flex flex-wrap gap-x-8 gap-y-2 rounded-[10px] border border-(--border-default) bg-(--card-bg) px-6 py-4 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
+          {summary.components.map((component) => (
+            <div key={component.component}>
+              <p className="text-[11px] font-semibold text-(--text-tertiary)">{urssafComponentLabels[component.component]}</p>
+              <p className="font-mono text-sm font-semibold text-(--text-primary)">{formatCurrency(component.total)}</p>
+            </div>
+          ))}
+          {summary.acre && (
+            <div>
+              <p className="text-[11px] font-semibold text-(--text-tertiary)">ACRE</p>
+              <p className="text-sm text-(--text-primary)">
+                -{summary.acre.reduction}% jusqu'au {formatDate(summary.acre.endDate)}
+              </p>
+            </div>
+          )}
+        </section>
+      )}
+
+      {/* Breakdown per declaration period */}
       <section className="space-y-3">
         <h2 className="font-['Space_Grotesk'] text-base font-semibold text-(--text-primary)">
-          Cotisations trimestrielles {selectedYear}
+          Cotisations {periodicity === 'monthly' ? 'mensuelles' : 'trimestrielles'} {selectedYear}
         </h2>
 
         {isLoadingSummary ? (
@@ -244,7 +343,7 @@ export default function Urssaf() {
           </div>
         ) : (
           <DataTable
-            columns={quarterlyColumns}
+            columns={periodColumns}
             minWidthClassName=""
             tableClassName="mx-auto w-full"
             footer={(
@@ -252,14 +351,15 @@ export default function Urssaf() {
                 <td className="px-4 text-sm font-semibold text-(--text-primary)">
                   Total {selectedYear}
                 </td>
+                <td />
                 <td className="px-4 text-right font-mono text-sm font-semibold text-(--text-primary)">
                   {formatCurrency(
-                    summary?.trimesters.reduce((acc, t) => acc + parseFloat(t.actualRevenue), 0) || 0,
+                    summary?.periods.reduce((acc, p) => acc + parseFloat(p.actualRevenue), 0) || 0,
                   )}
                 </td>
                 <td className="px-4 text-right font-mono text-sm font-semibold text-(--text-secondary)">
                   {formatCurrency(
-                    summary?.trimesters.reduce((acc, t) => acc + parseFloat(t.estimatedAmount), 0) || 0,
+                    summary?.periods.reduce((acc, p) => acc + parseFloat(p.estimatedAmount), 0) || 0,
                   )}
                 </td>
                 <td className="px-4 text-right font-mono text-sm font-semibold text-(--text-primary)">
@@ -269,42 +369,57 @@ export default function Urssaf() {
               </tr>
             )}
           >
-            {summary?.trimesters.map((trimester, index) => {
-              const hasPayment = trimester.payment !== null
-              const actualRevenue = parseFloat(trimester.actualRevenue)
-              const estimatedAmount = parseFloat(trimester.estimatedAmount)
+            {summary?.periods.map((period, index) => {
+              const hasPayment = period.payment !== null
+              const actualRevenue = parseFloat(period.actualRevenue)
+              const estimatedAmount = parseFloat(period.estimatedAmount)
 
               return (
                 <tr
-                  key={trimester.trimester}
+                  key={period.key}
                   className={[
                     'h-12 border-b border-(--border-default)',
                     index % 2 === 1 ? 'bg-(--color-base-200)/45' : 'bg-(--card-bg)',
                   ].join(' ')}
                 >
                   <td className="px-4 text-sm font-semibold text-(--text-primary)">
-                    {trimesterLabels[trimester.trimester]}
+                    {period.month !== null ? monthLabels[period.month - 1] : trimesterLabels[period.trimester]}
+                  </td>
+                  <td className="px-4 text-center text-sm text-(--text-secondary)">
+                    {formatDate(period.dueDate)}
                   </td>
                   <td className="px-4 text-right font-mono text-sm text-(--text-primary)">
                     {actualRevenue > 0 ? formatCurrency(actualRevenue) : '-'}
                   </td>
                   <td className="px-4 text-right font-mono text-sm text-(--text-secondary)">
                     {estimatedAmount > 0 ? formatCurrency(estimatedAmount) : '-'}
+                    {estimatedAmount > 0 && period.components.map((component) => (
+                      <p key={component.component} className="font-sans text-[10px] text-(--text-tertiary)">
+                        {urssafComponentLabels[component.component]}
+                        {component.component === 'social' && period.acreReduction > 0 ? ` (ACRE -${period.acreReduction}%)` : ''}
+                        {' '}: {formatCurrency(component.total)}
+                      </p>
+                    ))}
+                    {period.activities.length > 1 && period.activities.map((line) => (
+                      <p key={line.activityType} className="font-sans text-[10px] text-(--text-tertiary)">
+                        {activityTypeLabels[line.activityType]} · {line.rate}% : {formatCurrency(line.amount)}
+                      </p>
+                    ))}
                   </td>
                   <td className="px-4 text-right font-mono text-sm font-semibold text-(--text-primary)">
-                    {hasPayment ? formatCurrency(trimester.payment!.amount) : '-'}
+                    {hasPayment ? formatCurrency(period.payment!.amount) : '-'}
                   </td>
                   <td className="px-4 text-center">
                     {hasPayment ? (
                       <span
                         className={[
                           'badge h-5.5 min-h-5.5 border-0 px-2 text-[10px] font-semibold',
-                          trimester.payment!.status === 'paid'
+                          period.payment!.status === 'paid'
                             ? 'bg-[#ECFDF5] text-[#16A34A]'
                             : 'bg-[#FFFBEB] text-[#B45309]',
                         ].join(' ')}
                       >
-                        {trimester.payment!.status === 'paid' ? 'Payé' : 'En attente'}
+                        {period.payment!.status === 'paid' ? 'Payé' : 'En attente'}
                       </span>
                     ) : (
                       <span className="badge h-5.5 min-h-5.5 border-0 bg-base-200 px-2 text-[10px] font-semibold text-(--text-secondary)">
@@ -318,21 +433,21 @@ export default function Urssaf() {
                         <>
                           <button
                             className="btn btn-ghost btn-xs h-6 min-h-6 w-6 p-0 text-(--text-secondary) hover:bg-transparent"
-                            onClick={() => openEditModal(trimester.payment!)}
+                            onClick={() => openEditModal(period.payment!)}
                             title="Modifier"
                           >
                             <Pencil className="h-4 w-4" />
                           </button>
                           <button
                             className="btn btn-ghost btn-xs h-6 min-h-6 w-6 p-0 text-error hover:bg-transparent"
-                            onClick={() => setDeleteConfirmId(trimester.payment!.id)}
+                            onClick={() => setDeleteConfirmId(period.payment!.id)}
                             title="Supprimer"
                           >
                             <Trash2 className="h-4 w-4" />
                           </button>
                         </>
                       ) : (
-                        <AppButton size="sm" onClick={() => openCreateModal(trimester.trimester)}>
+                        <AppButton size="sm" onClick={() => openCreateModal(period.key)}>
                           Déclarer
                         </AppButton>
                       )}
@@ -350,8 +465,12 @@ export default function Urssaf() {
       <section className="rounded-[10px] border border-(--border-default) bg-[#EEF2FF] px-6 py-5 shadow-[0_1px_4px_rgba(0,0,0,0.06)]">
         <h3 className="font-['Space_Grotesk'] text-base font-semibold text-[#4338CA]">Information</h3>
         <p className="mt-2 text-sm text-(--text-primary)">
-            Le <strong>CA réel</strong> est calculé automatiquement à partir des factures payées sur chaque trimestre.
-            La <strong>cotisation estimée</strong> est basée sur votre taux Urssaf ({summary?.urssafRate || 22}%).
+            Le <strong>CA réel</strong> est calculé automatiquement à partir des factures payées sur chaque période,
+            mois ou trimestre selon la périodicité choisie pour l'année. La déclaration est due le dernier jour du mois suivant la période.
+            La <strong>cotisation estimée</strong> applique à chaque activité son taux Urssaf ({summary?.urssafRate || 22}% pour votre activité principale),
+            réduit par l'ACRE le cas échéant, et y ajoute la formation professionnelle, la taxe pour frais de chambre
+            et le versement libératoire de l'impôt s'il est choisi pour l'année.
+            Le type d'activité de chaque facture se choisit sur la facture.
             Vous pouvez ajuster le montant lors de la déclaration si nécessaire.
         </p>
       </section>
@@ -373,7 +492,7 @@ export default function Urssaf() {
                   {modalTitle}
                 </h3>
                 <p className="mt-1 text-[13px] text-(--text-secondary)">
-                  Déclarez vos cotisations trimestrielles
+                  Déclarez vos cotisations {formPeriodicity === 'monthly' ? 'mensuelles' : 'trimestrielles'}
                 </p>
               </div>
 
@@ -397,12 +516,14 @@ export default function Urssaf() {
 
                 <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                   <div className="space-y-1.5">
-                    <label className="block text-[13px] font-medium text-(--text-primary)">Trimestre *</label>
+                    <label className="block text-[13px] font-medium text-(--text-primary)">
+                      {formPeriodicity === 'monthly' ? 'Mois *' : 'Trimestre *'}
+                    </label>
                     <Select
                       className="h-10"
-                      value={formData.trimester}
-                      onChange={(e) => updateFormField('trimester', e.target.value)}
-                      options={trimesterOptions}
+                      value={formData.period}
+                      onChange={(e) => updateFormField('period', e.target.value)}
+                      options={periodOptions[formPeriodicity]}
                       disabled={!!editingPayment}
                     />
                   </div>
@@ -506,7 +627,7 @@ export default function Urssaf() {
                     <span className="font-medium text-(--text-primary)">{formatCurrency(parsedRevenue)}</span>
                   </div>
                   <div className="flex items-center justify-between text-[13px]">
-                    <span className="text-(--text-secondary)">Taux Urssaf :</span>
+                    <span className="text-(--text-secondary)">Taux de cotisation :</span>
                     <span className="font-medium text-(--text-primary)">{urssafRate}%</span>
                   </div>
                   <div className="h-px w-full bg-(--border-default)" />
@@ -0,0 +1,12 @@
+import type { MicroActivityType } from '@shared/types'
+
+export const activityTypeLabels: Record<MicroActivityType, string> = {
+  bnc: 'Profession libérale (BNC)',
+  bic_services: 'Prestations de services (BIC)',
+  sales: 'Vente de marchandises (BIC)',
+}
+
+export const activityTypeOptions = (Object.keys(activityTypeLabels) as MicroActivityType[]).map((activityType) => ({
+  value: activityType,
+  label: activityTypeLabels[activityType],
+}))
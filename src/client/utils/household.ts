@@ -0,0 +1,31 @@
+import type { HouseholdIncomeCategory, MaritalStatus } from '@shared/types'
+
+export const maritalStatusLabels: Record<MaritalStatus, string> = {
+  single: 'Célibataire',
+  married: 'Marié(e)',
+  pacs: 'Pacsé(e)',
+  divorced: 'Divorcé(e) ou séparé(e)',
+  widowed: 'Veuf ou veuve',
+}
+
+export const maritalStatusOptions = (Object.keys(maritalStatusLabels) as MaritalStatus[]).map((status) => ({
+  value: status,
+  label: maritalStatusLabels[status],
+}))
+
+export const householdIncomeCategoryLabels: Record<HouseholdIncomeCategory, string> = {
+  salary: 'Salaires (déduction de 10 %)',
+  pension: 'Pensions et retraites (abattement de 10 %)',
+  rental: 'Revenus fonciers (micro-foncier, 30 %)',
+  furnished_rental: 'Location meublée (micro-BIC, 50 %)',
+  other: 'Autres revenus imposables',
+}
+
+export const householdIncomeCategoryOptions = (Object.keys(householdIncomeCategoryLabels) as HouseholdIncomeCategory[]).map((category) => ({
+  value: category,
+  label: householdIncomeCategoryLabels[category],
+}))
+
+export function isCouple(status: MaritalStatus): boolean {
+  return status === 'married' || status === 'pacs'
+}
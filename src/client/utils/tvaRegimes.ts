@@ -0,0 +1,40 @@
+import type { MicroActivityType, TvaRegime } from '@shared/types'
+
+export const tvaRegimeLabels: Record<TvaRegime, string> = {
+  domestic: 'France (TVA collectée)',
+  intra_eu: 'Autoliquidation intra-UE',
+  export: 'Export hors UE',
+  franchise: 'Franchise en base (art. 293 B)',
+}
+
+export const tvaRegimeOptions = (Object.keys(tvaRegimeLabels) as TvaRegime[]).map((regime) => ({
+  value: regime,
+  label: tvaRegimeLabels[regime],
+}))
+
+// CA3 line of the sales under each regime, mirroring the server routing: goods go to E1 / F2
+export function receiptCa3Line(regime: TvaRegime, activityType: MicroActivityType): string {
+  switch (regime) {
+    case 'domestic':
+      return 'A1'
+    case 'intra_eu':
+      return activityType === 'sales' ? 'F2' : 'E2'
+    case 'export':
+      return activityType === 'sales' ? 'E1' : 'E2'
+    default:
+      return '-'
+  }
+}
+
+const EU_COUNTRIES = new Set([
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+])
+
+// Regime implied by the issuer and client, used to pre-fill new invoices
+export function suggestTvaRegime(issuerTvaNumber: string | null | undefined, clientCountry: string | null | undefined): TvaRegime {
+  if (!issuerTvaNumber) return 'franchise'
+  const country = clientCountry ?? 'FR'
+  if (country === 'FR') return 'domestic'
+  return EU_COUNTRIES.has(country) ? 'intra_eu' : 'export'
+}
@@ -0,0 +1,19 @@
+import type { ChamberType, UrssafComponent } from '@shared/types'
+
+export const urssafComponentLabels: Record<UrssafComponent, string> = {
+  social: 'Cotisations sociales',
+  cfp: 'Formation professionnelle (CFP)',
+  versement_liberatoire: 'Versement libératoire',
+  chamber: 'Taxe pour frais de chambre',
+}
+
+export const chamberLabels: Record<ChamberType, string> = {
+  none: 'Aucune (profession libérale)',
+  cci: 'CCI (commerçant)',
+  cma: 'CMA (artisan)',
+}
+
+export const chamberOptions = (Object.keys(chamberLabels) as ChamberType[]).map((chamber) => ({
+  value: chamber,
+  label: chamberLabels[chamber],
+}))
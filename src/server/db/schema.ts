@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, timestamp, decimal, date, boolean, integer, index } from 'drizzle-orm/pg-core'
+import { pgTable, uuid, varchar, text, timestamp, decimal, date, boolean, integer, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core'
 
 // Users table
 export const users = pgTable('users', {
@@ -27,24 +27,171 @@ export const passkeys = pgTable('passkeys', {
   index('passkeys_credential_id_idx').on(table.credentialId),
 ])
 
-// Invoices (Chiffre d'affaire)
+// Clients (customer directory)
+export const clients = pgTable('clients', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(), // Raison sociale
+  address: text('address'),
+  postalCode: varchar('postal_code', { length: 20 }),
+  city: varchar('city', { length: 100 }),
+  country: varchar('country', { length: 2 }).notNull().default('FR'), // ISO 3166-1 alpha-2
+  siren: varchar('siren', { length: 9 }),
+  siret: varchar('siret', { length: 14 }),
+  tvaNumber: varchar('tva_number', { length: 20 }),
+  email: varchar('email', { length: 255 }),
+  paymentTermsDays: integer('payment_terms_days'), // null = issuer default
+  paymentTermsEndOfMonth: boolean('payment_terms_end_of_month'), // null = issuer default
+  defaultTaxRate: decimal('default_tax_rate', { precision: 5, scale: 2 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('clients_user_id_idx').on(table.userId),
+  uniqueIndex('clients_user_id_name_idx').on(table.userId, table.name),
+])
+
+// Invoices (Chiffre d'affaire) and credit notes (avoirs, stored with negative amounts)
 export const invoices = pgTable('invoices', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  client: varchar('client', { length: 255 }).notNull(),
+  type: varchar('type', { length: 20 }).notNull().default('invoice'), // 'invoice' | 'credit_note'
+  creditedInvoiceId: uuid('credited_invoice_id').references((): AnyPgColumn => invoices.id, { onDelete: 'restrict' }),
+  clientId: uuid('client_id').notNull().references(() => clients.id, { onDelete: 'restrict' }),
+  client: varchar('client', { length: 255 }).notNull(), // Client name as printed on the invoice
   description: text('description'),
   invoiceDate: date('invoice_date').notNull(),
-  paymentDate: date('payment_date'),
+  dueDate: date('due_date'), // From the client payment terms at issue; null for credit notes
+  paymentDate: date('payment_date'), // Date the balance was fully settled, kept in sync with invoice_payments
   amountHt: decimal('amount_ht', { precision: 12, scale: 2 }).notNull(),
-  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).notNull(),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }), // null when lines use different rates
   amountTtc: decimal('amount_ttc', { precision: 12, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull().default('EUR'), // ISO 4217, amounts above are in this currency
+  exchangeRate: decimal('exchange_rate', { precision: 12, scale: 6 }).notNull().default('1'), // Units of currency per EUR (ECB convention)
+  tvaRegime: varchar('tva_regime', { length: 20 }).notNull().default('domestic'), // 'domestic' | 'intra_eu' | 'export' | 'franchise'
+  activityType: varchar('activity_type', { length: 20 }).notNull().default('bnc'), // 'sales' | 'bic_services' | 'bnc', sets the URSSAF rate and abattement
   invoiceNumber: varchar('invoice_number', { length: 50 }),
   note: text('note'),
-  isCanceled: boolean('is_canceled').notNull().default(false),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('invoices_user_id_idx').on(table.userId),
+  index('invoices_credited_invoice_id_idx').on(table.creditedInvoiceId),
+  index('invoices_client_id_idx').on(table.clientId),
   index('invoices_payment_date_idx').on(table.paymentDate),
+  index('invoices_due_date_idx').on(table.dueDate),
+  uniqueIndex('invoices_user_id_number_idx').on(table.userId, table.invoiceNumber),
+])
+
+// Invoice lines (amounts on the invoice are derived from these)
+export const invoiceLines = pgTable('invoice_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  invoiceId: uuid('invoice_id').notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull().default(0),
+  description: text('description').notNull(),
+  quantity: decimal('quantity', { precision: 12, scale: 3 }).notNull().default('1'),
+  unit: varchar('unit', { length: 20 }),
+  unitPrice: decimal('unit_price', { precision: 12, scale: 2 }).notNull(),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).notNull(),
+  discount: decimal('discount', { precision: 5, scale: 2 }).notNull().default('0'),
+  amountHt: decimal('amount_ht', { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('invoice_lines_invoice_id_idx').on(table.invoiceId),
+])
+
+// Invoice payments (encaissements) - cash basis for TVA, URSSAF and revenue
+export const invoicePayments = pgTable('invoice_payments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  invoiceId: uuid('invoice_id').notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  paymentDate: date('payment_date').notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // TTC received; negative for credit note refunds
+  method: varchar('method', { length: 20 }).notNull().default('transfer'), // 'transfer' | 'check' | 'card' | 'cash' | 'direct_debit' | 'credit_note' | 'other'
+  reference: varchar('reference', { length: 255 }),
+  bankTransactionId: uuid('bank_transaction_id').references((): AnyPgColumn => bankTransactions.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('invoice_payments_invoice_id_idx').on(table.invoiceId),
+  index('invoice_payments_payment_date_idx').on(table.paymentDate),
+])
+
+// Quotes (devis), converted into an invoice once accepted
+export const quotes = pgTable('quotes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  clientId: uuid('client_id').notNull().references(() => clients.id, { onDelete: 'restrict' }),
+  client: varchar('client', { length: 255 }).notNull(), // Client name as printed on the quote
+  description: text('description'),
+  quoteNumber: varchar('quote_number', { length: 50 }).notNull(),
+  quoteDate: date('quote_date').notNull(),
+  validUntil: date('valid_until').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('draft'), // 'draft' | 'sent' | 'accepted' | 'refused' | 'expired'
+  amountHt: decimal('amount_ht', { precision: 12, scale: 2 }).notNull(),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }), // null when lines use different rates
+  amountTtc: decimal('amount_ttc', { precision: 12, scale: 2 }).notNull(),
+  invoiceId: uuid('invoice_id').references(() => invoices.id, { onDelete: 'set null' }), // Invoice created from the quote
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('quotes_user_id_idx').on(table.userId),
+  index('quotes_client_id_idx').on(table.clientId),
+  uniqueIndex('quotes_user_id_number_idx').on(table.userId, table.quoteNumber),
+])
+
+// Quote lines, copied to invoice lines on conversion
+export const quoteLines = pgTable('quote_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  quoteId: uuid('quote_id').notNull().references(() => quotes.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull().default(0),
+  description: text('description').notNull(),
+  quantity: decimal('quantity', { precision: 12, scale: 3 }).notNull().default('1'),
+  unit: varchar('unit', { length: 20 }),
+  unitPrice: decimal('unit_price', { precision: 12, scale: 2 }).notNull(),
+  taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).notNull(),
+  discount: decimal('discount', { precision: 5, scale: 2 }).notNull().default('0'),
+  amountHt: decimal('amount_ht', { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('quote_lines_quote_id_idx').on(table.quoteId),
+])
+
+// Payment reminder (relance) templates, one per escalation level; missing levels use the built-in wording
+export const reminderTemplates = pgTable('reminder_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  level: varchar('level', { length: 20 }).notNull(), // 'friendly' | 'firm' | 'formal_notice'
+  delayDays: integer('delay_days').notNull(), // Days past the due date from which the level is suggested
+  subject: varchar('subject', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('reminder_templates_user_level_idx').on(table.userId, table.level),
+])
+
+// Reminders sent for an invoice, as rendered at the time of sending
+export const invoiceReminders = pgTable('invoice_reminders', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  invoiceId: uuid('invoice_id').notNull().references(() => invoices.id, { onDelete: 'cascade' }),
+  level: varchar('level', { length: 20 }).notNull(),
+  recipient: varchar('recipient', { length: 255 }).notNull(),
+  subject: varchar('subject', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  transport: varchar('transport', { length: 10 }).notNull(), // 'smtp' | 'file'
+  messageId: varchar('message_id', { length: 255 }).notNull(),
+  sentAt: timestamp('sent_at').defaultNow().notNull(),
+}, (table) => [
+  index('invoice_reminders_invoice_id_idx').on(table.invoiceId),
+])
+
+// Last number handed out per document type and numbering period, allocated inside the creating transaction
+export const numberingSequences = pgTable('numbering_sequences', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  documentType: varchar('document_type', { length: 20 }).notNull(), // 'invoice' | 'credit_note'
+  periodKey: varchar('period_key', { length: 7 }).notNull(), // 'YYYY', 'YYYY-MM' or 'all' depending on the reset period
+  lastValue: integer('last_value').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('numbering_sequences_user_type_period_idx').on(table.userId, table.documentType, table.periodKey),
 ])
 
 // Expenses (Dépenses)
@@ -56,9 +203,12 @@ export const expenses = pgTable('expenses', {
   amountHt: decimal('amount_ht', { precision: 12, scale: 2 }).notNull(),
   taxAmount: decimal('tax_amount', { precision: 12, scale: 2 }).notNull().default('0'),
   taxRecoveryRate: decimal('tax_recovery_rate', { precision: 5, scale: 2 }).notNull().default('100'),
+  currency: varchar('currency', { length: 3 }).notNull().default('EUR'), // ISO 4217, amounts above are in this currency
+  exchangeRate: decimal('exchange_rate', { precision: 12, scale: 6 }).notNull().default('1'), // Units of currency per EUR (ECB convention)
   category: varchar('category', { length: 50 }).notNull(),
   isRecurring: boolean('is_recurring').notNull().default(false),
   isIntraEu: boolean('is_intra_eu').notNull().default(false),
+  reverseChargeRate: decimal('reverse_charge_rate', { precision: 5, scale: 2 }).notNull().default('20'), // TVA self-assessed on intra-EU purchases
   recurrencePeriod: varchar('recurrence_period', { length: 20 }),
   startMonth: date('start_month'),
   endMonth: date('end_month'),
@@ -70,6 +220,19 @@ export const expenses = pgTable('expenses', {
   index('expenses_date_idx').on(table.date),
 ])
 
+// Exchange rates against EUR, entered by hand or imported from ECB reference rates
+export const exchangeRates = pgTable('exchange_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  currency: varchar('currency', { length: 3 }).notNull(),
+  date: date('date').notNull(),
+  rate: decimal('rate', { precision: 12, scale: 6 }).notNull(), // Units of currency per EUR
+  source: varchar('source', { length: 10 }).notNull().default('manual'), // 'manual' | 'ecb'
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('exchange_rates_user_currency_date_idx').on(table.userId, table.currency, table.date),
+])
+
 // Tax payments (TVA)
 export const taxPayments = pgTable('tax_payments', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -85,11 +248,28 @@ export const taxPayments = pgTable('tax_payments', {
   index('tax_payments_user_id_idx').on(table.userId),
 ])
 
+// TVA credit ledger, written when a CA3 is filed: the credit of a month (line 25), the earlier
+// credit it used up (line 22) and the refund asked on form 3519 (line 26)
+export const tvaCreditEntries = pgTable('tva_credit_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  periodMonth: varchar('period_month', { length: 7 }).notNull(), // Format: YYYY-MM, last month of the filed period
+  type: varchar('type', { length: 20 }).notNull(), // 'credit' | 'imputation' | 'refund'
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Always positive, the type gives the sign
+  refundStatus: varchar('refund_status', { length: 20 }), // 'requested' | 'received', refunds only
+  refundReceivedDate: date('refund_received_date'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('tva_credit_entries_user_id_idx').on(table.userId),
+  uniqueIndex('tva_credit_entries_user_period_type_idx').on(table.userId, table.periodMonth, table.type),
+])
+
 // URSSAF payments
 export const urssafPayments = pgTable('urssaf_payments', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  trimester: integer('trimester').notNull(),
+  trimester: integer('trimester').notNull(), // Quarter of the period, also set on monthly declarations
+  month: integer('month'), // 1-12 for a monthly declaration, null for a quarterly one
   year: integer('year').notNull(),
   revenue: decimal('revenue', { precision: 12, scale: 2 }).notNull(),
   amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
@@ -126,6 +306,35 @@ export const settings = pgTable('settings', {
   revenueDeductionRate: decimal('revenue_deduction_rate', { precision: 5, scale: 2 }).notNull().default('34.00'),
   monthlySalary: decimal('monthly_salary', { precision: 12, scale: 2 }).notNull().default('3000.00'),
   additionalTaxableIncome: decimal('additional_taxable_income', { precision: 12, scale: 2 }).notNull().default('0.00'),
+  invoiceNumberPattern: varchar('invoice_number_pattern', { length: 50 }).notNull().default('{YYYY}{MM}{SEQ:2}'),
+  invoiceNumberReset: varchar('invoice_number_reset', { length: 10 }).notNull().default('yearly'), // 'yearly' | 'monthly' | 'never'
+  businessStartDate: date('business_start_date'), // Début d'activité, prorates the micro ceilings of the first year
+  activityType: varchar('activity_type', { length: 20 }).notNull().default('bnc'), // 'sales' | 'bic_services' | 'bnc'
+  acre: boolean('acre').notNull().default(false), // ACRE granted at the start of the business
+  chamber: varchar('chamber', { length: 4 }).notNull().default('none'), // 'none' | 'cci' | 'cma', taxe pour frais de chambre
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// Issuer profile (mentions légales printed on invoices)
+export const issuerProfiles = pgTable('issuer_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  companyName: varchar('company_name', { length: 255 }).notNull(),
+  legalForm: varchar('legal_form', { length: 100 }).notNull().default('Entrepreneur individuel (EI)'),
+  address: text('address').notNull(),
+  postalCode: varchar('postal_code', { length: 20 }).notNull(),
+  city: varchar('city', { length: 100 }).notNull(),
+  country: varchar('country', { length: 100 }).notNull().default('France'),
+  siret: varchar('siret', { length: 14 }).notNull(),
+  tvaNumber: varchar('tva_number', { length: 20 }),
+  email: varchar('email', { length: 255 }),
+  phone: varchar('phone', { length: 30 }),
+  iban: varchar('iban', { length: 34 }),
+  bic: varchar('bic', { length: 11 }),
+  paymentTermsDays: integer('payment_terms_days').notNull().default(30),
+  paymentTermsEndOfMonth: boolean('payment_terms_end_of_month').notNull().default(false), // '45 jours fin de mois' style terms
+  latePenaltyRate: decimal('late_penalty_rate', { precision: 5, scale: 2 }).notNull().default('12.15'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
@@ -157,34 +366,121 @@ export const yearlyRates = pgTable('yearly_rates', {
   index('yearly_rates_user_year_idx').on(table.userId, table.year),
 ])
 
+// TVA filing regime per year (monthly CA3 when no row)
+export const tvaFilingRegimes = pgTable('tva_filing_regimes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  year: integer('year').notNull(),
+  regime: varchar('regime', { length: 20 }).notNull(), // 'monthly' | 'quarterly' | 'annual'
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('tva_filing_regimes_user_year_idx').on(table.userId, table.year),
+])
+
+// URSSAF declaration periodicity per year (quarterly when no row)
+export const urssafPeriodicities = pgTable('urssaf_periodicities', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  year: integer('year').notNull(),
+  periodicity: varchar('periodicity', { length: 10 }).notNull(), // 'monthly' | 'quarterly'
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('urssaf_periodicities_user_year_idx').on(table.userId, table.year),
+])
+
+// Income tax options per year (no versement libératoire when no row)
+export const incomeTaxOptions = pgTable('income_tax_options', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  year: integer('year').notNull(),
+  versementLiberatoire: boolean('versement_liberatoire').notNull().default(false),
+  referenceTaxIncome: decimal('reference_tax_income', { precision: 12, scale: 2 }), // RFR of year - 2 from the avis d'imposition, estimated when null
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('income_tax_options_user_year_idx').on(table.userId, table.year),
+])
+
+// Household (foyer fiscal) per year for the income tax simulation (single person with the
+// additional taxable income of the settings when no row)
+export const householdProfiles = pgTable('household_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  year: integer('year').notNull(),
+  maritalStatus: varchar('marital_status', { length: 10 }).notNull().default('single'), // 'single' | 'married' | 'pacs' | 'divorced' | 'widowed'
+  children: integer('children').notNull().default(0), // Dependent children
+  singleParent: boolean('single_parent').notNull().default(false), // Parent isolé (case T)
+  parts: decimal('parts', { precision: 4, scale: 2 }), // Overrides the parts computed from the household when set
+  spouseSalary: decimal('spouse_salary', { precision: 12, scale: 2 }).notNull().default('0.00'), // Taxable salary of the spouse before the 10 % deduction
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('household_profiles_user_year_idx').on(table.userId, table.year),
+])
+
+// Other income of the household per year, before the deduction of its category
+export const householdIncomes = pgTable('household_incomes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  year: integer('year').notNull(),
+  category: varchar('category', { length: 20 }).notNull(), // 'salary' | 'pension' | 'rental' | 'furnished_rental' | 'other'
+  label: varchar('label', { length: 255 }).notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('household_incomes_user_year_idx').on(table.userId, table.year),
+])
+
+// Secret token of the iCalendar feed of the fiscal deadlines, readable without logging in
+export const calendarFeeds = pgTable('calendar_feeds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  token: varchar('token', { length: 64 }).notNull().unique(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
 // Business account balance
 export const accountBalances = pgTable('account_balances', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
   balance: decimal('balance', { precision: 12, scale: 2 }).notNull().default('0'),
+  balanceDate: date('balance_date'), // Transactions booked after this date are added to the balance
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
 
-// Refresh tokens for JWT auth
-export const refreshTokens = pgTable('refresh_tokens', {
+// Bank statement transactions (relevés importés)
+export const bankTransactions = pgTable('bank_transactions', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  token: text('token').notNull().unique(),
-  expiresAt: timestamp('expires_at').notNull(),
+  date: date('date').notNull(),
+  amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Positive for credits, negative for debits
+  label: text('label').notNull(),
+  counterparty: varchar('counterparty', { length: 255 }),
+  reference: varchar('reference', { length: 255 }),
+  source: varchar('source', { length: 10 }).notNull(), // 'csv' | 'ofx' | 'camt'
+  importHash: varchar('import_hash', { length: 64 }).notNull(), // Makes re-importing a statement idempotent
+  status: varchar('status', { length: 20 }).notNull().default('unmatched'), // 'unmatched' | 'matched' | 'ignored'
+  matchType: varchar('match_type', { length: 20 }), // 'invoice' | 'expense' | 'tva' | 'urssaf' | 'income_tax'
+  matchId: uuid('match_id'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
-  index('refresh_tokens_user_id_idx').on(table.userId),
-  index('refresh_tokens_token_idx').on(table.token),
+  index('bank_transactions_user_id_idx').on(table.userId),
+  index('bank_transactions_date_idx').on(table.date),
+  uniqueIndex('bank_transactions_user_hash_idx').on(table.userId, table.importHash),
 ])
 
-// Invoice clients (for autocomplete)
-export const invoiceClients = pgTable('invoice_clients', {
+// Refresh tokens for JWT auth
+export const refreshTokens = pgTable('refresh_tokens', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  name: varchar('name', { length: 255 }).notNull(),
+  token: text('token').notNull().unique(),
+  expiresAt: timestamp('expires_at').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
-  index('invoice_clients_user_id_idx').on(table.userId),
+  index('refresh_tokens_user_id_idx').on(table.userId),
+  index('refresh_tokens_token_idx').on(table.token),
 ])
 
 // Invoice descriptions (for autocomplete)
@@ -11,6 +11,8 @@ import { fileURLToPath } from 'url'
 import { authRoutes } from './routes/auth'
 import { passkeyRoutes } from './routes/passkeys'
 import { invoiceRoutes } from './routes/invoices'
+import { quoteRoutes } from './routes/quotes'
+import { clientRoutes } from './routes/clients'
 import { expenseRoutes } from './routes/expenses'
 import { settingsRoutes } from './routes/settings'
 import { tvaRoutes } from './routes/tva'
@@ -18,6 +20,11 @@ import { urssafRoutes } from './routes/urssaf'
 import { dashboardRoutes } from './routes/dashboard'
 import { accountRoutes } from './routes/account'
 import { incomeTaxRoutes } from './routes/income-tax'
+import { bankRoutes } from './routes/bank'
+import { reminderRoutes } from './routes/reminders'
+import { exchangeRateRoutes } from './routes/exchange-rates'
+import { desRoutes } from './routes/des'
+import { calendarRoutes } from './routes/calendar'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -79,6 +86,8 @@ async function start() {
   await fastify.register(authRoutes)
   await fastify.register(passkeyRoutes)
   await fastify.register(invoiceRoutes)
+  await fastify.register(quoteRoutes)
+  await fastify.register(clientRoutes)
   await fastify.register(expenseRoutes)
   await fastify.register(settingsRoutes)
   await fastify.register(tvaRoutes)
@@ -86,6 +95,11 @@ async function start() {
   await fastify.register(dashboardRoutes)
   await fastify.register(accountRoutes)
   await fastify.register(incomeTaxRoutes)
+  await fastify.register(bankRoutes)
+  await fastify.register(reminderRoutes)
+  await fastify.register(exchangeRateRoutes)
+  await fastify.register(desRoutes)
+  await fastify.register(calendarRoutes)
 
   // Serve static files in production
   if (isProduction) {
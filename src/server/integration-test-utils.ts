@@ -43,31 +43,218 @@ export async function pushSchema() {
       updated_at TIMESTAMP DEFAULT NOW() NOT NULL
     )
   `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS clients (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(255) NOT NULL,
+      address TEXT,
+      postal_code VARCHAR(20),
+      city VARCHAR(100),
+      country VARCHAR(2) NOT NULL DEFAULT 'FR',
+      siren VARCHAR(9),
+      siret VARCHAR(14),
+      tva_number VARCHAR(20),
+      email VARCHAR(255),
+      payment_terms_days INTEGER,
+      payment_terms_end_of_month BOOLEAN,
+      default_tax_rate DECIMAL(5,2),
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (user_id, name)
+    )
+  `)
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS invoices (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      type VARCHAR(20) NOT NULL DEFAULT 'invoice',
+      credited_invoice_id UUID REFERENCES invoices(id) ON DELETE RESTRICT,
+      client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
       client VARCHAR(255) NOT NULL,
       description TEXT,
       invoice_date DATE NOT NULL,
+      due_date DATE,
       payment_date DATE,
       amount_ht DECIMAL(12,2) NOT NULL,
-      tax_rate DECIMAL(5,2) NOT NULL,
+      tax_rate DECIMAL(5,2),
       amount_ttc DECIMAL(12,2) NOT NULL,
+      currency VARCHAR(3) NOT NULL DEFAULT 'EUR',
+      exchange_rate DECIMAL(12,6) NOT NULL DEFAULT '1',
+      tva_regime VARCHAR(20) NOT NULL DEFAULT 'domestic',
       invoice_number VARCHAR(50),
       note TEXT,
-      is_canceled BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (user_id, invoice_number)
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS invoice_lines (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL DEFAULT 0,
+      description TEXT NOT NULL,
+      quantity DECIMAL(12,3) NOT NULL DEFAULT 1,
+      unit VARCHAR(20),
+      unit_price DECIMAL(12,2) NOT NULL,
+      tax_rate DECIMAL(5,2) NOT NULL,
+      discount DECIMAL(5,2) NOT NULL DEFAULT 0,
+      amount_ht DECIMAL(12,2) NOT NULL,
       created_at TIMESTAMP DEFAULT NOW() NOT NULL
     )
   `)
   await db.execute(sql`
-    CREATE TABLE IF NOT EXISTS invoice_clients (
+    CREATE TABLE IF NOT EXISTS quotes (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-      name VARCHAR(255) NOT NULL,
+      client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+      client VARCHAR(255) NOT NULL,
+      description TEXT,
+      quote_number VARCHAR(50) NOT NULL,
+      quote_date DATE NOT NULL,
+      valid_until DATE NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'draft',
+      amount_ht DECIMAL(12,2) NOT NULL,
+      tax_rate DECIMAL(5,2),
+      amount_ttc DECIMAL(12,2) NOT NULL,
+      invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+      note TEXT,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (user_id, quote_number)
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS quote_lines (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL DEFAULT 0,
+      description TEXT NOT NULL,
+      quantity DECIMAL(12,3) NOT NULL DEFAULT 1,
+      unit VARCHAR(20),
+      unit_price DECIMAL(12,2) NOT NULL,
+      tax_rate DECIMAL(5,2) NOT NULL,
+      discount DECIMAL(5,2) NOT NULL DEFAULT 0,
+      amount_ht DECIMAL(12,2) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS bank_transactions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      date DATE NOT NULL,
+      amount DECIMAL(12,2) NOT NULL,
+      label TEXT NOT NULL,
+      counterparty VARCHAR(255),
+      reference VARCHAR(255),
+      source VARCHAR(10) NOT NULL,
+      import_hash VARCHAR(64) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'unmatched',
+      match_type VARCHAR(20),
+      match_id UUID,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (user_id, import_hash)
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS invoice_payments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+      payment_date DATE NOT NULL,
+      amount DECIMAL(12,2) NOT NULL,
+      method VARCHAR(20) NOT NULL DEFAULT 'transfer',
+      reference VARCHAR(255),
+      bank_transaction_id UUID REFERENCES bank_transactions(id) ON DELETE SET NULL,
       created_at TIMESTAMP DEFAULT NOW() NOT NULL
     )
   `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS settings (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+      urssaf_rate DECIMAL(5,2) NOT NULL DEFAULT 22.00,
+      estimated_tax_rate DECIMAL(5,2) NOT NULL DEFAULT 11.00,
+      revenue_deduction_rate DECIMAL(5,2) NOT NULL DEFAULT 34.00,
+      monthly_salary DECIMAL(12,2) NOT NULL DEFAULT 3000.00,
+      additional_taxable_income DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+      invoice_number_pattern VARCHAR(50) NOT NULL DEFAULT '{YYYY}{MM}{SEQ:2}',
+      invoice_number_reset VARCHAR(10) NOT NULL DEFAULT 'yearly',
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS issuer_profiles (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+      company_name VARCHAR(255) NOT NULL,
+      legal_form VARCHAR(100) NOT NULL DEFAULT 'Entrepreneur individuel (EI)',
+      address TEXT NOT NULL,
+      postal_code VARCHAR(20) NOT NULL,
+      city VARCHAR(100) NOT NULL,
+      country VARCHAR(100) NOT NULL DEFAULT 'France',
+      siret VARCHAR(14) NOT NULL,
+      tva_number VARCHAR(20),
+      email VARCHAR(255),
+      phone VARCHAR(30),
+      iban VARCHAR(34),
+      bic VARCHAR(11),
+      payment_terms_days INTEGER NOT NULL DEFAULT 30,
+      payment_terms_end_of_month BOOLEAN NOT NULL DEFAULT false,
+      late_penalty_rate DECIMAL(5,2) NOT NULL DEFAULT 12.15,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS numbering_sequences (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      document_type VARCHAR(20) NOT NULL,
+      period_key VARCHAR(7) NOT NULL,
+      last_value INTEGER NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (user_id, document_type, period_key)
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS reminder_templates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      level VARCHAR(20) NOT NULL,
+      delay_days INTEGER NOT NULL,
+      subject VARCHAR(255) NOT NULL,
+      body TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (user_id, level)
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS invoice_reminders (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+      level VARCHAR(20) NOT NULL,
+      recipient VARCHAR(255) NOT NULL,
+      subject VARCHAR(255) NOT NULL,
+      body TEXT NOT NULL,
+      transport VARCHAR(10) NOT NULL,
+      message_id VARCHAR(255) NOT NULL,
+      sent_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      currency VARCHAR(3) NOT NULL,
+      date DATE NOT NULL,
+      rate DECIMAL(12,6) NOT NULL,
+      source VARCHAR(10) NOT NULL DEFAULT 'manual',
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (user_id, currency, date)
+    )
+  `)
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS invoice_descriptions (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -89,7 +276,7 @@ export async function pushSchema() {
 
 export async function truncateAll() {
   const db = await getTestDb()
-  await db.execute(sql`TRUNCATE invoices, invoice_clients, invoice_descriptions, refresh_tokens CASCADE`)
+  await db.execute(sql`TRUNCATE invoices, invoice_lines, invoice_payments, invoice_reminders, quotes, quote_lines, bank_transactions, clients, invoice_descriptions, settings, issuer_profiles, numbering_sequences, reminder_templates, exchange_rates, refresh_tokens CASCADE`)
   await db.execute(sql`TRUNCATE users CASCADE`)
 }
 
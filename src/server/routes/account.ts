@@ -2,21 +2,16 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { eq, and, sql, gte, lte } from 'drizzle-orm'
 import { db } from '../db'
-import { accountBalances, taxPayments, urssafPayments, settings, yearlyRates, invoices, expenses } from '../db/schema'
+import { accountBalances, taxPayments, urssafPayments, settings, expenses } from '../db/schema'
 import { requireAuth } from '../auth/middleware'
-
-async function getUrssafRateForYear(userId: string, year: number): Promise<number> {
-  const customRates = await db.query.yearlyRates.findFirst({
-    where: and(eq(yearlyRates.userId, userId), eq(yearlyRates.year, year)),
-  })
-  if (customRates) {
-    return parseFloat(customRates.urssafRate)
-  }
-  const userSettings = await db.query.settings.findFirst({
-    where: eq(settings.userId, userId),
-  })
-  return userSettings ? parseFloat(userSettings.urssafRate) : 22
-}
+import { getCashReceived, getCashReceivedByActivity } from '../services/invoice-payments'
+import { eurAmount } from '../services/currency'
+import { getTvaCreditBalance } from '../services/tva-credits'
+import { getCurrentBalance } from '../services/bank-reconciliation'
+import { componentTotal, getContributionOptions, urssafContributions } from '../services/urssaf-contributions'
+import type { ContributionOptions, UrssafContributions } from '../services/urssaf-contributions'
+import { getUrssafPeriodicity, urssafPeriodOf, urssafPeriodsOfYear } from '../services/urssaf-periods'
+import type { UrssafPeriod } from '../services/urssaf-periods'
 
 const updateBalanceSchema = z.object({
   balance: z.number().min(0, 'Le solde ne peut pas être négatif'),
@@ -30,20 +25,20 @@ export async function accountRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, _reply: FastifyReply) => {
       const userId = request.authUser.userId
 
-      let balance = await db.query.accountBalances.findFirst({
+      // Create default balance if none exists
+      const existing = await db.query.accountBalances.findFirst({
         where: eq(accountBalances.userId, userId),
       })
-
-      // Create default balance if none exists
-      if (!balance) {
-        const [newBalance] = await db
-          .insert(accountBalances)
-          .values({ userId, balance: '0' })
-          .returning()
-        balance = newBalance
+      if (!existing) {
+        await db.insert(accountBalances).values({ userId, balance: '0' })
       }
 
-      return balance
+      const { record, balance, transactionsSinceBalance } = await getCurrentBalance(userId)
+      return {
+        ...record,
+        currentBalance: balance.toFixed(2),
+        transactionsSinceBalance,
+      }
     }
   )
 
@@ -67,26 +62,34 @@ export async function accountRoutes(fastify: FastifyInstance) {
         where: eq(accountBalances.userId, userId),
       })
 
+      // The entered balance becomes the anchor: only later transactions are added to it
+      const balanceDate = new Date().toISOString().split('T')[0]
+
+      let record
       if (existing) {
         const [updated] = await db
           .update(accountBalances)
           .set({
             balance: balance.toFixed(2),
+            balanceDate,
             updatedAt: new Date(),
           })
           .where(eq(accountBalances.userId, userId))
           .returning()
-        return updated
+        record = updated
       } else {
         const [created] = await db
           .insert(accountBalances)
           .values({
             userId,
             balance: balance.toFixed(2),
+            balanceDate,
           })
           .returning()
-        return created
+        record = created
       }
+
+      return { ...record, currentBalance: balance.toFixed(2), transactionsSinceBalance: 0 }
     }
   )
 
@@ -100,20 +103,8 @@ export async function accountRoutes(fastify: FastifyInstance) {
       const currentYear = now.getFullYear()
       const currentMonth = now.getMonth() + 1
 
-      // Get current balance
-      let balanceRecord = await db.query.accountBalances.findFirst({
-        where: eq(accountBalances.userId, userId),
-      })
-
-      if (!balanceRecord) {
-        const [newBalance] = await db
-          .insert(accountBalances)
-          .values({ userId, balance: '0' })
-          .returning()
-        balanceRecord = newBalance
-      }
-
-      const currentBalance = parseFloat(balanceRecord.balance)
+      // Get current balance, including transactions imported since it was recorded
+      const { balance: currentBalance } = await getCurrentBalance(userId)
 
       // Get user settings (for monthly salary only — rates are resolved per year below)
       const userSettings = await db.query.settings.findFirst({
@@ -121,9 +112,9 @@ export async function accountRoutes(fastify: FastifyInstance) {
       })
       const monthlySalary = userSettings ? parseFloat(userSettings.monthlySalary) : 3000
 
-      // Resolve per-year Urssaf rates (custom yearly rate falls back to default settings rate)
-      const previousYearUrssafRate = await getUrssafRateForYear(userId, currentYear - 1)
-      const currentYearUrssafRate = await getUrssafRateForYear(userId, currentYear)
+      // Resolve per-year Urssaf rates per activity and component (custom yearly rate falls back to default settings rate)
+      const previousYearUrssafRates = await getContributionOptions(userId, currentYear - 1)
+      const currentYearUrssafRates = await getContributionOptions(userId, currentYear)
 
       // Get pending TVA
       const pendingTvaResult = await db
@@ -139,6 +130,9 @@ export async function accountRoutes(fastify: FastifyInstance) {
         )
       const pendingTva = parseFloat(pendingTvaResult[0].total)
 
+      // TVA credit of the filed returns, deducted from the TVA still to declare
+      const tvaCredit = await getTvaCreditBalance(db, userId)
+
       // Get pending Urssaf
       const pendingUrssafResult = await db
         .select({
@@ -160,13 +154,13 @@ export async function accountRoutes(fastify: FastifyInstance) {
         .where(eq(taxPayments.userId, userId))
       const declaredTvaMonthSet = new Set(declaredTvaMonths.map(t => t.periodMonth))
 
-      // Get all declared Urssaf trimesters (pending or paid)
-      const declaredUrssafTrimesters = await db
-        .select({ trimester: urssafPayments.trimester, year: urssafPayments.year })
+      // Get all declared Urssaf periods (pending or paid)
+      const declaredUrssafPeriods = await db
+        .select({ trimester: urssafPayments.trimester, month: urssafPayments.month, year: urssafPayments.year })
         .from(urssafPayments)
         .where(eq(urssafPayments.userId, userId))
       const declaredUrssafSet = new Set(
-        declaredUrssafTrimesters.map(u => `${u.year}-T${u.trimester}`)
+        declaredUrssafPeriods.map(u => urssafPeriodOf(u).key)
       )
 
       const previousYear = currentYear - 1
@@ -178,30 +172,13 @@ export async function accountRoutes(fastify: FastifyInstance) {
         const lastDay = new Date(year, month, 0).getDate()
         const endDate = `${year}-${month.toString().padStart(2, '0')}-${lastDay.toString().padStart(2, '0')}`
 
-        // Get invoice totals for this month
-        const invoiceResult = await db
-          .select({
-            totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-            totalTtc: sql<string>`COALESCE(SUM(${invoices.amountTtc}::numeric), 0)`,
-          })
-          .from(invoices)
-          .where(
-            and(
-              eq(invoices.userId, userId),
-              eq(invoices.isCanceled, false),
-              gte(invoices.paymentDate, startDate),
-              lte(invoices.paymentDate, endDate)
-            )
-          )
-
-        const revenueHt = parseFloat(invoiceResult[0].totalHt)
-        const revenueTtc = parseFloat(invoiceResult[0].totalTtc)
-        const tvaCollected = revenueTtc - revenueHt
+        // Get invoice payments received this month
+        const { tvaCollected } = await getCashReceived(userId, startDate, endDate)
 
         // Get non-recurring expense TVA for this month
         const nonRecurringResult = await db
           .select({
-            recoverableTax: sql<string>`COALESCE(SUM(${expenses.taxAmount}::numeric * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
+            recoverableTax: sql<string>`COALESCE(SUM(${eurAmount(expenses.taxAmount, expenses.exchangeRate)} * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
           })
           .from(expenses)
           .where(
@@ -216,7 +193,7 @@ export async function accountRoutes(fastify: FastifyInstance) {
         // Get recurring expenses for this specific month (matching tva.ts logic exactly)
         const monthRecurringExpenses = await db
           .select({
-            taxAmount: expenses.taxAmount,
+            taxAmount: sql<string>`${eurAmount(expenses.taxAmount, expenses.exchangeRate)}`,
             taxRecoveryRate: expenses.taxRecoveryRate,
             startMonth: expenses.startMonth,
             recurrencePeriod: expenses.recurrencePeriod,
@@ -258,30 +235,12 @@ export async function accountRoutes(fastify: FastifyInstance) {
         return tvaCollected - tvaRecoverable
       }
 
-      // Helper function to calculate Urssaf for a specific trimester using the year's rate
-      const calculateUrssafForTrimester = async (trimester: number, year: number, rate: number, maxMonth?: number) => {
-        const startMonth = (trimester - 1) * 3 + 1
-        const endMonth = maxMonth !== undefined ? Math.min(trimester * 3, maxMonth) : trimester * 3
+      // Helper function to calculate Urssaf for a declaration period using the year's rate
+      const calculateUrssafForPeriod = async (period: UrssafPeriod, rates: ContributionOptions, maxDate?: string) => {
+        const endDate = maxDate !== undefined && maxDate < period.endDate ? maxDate : period.endDate
+        const revenueByActivity = await getCashReceivedByActivity(userId, period.startDate, endDate)
 
-        const startDate = `${year}-${startMonth.toString().padStart(2, '0')}-01`
-        const lastDay = new Date(year, endMonth, 0).getDate()
-        const endDate = `${year}-${endMonth.toString().padStart(2, '0')}-${lastDay.toString().padStart(2, '0')}`
-
-        const invoiceResult = await db
-          .select({
-            totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-          })
-          .from(invoices)
-          .where(
-            and(
-              eq(invoices.userId, userId),
-              eq(invoices.isCanceled, false),
-              gte(invoices.paymentDate, startDate),
-              lte(invoices.paymentDate, endDate)
-            )
-          )
-
-        return parseFloat(invoiceResult[0].totalHt) * (rate / 100)
+        return urssafContributions(revenueByActivity, rates, period.endDate)
       }
 
       // Helper: total TTC expenses (non-recurring + applicable recurring) for a given month
@@ -292,7 +251,7 @@ export async function accountRoutes(fastify: FastifyInstance) {
 
         const nonRecurringResult = await db
           .select({
-            totalTtc: sql<string>`COALESCE(SUM(${expenses.amountHt}::numeric + ${expenses.taxAmount}::numeric), 0)`,
+            totalTtc: sql<string>`COALESCE(SUM(${eurAmount(expenses.amountHt, expenses.exchangeRate)} + ${eurAmount(expenses.taxAmount, expenses.exchangeRate)}), 0)`,
           })
           .from(expenses)
           .where(
@@ -306,8 +265,8 @@ export async function accountRoutes(fastify: FastifyInstance) {
 
         const monthRecurringExpenses = await db
           .select({
-            amountHt: expenses.amountHt,
-            taxAmount: expenses.taxAmount,
+            amountHt: sql<string>`${eurAmount(expenses.amountHt, expenses.exchangeRate)}`,
+            taxAmount: sql<string>`${eurAmount(expenses.taxAmount, expenses.exchangeRate)}`,
             startMonth: expenses.startMonth,
             recurrencePeriod: expenses.recurrencePeriod,
           })
@@ -368,26 +327,32 @@ export async function accountRoutes(fastify: FastifyInstance) {
         }
       }
 
-      // Calculate estimated Urssaf for undeclared trimesters (previous year + current year)
+      // Calculate estimated Urssaf for undeclared periods (previous year + current year), the
+      // versement libératoire included: the income tax then leaves the business account with them
       let estimatedUrssaf = 0
+      let estimatedVersementLiberatoire = 0
+      const addUrssafEstimate = (contributions: UrssafContributions) => {
+        estimatedUrssaf += contributions.total
+        estimatedVersementLiberatoire += componentTotal(contributions, 'versement_liberatoire')
+      }
 
-      // Check previous year (all 4 trimesters)
-      for (let trimester = 1; trimester <= 4; trimester++) {
-        const trimesterKey = `${previousYear}-T${trimester}`
-        if (declaredUrssafSet.has(trimesterKey)) continue
+      // Check previous year (all periods)
+      const previousYearPeriodicity = await getUrssafPeriodicity(db, userId, previousYear)
+      for (const period of urssafPeriodsOfYear(previousYear, previousYearPeriodicity)) {
+        if (declaredUrssafSet.has(period.key)) continue
 
-        estimatedUrssaf += await calculateUrssafForTrimester(trimester, previousYear, previousYearUrssafRate)
+        addUrssafEstimate(await calculateUrssafForPeriod(period, previousYearUrssafRates))
       }
 
-      // Check current year (up to current trimester)
-      const currentTrimester = Math.ceil(currentMonth / 3)
-      for (let trimester = 1; trimester <= currentTrimester; trimester++) {
-        const trimesterKey = `${currentYear}-T${trimester}`
-        if (declaredUrssafSet.has(trimesterKey)) continue
+      // Check current year (up to current period)
+      const currentYearPeriodicity = await getUrssafPeriodicity(db, userId, currentYear)
+      const currentMonthEnd = `${currentYear}-${currentMonth.toString().padStart(2, '0')}-${new Date(currentYear, currentMonth, 0).getDate().toString().padStart(2, '0')}`
+      for (const period of urssafPeriodsOfYear(currentYear, currentYearPeriodicity)) {
+        if (period.startDate > currentMonthEnd) break
+        if (declaredUrssafSet.has(period.key)) continue
 
-        // For current trimester, only count months up to current month
-        const maxMonth = trimester === currentTrimester ? currentMonth : undefined
-        estimatedUrssaf += await calculateUrssafForTrimester(trimester, currentYear, currentYearUrssafRate, maxMonth)
+        // For current period, only count months up to current month
+        addUrssafEstimate(await calculateUrssafForPeriod(period, currentYearUrssafRates, currentMonthEnd))
       }
 
       // Typical-month TTC expenses: median over the last completed months of the current year.
@@ -408,16 +373,20 @@ export async function accountRoutes(fastify: FastifyInstance) {
           : samples[mid]
       }
 
-      // Income tax is handled on the user's personal account — not a business obligation
-      const totalObligations = pendingTva + estimatedTva + pendingUrssaf + estimatedUrssaf + typicalMonthlyExpenses
+      // Income tax is handled on the user's personal account — not a business obligation, except
+      // the versement libératoire counted with the Urssaf estimate
+      const estimatedTvaAfterCredit = Math.max(0, estimatedTva - tvaCredit)
+      const totalObligations = pendingTva + estimatedTvaAfterCredit + pendingUrssaf + estimatedUrssaf + typicalMonthlyExpenses
       const availableFunds = currentBalance - totalObligations - monthlySalary
 
       return {
         currentBalance: currentBalance.toFixed(2),
         pendingTva: pendingTva.toFixed(2),
         estimatedTva: estimatedTva.toFixed(2),
+        tvaCredit: tvaCredit.toFixed(2),
         pendingUrssaf: pendingUrssaf.toFixed(2),
         estimatedUrssaf: estimatedUrssaf.toFixed(2),
+        estimatedVersementLiberatoire: estimatedVersementLiberatoire.toFixed(2),
         typicalMonthlyExpenses: typicalMonthlyExpenses.toFixed(2),
         typicalMonthlyExpensesMonths: monthsToSample,
         totalObligations: totalObligations.toFixed(2),
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createTestApp, createTestToken } from '../test-utils'
+import { importStatementSchema, matchTransactionSchema, bankRoutes } from './bank'
+
+// ─── Pure unit tests: Zod schemas ───────────────────────────────────
+
+describe('importStatementSchema', () => {
+  it('accepts a statement without mapping', () => {
+    expect(importStatementSchema.safeParse({ content: '<OFX></OFX>' }).success).toBe(true)
+  })
+
+  it('rejects an empty statement', () => {
+    expect(importStatementSchema.safeParse({ content: '' }).success).toBe(false)
+  })
+
+  it('requires an amount column or both debit and credit columns', () => {
+    const mapping = { dateColumn: 'Date', labelColumn: 'Libellé', debitColumn: 'Débit' }
+    expect(importStatementSchema.safeParse({ content: 'x', mapping }).success).toBe(false)
+    expect(importStatementSchema.safeParse({ content: 'x', mapping: { ...mapping, creditColumn: 'Crédit' } }).success).toBe(true)
+  })
+})
+
+describe('matchTransactionSchema', () => {
+  it('rejects an unknown match type', () => {
+    expect(matchTransactionSchema.safeParse({ type: 'salary', id: '3f1c2a4e-8c1b-4d7e-9a55-1c2b3d4e5f60' }).success).toBe(false)
+  })
+})
+
+// ─── Route tests with fastify.inject() ─────────────────────────────
+
+vi.mock('../db', () => ({
+  db: {
+    query: {
+      bankTransactions: {
+        findFirst: vi.fn().mockResolvedValue(null),
+      },
+    },
+    transaction: vi.fn(),
+  },
+}))
+
+const bankLine = { id: 'transaction-id', status: 'unmatched', date: '2025-03-03', amount: '-250.00', label: 'PRLV DGFIP', reference: null }
+
+// Runs the match transaction on a fake executor: `locked` answers the rows read with a lock
+// in order, `matchedBy` the lookup of a line already matched to the expense
+async function mockMatchTransaction(locked: unknown[][], matchedBy: unknown[] = []) {
+  const { db } = await import('../db')
+  const lock = vi.fn()
+  for (const rows of locked) lock.mockResolvedValueOnce(rows)
+  const insert = vi.fn()
+  const update = vi.fn()
+  const tx = {
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({ for: lock, limit: vi.fn().mockResolvedValue(matchedBy) }),
+      }),
+    }),
+    insert,
+    update,
+  }
+  vi.mocked(db.query.bankTransactions.findFirst).mockResolvedValueOnce(bankLine as any)
+  vi.mocked(db.transaction).mockImplementationOnce(((callback: (executor: typeof tx) => unknown) => callback(tx)) as any)
+  return { insert, update }
+}
+
+describe('bank routes', () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>
+  let token: string
+
+  beforeAll(async () => {
+    app = await createTestApp(async (fastify) => {
+      await fastify.register(bankRoutes)
+    })
+    token = createTestToken(app)
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('returns 401 without auth', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/bank/transactions' })
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('returns 400 for an unreadable statement', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/bank/import',
+      payload: { format: 'camt', content: '<Document></Document>' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('returns 400 for a CSV without mapping', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/bank/import',
+      payload: { content: 'Date;Libellé;Montant\n03/02/2025;VIR;10,00' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('returns 404 when matching an unknown transaction', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/bank/transactions/nonexistent-id/match',
+      payload: { type: 'tva', id: '3f1c2a4e-8c1b-4d7e-9a55-1c2b3d4e5f60' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('refuses a second match of a line matched meanwhile', async () => {
+    const { insert, update } = await mockMatchTransaction([[{ status: 'matched' }]])
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/bank/transactions/transaction-id/match',
+      payload: { type: 'invoice', id: '3f1c2a4e-8c1b-4d7e-9a55-1c2b3d4e5f60' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+    expect(insert).not.toHaveBeenCalled()
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('refuses an expense already matched to another line', async () => {
+    const expense = { id: 'expense-id', amountHt: '250.00', taxAmount: '0.00', exchangeRate: '1.000000' }
+    const { update } = await mockMatchTransaction([[{ status: 'unmatched' }], [expense]], [{ id: 'other-transaction' }])
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/bank/transactions/transaction-id/match',
+      payload: { type: 'expense', id: '3f1c2a4e-8c1b-4d7e-9a55-1c2b3d4e5f60' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+    expect(response.json().message).toContain('autre transaction')
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('refuses a TVA payment of another amount', async () => {
+    const { update } = await mockMatchTransaction([[{ status: 'unmatched' }], [{ id: 'tva-id', amount: '300.00' }]])
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/bank/transactions/transaction-id/match',
+      payload: { type: 'tva', id: '3f1c2a4e-8c1b-4d7e-9a55-1c2b3d4e5f60' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+    expect(response.json().message).toContain('300.00 €')
+    expect(update).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,526 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { eq, and, desc, gte, isNull, ne, sql } from 'drizzle-orm'
+import { db } from '../db'
+import {
+  accountBalances,
+  bankTransactions,
+  expenses,
+  incomeTaxPayments,
+  invoicePayments,
+  invoices,
+  taxPayments,
+  urssafPayments,
+} from '../db/schema'
+import { requireAuth } from '../auth/middleware'
+import {
+  computeImportHashes,
+  detectStatementFormat,
+  parseStatement,
+  StatementParseError,
+} from '../services/bank-statement-parser'
+import { suggestMatches, type MatchCandidate, type MatchType } from '../services/bank-reconciliation'
+import { getInvoicePayments, getOutstandingAmount, syncInvoicePaymentDate } from '../services/invoice-payments'
+import { roundCents } from '../services/invoice-totals'
+import { DEFAULT_CURRENCY, toEur } from '../services/currency'
+import { urssafPeriodOf } from '../services/urssaf-periods'
+
+const csvMappingSchema = z.object({
+  delimiter: z.enum([';', ',', '\t']).default(';'),
+  dateColumn: z.string().min(1, 'La colonne de date est requise'),
+  dateFormat: z.enum(['DD/MM/YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY']).default('DD/MM/YYYY'),
+  labelColumn: z.string().min(1, 'La colonne de libellé est requise'),
+  amountColumn: z.string().optional(),
+  debitColumn: z.string().optional(),
+  creditColumn: z.string().optional(),
+  counterpartyColumn: z.string().optional(),
+  referenceColumn: z.string().optional(),
+  decimalSeparator: z.enum([',', '.']).default(','),
+}).refine(
+  (mapping) => mapping.amountColumn || (mapping.debitColumn && mapping.creditColumn),
+  { message: 'Indiquez une colonne de montant ou les colonnes débit et crédit', path: ['amountColumn'] }
+)
+
+export const importStatementSchema = z.object({
+  format: z.enum(['csv', 'ofx', 'camt']).optional(),
+  content: z.string().min(1, 'Le relevé est vide'),
+  mapping: csvMappingSchema.optional(),
+})
+
+export const matchTransactionSchema = z.object({
+  type: z.enum(['invoice', 'expense', 'tva', 'urssaf', 'income_tax']),
+  id: z.string().uuid('Identifiant invalide'),
+})
+
+const listQuerySchema = z.object({
+  status: z.enum(['unmatched', 'matched', 'ignored']).optional(),
+  limit: z.coerce.number().min(1).max(500).default(100),
+  offset: z.coerce.number().min(0).default(0),
+})
+
+// Open items a bank line could settle, with the amount expected on the statement
+async function getMatchCandidates(userId: string): Promise<MatchCandidate[]> {
+  const openInvoices = await db
+    .select({
+      id: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      client: invoices.client,
+      type: invoices.type,
+      amountTtc: invoices.amountTtc,
+      exchangeRate: invoices.exchangeRate,
+      amountPaid: sql<string>`(SELECT COALESCE(SUM(${invoicePayments.amount}::numeric), 0) FROM ${invoicePayments} WHERE ${invoicePayments.invoiceId} = ${invoices.id})`,
+    })
+    .from(invoices)
+    .where(and(eq(invoices.userId, userId), isNull(invoices.paymentDate)))
+
+  // Recurring expenses are skipped: they have no single booking date to match against
+  const oneOffExpenses = await db
+    .select()
+    .from(expenses)
+    .where(
+      and(
+        eq(expenses.userId, userId),
+        eq(expenses.isRecurring, false),
+        gte(expenses.date, sql`CURRENT_DATE - INTERVAL '1 year'`),
+        sql`NOT EXISTS (SELECT 1 FROM ${bankTransactions} WHERE ${bankTransactions.matchType} = 'expense' AND ${bankTransactions.matchId} = ${expenses.id})`
+      )
+    )
+
+  const pendingTva = await db.query.taxPayments.findMany({
+    where: and(eq(taxPayments.userId, userId), eq(taxPayments.status, 'pending')),
+  })
+  const pendingUrssaf = await db.query.urssafPayments.findMany({
+    where: and(eq(urssafPayments.userId, userId), eq(urssafPayments.status, 'pending')),
+  })
+  const pendingIncomeTax = await db.query.incomeTaxPayments.findMany({
+    where: and(eq(incomeTaxPayments.userId, userId), eq(incomeTaxPayments.status, 'pending')),
+  })
+
+  return [
+    ...openInvoices.map((invoice) => ({
+      type: 'invoice' as const,
+      id: invoice.id,
+      label: `${invoice.type === 'credit_note' ? 'Avoir' : 'Facture'} ${invoice.invoiceNumber ?? ''} — ${invoice.client}`,
+      // The account is kept in euros: foreign currency balances are expected at the invoice rate
+      amount: toEur(parseFloat(invoice.amountTtc) - parseFloat(invoice.amountPaid), parseFloat(invoice.exchangeRate)),
+      date: null,
+      keywords: [invoice.client, invoice.invoiceNumber ?? ''],
+    })),
+    ...oneOffExpenses.map((expense) => ({
+      type: 'expense' as const,
+      id: expense.id,
+      label: expense.description,
+      amount: -toEur(parseFloat(expense.amountHt) + parseFloat(expense.taxAmount), parseFloat(expense.exchangeRate)),
+      date: expense.date,
+      keywords: [expense.description],
+    })),
+    ...pendingTva.map((payment) => ({
+      type: 'tva' as const,
+      id: payment.id,
+      label: `TVA ${payment.periodMonth}`,
+      amount: -parseFloat(payment.amount),
+      date: null,
+      keywords: ['tva', 'dgfip', 'impots'],
+    })),
+    ...pendingUrssaf.map((payment) => ({
+      type: 'urssaf' as const,
+      id: payment.id,
+      label: `Urssaf ${urssafPeriodOf(payment).label}`,
+      amount: -parseFloat(payment.amount),
+      date: null,
+      keywords: ['urssaf'],
+    })),
+    ...pendingIncomeTax.map((payment) => ({
+      type: 'income_tax' as const,
+      id: payment.id,
+      label: `Impôt sur le revenu ${payment.year}`,
+      amount: -parseFloat(payment.amount),
+      date: null,
+      keywords: ['dgfip', 'impot', 'impots'],
+    })),
+  ]
+}
+
+const statusTables = {
+  tva: taxPayments,
+  urssaf: urssafPayments,
+  income_tax: incomeTaxPayments,
+} as const
+
+// A match refused once the rows are locked; rolls the transaction back
+class MatchRejectedError extends Error {
+  constructor(public readonly statusCode: 400 | 404 | 409, message: string) {
+    super(message)
+  }
+}
+
+// Expenses and tax payments are settled by a single bank line of the same amount
+function checkMatchedAmount(amount: number, expected: number) {
+  if (Math.abs(amount - expected) > 0.005) {
+    throw new MatchRejectedError(400, `Le montant ne correspond pas au paiement attendu (${Math.abs(expected).toFixed(2)} €)`)
+  }
+}
+
+export async function bankRoutes(fastify: FastifyInstance) {
+  // Import a CSV, OFX or CAMT.053 statement; lines already imported are skipped
+  fastify.post(
+    '/api/bank/import',
+    { preHandler: [requireAuth], bodyLimit: 10 * 1024 * 1024 },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = importStatementSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { content, mapping } = parseResult.data
+      const format = parseResult.data.format ?? detectStatementFormat(content)
+      const userId = request.authUser.userId
+
+      let statement
+      try {
+        statement = parseStatement(content, format, mapping)
+      } catch (error) {
+        if (error instanceof StatementParseError) {
+          return reply.status(400).send({ message: error.message })
+        }
+        throw error
+      }
+
+      const hashes = computeImportHashes(statement.transactions)
+      const inserted = statement.transactions.length === 0 ? [] : await db
+        .insert(bankTransactions)
+        .values(statement.transactions.map((transaction, index) => ({
+          userId,
+          date: transaction.date,
+          amount: transaction.amount.toFixed(2),
+          label: transaction.label,
+          counterparty: transaction.counterparty,
+          reference: transaction.reference,
+          source: format,
+          importHash: hashes[index],
+        })))
+        .onConflictDoNothing()
+        .returning({ id: bankTransactions.id })
+
+      // A closing balance newer than the recorded one becomes the new anchor
+      if (statement.closingBalance) {
+        const { amount, date } = statement.closingBalance
+        const existing = await db.query.accountBalances.findFirst({
+          where: eq(accountBalances.userId, userId),
+        })
+        if (!existing) {
+          await db.insert(accountBalances).values({ userId, balance: amount.toFixed(2), balanceDate: date })
+        } else if (!existing.balanceDate || existing.balanceDate <= date) {
+          await db
+            .update(accountBalances)
+            .set({ balance: amount.toFixed(2), balanceDate: date, updatedAt: new Date() })
+            .where(eq(accountBalances.userId, userId))
+        }
+      }
+
+      return reply.status(201).send({
+        format,
+        imported: inserted.length,
+        duplicates: statement.transactions.length - inserted.length,
+      })
+    }
+  )
+
+  // List transactions, with match suggestions for those still to reconcile
+  fastify.get(
+    '/api/bank/transactions',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = listQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { status, limit, offset } = parseResult.data
+      const userId = request.authUser.userId
+
+      const conditions = [eq(bankTransactions.userId, userId)]
+      if (status) {
+        conditions.push(eq(bankTransactions.status, status))
+      }
+
+      const results = await db
+        .select()
+        .from(bankTransactions)
+        .where(and(...conditions))
+        .orderBy(desc(bankTransactions.date), desc(bankTransactions.createdAt))
+        .limit(limit)
+        .offset(offset)
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(bankTransactions)
+        .where(and(...conditions))
+
+      const candidates = results.some((row) => row.status === 'unmatched')
+        ? await getMatchCandidates(userId)
+        : []
+
+      return {
+        data: results.map((row) => ({
+          ...row,
+          suggestions: row.status === 'unmatched'
+            ? suggestMatches({ ...row, amount: parseFloat(row.amount) }, candidates)
+            : [],
+        })),
+        total: Number(countResult[0].count),
+        limit,
+        offset,
+      }
+    }
+  )
+
+  // Confirm a match and settle the matched record
+  fastify.post(
+    '/api/bank/transactions/:id/match',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = matchTransactionSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const transaction = await db.query.bankTransactions.findFirst({
+        where: and(eq(bankTransactions.id, id), eq(bankTransactions.userId, userId)),
+      })
+
+      if (!transaction) {
+        return reply.status(404).send({ message: 'Transaction non trouvée' })
+      }
+
+      if (transaction.status === 'matched') {
+        return reply.status(409).send({ message: 'Cette transaction est déjà rapprochée' })
+      }
+
+      const { type, id: matchId } = parseResult.data
+
+      try {
+        return await db.transaction(async (tx) => {
+          // A concurrent match of the same line (a double click) waits on the lock, then finds it matched
+          const [locked] = await tx
+            .select({ status: bankTransactions.status })
+            .from(bankTransactions)
+            .where(eq(bankTransactions.id, transaction.id))
+            .for('update')
+          if (locked.status === 'matched') {
+            throw new MatchRejectedError(409, 'Cette transaction est déjà rapprochée')
+          }
+
+          let amount = parseFloat(transaction.amount)
+
+          if (type === 'invoice') {
+            const [invoice] = await tx
+              .select()
+              .from(invoices)
+              .where(and(eq(invoices.id, matchId), eq(invoices.userId, userId)))
+              .for('update')
+            if (!invoice) {
+              throw new MatchRejectedError(404, 'Facture non trouvée')
+            }
+
+            const sign = invoice.type === 'credit_note' ? -1 : 1
+            const payments = await getInvoicePayments(tx, invoice.id)
+            const outstanding = getOutstandingAmount(
+              parseFloat(invoice.amountTtc),
+              payments.map((payment) => ({ paymentDate: payment.paymentDate, amount: parseFloat(payment.amount) }))
+            )
+
+            // Payments are recorded in the invoice currency; exchange differences
+            // on the euros actually received are not tracked, so the conversion is capped at the balance
+            if (invoice.currency !== DEFAULT_CURRENCY) {
+              const converted = roundCents(amount * parseFloat(invoice.exchangeRate))
+              amount = sign * Math.min(converted * sign, outstanding * sign)
+            }
+
+            if (amount * sign <= 0 || roundCents(amount * sign) > outstanding * sign) {
+              throw new MatchRejectedError(
+                400,
+                `Le montant ne correspond pas au reste à ${sign < 0 ? 'rembourser' : 'payer'} (${(outstanding * sign).toFixed(2)} ${invoice.currency === DEFAULT_CURRENCY ? '€' : invoice.currency})`
+              )
+            }
+
+            await tx.insert(invoicePayments).values({
+              invoiceId: matchId,
+              paymentDate: transaction.date,
+              amount: amount.toFixed(2),
+              method: 'transfer',
+              reference: (transaction.reference ?? transaction.label).slice(0, 255),
+              bankTransactionId: transaction.id,
+            })
+            await syncInvoicePaymentDate(tx, matchId, invoice.amountTtc)
+          } else if (type === 'expense') {
+            const [expense] = await tx
+              .select()
+              .from(expenses)
+              .where(and(eq(expenses.id, matchId), eq(expenses.userId, userId)))
+              .for('update')
+            if (!expense) {
+              throw new MatchRejectedError(404, 'Dépense non trouvée')
+            }
+
+            const [matchedBy] = await tx
+              .select({ id: bankTransactions.id })
+              .from(bankTransactions)
+              .where(and(eq(bankTransactions.matchType, 'expense'), eq(bankTransactions.matchId, expense.id)))
+              .limit(1)
+            if (matchedBy) {
+              throw new MatchRejectedError(409, 'Cette dépense est déjà rapprochée d\'une autre transaction')
+            }
+
+            const expected = -toEur(parseFloat(expense.amountHt) + parseFloat(expense.taxAmount), parseFloat(expense.exchangeRate))
+            checkMatchedAmount(amount, expected)
+          } else {
+            const table = statusTables[type]
+            const [record] = await tx
+              .select({ id: table.id, amount: table.amount })
+              .from(table)
+              .where(and(eq(table.id, matchId), eq(table.userId, userId)))
+              .for('update')
+            if (!record) {
+              throw new MatchRejectedError(404, 'Paiement non trouvé')
+            }
+
+            checkMatchedAmount(amount, -parseFloat(record.amount))
+            await tx
+              .update(table)
+              .set({ status: 'paid', paymentDate: transaction.date })
+              .where(eq(table.id, matchId))
+          }
+
+          const [row] = await tx
+            .update(bankTransactions)
+            .set({ status: 'matched', matchType: type, matchId })
+            .where(and(eq(bankTransactions.id, transaction.id), ne(bankTransactions.status, 'matched')))
+            .returning()
+          if (!row) {
+            throw new MatchRejectedError(409, 'Cette transaction est déjà rapprochée')
+          }
+          return row
+        })
+      } catch (error) {
+        if (error instanceof MatchRejectedError) {
+          return reply.status(error.statusCode).send({ message: error.message })
+        }
+        throw error
+      }
+    }
+  )
+
+  // Undo a match: the matched record goes back to unpaid
+  fastify.post(
+    '/api/bank/transactions/:id/unmatch',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const transaction = await db.query.bankTransactions.findFirst({
+        where: and(eq(bankTransactions.id, id), eq(bankTransactions.userId, userId)),
+      })
+
+      if (!transaction) {
+        return reply.status(404).send({ message: 'Transaction non trouvée' })
+      }
+
+      const matchType = transaction.matchType as MatchType | null
+      const matchId = transaction.matchId
+
+      const updated = await db.transaction(async (tx) => {
+        if (matchType === 'invoice' && matchId) {
+          await tx.delete(invoicePayments).where(eq(invoicePayments.bankTransactionId, transaction.id))
+          const invoice = await tx.query.invoices.findFirst({ where: eq(invoices.id, matchId) })
+          if (invoice) {
+            await syncInvoicePaymentDate(tx, invoice.id, invoice.amountTtc)
+          }
+        } else if ((matchType === 'tva' || matchType === 'urssaf' || matchType === 'income_tax') && matchId) {
+          const table = statusTables[matchType]
+          await tx
+            .update(table)
+            .set({ status: 'pending', paymentDate: null })
+            .where(eq(table.id, matchId))
+        }
+
+        const [row] = await tx
+          .update(bankTransactions)
+          .set({ status: 'unmatched', matchType: null, matchId: null })
+          .where(eq(bankTransactions.id, id))
+          .returning()
+        return row
+      })
+
+      return updated
+    }
+  )
+
+  // Set aside a line that settles nothing tracked here (bank fees, transfers...)
+  fastify.post(
+    '/api/bank/transactions/:id/ignore',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const transaction = await db.query.bankTransactions.findFirst({
+        where: and(eq(bankTransactions.id, id), eq(bankTransactions.userId, userId)),
+      })
+
+      if (!transaction) {
+        return reply.status(404).send({ message: 'Transaction non trouvée' })
+      }
+
+      if (transaction.status === 'matched') {
+        return reply.status(409).send({ message: 'Annulez le rapprochement avant d\'ignorer cette transaction' })
+      }
+
+      const [updated] = await db
+        .update(bankTransactions)
+        .set({ status: 'ignored' })
+        .where(eq(bankTransactions.id, id))
+        .returning()
+
+      return updated
+    }
+  )
+
+  // Delete an imported line
+  fastify.delete(
+    '/api/bank/transactions/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const transaction = await db.query.bankTransactions.findFirst({
+        where: and(eq(bankTransactions.id, id), eq(bankTransactions.userId, userId)),
+      })
+
+      if (!transaction) {
+        return reply.status(404).send({ message: 'Transaction non trouvée' })
+      }
+
+      if (transaction.status === 'matched') {
+        return reply.status(409).send({ message: 'Annulez le rapprochement avant de supprimer cette transaction' })
+      }
+
+      await db
+        .delete(bankTransactions)
+        .where(and(eq(bankTransactions.id, id), eq(bankTransactions.userId, userId)))
+
+      return reply.status(204).send()
+    }
+  )
+}
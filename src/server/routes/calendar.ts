@@ -0,0 +1,187 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import crypto from 'crypto'
+import { z } from 'zod'
+import { eq, and, inArray } from 'drizzle-orm'
+import { db } from '../db'
+import { calendarFeeds, settings, taxPayments, urssafPayments } from '../db/schema'
+import { requireAuth } from '../auth/middleware'
+import { getFranchiseMonitoring } from '../services/tva-franchise'
+import { getTvaFilingRegime } from '../services/tva-periods'
+import { getUrssafPeriodicity, urssafPeriodOf } from '../services/urssaf-periods'
+import { getVersementLiberatoire } from '../services/urssaf-contributions'
+import { buildFiscalCalendar, calendarYears, toICalendar } from '../services/fiscal-calendar'
+import type { FiscalCalendarYear, FiscalEvent } from '../services/fiscal-calendar'
+import { getCa12Installments } from './tva'
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)')
+
+// Longest range of one request, each year computing its TVA installments
+const MAX_CALENDAR_YEARS = 3
+
+const calendarQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+}).refine(
+  (data) => !data.from || !data.to || data.from <= data.to,
+  { message: 'La date de début doit précéder la date de fin' }
+)
+
+function addYears(date: string, years: number): string {
+  return `${Number(date.substring(0, 4)) + years}${date.substring(4)}`
+}
+
+// Deadlines of a user between two dates, with the payments recorded against them
+export async function getFiscalCalendar(userId: string, from: string, to: string, today: string): Promise<FiscalEvent[]> {
+  const userSettings = await db.query.settings.findFirst({
+    where: eq(settings.userId, userId),
+  })
+  const years = calendarYears(from, to)
+
+  // Franchise en base: no TVA return until TVA is charged; years without receipts yet keep
+  // the state of the previous one
+  const calendarYearsData: FiscalCalendarYear[] = []
+  let franchise = false
+  for (const year of years) {
+    const monitoring = await getFranchiseMonitoring(userId, year)
+    franchise = monitoring.receiptsHt > 0 ? monitoring.applies : franchise
+    const tvaFrom = !franchise
+      ? `${year}-01-01`
+      : monitoring.tvaDueFrom && monitoring.tvaDueFrom.date <= `${year}-12-31` ? monitoring.tvaDueFrom.date : null
+    const regime = await getTvaFilingRegime(db, userId, year)
+
+    calendarYearsData.push({
+      year,
+      urssafPeriodicity: await getUrssafPeriodicity(db, userId, year),
+      tva: tvaFrom
+        ? { regime, from: tvaFrom, installments: regime === 'annual' ? await getCa12Installments(userId, year) : [] }
+        : null,
+      versementLiberatoire: await getVersementLiberatoire(userId, year),
+    })
+  }
+
+  const urssafRows = await db
+    .select()
+    .from(urssafPayments)
+    .where(and(eq(urssafPayments.userId, userId), inArray(urssafPayments.year, years)))
+  const tvaRows = await db
+    .select()
+    .from(taxPayments)
+    .where(eq(taxPayments.userId, userId))
+
+  return buildFiscalCalendar({
+    years: calendarYearsData,
+    businessStartDate: userSettings?.businessStartDate ?? null,
+    urssafPayments: urssafRows.map((payment) => ({
+      key: urssafPeriodOf(payment).key,
+      amount: parseFloat(payment.amount),
+      status: payment.status === 'paid' ? 'paid' : 'pending',
+    })),
+    tvaPayments: tvaRows.map((payment) => ({
+      key: payment.periodMonth,
+      amount: parseFloat(payment.amount),
+      status: payment.status === 'paid' ? 'paid' : 'pending',
+    })),
+    from,
+    to,
+    today,
+  })
+}
+
+export async function calendarRoutes(fastify: FastifyInstance) {
+  // Fiscal deadlines between two dates, the next twelve months by default
+  fastify.get(
+    '/api/calendar',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = calendarQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const today = new Date().toISOString().split('T')[0]
+      const from = parseResult.data.from ?? today
+      const to = parseResult.data.to ?? addYears(from, 1)
+      if (to > addYears(from, MAX_CALENDAR_YEARS)) {
+        return reply.status(400).send({
+          message: `La période ne peut pas dépasser ${MAX_CALENDAR_YEARS} ans`,
+        })
+      }
+
+      const events = await getFiscalCalendar(request.authUser.userId, from, to, today)
+      return { from, to, events }
+    }
+  )
+
+  // Token of the iCalendar feed, null until the feed is enabled
+  fastify.get(
+    '/api/calendar/feed',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest) => {
+      const feed = await db.query.calendarFeeds.findFirst({
+        where: eq(calendarFeeds.userId, request.authUser.userId),
+      })
+      return { token: feed?.token ?? null }
+    }
+  )
+
+  // Enable the feed, or replace its token so the previous address stops working
+  fastify.post(
+    '/api/calendar/feed',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const token = crypto.randomBytes(32).toString('hex')
+      const [feed] = await db
+        .insert(calendarFeeds)
+        .values({ userId: request.authUser.userId, token })
+        .onConflictDoUpdate({
+          target: calendarFeeds.userId,
+          set: { token, createdAt: new Date() },
+        })
+        .returning()
+
+      return reply.status(201).send({ token: feed.token })
+    }
+  )
+
+  // Disable the feed
+  fastify.delete(
+    '/api/calendar/feed',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      await db.delete(calendarFeeds).where(eq(calendarFeeds.userId, request.authUser.userId))
+      return reply.status(204).send()
+    }
+  )
+
+  // iCalendar feed for calendar applications, authenticated by its token alone: the previous
+  // year and the next one
+  fastify.get(
+    '/api/calendar/feed/:token',
+    async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+      const token = request.params.token.replace(/\.ics$/, '')
+      const feed = await db.query.calendarFeeds.findFirst({
+        where: eq(calendarFeeds.token, token),
+      })
+      if (!feed) {
+        return reply.status(404).send({ message: 'Calendrier introuvable' })
+      }
+
+      const now = new Date()
+      const year = now.getFullYear()
+      const events = await getFiscalCalendar(
+        feed.userId,
+        `${year - 1}-01-01`,
+        `${year + 1}-12-31`,
+        now.toISOString().split('T')[0]
+      )
+
+      return reply
+        .header('Content-Type', 'text/calendar; charset=utf-8')
+        .header('Content-Disposition', 'inline; filename="echeances-fiscales.ics"')
+        .header('Cache-Control', 'private, max-age=3600')
+        .send(toICalendar(events, { name: 'Échéances fiscales', uidSuffix: `${feed.userId}@business-finance`, now }))
+    }
+  )
+}
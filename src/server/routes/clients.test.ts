@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createTestApp, createTestToken } from '../test-utils'
+import { createClientSchema, updateClientSchema, clientRoutes } from './clients'
+
+// ─── Pure unit tests: Zod schemas ───────────────────────────────────
+
+describe('createClientSchema', () => {
+  const validClient = {
+    name: 'Acme SAS',
+    address: '1 avenue des Champs',
+    postalCode: '75008',
+    city: 'Paris',
+    country: 'FR',
+    siren: '987654321',
+    siret: '98765432100015',
+    tvaNumber: 'FR12987654321',
+    email: 'compta@acme.fr',
+    paymentTermsDays: 45,
+    defaultTaxRate: 20,
+  }
+
+  it('accepts a complete client', () => {
+    expect(createClientSchema.safeParse(validClient).success).toBe(true)
+  })
+
+  it('accepts a name-only client', () => {
+    expect(createClientSchema.safeParse({ name: 'Jean Martin' }).success).toBe(true)
+  })
+
+  it('rejects an empty name', () => {
+    expect(createClientSchema.safeParse({ name: '  ' }).success).toBe(false)
+  })
+
+  it('rejects a lowercase country code', () => {
+    expect(createClientSchema.safeParse({ ...validClient, country: 'fr' }).success).toBe(false)
+  })
+
+  it('rejects a SIRET that does not start with the SIREN', () => {
+    expect(createClientSchema.safeParse({ ...validClient, siret: '12345678900012' }).success).toBe(false)
+  })
+
+  it('rejects payment terms above 60 days', () => {
+    expect(createClientSchema.safeParse({ ...validClient, paymentTermsDays: 90 }).success).toBe(false)
+  })
+
+  it('checks the TVA number format of the client country', () => {
+    expect(createClientSchema.safeParse({ ...validClient, country: 'DE', tvaNumber: 'DE123456789' }).success).toBe(true)
+    expect(createClientSchema.safeParse({ ...validClient, country: 'DE', tvaNumber: 'DE12345678' }).success).toBe(false)
+    expect(createClientSchema.safeParse({ ...validClient, country: 'BE', tvaNumber: 'FR12987654321' }).success).toBe(false)
+  })
+})
+
+describe('updateClientSchema', () => {
+  it('accepts partial updates', () => {
+    expect(updateClientSchema.safeParse({ city: 'Lyon' }).success).toBe(true)
+  })
+
+  it('accepts clearing optional fields', () => {
+    expect(updateClientSchema.safeParse({ tvaNumber: null, defaultTaxRate: null }).success).toBe(true)
+  })
+})
+
+// ─── Route tests with fastify.inject() ─────────────────────────────
+
+vi.mock('../db', () => ({
+  db: {
+    query: {
+      clients: {
+        findFirst: vi.fn().mockResolvedValue(null),
+      },
+    },
+    insert: vi.fn().mockReturnValue({
+      values: vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([{ id: 'client-id', name: 'Acme SAS' }]),
+      }),
+    }),
+  },
+}))
+
+describe('client routes', () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>
+  let token: string
+
+  beforeAll(async () => {
+    app = await createTestApp(async (fastify) => {
+      await fastify.register(clientRoutes)
+    })
+    token = createTestToken(app)
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('returns 401 without auth', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/clients' })
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('returns 201 when creating a client', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/clients',
+      payload: { name: 'Acme SAS' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(201)
+  })
+
+  it('returns 409 for a duplicate name', async () => {
+    const { db } = await import('../db')
+    vi.mocked(db.query.clients.findFirst).mockResolvedValueOnce({ id: 'client-id', name: 'Acme SAS' } as any)
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/clients',
+      payload: { name: 'Acme SAS' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+  })
+
+  it('returns 404 when client not found', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/clients/nonexistent-id',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('returns 404 when deleting an unknown client', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: '/api/clients/nonexistent-id',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(404)
+  })
+})
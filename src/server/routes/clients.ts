@@ -0,0 +1,266 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { eq, and, ne, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { clients, invoices, quotes } from '../db/schema'
+import { requireAuth } from '../auth/middleware'
+import { EU_COUNTRIES, checkVatNumber } from '../services/tva-regimes'
+
+const clientBodySchema = z.object({
+  name: z.string().trim().min(1, 'Le nom du client est requis').max(255),
+  address: z.string().nullable().optional(),
+  postalCode: z.string().max(20).nullable().optional(),
+  city: z.string().max(100).nullable().optional(),
+  country: z.string().regex(/^[A-Z]{2}$/, 'Code pays invalide (ISO 3166, ex : FR)').optional(),
+  siren: z.string().regex(/^\d{9}$/, 'Le SIREN doit contenir 9 chiffres').nullable().optional(),
+  siret: z.string().regex(/^\d{14}$/, 'Le SIRET doit contenir 14 chiffres').nullable().optional(),
+  tvaNumber: z.string().regex(/^[A-Z]{2}[0-9A-Z+*.]{2,13}$/, 'Numéro de TVA intracommunautaire invalide').nullable().optional(),
+  email: z.string().email('Email invalide').nullable().optional(),
+  paymentTermsDays: z.number().int().min(0).max(60, 'Le délai de paiement ne peut pas dépasser 60 jours').nullable().optional(),
+  paymentTermsEndOfMonth: z.boolean().nullable().optional(),
+  defaultTaxRate: z.number().min(0, 'Le taux de TVA ne peut pas être négatif').max(100, 'Le taux de TVA ne peut pas dépasser 100%').nullable().optional(),
+})
+
+export const createClientSchema = clientBodySchema
+  .refine(
+    (data) => !data.siren || !data.siret || data.siret.startsWith(data.siren),
+    { message: 'Le SIRET doit commencer par le SIREN', path: ['siret'] }
+  )
+  .refine(
+    (data) => !data.paymentTermsEndOfMonth || (data.paymentTermsDays ?? 0) <= 45,
+    { message: 'Un délai fin de mois ne peut pas dépasser 45 jours', path: ['paymentTermsDays'] }
+  )
+  .superRefine((data, ctx) => {
+    // EU numbers follow a per-country format; other countries keep the generic pattern
+    const country = data.country ?? 'FR'
+    if (!data.tvaNumber || !EU_COUNTRIES.has(country)) return
+    const issue = checkVatNumber(data.tvaNumber, country)
+    if (issue) ctx.addIssue({ code: 'custom', message: issue, path: ['tvaNumber'] })
+  })
+
+export const updateClientSchema = clientBodySchema.partial()
+
+export const listClientsQuerySchema = z.object({
+  search: z.string().optional(),
+  limit: z.coerce.number().min(1).max(500).default(500),
+  offset: z.coerce.number().min(0).default(0),
+})
+
+type ClientInput = z.infer<typeof updateClientSchema>
+
+function toClientValues(data: ClientInput): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+
+  if (data.name !== undefined) values.name = data.name
+  if (data.address !== undefined) values.address = data.address || null
+  if (data.postalCode !== undefined) values.postalCode = data.postalCode || null
+  if (data.city !== undefined) values.city = data.city || null
+  if (data.country !== undefined) values.country = data.country
+  if (data.siren !== undefined) values.siren = data.siren
+  if (data.siret !== undefined) values.siret = data.siret
+  if (data.tvaNumber !== undefined) values.tvaNumber = data.tvaNumber
+  if (data.email !== undefined) values.email = data.email
+  if (data.paymentTermsDays !== undefined) values.paymentTermsDays = data.paymentTermsDays
+  if (data.paymentTermsEndOfMonth !== undefined) values.paymentTermsEndOfMonth = data.paymentTermsEndOfMonth
+  if (data.defaultTaxRate !== undefined) {
+    values.defaultTaxRate = data.defaultTaxRate === null ? null : data.defaultTaxRate.toFixed(2)
+  }
+
+  return values
+}
+
+export async function clientRoutes(fastify: FastifyInstance) {
+  // List clients
+  fastify.get(
+    '/api/clients',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = listClientsQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { search, limit, offset } = parseResult.data
+      const userId = request.authUser.userId
+
+      const conditions = [eq(clients.userId, userId)]
+      if (search) {
+        conditions.push(sql`${clients.name} ILIKE ${`%${search}%`}`)
+      }
+
+      const results = await db
+        .select({
+          client: clients,
+          invoiceCount: sql<number>`(SELECT count(*) FROM ${invoices} WHERE ${invoices.clientId} = ${clients.id})`,
+        })
+        .from(clients)
+        .where(and(...conditions))
+        .orderBy(clients.name)
+        .limit(limit)
+        .offset(offset)
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(clients)
+        .where(and(...conditions))
+
+      return {
+        data: results.map((row) => ({ ...row.client, invoiceCount: Number(row.invoiceCount) })),
+        total: Number(countResult[0].count),
+        limit,
+        offset,
+      }
+    }
+  )
+
+  // Get single client
+  fastify.get(
+    '/api/clients/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const client = await db.query.clients.findFirst({
+        where: and(eq(clients.id, id), eq(clients.userId, userId)),
+      })
+
+      if (!client) {
+        return reply.status(404).send({ message: 'Client non trouvé' })
+      }
+
+      return client
+    }
+  )
+
+  // Create client
+  fastify.post(
+    '/api/clients',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = createClientSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const data = parseResult.data
+      const userId = request.authUser.userId
+
+      const existing = await db.query.clients.findFirst({
+        where: and(eq(clients.userId, userId), eq(clients.name, data.name)),
+      })
+
+      if (existing) {
+        return reply.status(409).send({ message: 'Ce client existe déjà' })
+      }
+
+      const [client] = await db
+        .insert(clients)
+        .values({ ...toClientValues(data), userId, name: data.name })
+        .returning()
+
+      return reply.status(201).send(client)
+    }
+  )
+
+  // Update client
+  fastify.put(
+    '/api/clients/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = updateClientSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const existing = await db.query.clients.findFirst({
+        where: and(eq(clients.id, id), eq(clients.userId, userId)),
+      })
+
+      if (!existing) {
+        return reply.status(404).send({ message: 'Client non trouvé' })
+      }
+
+      const data = parseResult.data
+
+      if (data.name !== undefined && data.name !== existing.name) {
+        const duplicate = await db.query.clients.findFirst({
+          where: and(eq(clients.userId, userId), eq(clients.name, data.name), ne(clients.id, id)),
+        })
+
+        if (duplicate) {
+          return reply.status(409).send({ message: 'Ce client existe déjà' })
+        }
+      }
+
+      const siren = data.siren !== undefined ? data.siren : existing.siren
+      const siret = data.siret !== undefined ? data.siret : existing.siret
+      if (siren && siret && !siret.startsWith(siren)) {
+        return reply.status(400).send({ message: 'Le SIRET doit commencer par le SIREN' })
+      }
+
+      const [updated] = await db
+        .update(clients)
+        .set({ ...toClientValues(data), updatedAt: new Date() })
+        .where(and(eq(clients.id, id), eq(clients.userId, userId)))
+        .returning()
+
+      return updated
+    }
+  )
+
+  // Delete client (only when no invoice or quote references it)
+  fastify.delete(
+    '/api/clients/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const existing = await db.query.clients.findFirst({
+        where: and(eq(clients.id, id), eq(clients.userId, userId)),
+      })
+
+      if (!existing) {
+        return reply.status(404).send({ message: 'Client non trouvé' })
+      }
+
+      const invoiceCount = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(invoices)
+        .where(eq(invoices.clientId, id))
+
+      if (Number(invoiceCount[0].count) > 0) {
+        return reply.status(409).send({
+          message: 'Ce client est utilisé par des factures et ne peut pas être supprimé',
+        })
+      }
+
+      const quoteCount = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(quotes)
+        .where(eq(quotes.clientId, id))
+
+      if (Number(quoteCount[0].count) > 0) {
+        return reply.status(409).send({
+          message: 'Ce client est utilisé par des devis et ne peut pas être supprimé',
+        })
+      }
+
+      await db
+        .delete(clients)
+        .where(and(eq(clients.id, id), eq(clients.userId, userId)))
+
+      return reply.status(204).send()
+    }
+  )
+}
@@ -2,37 +2,32 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { eq, and, gte, lte, sql } from 'drizzle-orm'
 import { db } from '../db'
-import { invoices, expenses, taxPayments, urssafPayments, incomeTaxPayments, settings, yearlyRates } from '../db/schema'
+import { expenses, taxPayments, urssafPayments, incomeTaxPayments } from '../db/schema'
 import { requireAuth } from '../auth/middleware'
+import { getCashReceived, getCashReceivedByActivity } from '../services/invoice-payments'
+import { eurAmount } from '../services/currency'
+import { getTvaCreditBalance } from '../services/tva-credits'
+import { getFranchiseMonitoring } from '../services/tva-franchise'
+import { getMicroCeilingMonitoring } from '../services/micro-ceiling'
+import { componentTotal, getContributionOptions, urssafContributions } from '../services/urssaf-contributions'
+import { getIncomeTaxEstimate } from '../services/income-tax'
+import type { IncomeTaxEstimate } from '../services/income-tax'
+import { getUrssafPeriodicity, urssafPeriodOf, urssafPeriodOfMonth } from '../services/urssaf-periods'
+import { getFiscalCalendar } from './calendar'
 
 const querySchema = z.object({
   year: z.coerce.number().min(2000).max(2100),
   month: z.coerce.number().min(1).max(12),
 })
 
-async function getRatesForYear(userId: string, year: number) {
-  const customRates = await db.query.yearlyRates.findFirst({
-    where: and(
-      eq(yearlyRates.userId, userId),
-      eq(yearlyRates.year, year)
-    ),
-  })
-
-  if (customRates) {
-    return {
-      urssafRate: parseFloat(customRates.urssafRate),
-      taxRate: parseFloat(customRates.estimatedTaxRate),
-    }
-  }
-
-  const userSettings = await db.query.settings.findFirst({
-    where: eq(settings.userId, userId),
-  })
+const yearQuerySchema = z.object({
+  year: z.coerce.number().min(2000).max(2100),
+})
 
-  return {
-    urssafRate: userSettings ? parseFloat(userSettings.urssafRate) : 22,
-    taxRate: userSettings ? parseFloat(userSettings.estimatedTaxRate) : 11,
-  }
+// Income tax attributable to the business for the revenue of a period: the share of the yearly
+// estimate of the income tax page matching the revenue of the period
+function incomeTaxForRevenue(estimate: IncomeTaxEstimate, revenueHt: number): number {
+  return estimate.totalRevenue > 0 ? estimate.businessShare * revenueHt / estimate.totalRevenue : 0
 }
 
 export async function dashboardRoutes(fastify: FastifyInstance) {
@@ -56,33 +51,18 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
       const lastDay = new Date(year, month, 0).getDate()
       const endDate = `${year}-${month.toString().padStart(2, '0')}-${lastDay.toString().padStart(2, '0')}`
 
-      const { urssafRate, taxRate } = await getRatesForYear(userId, year)
-
-      // Get invoice totals for the month (based on payment date)
-      const invoiceResult = await db
-        .select({
-          totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-          totalTtc: sql<string>`COALESCE(SUM(${invoices.amountTtc}::numeric), 0)`,
-        })
-        .from(invoices)
-        .where(
-          and(
-            eq(invoices.userId, userId),
-            eq(invoices.isCanceled, false),
-            gte(invoices.paymentDate, startDate),
-            lte(invoices.paymentDate, endDate)
-          )
-        )
+      const contributionOptions = await getContributionOptions(userId, year)
+      const incomeTax = await getIncomeTaxEstimate(userId, year)
 
-      const revenueHt = parseFloat(invoiceResult[0].totalHt)
-      const revenueTtc = parseFloat(invoiceResult[0].totalTtc)
-      const tvaCollected = revenueTtc - revenueHt
+      // Get invoice totals for the month (based on payments received)
+      const { totalHt: revenueHt, totalTtc: revenueTtc, tvaCollected } = await getCashReceived(userId, startDate, endDate)
+      const revenueByActivity = await getCashReceivedByActivity(userId, startDate, endDate)
 
       // Get non-recurring expense totals for the month
       const nonRecurringExpenseResult = await db
         .select({
-          totalHt: sql<string>`COALESCE(SUM(${expenses.amountHt}::numeric), 0)`,
-          recoverableTax: sql<string>`COALESCE(SUM(${expenses.taxAmount}::numeric * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
+          totalHt: sql<string>`COALESCE(SUM(${eurAmount(expenses.amountHt, expenses.exchangeRate)}), 0)`,
+          recoverableTax: sql<string>`COALESCE(SUM(${eurAmount(expenses.taxAmount, expenses.exchangeRate)} * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
         })
         .from(expenses)
         .where(
@@ -97,8 +77,8 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
       // Get recurring expenses that apply to this month
       const recurringExpensesList = await db
         .select({
-          amountHt: expenses.amountHt,
-          taxAmount: expenses.taxAmount,
+          amountHt: sql<string>`${eurAmount(expenses.amountHt, expenses.exchangeRate)}`,
+          taxAmount: sql<string>`${eurAmount(expenses.taxAmount, expenses.exchangeRate)}`,
           taxRecoveryRate: expenses.taxRecoveryRate,
           startMonth: expenses.startMonth,
           recurrencePeriod: expenses.recurrencePeriod,
@@ -145,9 +125,11 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
       const tvaRecoverable = nonRecurringTvaRecoverable + recurringTvaRecoverable
       const netTva = tvaCollected - tvaRecoverable
 
-      // Calculate estimates
-      const urssafEstimate = revenueHt * (urssafRate / 100)
-      const incomeTaxEstimate = revenueHt * (taxRate / 100)
+      // Calculate estimates; the versement libératoire collected by URSSAF is part of the income tax
+      const contributions = urssafContributions(revenueByActivity, contributionOptions, endDate)
+      const versementLiberatoire = componentTotal(contributions, 'versement_liberatoire')
+      const urssafEstimate = contributions.total - versementLiberatoire
+      const incomeTaxEstimate = incomeTaxForRevenue(incomeTax, revenueHt)
       const netRemaining = revenueHt - urssafEstimate - incomeTaxEstimate - expensesHt
 
       // Get pending TVA payments
@@ -164,6 +146,9 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         )
       const pendingTva = parseFloat(pendingTvaResult[0].total)
 
+      // TVA credit carried to the next returns (ledger of filed CA3)
+      const tvaCredit = await getTvaCreditBalance(db, userId)
+
       // Get pending Urssaf payments
       const pendingUrssafResult = await db
         .select({
@@ -178,58 +163,29 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         )
       const pendingUrssaf = parseFloat(pendingUrssafResult[0].total)
 
-      // Get upcoming payments (pending payments sorted by period/date)
-      const upcomingTvaPayments = await db
-        .select()
-        .from(taxPayments)
-        .where(
-          and(
-            eq(taxPayments.userId, userId),
-            eq(taxPayments.status, 'pending')
-          )
-        )
-        .orderBy(taxPayments.periodMonth)
-        .limit(3)
-
-      const upcomingUrssafPayments = await db
-        .select()
-        .from(urssafPayments)
-        .where(
-          and(
-            eq(urssafPayments.userId, userId),
-            eq(urssafPayments.status, 'pending')
-          )
-        )
-        .orderBy(urssafPayments.year, urssafPayments.trimester)
-        .limit(3)
-
-      // Helper to format period month as readable date
-      const formatPeriodMonth = (periodMonth: string) => {
-        const [y, m] = periodMonth.split('-')
-        const date = new Date(parseInt(y), parseInt(m) - 1, 1)
-        return date.toLocaleDateString('fr-FR', { year: 'numeric', month: 'long' })
-      }
-
-      const upcomingPayments: { type: 'tva' | 'urssaf'; amount: string; dueDate?: string; description: string }[] = [
-        ...upcomingTvaPayments.map((p) => ({
-          type: 'tva' as const,
-          amount: p.amount,
-          dueDate: p.periodMonth,
-          description: `TVA ${formatPeriodMonth(p.periodMonth)}`,
-        })),
-        ...upcomingUrssafPayments.map((p) => ({
-          type: 'urssaf' as const,
-          amount: p.amount,
-          dueDate: undefined,
-          description: `Urssaf T${p.trimester} ${p.year}`,
-        })),
-      ].sort((a, b) => {
-        // Sort by due date if available, otherwise by description
-        if (a.dueDate && b.dueDate) {
-          return a.dueDate.localeCompare(b.dueDate)
-        }
-        return a.description.localeCompare(b.description)
-      }).slice(0, 5)
+      // Next deadlines to pay from the fiscal calendar, those missed in the last year first
+      const today = new Date().toISOString().split('T')[0]
+      const todayYear = parseInt(today.substring(0, 4))
+      const deadlines = await getFiscalCalendar(
+        userId,
+        `${todayYear - 1}${today.substring(4)}`,
+        `${todayYear + 1}${today.substring(4)}`,
+        today
+      )
+      const upcomingPayments = deadlines
+        .filter((event) => event.type !== 'income_tax_return')
+        .filter((event) => event.status === 'overdue' || event.status === 'pending' || event.status === 'upcoming')
+        .slice(0, 5)
+        .map((event) => ({
+          type: event.type,
+          amount: event.amount,
+          dueDate: event.date,
+          description: event.title,
+          status: event.status,
+        }))
+
+      // Franchise en base thresholds, only for users invoicing without TVA
+      const franchise = await getFranchiseMonitoring(userId, year)
 
       return {
         month,
@@ -244,8 +200,10 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         expensesHt: expensesHt.toFixed(2),
         netRemaining: netRemaining.toFixed(2),
         pendingTva: pendingTva.toFixed(2),
+        tvaCredit: tvaCredit.toFixed(2),
         pendingUrssaf: pendingUrssaf.toFixed(2),
         upcomingPayments,
+        franchiseAlerts: franchise.applies ? franchise.alerts : [],
       }
     }
   )
@@ -255,10 +213,6 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
     '/api/dashboard/yearly',
     { preHandler: [requireAuth] },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const yearQuerySchema = z.object({
-        year: z.coerce.number().min(2000).max(2100),
-      })
-
       const parseResult = yearQuerySchema.safeParse(request.query)
       if (!parseResult.success) {
         return reply.status(400).send({
@@ -275,15 +229,16 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
       const currentMonth = now.getMonth() + 1
       const maxMonth = year === currentYear ? currentMonth : 12
 
-      const { urssafRate, taxRate } = await getRatesForYear(userId, year)
+      const contributionOptions = await getContributionOptions(userId, year)
+      const incomeTax = await getIncomeTaxEstimate(userId, year)
 
       // Get all recurring expenses for the year
       const yearStart = `${year}-01-01`
       const yearEnd = `${year}-12-31`
       const recurringExpensesList = await db
         .select({
-          amountHt: expenses.amountHt,
-          taxAmount: expenses.taxAmount,
+          amountHt: sql<string>`${eurAmount(expenses.amountHt, expenses.exchangeRate)}`,
+          taxAmount: sql<string>`${eurAmount(expenses.taxAmount, expenses.exchangeRate)}`,
           taxRecoveryRate: expenses.taxRecoveryRate,
           startMonth: expenses.startMonth,
           endMonth: expenses.endMonth,
@@ -370,8 +325,8 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         return { totalHt, totalTvaRecoverable }
       }
 
-      // Helper to get trimester for a month
-      const getTrimesterForMonth = (month: number) => Math.ceil(month / 3)
+      // Urssaf payments are declared per month or per quarter depending on the year
+      const urssafPeriodicity = await getUrssafPeriodicity(db, userId, year)
 
       // Build monthly breakdown
       const months = []
@@ -380,6 +335,7 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         urssafPaid: 0,
         urssafEstimated: 0,
         incomeTaxEstimated: 0,
+        versementLiberatoirePaid: 0,
         tvaPaid: 0,
         tvaEstimated: 0,
         remaining: 0,
@@ -392,30 +348,14 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         const periodMonth = `${year}-${month.toString().padStart(2, '0')}`
 
         // Get revenue for this month
-        const invoiceResult = await db
-          .select({
-            totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-            totalTtc: sql<string>`COALESCE(SUM(${invoices.amountTtc}::numeric), 0)`,
-          })
-          .from(invoices)
-          .where(
-            and(
-              eq(invoices.userId, userId),
-              eq(invoices.isCanceled, false),
-              gte(invoices.paymentDate, startDate),
-              lte(invoices.paymentDate, endDate)
-            )
-          )
-
-        const revenueHt = parseFloat(invoiceResult[0].totalHt)
-        const revenueTtc = parseFloat(invoiceResult[0].totalTtc)
-        const tvaCollected = revenueTtc - revenueHt
+        const { totalHt: revenueHt, tvaCollected } = await getCashReceived(userId, startDate, endDate)
+        const revenueByActivity = await getCashReceivedByActivity(userId, startDate, endDate)
 
         // Get non-recurring expenses for this month
         const nonRecurringResult = await db
           .select({
-            totalHt: sql<string>`COALESCE(SUM(${expenses.amountHt}::numeric), 0)`,
-            recoverableTax: sql<string>`COALESCE(SUM(${expenses.taxAmount}::numeric * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
+            totalHt: sql<string>`COALESCE(SUM(${eurAmount(expenses.amountHt, expenses.exchangeRate)}), 0)`,
+            recoverableTax: sql<string>`COALESCE(SUM(${eurAmount(expenses.taxAmount, expenses.exchangeRate)} * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
           })
           .from(expenses)
           .where(
@@ -436,12 +376,14 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         const tvaRecoverable = nonRecurringTva + recurring.totalTvaRecoverable
         const netTva = tvaCollected - tvaRecoverable
 
-        // Get Urssaf for this month's trimester
-        const trimester = getTrimesterForMonth(month)
-        const urssafPayment = urssafPaymentsList.find(p => p.trimester === trimester)
-        const urssafEstimate = revenueHt * (urssafRate / 100)
+        // Get Urssaf for this month's declaration period
+        const urssafPeriod = urssafPeriodOfMonth(year, month, urssafPeriodicity)
+        const urssafPayment = urssafPaymentsList.find(p => urssafPeriodOf(p).key === urssafPeriod.key)
+        const contributions = urssafContributions(revenueByActivity, contributionOptions, endDate)
+        const versementLiberatoire = componentTotal(contributions, 'versement_liberatoire')
+        const urssafEstimate = contributions.total - versementLiberatoire
 
-        // Always show estimated amount, but track if payment is done for the trimester
+        // Always show estimated amount, but track if payment is done for the period
         const urssafDisplay = urssafEstimate
         const urssafIsPaid = urssafPayment?.status === 'paid'
 
@@ -454,8 +396,8 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
           tvaIsPaid = true
         }
 
-        // Income tax estimate for this month
-        const incomeTaxEstimate = revenueHt * (taxRate / 100)
+        // Income tax estimate for this month, its share of the yearly estimate
+        const incomeTaxEstimate = incomeTaxForRevenue(incomeTax, revenueHt)
 
         // Calculate remaining (TVA is not subtracted as it's a pass-through: collected from clients, paid to state)
         const remaining = revenueHt - expensesHt - urssafDisplay - incomeTaxEstimate
@@ -476,6 +418,7 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         yearlyTotals.revenue += revenueHt
         if (urssafIsPaid) {
           yearlyTotals.urssafPaid += urssafEstimate
+          yearlyTotals.versementLiberatoirePaid += versementLiberatoire
         } else {
           yearlyTotals.urssafEstimated += urssafEstimate
         }
@@ -488,10 +431,10 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         yearlyTotals.remaining += remaining
       }
 
-      // Calculate total paid income tax for the year
+      // Calculate total paid income tax for the year, with the versement libératoire of the paid URSSAF periods
       const incomeTaxPaid = incomeTaxPaymentsList
         .filter(p => p.status === 'paid')
-        .reduce((sum, p) => sum + parseFloat(p.amount), 0)
+        .reduce((sum, p) => sum + parseFloat(p.amount), 0) + yearlyTotals.versementLiberatoirePaid
 
       // KPIs
       const kpis = {
@@ -506,12 +449,32 @@ export async function dashboardRoutes(fastify: FastifyInstance) {
         totalRemaining: yearlyTotals.remaining.toFixed(2),
       }
 
+      const franchise = await getFranchiseMonitoring(userId, year)
+
       return {
         year,
         currentMonth: year === currentYear ? currentMonth : null,
         kpis,
         months,
+        franchiseAlerts: franchise.applies ? franchise.alerts : [],
       }
     }
   )
+
+  // Micro-entreprise ceiling: prorated ceiling, revenue of the year and the previous one, projection
+  fastify.get(
+    '/api/dashboard/micro-ceiling',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = yearQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const today = new Date().toISOString().split('T')[0]
+      return getMicroCeilingMonitoring(request.authUser.userId, parseResult.data.year, today)
+    }
+  )
 }
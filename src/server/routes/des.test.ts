@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createTestApp, createTestToken } from '../test-utils'
+import { desExportQuerySchema, desRoutes } from './des'
+
+// ─── Pure unit tests: Zod schemas ───────────────────────────────────
+
+describe('desExportQuerySchema', () => {
+  it('defaults to the customs XML file', () => {
+    expect(desExportQuerySchema.parse({}).format).toBe('xml')
+  })
+
+  it('rejects unknown formats', () => {
+    expect(desExportQuerySchema.safeParse({ format: 'pdf' }).success).toBe(false)
+  })
+})
+
+// ─── Route tests with fastify.inject() ─────────────────────────────
+
+const { orderBy } = vi.hoisted(() => ({ orderBy: vi.fn().mockResolvedValue([]) }))
+
+vi.mock('../db', () => ({
+  db: {
+    query: {
+      issuerProfiles: {
+        findFirst: vi.fn().mockResolvedValue({ tvaNumber: 'FR12123456789' }),
+      },
+    },
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        innerJoin: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({ orderBy }),
+        }),
+      }),
+    }),
+  },
+}))
+
+function mockDesInvoices(rows: Record<string, unknown>[]) {
+  orderBy.mockResolvedValueOnce(rows)
+}
+
+const desInvoice = {
+  invoiceId: 'inv-1',
+  invoiceNumber: 'F2025-010',
+  invoiceDate: '2025-10-06',
+  clientId: 'client-de',
+  client: 'Berlin GmbH',
+  clientCountry: 'DE',
+  clientTvaNumber: 'DE123456789',
+  amountHt: '1500.00',
+}
+
+describe('DES routes', () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>
+  let token: string
+
+  beforeAll(async () => {
+    app = await createTestApp(async (fastify) => {
+      await fastify.register(desRoutes)
+    })
+    token = createTestToken(app)
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('returns 401 without auth', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/tva/des/2025-10' })
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('returns 400 for an invalid month', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/tva/des/2025-1',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('returns the declaration lines', async () => {
+    mockDesInvoices([desInvoice])
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/tva/des/2025-10',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toMatchObject({
+      month: '2025-10',
+      total: 1500,
+      issues: [],
+      lines: [{ lineNumber: 1, tvaNumber: 'DE123456789', amount: 1500 }],
+    })
+  })
+
+  it('exports the XML file', async () => {
+    mockDesInvoices([desInvoice])
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/tva/des/2025-10/export',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+    expect(response.headers['content-disposition']).toContain('des-2025-10.xml')
+    expect(response.body).toContain('<partner_des>DE123456789</partner_des>')
+  })
+
+  it('exports the CSV file', async () => {
+    mockDesInvoices([desInvoice])
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/tva/des/2025-10/export?format=csv',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+    expect(response.headers['content-type']).toContain('text/csv')
+    expect(response.body).toContain('1;DE123456789;1500;10;2025')
+  })
+
+  it('refuses to export invalid TVA numbers', async () => {
+    mockDesInvoices([{ ...desInvoice, clientTvaNumber: 'DE12' }])
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/tva/des/2025-10/export',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+    expect(response.json().issues).toHaveLength(1)
+  })
+
+  it('refuses to export an empty month', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/tva/des/2025-10/export',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+})
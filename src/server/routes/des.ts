@@ -0,0 +1,119 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { eq, and, gte, lte, ne, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { invoices, clients, issuerProfiles } from '../db/schema'
+import { requireAuth } from '../auth/middleware'
+import { eurAmount } from '../services/currency'
+import { DesValidationError, buildDesCsv, buildDesDeclaration, buildDesXml } from '../services/des'
+
+export const desParamsSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, 'Format de mois invalide (YYYY-MM)'),
+})
+
+export const desExportQuerySchema = z.object({
+  format: z.enum(['csv', 'xml'], { message: 'Format d\'export invalide (csv ou xml)' }).default('xml'),
+})
+
+// Reverse-charge invoices and credit notes of services dated in the month, with their client
+async function loadDesDeclaration(userId: string, month: string) {
+  const [year, monthNum] = month.split('-').map(Number)
+  const startDate = `${month}-01`
+  const lastDay = new Date(year, monthNum, 0).getDate()
+  const endDate = `${month}-${lastDay.toString().padStart(2, '0')}`
+
+  const rows = await db
+    .select({
+      invoiceId: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      invoiceDate: invoices.invoiceDate,
+      clientId: invoices.clientId,
+      client: invoices.client,
+      clientCountry: clients.country,
+      clientTvaNumber: clients.tvaNumber,
+      amountHt: sql<string>`ROUND(${eurAmount(invoices.amountHt, invoices.exchangeRate)}, 2)`,
+    })
+    .from(invoices)
+    .innerJoin(clients, eq(invoices.clientId, clients.id))
+    .where(
+      and(
+        eq(invoices.userId, userId),
+        eq(invoices.tvaRegime, 'intra_eu'),
+        ne(invoices.activityType, 'sales'), // Goods deliveries are not declared on the DES
+        gte(invoices.invoiceDate, startDate),
+        lte(invoices.invoiceDate, endDate)
+      )
+    )
+    .orderBy(invoices.invoiceDate)
+
+  const issuer = await db.query.issuerProfiles.findFirst({
+    where: eq(issuerProfiles.userId, userId),
+  })
+
+  return buildDesDeclaration(month, issuer?.tvaNumber ?? null, rows)
+}
+
+export async function desRoutes(fastify: FastifyInstance) {
+  // Déclaration européenne de services for a month
+  fastify.get(
+    '/api/tva/des/:month',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = desParamsSchema.safeParse(request.params)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      return loadDesDeclaration(request.authUser.userId, parseResult.data.month)
+    }
+  )
+
+  // Customs file (XML) or CSV of the declaration, refused while a line is invalid
+  fastify.get(
+    '/api/tva/des/:month/export',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const paramsResult = desParamsSchema.safeParse(request.params)
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          message: paramsResult.error.issues[0].message,
+        })
+      }
+
+      const queryResult = desExportQuerySchema.safeParse(request.query)
+      if (!queryResult.success) {
+        return reply.status(400).send({
+          message: queryResult.error.issues[0].message,
+        })
+      }
+
+      const { month } = paramsResult.data
+      const { format } = queryResult.data
+      const declaration = await loadDesDeclaration(request.authUser.userId, month)
+
+      if (declaration.lines.length === 0) {
+        return reply.status(400).send({ message: 'Aucune prestation intracommunautaire à déclarer pour ce mois' })
+      }
+      if (declaration.issues.length > 0) {
+        return reply.status(400).send({
+          message: new DesValidationError(declaration.issues).message,
+          issues: declaration.issues,
+        })
+      }
+
+      if (format === 'csv') {
+        return reply
+          .header('Content-Type', 'text/csv; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="des-${month}.csv"`)
+          .send(buildDesCsv(declaration))
+      }
+
+      return reply
+        .header('Content-Type', 'application/xml; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="des-${month}.xml"`)
+        .send(buildDesXml(declaration))
+    }
+  )
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createTestApp, createTestToken } from '../test-utils'
+import { createExchangeRateSchema, importExchangeRatesSchema, exchangeRateRoutes } from './exchange-rates'
+
+// ─── Pure unit tests: Zod schemas ───────────────────────────────────
+
+describe('createExchangeRateSchema', () => {
+  it('accepts a rate', () => {
+    expect(createExchangeRateSchema.safeParse({ currency: 'USD', date: '2025-10-17', rate: 1.1681 }).success).toBe(true)
+  })
+
+  it('rejects euros, lowercase codes and non-positive rates', () => {
+    expect(createExchangeRateSchema.safeParse({ currency: 'EUR', date: '2025-10-17', rate: 1 }).success).toBe(false)
+    expect(createExchangeRateSchema.safeParse({ currency: 'usd', date: '2025-10-17', rate: 1.1681 }).success).toBe(false)
+    expect(createExchangeRateSchema.safeParse({ currency: 'USD', date: '2025-10-17', rate: 0 }).success).toBe(false)
+  })
+})
+
+describe('importExchangeRatesSchema', () => {
+  it('rejects an empty file', () => {
+    expect(importExchangeRatesSchema.safeParse({ content: '' }).success).toBe(false)
+  })
+})
+
+// ─── Route tests with fastify.inject() ─────────────────────────────
+
+vi.mock('../db', () => ({
+  db: {
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([]),
+          }),
+        }),
+      }),
+    }),
+    insert: vi.fn().mockReturnValue({
+      values: vi.fn().mockReturnValue({
+        onConflictDoUpdate: vi.fn().mockReturnValue(
+          Object.assign(Promise.resolve(undefined), {
+            returning: vi.fn().mockResolvedValue([{ id: 'rate-id', currency: 'USD', rate: '1.168100' }]),
+          })
+        ),
+      }),
+    }),
+    delete: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([]),
+      }),
+    }),
+  },
+}))
+
+describe('exchange rate routes', () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>
+  let token: string
+
+  beforeAll(async () => {
+    app = await createTestApp(async (fastify) => {
+      await fastify.register(exchangeRateRoutes)
+    })
+    token = createTestToken(app)
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('returns 401 without auth', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/exchange-rates' })
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('returns a null rate when none is known for the date', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/exchange-rates/lookup?currency=USD&date=2025-10-17',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({ currency: 'USD', date: '2025-10-17', rate: null })
+  })
+
+  it('returns a rate of 1 for euros', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/exchange-rates/lookup?currency=EUR&date=2025-10-17',
+      cookies: { accessToken: token },
+    })
+    expect(response.json().rate).toBe('1.000000')
+  })
+
+  it('records a manual rate', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/exchange-rates',
+      payload: { currency: 'USD', date: '2025-10-17', rate: 1.1681 },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(201)
+  })
+
+  it('imports the selected currencies of an ECB file', async () => {
+    const { db } = await import('../db')
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/exchange-rates/import',
+      payload: {
+        content: 'Date,USD,GBP,JPY,\n2025-10-17,1.1681,0.86945,175.42,\n2025-10-16,1.1697,0.8712,176.1,\n',
+        currencies: ['USD', 'GBP'],
+        from: '2025-10-17',
+      },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(201)
+    expect(response.json()).toEqual({ imported: 2, currencies: ['GBP', 'USD'], from: '2025-10-17', to: '2025-10-17' })
+    const values = vi.mocked(db.insert).mock.results.at(-1)!.value.values
+    expect(values).toHaveBeenLastCalledWith([
+      expect.objectContaining({ currency: 'USD', rate: '1.168100', source: 'ecb' }),
+      expect.objectContaining({ currency: 'GBP', rate: '0.869450', source: 'ecb' }),
+    ])
+  })
+
+  it('returns 400 for a file that is not ECB rates', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/exchange-rates/import',
+      payload: { content: 'Jour;Montant\n01/01/2025;12' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('returns 404 when deleting an unknown rate', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: '/api/exchange-rates/nonexistent-id',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(404)
+  })
+})
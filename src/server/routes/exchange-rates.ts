@@ -0,0 +1,204 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { eq, and, desc, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { exchangeRates } from '../db/schema'
+import { requireAuth } from '../auth/middleware'
+import { DEFAULT_CURRENCY, ExchangeRateParseError, getExchangeRate, parseEcbRatesCsv } from '../services/currency'
+
+const currencySchema = z.string().regex(/^[A-Z]{3}$/, 'Devise invalide (code ISO à 3 lettres)')
+  .refine((currency) => currency !== DEFAULT_CURRENCY, { message: 'Les montants en euros n\'ont pas de taux de change' })
+
+export const createExchangeRateSchema = z.object({
+  currency: currencySchema,
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)'),
+  rate: z.number().positive('Le taux de change doit être positif'),
+})
+
+// The full ECB history goes back to 1999: keep only the currencies and period needed
+export const importExchangeRatesSchema = z.object({
+  content: z.string().min(1, 'Le fichier est vide'),
+  currencies: z.array(currencySchema).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
+})
+
+export const lookupQuerySchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Devise invalide (code ISO à 3 lettres)'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)'),
+})
+
+const listQuerySchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Devise invalide (code ISO à 3 lettres)').optional(),
+  limit: z.coerce.number().min(1).max(500).default(100),
+  offset: z.coerce.number().min(0).default(0),
+})
+
+const IMPORT_BATCH_SIZE = 1000
+
+export async function exchangeRateRoutes(fastify: FastifyInstance) {
+  // List recorded rates, latest first
+  fastify.get(
+    '/api/exchange-rates',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = listQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { currency, limit, offset } = parseResult.data
+      const userId = request.authUser.userId
+
+      const conditions = [eq(exchangeRates.userId, userId)]
+      if (currency) {
+        conditions.push(eq(exchangeRates.currency, currency))
+      }
+
+      const results = await db
+        .select()
+        .from(exchangeRates)
+        .where(and(...conditions))
+        .orderBy(desc(exchangeRates.date), exchangeRates.currency)
+        .limit(limit)
+        .offset(offset)
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(exchangeRates)
+        .where(and(...conditions))
+
+      return {
+        data: results,
+        total: Number(countResult[0].count),
+        limit,
+        offset,
+      }
+    }
+  )
+
+  // Rate that would apply to a document of that date (latest known on or before it)
+  fastify.get(
+    '/api/exchange-rates/lookup',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = lookupQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { currency, date } = parseResult.data
+      const rate = await getExchangeRate(db, request.authUser.userId, currency, date)
+
+      return { currency, date, rate: rate === null ? null : rate.toFixed(6) }
+    }
+  )
+
+  // Record a rate by hand; replaces the one already known for that day
+  fastify.post(
+    '/api/exchange-rates',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = createExchangeRateSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { currency, date, rate } = parseResult.data
+      const userId = request.authUser.userId
+
+      const [saved] = await db
+        .insert(exchangeRates)
+        .values({ userId, currency, date, rate: rate.toFixed(6), source: 'manual' })
+        .onConflictDoUpdate({
+          target: [exchangeRates.userId, exchangeRates.currency, exchangeRates.date],
+          set: { rate: rate.toFixed(6), source: 'manual' },
+        })
+        .returning()
+
+      return reply.status(201).send(saved)
+    }
+  )
+
+  // Import an ECB reference rates file (eurofxref.csv or eurofxref-hist.csv)
+  fastify.post(
+    '/api/exchange-rates/import',
+    { preHandler: [requireAuth], bodyLimit: 10 * 1024 * 1024 },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = importExchangeRatesSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { content, currencies, from } = parseResult.data
+      const userId = request.authUser.userId
+
+      let parsed
+      try {
+        parsed = parseEcbRatesCsv(content)
+      } catch (error) {
+        if (error instanceof ExchangeRateParseError) {
+          return reply.status(400).send({ message: error.message })
+        }
+        throw error
+      }
+
+      const rates = parsed.filter((entry) =>
+        (!currencies || currencies.includes(entry.currency)) && (!from || entry.date >= from)
+      )
+
+      // Official rates override those entered by hand for the same day
+      for (let start = 0; start < rates.length; start += IMPORT_BATCH_SIZE) {
+        await db
+          .insert(exchangeRates)
+          .values(rates.slice(start, start + IMPORT_BATCH_SIZE).map((entry) => ({
+            userId,
+            currency: entry.currency,
+            date: entry.date,
+            rate: entry.rate.toFixed(6),
+            source: 'ecb',
+          })))
+          .onConflictDoUpdate({
+            target: [exchangeRates.userId, exchangeRates.currency, exchangeRates.date],
+            set: { rate: sql`excluded.rate`, source: 'ecb' },
+          })
+      }
+
+      const dates = rates.map((entry) => entry.date).sort()
+      return reply.status(201).send({
+        imported: rates.length,
+        currencies: [...new Set(rates.map((entry) => entry.currency))].sort(),
+        from: dates[0] ?? null,
+        to: dates.at(-1) ?? null,
+      })
+    }
+  )
+
+  // Delete a recorded rate; documents keep the rate they were saved with
+  fastify.delete(
+    '/api/exchange-rates/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const deleted = await db
+        .delete(exchangeRates)
+        .where(and(eq(exchangeRates.id, id), eq(exchangeRates.userId, userId)))
+        .returning({ id: exchangeRates.id })
+
+      if (deleted.length === 0) {
+        return reply.status(404).send({ message: 'Taux de change non trouvé' })
+      }
+
+      return reply.status(204).send()
+    }
+  )
+}
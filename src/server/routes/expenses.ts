@@ -2,8 +2,11 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { eq, and, desc, gte, lte, sql } from 'drizzle-orm'
 import { db } from '../db'
-import { expenses } from '../db/schema'
+import { expenses, bankTransactions } from '../db/schema'
 import { requireAuth } from '../auth/middleware'
+import { releaseBankTransactions } from '../services/bank-reconciliation'
+import { CA3_RATES } from '../services/ca3'
+import { DEFAULT_CURRENCY, eurAmount, MissingExchangeRateError, resolveExchangeRate } from '../services/currency'
 
 const expenseCategories = ['fixed', 'one-time', 'recurring', 'professional', 'other'] as const
 
@@ -13,9 +16,14 @@ const createExpenseSchema = z.object({
   amountHt: z.number().positive('Le montant HT doit être positif'),
   taxAmount: z.number().min(0, 'Le montant de TVA ne peut pas être négatif').default(0),
   taxRecoveryRate: z.number().min(0).max(100).default(100),
+  // Amounts are in this currency; the rate (units per EUR) is looked up when omitted
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Devise invalide (code ISO à 3 lettres)').default(DEFAULT_CURRENCY),
+  exchangeRate: z.number().positive('Le taux de change doit être positif').optional(),
   category: z.enum(expenseCategories, { message: 'Catégorie invalide' }),
   isRecurring: z.boolean().default(false),
   isIntraEu: z.boolean().default(false),
+  // Rate of the TVA self-assessed on an intra-EU purchase (one of the CA3 rates)
+  reverseChargeRate: z.number().refine((rate) => CA3_RATES.includes(rate), { message: 'Taux d\'autoliquidation invalide' }).default(20),
   recurrencePeriod: z.enum(['monthly', 'quarterly', 'yearly']).optional(),
   startMonth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
   endMonth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
@@ -144,6 +152,16 @@ export async function expenseRoutes(fastify: FastifyInstance) {
         }
       }
 
+      let exchangeRate: string
+      try {
+        exchangeRate = await resolveExchangeRate(db, userId, data.currency, data.date, data.exchangeRate)
+      } catch (error) {
+        if (error instanceof MissingExchangeRateError) {
+          return reply.status(400).send({ message: error.message })
+        }
+        throw error
+      }
+
       const [expense] = await db
         .insert(expenses)
         .values({
@@ -153,9 +171,12 @@ export async function expenseRoutes(fastify: FastifyInstance) {
           amountHt: data.amountHt.toFixed(2),
           taxAmount: data.taxAmount.toFixed(2),
           taxRecoveryRate: data.taxRecoveryRate.toFixed(2),
+          currency: data.currency,
+          exchangeRate,
           category: data.category,
           isRecurring: data.isRecurring,
           isIntraEu: data.isIntraEu,
+          reverseChargeRate: data.reverseChargeRate.toFixed(2),
           recurrencePeriod: data.recurrencePeriod,
           startMonth: data.startMonth,
           endMonth: data.endMonth,
@@ -202,12 +223,27 @@ export async function expenseRoutes(fastify: FastifyInstance) {
       if (data.category !== undefined) updateData.category = data.category
       if (data.isRecurring !== undefined) updateData.isRecurring = data.isRecurring
       if (data.isIntraEu !== undefined) updateData.isIntraEu = data.isIntraEu
+      if (data.reverseChargeRate !== undefined) updateData.reverseChargeRate = data.reverseChargeRate.toFixed(2)
       if (data.recurrencePeriod !== undefined) updateData.recurrencePeriod = data.recurrencePeriod
       if (data.startMonth !== undefined) updateData.startMonth = data.startMonth
       if (data.endMonth !== undefined) updateData.endMonth = data.endMonth
       if (data.paymentDay !== undefined) updateData.paymentDay = data.paymentDay
       if (data.note !== undefined) updateData.note = data.note
 
+      // Changing the currency without a rate picks the recorded one for the expense date
+      if (data.currency !== undefined || data.exchangeRate !== undefined) {
+        const currency = data.currency ?? existing.currency
+        try {
+          updateData.currency = currency
+          updateData.exchangeRate = await resolveExchangeRate(db, userId, currency, data.date ?? existing.date, data.exchangeRate)
+        } catch (error) {
+          if (error instanceof MissingExchangeRateError) {
+            return reply.status(400).send({ message: error.message })
+          }
+          throw error
+        }
+      }
+
       // Validate recurrence consistency
       const finalIsRecurring = data.isRecurring ?? existing.isRecurring
       const finalRecurrencePeriod = data.recurrencePeriod ?? existing.recurrencePeriod
@@ -257,15 +293,18 @@ export async function expenseRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ message: 'Dépense non trouvée' })
       }
 
-      await db
-        .delete(expenses)
-        .where(and(eq(expenses.id, id), eq(expenses.userId, userId)))
+      await db.transaction(async (tx) => {
+        await releaseBankTransactions(tx, and(eq(bankTransactions.matchType, 'expense'), eq(bankTransactions.matchId, id)))
+        await tx
+          .delete(expenses)
+          .where(and(eq(expenses.id, id), eq(expenses.userId, userId)))
+      })
 
       return reply.status(204).send()
     }
   )
 
-  // Get expense summary for a period
+  // Get expense summary for a period, in EUR
   fastify.get(
     '/api/expenses/summary/monthly',
     { preHandler: [requireAuth] },
@@ -291,9 +330,9 @@ export async function expenseRoutes(fastify: FastifyInstance) {
 
       const result = await db
         .select({
-          totalHt: sql<string>`COALESCE(SUM(${expenses.amountHt}::numeric), 0)`,
-          totalTax: sql<string>`COALESCE(SUM(${expenses.taxAmount}::numeric), 0)`,
-          recoverableTax: sql<string>`COALESCE(SUM(${expenses.taxAmount}::numeric * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
+          totalHt: sql<string>`COALESCE(SUM(${eurAmount(expenses.amountHt, expenses.exchangeRate)}), 0)`,
+          totalTax: sql<string>`COALESCE(SUM(${eurAmount(expenses.taxAmount, expenses.exchangeRate)}), 0)`,
+          recoverableTax: sql<string>`COALESCE(SUM(${eurAmount(expenses.taxAmount, expenses.exchangeRate)} * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
           count: sql<number>`count(*)`,
         })
         .from(expenses)
@@ -309,7 +348,7 @@ export async function expenseRoutes(fastify: FastifyInstance) {
       const categoryBreakdown = await db
         .select({
           category: expenses.category,
-          total: sql<string>`COALESCE(SUM(${expenses.amountHt}::numeric), 0)`,
+          total: sql<string>`COALESCE(SUM(${eurAmount(expenses.amountHt, expenses.exchangeRate)}), 0)`,
           count: sql<number>`count(*)`,
         })
         .from(expenses)
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createTestApp, createTestToken } from '../test-utils'
+import { incomeTaxRoutes } from './income-tax'
+
+// ─── Route tests with fastify.inject() ─────────────────────────────
+
+vi.mock('../db', () => {
+  const where = vi.fn().mockImplementation(() => Object.assign(Promise.resolve([]), { orderBy: vi.fn().mockResolvedValue([]) }))
+  return {
+    db: {
+      query: {
+        settings: { findFirst: vi.fn().mockResolvedValue(null) },
+        yearlyRates: { findFirst: vi.fn().mockResolvedValue(null) },
+        householdProfiles: { findFirst: vi.fn().mockResolvedValue(null) },
+        incomeTaxOptions: { findFirst: vi.fn().mockResolvedValue(null) },
+      },
+      select: vi.fn().mockReturnValue({
+        from: vi.fn().mockReturnValue({ where }),
+      }),
+    },
+  }
+})
+
+// 60 000 € received in BNC: 39 600 € after the 34 % abattement
+vi.mock('../services/invoice-payments', () => ({
+  getCashReceivedByActivity: vi.fn().mockResolvedValue({ sales: 0, bic_services: 0, bnc: 60000 }),
+}))
+
+async function mockIncomeTaxOptions(referenceTaxIncome: string) {
+  const { db } = await import('../db')
+  vi.mocked(db.query.incomeTaxOptions.findFirst).mockResolvedValue({
+    versementLiberatoire: true,
+    referenceTaxIncome,
+  } as any)
+}
+
+describe('income tax routes', () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>
+  let token: string
+
+  beforeAll(async () => {
+    app = await createTestApp(async (fastify) => {
+      await fastify.register(incomeTaxRoutes)
+    })
+    token = createTestToken(app)
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('returns 401 without auth', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/income-tax/summary?year=2025' })
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('applies the versement libératoire when the RFR allows it', async () => {
+    await mockIncomeTaxOptions('25000.00')
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/income-tax/summary?year=2025',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+    const summary = response.json()
+    expect(summary.method).toBe('versement_liberatoire')
+    expect(summary.estimatedTax).toBe(summary.versementLiberatoirePaid)
+    expect(summary.remaining).toBe('0.00')
+  })
+
+  it('falls back to the brackets and credits the versement libératoire paid when the RFR is over the limit', async () => {
+    await mockIncomeTaxOptions('40000.00')
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/income-tax/summary?year=2025',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+    const summary = response.json()
+    expect(summary.versementLiberatoire).toBe(true)
+    expect(summary.versementLiberatoireEligibility.eligible).toBe(false)
+    expect(summary.method).toBe('progressive')
+    expect(summary.effectiveRate).toBeNull()
+    // 11 % on 17 818 € and 30 % on 10 285 €
+    expect(summary.estimatedTax).toBe('5045.48')
+    expect(parseFloat(summary.versementLiberatoirePaid)).toBeGreaterThan(0)
+    expect(parseFloat(summary.remaining)).toBeCloseTo(5045.48 - parseFloat(summary.versementLiberatoirePaid), 2)
+  })
+})
@@ -2,8 +2,10 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { eq, and, desc, sql } from 'drizzle-orm'
 import { db } from '../db'
-import { incomeTaxPayments, invoices, settings, taxBrackets } from '../db/schema'
+import { incomeTaxPayments, bankTransactions } from '../db/schema'
 import { requireAuth } from '../auth/middleware'
+import { releaseBankTransactions } from '../services/bank-reconciliation'
+import { getIncomeTaxEstimate } from '../services/income-tax'
 
 const createIncomeTaxPaymentSchema = z.object({
   year: z.number().min(2000).max(2100),
@@ -23,57 +25,6 @@ const listQuerySchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 })
 
-// French tax brackets for 2025 (revenus 2024)
-// Source: https://www.service-public.gouv.fr/particuliers/vosdroits/F1419
-const DEFAULT_TAX_BRACKETS_2025 = [
-  { minIncome: 0, maxIncome: 11497, rate: 0 },
-  { minIncome: 11497, maxIncome: 29315, rate: 11 },
-  { minIncome: 29315, maxIncome: 83823, rate: 30 },
-  { minIncome: 83823, maxIncome: 180294, rate: 41 },
-  { minIncome: 180294, maxIncome: null, rate: 45 },
-]
-
-// Helper to calculate progressive tax from brackets
-function calculateProgressiveTax(
-  taxableIncome: number,
-  brackets: { minIncome: string; maxIncome: string | null; rate: string }[]
-) {
-  let totalTax = 0
-  const breakdown: {
-    minIncome: string
-    maxIncome: string | null
-    rate: string
-    taxableAmount: string
-    taxAmount: string
-  }[] = []
-
-  for (const bracket of brackets) {
-    const minIncome = parseFloat(bracket.minIncome)
-    const maxIncome = bracket.maxIncome ? parseFloat(bracket.maxIncome) : Infinity
-    const rate = parseFloat(bracket.rate)
-
-    // Skip if income doesn't reach this bracket
-    if (taxableIncome <= minIncome) break
-
-    // Calculate income within this bracket
-    const incomeInBracket = Math.min(taxableIncome, maxIncome) - minIncome
-
-    if (incomeInBracket > 0) {
-      const taxForBracket = incomeInBracket * (rate / 100)
-      totalTax += taxForBracket
-      breakdown.push({
-        minIncome: bracket.minIncome,
-        maxIncome: bracket.maxIncome,
-        rate: bracket.rate,
-        taxableAmount: incomeInBracket.toFixed(2),
-        taxAmount: taxForBracket.toFixed(2),
-      })
-    }
-  }
-
-  return { totalTax, breakdown }
-}
-
 export async function incomeTaxRoutes(fastify: FastifyInstance) {
   // List income tax payments
   fastify.get(
@@ -233,9 +184,12 @@ export async function incomeTaxRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ message: 'Paiement d\'impôt non trouvé' })
       }
 
-      await db
-        .delete(incomeTaxPayments)
-        .where(and(eq(incomeTaxPayments.id, id), eq(incomeTaxPayments.userId, userId)))
+      await db.transaction(async (tx) => {
+        await releaseBankTransactions(tx, and(eq(bankTransactions.matchType, 'income_tax'), eq(bankTransactions.matchId, id)))
+        await tx
+          .delete(incomeTaxPayments)
+          .where(and(eq(incomeTaxPayments.id, id), eq(incomeTaxPayments.userId, userId)))
+      })
 
       return reply.status(204).send()
     }
@@ -260,75 +214,8 @@ export async function incomeTaxRoutes(fastify: FastifyInstance) {
       const { year } = parseResult.data
       const userId = request.authUser.userId
 
-      // Get user settings for deduction rate
-      const userSettings = await db.query.settings.findFirst({
-        where: eq(settings.userId, userId),
-      })
-
-      const deductionRate = userSettings
-        ? parseFloat(userSettings.revenueDeductionRate)
-        : 34
-
-      const additionalTaxableIncome = userSettings
-        ? parseFloat(userSettings.additionalTaxableIncome || '0')
-        : 0
-
-      // Get annual revenue from paid invoices
-      const invoiceResult = await db
-        .select({
-          totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-        })
-        .from(invoices)
-        .where(
-          and(
-            eq(invoices.userId, userId),
-            eq(invoices.isCanceled, false),
-            sql`EXTRACT(YEAR FROM ${invoices.paymentDate}) = ${year}`
-          )
-        )
-
-      const totalRevenue = parseFloat(invoiceResult[0].totalHt)
-      const revenueAfterDeduction = totalRevenue * (1 - deductionRate / 100)
-      const taxableIncome = revenueAfterDeduction + additionalTaxableIncome
-
-      // Get tax brackets (prefer custom, fallback to official)
-      let brackets = await db
-        .select()
-        .from(taxBrackets)
-        .where(eq(taxBrackets.userId, userId))
-        .orderBy(taxBrackets.minIncome)
-
-      brackets = brackets.filter((b) => b.year === year)
-
-      if (brackets.length === 0) {
-        brackets = await db
-          .select()
-          .from(taxBrackets)
-          .where(eq(taxBrackets.year, year))
-          .orderBy(taxBrackets.minIncome)
-
-        brackets = brackets.filter((b) => b.userId === null)
-      }
-
-      // Use default 2025 brackets if nothing found
-      if (brackets.length === 0) {
-        brackets = DEFAULT_TAX_BRACKETS_2025.map((b, i) => ({
-          id: `default-${i}`,
-          userId: null,
-          year: 2025,
-          minIncome: b.minIncome.toFixed(2),
-          maxIncome: b.maxIncome?.toFixed(2) ?? null,
-          rate: b.rate.toFixed(2),
-          isCustom: false,
-          createdAt: new Date(),
-        }))
-      }
-
-      // Calculate estimated tax using progressive brackets
-      const { totalTax: estimatedTax, breakdown } = calculateProgressiveTax(
-        taxableIncome,
-        brackets
-      )
+      const estimate = await getIncomeTaxEstimate(userId, year)
+      const { household, tax } = estimate
 
       // Get all payments for this year
       const payments = await db
@@ -353,19 +240,56 @@ export async function incomeTaxRoutes(fastify: FastifyInstance) {
         }
       }
 
-      const remaining = Math.max(0, estimatedTax - totalPaid - totalPending)
+      // The versement libératoire collected with the URSSAF contributions counts as paid, also when the
+      // RFR no longer allows the option and the tax follows the brackets
+      const estimatedTax = tax.totalTax
+      const versementLiberatoirePaid = estimate.versementLiberatoirePaid
+      const remaining = Math.max(0, estimatedTax - totalPaid - totalPending - versementLiberatoirePaid)
 
       return {
         year,
         estimatedTax: estimatedTax.toFixed(2),
-        taxableIncome: taxableIncome.toFixed(2),
-        totalRevenue: totalRevenue.toFixed(2),
-        deductionRate: deductionRate.toFixed(2),
-        additionalTaxableIncome: additionalTaxableIncome.toFixed(2),
+        taxableIncome: tax.taxableIncome.toFixed(2),
+        totalRevenue: estimate.totalRevenue.toFixed(2),
+        deductionRate: estimate.deductionRate.toFixed(2),
+        activities: estimate.activities,
+        additionalTaxableIncome: estimate.otherIncome.toFixed(2),
         totalPaid: totalPaid.toFixed(2),
         totalPending: totalPending.toFixed(2),
+        household: {
+          saved: household.saved,
+          maritalStatus: household.profile.maritalStatus,
+          children: household.profile.children,
+          parts: tax.parts,
+          incomes: estimate.incomeLines.map((line) => ({
+            category: line.category,
+            label: line.label,
+            amount: line.amount.toFixed(2),
+            deduction: line.deduction.toFixed(2),
+            net: line.net.toFixed(2),
+          })),
+        },
+        quotientFamilial: {
+          parts: tax.parts,
+          referenceParts: tax.referenceParts,
+          quotient: tax.quotient.toFixed(2),
+          taxBeforeCeiling: tax.taxBeforeCeiling.toFixed(2),
+          advantage: tax.quotientAdvantage.toFixed(2),
+          ceiling: tax.quotientCeiling.toFixed(2),
+          ceilingAdjustment: tax.ceilingAdjustment.toFixed(2),
+        },
+        method: estimate.method,
+        grossTax: tax.grossTax.toFixed(2),
+        decote: tax.decote.toFixed(2),
+        progressiveTax: tax.progressiveTax.toFixed(2),
+        cehr: tax.cehr.toFixed(2),
+        effectiveRate: tax.effectiveRate !== null ? tax.effectiveRate.toFixed(2) : null,
+        businessShare: estimate.businessShare.toFixed(2),
+        versementLiberatoire: estimate.optedForVersementLiberatoire,
+        versementLiberatoirePaid: versementLiberatoirePaid.toFixed(2),
+        versementLiberatoireEligibility: estimate.eligibility,
         remaining: remaining.toFixed(2),
-        brackets: breakdown,
+        brackets: tax.breakdown,
       }
     }
   )
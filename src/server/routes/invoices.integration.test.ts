@@ -226,6 +226,41 @@ describe.skipIf(!isAvailable)('Invoice routes (integration)', () => {
     })
   })
 
+  describe('GET /api/invoices/aging', () => {
+    it('keeps an invoice paid after the report date as outstanding', async () => {
+      const createResponse = await app.inject({
+        method: 'POST',
+        url: '/api/invoices',
+        payload: { client: 'Late Payer', invoiceDate: '2025-01-15', dueDate: '2025-02-14', amountHt: 1000, taxRate: 20 },
+        cookies: { accessToken: token },
+      })
+      const { id } = createResponse.json()
+
+      const paymentResponse = await app.inject({
+        method: 'POST',
+        url: `/api/invoices/${id}/payments`,
+        payload: { paymentDate: '2025-03-10', amount: 1200 },
+        cookies: { accessToken: token },
+      })
+      expect(paymentResponse.statusCode).toBe(201)
+
+      const before = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/aging?date=2025-02-28',
+        cookies: { accessToken: token },
+      })
+      expect(before.json().total).toBe('1200.00')
+      expect(before.json().buckets.days1to30).toBe('1200.00')
+
+      const after = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/aging?date=2025-03-31',
+        cookies: { accessToken: token },
+      })
+      expect(after.json().total).toBe('0.00')
+    })
+  })
+
   describe('Multi-tenant isolation', () => {
     it('user cannot see another users invoices', async () => {
       // Create invoice as main test user
@@ -4,6 +4,7 @@ import {
   createInvoiceSchema,
   updateInvoiceSchema,
   listQuerySchema,
+  createPaymentSchema,
   calculateTtc,
   invoiceRoutes,
 } from './invoices'
@@ -58,7 +59,6 @@ describe('createInvoiceSchema', () => {
       paymentDate: '2025-02-15',
       invoiceNumber: '20250101',
       note: 'First invoice',
-      isCanceled: false,
     })
     expect(result.success).toBe(true)
   })
@@ -115,6 +115,46 @@ describe('createInvoiceSchema', () => {
     })
     expect(result.success).toBe(true)
   })
+
+  it('accepts line items instead of a single amount', () => {
+    const result = createInvoiceSchema.safeParse({
+      client: 'Acme Corp',
+      invoiceDate: '2025-01-15',
+      lines: [
+        { description: 'Développement', quantity: 3, unit: 'jour', unitPrice: 500, taxRate: 20 },
+        { description: 'Formation', quantity: 1, unitPrice: 800, taxRate: 0, discount: 10 },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects an invoice without lines nor amount', () => {
+    const result = createInvoiceSchema.safeParse({ client: 'Acme Corp', invoiceDate: '2025-01-15' })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects an empty line list', () => {
+    const result = createInvoiceSchema.safeParse({ ...validInvoice, lines: [] })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects a line with a discount above 100', () => {
+    const result = createInvoiceSchema.safeParse({
+      ...validInvoice,
+      lines: [{ description: 'Développement', quantity: 1, unitPrice: 500, taxRate: 20, discount: 120 }],
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('accepts a foreign currency with or without its rate', () => {
+    expect(createInvoiceSchema.safeParse({ ...validInvoice, currency: 'USD' }).success).toBe(true)
+    expect(createInvoiceSchema.safeParse({ ...validInvoice, currency: 'USD', exchangeRate: 1.1681 }).success).toBe(true)
+  })
+
+  it('rejects an invalid currency code or rate', () => {
+    expect(createInvoiceSchema.safeParse({ ...validInvoice, currency: 'usd' }).success).toBe(false)
+    expect(createInvoiceSchema.safeParse({ ...validInvoice, currency: 'USD', exchangeRate: 0 }).success).toBe(false)
+  })
 })
 
 describe('updateInvoiceSchema', () => {
@@ -134,6 +174,26 @@ describe('updateInvoiceSchema', () => {
   })
 })
 
+describe('createPaymentSchema', () => {
+  it('defaults the method to bank transfer', () => {
+    const result = createPaymentSchema.safeParse({ paymentDate: '2025-03-15', amount: 600 })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.method).toBe('transfer')
+    }
+  })
+
+  it('rejects a zero amount', () => {
+    const result = createPaymentSchema.safeParse({ paymentDate: '2025-03-15', amount: 0 })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects credit note offsets entered by hand', () => {
+    const result = createPaymentSchema.safeParse({ paymentDate: '2025-03-15', amount: 100, method: 'credit_note' })
+    expect(result.success).toBe(false)
+  })
+})
+
 describe('listQuerySchema', () => {
   it('accepts empty query (uses defaults)', () => {
     const result = listQuerySchema.safeParse({})
@@ -178,8 +238,8 @@ describe('listQuerySchema', () => {
 
 // ─── Route tests with fastify.inject() ─────────────────────────────
 
-vi.mock('../db', () => ({
-  db: {
+vi.mock('../db', () => {
+  const db = {
     select: vi.fn().mockReturnValue({
       from: vi.fn().mockReturnValue({
         where: vi.fn().mockReturnValue({
@@ -195,14 +255,26 @@ vi.mock('../db', () => ({
       invoices: {
         findFirst: vi.fn().mockResolvedValue(null),
       },
+      clients: {
+        findFirst: vi.fn().mockResolvedValue({ id: 'client-id', name: 'Acme Corp' }),
+      },
+      settings: {
+        findFirst: vi.fn().mockResolvedValue(null),
+      },
     },
     insert: vi.fn().mockReturnValue({
       values: vi.fn().mockReturnValue({
         returning: vi.fn().mockResolvedValue([{ id: 'test-id', client: 'Test' }]),
+        onConflictDoUpdate: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ lastValue: 1 }]),
+        }),
       }),
     }),
-  },
-}))
+    transaction: vi.fn(),
+  }
+  db.transaction.mockImplementation((callback: (tx: typeof db) => unknown) => callback(db))
+  return { db }
+})
 
 describe('invoice routes', () => {
   let app: Awaited<ReturnType<typeof createTestApp>>
@@ -219,6 +291,26 @@ describe('invoice routes', () => {
     await app.close()
   })
 
+  // The invoice lock, then the payments read once it is held
+  async function mockLockedPayments(amountTtc: string, payments: unknown[]) {
+    const { db } = await import('../db')
+    vi.mocked(db.select)
+      .mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            for: vi.fn().mockResolvedValue([{ id: 'invoice-id', amountTtc }]),
+          }),
+        }),
+      } as any)
+      .mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            orderBy: vi.fn().mockResolvedValue(payments),
+          }),
+        }),
+      } as any)
+  }
+
   describe('GET /api/invoices', () => {
     it('returns 401 without auth', async () => {
       const response = await app.inject({
@@ -287,7 +379,38 @@ describe('invoice routes', () => {
     })
   })
 
+  describe('GET /api/invoices/aging', () => {
+    it('returns 401 without auth', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/aging',
+      })
+      expect(response.statusCode).toBe(401)
+    })
+
+    it('returns 400 for an invalid date', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/aging?date=16-03-2025',
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(400)
+    })
+  })
+
   describe('POST /api/invoices', () => {
+    // Settings and sequence lookups resolve empty; `takenBy` answers the invoice number uniqueness check
+    async function mockNumberingQueries(takenBy: { id: string }[] = []) {
+      const { db } = await import('../db')
+      vi.mocked(db.select).mockImplementation(() => ({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue(
+            Object.assign(Promise.resolve([]), { limit: vi.fn().mockResolvedValue(takenBy) })
+          ),
+        }),
+      }) as any)
+    }
+
     it('returns 401 without auth', async () => {
       const response = await app.inject({
         method: 'POST',
@@ -308,6 +431,7 @@ describe('invoice routes', () => {
     })
 
     it('returns 201 for valid invoice', async () => {
+      await mockNumberingQueries()
       const response = await app.inject({
         method: 'POST',
         url: '/api/invoices',
@@ -321,6 +445,191 @@ describe('invoice routes', () => {
       })
       expect(response.statusCode).toBe(201)
     })
+
+    it('returns 201 for an invoice with several lines', async () => {
+      await mockNumberingQueries()
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices',
+        payload: {
+          client: 'Acme Corp',
+          invoiceDate: '2025-01-15',
+          lines: [
+            { description: 'Développement', quantity: 2, unitPrice: 500, taxRate: 20 },
+            { description: 'Livre', quantity: 1, unitPrice: 30, taxRate: 5.5 },
+          ],
+        },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(201)
+    })
+
+    it('returns 409 when the invoice number is already used', async () => {
+      await mockNumberingQueries([{ id: 'other-invoice' }])
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices',
+        payload: {
+          client: 'Acme Corp',
+          invoiceDate: '2025-01-15',
+          amountHt: 1000,
+          taxRate: 20,
+          invoiceNumber: '20250101',
+        },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(409)
+    })
+
+    it('returns 409 when a concurrent invoice takes the number before the insert', async () => {
+      await mockNumberingQueries()
+      const { db } = await import('../db')
+      const { invoices } = await import('../db/schema')
+      const insert = vi.mocked(db.insert).getMockImplementation()!
+      const uniqueViolation = Object.assign(new Error('duplicate key value violates unique constraint'), {
+        code: '23505',
+        constraint_name: 'invoices_user_id_number_idx',
+      })
+      vi.mocked(db.insert).mockImplementation(((table: unknown) => table === invoices
+        ? { values: vi.fn().mockReturnValue({ returning: vi.fn().mockRejectedValue(new Error('Failed query', { cause: uniqueViolation })) }) }
+        : insert(table as never)) as any)
+
+      try {
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/invoices',
+          payload: {
+            client: 'Acme Corp',
+            invoiceDate: '2025-01-15',
+            amountHt: 1000,
+            taxRate: 20,
+            invoiceNumber: '20250101',
+          },
+          cookies: { accessToken: token },
+        })
+        expect(response.statusCode).toBe(409)
+        expect(response.json().message).toContain('20250101')
+      } finally {
+        vi.mocked(db.insert).mockImplementation(insert)
+      }
+    })
+
+    it('returns 400 for a reverse charge invoice with TVA', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices',
+        payload: {
+          client: 'Acme Corp',
+          invoiceDate: '2025-01-15',
+          amountHt: 1000,
+          taxRate: 20,
+          tvaRegime: 'intra_eu',
+        },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(400)
+      expect(response.json().message).toContain('ne peut pas porter de TVA')
+    })
+
+    it('returns 400 for a reverse charge invoice to a client without TVA number', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices',
+        payload: {
+          client: 'Acme Corp',
+          invoiceDate: '2025-01-15',
+          amountHt: 1000,
+          taxRate: 0,
+          tvaRegime: 'intra_eu',
+        },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(400)
+      expect(response.json().message).toContain('intracommunautaire du client')
+    })
+  })
+
+  describe('POST /api/invoices/:id/credit-notes', () => {
+    it('returns 401 without auth', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices/some-id/credit-notes',
+        payload: { invoiceDate: '2025-02-01' },
+      })
+      expect(response.statusCode).toBe(401)
+    })
+
+    it('returns 400 for invalid body', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices/some-id/credit-notes',
+        payload: { invoiceDate: '01/02/2025' },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('returns 404 when invoice not found', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices/nonexistent-id/credit-notes',
+        payload: { invoiceDate: '2025-02-01' },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('POST /api/invoices/:id/payments', () => {
+    it('returns 401 without auth', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices/some-id/payments',
+        payload: { paymentDate: '2025-03-15', amount: 600 },
+      })
+      expect(response.statusCode).toBe(401)
+    })
+
+    it('returns 400 for a negative amount', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices/some-id/payments',
+        payload: { paymentDate: '2025-03-15', amount: -600 },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('returns 404 when invoice not found', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices/nonexistent-id/payments',
+        payload: { paymentDate: '2025-03-15', amount: 600 },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(404)
+    })
+
+    it('returns 400 when the amount exceeds the balance left once the invoice is locked', async () => {
+      const { db } = await import('../db')
+      vi.mocked(db.query.invoices.findFirst).mockResolvedValueOnce({
+        id: 'invoice-id',
+        type: 'invoice',
+        amountTtc: '1200.00',
+      } as any)
+      await mockLockedPayments('1200.00', [
+        { id: 'payment-1', paymentDate: '2025-02-01', amount: '1000.00', method: 'bank_transfer' },
+      ])
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/invoices/invoice-id/payments',
+        payload: { paymentDate: '2025-03-15', amount: 600 },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(400)
+      expect(response.json().message).toContain('(200.00 €)')
+    })
   })
 
   describe('GET /api/invoices/:id', () => {
@@ -333,4 +642,100 @@ describe('invoice routes', () => {
       expect(response.statusCode).toBe(404)
     })
   })
+
+  describe('PUT /api/invoices/:id', () => {
+    it('returns 409 when changing the amount of an invoice settled in several payments', async () => {
+      const { db } = await import('../db')
+      vi.mocked(db.query.invoices.findFirst).mockResolvedValueOnce({
+        id: 'invoice-id',
+        type: 'invoice',
+        clientId: 'client-id',
+        taxRate: '20.00',
+        amountHt: '1000.00',
+        amountTtc: '1200.00',
+        paymentDate: '2025-02-15',
+        tvaRegime: 'domestic',
+      } as any)
+      await mockLockedPayments('1200.00', [
+        { id: 'payment-1', paymentDate: '2025-02-01', amount: '600.00', method: 'bank_transfer' },
+        { id: 'payment-2', paymentDate: '2025-02-15', amount: '600.00', method: 'bank_transfer' },
+      ])
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/invoices/invoice-id',
+        payload: { lines: [{ description: 'Développement', quantity: 1, unitPrice: 1500, taxRate: 20 }] },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(409)
+      expect(response.json().message).toContain('plusieurs paiements')
+    })
+
+    it('returns 409 when lowering a partially paid invoice below its payments', async () => {
+      const { db } = await import('../db')
+      vi.mocked(db.query.invoices.findFirst).mockResolvedValueOnce({
+        id: 'invoice-id',
+        type: 'invoice',
+        clientId: 'client-id',
+        taxRate: '20.00',
+        amountHt: '1000.00',
+        amountTtc: '1200.00',
+        paymentDate: null,
+        tvaRegime: 'domestic',
+      } as any)
+      await mockLockedPayments('1200.00', [
+        { id: 'payment-1', paymentDate: '2025-02-01', amount: '800.00', method: 'bank_transfer' },
+      ])
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/invoices/invoice-id',
+        payload: { lines: [{ description: 'Développement', quantity: 1, unitPrice: 500, taxRate: 20 }] },
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(409)
+      expect(response.json().message).toContain('(800.00 €)')
+    })
+  })
+
+  describe('GET /api/invoices/:id/pdf', () => {
+    it('returns 401 without auth', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/some-id/pdf',
+      })
+      expect(response.statusCode).toBe(401)
+    })
+
+    it('returns 404 when invoice not found', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/nonexistent-id/pdf',
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('GET /api/invoices/:id/facturx', () => {
+    it('returns 404 when invoice not found', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/nonexistent-id/facturx',
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('GET /api/invoices/:id/ubl', () => {
+    it('returns 404 when invoice not found', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/invoices/nonexistent-id/ubl',
+        cookies: { accessToken: token },
+      })
+      expect(response.statusCode).toBe(404)
+    })
+  })
 })
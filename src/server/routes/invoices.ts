@@ -2,27 +2,98 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { eq, and, desc, gte, lte, sql } from 'drizzle-orm'
 import { db } from '../db'
-import { invoices, invoiceClients, invoiceDescriptions } from '../db/schema'
+import { invoices, invoiceLines, invoicePayments, clients, invoiceDescriptions, issuerProfiles, bankTransactions } from '../db/schema'
 import { requireAuth } from '../auth/middleware'
+import { MissingPdfFontError, renderInvoicePdf } from '../services/invoice-pdf'
+import type { InvoicePdfData } from '../services/invoice-pdf'
+import { buildUblXml, EInvoiceValidationError, renderFacturXPdf, validateEInvoice } from '../services/e-invoice'
+import { calculateInvoiceTotals, roundCents } from '../services/invoice-totals'
+import { buildInvoiceLines, createInvoice, resolveInvoiceClient } from '../services/invoice-creation'
+import type { InvoiceLineInput } from '../services/invoice-creation'
+import { getInvoicePayments, getOutstandingAmount, syncInvoicePaymentDate } from '../services/invoice-payments'
+import { releaseBankTransactions } from '../services/bank-reconciliation'
+import { computeDueDate } from '../services/payment-terms'
+import { buildAgingReport, getClientPaymentTerms, getLatePenaltyRate, getOpenReceivables } from '../services/receivables'
+import { eurAmount, MissingExchangeRateError, resolveExchangeRate } from '../services/currency'
+import { checkTvaRegime, TVA_REGIMES } from '../services/tva-regimes'
+import type { TvaRegime } from '../services/tva-regimes'
+import { MICRO_ACTIVITY_TYPES } from '../services/micro-ceiling'
+import { allocateNumber, getSequenceGaps, InvoiceNumberConflictError, isInvoiceNumberTaken, peekNextNumber, withInvoiceNumber } from '../services/invoice-numbering'
+
+export const invoiceLineSchema = z.object({
+  description: z.string().min(1, 'La désignation de la ligne est requise'),
+  quantity: z.number().positive('La quantité doit être positive'),
+  unit: z.string().max(20).optional(),
+  unitPrice: z.number().min(0, 'Le prix unitaire ne peut pas être négatif'),
+  taxRate: z.number().min(0, 'Le taux de TVA ne peut pas être négatif').max(100, 'Le taux de TVA ne peut pas dépasser 100%'),
+  discount: z.number().min(0, 'La remise ne peut pas être négative').max(100, 'La remise ne peut pas dépasser 100%').optional(),
+})
 
-export const createInvoiceSchema = z.object({
-  client: z.string().min(1, 'Le client est requis'),
+const invoiceBodySchema = z.object({
+  clientId: z.string().uuid('Client invalide').optional(),
+  // Name-only payloads resolve to a directory entry, created on the fly if needed
+  client: z.string().trim().min(1, 'Le client est requis').optional(),
   description: z.string().optional(),
   invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)'),
+  // Computed from the client payment terms when omitted
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
   paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
-  amountHt: z.number().positive('Le montant HT doit être positif'),
-  taxRate: z.number().min(0, 'Le taux de TVA ne peut pas être négatif').max(100, 'Le taux de TVA ne peut pas dépasser 100%'),
+  // Single-line shortcut kept for older clients; ignored when lines are provided
+  amountHt: z.number().positive('Le montant HT doit être positif').optional(),
+  taxRate: z.number().min(0, 'Le taux de TVA ne peut pas être négatif').max(100, 'Le taux de TVA ne peut pas dépasser 100%').optional(),
+  lines: z.array(invoiceLineSchema).min(1, 'La facture doit contenir au moins une ligne').optional(),
+  // Amounts are in this currency; the rate (units per EUR) is looked up when omitted
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Devise invalide (code ISO à 3 lettres)').optional(),
+  exchangeRate: z.number().positive('Le taux de change doit être positif').optional(),
+  // Inferred for 0% invoices when omitted (franchise, intra-EU or export)
+  tvaRegime: z.enum(TVA_REGIMES, { message: 'Régime de TVA invalide' }).optional(),
+  // Defaults to the activity set in the settings
+  activityType: z.enum(MICRO_ACTIVITY_TYPES, { message: 'Type d\'activité invalide' }).optional(),
   invoiceNumber: z.string().optional(),
   note: z.string().optional(),
-  isCanceled: z.boolean().optional(),
 })
 
-export const updateInvoiceSchema = createInvoiceSchema.partial()
+export const createInvoiceSchema = invoiceBodySchema
+  .refine((data) => data.clientId !== undefined || data.client !== undefined, {
+    message: 'Le client est requis',
+  })
+  .refine(
+    (data) => data.lines !== undefined || (data.amountHt !== undefined && data.taxRate !== undefined),
+    { message: 'Ajoutez au moins une ligne à la facture' }
+  )
+  .refine((data) => !data.dueDate || data.dueDate >= data.invoiceDate, {
+    message: 'L\'échéance ne peut pas précéder la date de facture',
+  })
+
+export const updateInvoiceSchema = invoiceBodySchema.partial()
+
+export const agingQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
+})
+
+export const createCreditNoteSchema = z.object({
+  invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)'),
+  // Only meaningful when the credited invoice was already paid
+  refundDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
+  // Positive amounts to credit; omitted for a full credit note
+  lines: z.array(invoiceLineSchema).min(1, 'L\'avoir doit contenir au moins une ligne').optional(),
+  reason: z.string().optional(),
+})
+
+export const createPaymentSchema = z.object({
+  paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)'),
+  // Always positive: refunds of a credit note are stored negated
+  amount: z.number().positive('Le montant doit être positif'),
+  method: z.enum(['transfer', 'check', 'card', 'cash', 'direct_debit', 'other']).default('transfer'),
+  reference: z.string().max(255).optional(),
+})
 
 export const listQuerySchema = z.object({
   month: z.string().regex(/^\d{4}-\d{2}$/, 'Format de mois invalide (YYYY-MM)').optional(),
   year: z.coerce.number().min(2000).max(2100).optional(),
   client: z.string().optional(),
+  clientId: z.string().uuid('Client invalide').optional(),
+  type: z.enum(['invoice', 'credit_note']).optional(),
   limit: z.coerce.number().min(1).max(500).default(100),
   offset: z.coerce.number().min(0).default(0),
 })
@@ -32,6 +103,70 @@ export function calculateTtc(amountHt: number, taxRate: number): string {
   return ttc.toFixed(2)
 }
 
+function singleLine(description: string | null | undefined, amountHt: number, taxRate: number): InvoiceLineInput {
+  return {
+    description: description || 'Prestation de services',
+    quantity: 1,
+    unitPrice: amountHt,
+    taxRate,
+  }
+}
+
+// A payment change refused once the invoice is locked; rolls the transaction back
+class InvoicePaymentsError extends Error {
+  constructor(public readonly statusCode: 400 | 409, message: string) {
+    super(message)
+  }
+}
+
+// Gather everything an invoice document needs: invoice, lines, issuer, client and credited invoice
+async function loadInvoiceDocument(
+  id: string,
+  userId: string
+): Promise<{ status: number; message: string } | { data: InvoicePdfData; filename: string }> {
+  const invoice = await db.query.invoices.findFirst({
+    where: and(eq(invoices.id, id), eq(invoices.userId, userId)),
+  })
+
+  if (!invoice) {
+    return { status: 404, message: 'Facture non trouvée' }
+  }
+
+  if (!invoice.invoiceNumber) {
+    return { status: 400, message: 'La facture doit avoir un numéro pour être générée' }
+  }
+
+  const issuer = await db.query.issuerProfiles.findFirst({
+    where: eq(issuerProfiles.userId, userId),
+  })
+
+  if (!issuer) {
+    return {
+      status: 400,
+      message: 'Renseignez vos informations émetteur dans la configuration avant de générer une facture',
+    }
+  }
+
+  const lines = await db
+    .select()
+    .from(invoiceLines)
+    .where(eq(invoiceLines.invoiceId, invoice.id))
+    .orderBy(invoiceLines.position)
+
+  const client = await db.query.clients.findFirst({
+    where: eq(clients.id, invoice.clientId),
+  })
+
+  const creditedInvoice = invoice.creditedInvoiceId
+    ? await db.query.invoices.findFirst({ where: eq(invoices.id, invoice.creditedInvoiceId) })
+    : null
+
+  return {
+    data: { invoice, creditedInvoice, lines, issuer, client: { ...client, name: invoice.client } },
+    filename: `${invoice.type === 'credit_note' ? 'avoir' : 'facture'}-${invoice.invoiceNumber.replace(/[^\w-]/g, '_')}`,
+  }
+}
+
 export async function invoiceRoutes(fastify: FastifyInstance) {
   // List invoices
   fastify.get(
@@ -45,7 +180,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         })
       }
 
-      const { month, year, client, limit, offset } = parseResult.data
+      const { month, year, client, clientId, type, limit, offset } = parseResult.data
       const userId = request.authUser.userId
 
       // Build conditions array
@@ -69,8 +204,19 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         conditions.push(sql`${invoices.client} ILIKE ${`%${client}%`}`)
       }
 
+      if (clientId) {
+        conditions.push(eq(invoices.clientId, clientId))
+      }
+
+      if (type) {
+        conditions.push(eq(invoices.type, type))
+      }
+
       const results = await db
-        .select()
+        .select({
+          invoice: invoices,
+          amountPaid: sql<string>`(SELECT COALESCE(SUM(${invoicePayments.amount}::numeric), 0) FROM ${invoicePayments} WHERE ${invoicePayments.invoiceId} = ${invoices.id})`,
+        })
         .from(invoices)
         .where(and(...conditions))
         .orderBy(desc(invoices.invoiceDate))
@@ -84,7 +230,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         .where(and(...conditions))
 
       return {
-        data: results,
+        data: results.map((row) => ({ ...row.invoice, amountPaid: parseFloat(row.amountPaid).toFixed(2) })),
         total: Number(countResult[0].count),
         limit,
         offset,
@@ -92,6 +238,26 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
     }
   )
 
+  // Balance âgée: unpaid invoices per client and lateness, with late penalties
+  fastify.get(
+    '/api/invoices/aging',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = agingQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const userId = request.authUser.userId
+      const onDate = parseResult.data.date ?? new Date().toISOString().split('T')[0]
+
+      const receivables = await getOpenReceivables(userId, onDate)
+      return buildAgingReport(receivables, onDate, await getLatePenaltyRate(userId))
+    }
+  )
+
   // Get single invoice
   fastify.get(
     '/api/invoices/:id',
@@ -108,40 +274,94 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ message: 'Facture non trouvée' })
       }
 
-      return invoice
+      const lines = await db
+        .select()
+        .from(invoiceLines)
+        .where(eq(invoiceLines.invoiceId, invoice.id))
+        .orderBy(invoiceLines.position)
+
+      const payments = await getInvoicePayments(db, invoice.id)
+
+      return { ...invoice, lines, payments }
     }
   )
 
-  // Get unique clients (from saved list + invoice history)
+  // Download invoice as PDF
   fastify.get(
-    '/api/invoices/clients',
+    '/api/invoices/:id/pdf',
     { preHandler: [requireAuth] },
-    async (request: FastifyRequest) => {
-      const userId = request.authUser.userId
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const result = await loadInvoiceDocument(id, request.authUser.userId)
 
-      // Get saved clients
-      const savedClients = await db
-        .select({ name: invoiceClients.name })
-        .from(invoiceClients)
-        .where(eq(invoiceClients.userId, userId))
-        .orderBy(invoiceClients.name)
+      if ('status' in result) {
+        return reply.status(result.status).send({ message: result.message })
+      }
 
-      // Get clients from invoices
-      const invoiceClientsList = await db
-        .selectDistinct({ client: invoices.client })
-        .from(invoices)
-        .where(eq(invoices.userId, userId))
-        .orderBy(invoices.client)
+      const pdf = await renderInvoicePdf(result.data)
 
-      // Merge and deduplicate
-      const allClients = new Set([
-        ...savedClients.map((r) => r.name),
-        ...invoiceClientsList.map((r) => r.client),
-      ])
+      return reply
+        .header('Content-Type', 'application/pdf')
+        .header('Content-Disposition', `attachment; filename="${result.filename}.pdf"`)
+        .send(pdf)
+    }
+  )
 
-      return {
-        clients: Array.from(allClients).sort(),
+  // Download invoice as Factur-X (PDF/A-3 with embedded CII XML)
+  fastify.get(
+    '/api/invoices/:id/facturx',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const result = await loadInvoiceDocument(id, request.authUser.userId)
+
+      if ('status' in result) {
+        return reply.status(result.status).send({ message: result.message })
+      }
+
+      const issues = validateEInvoice(result.data)
+      if (issues.length > 0) {
+        return reply.status(400).send({ message: new EInvoiceValidationError(issues).message, issues })
+      }
+
+      let pdf: Buffer
+      try {
+        pdf = await renderFacturXPdf(result.data)
+      } catch (error) {
+        if (error instanceof MissingPdfFontError) {
+          return reply.status(503).send({ message: error.message })
+        }
+        throw error
+      }
+
+      return reply
+        .header('Content-Type', 'application/pdf')
+        .header('Content-Disposition', `attachment; filename="${result.filename}-facturx.pdf"`)
+        .send(pdf)
+    }
+  )
+
+  // Download invoice as UBL 2.1 XML
+  fastify.get(
+    '/api/invoices/:id/ubl',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const result = await loadInvoiceDocument(id, request.authUser.userId)
+
+      if ('status' in result) {
+        return reply.status(result.status).send({ message: result.message })
+      }
+
+      const issues = validateEInvoice(result.data)
+      if (issues.length > 0) {
+        return reply.status(400).send({ message: new EInvoiceValidationError(issues).message, issues })
       }
+
+      return reply
+        .header('Content-Type', 'application/xml; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="${result.filename}.xml"`)
+        .send(buildUblXml(result.data))
     }
   )
 
@@ -178,50 +398,6 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
     }
   )
 
-  // Add a client to saved list
-  fastify.post(
-    '/api/invoices/settings/clients',
-    { preHandler: [requireAuth] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const schema = z.object({ client: z.string().min(1) })
-      const parseResult = schema.safeParse(request.body)
-      if (!parseResult.success) {
-        return reply.status(400).send({ message: parseResult.error.issues[0].message })
-      }
-
-      const userId = request.authUser.userId
-      const { client } = parseResult.data
-
-      // Check if already exists
-      const existing = await db.query.invoiceClients.findFirst({
-        where: and(eq(invoiceClients.userId, userId), eq(invoiceClients.name, client)),
-      })
-
-      if (existing) {
-        return reply.status(409).send({ message: 'Ce client existe déjà' })
-      }
-
-      await db.insert(invoiceClients).values({ userId, name: client })
-      return reply.status(201).send({ success: true })
-    }
-  )
-
-  // Delete a client from saved list
-  fastify.delete(
-    '/api/invoices/settings/clients/:name',
-    { preHandler: [requireAuth] },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const { name } = request.params as { name: string }
-      const userId = request.authUser.userId
-
-      await db
-        .delete(invoiceClients)
-        .where(and(eq(invoiceClients.userId, userId), eq(invoiceClients.name, decodeURIComponent(name))))
-
-      return reply.status(204).send()
-    }
-  )
-
   // Add a description to saved list
   fastify.post(
     '/api/invoices/settings/descriptions',
@@ -267,39 +443,25 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
   )
 
   // Get next invoice number
-  // Format: yyyymmxx where yyyy=year, mm=invoice creation month, xx=yearly invoice count
-  // Example: 20250102 = 2nd invoice of January 2025, 20251128 = 28th invoice of the year in November 2025
   fastify.get(
     '/api/invoices/next-number',
     { preHandler: [requireAuth] },
     async (request: FastifyRequest) => {
-      const userId = request.authUser.userId
-      const now = new Date()
-      const year = now.getFullYear()
-      const month = (now.getMonth() + 1).toString().padStart(2, '0')
-      const yearPrefix = year.toString()
-
-      // Count how many invoices exist for this year (regardless of month)
-      // to get the next yearly sequential number
-      const countResult = await db
-        .select({ count: sql<number>`count(*)` })
-        .from(invoices)
-        .where(
-          and(
-            eq(invoices.userId, userId),
-            sql`${invoices.invoiceNumber} LIKE ${yearPrefix + '%'}`,
-            sql`LENGTH(${invoices.invoiceNumber}) = 8`
-          )
-        )
-
-      const yearlyCount = Number(countResult[0].count) + 1
-
       return {
-        invoiceNumber: `${year}${month}${yearlyCount.toString().padStart(2, '0')}`,
+        invoiceNumber: await peekNextNumber(db, request.authUser.userId, 'invoice', new Date().toISOString().split('T')[0]),
       }
     }
   )
 
+  // Numbers of the current sequence period that no invoice carries anymore
+  fastify.get(
+    '/api/invoices/numbering-gaps',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest) => {
+      return getSequenceGaps(db, request.authUser.userId, 'invoice', new Date().toISOString().split('T')[0])
+    }
+  )
+
   // Create invoice
   fastify.post(
     '/api/invoices',
@@ -314,26 +476,45 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
       const data = parseResult.data
       const userId = request.authUser.userId
-      const amountTtc = calculateTtc(data.amountHt, data.taxRate)
-
-      const [invoice] = await db
-        .insert(invoices)
-        .values({
-          userId,
-          client: data.client,
-          description: data.description,
-          invoiceDate: data.invoiceDate,
-          paymentDate: data.paymentDate,
-          amountHt: data.amountHt.toFixed(2),
-          taxRate: data.taxRate.toFixed(2),
-          amountTtc,
-          invoiceNumber: data.invoiceNumber,
-          note: data.note,
-          isCanceled: data.isCanceled ?? false,
-        })
-        .returning()
 
-      return reply.status(201).send(invoice)
+      const client = await resolveInvoiceClient(userId, data.clientId, data.client)
+      if (!client) {
+        return reply.status(404).send({ message: 'Client non trouvé' })
+      }
+
+      const lines = data.lines ?? [singleLine(data.description, data.amountHt!, data.taxRate!)]
+      const regimeIssue = data.tvaRegime && checkTvaRegime(data.tvaRegime, lines.map((line) => line.taxRate), client.tvaNumber)
+      if (regimeIssue) {
+        return reply.status(400).send({ message: regimeIssue })
+      }
+
+      try {
+        const result = await db.transaction((tx) =>
+          createInvoice(tx, userId, client, {
+            description: data.description,
+            invoiceDate: data.invoiceDate,
+            dueDate: data.dueDate,
+            paymentDate: data.paymentDate,
+            lines,
+            currency: data.currency,
+            exchangeRate: data.exchangeRate,
+            tvaRegime: data.tvaRegime,
+            activityType: data.activityType,
+            invoiceNumber: data.invoiceNumber || undefined,
+            note: data.note,
+          })
+        )
+
+        return reply.status(201).send(result)
+      } catch (error) {
+        if (error instanceof InvoiceNumberConflictError) {
+          return reply.status(409).send({ message: error.message })
+        }
+        if (error instanceof MissingExchangeRateError) {
+          return reply.status(400).send({ message: error.message })
+        }
+        throw error
+      }
     }
   )
 
@@ -364,30 +545,484 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
       const data = parseResult.data
       const updateData: Record<string, unknown> = {}
 
-      if (data.client !== undefined) updateData.client = data.client
+      // A credit note is a legal document: only its refund date and note can change
+      if (existing.type === 'credit_note') {
+        const editableKeys = ['paymentDate', 'note']
+        if (Object.keys(data).some((key) => !editableKeys.includes(key))) {
+          return reply.status(400).send({
+            message: 'Seules la date de remboursement et la note d\'un avoir peuvent être modifiées',
+          })
+        }
+      }
+
+      if (data.clientId !== undefined || data.client !== undefined) {
+        const client = await resolveInvoiceClient(userId, data.clientId, data.client)
+        if (!client) {
+          return reply.status(404).send({ message: 'Client non trouvé' })
+        }
+        updateData.clientId = client.id
+        updateData.client = client.name
+      }
       if (data.description !== undefined) updateData.description = data.description
       if (data.invoiceDate !== undefined) updateData.invoiceDate = data.invoiceDate
-      if (data.paymentDate !== undefined) updateData.paymentDate = data.paymentDate
-      if (data.invoiceNumber !== undefined) updateData.invoiceNumber = data.invoiceNumber
+
+      // The due date follows the invoice date and client terms unless set explicitly
+      const invoiceDate = data.invoiceDate ?? existing.invoiceDate
+      if (data.dueDate !== undefined) {
+        updateData.dueDate = data.dueDate
+      } else if (data.invoiceDate !== undefined || updateData.clientId !== undefined) {
+        const clientId = (updateData.clientId as string | undefined) ?? existing.clientId
+        updateData.dueDate = computeDueDate(invoiceDate, await getClientPaymentTerms(db, userId, clientId))
+      }
+      if (typeof updateData.dueDate === 'string' && updateData.dueDate < invoiceDate) {
+        return reply.status(400).send({ message: 'L\'échéance ne peut pas précéder la date de facture' })
+      }
+
+      if (data.invoiceNumber !== undefined && data.invoiceNumber !== existing.invoiceNumber) {
+        if (!data.invoiceNumber) {
+          return reply.status(400).send({ message: 'Le numéro de facture ne peut pas être vidé' })
+        }
+        if (await isInvoiceNumberTaken(db, userId, data.invoiceNumber, id)) {
+          return reply.status(409).send({ message: new InvoiceNumberConflictError(data.invoiceNumber).message })
+        }
+        updateData.invoiceNumber = data.invoiceNumber
+      }
       if (data.note !== undefined) updateData.note = data.note
-      if (data.isCanceled !== undefined) updateData.isCanceled = data.isCanceled
 
-      // Recalculate TTC if amounts changed
-      if (data.amountHt !== undefined || data.taxRate !== undefined) {
-        const amountHt = data.amountHt ?? parseFloat(existing.amountHt)
-        const taxRate = data.taxRate ?? parseFloat(existing.taxRate)
-        updateData.amountHt = amountHt.toFixed(2)
-        updateData.taxRate = taxRate.toFixed(2)
-        updateData.amountTtc = calculateTtc(amountHt, taxRate)
+      // Changing the currency without a rate picks the recorded one for the invoice date
+      if (data.currency !== undefined || data.exchangeRate !== undefined) {
+        const currency = data.currency ?? existing.currency
+        try {
+          updateData.currency = currency
+          updateData.exchangeRate = await resolveExchangeRate(db, userId, currency, invoiceDate, data.exchangeRate)
+        } catch (error) {
+          if (error instanceof MissingExchangeRateError) {
+            return reply.status(400).send({ message: error.message })
+          }
+          throw error
+        }
+      }
+
+      // Lines are replaced as a whole; the legacy amount fields rewrite a single line
+      let newLines: InvoiceLineInput[] | undefined = data.lines
+      if (!newLines && (data.amountHt !== undefined || data.taxRate !== undefined)) {
+        const taxRate = data.taxRate ?? (existing.taxRate !== null ? parseFloat(existing.taxRate) : undefined)
+        if (taxRate === undefined) {
+          return reply.status(400).send({ message: 'Précisez le taux de TVA ou les lignes de la facture' })
+        }
+        newLines = [singleLine(data.description ?? existing.description, data.amountHt ?? parseFloat(existing.amountHt), taxRate)]
+      }
+
+      const built = newLines ? buildInvoiceLines(newLines) : undefined
+      if (built) {
+        updateData.amountHt = built.totals.amountHt
+        updateData.taxRate = built.totals.taxRate
+        updateData.amountTtc = built.totals.amountTtc
+      }
+
+      // A regime without TVA is checked against the resulting lines and client
+      const tvaRegime = (data.tvaRegime ?? existing.tvaRegime) as TvaRegime
+      if (tvaRegime !== 'domestic' && (data.tvaRegime !== undefined || newLines || updateData.clientId !== undefined)) {
+        const taxRates = newLines
+          ? newLines.map((line) => line.taxRate)
+          : (await db.select({ taxRate: invoiceLines.taxRate }).from(invoiceLines).where(eq(invoiceLines.invoiceId, id)))
+            .map((line) => parseFloat(line.taxRate))
+        const client = await db.query.clients.findFirst({
+          where: eq(clients.id, (updateData.clientId as string | undefined) ?? existing.clientId),
+        })
+        const regimeIssue = checkTvaRegime(tvaRegime, taxRates, client?.tvaNumber)
+        if (regimeIssue) {
+          return reply.status(400).send({ message: regimeIssue })
+        }
+      }
+      if (data.tvaRegime !== undefined) updateData.tvaRegime = data.tvaRegime
+      if (data.activityType !== undefined) updateData.activityType = data.activityType
+
+      try {
+        return await db.transaction(async (tx) => {
+          // The amount is checked against the payments once the invoice is locked:
+          // a single settling payment follows it below, several cannot be split over it
+          if (built) {
+            await tx.select({ id: invoices.id }).from(invoices).where(eq(invoices.id, id)).for('update')
+            const payments = await getInvoicePayments(tx, id)
+            const cashPayments = payments.filter((payment) => payment.method !== 'credit_note')
+            const adjusted = existing.paymentDate && cashPayments.length === 1 ? cashPayments[0] : undefined
+            if (existing.paymentDate && cashPayments.length > 1 && built.totals.amountTtc !== existing.amountTtc) {
+              throw new InvoicePaymentsError(
+                409,
+                'Cette facture a été réglée en plusieurs paiements : corrigez ou supprimez-les avant de modifier son montant'
+              )
+            }
+            const paid = roundCents(payments
+              .filter((payment) => payment !== adjusted)
+              .reduce((sum, payment) => sum + parseFloat(payment.amount), 0))
+            if (paid > parseFloat(built.totals.amountTtc)) {
+              throw new InvoicePaymentsError(
+                409,
+                `Le montant TTC ne peut pas être inférieur aux paiements déjà enregistrés (${paid.toFixed(2)} €)`
+              )
+            }
+          }
+
+          const update = () => tx
+            .update(invoices)
+            .set(updateData)
+            .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
+            .returning()
+          const [invoice] = typeof updateData.invoiceNumber === 'string'
+            ? await withInvoiceNumber(updateData.invoiceNumber, update)
+            : await update()
+
+          if (built) {
+            await tx.delete(invoiceLines).where(eq(invoiceLines.invoiceId, id))
+            await tx.insert(invoiceLines).values(built.rows.map((row) => ({ ...row, invoiceId: id })))
+          }
+
+          if (!built && data.paymentDate === undefined) {
+            return invoice
+          }
+
+          const payments = await getInvoicePayments(tx, id)
+          const cashPayments = payments.filter((payment) => payment.method !== 'credit_note')
+
+          // Correcting the amounts of a settled invoice keeps it settled
+          if (built && existing.paymentDate && cashPayments.length === 1) {
+            const otherPaid = payments
+              .filter((payment) => payment.id !== cashPayments[0].id)
+              .reduce((sum, payment) => sum + parseFloat(payment.amount), 0)
+            await tx
+              .update(invoicePayments)
+              .set({ amount: roundCents(parseFloat(invoice.amountTtc) - otherPaid).toFixed(2) })
+              .where(eq(invoicePayments.id, cashPayments[0].id))
+          }
+
+          // A payment date records the remaining balance as paid on that day,
+          // or moves the single payment of an already settled invoice
+          if (data.paymentDate) {
+            const outstanding = getOutstandingAmount(
+              parseFloat(invoice.amountTtc),
+              (await getInvoicePayments(tx, id)).map((payment) => ({
+                paymentDate: payment.paymentDate,
+                amount: parseFloat(payment.amount),
+              }))
+            )
+            if (outstanding * Math.sign(parseFloat(invoice.amountTtc)) > 0) {
+              await tx.insert(invoicePayments).values({
+                invoiceId: id,
+                paymentDate: data.paymentDate,
+                amount: outstanding.toFixed(2),
+              })
+            } else if (cashPayments.length === 1) {
+              await tx
+                .update(invoicePayments)
+                .set({ paymentDate: data.paymentDate })
+                .where(eq(invoicePayments.id, cashPayments[0].id))
+            }
+          }
+
+          const paymentDate = await syncInvoicePaymentDate(tx, id, invoice.amountTtc)
+          return { ...invoice, paymentDate }
+        })
+      } catch (error) {
+        if (error instanceof InvoiceNumberConflictError) {
+          return reply.status(409).send({ message: error.message })
+        }
+        if (error instanceof InvoicePaymentsError) {
+          return reply.status(error.statusCode).send({ message: error.message })
+        }
+        throw error
+      }
+    }
+  )
+
+  // Issue a credit note (avoir) against an invoice, for its full amount or selected lines
+  fastify.post(
+    '/api/invoices/:id/credit-notes',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = createCreditNoteSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const source = await db.query.invoices.findFirst({
+        where: and(eq(invoices.id, id), eq(invoices.userId, userId)),
+      })
+
+      if (!source) {
+        return reply.status(404).send({ message: 'Facture non trouvée' })
       }
 
-      const [updated] = await db
-        .update(invoices)
-        .set(updateData)
-        .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
-        .returning()
+      if (source.type === 'credit_note') {
+        return reply.status(400).send({ message: 'Un avoir ne peut pas faire l\'objet d\'un avoir' })
+      }
+
+      const data = parseResult.data
+      const sourceAmountHt = parseFloat(source.amountHt)
+
+      const creditedResult = await db
+        .select({ totalHt: sql<string>`COALESCE(SUM(-${invoices.amountHt}::numeric), 0)` })
+        .from(invoices)
+        .where(eq(invoices.creditedInvoiceId, id))
+      const alreadyCreditedHt = parseFloat(creditedResult[0].totalHt)
+
+      let creditLines: InvoiceLineInput[]
+      if (data.lines) {
+        creditLines = data.lines
+      } else {
+        if (alreadyCreditedHt > 0) {
+          return reply.status(400).send({
+            message: 'La facture a déjà un avoir partiel : précisez les lignes à créditer',
+          })
+        }
+        const sourceLines = await db
+          .select()
+          .from(invoiceLines)
+          .where(eq(invoiceLines.invoiceId, id))
+          .orderBy(invoiceLines.position)
+        creditLines = sourceLines.map((line) => ({
+          description: line.description,
+          quantity: parseFloat(line.quantity),
+          unit: line.unit ?? undefined,
+          unitPrice: parseFloat(line.unitPrice),
+          taxRate: parseFloat(line.taxRate),
+          discount: parseFloat(line.discount),
+        }))
+      }
+
+      const creditTotals = calculateInvoiceTotals(creditLines)
+      const creditHt = parseFloat(creditTotals.amountHt)
+      if (creditHt <= 0) {
+        return reply.status(400).send({ message: 'Le montant de l\'avoir doit être positif' })
+      }
+      if (alreadyCreditedHt + creditHt > sourceAmountHt + 0.005) {
+        return reply.status(400).send({
+          message: 'Le montant de l\'avoir dépasse le montant restant de la facture',
+        })
+      }
+      if (source.tvaRegime !== 'domestic' && creditLines.some((line) => line.taxRate > 0)) {
+        return reply.status(400).send({ message: 'L\'avoir d\'une facture sans TVA ne peut pas porter de TVA' })
+      }
 
-      return updated
+      // Stored negated so that revenue and TVA sums net out without special cases
+      const { rows, totals } = buildInvoiceLines(
+        creditLines.map((line) => ({ ...line, unitPrice: -line.unitPrice }))
+      )
+
+      // Cash basis: the credit is first offset against what the client still owes,
+      // the rest is refunded (a payment on the credit note) once refundDate is known
+      const sourcePayments = await getInvoicePayments(db, source.id)
+      const sourceOutstanding = getOutstandingAmount(
+        parseFloat(source.amountTtc),
+        sourcePayments.map((payment) => ({ paymentDate: payment.paymentDate, amount: parseFloat(payment.amount) }))
+      )
+      const creditTtc = -parseFloat(totals.amountTtc)
+      const offsetAmount = roundCents(Math.max(0, Math.min(creditTtc, sourceOutstanding)))
+      const refundAmount = roundCents(creditTtc - offsetAmount)
+
+      const reference = source.invoiceNumber ? `Avoir sur facture ${source.invoiceNumber}` : 'Avoir'
+
+      const result = await db.transaction(async (tx) => {
+        const invoiceNumber = await allocateNumber(tx, userId, 'credit_note', data.invoiceDate)
+        const [creditNote] = await tx
+          .insert(invoices)
+          .values({
+            userId,
+            type: 'credit_note',
+            creditedInvoiceId: source.id,
+            clientId: source.clientId,
+            client: source.client,
+            description: data.reason ? `${reference} - ${data.reason}` : reference,
+            invoiceDate: data.invoiceDate,
+            amountHt: totals.amountHt,
+            taxRate: totals.taxRate,
+            amountTtc: totals.amountTtc,
+            // Converted at the rate of the credited invoice so both cancel out in EUR too
+            currency: source.currency,
+            exchangeRate: source.exchangeRate,
+            tvaRegime: source.tvaRegime,
+            activityType: source.activityType,
+            invoiceNumber,
+          })
+          .returning()
+
+        const lines = await tx
+          .insert(invoiceLines)
+          .values(rows.map((row) => ({ ...row, invoiceId: creditNote.id })))
+          .returning()
+
+        if (offsetAmount > 0) {
+          await tx.insert(invoicePayments).values([
+            {
+              invoiceId: source.id,
+              paymentDate: data.invoiceDate,
+              amount: offsetAmount.toFixed(2),
+              method: 'credit_note',
+              reference: invoiceNumber,
+            },
+            {
+              invoiceId: creditNote.id,
+              paymentDate: data.invoiceDate,
+              amount: (-offsetAmount).toFixed(2),
+              method: 'credit_note',
+              reference: source.invoiceNumber,
+            },
+          ])
+          await syncInvoicePaymentDate(tx, source.id, source.amountTtc)
+        }
+
+        if (refundAmount > 0 && data.refundDate) {
+          await tx.insert(invoicePayments).values({
+            invoiceId: creditNote.id,
+            paymentDate: data.refundDate,
+            amount: (-refundAmount).toFixed(2),
+          })
+        }
+
+        const paymentDate = await syncInvoicePaymentDate(tx, creditNote.id, creditNote.amountTtc)
+        return { ...creditNote, paymentDate, lines }
+      })
+
+      return reply.status(201).send(result)
+    }
+  )
+
+  // List payments received on an invoice (or refunds of a credit note)
+  fastify.get(
+    '/api/invoices/:id/payments',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const invoice = await db.query.invoices.findFirst({
+        where: and(eq(invoices.id, id), eq(invoices.userId, userId)),
+      })
+
+      if (!invoice) {
+        return reply.status(404).send({ message: 'Facture non trouvée' })
+      }
+
+      return getInvoicePayments(db, id)
+    }
+  )
+
+  // Record a payment (deposit, installment, balance) or a credit note refund
+  fastify.post(
+    '/api/invoices/:id/payments',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = createPaymentSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const invoice = await db.query.invoices.findFirst({
+        where: and(eq(invoices.id, id), eq(invoices.userId, userId)),
+      })
+
+      if (!invoice) {
+        return reply.status(404).send({ message: 'Facture non trouvée' })
+      }
+
+      const data = parseResult.data
+      const sign = invoice.type === 'credit_note' ? -1 : 1
+
+      try {
+        const result = await db.transaction(async (tx) => {
+          // Locking the invoice serializes concurrent payments against its balance
+          const [locked] = await tx
+            .select({ amountTtc: invoices.amountTtc })
+            .from(invoices)
+            .where(eq(invoices.id, id))
+            .for('update')
+          const payments = await getInvoicePayments(tx, id)
+          const outstanding = getOutstandingAmount(
+            parseFloat(locked.amountTtc),
+            payments.map((payment) => ({ paymentDate: payment.paymentDate, amount: parseFloat(payment.amount) }))
+          )
+
+          if (roundCents(data.amount) > outstanding * sign) {
+            throw new InvoicePaymentsError(
+              400,
+              `Le montant dépasse le reste à ${invoice.type === 'credit_note' ? 'rembourser' : 'payer'} (${(outstanding * sign).toFixed(2)} €)`
+            )
+          }
+
+          const [payment] = await tx
+            .insert(invoicePayments)
+            .values({
+              invoiceId: id,
+              paymentDate: data.paymentDate,
+              amount: (data.amount * sign).toFixed(2),
+              method: data.method,
+              reference: data.reference,
+            })
+            .returning()
+
+          await syncInvoicePaymentDate(tx, id, locked.amountTtc)
+          return payment
+        })
+
+        return reply.status(201).send(result)
+      } catch (error) {
+        if (error instanceof InvoicePaymentsError) {
+          return reply.status(error.statusCode).send({ message: error.message })
+        }
+        throw error
+      }
+    }
+  )
+
+  // Remove a recorded payment
+  fastify.delete(
+    '/api/invoices/:id/payments/:paymentId',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id, paymentId } = request.params as { id: string; paymentId: string }
+      const userId = request.authUser.userId
+
+      const invoice = await db.query.invoices.findFirst({
+        where: and(eq(invoices.id, id), eq(invoices.userId, userId)),
+      })
+
+      if (!invoice) {
+        return reply.status(404).send({ message: 'Facture non trouvée' })
+      }
+
+      const payment = await db.query.invoicePayments.findFirst({
+        where: and(eq(invoicePayments.id, paymentId), eq(invoicePayments.invoiceId, id)),
+      })
+
+      if (!payment) {
+        return reply.status(404).send({ message: 'Paiement non trouvé' })
+      }
+
+      if (payment.method === 'credit_note') {
+        return reply.status(409).send({
+          message: 'Une compensation par avoir ne peut pas être supprimée',
+        })
+      }
+
+      await db.transaction(async (tx) => {
+        if (payment.bankTransactionId) {
+          await releaseBankTransactions(tx, eq(bankTransactions.id, payment.bankTransactionId))
+        }
+        await tx.delete(invoicePayments).where(eq(invoicePayments.id, paymentId))
+        await syncInvoicePaymentDate(tx, id, invoice.amountTtc)
+      })
+
+      return reply.status(204).send()
     }
   )
 
@@ -407,15 +1042,45 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ message: 'Facture non trouvée' })
       }
 
-      await db
-        .delete(invoices)
-        .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
+      const creditNote = await db.query.invoices.findFirst({
+        where: eq(invoices.creditedInvoiceId, id),
+      })
+
+      if (creditNote) {
+        return reply.status(409).send({
+          message: 'Cette facture fait l\'objet d\'un avoir et ne peut pas être supprimée',
+        })
+      }
+
+      await db.transaction(async (tx) => {
+        // Drop the offset this credit note had recorded on the credited invoice
+        if (existing.type === 'credit_note' && existing.creditedInvoiceId) {
+          await tx
+            .delete(invoicePayments)
+            .where(
+              and(
+                eq(invoicePayments.invoiceId, existing.creditedInvoiceId),
+                eq(invoicePayments.method, 'credit_note'),
+                eq(invoicePayments.reference, existing.invoiceNumber ?? '')
+              )
+            )
+          const source = await tx.query.invoices.findFirst({ where: eq(invoices.id, existing.creditedInvoiceId) })
+          if (source) {
+            await syncInvoicePaymentDate(tx, source.id, source.amountTtc)
+          }
+        }
+
+        await releaseBankTransactions(tx, and(eq(bankTransactions.matchType, 'invoice'), eq(bankTransactions.matchId, id)))
+        await tx
+          .delete(invoices)
+          .where(and(eq(invoices.id, id), eq(invoices.userId, userId)))
+      })
 
       return reply.status(204).send()
     }
   )
 
-  // Get monthly summary
+  // Get monthly summary, in EUR
   fastify.get(
     '/api/invoices/summary/monthly',
     { preHandler: [requireAuth] },
@@ -441,15 +1106,14 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
       const result = await db
         .select({
-          totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-          totalTtc: sql<string>`COALESCE(SUM(${invoices.amountTtc}::numeric), 0)`,
+          totalHt: sql<string>`COALESCE(SUM(${eurAmount(invoices.amountHt, invoices.exchangeRate)}), 0)`,
+          totalTtc: sql<string>`COALESCE(SUM(${eurAmount(invoices.amountTtc, invoices.exchangeRate)}), 0)`,
           count: sql<number>`count(*)`,
         })
         .from(invoices)
         .where(
           and(
             eq(invoices.userId, userId),
-            eq(invoices.isCanceled, false),
             gte(invoices.invoiceDate, startDate),
             lte(invoices.invoiceDate, endDate)
           )
@@ -470,7 +1134,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
     }
   )
 
-  // Get yearly summary
+  // Get yearly summary, in EUR
   fastify.get(
     '/api/invoices/summary/yearly',
     { preHandler: [requireAuth] },
@@ -494,15 +1158,14 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
       const result = await db
         .select({
-          totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-          totalTtc: sql<string>`COALESCE(SUM(${invoices.amountTtc}::numeric), 0)`,
+          totalHt: sql<string>`COALESCE(SUM(${eurAmount(invoices.amountHt, invoices.exchangeRate)}), 0)`,
+          totalTtc: sql<string>`COALESCE(SUM(${eurAmount(invoices.amountTtc, invoices.exchangeRate)}), 0)`,
           count: sql<number>`count(*)`,
         })
         .from(invoices)
         .where(
           and(
             eq(invoices.userId, userId),
-            eq(invoices.isCanceled, false),
             gte(invoices.invoiceDate, startDate),
             lte(invoices.invoiceDate, endDate)
           )
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createTestApp, createTestToken } from '../test-utils'
+import {
+  createQuoteSchema,
+  updateQuoteSchema,
+  resolveQuoteStatus,
+  summarizePipeline,
+  quoteRoutes,
+} from './quotes'
+
+// ─── Pure unit tests: Zod schemas ───────────────────────────────────
+
+describe('createQuoteSchema', () => {
+  const validQuote = {
+    client: 'Acme SAS',
+    quoteDate: '2025-03-01',
+    validUntil: '2025-03-31',
+    lines: [{ description: 'Développement', quantity: 5, unit: 'jour', unitPrice: 450, taxRate: 20 }],
+  }
+
+  it('accepts a valid quote', () => {
+    expect(createQuoteSchema.safeParse(validQuote).success).toBe(true)
+  })
+
+  it('requires a client', () => {
+    expect(createQuoteSchema.safeParse({ ...validQuote, client: undefined }).success).toBe(false)
+  })
+
+  it('requires at least one line', () => {
+    expect(createQuoteSchema.safeParse({ ...validQuote, lines: [] }).success).toBe(false)
+  })
+
+  it('rejects a validity date before the quote date', () => {
+    expect(createQuoteSchema.safeParse({ ...validQuote, validUntil: '2025-02-28' }).success).toBe(false)
+  })
+
+  it('rejects an unknown status', () => {
+    expect(createQuoteSchema.safeParse({ ...validQuote, status: 'invoiced' }).success).toBe(false)
+  })
+})
+
+describe('updateQuoteSchema', () => {
+  it('accepts a status-only update', () => {
+    expect(updateQuoteSchema.safeParse({ status: 'accepted' }).success).toBe(true)
+  })
+})
+
+describe('resolveQuoteStatus', () => {
+  it('expires draft and sent quotes past their validity date', () => {
+    expect(resolveQuoteStatus('sent', '2025-03-31', '2025-04-01')).toBe('expired')
+    expect(resolveQuoteStatus('draft', '2025-03-31', '2025-04-01')).toBe('expired')
+  })
+
+  it('keeps quotes valid on their last day', () => {
+    expect(resolveQuoteStatus('sent', '2025-03-31', '2025-03-31')).toBe('sent')
+  })
+
+  it('keeps answered quotes as they are', () => {
+    expect(resolveQuoteStatus('accepted', '2025-03-31', '2025-06-01')).toBe('accepted')
+    expect(resolveQuoteStatus('refused', '2025-03-31', '2025-06-01')).toBe('refused')
+  })
+})
+
+describe('summarizePipeline', () => {
+  const quote = { validUntil: '2025-03-31', amountHt: '1000.00', amountTtc: '1200.00', invoiceId: null }
+
+  it('sums open quotes by status', () => {
+    const pipeline = summarizePipeline(
+      [
+        { ...quote, status: 'draft' },
+        { ...quote, status: 'sent', amountHt: '500.00', amountTtc: '600.00' },
+        { ...quote, status: 'accepted' },
+      ],
+      '2025-03-15'
+    )
+    expect(pipeline.count).toBe(3)
+    expect(pipeline.amountHt).toBe('2500.00')
+    expect(pipeline.amountTtc).toBe('3000.00')
+    expect(pipeline.byStatus.sent).toEqual({ count: 1, amountHt: '500.00' })
+  })
+
+  it('leaves out expired and invoiced quotes', () => {
+    const pipeline = summarizePipeline(
+      [
+        { ...quote, status: 'sent' },
+        { ...quote, status: 'accepted', invoiceId: 'invoice-id' },
+      ],
+      '2025-04-01'
+    )
+    expect(pipeline.count).toBe(0)
+    expect(pipeline.amountHt).toBe('0.00')
+  })
+})
+
+// ─── Route tests with fastify.inject() ─────────────────────────────
+
+vi.mock('../db', () => ({
+  db: {
+    query: {
+      quotes: {
+        findFirst: vi.fn().mockResolvedValue(null),
+      },
+    },
+    select: vi.fn(),
+    transaction: vi.fn(),
+  },
+}))
+
+describe('quote routes', () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>
+  let token: string
+
+  beforeAll(async () => {
+    app = await createTestApp(async (fastify) => {
+      await fastify.register(quoteRoutes)
+    })
+    token = createTestToken(app)
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  it('returns 401 without auth', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/quotes' })
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('returns 400 for an invalid quote', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/quotes',
+      payload: { client: 'Acme SAS', quoteDate: '2025-03-01', lines: [] },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('returns 404 for an unknown quote', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/quotes/nonexistent-id',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('refuses to convert a quote that is not accepted', async () => {
+    const { db } = await import('../db')
+    vi.mocked(db.query.quotes.findFirst).mockResolvedValueOnce({ id: 'quote-id', status: 'sent', invoiceId: null } as any)
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/quotes/quote-id/convert',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+  })
+
+  it('refuses to convert a quote twice', async () => {
+    const { db } = await import('../db')
+    vi.mocked(db.query.quotes.findFirst).mockResolvedValueOnce({ id: 'quote-id', status: 'accepted', invoiceId: 'invoice-id' } as any)
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/quotes/quote-id/convert',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+  })
+
+  it('refuses a conversion that a concurrent one got ahead of', async () => {
+    const { db } = await import('../db')
+    vi.mocked(db.query.quotes.findFirst).mockResolvedValueOnce({ id: 'quote-id', status: 'accepted', invoiceId: null } as any)
+    // Quote lines, then the locked row, already invoiced once the lock is granted
+    vi.mocked(db.select).mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockResolvedValue([]),
+          for: vi.fn().mockResolvedValue([]),
+        }),
+      }),
+    } as any)
+    const insert = vi.fn()
+    vi.mocked(db.transaction).mockImplementationOnce(((callback: (tx: unknown) => unknown) => callback({ ...db, insert })) as any)
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/quotes/quote-id/convert',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+    expect(response.json().message).toBe('Ce devis a déjà été facturé')
+    expect(insert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,518 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { eq, and, desc, gte, lte, lt, or, inArray, isNull, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { quotes, quoteLines } from '../db/schema'
+import { requireAuth } from '../auth/middleware'
+import { roundCents } from '../services/invoice-totals'
+import { buildInvoiceLines, createInvoice, resolveInvoiceClient } from '../services/invoice-creation'
+import type { InvoiceLineInput } from '../services/invoice-creation'
+import { invoiceLineSchema } from './invoices'
+
+type QuoteRecord = typeof quotes.$inferSelect
+type QuoteLineRecord = typeof quoteLines.$inferSelect
+
+export const QUOTE_STATUSES = ['draft', 'sent', 'accepted', 'refused', 'expired'] as const
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number]
+
+// Default validity of a quote, in days
+const DEFAULT_VALIDITY_DAYS = 30
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)')
+
+const quoteBodySchema = z.object({
+  clientId: z.string().uuid('Client invalide').optional(),
+  // Name-only payloads resolve to a directory entry, created on the fly if needed
+  client: z.string().trim().min(1, 'Le client est requis').optional(),
+  description: z.string().optional(),
+  quoteDate: dateSchema,
+  // Defaults to 30 days after the quote date
+  validUntil: dateSchema.optional(),
+  status: z.enum(QUOTE_STATUSES).optional(),
+  lines: z.array(invoiceLineSchema).min(1, 'Le devis doit contenir au moins une ligne'),
+  quoteNumber: z.string().trim().min(1).max(50).optional(),
+  note: z.string().optional(),
+})
+
+export const createQuoteSchema = quoteBodySchema
+  .refine((data) => data.clientId !== undefined || data.client !== undefined, {
+    message: 'Le client est requis',
+  })
+  .refine((data) => !data.validUntil || data.validUntil >= data.quoteDate, {
+    message: 'La date de validité doit être postérieure à la date du devis',
+  })
+
+export const updateQuoteSchema = quoteBodySchema.partial()
+
+export const convertQuoteSchema = z.object({
+  invoiceDate: dateSchema.optional(),
+})
+
+export const listQuotesQuerySchema = z.object({
+  year: z.coerce.number().min(2000).max(2100).optional(),
+  status: z.enum(QUOTE_STATUSES).optional(),
+  clientId: z.string().uuid('Client invalide').optional(),
+  limit: z.coerce.number().min(1).max(500).default(100),
+  offset: z.coerce.number().min(0).default(0),
+})
+
+class QuoteAlreadyInvoicedError extends Error {
+  constructor() {
+    super('Ce devis a déjà été facturé')
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0]
+}
+
+// Draft and sent quotes lapse on their own once the validity date has passed
+export function resolveQuoteStatus(status: string, validUntil: string, onDate: string): QuoteStatus {
+  if ((status === 'draft' || status === 'sent') && validUntil < onDate) {
+    return 'expired'
+  }
+  return status as QuoteStatus
+}
+
+// Open quotes are potential revenue: not yet refused, expired or invoiced
+export function summarizePipeline(
+  rows: Pick<QuoteRecord, 'status' | 'validUntil' | 'amountHt' | 'amountTtc' | 'invoiceId'>[],
+  onDate: string
+) {
+  const byStatus = { draft: { count: 0, amountHt: 0 }, sent: { count: 0, amountHt: 0 }, accepted: { count: 0, amountHt: 0 } }
+  let amountTtc = 0
+
+  for (const row of rows) {
+    const status = resolveQuoteStatus(row.status, row.validUntil, onDate)
+    if ((status !== 'draft' && status !== 'sent' && status !== 'accepted') || row.invoiceId) continue
+    byStatus[status].count += 1
+    byStatus[status].amountHt = roundCents(byStatus[status].amountHt + parseFloat(row.amountHt))
+    amountTtc = roundCents(amountTtc + parseFloat(row.amountTtc))
+  }
+
+  const groups = Object.values(byStatus)
+  return {
+    count: groups.reduce((sum, group) => sum + group.count, 0),
+    amountHt: roundCents(groups.reduce((sum, group) => sum + group.amountHt, 0)).toFixed(2),
+    amountTtc: amountTtc.toFixed(2),
+    byStatus: Object.fromEntries(
+      Object.entries(byStatus).map(([status, group]) => [status, { count: group.count, amountHt: group.amountHt.toFixed(2) }])
+    ),
+  }
+}
+
+function withStatus(quote: QuoteRecord, onDate: string) {
+  return { ...quote, status: resolveQuoteStatus(quote.status, quote.validUntil, onDate) }
+}
+
+function toLineInput(line: QuoteLineRecord): InvoiceLineInput {
+  return {
+    description: line.description,
+    quantity: parseFloat(line.quantity),
+    unit: line.unit ?? undefined,
+    unitPrice: parseFloat(line.unitPrice),
+    taxRate: parseFloat(line.taxRate),
+    discount: parseFloat(line.discount),
+  }
+}
+
+// SQL counterpart of resolveQuoteStatus, for list filters
+function statusCondition(status: QuoteStatus, onDate: string) {
+  switch (status) {
+    case 'expired':
+      return or(
+        eq(quotes.status, 'expired'),
+        and(inArray(quotes.status, ['draft', 'sent']), lt(quotes.validUntil, onDate))
+      )!
+    case 'draft':
+    case 'sent':
+      return and(eq(quotes.status, status), gte(quotes.validUntil, onDate))!
+    default:
+      return eq(quotes.status, status)
+  }
+}
+
+// Quotes have their own yearly sequence: DEVyyyymmxx
+async function getNextQuoteNumber(userId: string, date: string): Promise<string> {
+  const [year, month] = date.split('-')
+
+  const countResult = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(quotes)
+    .where(
+      and(
+        eq(quotes.userId, userId),
+        sql`${quotes.quoteNumber} LIKE ${`DEV${year}%`}`
+      )
+    )
+
+  const yearlyCount = Number(countResult[0].count) + 1
+  return `DEV${year}${month}${yearlyCount.toString().padStart(2, '0')}`
+}
+
+async function getQuoteLines(quoteId: string) {
+  return db
+    .select()
+    .from(quoteLines)
+    .where(eq(quoteLines.quoteId, quoteId))
+    .orderBy(quoteLines.position)
+}
+
+async function isQuoteNumberTaken(userId: string, quoteNumber: string, excludeId?: string) {
+  const existing = await db.query.quotes.findFirst({
+    where: and(eq(quotes.userId, userId), eq(quotes.quoteNumber, quoteNumber)),
+  })
+  return Boolean(existing && existing.id !== excludeId)
+}
+
+export async function quoteRoutes(fastify: FastifyInstance) {
+  // List quotes
+  fastify.get(
+    '/api/quotes',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = listQuotesQuerySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { year, status, clientId, limit, offset } = parseResult.data
+      const userId = request.authUser.userId
+      const onDate = today()
+
+      const conditions = [eq(quotes.userId, userId)]
+
+      if (year) {
+        conditions.push(gte(quotes.quoteDate, `${year}-01-01`))
+        conditions.push(lte(quotes.quoteDate, `${year}-12-31`))
+      }
+
+      if (status) {
+        conditions.push(statusCondition(status, onDate))
+      }
+
+      if (clientId) {
+        conditions.push(eq(quotes.clientId, clientId))
+      }
+
+      const results = await db
+        .select()
+        .from(quotes)
+        .where(and(...conditions))
+        .orderBy(desc(quotes.quoteDate), desc(quotes.createdAt))
+        .limit(limit)
+        .offset(offset)
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(quotes)
+        .where(and(...conditions))
+
+      return {
+        data: results.map((quote) => withStatus(quote, onDate)),
+        total: Number(countResult[0].count),
+        limit,
+        offset,
+      }
+    }
+  )
+
+  // Open quotes, as potential revenue
+  fastify.get(
+    '/api/quotes/pipeline',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest) => {
+      const userId = request.authUser.userId
+
+      const rows = await db
+        .select({
+          status: quotes.status,
+          validUntil: quotes.validUntil,
+          amountHt: quotes.amountHt,
+          amountTtc: quotes.amountTtc,
+          invoiceId: quotes.invoiceId,
+        })
+        .from(quotes)
+        .where(
+          and(
+            eq(quotes.userId, userId),
+            inArray(quotes.status, ['draft', 'sent', 'accepted']),
+            isNull(quotes.invoiceId)
+          )
+        )
+
+      return summarizePipeline(rows, today())
+    }
+  )
+
+  // Get next quote number
+  fastify.get(
+    '/api/quotes/next-number',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest) => {
+      return {
+        quoteNumber: await getNextQuoteNumber(request.authUser.userId, today()),
+      }
+    }
+  )
+
+  // Get single quote
+  fastify.get(
+    '/api/quotes/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const quote = await db.query.quotes.findFirst({
+        where: and(eq(quotes.id, id), eq(quotes.userId, userId)),
+      })
+
+      if (!quote) {
+        return reply.status(404).send({ message: 'Devis non trouvé' })
+      }
+
+      const lines = await getQuoteLines(quote.id)
+
+      return { ...withStatus(quote, today()), lines }
+    }
+  )
+
+  // Create quote
+  fastify.post(
+    '/api/quotes',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = createQuoteSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const data = parseResult.data
+      const userId = request.authUser.userId
+
+      const client = await resolveInvoiceClient(userId, data.clientId, data.client)
+      if (!client) {
+        return reply.status(404).send({ message: 'Client non trouvé' })
+      }
+
+      const quoteNumber = data.quoteNumber ?? await getNextQuoteNumber(userId, data.quoteDate)
+      if (await isQuoteNumberTaken(userId, quoteNumber)) {
+        return reply.status(409).send({ message: 'Ce numéro de devis est déjà utilisé' })
+      }
+
+      const { rows, totals } = buildInvoiceLines(data.lines)
+
+      const result = await db.transaction(async (tx) => {
+        const [quote] = await tx
+          .insert(quotes)
+          .values({
+            userId,
+            clientId: client.id,
+            client: client.name,
+            description: data.description,
+            quoteNumber,
+            quoteDate: data.quoteDate,
+            validUntil: data.validUntil ?? addDays(data.quoteDate, DEFAULT_VALIDITY_DAYS),
+            status: data.status ?? 'draft',
+            amountHt: totals.amountHt,
+            taxRate: totals.taxRate,
+            amountTtc: totals.amountTtc,
+            note: data.note,
+          })
+          .returning()
+
+        const lines = await tx
+          .insert(quoteLines)
+          .values(rows.map((row) => ({ ...row, quoteId: quote.id })))
+          .returning()
+
+        return { ...withStatus(quote, today()), lines }
+      })
+
+      return reply.status(201).send(result)
+    }
+  )
+
+  // Update quote
+  fastify.put(
+    '/api/quotes/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = updateQuoteSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const existing = await db.query.quotes.findFirst({
+        where: and(eq(quotes.id, id), eq(quotes.userId, userId)),
+      })
+
+      if (!existing) {
+        return reply.status(404).send({ message: 'Devis non trouvé' })
+      }
+
+      if (existing.invoiceId) {
+        return reply.status(409).send({ message: 'Ce devis a déjà été facturé et ne peut plus être modifié' })
+      }
+
+      const data = parseResult.data
+      const quoteDate = data.quoteDate ?? existing.quoteDate
+      const validUntil = data.validUntil ?? existing.validUntil
+      if (validUntil < quoteDate) {
+        return reply.status(400).send({ message: 'La date de validité doit être postérieure à la date du devis' })
+      }
+
+      if (data.quoteNumber && await isQuoteNumberTaken(userId, data.quoteNumber, id)) {
+        return reply.status(409).send({ message: 'Ce numéro de devis est déjà utilisé' })
+      }
+
+      let clientFields: { clientId: string; client: string } | undefined
+      if (data.clientId !== undefined || data.client !== undefined) {
+        const client = await resolveInvoiceClient(userId, data.clientId, data.client)
+        if (!client) {
+          return reply.status(404).send({ message: 'Client non trouvé' })
+        }
+        clientFields = { clientId: client.id, client: client.name }
+      }
+
+      const built = data.lines ? buildInvoiceLines(data.lines) : undefined
+
+      const updated = await db.transaction(async (tx) => {
+        const [quote] = await tx
+          .update(quotes)
+          .set({
+            ...clientFields,
+            description: data.description,
+            quoteNumber: data.quoteNumber,
+            quoteDate: data.quoteDate,
+            validUntil: data.validUntil,
+            status: data.status,
+            note: data.note,
+            ...(built && {
+              amountHt: built.totals.amountHt,
+              taxRate: built.totals.taxRate,
+              amountTtc: built.totals.amountTtc,
+            }),
+          })
+          .where(and(eq(quotes.id, id), eq(quotes.userId, userId)))
+          .returning()
+
+        if (built) {
+          await tx.delete(quoteLines).where(eq(quoteLines.quoteId, id))
+          await tx.insert(quoteLines).values(built.rows.map((row) => ({ ...row, quoteId: id })))
+        }
+
+        return quote
+      })
+
+      return withStatus(updated, today())
+    }
+  )
+
+  // Convert an accepted quote into an invoice numbered from the invoice sequence
+  fastify.post(
+    '/api/quotes/:id/convert',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = convertQuoteSchema.safeParse(request.body ?? {})
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const quote = await db.query.quotes.findFirst({
+        where: and(eq(quotes.id, id), eq(quotes.userId, userId)),
+      })
+
+      if (!quote) {
+        return reply.status(404).send({ message: 'Devis non trouvé' })
+      }
+
+      if (quote.invoiceId) {
+        return reply.status(409).send({ message: new QuoteAlreadyInvoicedError().message })
+      }
+
+      if (quote.status !== 'accepted') {
+        return reply.status(409).send({ message: 'Seul un devis accepté peut être converti en facture' })
+      }
+
+      const lines = await getQuoteLines(quote.id)
+      const notInvoiced = and(eq(quotes.id, quote.id), isNull(quotes.invoiceId))
+
+      try {
+        const result = await db.transaction(async (tx) => {
+          // A concurrent conversion waits on the lock, then finds the quote invoiced
+          const [locked] = await tx.select({ id: quotes.id }).from(quotes).where(notInvoiced).for('update')
+          if (!locked) throw new QuoteAlreadyInvoicedError()
+
+          const invoice = await createInvoice(tx, userId, { id: quote.clientId, name: quote.client }, {
+            description: quote.description ?? undefined,
+            invoiceDate: parseResult.data.invoiceDate ?? today(),
+            lines: lines.map(toLineInput),
+            note: quote.note ?? undefined,
+          })
+
+          const [converted] = await tx
+            .update(quotes)
+            .set({ invoiceId: invoice.id })
+            .where(notInvoiced)
+            .returning()
+          if (!converted) throw new QuoteAlreadyInvoicedError()
+
+          return { quote: converted, invoice }
+        })
+
+        return reply.status(201).send(result)
+      } catch (error) {
+        // Rolled back: the invoice and its number are not kept
+        if (error instanceof QuoteAlreadyInvoicedError) {
+          return reply.status(409).send({ message: error.message })
+        }
+        throw error
+      }
+    }
+  )
+
+  // Delete quote
+  fastify.delete(
+    '/api/quotes/:id',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const existing = await db.query.quotes.findFirst({
+        where: and(eq(quotes.id, id), eq(quotes.userId, userId)),
+      })
+
+      if (!existing) {
+        return reply.status(404).send({ message: 'Devis non trouvé' })
+      }
+
+      await db
+        .delete(quotes)
+        .where(and(eq(quotes.id, id), eq(quotes.userId, userId)))
+
+      return reply.status(204).send()
+    }
+  )
+}
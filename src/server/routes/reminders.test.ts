@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createTestApp, createTestToken } from '../test-utils'
+import { setMailTransport } from '../services/mail-transport'
+import {
+  reminderTemplateSchema,
+  sendReminderSchema,
+  validateEscalationDelays,
+  reminderRoutes,
+} from './reminders'
+
+// ─── Pure unit tests: Zod schemas ───────────────────────────────────
+
+describe('reminderTemplateSchema', () => {
+  it('accepts a template', () => {
+    expect(reminderTemplateSchema.safeParse({ delayDays: 10, subject: 'Relance {invoiceNumber}', body: 'Bonjour' }).success).toBe(true)
+  })
+
+  it('rejects an empty subject or a negative delay', () => {
+    expect(reminderTemplateSchema.safeParse({ delayDays: 10, subject: ' ', body: 'Bonjour' }).success).toBe(false)
+    expect(reminderTemplateSchema.safeParse({ delayDays: -1, subject: 'Relance', body: 'Bonjour' }).success).toBe(false)
+  })
+})
+
+describe('sendReminderSchema', () => {
+  it('accepts an empty body to send the suggested reminder', () => {
+    expect(sendReminderSchema.safeParse({}).success).toBe(true)
+  })
+
+  it('rejects an invalid recipient or level', () => {
+    expect(sendReminderSchema.safeParse({ recipient: 'acme' }).success).toBe(false)
+    expect(sendReminderSchema.safeParse({ level: 'urgent' }).success).toBe(false)
+  })
+})
+
+describe('validateEscalationDelays', () => {
+  it('requires non-decreasing delays', () => {
+    expect(validateEscalationDelays({ friendly: 1, firm: 15, formal_notice: 30 })).toBeNull()
+    expect(validateEscalationDelays({ friendly: 7, firm: 7, formal_notice: 30 })).toBeNull()
+    expect(validateEscalationDelays({ friendly: 20, firm: 15, formal_notice: 30 })).not.toBeNull()
+  })
+})
+
+// ─── Route tests with fastify.inject() ─────────────────────────────
+
+vi.mock('../db', () => {
+  const where = vi.fn().mockImplementation(() => Object.assign(Promise.resolve([]), { orderBy: vi.fn().mockResolvedValue([]) }))
+  return {
+    db: {
+      query: {
+        invoices: {
+          findFirst: vi.fn().mockResolvedValue(null),
+        },
+        issuerProfiles: {
+          findFirst: vi.fn().mockResolvedValue(null),
+        },
+      },
+      select: vi.fn().mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where,
+          leftJoin: vi.fn().mockReturnValue({ where }),
+        }),
+      }),
+      insert: vi.fn().mockReturnValue({
+        values: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([{ id: 'reminder-id', level: 'friendly' }]),
+          onConflictDoUpdate: vi.fn().mockReturnValue({
+            returning: vi.fn().mockResolvedValue([{ id: 'template-id', level: 'firm' }]),
+          }),
+        }),
+      }),
+      delete: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue(undefined),
+      }),
+    },
+  }
+})
+
+// Invoice row as loaded by the reminder context query
+async function mockInvoiceRow(overrides: Record<string, unknown> = {}) {
+  const { db } = await import('../db')
+  vi.mocked(db.select).mockReturnValueOnce({
+    from: vi.fn().mockReturnValue({
+      leftJoin: vi.fn().mockReturnValue({
+        where: vi.fn().mockResolvedValue([
+          {
+            invoiceId: 'invoice-id',
+            type: 'invoice',
+            invoiceNumber: '20250101',
+            client: 'Acme Corp',
+            invoiceDate: '2025-01-01',
+            dueDate: '2025-01-31',
+            paymentDate: null,
+            currency: 'EUR',
+            amountTtc: '1200.00',
+            amountPaid: '0',
+            clientEmail: 'compta@acme.fr',
+            ...overrides,
+          },
+        ]),
+      }),
+    }),
+  } as any)
+}
+
+describe('reminder routes', () => {
+  let app: Awaited<ReturnType<typeof createTestApp>>
+  let token: string
+
+  beforeAll(async () => {
+    app = await createTestApp(async (fastify) => {
+      await fastify.register(reminderRoutes)
+    })
+    token = createTestToken(app)
+  })
+
+  afterAll(async () => {
+    setMailTransport(null)
+    await app.close()
+  })
+
+  it('returns 401 without auth', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/reminders/templates' })
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('lists the default template of every level', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/reminders/templates',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+    expect(response.json().templates.map((template: { level: string }) => template.level)).toEqual(['friendly', 'firm', 'formal_notice'])
+  })
+
+  it('returns 400 for an unknown level', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/reminders/templates/urgent',
+      payload: { delayDays: 5, subject: 'Relance', body: 'Bonjour' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('returns 400 for an unknown placeholder', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/reminders/templates/firm',
+      payload: { delayDays: 15, subject: 'Relance {numero}', body: 'Bonjour' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+    expect(response.json().message).toBe('Variable inconnue : {numero}')
+  })
+
+  it('returns 400 when a level would come before the previous one', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/reminders/templates/firm',
+      payload: { delayDays: 0, subject: 'Relance', body: 'Bonjour' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('saves a template', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/reminders/templates/firm',
+      payload: { delayDays: 20, subject: 'Relance {invoiceNumber}', body: 'Bonjour {client}' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(200)
+  })
+
+  it('returns 404 for the reminders of an unknown invoice', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/invoices/nonexistent-id/reminders',
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('returns 404 when sending a reminder for an unknown invoice', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/invoices/nonexistent-id/reminders',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('returns 409 for an invoice that is not yet due', async () => {
+    await mockInvoiceRow({ dueDate: '2999-01-31' })
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/invoices/invoice-id/reminders',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+  })
+
+  it('returns 409 for a paid invoice', async () => {
+    await mockInvoiceRow({ paymentDate: '2025-02-15', amountPaid: '1200.00' })
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/invoices/invoice-id/reminders/preview',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(409)
+  })
+
+  it('returns 400 when the client has no email', async () => {
+    await mockInvoiceRow({ clientEmail: null })
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/invoices/invoice-id/reminders',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(400)
+  })
+
+  it('sends the reminder through the configured transport and logs it', async () => {
+    const send = vi.fn().mockResolvedValue({ messageId: '<message@dupont.fr>' })
+    setMailTransport({ name: 'file', send })
+    await mockInvoiceRow()
+    const { db } = await import('../db')
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/invoices/invoice-id/reminders',
+      payload: { level: 'formal_notice' },
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(201)
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'compta@acme.fr',
+      subject: 'Mise en demeure de payer - facture 20250101',
+    }))
+    const values = vi.mocked(db.insert).mock.results.at(-1)!.value.values
+    expect(values).toHaveBeenLastCalledWith(expect.objectContaining({
+      invoiceId: 'invoice-id',
+      level: 'formal_notice',
+      transport: 'file',
+      messageId: '<message@dupont.fr>',
+    }))
+  })
+
+  it('returns 502 when the transport fails', async () => {
+    setMailTransport({ name: 'smtp', send: vi.fn().mockRejectedValue(new Error('Connexion refusée')) })
+    await mockInvoiceRow()
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/invoices/invoice-id/reminders',
+      payload: {},
+      cookies: { accessToken: token },
+    })
+    expect(response.statusCode).toBe(502)
+  })
+})
@@ -0,0 +1,278 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { eq, and } from 'drizzle-orm'
+import { db } from '../db'
+import { invoices, invoiceReminders, reminderTemplates } from '../db/schema'
+import { requireAuth } from '../auth/middleware'
+import { getMailSender, getMailTransport } from '../services/mail-transport'
+import { getDaysOverdue } from '../services/receivables'
+import {
+  REMINDER_LEVELS,
+  REMINDER_PLACEHOLDERS,
+  composeReminder,
+  getInvoiceReminders,
+  getReminderBlocker,
+  getReminderContext,
+  getReminderTemplates,
+  suggestReminderLevel,
+  validateTemplate,
+} from '../services/reminders'
+import type { ReminderLevel } from '../services/reminders'
+
+export const reminderTemplateSchema = z.object({
+  delayDays: z.number().int().min(0).max(365, 'Le délai ne peut pas dépasser 365 jours'),
+  subject: z.string().trim().min(1, 'L\'objet est requis').max(255, 'L\'objet est trop long'),
+  body: z.string().trim().min(1, 'Le message est requis'),
+})
+
+export const reminderPreviewSchema = z.object({
+  level: z.enum(REMINDER_LEVELS).optional(),
+})
+
+// Subject and body default to the rendered template; the recipient to the client email
+export const sendReminderSchema = z.object({
+  level: z.enum(REMINDER_LEVELS).optional(),
+  recipient: z.string().trim().email('Email invalide').optional(),
+  subject: z.string().trim().min(1, 'L\'objet est requis').max(255, 'L\'objet est trop long').optional(),
+  body: z.string().trim().min(1, 'Le message est requis').optional(),
+})
+
+const levelParamSchema = z.enum(REMINDER_LEVELS, { message: 'Niveau de relance invalide' })
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+// Levels escalate over time, so their delays must not decrease
+export function validateEscalationDelays(delays: Record<ReminderLevel, number>): string | null {
+  for (let i = 1; i < REMINDER_LEVELS.length; i++) {
+    if (delays[REMINDER_LEVELS[i]] < delays[REMINDER_LEVELS[i - 1]]) {
+      return 'Le délai d\'une relance ne peut pas précéder celui du niveau précédent'
+    }
+  }
+  return null
+}
+
+// Template, suggested level and rendered message for an overdue invoice, or the reason it cannot be reminded
+async function prepareReminder(userId: string, invoiceId: string, requestedLevel: ReminderLevel | undefined) {
+  const onDate = today()
+  const context = await getReminderContext(userId, invoiceId)
+  if (!context) {
+    return { status: 404 as const, message: 'Facture non trouvée' }
+  }
+
+  const blocker = getReminderBlocker(context, onDate)
+  if (blocker) {
+    return { status: 409 as const, message: blocker }
+  }
+
+  const [templates, history] = await Promise.all([getReminderTemplates(userId), getInvoiceReminders(invoiceId)])
+  const delays = Object.fromEntries(templates.map((template) => [template.level, template.delayDays])) as Record<ReminderLevel, number>
+  const daysOverdue = getDaysOverdue(context.dueDate ?? context.invoiceDate, onDate)
+  const suggestedLevel = suggestReminderLevel(daysOverdue, delays, (history[0]?.level as ReminderLevel | undefined) ?? null)
+  const level = requestedLevel ?? suggestedLevel
+  const template = templates.find((entry) => entry.level === level)!
+
+  return {
+    status: 200 as const,
+    context,
+    preview: {
+      level,
+      suggestedLevel,
+      daysOverdue,
+      recipient: context.clientEmail,
+      ...composeReminder(context, template, onDate),
+    },
+  }
+}
+
+export async function reminderRoutes(fastify: FastifyInstance) {
+  // Templates for every escalation level, defaults included
+  fastify.get(
+    '/api/reminders/templates',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest) => {
+      const userId = request.authUser.userId
+
+      return {
+        templates: await getReminderTemplates(userId),
+        placeholders: REMINDER_PLACEHOLDERS,
+      }
+    }
+  )
+
+  // Save the wording and delay of one level
+  fastify.put(
+    '/api/reminders/templates/:level',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = request.authUser.userId
+
+      const levelResult = levelParamSchema.safeParse((request.params as { level: string }).level)
+      if (!levelResult.success) {
+        return reply.status(400).send({ message: levelResult.error.issues[0].message })
+      }
+
+      const parseResult = reminderTemplateSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const level = levelResult.data
+      const data = parseResult.data
+      const placeholderError = validateTemplate(data.subject) ?? validateTemplate(data.body)
+      if (placeholderError) {
+        return reply.status(400).send({ message: placeholderError })
+      }
+
+      const templates = await getReminderTemplates(userId)
+      const delays = Object.fromEntries(
+        templates.map((template) => [template.level, template.level === level ? data.delayDays : template.delayDays])
+      ) as Record<ReminderLevel, number>
+      const delayError = validateEscalationDelays(delays)
+      if (delayError) {
+        return reply.status(400).send({ message: delayError })
+      }
+
+      const [saved] = await db
+        .insert(reminderTemplates)
+        .values({ userId, level, ...data })
+        .onConflictDoUpdate({
+          target: [reminderTemplates.userId, reminderTemplates.level],
+          set: { ...data, updatedAt: new Date() },
+        })
+        .returning()
+
+      return saved
+    }
+  )
+
+  // Back to the built-in wording for a level
+  fastify.delete(
+    '/api/reminders/templates/:level',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = request.authUser.userId
+
+      const levelResult = levelParamSchema.safeParse((request.params as { level: string }).level)
+      if (!levelResult.success) {
+        return reply.status(400).send({ message: levelResult.error.issues[0].message })
+      }
+
+      await db
+        .delete(reminderTemplates)
+        .where(and(eq(reminderTemplates.userId, userId), eq(reminderTemplates.level, levelResult.data)))
+
+      return { success: true }
+    }
+  )
+
+  // Reminders already sent for an invoice, most recent first
+  fastify.get(
+    '/api/invoices/:id/reminders',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const invoice = await db.query.invoices.findFirst({
+        where: and(eq(invoices.id, id), eq(invoices.userId, userId)),
+      })
+
+      if (!invoice) {
+        return reply.status(404).send({ message: 'Facture non trouvée' })
+      }
+
+      return getInvoiceReminders(id)
+    }
+  )
+
+  // Render the reminder for a level (the suggested one by default) without sending it
+  fastify.post(
+    '/api/invoices/:id/reminders/preview',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = reminderPreviewSchema.safeParse(request.body ?? {})
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const result = await prepareReminder(userId, id, parseResult.data.level)
+      if (result.status !== 200) {
+        return reply.status(result.status).send({ message: result.message })
+      }
+
+      return result.preview
+    }
+  )
+
+  // Send a reminder through the configured mail transport and log it
+  fastify.post(
+    '/api/invoices/:id/reminders',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+      const userId = request.authUser.userId
+
+      const parseResult = sendReminderSchema.safeParse(request.body ?? {})
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const data = parseResult.data
+      const result = await prepareReminder(userId, id, data.level)
+      if (result.status !== 200) {
+        return reply.status(result.status).send({ message: result.message })
+      }
+
+      const { context, preview } = result
+      const recipient = data.recipient ?? preview.recipient
+      if (!recipient) {
+        return reply.status(400).send({ message: 'Aucune adresse email renseignée pour ce client' })
+      }
+
+      const message = {
+        from: getMailSender(context.issuerEmail, context.companyName ?? undefined),
+        to: recipient,
+        replyTo: context.issuerEmail ?? undefined,
+        subject: data.subject ?? preview.subject,
+        text: data.body ?? preview.body,
+      }
+
+      const transport = getMailTransport()
+      let messageId: string
+      try {
+        ({ messageId } = await transport.send(message))
+      } catch (error) {
+        fastify.log.error({ err: error, invoiceId: id }, 'Reminder delivery failed')
+        return reply.status(502).send({
+          message: `Échec de l'envoi de la relance : ${error instanceof Error ? error.message : 'erreur inconnue'}`,
+        })
+      }
+
+      const [reminder] = await db
+        .insert(invoiceReminders)
+        .values({
+          invoiceId: id,
+          level: preview.level,
+          recipient,
+          subject: message.subject,
+          body: message.text,
+          transport: transport.name,
+          messageId,
+        })
+        .returning()
+
+      return reply.status(201).send(reminder)
+    }
+  )
+}
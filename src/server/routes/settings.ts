@@ -1,10 +1,68 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
-import { eq } from 'drizzle-orm'
+import { eq, sql } from 'drizzle-orm'
 import { db } from '../db'
-import { settings, taxBrackets, yearlyRates } from '../db/schema'
+import { settings, taxBrackets, yearlyRates, issuerProfiles, tvaFilingRegimes, tvaCreditEntries, urssafPeriodicities, urssafPayments, incomeTaxOptions, householdProfiles, householdIncomes } from '../db/schema'
 import { and } from 'drizzle-orm'
 import { requireAuth } from '../auth/middleware'
+import { NUMBERING_RESETS, validateNumberPattern } from '../services/invoice-numbering'
+import type { NumberingReset } from '../services/invoice-numbering'
+import { TVA_FILING_REGIMES, getTvaFilingRegime } from '../services/tva-periods'
+import { MICRO_ACTIVITY_TYPES } from '../services/micro-ceiling'
+import { URSSAF_PERIODICITIES, getUrssafPeriodicity } from '../services/urssaf-periods'
+import { CHAMBER_TYPES } from '../services/urssaf-contributions'
+import {
+  businessShareOfTax,
+  calculateHouseholdTax,
+  getTaxBrackets,
+  getVersementLiberatoireEligibility,
+  incomeTaxMethod,
+} from '../services/income-tax'
+import {
+  HOUSEHOLD_INCOME_CATEGORIES,
+  MARITAL_STATUSES,
+  getHousehold,
+  householdIncomeLines,
+  householdOtherIncome,
+  householdParts,
+  isCouple,
+} from '../services/household'
+import type { Household } from '../services/household'
+import { componentTotal, getContributionOptions, urssafContributions } from '../services/urssaf-contributions'
+import { emptyActivityAmounts, getActivityRates, taxableByActivity } from '../services/activity-rates'
+import { revenueByActivitySchema } from './urssaf'
+
+export const tvaFilingRegimeSchema = z.object({
+  year: z.number().min(2000).max(2100),
+  regime: z.enum(TVA_FILING_REGIMES, { message: 'Régime de TVA invalide (monthly, quarterly ou annual)' }),
+})
+
+export const urssafPeriodicitySchema = z.object({
+  year: z.number().min(2000).max(2100),
+  periodicity: z.enum(URSSAF_PERIODICITIES, { message: 'Périodicité Urssaf invalide (monthly ou quarterly)' }),
+})
+
+export const incomeTaxOptionsSchema = z.object({
+  year: z.number().min(2000).max(2100),
+  versementLiberatoire: z.boolean(),
+  // Revenu fiscal de référence of year - 2, null to estimate it from the recorded revenue
+  referenceTaxIncome: z.number().min(0, 'Le revenu fiscal de référence ne peut pas être négatif').nullable().optional(),
+})
+
+export const householdSchema = z.object({
+  year: z.number().min(2000).max(2100),
+  maritalStatus: z.enum(MARITAL_STATUSES, { message: 'Situation de famille invalide (single, married, pacs, divorced ou widowed)' }),
+  children: z.number().int().min(0, 'Le nombre d\'enfants ne peut pas être négatif').max(20),
+  singleParent: z.boolean().default(false),
+  // Parts entered from the avis d'imposition, null to compute them from the household
+  parts: z.number().min(1, 'Le nombre de parts est d\'au moins 1').max(20).multipleOf(0.25, 'Le nombre de parts est un multiple de 0,25').nullable().default(null),
+  spouseSalary: z.number().min(0, 'Le salaire du conjoint ne peut pas être négatif').default(0),
+  incomes: z.array(z.object({
+    category: z.enum(HOUSEHOLD_INCOME_CATEGORIES, { message: 'Catégorie de revenu invalide' }),
+    label: z.string().trim().min(1, 'Le libellé du revenu est requis').max(255),
+    amount: z.number().min(0, 'Le montant du revenu ne peut pas être négatif'),
+  })).max(50).default([]),
+})
 
 const updateSettingsSchema = z.object({
   urssafRate: z.number().min(0).max(100).optional(),
@@ -12,8 +70,35 @@ const updateSettingsSchema = z.object({
   revenueDeductionRate: z.number().min(0).max(100).optional(),
   monthlySalary: z.number().min(0).optional(),
   additionalTaxableIncome: z.number().min(0).optional(),
+  invoiceNumberPattern: z.string().trim().min(1, 'Le format de numérotation est requis').max(30, 'Le format de numérotation est trop long').optional(),
+  invoiceNumberReset: z.enum(NUMBERING_RESETS).optional(),
+  businessStartDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').nullable().optional(),
+  activityType: z.enum(MICRO_ACTIVITY_TYPES, { message: 'Type d\'activité invalide (sales, bic_services ou bnc)' }).optional(),
+  acre: z.boolean().optional(),
+  chamber: z.enum(CHAMBER_TYPES, { message: 'Chambre consulaire invalide (none, cci ou cma)' }).optional(),
 })
 
+export const issuerProfileSchema = z.object({
+  companyName: z.string().min(1, 'La raison sociale est requise'),
+  legalForm: z.string().min(1).optional(),
+  address: z.string().min(1, 'L\'adresse est requise'),
+  postalCode: z.string().min(1, 'Le code postal est requis'),
+  city: z.string().min(1, 'La ville est requise'),
+  country: z.string().min(1).optional(),
+  siret: z.string().regex(/^\d{14}$/, 'Le SIRET doit contenir 14 chiffres'),
+  tvaNumber: z.string().regex(/^FR[0-9A-Z]{2}\d{9}$/, 'Numéro de TVA intracommunautaire invalide').nullable().optional(),
+  email: z.string().email('Email invalide').nullable().optional(),
+  phone: z.string().nullable().optional(),
+  iban: z.string().regex(/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/, 'IBAN invalide').nullable().optional(),
+  bic: z.string().regex(/^[A-Z0-9]{8}([A-Z0-9]{3})?$/, 'BIC invalide').nullable().optional(),
+  paymentTermsDays: z.number().int().min(0).max(60, 'Le délai de paiement ne peut pas dépasser 60 jours').optional(),
+  paymentTermsEndOfMonth: z.boolean().optional(),
+  latePenaltyRate: z.number().min(0).max(100).optional(),
+}).refine(
+  (data) => !data.paymentTermsEndOfMonth || (data.paymentTermsDays ?? 0) <= 45,
+  { message: 'Un délai fin de mois ne peut pas dépasser 45 jours', path: ['paymentTermsDays'] }
+)
+
 // French tax brackets for 2025 (revenus 2024)
 // Source: https://www.service-public.gouv.fr/particuliers/vosdroits/F1419
 const DEFAULT_TAX_BRACKETS_2025 = [
@@ -24,6 +109,27 @@ const DEFAULT_TAX_BRACKETS_2025 = [
   { minIncome: 180294, maxIncome: null, rate: 45 },
 ]
 
+// The other income is listed without the salary of the spouse, edited on its own
+function formatHousehold(household: Household) {
+  return {
+    year: household.year,
+    saved: household.saved,
+    maritalStatus: household.profile.maritalStatus,
+    children: household.profile.children,
+    singleParent: household.profile.singleParent,
+    parts: household.profile.parts,
+    computedParts: householdParts({ ...household.profile, parts: null }),
+    spouseSalary: household.profile.spouseSalary.toFixed(2),
+    incomes: householdIncomeLines({ ...household, profile: { ...household.profile, spouseSalary: 0 } }).map((line) => ({
+      category: line.category,
+      label: line.label,
+      amount: line.amount.toFixed(2),
+      deduction: line.deduction.toFixed(2),
+      net: line.net.toFixed(2),
+    })),
+  }
+}
+
 export async function settingsRoutes(fastify: FastifyInstance) {
   // Get user settings
   fastify.get(
@@ -96,6 +202,28 @@ export async function settingsRoutes(fastify: FastifyInstance) {
       if (data.additionalTaxableIncome !== undefined) {
         updateData.additionalTaxableIncome = data.additionalTaxableIncome.toFixed(2)
       }
+      if (data.invoiceNumberPattern !== undefined || data.invoiceNumberReset !== undefined) {
+        const pattern = data.invoiceNumberPattern ?? userSettings.invoiceNumberPattern
+        const reset = data.invoiceNumberReset ?? (userSettings.invoiceNumberReset as NumberingReset)
+        const patternError = validateNumberPattern(pattern, reset)
+        if (patternError) {
+          return reply.status(400).send({ message: patternError })
+        }
+        updateData.invoiceNumberPattern = pattern
+        updateData.invoiceNumberReset = reset
+      }
+      if (data.businessStartDate !== undefined) {
+        updateData.businessStartDate = data.businessStartDate
+      }
+      if (data.activityType !== undefined) {
+        updateData.activityType = data.activityType
+      }
+      if (data.acre !== undefined) {
+        updateData.acre = data.acre
+      }
+      if (data.chamber !== undefined) {
+        updateData.chamber = data.chamber
+      }
 
       const [updated] = await db
         .update(settings)
@@ -107,6 +235,76 @@ export async function settingsRoutes(fastify: FastifyInstance) {
     }
   )
 
+  // Get issuer profile (null until configured)
+  fastify.get(
+    '/api/settings/issuer',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest) => {
+      const userId = request.authUser.userId
+
+      const profile = await db.query.issuerProfiles.findFirst({
+        where: eq(issuerProfiles.userId, userId),
+      })
+
+      return profile ?? null
+    }
+  )
+
+  // Create or update issuer profile
+  fastify.put(
+    '/api/settings/issuer',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = issuerProfileSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const userId = request.authUser.userId
+      const data = parseResult.data
+
+      const values = {
+        companyName: data.companyName,
+        legalForm: data.legalForm,
+        address: data.address,
+        postalCode: data.postalCode,
+        city: data.city,
+        country: data.country,
+        siret: data.siret,
+        tvaNumber: data.tvaNumber ?? null,
+        email: data.email ?? null,
+        phone: data.phone ?? null,
+        iban: data.iban ?? null,
+        bic: data.bic ?? null,
+        paymentTermsDays: data.paymentTermsDays,
+        paymentTermsEndOfMonth: data.paymentTermsEndOfMonth,
+        latePenaltyRate: data.latePenaltyRate?.toFixed(2),
+      }
+
+      const existing = await db.query.issuerProfiles.findFirst({
+        where: eq(issuerProfiles.userId, userId),
+      })
+
+      if (existing) {
+        const [updated] = await db
+          .update(issuerProfiles)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(issuerProfiles.userId, userId))
+          .returning()
+        return updated
+      }
+
+      const [created] = await db
+        .insert(issuerProfiles)
+        .values({ userId, ...values })
+        .returning()
+
+      return reply.status(201).send(created)
+    }
+  )
+
   // Get tax brackets for a year
   fastify.get(
     '/api/settings/tax-brackets',
@@ -393,108 +591,380 @@ export async function settingsRoutes(fastify: FastifyInstance) {
     }
   )
 
-  // Calculate estimated income tax
-  fastify.post(
-    '/api/settings/calculate-tax',
+  // Get URSSAF and abattement rates per activity, the yearly rates applying to the main activity
+  fastify.get(
+    '/api/settings/activity-rates',
     { preHandler: [requireAuth] },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const bodySchema = z.object({
-        annualRevenue: z.number().min(0),
-        year: z.number().min(2000).max(2100).default(new Date().getFullYear()),
+      const querySchema = z.object({
+        year: z.coerce.number().min(2000).max(2100).default(new Date().getFullYear()),
       })
 
-      const parseResult = bodySchema.safeParse(request.body)
+      const parseResult = querySchema.safeParse(request.query)
       if (!parseResult.success) {
         return reply.status(400).send({
           message: parseResult.error.issues[0].message,
         })
       }
 
-      const { annualRevenue, year } = parseResult.data
+      const { year } = parseResult.data
+      const { mainActivity, rates } = await getActivityRates(request.authUser.userId, year)
+      return { year, mainActivity, rates }
+    }
+  )
+
+  // Get the TVA filing regime of a year (monthly CA3 by default)
+  fastify.get(
+    '/api/settings/tva-regime',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const querySchema = z.object({
+        year: z.coerce.number().min(2000).max(2100).default(new Date().getFullYear()),
+      })
+
+      const parseResult = querySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { year } = parseResult.data
+
+      return {
+        year,
+        regime: await getTvaFilingRegime(db, request.authUser.userId, year),
+      }
+    }
+  )
+
+  // Set the TVA filing regime of a year
+  fastify.put(
+    '/api/settings/tva-regime',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = tvaFilingRegimeSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { year, regime } = parseResult.data
       const userId = request.authUser.userId
 
-      // Get user settings for deduction rate
-      const userSettings = await db.query.settings.findFirst({
-        where: eq(settings.userId, userId),
+      // Filed returns carry their credit under the periods of the former regime
+      const currentRegime = await getTvaFilingRegime(db, userId, year)
+      if (currentRegime !== regime) {
+        const [filed] = await db
+          .select({ id: tvaCreditEntries.id })
+          .from(tvaCreditEntries)
+          .where(and(eq(tvaCreditEntries.userId, userId), sql`${tvaCreditEntries.periodMonth} LIKE ${`${year}-%`}`))
+          .limit(1)
+
+        if (filed) {
+          return reply.status(409).send({
+            message: `Des déclarations de TVA ${year} sont enregistrées : annulez-les avant de changer de régime`,
+          })
+        }
+      }
+
+      const [saved] = await db
+        .insert(tvaFilingRegimes)
+        .values({ userId, year, regime })
+        .onConflictDoUpdate({
+          target: [tvaFilingRegimes.userId, tvaFilingRegimes.year],
+          set: { regime, updatedAt: new Date() },
+        })
+        .returning()
+
+      return { year: saved.year, regime: saved.regime }
+    }
+  )
+
+  // Get the URSSAF declaration periodicity of a year (quarterly by default)
+  fastify.get(
+    '/api/settings/urssaf-periodicity',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const querySchema = z.object({
+        year: z.coerce.number().min(2000).max(2100).default(new Date().getFullYear()),
       })
 
-      const deductionRate = userSettings
-        ? parseFloat(userSettings.revenueDeductionRate)
-        : 34
+      const parseResult = querySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
 
-      // Calculate taxable income
-      const taxableIncome = annualRevenue * (1 - deductionRate / 100)
+      const { year } = parseResult.data
 
-      // Get brackets (prefer custom, fallback to official)
-      let brackets = await db
-        .select()
-        .from(taxBrackets)
-        .where(eq(taxBrackets.userId, userId))
-        .orderBy(taxBrackets.minIncome)
+      return {
+        year,
+        periodicity: await getUrssafPeriodicity(db, request.authUser.userId, year),
+      }
+    }
+  )
 
-      brackets = brackets.filter((b) => b.year === year)
+  // Set the URSSAF declaration periodicity of a year
+  fastify.put(
+    '/api/settings/urssaf-periodicity',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = urssafPeriodicitySchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
 
-      if (brackets.length === 0) {
-        brackets = await db
-          .select()
-          .from(taxBrackets)
-          .where(eq(taxBrackets.year, year))
-          .orderBy(taxBrackets.minIncome)
+      const { year, periodicity } = parseResult.data
+      const userId = request.authUser.userId
 
-        brackets = brackets.filter((b) => b.userId === null)
+      // Recorded payments are keyed on the periods of the former periodicity
+      const currentPeriodicity = await getUrssafPeriodicity(db, userId, year)
+      if (currentPeriodicity !== periodicity) {
+        const [recorded] = await db
+          .select({ id: urssafPayments.id })
+          .from(urssafPayments)
+          .where(and(eq(urssafPayments.userId, userId), eq(urssafPayments.year, year)))
+          .limit(1)
+
+        if (recorded) {
+          return reply.status(409).send({
+            message: `Des cotisations Urssaf ${year} sont enregistrées : supprimez-les avant de changer de périodicité`,
+          })
+        }
       }
 
-      // Use default 2025 brackets if nothing found
-      if (brackets.length === 0) {
-        brackets = DEFAULT_TAX_BRACKETS_2025.map((b, i) => ({
-          id: `default-${i}`,
-          userId: null,
-          year: 2025,
-          minIncome: b.minIncome.toFixed(2),
-          maxIncome: b.maxIncome?.toFixed(2) ?? null,
-          rate: b.rate.toFixed(2),
-          isCustom: false,
-          createdAt: new Date(),
-        }))
-      }
-
-      // Calculate progressive tax
-      let totalTax = 0
-      const breakdown: { bracket: string; income: number; rate: number; tax: number }[] = []
-
-      for (const bracket of brackets) {
-        const minIncome = parseFloat(bracket.minIncome)
-        const maxIncome = bracket.maxIncome ? parseFloat(bracket.maxIncome) : Infinity
-        const rate = parseFloat(bracket.rate)
-
-        // Skip if income doesn't reach this bracket
-        if (taxableIncome <= minIncome) break
-
-        // Calculate income within this bracket
-        const incomeInBracket = Math.min(taxableIncome, maxIncome) - minIncome
-
-        if (incomeInBracket > 0) {
-          const taxForBracket = incomeInBracket * (rate / 100)
-          totalTax += taxForBracket
-          breakdown.push({
-            bracket: bracket.maxIncome
-              ? `${minIncome.toFixed(0)} - ${maxIncome.toFixed(0)}`
-              : `> ${minIncome.toFixed(0)}`,
-            income: Math.round(incomeInBracket),
-            rate,
-            tax: Math.round(taxForBracket),
+      const [saved] = await db
+        .insert(urssafPeriodicities)
+        .values({ userId, year, periodicity })
+        .onConflictDoUpdate({
+          target: [urssafPeriodicities.userId, urssafPeriodicities.year],
+          set: { periodicity, updatedAt: new Date() },
+        })
+        .returning()
+
+      return { year: saved.year, periodicity: saved.periodicity }
+    }
+  )
+
+  // Get the income tax options of a year (no versement libératoire by default)
+  fastify.get(
+    '/api/settings/income-tax-options',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const querySchema = z.object({
+        year: z.coerce.number().min(2000).max(2100).default(new Date().getFullYear()),
+      })
+
+      const parseResult = querySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { year } = parseResult.data
+      const userId = request.authUser.userId
+      const options = await db.query.incomeTaxOptions.findFirst({
+        where: and(eq(incomeTaxOptions.userId, userId), eq(incomeTaxOptions.year, year)),
+      })
+
+      return {
+        year,
+        versementLiberatoire: options?.versementLiberatoire ?? false,
+        referenceTaxIncome: options?.referenceTaxIncome ?? null,
+        eligibility: await getVersementLiberatoireEligibility(userId, year),
+      }
+    }
+  )
+
+  // Set the income tax options of a year
+  fastify.put(
+    '/api/settings/income-tax-options',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = incomeTaxOptionsSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { year, versementLiberatoire, referenceTaxIncome } = parseResult.data
+      const userId = request.authUser.userId
+      const values = {
+        versementLiberatoire,
+        ...(referenceTaxIncome !== undefined && {
+          referenceTaxIncome: referenceTaxIncome !== null ? referenceTaxIncome.toFixed(2) : null,
+        }),
+      }
+
+      const [saved] = await db
+        .insert(incomeTaxOptions)
+        .values({ userId, year, ...values })
+        .onConflictDoUpdate({
+          target: [incomeTaxOptions.userId, incomeTaxOptions.year],
+          set: { ...values, updatedAt: new Date() },
+        })
+        .returning()
+
+      // The option stays recorded when the RFR no longer allows it, the eligibility carrying the warning
+      return {
+        year: saved.year,
+        versementLiberatoire: saved.versementLiberatoire,
+        referenceTaxIncome: saved.referenceTaxIncome,
+        eligibility: await getVersementLiberatoireEligibility(userId, year),
+      }
+    }
+  )
+
+  // Get the household of a year (a single person with the additional taxable income by default)
+  fastify.get(
+    '/api/settings/household',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const querySchema = z.object({
+        year: z.coerce.number().min(2000).max(2100).default(new Date().getFullYear()),
+      })
+
+      const parseResult = querySchema.safeParse(request.query)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      return formatHousehold(await getHousehold(request.authUser.userId, parseResult.data.year))
+    }
+  )
+
+  // Set the household of a year, replacing its other income
+  fastify.put(
+    '/api/settings/household',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = householdSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { year, incomes, ...profile } = parseResult.data
+      const userId = request.authUser.userId
+      const values = {
+        maritalStatus: profile.maritalStatus,
+        children: profile.children,
+        singleParent: profile.singleParent,
+        parts: profile.parts !== null ? profile.parts.toFixed(2) : null,
+        spouseSalary: (isCouple(profile) ? profile.spouseSalary : 0).toFixed(2),
+      }
+
+      await db.transaction(async (tx) => {
+        await tx
+          .insert(householdProfiles)
+          .values({ userId, year, ...values })
+          .onConflictDoUpdate({
+            target: [householdProfiles.userId, householdProfiles.year],
+            set: { ...values, updatedAt: new Date() },
           })
+
+        await tx
+          .delete(householdIncomes)
+          .where(and(eq(householdIncomes.userId, userId), eq(householdIncomes.year, year)))
+
+        if (incomes.length > 0) {
+          await tx.insert(householdIncomes).values(incomes.map((income) => ({
+            userId,
+            year,
+            category: income.category,
+            label: income.label,
+            amount: income.amount.toFixed(2),
+          })))
         }
+      })
+
+      return formatHousehold(await getHousehold(userId, year))
+    }
+  )
+
+  // Calculate estimated income tax
+  fastify.post(
+    '/api/settings/calculate-tax',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      // annualRevenue counts for the main activity, revenueByActivity splits mixed activities
+      const bodySchema = z.object({
+        annualRevenue: z.number().min(0).default(0),
+        revenueByActivity: revenueByActivitySchema.optional(),
+        year: z.number().min(2000).max(2100).default(new Date().getFullYear()),
+      })
+
+      const parseResult = bodySchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const { year } = parseResult.data
+      const userId = request.authUser.userId
+
+      // Taxable income: the revenue of each activity after its abattement
+      const { mainActivity, rates } = await getActivityRates(userId, year)
+      const revenueByActivity = { ...emptyActivityAmounts(), ...parseResult.data.revenueByActivity }
+      revenueByActivity[mainActivity] += parseResult.data.annualRevenue
+      const annualRevenue = Object.values(revenueByActivity).reduce((sum, revenue) => sum + revenue, 0)
+      const { total: taxableIncome, lines: activities } = taxableByActivity(revenueByActivity, rates)
+      const deductionRate = annualRevenue > 0
+        ? (1 - taxableIncome / annualRevenue) * 100
+        : rates[mainActivity].deductionRate
+
+      // Tax of the household with this revenue, the versement libératoire applying when opted for and allowed
+      const household = await getHousehold(userId, year)
+      const otherIncome = householdOtherIncome(householdIncomeLines(household))
+      const contributionOptions = await getContributionOptions(userId, year)
+      const method = incomeTaxMethod(contributionOptions.versementLiberatoire, await getVersementLiberatoireEligibility(userId, year))
+      const taxInput = {
+        year,
+        profile: household.profile,
+        businessIncome: taxableIncome,
+        otherIncome,
+        versementLiberatoire: method === 'versement_liberatoire'
+          ? componentTotal(urssafContributions(revenueByActivity, contributionOptions, `${year}-12-31`), 'versement_liberatoire')
+          : null,
+        brackets: await getTaxBrackets(userId, year),
       }
+      const tax = calculateHouseholdTax(taxInput)
+      const breakdown = tax.breakdown.map((line) => ({
+        bracket: line.maxIncome
+          ? `${parseFloat(line.minIncome).toFixed(0)} - ${parseFloat(line.maxIncome).toFixed(0)}`
+          : `> ${parseFloat(line.minIncome).toFixed(0)}`,
+        income: Math.round(parseFloat(line.taxableAmount)),
+        rate: parseFloat(line.rate),
+        tax: Math.round(parseFloat(line.taxAmount)),
+      }))
 
       return {
         annualRevenue: annualRevenue.toFixed(2),
         deductionRate: deductionRate.toFixed(2),
         taxableIncome: taxableIncome.toFixed(2),
-        estimatedTax: totalTax.toFixed(2),
-        effectiveRate: taxableIncome > 0
-          ? ((totalTax / taxableIncome) * 100).toFixed(2)
+        activities,
+        otherIncome: otherIncome.toFixed(2),
+        parts: tax.parts,
+        ceilingAdjustment: tax.ceilingAdjustment.toFixed(2),
+        decote: tax.decote.toFixed(2),
+        cehr: tax.cehr.toFixed(2),
+        versementLiberatoire: tax.versementLiberatoire.toFixed(2),
+        estimatedTax: tax.totalTax.toFixed(2),
+        effectiveRate: tax.taxableIncome > 0
+          ? ((tax.totalTax / tax.taxableIncome) * 100).toFixed(2)
           : '0.00',
+        businessShare: businessShareOfTax(taxInput, tax).toFixed(2),
         breakdown,
       }
     }
@@ -2,8 +2,29 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { eq, and, desc, gte, lte, sql } from 'drizzle-orm'
 import { db } from '../db'
-import { taxPayments, invoices, expenses } from '../db/schema'
+import { taxPayments, expenses, bankTransactions, tvaCreditEntries } from '../db/schema'
 import { requireAuth } from '../auth/middleware'
+import { getCashReceived, getCollectedByRate, getReceiptsInPeriod } from '../services/invoice-payments'
+import { convertExpenseToEur, eurAmount } from '../services/currency'
+import { tvaRegimeCa3Line } from '../services/tva-regimes'
+import type { TvaRegime, TvaRegimeCa3Line } from '../services/tva-regimes'
+import { releaseBankTransactions } from '../services/bank-reconciliation'
+import { IMMOBILISATION_THRESHOLD, checkCreditRefund, computeCa3 } from '../services/ca3'
+import { LaterTvaFilingError, creditBalance, fileTvaCredit, getTvaCreditBalance, installmentsExcess, ledgerMovements } from '../services/tva-credits'
+import {
+  ca12InstallmentBase,
+  ca12Installments,
+  checkTvaPeriodRegime,
+  getTvaFilingRegime,
+  monthBefore,
+  monthsOfPeriod,
+  parseTvaPeriod,
+  tvaPaymentStatus,
+  tvaPeriodOfMonth,
+  tvaPeriodsOfYear,
+} from '../services/tva-periods'
+import type { TvaPeriod } from '../services/tva-periods'
+import { getFranchiseMonitoring } from '../services/tva-franchise'
 
 const createTaxPaymentSchema = z.object({
   amount: z.number().positive('Le montant doit être positif'),
@@ -16,6 +37,24 @@ const createTaxPaymentSchema = z.object({
 
 const updateTaxPaymentSchema = createTaxPaymentSchema.partial()
 
+// Month (YYYY-MM), quarter (YYYY-T1 to YYYY-T4) or year (YYYY), following the year regime
+export const declarationParamsSchema = z.object({
+  period: z.string().refine((key) => parseTvaPeriod(key) !== null, 'Période invalide (YYYY-MM, YYYY-T1 à YYYY-T4 ou YYYY)'),
+})
+
+// Line 26: refund asked on form 3519 (line 22 comes from the credit ledger)
+export const declarationQuerySchema = z.object({
+  refundRequested: z.coerce.number().min(0, 'Le remboursement demandé ne peut pas être négatif').default(0),
+})
+
+export const fileDeclarationSchema = z.object({
+  refundRequested: z.number().min(0, 'Le remboursement demandé ne peut pas être négatif').default(0),
+})
+
+export const refundReceivedSchema = z.object({
+  receivedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)'),
+})
+
 const listQuerySchema = z.object({
   year: z.coerce.number().min(2000).max(2100).optional(),
   status: z.enum(['pending', 'paid']).optional(),
@@ -23,6 +62,168 @@ const listQuerySchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 })
 
+// CA3 or CA12 of a period from its receipts and expenses; line 22 comes from the credit ledger
+async function computeDeclaration(userId: string, period: TvaPeriod, creditCarriedForward: number, refundRequested: number) {
+  const { startDate, endDate } = period
+
+  // A1 / E1 / E2 / F2: Get payments received in the period, HT prorated per payment
+  const invoicesPaid = await getReceiptsInPeriod(userId, startDate, endDate)
+
+  // Each receipt goes to the CA3 line of its invoice TVA regime and activity (none for franchise sales)
+  const receiptsHtOnLine = (line: TvaRegimeCa3Line) => invoicesPaid
+    .filter((receipt) => tvaRegimeCa3Line(receipt.tvaRegime as TvaRegime, receipt.activityType) === line)
+    .reduce((sum, receipt) => sum + parseFloat(receipt.amountHt), 0)
+
+  // Invoice lines can mix rates: each rate goes to its own CA3 line
+  const collectedByRate = await getCollectedByRate(userId, startDate, endDate)
+
+  // Expenses are converted to EUR row by row: thresholds and cases are in euros
+  const oneTimeExpenses = (await db
+    .select()
+    .from(expenses)
+    .where(
+      and(
+        eq(expenses.userId, userId),
+        eq(expenses.isRecurring, false),
+        gte(expenses.date, startDate),
+        lte(expenses.date, endDate)
+      )
+    )
+    .orderBy(expenses.date)).map(convertExpenseToEur)
+
+  // Get recurring expenses running during the period
+  const recurringExpensesList = (await db
+    .select()
+    .from(expenses)
+    .where(
+      and(
+        eq(expenses.userId, userId),
+        eq(expenses.isRecurring, true),
+        lte(expenses.startMonth, endDate),
+        sql`(${expenses.endMonth} IS NULL OR ${expenses.endMonth} >= ${startDate})`
+      )
+    )
+    .orderBy(expenses.description)).map(convertExpenseToEur)
+
+  // One occurrence per month the recurring expense falls in, dated on that month
+  const recurringExpensesThisPeriod: typeof recurringExpensesList = []
+  for (const month of monthsOfPeriod(period)) {
+    const monthStart = `${month}-01`
+    const currentMonth = Number(month.split('-')[1]) - 1 // JavaScript months are 0-indexed
+
+    for (const expense of recurringExpensesList) {
+      if (expense.startMonth! > monthStart || (expense.endMonth && expense.endMonth < monthStart)) continue
+      const expenseStartMonth = new Date(expense.startMonth!).getMonth()
+
+      let shouldInclude = false
+      if (expense.recurrencePeriod === 'monthly') {
+        shouldInclude = true
+      } else if (expense.recurrencePeriod === 'quarterly') {
+        shouldInclude = (currentMonth - expenseStartMonth + 12) % 3 === 0
+      } else if (expense.recurrencePeriod === 'yearly') {
+        shouldInclude = currentMonth === expenseStartMonth
+      }
+
+      if (shouldInclude) {
+        recurringExpensesThisPeriod.push({ ...expense, date: monthStart })
+      }
+    }
+  }
+  const periodExpenses = [...oneTimeExpenses, ...recurringExpensesThisPeriod]
+
+  // B2: intra-EU purchases, one-time and recurring, self-assessed at their own rate
+  const expensesIntraEu = periodExpenses.filter((exp) => exp.isIntraEu)
+
+  // French expenses with TVA, split between fixed assets (line 19) and the rest (line 20)
+  const expensesWithDeductibleTva = periodExpenses.filter(
+    (exp) => !exp.isIntraEu && parseFloat(exp.taxAmount || '0') > 0
+  )
+  const expensesOver500 = expensesWithDeductibleTva.filter(
+    (exp) => parseFloat(exp.amountHt) > IMMOBILISATION_THRESHOLD
+  )
+  const expensesWithTva = expensesWithDeductibleTva.filter(
+    (exp) => parseFloat(exp.amountHt) <= IMMOBILISATION_THRESHOLD
+  )
+
+  const cases = computeCa3({
+    receiptsHt: {
+      A1: receiptsHtOnLine('A1'),
+      E1: receiptsHtOnLine('E1'),
+      E2: receiptsHtOnLine('E2'),
+      F2: receiptsHtOnLine('F2'),
+    },
+    collectedByRate,
+    intraEuPurchases: expensesIntraEu.map((exp) => ({
+      amountHt: parseFloat(exp.amountHt),
+      reverseChargeRate: parseFloat(exp.reverseChargeRate),
+      taxRecoveryRate: parseFloat(exp.taxRecoveryRate),
+    })),
+    expenses: expensesWithDeductibleTva.map((exp) => ({
+      amountHt: parseFloat(exp.amountHt),
+      taxAmount: parseFloat(exp.taxAmount),
+      taxRecoveryRate: parseFloat(exp.taxRecoveryRate),
+    })),
+    creditCarriedForward,
+    refundRequested,
+  })
+
+  return {
+    period,
+    cases,
+    details: {
+      invoicesPaid,
+      expensesWithTva,
+      expensesIntraEu,
+      expensesOver500,
+    },
+    summary: {
+      tvaCollected: cases.case16,
+      tvaDeductible: cases.case23,
+      tvaNet: cases.case28 - cases.case25,
+      collectedByRate: collectedByRate.map((group) => ({
+        rate: group.rate,
+        baseHt: Math.round(group.baseHt),
+        tva: Math.round(group.taxAmount),
+      })),
+    },
+  }
+}
+
+// CA12 installments of a year, from the TVA computed for the previous year
+export async function getCa12Installments(userId: string, year: number) {
+  const [previousYear] = tvaPeriodsOfYear(year - 1, 'annual')
+  const { cases } = await computeDeclaration(userId, previousYear, 0, 0)
+  return ca12Installments(year, ca12InstallmentBase(cases))
+}
+
+// The ledger only holds the credit of filed returns: while the return before a period is not
+// filed, line 22 misses its credit. Gives that return and the line 22 it would carry once filed
+async function getUnfiledPreviousReturn(userId: string, period: TvaPeriod) {
+  const month = monthBefore(period.startMonth)
+  const previous = tvaPeriodOfMonth(month, await getTvaFilingRegime(db, userId, Number(month.split('-')[0])))
+
+  const [filedEntry] = await db
+    .select({ id: tvaCreditEntries.id })
+    .from(tvaCreditEntries)
+    .where(and(eq(tvaCreditEntries.userId, userId), eq(tvaCreditEntries.periodMonth, previous.endMonth)))
+    .limit(1)
+  if (filedEntry) return null
+
+  const creditCarriedForward = await getTvaCreditBalance(db, userId, previous.startMonth)
+  const { cases } = await computeDeclaration(userId, previous, creditCarriedForward, 0)
+  const installments = previous.form === 'CA12' ? await getCa12Installments(userId, previous.year) : []
+  const excess = installmentsExcess(cases.case28, installments.reduce((sum, installment) => sum + installment.amount, 0))
+
+  return { key: previous.key, label: previous.label, creditCarriedForward: cases.case27 + excess }
+}
+
+// Period of the declaration routes, refused when it does not follow the regime of its year
+async function resolveDeclarationPeriod(userId: string, key: string): Promise<{ period: TvaPeriod } | { message: string }> {
+  const period = parseTvaPeriod(key)!
+  const regimeIssue = checkTvaPeriodRegime(period, await getTvaFilingRegime(db, userId, period.year))
+  return regimeIssue ? { message: regimeIssue } : { period }
+}
+
 export async function tvaRoutes(fastify: FastifyInstance) {
   // List tax payments
   fastify.get(
@@ -182,9 +383,12 @@ export async function tvaRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ message: 'Paiement TVA non trouvé' })
       }
 
-      await db
-        .delete(taxPayments)
-        .where(and(eq(taxPayments.id, id), eq(taxPayments.userId, userId)))
+      await db.transaction(async (tx) => {
+        await releaseBankTransactions(tx, and(eq(bankTransactions.matchType, 'tva'), eq(bankTransactions.matchId, id)))
+        await tx
+          .delete(taxPayments)
+          .where(and(eq(taxPayments.id, id), eq(taxPayments.userId, userId)))
+      })
 
       return reply.status(204).send()
     }
@@ -210,30 +414,14 @@ export async function tvaRoutes(fastify: FastifyInstance) {
       const { startDate, endDate } = parseResult.data
       const userId = request.authUser.userId
 
-      // Get TVA collected from invoices (based on payment date)
-      const invoiceResult = await db
-        .select({
-          totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-          totalTtc: sql<string>`COALESCE(SUM(${invoices.amountTtc}::numeric), 0)`,
-        })
-        .from(invoices)
-        .where(
-          and(
-            eq(invoices.userId, userId),
-            eq(invoices.isCanceled, false),
-            gte(invoices.paymentDate, startDate),
-            lte(invoices.paymentDate, endDate)
-          )
-        )
-
-      const totalHt = parseFloat(invoiceResult[0].totalHt)
-      const totalTtc = parseFloat(invoiceResult[0].totalTtc)
-      const tvaCollected = totalTtc - totalHt
+      // Get TVA collected from invoice payments (cash basis)
+      const { tvaCollected } = await getCashReceived(userId, startDate, endDate)
+      const collectedByRate = await getCollectedByRate(userId, startDate, endDate)
 
       // Get TVA recoverable from non-recurring expenses
       const nonRecurringResult = await db
         .select({
-          recoverableTax: sql<string>`COALESCE(SUM(${expenses.taxAmount}::numeric * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
+          recoverableTax: sql<string>`COALESCE(SUM(${eurAmount(expenses.taxAmount, expenses.exchangeRate)} * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
         })
         .from(expenses)
         .where(
@@ -249,7 +437,7 @@ export async function tvaRoutes(fastify: FastifyInstance) {
       // We need to calculate how many months each recurring expense applies to within the period
       const recurringExpenses = await db
         .select({
-          taxAmount: expenses.taxAmount,
+          taxAmount: sql<string>`${eurAmount(expenses.taxAmount, expenses.exchangeRate)}`,
           taxRecoveryRate: expenses.taxRecoveryRate,
           startMonth: expenses.startMonth,
           endMonth: expenses.endMonth,
@@ -332,16 +520,23 @@ export async function tvaRoutes(fastify: FastifyInstance) {
         startDate,
         endDate,
         tvaCollected: tvaCollected.toFixed(2),
+        collectedByRate: collectedByRate.map((group) => ({
+          rate: group.rate.toFixed(2),
+          baseHt: group.baseHt.toFixed(2),
+          tva: group.taxAmount.toFixed(2),
+        })),
         tvaRecoverable: tvaRecoverable.toFixed(2),
         netTva: netTva.toFixed(2),
         totalPaid: parseFloat(paymentsResult[0].totalPaid).toFixed(2),
         totalPending: parseFloat(paymentsResult[0].totalPending).toFixed(2),
         balance: (netTva - parseFloat(paymentsResult[0].totalPaid)).toFixed(2),
+        // Franchise en base thresholds for the year the period ends in
+        franchise: await getFranchiseMonitoring(userId, parseInt(endDate.substring(0, 4))),
       }
     }
   )
 
-  // Get monthly TVA breakdown
+  // Get the monthly TVA breakdown and the returns and installments due under the year regime
   fastify.get(
     '/api/tva/monthly',
     { preHandler: [requireAuth] },
@@ -359,29 +554,27 @@ export async function tvaRoutes(fastify: FastifyInstance) {
 
       const { year } = parseResult.data
       const userId = request.authUser.userId
+      const regime = await getTvaFilingRegime(db, userId, year)
 
-      // Fetch all payments for the year at once to avoid N+1 queries
+      // Fetch all payments at once to avoid N+1 queries; the CA12 balance is paid the next May
       const yearPayments = await db
         .select()
         .from(taxPayments)
         .where(
           and(
             eq(taxPayments.userId, userId),
-            sql`${taxPayments.periodMonth} LIKE ${`${year}-%`}`
+            gte(taxPayments.periodMonth, `${year}-01`),
+            lte(taxPayments.periodMonth, `${year + 1}-12`)
           )
         )
 
-      // Group payments by month
-      const paymentsByMonth = new Map<number, { status: string; amount: string }[]>()
-      for (const payment of yearPayments) {
-        const paymentMonth = parseInt(payment.periodMonth.split('-')[1])
-        if (!paymentsByMonth.has(paymentMonth)) {
-          paymentsByMonth.set(paymentMonth, [])
-        }
-        paymentsByMonth.get(paymentMonth)!.push({
-          status: payment.status,
-          amount: payment.amount,
-        })
+      // Payments settle the return or installment whose months contain their period month
+      const paymentsIn = (months: string[]) => {
+        const periodPayments = yearPayments.filter((payment) => months.includes(payment.periodMonth))
+        const sumOf = (status: string) => periodPayments
+          .filter((payment) => payment.status === status)
+          .reduce((sum, payment) => sum + parseFloat(payment.amount), 0)
+        return { paidAmount: sumOf('paid'), pendingAmount: sumOf('pending') }
       }
 
       const monthlyData = []
@@ -391,30 +584,13 @@ export async function tvaRoutes(fastify: FastifyInstance) {
         const lastDay = new Date(year, month, 0).getDate()
         const endDate = `${year}-${month.toString().padStart(2, '0')}-${lastDay.toString().padStart(2, '0')}`
 
-        // TVA collected from invoices
-        const invoiceResult = await db
-          .select({
-            totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-            totalTtc: sql<string>`COALESCE(SUM(${invoices.amountTtc}::numeric), 0)`,
-          })
-          .from(invoices)
-          .where(
-            and(
-              eq(invoices.userId, userId),
-              eq(invoices.isCanceled, false),
-              gte(invoices.paymentDate, startDate),
-              lte(invoices.paymentDate, endDate)
-            )
-          )
-
-        const totalHt = parseFloat(invoiceResult[0].totalHt)
-        const totalTtc = parseFloat(invoiceResult[0].totalTtc)
-        const collected = totalTtc - totalHt
+        // TVA collected from invoice payments
+        const { tvaCollected: collected } = await getCashReceived(userId, startDate, endDate)
 
         // TVA recoverable from non-recurring expenses (based on expense date)
         const nonRecurringResult = await db
           .select({
-            recoverableTax: sql<string>`COALESCE(SUM(${expenses.taxAmount}::numeric * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
+            recoverableTax: sql<string>`COALESCE(SUM(${eurAmount(expenses.taxAmount, expenses.exchangeRate)} * ${expenses.taxRecoveryRate}::numeric / 100), 0)`,
           })
           .from(expenses)
           .where(
@@ -429,7 +605,7 @@ export async function tvaRoutes(fastify: FastifyInstance) {
         // TVA recoverable from recurring expenses (based on startMonth/endMonth range and recurrence period)
         const recurringExpensesList = await db
           .select({
-            taxAmount: expenses.taxAmount,
+            taxAmount: sql<string>`${eurAmount(expenses.taxAmount, expenses.exchangeRate)}`,
             taxRecoveryRate: expenses.taxRecoveryRate,
             startMonth: expenses.startMonth,
             recurrencePeriod: expenses.recurrencePeriod,
@@ -472,258 +648,287 @@ export async function tvaRoutes(fastify: FastifyInstance) {
         const recoverable = nonRecurringTax + recurringTax
         const netTva = collected - recoverable
 
-        // Calculate payment status for this month
-        const monthPayments = paymentsByMonth.get(month) || []
-        const paidAmount = monthPayments
-          .filter(p => p.status === 'paid')
-          .reduce((sum, p) => sum + parseFloat(p.amount), 0)
-        const pendingAmount = monthPayments
-          .filter(p => p.status === 'pending')
-          .reduce((sum, p) => sum + parseFloat(p.amount), 0)
-
-        // Calculate due date: 19th of the following month, or next weekday if weekend
-        const calculateDueDate = (y: number, m: number): string => {
-          // Due date is 19th of the following month
-          let dueDate = new Date(y, m, 19) // m is already 0-indexed month + 1 = following month
-          const dayOfWeek = dueDate.getDay()
-          // If Saturday (6), move to Monday (add 2 days)
-          // If Sunday (0), move to Monday (add 1 day)
-          if (dayOfWeek === 6) {
-            dueDate = new Date(dueDate.getTime() + 2 * 24 * 60 * 60 * 1000)
-          } else if (dayOfWeek === 0) {
-            dueDate = new Date(dueDate.getTime() + 1 * 24 * 60 * 60 * 1000)
-          }
-          return dueDate.toISOString().split('T')[0]
-        }
-
-        const dueDate = calculateDueDate(year, month)
-        const today = new Date().toISOString().split('T')[0]
-        const monthEnd = new Date(year, month, 0) // Last day of the month
-        const isMonthComplete = new Date() > monthEnd
-
-        // Determine payment status
-        // 'paid' - a payment has been made for this month
-        // 'pending' - payment created but not yet paid
-        // 'overdue' - month is complete, no payment, and due date has passed
-        // 'upcoming' - month is complete but due date not yet reached
-        // 'not_due' - month not yet complete
-        let paymentStatus: 'paid' | 'pending' | 'due' | 'overdue' | 'upcoming' | 'not_due'
-        if (paidAmount > 0) {
-          // If any payment was made, consider it paid
-          paymentStatus = 'paid'
-        } else if (pendingAmount > 0) {
-          paymentStatus = 'pending'
-        } else if (!isMonthComplete) {
-          paymentStatus = 'not_due'
-        } else if (netTva <= 0) {
-          // No TVA to pay for this month
-          paymentStatus = 'not_due'
-        } else if (today > dueDate) {
-          paymentStatus = 'overdue'
-        } else {
-          paymentStatus = 'upcoming'
-        }
-
         monthlyData.push({
           month,
           year,
           tvaCollected: collected.toFixed(2),
           tvaRecoverable: recoverable.toFixed(2),
           netTva: netTva.toFixed(2),
-          paidAmount: paidAmount.toFixed(2),
-          pendingAmount: pendingAmount.toFixed(2),
-          dueDate,
-          paymentStatus,
         })
       }
 
-      return { year, months: monthlyData }
+      // Credit of the filed returns, carried to the periods after them
+      const creditEntries = await db
+        .select()
+        .from(tvaCreditEntries)
+        .where(and(eq(tvaCreditEntries.userId, userId), lte(tvaCreditEntries.periodMonth, `${year}-12`)))
+
+      const today = new Date().toISOString().split('T')[0]
+      const schedule = []
+
+      // CA12 installments come first in the year, computed from the previous year's TVA
+      const installments = regime === 'annual' ? await getCa12Installments(userId, year) : []
+      for (const installment of installments) {
+        const payments = paymentsIn([installment.key])
+        schedule.push({
+          key: installment.key,
+          kind: 'installment' as const,
+          label: installment.label,
+          startMonth: installment.key,
+          endMonth: installment.key,
+          tvaCollected: null,
+          tvaRecoverable: null,
+          creditCarriedForward: null,
+          amountDue: installment.amount.toFixed(2),
+          dueDate: installment.dueDate,
+          paidAmount: payments.paidAmount.toFixed(2),
+          pendingAmount: payments.pendingAmount.toFixed(2),
+          paymentStatus: tvaPaymentStatus({
+            amountDue: installment.amount,
+            ...payments,
+            isComplete: today >= `${installment.key}-01`,
+            dueDate: installment.dueDate,
+            today,
+          }),
+        })
+      }
+
+      let previousReturn: { endMonth: string; amountDue: number } | null = null
+      for (const period of tvaPeriodsOfYear(year, regime)) {
+        const months = monthsOfPeriod(period)
+        const periodMonths = monthlyData.filter((m) => months.includes(`${year}-${m.month.toString().padStart(2, '0')}`))
+        const collected = periodMonths.reduce((sum, m) => sum + parseFloat(m.tvaCollected), 0)
+        const recoverable = periodMonths.reduce((sum, m) => sum + parseFloat(m.tvaRecoverable), 0)
+
+        // Line 22 takes the credit carried forward, as on the declaration, and the credit of the
+        // previous return of the year while it is not filed; the CA12 only settles what the
+        // installments left and its balance is recorded in the month it is due
+        const previous = previousReturn
+        const creditCarriedForward: number = previous && !creditEntries.some((entry) => entry.periodMonth === previous.endMonth)
+          ? Math.max(0, -previous.amountDue)
+          : creditBalance(creditEntries.filter((entry) => entry.periodMonth < period.startMonth))
+        const installmentsTotal = installments.reduce((sum, installment) => sum + installment.amount, 0)
+        const amountDue = collected - recoverable - creditCarriedForward - installmentsTotal
+        previousReturn = { endMonth: period.endMonth, amountDue }
+        const payments = paymentsIn(period.form === 'CA12' ? [period.dueDate.substring(0, 7)] : months)
+
+        schedule.push({
+          key: period.key,
+          kind: 'return' as const,
+          label: period.label,
+          startMonth: period.startMonth,
+          endMonth: period.endMonth,
+          tvaCollected: collected.toFixed(2),
+          tvaRecoverable: recoverable.toFixed(2),
+          creditCarriedForward: creditCarriedForward.toFixed(2),
+          amountDue: amountDue.toFixed(2),
+          dueDate: period.dueDate,
+          paidAmount: payments.paidAmount.toFixed(2),
+          pendingAmount: payments.pendingAmount.toFixed(2),
+          paymentStatus: tvaPaymentStatus({
+            amountDue,
+            ...payments,
+            isComplete: today > period.endDate,
+            dueDate: period.dueDate,
+            today,
+          }),
+        })
+      }
+
+      return { year, regime, months: monthlyData, schedule }
     }
   )
 
-  // Get TVA declaration data for a specific month
+  // Get the CA3 or CA12 data of a period
   fastify.get(
-    '/api/tva/declaration/:month',
+    '/api/tva/declaration/:period',
     { preHandler: [requireAuth] },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const paramsSchema = z.object({
-        month: z.string().regex(/^\d{4}-\d{2}$/, 'Format de mois invalide (YYYY-MM)'),
-      })
+      const paramsResult = declarationParamsSchema.safeParse(request.params)
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          message: paramsResult.error.issues[0].message,
+        })
+      }
 
-      const parseResult = paramsSchema.safeParse(request.params)
-      if (!parseResult.success) {
+      const queryResult = declarationQuerySchema.safeParse(request.query)
+      if (!queryResult.success) {
         return reply.status(400).send({
-          message: parseResult.error.issues[0].message,
+          message: queryResult.error.issues[0].message,
         })
       }
 
-      const { month } = parseResult.data
       const userId = request.authUser.userId
+      const resolved = await resolveDeclarationPeriod(userId, paramsResult.data.period)
+      if ('message' in resolved) {
+        return reply.status(400).send({ message: resolved.message })
+      }
+      const { period } = resolved
 
-      // Calculate date range for the month
-      const [year, monthNum] = month.split('-').map(Number)
-      const startDate = `${month}-01`
-      const lastDay = new Date(year, monthNum, 0).getDate()
-      const endDate = `${month}-${lastDay.toString().padStart(2, '0')}`
-
-      // A1: Get invoices paid this month (based on paymentDate)
-      const invoicesPaid = await db
+      // A filed period shows the refund it asked for; otherwise the one being prepared
+      const filedEntries = await db
         .select()
-        .from(invoices)
-        .where(
-          and(
-            eq(invoices.userId, userId),
-            eq(invoices.isCanceled, false),
-            gte(invoices.paymentDate, startDate),
-            lte(invoices.paymentDate, endDate)
-          )
-        )
-        .orderBy(invoices.paymentDate)
+        .from(tvaCreditEntries)
+        .where(and(eq(tvaCreditEntries.userId, userId), eq(tvaCreditEntries.periodMonth, period.endMonth)))
+      const filedRefund = filedEntries.find((entry) => entry.type === 'refund')
+      const refundRequested = filedEntries.length > 0
+        ? parseFloat(filedRefund?.amount ?? '0')
+        : queryResult.data.refundRequested
+
+      const creditCarriedForward = await getTvaCreditBalance(db, userId, period.startMonth)
+      const declaration = await computeDeclaration(userId, period, creditCarriedForward, refundRequested)
+
+      // A filed refund is not refused: documents changed since filing only warn about it
+      const filed = filedEntries.length > 0
+      const refundIssue = checkCreditRefund(period.endMonth, declaration.cases.case25, refundRequested)
+      if (refundIssue && !filed) {
+        return reply.status(400).send({ message: refundIssue })
+      }
 
-      // Calculate A1 without rounding for intermediate calculations
-      const A1Raw = invoicesPaid.reduce((sum, inv) => sum + parseFloat(inv.amountHt), 0)
+      // The CA12 deducts the installments paid during the year from the TVA due
+      const installments = period.form === 'CA12' ? await getCa12Installments(userId, period.year) : []
 
-      // B2: Get intra-EU expenses for this month (non-recurring only for now)
-      const expensesIntraEu = await db
-        .select()
-        .from(expenses)
-        .where(
-          and(
-            eq(expenses.userId, userId),
-            eq(expenses.isIntraEu, true),
-            eq(expenses.isRecurring, false),
-            gte(expenses.date, startDate),
-            lte(expenses.date, endDate)
-          )
-        )
-        .orderBy(expenses.date)
+      return {
+        ...declaration,
+        installments,
+        filed,
+        refundMismatch: filed ? refundIssue : null,
+        unfiledPrevious: filed ? null : await getUnfiledPreviousReturn(userId, period),
+      }
+    }
+  )
 
-      // Calculate B2 without rounding for intermediate calculations
-      const B2Raw = expensesIntraEu.reduce((sum, exp) => sum + parseFloat(exp.amountHt), 0)
+  // File the return of a period: carries its credit and refund request into the ledger
+  fastify.post(
+    '/api/tva/declaration/:period/file',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const paramsResult = declarationParamsSchema.safeParse(request.params)
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          message: paramsResult.error.issues[0].message,
+        })
+      }
 
-      // Case 08: Base HT 20% (using raw values)
-      const case08Raw = A1Raw + B2Raw
+      const bodyResult = fileDeclarationSchema.safeParse(request.body ?? {})
+      if (!bodyResult.success) {
+        return reply.status(400).send({
+          message: bodyResult.error.issues[0].message,
+        })
+      }
 
-      // Case 17: TVA on intra-EU (20% of B2) - using raw value
-      const case17Raw = B2Raw * 0.20
+      const { refundRequested } = bodyResult.data
+      const userId = request.authUser.userId
+      const resolved = await resolveDeclarationPeriod(userId, paramsResult.data.period)
+      if ('message' in resolved) {
+        return reply.status(400).send({ message: resolved.message })
+      }
+      const { period } = resolved
 
-      // Get non-intra-EU, non-recurring expenses with TVA for this month
-      const nonIntraEuExpenses = await db
-        .select()
-        .from(expenses)
-        .where(
-          and(
-            eq(expenses.userId, userId),
-            eq(expenses.isIntraEu, false),
-            eq(expenses.isRecurring, false),
-            gte(expenses.date, startDate),
-            lte(expenses.date, endDate),
-            sql`${expenses.taxAmount}::numeric > 0`
-          )
-        )
-        .orderBy(expenses.date)
+      const creditCarriedForward = await getTvaCreditBalance(db, userId, period.startMonth)
+      const { cases } = await computeDeclaration(userId, period, creditCarriedForward, refundRequested)
 
-      // Get recurring expenses that apply to this month
-      const recurringExpensesList = await db
-        .select()
-        .from(expenses)
-        .where(
-          and(
-            eq(expenses.userId, userId),
-            eq(expenses.isRecurring, true),
-            lte(expenses.startMonth, startDate),
-            sql`(${expenses.endMonth} IS NULL OR ${expenses.endMonth} >= ${startDate})`
-          )
-        )
-        .orderBy(expenses.description)
-
-      // Filter recurring expenses that apply to this specific month
-      const recurringExpensesThisMonth: typeof recurringExpensesList = []
-      for (const expense of recurringExpensesList) {
-        const expenseStartMonth = new Date(expense.startMonth!).getMonth()
-        const currentMonth = monthNum - 1 // JavaScript months are 0-indexed
-
-        let shouldInclude = false
-        if (expense.recurrencePeriod === 'monthly') {
-          shouldInclude = true
-        } else if (expense.recurrencePeriod === 'quarterly') {
-          shouldInclude = (currentMonth - expenseStartMonth + 12) % 3 === 0
-        } else if (expense.recurrencePeriod === 'yearly') {
-          shouldInclude = currentMonth === expenseStartMonth
+      const refundIssue = checkCreditRefund(period.endMonth, cases.case25, refundRequested)
+      if (refundIssue) {
+        return reply.status(400).send({ message: refundIssue })
+      }
+
+      // The installments a CA12 paid beyond its TVA are carried with its credit
+      const installments = period.form === 'CA12' ? await getCa12Installments(userId, period.year) : []
+      const excess = installmentsExcess(cases.case28, installments.reduce((sum, installment) => sum + installment.amount, 0))
+
+      try {
+        const entries = await db.transaction((tx) => fileTvaCredit(tx, userId, period.endMonth, ledgerMovements(cases, excess)))
+        return reply.status(201).send({ period: period.key, entries, balance: (cases.case27 + excess).toFixed(2) })
+      } catch (error) {
+        if (error instanceof LaterTvaFilingError) {
+          return reply.status(409).send({ message: error.message })
         }
+        throw error
+      }
+    }
+  )
+
+  // Undo the filing of a period, latest filed period only
+  fastify.delete(
+    '/api/tva/declaration/:period/file',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const paramsResult = declarationParamsSchema.safeParse(request.params)
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          message: paramsResult.error.issues[0].message,
+        })
+      }
+
+      const userId = request.authUser.userId
+      const resolved = await resolveDeclarationPeriod(userId, paramsResult.data.period)
+      if ('message' in resolved) {
+        return reply.status(400).send({ message: resolved.message })
+      }
 
-        if (shouldInclude) {
-          recurringExpensesThisMonth.push(expense)
+      try {
+        await db.transaction((tx) => fileTvaCredit(tx, userId, resolved.period.endMonth, []))
+      } catch (error) {
+        if (error instanceof LaterTvaFilingError) {
+          return reply.status(409).send({ message: error.message })
         }
+        throw error
       }
 
-      // Combine non-recurring and recurring non-intra-EU expenses with TVA
-      const allNonIntraEuExpenses = [
-        ...nonIntraEuExpenses,
-        ...recurringExpensesThisMonth.filter(
-          (exp) => !exp.isIntraEu && parseFloat(exp.taxAmount || '0') > 0
-        ),
-      ]
+      return reply.status(204).send()
+    }
+  )
 
-      // Case 19: TVA deductible on immobilisations (expenses > 500 EUR HT)
-      const expensesOver500 = allNonIntraEuExpenses.filter(
-        (exp) => parseFloat(exp.amountHt) > 500
-      )
-      const case19Raw = expensesOver500.reduce((sum, exp) => {
-        const taxAmount = parseFloat(exp.taxAmount)
-        const recoveryRate = parseFloat(exp.taxRecoveryRate) / 100
-        return sum + taxAmount * recoveryRate
-      }, 0)
-
-      // Case 20: Other deductible TVA (expenses <= 500 EUR HT) + case 17
-      const expensesWithTva = allNonIntraEuExpenses.filter(
-        (exp) => parseFloat(exp.amountHt) <= 500
-      )
-      const tvaDeductibleOtherRaw = expensesWithTva.reduce((sum, exp) => {
-        const taxAmount = parseFloat(exp.taxAmount)
-        const recoveryRate = parseFloat(exp.taxRecoveryRate) / 100
-        return sum + taxAmount * recoveryRate
-      }, 0)
-      const case20Raw = tvaDeductibleOtherRaw + case17Raw
-
-      // Summary calculations using raw values
-      const tvaCollectedRaw = case08Raw * 0.20
-      const tvaDeductibleRaw = case19Raw + case20Raw
-      const tvaNetRaw = tvaCollectedRaw - tvaDeductibleRaw
-
-      // Only round for the final case values (for display/declaration)
-      const A1 = Math.round(A1Raw)
-      const B2 = Math.round(B2Raw)
-      const case08 = Math.round(case08Raw)
-      const case17 = Math.round(case17Raw)
-      const case19 = Math.round(case19Raw)
-      const case20 = Math.round(case20Raw)
-      const tvaCollected = Math.round(tvaCollectedRaw)
-      const tvaDeductible = Math.round(tvaDeductibleRaw)
-      const tvaNet = Math.round(tvaNetRaw)
+  // TVA credit ledger with its running balance
+  fastify.get(
+    '/api/tva/credits',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest) => {
+      const entries = await db
+        .select()
+        .from(tvaCreditEntries)
+        .where(eq(tvaCreditEntries.userId, request.authUser.userId))
+        .orderBy(desc(tvaCreditEntries.periodMonth), tvaCreditEntries.type)
 
       return {
-        month,
-        cases: {
-          A1,
-          B2,
-          case08,
-          case17,
-          case19,
-          case20,
-        },
-        details: {
-          invoicesPaid,
-          expensesWithTva,
-          expensesIntraEu,
-          expensesOver500,
-        },
-        summary: {
-          tvaCollected,
-          tvaDeductible,
-          tvaNet,
-        },
+        balance: creditBalance(entries).toFixed(2),
+        entries,
+      }
+    }
+  )
+
+  // Record the payment of a refund asked on form 3519
+  fastify.patch(
+    '/api/tva/credits/:id/received',
+    { preHandler: [requireAuth] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string }
+
+      const parseResult = refundReceivedSchema.safeParse(request.body)
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          message: parseResult.error.issues[0].message,
+        })
+      }
+
+      const [entry] = await db
+        .update(tvaCreditEntries)
+        .set({ refundStatus: 'received', refundReceivedDate: parseResult.data.receivedDate })
+        .where(
+          and(
+            eq(tvaCreditEntries.id, id),
+            eq(tvaCreditEntries.userId, request.authUser.userId),
+            eq(tvaCreditEntries.type, 'refund')
+          )
+        )
+        .returning()
+
+      if (!entry) {
+        return reply.status(404).send({ message: 'Remboursement non trouvé' })
       }
+
+      return entry
     }
   )
 }
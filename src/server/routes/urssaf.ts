@@ -1,12 +1,22 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
-import { eq, and, desc, sql } from 'drizzle-orm'
+import { eq, and, desc, sql, isNull } from 'drizzle-orm'
 import { db } from '../db'
-import { urssafPayments, invoices, settings, yearlyRates } from '../db/schema'
+import { urssafPayments, bankTransactions } from '../db/schema'
 import { requireAuth } from '../auth/middleware'
-
-const createUrssafPaymentSchema = z.object({
-  trimester: z.number().min(1).max(4, 'Le trimestre doit être entre 1 et 4'),
+import { getCashReceivedByActivity } from '../services/invoice-payments'
+import { releaseBankTransactions } from '../services/bank-reconciliation'
+import { emptyActivityAmounts } from '../services/activity-rates'
+import { URSSAF_COMPONENT_LABELS, getContributionOptions, urssafContributions } from '../services/urssaf-contributions'
+import type { UrssafComponent } from '../services/urssaf-contributions'
+import { MICRO_ACTIVITY_TYPES } from '../services/micro-ceiling'
+import { checkUrssafPeriodicity, getUrssafPeriodicity, urssafPeriodOf, urssafPeriodsOfYear } from '../services/urssaf-periods'
+import type { UrssafPeriod } from '../services/urssaf-periods'
+
+// A quarterly payment gives its trimester, a monthly one its month
+const urssafPaymentSchema = z.object({
+  trimester: z.number().min(1).max(4, 'Le trimestre doit être entre 1 et 4').optional(),
+  month: z.number().min(1).max(12, 'Le mois doit être entre 1 et 12').nullable().optional(),
   year: z.number().min(2000).max(2100),
   revenue: z.number().min(0, 'Le chiffre d\'affaires ne peut pas être négatif'),
   amount: z.number().min(0, 'Le montant ne peut pas être négatif'),
@@ -16,7 +26,32 @@ const createUrssafPaymentSchema = z.object({
   note: z.string().optional(),
 })
 
-const updateUrssafPaymentSchema = createUrssafPaymentSchema.partial()
+const createUrssafPaymentSchema = urssafPaymentSchema.refine(
+  (data) => data.trimester !== undefined || (data.month !== undefined && data.month !== null),
+  { message: 'Le trimestre ou le mois est requis' }
+)
+
+const updateUrssafPaymentSchema = urssafPaymentSchema.partial()
+
+const revenueSchema = z.number().min(0, 'Le chiffre d\'affaires ne peut pas être négatif')
+
+// Revenue of each activity, for users mixing sales and services
+export const revenueByActivitySchema = z.object({
+  sales: revenueSchema.optional(),
+  bic_services: revenueSchema.optional(),
+  bnc: revenueSchema.optional(),
+})
+
+// A single revenue counts for the main activity; mixed activities send one revenue each.
+// The date of the revenue tells whether ACRE applies, the end of the year by default
+export const urssafCalculationSchema = z.object({
+  revenue: revenueSchema.optional(),
+  revenueByActivity: revenueByActivitySchema.optional(),
+  year: z.number().min(2000).max(2100).optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format de date invalide (YYYY-MM-DD)').optional(),
+}).refine((data) => data.revenue !== undefined || data.revenueByActivity !== undefined, {
+  message: 'Le chiffre d\'affaires est requis',
+})
 
 const listQuerySchema = z.object({
   year: z.coerce.number().min(2000).max(2100).optional(),
@@ -25,35 +60,15 @@ const listQuerySchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 })
 
-// Helper to get trimester date range
-function getTrimesterDates(year: number, trimester: number) {
-  const startMonth = (trimester - 1) * 3 + 1
-  const endMonth = trimester * 3
-  const lastDay = new Date(year, endMonth, 0).getDate()
-
-  return {
-    startDate: `${year}-${startMonth.toString().padStart(2, '0')}-01`,
-    endDate: `${year}-${endMonth.toString().padStart(2, '0')}-${lastDay.toString().padStart(2, '0')}`,
-  }
-}
-
-async function getUrssafRateForYear(userId: string, year: number) {
-  const customRates = await db.query.yearlyRates.findFirst({
-    where: and(
-      eq(yearlyRates.userId, userId),
-      eq(yearlyRates.year, year)
-    ),
-  })
-
-  if (customRates) {
-    return parseFloat(customRates.urssafRate)
-  }
-
-  const userSettings = await db.query.settings.findFirst({
-    where: eq(settings.userId, userId),
-  })
-
-  return userSettings ? parseFloat(userSettings.urssafRate) : 22
+// Payments recorded for a period: quarterly ones carry no month
+function periodCondition(userId: string, period: UrssafPeriod) {
+  return and(
+    eq(urssafPayments.userId, userId),
+    eq(urssafPayments.year, period.year),
+    period.month !== null
+      ? eq(urssafPayments.month, period.month)
+      : and(eq(urssafPayments.trimester, period.trimester), isNull(urssafPayments.month))
+  )
 }
 
 export async function urssafRoutes(fastify: FastifyInstance) {
@@ -86,7 +101,7 @@ export async function urssafRoutes(fastify: FastifyInstance) {
         .select()
         .from(urssafPayments)
         .where(and(...conditions))
-        .orderBy(desc(urssafPayments.year), desc(urssafPayments.trimester))
+        .orderBy(desc(urssafPayments.year), desc(urssafPayments.trimester), desc(urssafPayments.month))
         .limit(limit)
         .offset(offset)
 
@@ -138,19 +153,21 @@ export async function urssafRoutes(fastify: FastifyInstance) {
 
       const data = parseResult.data
       const userId = request.authUser.userId
+      const period = urssafPeriodOf({ year: data.year, trimester: data.trimester ?? 1, month: data.month ?? null })
+
+      const periodicityError = checkUrssafPeriodicity(period, await getUrssafPeriodicity(db, userId, data.year))
+      if (periodicityError) {
+        return reply.status(400).send({ message: periodicityError })
+      }
 
-      // Check if payment for this trimester/year already exists
+      // Check if payment for this period already exists
       const existing = await db.query.urssafPayments.findFirst({
-        where: and(
-          eq(urssafPayments.userId, userId),
-          eq(urssafPayments.year, data.year),
-          eq(urssafPayments.trimester, data.trimester)
-        ),
+        where: periodCondition(userId, period),
       })
 
       if (existing) {
         return reply.status(409).send({
-          message: `Une cotisation Urssaf existe déjà pour T${data.trimester} ${data.year}`,
+          message: `Une cotisation Urssaf existe déjà pour ${period.label}`,
         })
       }
 
@@ -158,7 +175,8 @@ export async function urssafRoutes(fastify: FastifyInstance) {
         .insert(urssafPayments)
         .values({
           userId,
-          trimester: data.trimester,
+          trimester: period.trimester,
+          month: period.month,
           year: data.year,
           revenue: data.revenue.toFixed(2),
           amount: data.amount.toFixed(2),
@@ -199,7 +217,6 @@ export async function urssafRoutes(fastify: FastifyInstance) {
       const data = parseResult.data
       const updateData: Record<string, unknown> = {}
 
-      if (data.trimester !== undefined) updateData.trimester = data.trimester
       if (data.year !== undefined) updateData.year = data.year
       if (data.revenue !== undefined) updateData.revenue = data.revenue.toFixed(2)
       if (data.amount !== undefined) updateData.amount = data.amount.toFixed(2)
@@ -208,22 +225,35 @@ export async function urssafRoutes(fastify: FastifyInstance) {
       if (data.reference !== undefined) updateData.reference = data.reference
       if (data.note !== undefined) updateData.note = data.note
 
-      // If changing trimester/year, check for duplicates
-      const finalTrimester = data.trimester ?? existing.trimester
-      const finalYear = data.year ?? existing.year
-      if (finalTrimester !== existing.trimester || finalYear !== existing.year) {
+      // A new trimester makes the payment quarterly, a new month makes it monthly
+      const finalMonth = data.month !== undefined
+        ? data.month
+        : data.trimester !== undefined ? null : existing.month
+      const period = urssafPeriodOf({
+        year: data.year ?? existing.year,
+        trimester: data.trimester ?? existing.trimester,
+        month: finalMonth,
+      })
+
+      // If changing period/year, check the periodicity and for duplicates
+      const currentPeriod = urssafPeriodOf(existing)
+      if (period.key !== currentPeriod.key) {
+        const periodicityError = checkUrssafPeriodicity(period, await getUrssafPeriodicity(db, userId, period.year))
+        if (periodicityError) {
+          return reply.status(400).send({ message: periodicityError })
+        }
+
         const duplicate = await db.query.urssafPayments.findFirst({
-          where: and(
-            eq(urssafPayments.userId, userId),
-            eq(urssafPayments.year, finalYear),
-            eq(urssafPayments.trimester, finalTrimester)
-          ),
+          where: periodCondition(userId, period),
         })
         if (duplicate && duplicate.id !== id) {
           return reply.status(409).send({
-            message: `Une cotisation Urssaf existe déjà pour T${finalTrimester} ${finalYear}`,
+            message: `Une cotisation Urssaf existe déjà pour ${period.label}`,
           })
         }
+
+        updateData.trimester = period.trimester
+        updateData.month = period.month
       }
 
       const [updated] = await db
@@ -252,9 +282,12 @@ export async function urssafRoutes(fastify: FastifyInstance) {
         return reply.status(404).send({ message: 'Cotisation Urssaf non trouvée' })
       }
 
-      await db
-        .delete(urssafPayments)
-        .where(and(eq(urssafPayments.id, id), eq(urssafPayments.userId, userId)))
+      await db.transaction(async (tx) => {
+        await releaseBankTransactions(tx, and(eq(bankTransactions.matchType, 'urssaf'), eq(bankTransactions.matchId, id)))
+        await tx
+          .delete(urssafPayments)
+          .where(and(eq(urssafPayments.id, id), eq(urssafPayments.userId, userId)))
+      })
 
       return reply.status(204).send()
     }
@@ -279,8 +312,11 @@ export async function urssafRoutes(fastify: FastifyInstance) {
       const { year } = parseResult.data
       const userId = request.authUser.userId
 
-      // Use yearly custom rate when configured, fallback to global settings.
-      const urssafRate = await getUrssafRateForYear(userId, year)
+      // The yearly custom rate (or the settings one) applies to the main activity, official rates to the others;
+      // CFP, versement libératoire and chamber tax come on top of the social contributions
+      const options = await getContributionOptions(userId, year)
+      const { mainActivity, rates } = options
+      const periodicity = await getUrssafPeriodicity(db, userId, year)
 
       // Get all payments for the year
       const payments = await db
@@ -292,7 +328,7 @@ export async function urssafRoutes(fastify: FastifyInstance) {
             eq(urssafPayments.year, year)
           )
         )
-        .orderBy(urssafPayments.trimester)
+        .orderBy(urssafPayments.trimester, urssafPayments.month)
 
       // Calculate totals
       const totals = {
@@ -302,29 +338,19 @@ export async function urssafRoutes(fastify: FastifyInstance) {
         totalPending: 0,
       }
 
-      const trimesterData = []
-
-      for (let t = 1; t <= 4; t++) {
-        const payment = payments.find(p => p.trimester === t)
-        const { startDate, endDate } = getTrimesterDates(year, t)
+      const periodData = []
+      const componentTotals: Partial<Record<UrssafComponent, number>> = {}
 
-        // Get actual revenue for this trimester from invoices
-        const invoiceResult = await db
-          .select({
-            totalHt: sql<string>`COALESCE(SUM(${invoices.amountHt}::numeric), 0)`,
-          })
-          .from(invoices)
-          .where(
-            and(
-              eq(invoices.userId, userId),
-              eq(invoices.isCanceled, false),
-              sql`${invoices.paymentDate} >= ${startDate}`,
-              sql`${invoices.paymentDate} <= ${endDate}`
-            )
-          )
+      for (const period of urssafPeriodsOfYear(year, periodicity)) {
+        const payment = payments.find(p => urssafPeriodOf(p).key === period.key)
 
-        const actualRevenue = parseFloat(invoiceResult[0].totalHt)
-        const estimatedAmount = actualRevenue * (urssafRate / 100)
+        // Get actual revenue for this period from invoice payments, each activity at its own rate
+        const revenueByActivity = await getCashReceivedByActivity(userId, period.startDate, period.endDate)
+        const actualRevenue = MICRO_ACTIVITY_TYPES.reduce((sum, activityType) => sum + revenueByActivity[activityType], 0)
+        const contributions = urssafContributions(revenueByActivity, options, period.endDate)
+        for (const component of contributions.components) {
+          componentTotals[component.component] = (componentTotals[component.component] ?? 0) + component.total
+        }
 
         if (payment) {
           totals.totalRevenue += parseFloat(payment.revenue)
@@ -336,20 +362,35 @@ export async function urssafRoutes(fastify: FastifyInstance) {
           }
         }
 
-        trimesterData.push({
-          trimester: t,
-          startDate,
-          endDate,
+        periodData.push({
+          ...period,
           actualRevenue: actualRevenue.toFixed(2),
-          estimatedAmount: estimatedAmount.toFixed(2),
+          estimatedAmount: contributions.total.toFixed(2),
+          // Social contributions of each activity at its own rate, ACRE included
+          activities: contributions.components[0].lines,
+          components: contributions.components,
+          acreReduction: contributions.acreReduction,
           payment: payment || null,
         })
       }
 
       return {
         year,
-        urssafRate,
-        trimesters: trimesterData,
+        urssafRate: rates[mainActivity].urssafRate,
+        // All components on the revenue of the main activity, as a % of it
+        contributionRate: urssafContributions({ ...emptyActivityAmounts(), [mainActivity]: 100 }, options, `${year}-12-31`).total,
+        mainActivity,
+        activityRates: rates,
+        versementLiberatoire: options.versementLiberatoire,
+        chamber: options.chamber,
+        acre: options.acre,
+        components: (Object.keys(componentTotals) as UrssafComponent[]).map((component) => ({
+          component,
+          label: URSSAF_COMPONENT_LABELS[component],
+          total: (componentTotals[component] ?? 0).toFixed(2),
+        })),
+        periodicity,
+        periods: periodData,
         totals: {
           totalRevenue: totals.totalRevenue.toFixed(2),
           totalAmount: totals.totalAmount.toFixed(2),
@@ -365,31 +406,38 @@ export async function urssafRoutes(fastify: FastifyInstance) {
     '/api/urssaf/calculate',
     { preHandler: [requireAuth] },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const bodySchema = z.object({
-        revenue: z.number().min(0, 'Le chiffre d\'affaires ne peut pas être négatif'),
-      })
-
-      const parseResult = bodySchema.safeParse(request.body)
+      const parseResult = urssafCalculationSchema.safeParse(request.body)
       if (!parseResult.success) {
         return reply.status(400).send({
           message: parseResult.error.issues[0].message,
         })
       }
 
-      const { revenue } = parseResult.data
+      const data = parseResult.data
       const userId = request.authUser.userId
+      const year = data.year ?? (data.date ? Number(data.date.substring(0, 4)) : new Date().getFullYear())
+      const options = await getContributionOptions(userId, year)
+      const { mainActivity, rates } = options
 
-      // Get user's Urssaf rate
-      const userSettings = await db.query.settings.findFirst({
-        where: eq(settings.userId, userId),
-      })
-      const urssafRate = userSettings ? parseFloat(userSettings.urssafRate) : 22
-      const amount = revenue * (urssafRate / 100)
+      const revenueByActivity = { ...emptyActivityAmounts(), ...data.revenueByActivity }
+      if (data.revenue !== undefined) {
+        revenueByActivity[mainActivity] += data.revenue
+      }
+      const revenue = MICRO_ACTIVITY_TYPES.reduce((sum, activityType) => sum + revenueByActivity[activityType], 0)
+      const contributions = urssafContributions(revenueByActivity, options, data.date ?? `${year}-12-31`)
+      const amount = contributions.total
 
       return {
         revenue: revenue.toFixed(2),
-        rate: urssafRate,
+        // Blended rate over the activities and components
+        rate: revenue > 0 ? Math.round(amount / revenue * 10000) / 100 : rates[mainActivity].urssafRate,
         amount: amount.toFixed(2),
+        lines: contributions.components[0].lines,
+        components: contributions.components.map((component) => ({
+          ...component,
+          label: URSSAF_COMPONENT_LABELS[component.component],
+        })),
+        acreReduction: contributions.acreReduction,
       }
     }
   )
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest'
+import { buildActivityRates, defaultUrssafRates, taxableByActivity, urssafByActivity } from './activity-rates'
+
+vi.mock('../db', () => ({ db: {} }))
+
+describe('defaultUrssafRates', () => {
+  it('uses the rates of the year and the latest known ones after', () => {
+    expect(defaultUrssafRates(2025)).toEqual({ sales: 12.3, bic_services: 21.2, bnc: 24.6 })
+    expect(defaultUrssafRates(2030)).toEqual(defaultUrssafRates(2026))
+  })
+})
+
+describe('buildActivityRates', () => {
+  it('keeps the configured rates for the main activity only', () => {
+    const rates = buildActivityRates(2025, 'bnc', { urssafRate: 22, deductionRate: 34 })
+    expect(rates.bnc).toEqual({ urssafRate: 22, deductionRate: 34 })
+    expect(rates.sales).toEqual({ urssafRate: 12.3, deductionRate: 71 })
+    expect(rates.bic_services).toEqual({ urssafRate: 21.2, deductionRate: 50 })
+  })
+})
+
+describe('mixed activities', () => {
+  const rates = buildActivityRates(2025, 'bnc', { urssafRate: 24.6, deductionRate: 34 })
+  const revenue = { sales: 10000, bic_services: 0, bnc: 20000 }
+
+  it('sums the contributions of each activity at its own rate', () => {
+    expect(urssafByActivity(revenue, rates)).toEqual({
+      total: 6150,
+      lines: [
+        { activityType: 'sales', revenueHt: 10000, rate: 12.3, amount: 1230 },
+        { activityType: 'bnc', revenueHt: 20000, rate: 24.6, amount: 4920 },
+      ],
+    })
+  })
+
+  it('applies the abattement of each activity to the taxable income', () => {
+    const taxable = taxableByActivity(revenue, rates)
+    expect(taxable.total).toBe(16100) // 10 000 x 29 % + 20 000 x 66 %
+    expect(taxable.lines.map((line) => line.rate)).toEqual([29, 66])
+  })
+})
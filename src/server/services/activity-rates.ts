@@ -0,0 +1,102 @@
+import { eq, and } from 'drizzle-orm'
+import { db } from '../db'
+import { settings, yearlyRates } from '../db/schema'
+import { MICRO_ACTIVITY_TYPES } from './micro-ceiling'
+import type { MicroActivityType } from './micro-ceiling'
+import { roundCents } from './invoice-totals'
+
+// Amounts split by activity, e.g. the revenue of a period
+export type ActivityAmounts = Record<MicroActivityType, number>
+
+// URSSAF micro-social rates per year (BNC outside CIPAV, 23.1 % from July 2024)
+export const DEFAULT_URSSAF_RATES: Record<number, ActivityAmounts> = {
+  2023: { sales: 12.3, bic_services: 21.2, bnc: 21.1 },
+  2024: { sales: 12.3, bic_services: 21.2, bnc: 23.1 },
+  2025: { sales: 12.3, bic_services: 21.2, bnc: 24.6 },
+  2026: { sales: 12.3, bic_services: 21.2, bnc: 26.1 },
+}
+
+// Abattement forfaitaire for frais professionnels (art. 50-0 and 102 ter CGI)
+export const ACTIVITY_DEDUCTION_RATES: ActivityAmounts = {
+  sales: 71,
+  bic_services: 50,
+  bnc: 34,
+}
+
+export interface ActivityRates {
+  urssafRate: number
+  deductionRate: number
+}
+
+export type ActivityRateTable = Record<MicroActivityType, ActivityRates>
+
+export interface ActivityLine {
+  activityType: MicroActivityType
+  revenueHt: number
+  rate: number
+  amount: number
+}
+
+export function emptyActivityAmounts(): ActivityAmounts {
+  return { sales: 0, bic_services: 0, bnc: 0 }
+}
+
+// Latest known rates for years not listed yet
+export function defaultUrssafRates(year: number): ActivityAmounts {
+  const years = Object.keys(DEFAULT_URSSAF_RATES).map(Number).sort((a, b) => a - b)
+  const known = years.filter((knownYear) => knownYear <= year)
+  return DEFAULT_URSSAF_RATES[known.length > 0 ? known[known.length - 1] : years[0]]
+}
+
+// The rates configured in the settings apply to the main activity, the official ones to the others
+export function buildActivityRates(year: number, mainActivity: MicroActivityType, main: ActivityRates): ActivityRateTable {
+  const urssafRates = defaultUrssafRates(year)
+  const table = {} as ActivityRateTable
+  for (const activityType of MICRO_ACTIVITY_TYPES) {
+    table[activityType] = activityType === mainActivity
+      ? main
+      : { urssafRate: urssafRates[activityType], deductionRate: ACTIVITY_DEDUCTION_RATES[activityType] }
+  }
+  return table
+}
+
+// Applies a rate to the revenue of each activity and sums the results; activities without revenue are left out
+export function applyByActivity(revenue: ActivityAmounts, rateOf: (activityType: MicroActivityType) => number) {
+  const lines: ActivityLine[] = MICRO_ACTIVITY_TYPES
+    .filter((activityType) => revenue[activityType] !== 0)
+    .map((activityType) => ({
+      activityType,
+      revenueHt: roundCents(revenue[activityType]),
+      rate: rateOf(activityType),
+      amount: roundCents(revenue[activityType] * rateOf(activityType) / 100),
+    }))
+
+  return { total: roundCents(lines.reduce((sum, line) => sum + line.amount, 0)), lines }
+}
+
+// URSSAF contributions, each activity at its own rate
+export function urssafByActivity(revenue: ActivityAmounts, rates: ActivityRateTable) {
+  return applyByActivity(revenue, (activityType) => rates[activityType].urssafRate)
+}
+
+// Taxable income, the revenue of each activity after its abattement
+export function taxableByActivity(revenue: ActivityAmounts, rates: ActivityRateTable) {
+  return applyByActivity(revenue, (activityType) => 100 - rates[activityType].deductionRate)
+}
+
+export async function getActivityRates(userId: string, year: number): Promise<{ mainActivity: MicroActivityType; rates: ActivityRateTable }> {
+  const userSettings = await db.query.settings.findFirst({
+    where: eq(settings.userId, userId),
+  })
+  const customRates = await db.query.yearlyRates.findFirst({
+    where: and(eq(yearlyRates.userId, userId), eq(yearlyRates.year, year)),
+  })
+
+  const mainActivity = (userSettings?.activityType as MicroActivityType | undefined) ?? 'bnc'
+  const urssafRate = customRates
+    ? parseFloat(customRates.urssafRate)
+    : userSettings ? parseFloat(userSettings.urssafRate) : 22
+  const deductionRate = userSettings ? parseFloat(userSettings.revenueDeductionRate) : 34
+
+  return { mainActivity, rates: buildActivityRates(year, mainActivity, { urssafRate, deductionRate }) }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest'
+import { normalizeText, scoreCandidate, suggestMatches, type MatchCandidate } from './bank-reconciliation'
+
+vi.mock('../db', () => ({ db: {} }))
+
+const transaction = { date: '2025-02-03', amount: 1200, label: 'VIR SEPA SOCIETE GENERALE', counterparty: 'Société Générale' }
+
+const invoice: MatchCandidate = {
+  type: 'invoice',
+  id: 'invoice-1',
+  label: 'Facture 20250101 — Société Générale',
+  amount: 1200,
+  date: null,
+  keywords: ['Société Générale', '20250101'],
+}
+
+describe('normalizeText', () => {
+  it('drops accents, case and punctuation', () => {
+    expect(normalizeText('Société  Générale, S.A.')).toBe('societe generale s a')
+  })
+})
+
+describe('scoreCandidate', () => {
+  it('ignores candidates with a different amount', () => {
+    expect(scoreCandidate(transaction, { ...invoice, amount: 1199.99 })).toBe(0)
+  })
+
+  it('ranks a matching client name above an amount-only match', () => {
+    const otherClient = { ...invoice, id: 'invoice-2', keywords: ['Acme'] }
+    expect(scoreCandidate(transaction, invoice)).toBeGreaterThan(scoreCandidate(transaction, otherClient))
+  })
+
+  it('does not match keywords inside longer words', () => {
+    expect(scoreCandidate({ ...transaction, label: 'VIR PASTVA' }, { ...invoice, keywords: ['tva'] })).toBe(50)
+  })
+
+  it('favours expenses booked close to their date', () => {
+    const expense: MatchCandidate = { type: 'expense', id: 'expense-1', label: 'Loyer', amount: -600, date: '2025-02-01', keywords: [] }
+    const debit = { ...transaction, amount: -600 }
+    expect(scoreCandidate(debit, expense)).toBeGreaterThan(scoreCandidate(debit, { ...expense, date: '2024-09-01' }))
+  })
+})
+
+describe('suggestMatches', () => {
+  it('returns the best candidates first', () => {
+    const suggestions = suggestMatches(transaction, [
+      { ...invoice, id: 'invoice-2', keywords: ['Acme'] },
+      invoice,
+      { ...invoice, id: 'invoice-3', amount: 80 },
+    ])
+    expect(suggestions.map((suggestion) => suggestion.id)).toEqual(['invoice-1', 'invoice-2'])
+  })
+})
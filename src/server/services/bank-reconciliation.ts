@@ -0,0 +1,103 @@
+import { eq, and, gt, sql, type SQL } from 'drizzle-orm'
+import { db } from '../db'
+import { accountBalances, bankTransactions } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+
+export type MatchType = 'invoice' | 'expense' | 'tva' | 'urssaf' | 'income_tax'
+
+export interface MatchCandidate {
+  type: MatchType
+  id: string
+  label: string
+  amount: number // Expected on the statement: positive for receipts, negative for payments
+  date: string | null // Only set when the booking should be close to it (expenses)
+  keywords: string[]
+}
+
+export interface MatchSuggestion extends MatchCandidate {
+  score: number
+}
+
+interface TransactionToMatch {
+  date: string
+  amount: number
+  label: string
+  counterparty: string | null
+}
+
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 86_400_000
+}
+
+// The amount must match to the cent; the name and date only rank candidates
+export function scoreCandidate(transaction: TransactionToMatch, candidate: MatchCandidate): number {
+  if (Math.abs(candidate.amount - transaction.amount) > 0.005) return 0
+
+  let score = 50
+  const text = ` ${normalizeText(`${transaction.label} ${transaction.counterparty ?? ''}`)} `
+  const hasKeyword = candidate.keywords
+    .map(normalizeText)
+    .some((keyword) => keyword.length >= 3 && text.includes(` ${keyword} `))
+  if (hasKeyword) score += 30
+
+  if (candidate.date) {
+    const days = daysBetween(transaction.date, candidate.date)
+    if (days <= 7) score += 20
+    else if (days <= 31) score += 10
+    else if (days > 90) score -= 30
+  }
+
+  return Math.max(score, 0)
+}
+
+export function suggestMatches(transaction: TransactionToMatch, candidates: MatchCandidate[], limit = 3): MatchSuggestion[] {
+  return candidates
+    .map((candidate) => ({ ...candidate, score: scoreCandidate(transaction, candidate) }))
+    .filter((suggestion) => suggestion.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+// The recorded balance plus every transaction booked after its date
+export async function getCurrentBalance(userId: string) {
+  const record = await db.query.accountBalances.findFirst({
+    where: eq(accountBalances.userId, userId),
+  })
+
+  const conditions = [eq(bankTransactions.userId, userId)]
+  if (record?.balanceDate) {
+    conditions.push(gt(bankTransactions.date, record.balanceDate))
+  }
+
+  const result = await db
+    .select({
+      total: sql<string>`COALESCE(SUM(${bankTransactions.amount}::numeric), 0)`,
+      count: sql<number>`count(*)`,
+    })
+    .from(bankTransactions)
+    .where(and(...conditions))
+
+  const recordedBalance = record ? parseFloat(record.balance) : 0
+  return {
+    record,
+    balance: recordedBalance + parseFloat(result[0].total),
+    transactionsSinceBalance: Number(result[0].count),
+  }
+}
+
+// Put transactions back in the reconciliation queue once the record they settled is gone
+export async function releaseBankTransactions(executor: DbExecutor, condition: SQL | undefined) {
+  await executor
+    .update(bankTransactions)
+    .set({ status: 'unmatched', matchType: null, matchId: null })
+    .where(and(eq(bankTransactions.status, 'matched'), condition))
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeImportHashes,
+  detectStatementFormat,
+  parseCamtStatement,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseStatement,
+  StatementParseError,
+  type CsvColumnMapping,
+} from './bank-statement-parser'
+
+const csvMapping: CsvColumnMapping = {
+  delimiter: ';',
+  dateColumn: 'Date',
+  dateFormat: 'DD/MM/YYYY',
+  labelColumn: 'Libellé',
+  debitColumn: 'Débit',
+  creditColumn: 'Crédit',
+  decimalSeparator: ',',
+}
+
+const csv = [
+  'Date;Libellé;Débit;Crédit',
+  '03/02/2025;"VIR SEPA ACME SAS; FACT 20250101";;1 200,00',
+  '05/02/2025;PRLV URSSAF;845,50;',
+  'Solde au 28/02/2025;;;',
+].join('\n')
+
+const ofx = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250203
+<TRNAMT>1200.00
+<FITID>OFX-1
+<NAME>ACME SAS
+<MEMO>FACT 20250101
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250205120000
+<TRNAMT>-845.50
+<FITID>OFX-2
+<NAME>URSSAF
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>5354.50<DTASOF>20250228</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">5354.50</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2025-02-28</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <NtryRef>1</NtryRef>
+        <Amt Ccy="EUR">1200.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-02-03</Dt></BookgDt>
+        <AcctSvcrRef>CAMT-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>ACME SAS</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>FACT 20250101</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">845.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-02-05</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+describe('detectStatementFormat', () => {
+  it('recognises each supported format', () => {
+    expect(detectStatementFormat(csv)).toBe('csv')
+    expect(detectStatementFormat(ofx)).toBe('ofx')
+    expect(detectStatementFormat(camt)).toBe('camt')
+  })
+})
+
+describe('parseCsvStatement', () => {
+  it('reads signed amounts from debit and credit columns', () => {
+    const { transactions } = parseCsvStatement(csv, csvMapping)
+    expect(transactions).toEqual([
+      { date: '2025-02-03', amount: 1200, label: 'VIR SEPA ACME SAS; FACT 20250101', counterparty: null, reference: null },
+      { date: '2025-02-05', amount: -845.5, label: 'PRLV URSSAF', counterparty: null, reference: null },
+    ])
+  })
+
+  it('reads a single signed amount column', () => {
+    const content = 'date,label,amount\n2025-02-03,Client,"1,200.00"\n2025-02-05,Fees,-12.5'
+    const { transactions } = parseCsvStatement(content, {
+      delimiter: ',',
+      dateColumn: 'date',
+      dateFormat: 'YYYY-MM-DD',
+      labelColumn: 'label',
+      amountColumn: 'amount',
+      decimalSeparator: '.',
+    })
+    expect(transactions.map((transaction) => transaction.amount)).toEqual([1200, -12.5])
+  })
+
+  it('rejects a mapping that names a missing column', () => {
+    expect(() => parseCsvStatement(csv, { ...csvMapping, labelColumn: 'Description' })).toThrow(StatementParseError)
+  })
+
+  it('requires a mapping', () => {
+    expect(() => parseStatement(csv, 'csv')).toThrow(StatementParseError)
+  })
+})
+
+describe('parseOfxStatement', () => {
+  it('reads transactions and the ledger balance', () => {
+    const { transactions, closingBalance } = parseOfxStatement(ofx)
+    expect(transactions).toEqual([
+      { date: '2025-02-03', amount: 1200, label: 'ACME SAS FACT 20250101', counterparty: 'ACME SAS', reference: 'OFX-1' },
+      { date: '2025-02-05', amount: -845.5, label: 'URSSAF', counterparty: 'URSSAF', reference: 'OFX-2' },
+    ])
+    expect(closingBalance).toEqual({ amount: 5354.5, date: '2025-02-28' })
+  })
+})
+
+describe('parseCamtStatement', () => {
+  it('reads booked entries and the closing balance', () => {
+    const { transactions, closingBalance } = parseCamtStatement(camt)
+    expect(transactions).toEqual([
+      { date: '2025-02-03', amount: 1200, label: 'FACT 20250101', counterparty: 'ACME SAS', reference: 'CAMT-1' },
+    ])
+    expect(closingBalance).toEqual({ amount: 5354.5, date: '2025-02-28' })
+  })
+
+  it('rejects a document without statement', () => {
+    expect(() => parseCamtStatement('<Document></Document>')).toThrow(StatementParseError)
+  })
+})
+
+describe('computeImportHashes', () => {
+  it('is stable across imports of the same statement', () => {
+    const { transactions } = parseOfxStatement(ofx)
+    expect(computeImportHashes(transactions)).toEqual(computeImportHashes(parseOfxStatement(ofx).transactions))
+  })
+
+  it('keeps identical lines of one statement apart', () => {
+    const line = { date: '2025-02-05', amount: -3.5, label: 'FRAIS', counterparty: null, reference: null }
+    const [first, second] = computeImportHashes([line, { ...line }])
+    expect(first).not.toBe(second)
+  })
+})
@@ -0,0 +1,312 @@
+import { createHash } from 'node:crypto'
+import { roundCents } from './invoice-totals'
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt'
+
+export interface ParsedTransaction {
+  date: string // YYYY-MM-DD
+  amount: number // Positive for credits, negative for debits
+  label: string
+  counterparty: string | null
+  reference: string | null
+}
+
+export interface ParsedStatement {
+  transactions: ParsedTransaction[]
+  closingBalance: { amount: number; date: string } | null
+}
+
+export interface CsvColumnMapping {
+  delimiter: ';' | ',' | '\t'
+  dateColumn: string
+  dateFormat: 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'MM/DD/YYYY'
+  labelColumn: string
+  // Either a single signed amount column, or separate debit and credit columns
+  amountColumn?: string
+  debitColumn?: string
+  creditColumn?: string
+  counterpartyColumn?: string
+  referenceColumn?: string
+  decimalSeparator: ',' | '.'
+}
+
+export class StatementParseError extends Error {}
+
+export function detectStatementFormat(content: string): StatementFormat {
+  const head = content.slice(0, 2000)
+  if (/<(\w+:)?BkToCstmrStmt\b/.test(head) || /camt\.053/.test(head)) return 'camt'
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx'
+  return 'csv'
+}
+
+// Identical rows in one statement are kept apart by their occurrence index, so
+// re-importing the same file yields the same hashes and adds nothing
+export function computeImportHashes(transactions: ParsedTransaction[]): string[] {
+  const occurrences = new Map<string, number>()
+  return transactions.map((transaction) => {
+    const key = transaction.reference
+      ? `ref|${transaction.reference}|${transaction.date}|${transaction.amount.toFixed(2)}`
+      : `${transaction.date}|${transaction.amount.toFixed(2)}|${transaction.label}`
+    const occurrence = occurrences.get(key) ?? 0
+    occurrences.set(key, occurrence + 1)
+    return createHash('sha256').update(`${key}|${occurrence}`).digest('hex')
+  })
+}
+
+export function parseStatement(content: string, format: StatementFormat, mapping?: CsvColumnMapping): ParsedStatement {
+  switch (format) {
+    case 'ofx':
+      return parseOfxStatement(content)
+    case 'camt':
+      return parseCamtStatement(content)
+    case 'csv':
+      if (!mapping) {
+        throw new StatementParseError('Le paramétrage des colonnes CSV est requis')
+      }
+      return parseCsvStatement(content, mapping)
+  }
+}
+
+// ─── CSV ────────────────────────────────────────────────────────────
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+function parseCsvAmount(value: string, decimalSeparator: ',' | '.'): number {
+  let normalized = value.replace(/[\s €]/g, '')
+  if (decimalSeparator === ',') {
+    normalized = normalized.replace(/\./g, '').replace(',', '.')
+  } else {
+    normalized = normalized.replace(/,/g, '')
+  }
+  const amount = parseFloat(normalized)
+  return Number.isNaN(amount) ? 0 : amount
+}
+
+function parseCsvDate(value: string, format: CsvColumnMapping['dateFormat']): string | null {
+  const parts = value.trim().split(/[/.-]/)
+  if (parts.length !== 3) return null
+
+  let [day, month, year] = ['', '', '']
+  if (format === 'YYYY-MM-DD') [year, month, day] = parts
+  else if (format === 'MM/DD/YYYY') [month, day, year] = parts
+  else [day, month, year] = parts
+
+  if (year.length === 2) year = `20${year}`
+  const date = `${year.padStart(4, '0')}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  return /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(date) ? date : null
+}
+
+export function parseCsvStatement(content: string, mapping: CsvColumnMapping): ParsedStatement {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '')
+  if (lines.length === 0) {
+    throw new StatementParseError('Le fichier CSV est vide')
+  }
+
+  const header = splitCsvLine(lines[0], mapping.delimiter).map((cell) => cell.toLowerCase())
+  const columnIndex = (name: string | undefined) => {
+    if (!name) return -1
+    const index = header.indexOf(name.trim().toLowerCase())
+    if (index === -1) {
+      throw new StatementParseError(`Colonne "${name}" introuvable dans l'en-tête du fichier`)
+    }
+    return index
+  }
+
+  const dateIndex = columnIndex(mapping.dateColumn)
+  const labelIndex = columnIndex(mapping.labelColumn)
+  const amountIndex = columnIndex(mapping.amountColumn)
+  const debitIndex = columnIndex(mapping.debitColumn)
+  const creditIndex = columnIndex(mapping.creditColumn)
+  const counterpartyIndex = columnIndex(mapping.counterpartyColumn)
+  const referenceIndex = columnIndex(mapping.referenceColumn)
+
+  if (amountIndex === -1 && debitIndex === -1 && creditIndex === -1) {
+    throw new StatementParseError('Indiquez la colonne du montant, ou celles du débit et du crédit')
+  }
+
+  const transactions: ParsedTransaction[] = []
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line, mapping.delimiter)
+    const date = parseCsvDate(cells[dateIndex] ?? '', mapping.dateFormat)
+    if (!date) continue // Summary and balance rows carry no booking date
+
+    let amount: number
+    if (amountIndex !== -1) {
+      amount = parseCsvAmount(cells[amountIndex] ?? '', mapping.decimalSeparator)
+    } else {
+      const debit = debitIndex !== -1 ? Math.abs(parseCsvAmount(cells[debitIndex] ?? '', mapping.decimalSeparator)) : 0
+      const credit = creditIndex !== -1 ? Math.abs(parseCsvAmount(cells[creditIndex] ?? '', mapping.decimalSeparator)) : 0
+      amount = credit - debit
+    }
+    if (amount === 0) continue
+
+    transactions.push({
+      date,
+      amount: roundCents(amount),
+      label: cells[labelIndex] || 'Opération',
+      counterparty: counterpartyIndex !== -1 ? cells[counterpartyIndex] || null : null,
+      reference: referenceIndex !== -1 ? cells[referenceIndex] || null : null,
+    })
+  }
+
+  return { transactions, closingBalance: null }
+}
+
+// ─── OFX ────────────────────────────────────────────────────────────
+
+// OFX 1.x is SGML where leaf tags are often left unclosed: read up to the next tag
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? match[1].trim() : null
+}
+
+function parseOfxDate(value: string | null): string | null {
+  if (!value || !/^\d{8}/.test(value)) return null
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&')
+}
+
+export function parseOfxStatement(content: string): ParsedStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi)
+  if (!blocks && !/<BANKTRANLIST>/i.test(content)) {
+    throw new StatementParseError('Fichier OFX invalide : aucune liste d\'opérations')
+  }
+
+  const transactions: ParsedTransaction[] = []
+  for (const block of blocks ?? []) {
+    const date = parseOfxDate(ofxValue(block, 'DTPOSTED'))
+    const amount = parseFloat((ofxValue(block, 'TRNAMT') ?? '').replace(',', '.'))
+    if (!date || Number.isNaN(amount) || amount === 0) continue
+
+    const name = ofxValue(block, 'NAME')
+    const memo = ofxValue(block, 'MEMO')
+    transactions.push({
+      date,
+      amount: roundCents(amount),
+      label: decodeEntities([name, memo].filter(Boolean).join(' ') || 'Opération'),
+      counterparty: name ? decodeEntities(name) : null,
+      reference: ofxValue(block, 'FITID'),
+    })
+  }
+
+  const ledger = content.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>)/i)
+  let closingBalance: ParsedStatement['closingBalance'] = null
+  if (ledger) {
+    const amount = parseFloat((ofxValue(ledger[1], 'BALAMT') ?? '').replace(',', '.'))
+    const date = parseOfxDate(ofxValue(ledger[1], 'DTASOF'))
+    if (!Number.isNaN(amount) && date) {
+      closingBalance = { amount: roundCents(amount), date }
+    }
+  }
+
+  return { transactions, closingBalance }
+}
+
+// ─── CAMT.053 ───────────────────────────────────────────────────────
+
+function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g')
+  return Array.from(xml.matchAll(pattern), (match) => match[1])
+}
+
+function xmlText(xml: string, ...path: string[]): string | null {
+  let current: string | undefined = xml
+  for (const tag of path) {
+    current = xmlElements(current, tag)[0]
+    if (current === undefined) return null
+  }
+  return decodeEntities(current.trim())
+}
+
+// Dates come as <Dt> or <DtTm>, sometimes nested (<Dt><Dt>…</Dt></Dt>)
+function camtDate(xml: string): string | null {
+  const match = xml.match(/<(?:\w+:)?(?:Dt|DtTm)>\s*(\d{4}-\d{2}-\d{2})/)
+  return match ? match[1] : null
+}
+
+function camtSignedAmount(xml: string): number {
+  const amount = parseFloat(xmlText(xml, 'Amt') ?? '')
+  if (Number.isNaN(amount)) return NaN
+  return xmlText(xml, 'CdtDbtInd') === 'DBIT' ? -amount : amount
+}
+
+export function parseCamtStatement(content: string): ParsedStatement {
+  const statements = xmlElements(content, 'Stmt')
+  if (statements.length === 0) {
+    throw new StatementParseError('Fichier CAMT.053 invalide : aucun relevé trouvé')
+  }
+
+  const transactions: ParsedTransaction[] = []
+  let closingBalance: ParsedStatement['closingBalance'] = null
+
+  for (const statement of statements) {
+    for (const balance of xmlElements(statement, 'Bal')) {
+      if (xmlText(balance, 'Tp', 'CdOrPrtry', 'Cd') !== 'CLBD') continue
+      const amount = camtSignedAmount(balance)
+      const date = camtDate(balance)
+      if (!Number.isNaN(amount) && date && (!closingBalance || date >= closingBalance.date)) {
+        closingBalance = { amount: roundCents(amount), date }
+      }
+    }
+
+    for (const entry of xmlElements(statement, 'Ntry')) {
+      // Entries still pending at the bank are not booked yet
+      const status = xmlText(entry, 'Sts', 'Cd') ?? xmlText(entry, 'Sts')
+      if (status && status !== 'BOOK') continue
+
+      const amount = camtSignedAmount(entry)
+      const bookingDate = xmlElements(entry, 'BookgDt')[0] ?? xmlElements(entry, 'ValDt')[0]
+      const date = bookingDate ? camtDate(bookingDate) : null
+      if (!date || Number.isNaN(amount) || amount === 0) continue
+
+      // Credits come from the debtor, debits go to the creditor
+      const parties = xmlElements(entry, 'RltdPties')[0] ?? ''
+      const counterparty = amount > 0
+        ? xmlText(parties, 'Dbtr', 'Nm') ?? xmlText(parties, 'Dbtr', 'Pty', 'Nm')
+        : xmlText(parties, 'Cdtr', 'Nm') ?? xmlText(parties, 'Cdtr', 'Pty', 'Nm')
+      const remittance = xmlElements(entry, 'Ustrd').map((text) => decodeEntities(text.trim())).join(' ')
+      const label = [xmlText(entry, 'AddtlNtryInf'), remittance].filter(Boolean).join(' - ')
+
+      transactions.push({
+        date,
+        amount: roundCents(amount),
+        label: label || counterparty || 'Opération',
+        counterparty,
+        reference: xmlText(entry, 'AcctSvcrRef') ?? xmlText(entry, 'NtryRef'),
+      })
+    }
+  }
+
+  return { transactions, closingBalance }
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { ca3LineForRate, checkCreditRefund, computeCa3 } from './ca3'
+import type { Ca3Input } from './ca3'
+
+const emptyMonth: Ca3Input = {
+  receiptsHt: { A1: 0, E1: 0, E2: 0, F2: 0 },
+  collectedByRate: [],
+  intraEuPurchases: [],
+  expenses: [],
+  creditCarriedForward: 0,
+  refundRequested: 0,
+}
+
+function rateLine(input: Partial<Ca3Input>, line: string) {
+  return computeCa3({ ...emptyMonth, ...input }).rateLines.find((rateLine) => rateLine.line === line)!
+}
+
+describe('computeCa3', () => {
+  it('A1 / E1 / E2 / F2: reports the receipts HT in whole euros', () => {
+    const cases = computeCa3({ ...emptyMonth, receiptsHt: { A1: 1234.56, E1: 300.5, E2: 800.4, F2: 99.49 } })
+    expect(cases.A1).toBe(1235)
+    expect(cases.E1).toBe(301)
+    expect(cases.E2).toBe(800)
+    expect(cases.F2).toBe(99)
+  })
+
+  it('08: sales at 20 %', () => {
+    expect(rateLine({ collectedByRate: [{ rate: 20, baseHt: 1000, taxAmount: 200 }] }, '08')).toEqual({ line: '08', rate: 20, baseHt: 1000, tva: 200 })
+  })
+
+  it('9B: sales at 10 %', () => {
+    expect(rateLine({ collectedByRate: [{ rate: 10, baseHt: 450.4, taxAmount: 45.04 }] }, '9B')).toEqual({ line: '9B', rate: 10, baseHt: 450, tva: 45 })
+  })
+
+  it('09: sales at 5,5 %', () => {
+    expect(rateLine({ collectedByRate: [{ rate: 5.5, baseHt: 200, taxAmount: 11 }] }, '09')).toEqual({ line: '09', rate: 5.5, baseHt: 200, tva: 11 })
+  })
+
+  it('14: sales at 2,1 % and other particular rates', () => {
+    expect(ca3LineForRate(2.1)).toBe('14')
+    expect(ca3LineForRate(8.5)).toBe('14')
+    expect(rateLine({ collectedByRate: [{ rate: 2.1, baseHt: 100, taxAmount: 2.1 }] }, '14')).toMatchObject({ baseHt: 100, tva: 2 })
+  })
+
+  it('ignores 0 % bases on the rate lines', () => {
+    const cases = computeCa3({ ...emptyMonth, collectedByRate: [{ rate: 0, baseHt: 500, taxAmount: 0 }] })
+    expect(cases.rateLines.every((line) => line.baseHt === 0)).toBe(true)
+    expect(cases.case16).toBe(0)
+  })
+
+  it('B2 / 17: self-assesses intra-EU purchases at their own rate', () => {
+    const cases = computeCa3({
+      ...emptyMonth,
+      intraEuPurchases: [
+        { amountHt: 100, reverseChargeRate: 20, taxRecoveryRate: 100 },
+        { amountHt: 50, reverseChargeRate: 10, taxRecoveryRate: 100 },
+      ],
+    })
+    expect(cases.B2).toBe(150)
+    expect(cases.case17).toBe(25)
+    expect(cases.rateLines.find((line) => line.line === '08')).toMatchObject({ baseHt: 100, tva: 20 })
+    expect(cases.rateLines.find((line) => line.line === '9B')).toMatchObject({ baseHt: 50, tva: 5 })
+    // Deducted on line 20: neutral when fully recoverable
+    expect(cases.case20).toBe(25)
+    expect(cases.case28).toBe(0)
+  })
+
+  it('16: adds up the rounded TVA of each rate line', () => {
+    const cases = computeCa3({
+      ...emptyMonth,
+      collectedByRate: [
+        { rate: 20, baseHt: 1002.5, taxAmount: 200.5 },
+        { rate: 10, baseHt: 5.4, taxAmount: 0.54 },
+      ],
+    })
+    expect(cases.case16).toBe(201 + 1)
+  })
+
+  it('19: TVA on expenses above 500 EUR HT, after the recovery rate', () => {
+    const cases = computeCa3({ ...emptyMonth, expenses: [{ amountHt: 1500, taxAmount: 300, taxRecoveryRate: 80 }] })
+    expect(cases.case19).toBe(240)
+    expect(cases.case20).toBe(0)
+  })
+
+  it('20: TVA on other expenses', () => {
+    const cases = computeCa3({ ...emptyMonth, expenses: [{ amountHt: 500, taxAmount: 100, taxRecoveryRate: 100 }] })
+    expect(cases.case19).toBe(0)
+    expect(cases.case20).toBe(100)
+  })
+
+  it('22 / 23: carries the previous credit into the deductible total', () => {
+    const cases = computeCa3({
+      ...emptyMonth,
+      expenses: [{ amountHt: 100, taxAmount: 20, taxRecoveryRate: 100 }],
+      creditCarriedForward: 150,
+    })
+    expect(cases.case22).toBe(150)
+    expect(cases.case23).toBe(170)
+  })
+
+  it('28: TVA due when the gross TVA exceeds the deductible TVA', () => {
+    const cases = computeCa3({
+      ...emptyMonth,
+      collectedByRate: [{ rate: 20, baseHt: 5000, taxAmount: 1000 }],
+      expenses: [{ amountHt: 200, taxAmount: 40, taxRecoveryRate: 100 }],
+      creditCarriedForward: 60,
+    })
+    expect(cases.case28).toBe(900)
+    expect(cases.case25).toBe(0)
+    expect(cases.case27).toBe(0)
+  })
+
+  it('25 / 26 / 27: credit, refund and credit carried forward', () => {
+    const cases = computeCa3({
+      ...emptyMonth,
+      collectedByRate: [{ rate: 20, baseHt: 1000, taxAmount: 200 }],
+      expenses: [{ amountHt: 6000, taxAmount: 1200, taxRecoveryRate: 100 }],
+      refundRequested: 800,
+    })
+    expect(cases.case25).toBe(1000)
+    expect(cases.case26).toBe(800)
+    expect(cases.case27).toBe(200)
+    expect(cases.case28).toBe(0)
+  })
+})
+
+describe('checkCreditRefund', () => {
+  it('accepts no refund', () => {
+    expect(checkCreditRefund('2025-10', 0, 0)).toBeNull()
+  })
+
+  it('rejects a refund above the credit', () => {
+    expect(checkCreditRefund('2025-10', 900, 1000)).toContain('ligne 25')
+  })
+
+  it('requires 760 EUR during the year and 150 EUR in December', () => {
+    expect(checkCreditRefund('2025-10', 1000, 500)).toContain('760')
+    expect(checkCreditRefund('2025-10', 1000, 760)).toBeNull()
+    expect(checkCreditRefund('2025-12', 1000, 150)).toBeNull()
+    expect(checkCreditRefund('2025-12', 1000, 100)).toContain('150')
+  })
+})
@@ -0,0 +1,162 @@
+import type { TaxRateTotal } from './invoice-totals'
+
+// CA3 (formulaire 3310-CA3) computed from the month's receipts and expenses, all in EUR.
+// Boxes are declared in whole euros and the totals add up the rounded boxes, as on the form.
+
+export type Ca3RateLineCode = '08' | '9B' | '09' | '14'
+
+// Taxable operations in metropolitan France, one line per rate; 2,1 % is a
+// "taux particulier" detailed on the annexe 3310 A and carried on line 14
+export const CA3_RATE_LINES: { line: Ca3RateLineCode; rate: number }[] = [
+  { line: '08', rate: 20 },
+  { line: '9B', rate: 10 },
+  { line: '09', rate: 5.5 },
+  { line: '14', rate: 2.1 },
+]
+
+export const CA3_RATES = CA3_RATE_LINES.map(({ rate }) => rate)
+
+// Above 500 EUR HT an expense is treated as a fixed asset (line 19)
+export const IMMOBILISATION_THRESHOLD = 500
+
+// Minimum credit for a refund request (art. 242-0 C annexe II CGI): any month from 760 EUR,
+// in December (last period of the year) from 150 EUR
+export const MIN_MONTHLY_REFUND = 760
+export const MIN_YEAR_END_REFUND = 150
+
+export interface Ca3Expense {
+  amountHt: number
+  taxAmount: number
+  taxRecoveryRate: number // %
+}
+
+export interface Ca3IntraEuPurchase {
+  amountHt: number
+  reverseChargeRate: number // %, TVA self-assessed on the purchase
+  taxRecoveryRate: number // %
+}
+
+export interface Ca3Input {
+  receiptsHt: { A1: number; E1: number; E2: number; F2: number }
+  collectedByRate: TaxRateTotal[] // TVA on the sales received in the month
+  intraEuPurchases: Ca3IntraEuPurchase[]
+  expenses: Ca3Expense[] // French expenses carrying TVA
+  creditCarriedForward: number // Line 27 of the previous declaration
+  refundRequested: number // Refund of the credit asked on form 3519
+}
+
+export interface Ca3RateLine {
+  line: Ca3RateLineCode
+  rate: number
+  baseHt: number
+  tva: number
+}
+
+export interface Ca3Boxes {
+  A1: number // Ventes, prestations de services
+  B2: number // Acquisitions intracommunautaires
+  E1: number // Exportations hors UE
+  E2: number // Autres opérations non imposables
+  F2: number // Livraisons intracommunautaires
+  rateLines: Ca3RateLine[] // 08, 9B, 09, 14: base HT and TVA per rate
+  case16: number // Total de la TVA brute due
+  case17: number // Dont TVA sur acquisitions intracommunautaires
+  case19: number // TVA déductible sur immobilisations
+  case20: number // TVA déductible sur autres biens et services
+  case22: number // Report du crédit apparaissant ligne 27 de la précédente déclaration
+  case23: number // Total TVA déductible
+  case25: number // Crédit de TVA (ligne 23 - ligne 16)
+  case26: number // Remboursement de crédit demandé
+  case27: number // Crédit à reporter (ligne 25 - ligne 26)
+  case28: number // TVA nette due (ligne 16 - ligne 23)
+}
+
+// Unlisted rates (DOM, anciens taux) are taxed at a "taux particulier" too
+export function ca3LineForRate(rate: number): Ca3RateLineCode {
+  return CA3_RATE_LINES.find((line) => line.rate === rate)?.line ?? '14'
+}
+
+function recoverable(taxAmount: number, taxRecoveryRate: number): number {
+  return taxAmount * taxRecoveryRate / 100
+}
+
+export function computeCa3(input: Ca3Input): Ca3Boxes {
+  const bases = new Map<Ca3RateLineCode, { baseHt: number; tva: number }>(
+    CA3_RATE_LINES.map(({ line }) => [line, { baseHt: 0, tva: 0 }])
+  )
+  const addToLine = (rate: number, baseHt: number, tva: number) => {
+    const entry = bases.get(ca3LineForRate(rate))!
+    entry.baseHt += baseHt
+    entry.tva += tva
+  }
+
+  for (const group of input.collectedByRate) {
+    if (group.rate > 0) addToLine(group.rate, group.baseHt, group.taxAmount)
+  }
+
+  // Intra-EU purchases are self-assessed: the TVA is due on the rate line and deducted on line 20
+  let intraEuTvaRaw = 0
+  let intraEuDeductibleRaw = 0
+  for (const purchase of input.intraEuPurchases) {
+    const tva = purchase.amountHt * purchase.reverseChargeRate / 100
+    addToLine(purchase.reverseChargeRate, purchase.amountHt, tva)
+    intraEuTvaRaw += tva
+    intraEuDeductibleRaw += recoverable(tva, purchase.taxRecoveryRate)
+  }
+
+  const rateLines = CA3_RATE_LINES.map(({ line, rate }) => ({
+    line,
+    rate,
+    baseHt: Math.round(bases.get(line)!.baseHt),
+    tva: Math.round(bases.get(line)!.tva),
+  }))
+
+  const case19Raw = input.expenses
+    .filter((expense) => expense.amountHt > IMMOBILISATION_THRESHOLD)
+    .reduce((sum, expense) => sum + recoverable(expense.taxAmount, expense.taxRecoveryRate), 0)
+  const case20Raw = input.expenses
+    .filter((expense) => expense.amountHt <= IMMOBILISATION_THRESHOLD)
+    .reduce((sum, expense) => sum + recoverable(expense.taxAmount, expense.taxRecoveryRate), 0)
+    + intraEuDeductibleRaw
+
+  const case16 = rateLines.reduce((sum, line) => sum + line.tva, 0)
+  const case19 = Math.round(case19Raw)
+  const case20 = Math.round(case20Raw)
+  const case22 = Math.round(input.creditCarriedForward)
+  const case23 = case19 + case20 + case22
+
+  const case25 = Math.max(0, case23 - case16)
+  const case26 = Math.min(Math.round(input.refundRequested), case25)
+
+  return {
+    A1: Math.round(input.receiptsHt.A1),
+    B2: Math.round(input.intraEuPurchases.reduce((sum, purchase) => sum + purchase.amountHt, 0)),
+    E1: Math.round(input.receiptsHt.E1),
+    E2: Math.round(input.receiptsHt.E2),
+    F2: Math.round(input.receiptsHt.F2),
+    rateLines,
+    case16,
+    case17: Math.round(intraEuTvaRaw),
+    case19,
+    case20,
+    case22,
+    case23,
+    case25,
+    case26,
+    case27: case25 - case26,
+    case28: Math.max(0, case16 - case23),
+  }
+}
+
+// The refund can only take part of the credit, above the legal minimum for the period
+export function checkCreditRefund(month: string, credit: number, refundRequested: number): string | null {
+  if (refundRequested <= 0) return null
+  if (refundRequested > credit) {
+    return 'Le remboursement demandé dépasse le crédit de TVA (ligne 25)'
+  }
+  const minimum = month.endsWith('-12') ? MIN_YEAR_END_REFUND : MIN_MONTHLY_REFUND
+  if (refundRequested < minimum) {
+    return `Le remboursement de crédit n'est possible qu'à partir de ${minimum} €${minimum === MIN_MONTHLY_REFUND ? ' (150 € en décembre)' : ''}`
+  }
+  return null
+}
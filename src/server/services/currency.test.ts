@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+import { convertExpenseToEur, ExchangeRateParseError, parseEcbRatesCsv, resolveExchangeRate, toEur } from './currency'
+import type { DbExecutor } from './invoice-payments'
+
+vi.mock('../db', () => ({ db: {} }))
+
+// Executor whose rate lookup returns the given rows
+function executorWithRates(rows: { rate: string }[]) {
+  const limit = vi.fn().mockResolvedValue(rows)
+  return {
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          orderBy: vi.fn().mockReturnValue({ limit }),
+        }),
+      }),
+    }),
+  } as unknown as DbExecutor
+}
+
+describe('toEur', () => {
+  it('divides by the rate in units per euro', () => {
+    expect(toEur(1085, 1.085)).toBe(1000)
+    expect(toEur(100, 0.8567)).toBe(116.73)
+  })
+})
+
+describe('convertExpenseToEur', () => {
+  it('converts the HT and TVA amounts and keeps the other fields', () => {
+    const expense = { id: 'expense-id', amountHt: '500.00', taxAmount: '100.00', exchangeRate: '0.800000', currency: 'GBP' }
+    expect(convertExpenseToEur(expense)).toEqual({ ...expense, amountHt: '625.00', taxAmount: '125.00' })
+  })
+})
+
+describe('parseEcbRatesCsv', () => {
+  it('reads the daily reference rates file', () => {
+    const content = 'Date, USD, JPY, GBP, \n17 October 2025, 1.1681, 175.42, 0.86945, \n'
+    expect(parseEcbRatesCsv(content)).toEqual([
+      { currency: 'USD', date: '2025-10-17', rate: 1.1681 },
+      { currency: 'JPY', date: '2025-10-17', rate: 175.42 },
+      { currency: 'GBP', date: '2025-10-17', rate: 0.86945 },
+    ])
+  })
+
+  it('reads the historical file and skips discontinued currencies', () => {
+    const content = 'Date,USD,CYP,\r\n2025-10-17,1.1681,N/A,\r\n2025-10-16,1.1697,N/A,\r\n'
+    expect(parseEcbRatesCsv(content)).toEqual([
+      { currency: 'USD', date: '2025-10-17', rate: 1.1681 },
+      { currency: 'USD', date: '2025-10-16', rate: 1.1697 },
+    ])
+  })
+
+  it('rejects files that are not ECB rates', () => {
+    expect(() => parseEcbRatesCsv('Jour;Montant\n01/01/2025;12')).toThrow(ExchangeRateParseError)
+    expect(() => parseEcbRatesCsv('Date,USD\n2025/10/17,1.1681')).toThrow('Date invalide : 2025/10/17')
+    expect(() => parseEcbRatesCsv('Date,USD\n')).toThrow(ExchangeRateParseError)
+  })
+})
+
+describe('resolveExchangeRate', () => {
+  it('uses 1 for euros and the typed rate when given', async () => {
+    const executor = executorWithRates([])
+    expect(await resolveExchangeRate(executor, 'user-id', 'EUR', '2025-10-17')).toBe('1')
+    expect(await resolveExchangeRate(executor, 'user-id', 'USD', '2025-10-17', 1.17)).toBe('1.170000')
+    expect(executor.select).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the latest recorded rate', async () => {
+    const executor = executorWithRates([{ rate: '1.168100' }])
+    expect(await resolveExchangeRate(executor, 'user-id', 'USD', '2025-10-19')).toBe('1.168100')
+  })
+
+  it('throws when no rate is known for the date', async () => {
+    await expect(resolveExchangeRate(executorWithRates([]), 'user-id', 'USD', '2025-10-19'))
+      .rejects.toThrow('Aucun cours USD connu au 2025-10-19')
+  })
+})
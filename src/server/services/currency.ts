@@ -0,0 +1,131 @@
+import { eq, and, lte, desc, sql, type SQL } from 'drizzle-orm'
+import type { AnyPgColumn } from 'drizzle-orm/pg-core'
+import { exchangeRates } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+import { roundCents } from './invoice-totals'
+
+// Tax bases, declarations and the dashboard are always kept in euros
+export const DEFAULT_CURRENCY = 'EUR'
+
+export interface ParsedExchangeRate {
+  currency: string
+  date: string // YYYY-MM-DD
+  rate: number // Units of currency per EUR
+}
+
+export class ExchangeRateParseError extends Error {}
+
+export class MissingExchangeRateError extends Error {
+  constructor(public readonly currency: string, public readonly date: string) {
+    super(`Aucun cours ${currency} connu au ${date} : saisissez le taux de change ou importez les cours BCE`)
+  }
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+
+// Rates follow the ECB convention (1 EUR = rate units), so converting back divides
+export function toEur(amount: number, exchangeRate: number): number {
+  return roundCents(amount / exchangeRate)
+}
+
+// SQL counterpart of toEur, for aggregations over invoices or expenses
+export function eurAmount(amount: SQL | AnyPgColumn, exchangeRate: AnyPgColumn): SQL {
+  return sql`(${amount}::numeric / ${exchangeRate}::numeric)`
+}
+
+// Same row with its amounts in EUR, for declarations that list expenses one by one
+export function convertExpenseToEur<T extends { amountHt: string; taxAmount: string; exchangeRate: string }>(expense: T): T {
+  const exchangeRate = parseFloat(expense.exchangeRate)
+  return {
+    ...expense,
+    amountHt: toEur(parseFloat(expense.amountHt), exchangeRate).toFixed(2),
+    taxAmount: toEur(parseFloat(expense.taxAmount), exchangeRate).toFixed(2),
+  }
+}
+
+// ECB dates are ISO in the historical file and '17 October 2025' in the daily one
+function parseEcbDate(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+
+  const match = value.match(/^(\d{1,2}) ([A-Za-z]+) (\d{4})$/)
+  if (!match) return null
+  const month = MONTHS.indexOf(match[2].toLowerCase())
+  if (month < 0) return null
+  return `${match[3]}-${String(month + 1).padStart(2, '0')}-${match[1].padStart(2, '0')}`
+}
+
+// Reference rates CSV as downloaded from the ECB (eurofxref.csv or eurofxref-hist.csv)
+export function parseEcbRatesCsv(content: string): ParsedExchangeRate[] {
+  const lines = content.replace(/^﻿/, '').split(/\r?\n/).filter((line) => line.trim() !== '')
+  if (lines.length < 2) {
+    throw new ExchangeRateParseError('Le fichier ne contient aucun cours')
+  }
+
+  const header = lines[0].split(',').map((cell) => cell.trim())
+  if (header[0] !== 'Date') {
+    throw new ExchangeRateParseError('Format non reconnu : la première colonne doit être "Date"')
+  }
+
+  const rates: ParsedExchangeRate[] = []
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map((cell) => cell.trim())
+    const date = parseEcbDate(cells[0])
+    if (!date) {
+      throw new ExchangeRateParseError(`Date invalide : ${cells[0]}`)
+    }
+
+    header.forEach((currency, index) => {
+      if (index === 0 || !/^[A-Z]{3}$/.test(currency)) return
+      // Discontinued currencies are reported as N/A
+      const rate = parseFloat(cells[index])
+      if (Number.isFinite(rate) && rate > 0) {
+        rates.push({ currency, date, rate })
+      }
+    })
+  }
+
+  return rates
+}
+
+// Latest known rate on or before the date, or null when none was recorded
+export async function getExchangeRate(
+  executor: DbExecutor,
+  userId: string,
+  currency: string,
+  date: string
+): Promise<number | null> {
+  if (currency === DEFAULT_CURRENCY) return 1
+
+  const [row] = await executor
+    .select({ rate: exchangeRates.rate })
+    .from(exchangeRates)
+    .where(
+      and(
+        eq(exchangeRates.userId, userId),
+        eq(exchangeRates.currency, currency),
+        lte(exchangeRates.date, date)
+      )
+    )
+    .orderBy(desc(exchangeRates.date))
+    .limit(1)
+
+  return row ? parseFloat(row.rate) : null
+}
+
+// Rate to store on a document: the one typed in, else the recorded rate for its date
+export async function resolveExchangeRate(
+  executor: DbExecutor,
+  userId: string,
+  currency: string,
+  date: string,
+  exchangeRate?: number
+): Promise<string> {
+  if (currency === DEFAULT_CURRENCY) return '1'
+  if (exchangeRate !== undefined) return exchangeRate.toFixed(6)
+
+  const rate = await getExchangeRate(executor, userId, currency, date)
+  if (rate === null) {
+    throw new MissingExchangeRateError(currency, date)
+  }
+  return rate.toFixed(6)
+}
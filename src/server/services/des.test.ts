@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { buildDesCsv, buildDesDeclaration, buildDesXml } from './des'
+import type { DesInvoice } from './des'
+
+function desInvoice(overrides: Partial<DesInvoice> = {}): DesInvoice {
+  return {
+    invoiceId: 'inv-1',
+    invoiceNumber: 'F2025-010',
+    invoiceDate: '2025-10-06',
+    clientId: 'client-de',
+    client: 'Berlin GmbH',
+    clientCountry: 'DE',
+    clientTvaNumber: 'DE123456789',
+    amountHt: '1500.40',
+    ...overrides,
+  }
+}
+
+describe('buildDesDeclaration', () => {
+  it('groups the invoices of a client and rounds to whole euros', () => {
+    const declaration = buildDesDeclaration('2025-10', 'FR12123456789', [
+      desInvoice(),
+      desInvoice({ invoiceId: 'inv-2', invoiceNumber: 'F2025-014', amountHt: '499.30' }),
+      desInvoice({ invoiceId: 'inv-3', clientId: 'client-be', client: 'Anvers BV', clientCountry: 'BE', clientTvaNumber: 'BE 0123.456.789', amountHt: '800' }),
+    ])
+
+    expect(declaration.issues).toEqual([])
+    expect(declaration.lines).toHaveLength(2)
+    expect(declaration.lines[0]).toMatchObject({ lineNumber: 1, client: 'Anvers BV', tvaNumber: 'BE0123456789', amount: 800 })
+    expect(declaration.lines[1]).toMatchObject({ lineNumber: 2, client: 'Berlin GmbH', amount: 2000 })
+    expect(declaration.lines[1].invoices).toHaveLength(2)
+    expect(declaration.total).toBe(2800)
+  })
+
+  it('nets credit notes and drops fully credited clients', () => {
+    const declaration = buildDesDeclaration('2025-10', 'FR12123456789', [
+      desInvoice(),
+      desInvoice({ invoiceId: 'credit-1', invoiceNumber: 'A2025-001', amountHt: '-1500.40' }),
+    ])
+
+    expect(declaration.lines).toEqual([])
+    expect(declaration.total).toBe(0)
+  })
+
+  it('flags a negative net amount', () => {
+    const declaration = buildDesDeclaration('2025-10', 'FR12123456789', [desInvoice({ amountHt: '-200' })])
+    expect(declaration.issues[0]).toContain('montant négatif')
+  })
+
+  it('flags invalid or missing TVA numbers', () => {
+    const declaration = buildDesDeclaration('2025-10', null, [
+      desInvoice({ clientTvaNumber: 'DE1234' }),
+      desInvoice({ invoiceId: 'inv-2', clientId: 'client-it', client: 'Milano Srl', clientCountry: 'IT', clientTvaNumber: null }),
+    ])
+
+    expect(declaration.issues).toHaveLength(3)
+    expect(declaration.issues[0]).toContain('émetteur manquant')
+    expect(declaration.lines.find((line) => line.client === 'Berlin GmbH')!.issues[0]).toContain('Format de numéro de TVA DE invalide')
+    expect(declaration.lines.find((line) => line.client === 'Milano Srl')!.issues[0]).toContain('manquant')
+  })
+})
+
+describe('DES exports', () => {
+  const declaration = buildDesDeclaration('2025-10', 'FR12123456789', [desInvoice()])
+
+  it('writes the customs XML file', () => {
+    const xml = buildDesXml(declaration)
+    expect(xml).toContain('<num_des>202510</num_des>')
+    expect(xml).toContain('<num_tvaFr>FR12123456789</num_tvaFr>')
+    expect(xml).toContain('<mois_des>10</mois_des>')
+    expect(xml).toContain('<annee_des>2025</annee_des>')
+    expect(xml).toContain('<numlin_des>1</numlin_des>')
+    expect(xml).toContain('<valeur>1500</valeur>')
+    expect(xml).toContain('<partner_des>DE123456789</partner_des>')
+  })
+
+  it('writes one CSV row per line', () => {
+    expect(buildDesCsv(declaration).split('\r\n')).toEqual([
+      'Numero de ligne;Numero de TVA client;Montant (EUR);Mois;Annee',
+      '1;DE123456789;1500;10;2025',
+      '',
+    ])
+  })
+})
@@ -0,0 +1,149 @@
+import { checkVatNumber, normalizeVatNumber } from './tva-regimes'
+
+// Déclaration européenne de services (art. 289 B du CGI): monthly list of the services
+// billed under reverse charge to businesses established in another EU country.
+// The sale is reported in the month of the invoice, amounts in whole euros.
+
+export interface DesInvoice {
+  invoiceId: string
+  invoiceNumber: string | null
+  invoiceDate: string
+  clientId: string
+  client: string
+  clientCountry: string
+  clientTvaNumber: string | null
+  amountHt: string // EUR, negative for credit notes
+}
+
+export interface DesLine {
+  lineNumber: number
+  clientId: string
+  client: string
+  country: string
+  tvaNumber: string
+  amount: number // Whole euros
+  invoices: { invoiceId: string; invoiceNumber: string | null; invoiceDate: string; amountHt: string }[]
+  issues: string[]
+}
+
+export interface DesDeclaration {
+  month: string // YYYY-MM
+  issuerTvaNumber: string | null
+  lines: DesLine[]
+  total: number
+  issues: string[]
+}
+
+export class DesValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Déclaration européenne de services impossible : ${issues.join(' ; ')}`)
+  }
+}
+
+// One line per client TVA number; credit notes of the month net against its invoices
+export function buildDesDeclaration(month: string, issuerTvaNumber: string | null, invoices: DesInvoice[]): DesDeclaration {
+  const groups = new Map<string, DesInvoice[]>()
+  for (const invoice of invoices) {
+    const key = invoice.clientTvaNumber ? normalizeVatNumber(invoice.clientTvaNumber) : `client:${invoice.clientId}`
+    groups.set(key, [...(groups.get(key) ?? []), invoice])
+  }
+
+  const lines: DesLine[] = []
+  for (const group of groups.values()) {
+    const first = group[0]
+    const tvaNumber = first.clientTvaNumber ? normalizeVatNumber(first.clientTvaNumber) : ''
+    const amount = Math.round(group.reduce((sum, invoice) => sum + parseFloat(invoice.amountHt), 0))
+    // Fully credited in the month: nothing left to declare
+    if (amount === 0) continue
+
+    const issues: string[] = []
+    if (!tvaNumber) {
+      issues.push(`${first.client} : numéro de TVA intracommunautaire manquant`)
+    } else if (first.clientCountry === 'FR') {
+      issues.push(`${first.client} : client établi en France, la facture ne relève pas de l'autoliquidation intra-UE`)
+    } else {
+      const vatIssue = checkVatNumber(tvaNumber, first.clientCountry)
+      if (vatIssue) issues.push(`${first.client} : ${vatIssue}`)
+    }
+    if (amount < 0) {
+      issues.push(`${first.client} : montant négatif, les avoirs se déclarent en rectification de la période d'origine`)
+    }
+
+    lines.push({
+      lineNumber: 0,
+      clientId: first.clientId,
+      client: first.client,
+      country: first.clientCountry,
+      tvaNumber,
+      amount,
+      invoices: group.map(({ invoiceId, invoiceNumber, invoiceDate, amountHt }) => ({ invoiceId, invoiceNumber, invoiceDate, amountHt })),
+      issues,
+    })
+  }
+
+  lines.sort((a, b) => a.client.localeCompare(b.client, 'fr'))
+  lines.forEach((line, index) => {
+    line.lineNumber = index + 1
+  })
+
+  const issues = lines.flatMap((line) => line.issues)
+  if (!issuerTvaNumber) {
+    issues.unshift('Numéro de TVA intracommunautaire de l\'émetteur manquant (Paramètres de facturation)')
+  } else {
+    const issuerIssue = checkVatNumber(issuerTvaNumber, 'FR')
+    if (issuerIssue) issues.unshift(`Émetteur : ${issuerIssue}`)
+  }
+
+  return {
+    month,
+    issuerTvaNumber: issuerTvaNumber ? normalizeVatNumber(issuerTvaNumber) : null,
+    lines,
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+    issues,
+  }
+}
+
+// Flat export of the lines, one per client
+export function buildDesCsv(declaration: DesDeclaration): string {
+  const [year, month] = declaration.month.split('-')
+  const rows = [
+    'Numero de ligne;Numero de TVA client;Montant (EUR);Mois;Annee',
+    ...declaration.lines.map((line) => [line.lineNumber, line.tvaNumber, line.amount, month, year].join(';')),
+  ]
+  return `${rows.join('\r\n')}\r\n`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// File accepted by the customs DES upload (fichier_des); the period doubles as the declaration number
+export function buildDesXml(declaration: DesDeclaration): string {
+  const [year, month] = declaration.month.split('-')
+  const lines = declaration.lines.map((line) => [
+    '    <ligne_des>',
+    `      <numlin_des>${line.lineNumber}</numlin_des>`,
+    `      <valeur>${line.amount}</valeur>`,
+    `      <partner_des>${escapeXml(line.tvaNumber)}</partner_des>`,
+    '    </ligne_des>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<fichier_des>',
+    '  <declaration_des>',
+    `    <num_des>${year}${month}</num_des>`,
+    `    <num_tvaFr>${escapeXml(declaration.issuerTvaNumber ?? '')}</num_tvaFr>`,
+    `    <mois_des>${month}</mois_des>`,
+    `    <annee_des>${year}</annee_des>`,
+    ...lines,
+    '  </declaration_des>',
+    '</fichier_des>',
+    '',
+  ].join('\n')
+}
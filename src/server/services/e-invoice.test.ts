@@ -0,0 +1,252 @@
+import { existsSync } from 'fs'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  buildCiiXml,
+  buildUblXml,
+  EInvoiceValidationError,
+  renderFacturXPdf,
+  toCountryCode,
+  validateEInvoice,
+} from './e-invoice'
+import { FACTURX_FILENAME, MissingPdfFontError } from './invoice-pdf'
+import type { InvoicePdfData } from './invoice-pdf'
+
+const invoice = {
+  id: 'invoice-id',
+  userId: 'user-id',
+  type: 'invoice',
+  creditedInvoiceId: null,
+  clientId: 'client-id',
+  client: 'Acme Corp',
+  description: 'Développement web',
+  invoiceDate: '2025-01-15',
+  dueDate: '2025-02-14',
+  paymentDate: null,
+  amountHt: '1000.00',
+  taxRate: '20.00',
+  amountTtc: '1200.00',
+  currency: 'EUR',
+  exchangeRate: '1.000000',
+  tvaRegime: 'domestic',
+  activityType: 'bnc',
+  invoiceNumber: '20250101',
+  note: null,
+  createdAt: new Date(),
+}
+
+const lines = [
+  {
+    id: 'line-1',
+    invoiceId: 'invoice-id',
+    position: 0,
+    description: 'Développement web',
+    quantity: '2.000',
+    unit: 'jour',
+    unitPrice: '450.00',
+    taxRate: '20.00',
+    discount: '0.00',
+    amountHt: '900.00',
+    createdAt: new Date(),
+  },
+  {
+    id: 'line-2',
+    invoiceId: 'invoice-id',
+    position: 1,
+    description: 'Support & maintenance',
+    quantity: '1.000',
+    unit: null,
+    unitPrice: '125.00',
+    taxRate: '20.00',
+    discount: '20.00',
+    amountHt: '100.00',
+    createdAt: new Date(),
+  },
+]
+
+const issuer = {
+  id: 'issuer-id',
+  userId: 'user-id',
+  companyName: 'Jean Dupont',
+  legalForm: 'Entrepreneur individuel (EI)',
+  address: '12 rue de la Paix',
+  postalCode: '75002',
+  city: 'Paris',
+  country: 'France',
+  siret: '12345678900012',
+  tvaNumber: 'FR12123456789',
+  email: null,
+  phone: null,
+  iban: 'FR7630006000011234567890189',
+  bic: 'AGRIFRPP',
+  paymentTermsDays: 30,
+  paymentTermsEndOfMonth: false,
+  latePenaltyRate: '12.15',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const data: InvoicePdfData = {
+  invoice,
+  lines,
+  issuer,
+  client: { name: 'Acme Corp', address: '1 avenue des Champs', postalCode: '75008', city: 'Paris', country: 'FR', siret: '98765432100015' },
+}
+
+const creditNote: InvoicePdfData = {
+  ...data,
+  invoice: { ...invoice, type: 'credit_note', creditedInvoiceId: 'invoice-id', invoiceNumber: 'AV20250101', amountHt: '-100.00', amountTtc: '-120.00' },
+  creditedInvoice: { invoiceNumber: '20250101', invoiceDate: '2025-01-15' },
+  lines: [{ ...lines[0], quantity: '1.000', unitPrice: '-100.00', amountHt: '-100.00' }],
+}
+
+describe('toCountryCode', () => {
+  it('maps the French country name and keeps ISO codes', () => {
+    expect(toCountryCode('France')).toBe('FR')
+    expect(toCountryCode('BE')).toBe('BE')
+    expect(toCountryCode('Belgique')).toBeNull()
+  })
+})
+
+describe('validateEInvoice', () => {
+  it('accepts a complete invoice', () => {
+    expect(validateEInvoice(data)).toEqual([])
+  })
+
+  it('requires the SIREN of a French client', () => {
+    const issues = validateEInvoice({ ...data, client: { name: 'Acme Corp', country: 'FR' } })
+    expect(issues).toContain('SIREN du client requis pour un client français')
+  })
+
+  it('requires the VAT number of an EU client', () => {
+    const issues = validateEInvoice({ ...data, client: { name: 'Acme GmbH', country: 'DE' } })
+    expect(issues).toContain('numéro de TVA intracommunautaire du client requis')
+  })
+
+  it('requires an issuer VAT number when TVA is charged', () => {
+    const issues = validateEInvoice({ ...data, issuer: { ...issuer, tvaNumber: null } })
+    expect(issues).toContain('numéro de TVA de l\'émetteur requis pour facturer de la TVA')
+  })
+
+  it('rejects a malformed SIRET and VAT number', () => {
+    const issues = validateEInvoice({ ...data, issuer: { ...issuer, siret: '123', tvaNumber: 'fr 12' } })
+    expect(issues).toContain('SIRET de l\'émetteur invalide')
+    expect(issues).toContain('numéro de TVA de l\'émetteur invalide')
+  })
+
+  it('requires the credited invoice of a credit note', () => {
+    const issues = validateEInvoice({ ...creditNote, creditedInvoice: null })
+    expect(issues).toContain('facture d\'origine de l\'avoir introuvable')
+  })
+})
+
+describe('buildCiiXml', () => {
+  it('produces an EN 16931 invoice with SIREN and VAT identifiers', () => {
+    const xml = buildCiiXml(data)
+    expect(xml).toContain('<ram:ID>urn:cen.eu:en16931:2017</ram:ID>')
+    expect(xml).toContain('<ram:TypeCode>380</ram:TypeCode>')
+    expect(xml).toContain('<ram:ID schemeID="0002">123456789</ram:ID>')
+    expect(xml).toContain('<ram:ID schemeID="0002">987654321</ram:ID>')
+    expect(xml).toContain('<ram:ID schemeID="VA">FR12123456789</ram:ID>')
+    expect(xml).toContain('<ram:BilledQuantity unitCode="DAY">2</ram:BilledQuantity>')
+    expect(xml).toContain('<ram:GrandTotalAmount>1200.00</ram:GrandTotalAmount>')
+    expect(xml).toContain('<udt:DateTimeString format="102">20250214</udt:DateTimeString>')
+    expect(xml).toContain('Support &amp; maintenance')
+  })
+
+  it('writes credit notes with positive amounts and the credited invoice', () => {
+    const xml = buildCiiXml(creditNote)
+    expect(xml).toContain('<ram:TypeCode>381</ram:TypeCode>')
+    expect(xml).toContain('<ram:GrandTotalAmount>120.00</ram:GrandTotalAmount>')
+    expect(xml).toContain('<ram:IssuerAssignedID>20250101</ram:IssuerAssignedID>')
+  })
+
+  it('flags the franchise exemption of a franchise invoice', () => {
+    const franchise = {
+      ...data,
+      invoice: { ...invoice, tvaRegime: 'franchise' },
+      issuer: { ...issuer, tvaNumber: null },
+      lines: lines.map((line) => ({ ...line, taxRate: '0.00' })),
+    }
+    const xml = buildCiiXml(franchise)
+    expect(xml).toContain('<ram:CategoryCode>E</ram:CategoryCode>')
+    expect(xml).toContain('<ram:ExemptionReasonCode>VATEX-FR-FRANCHISE</ram:ExemptionReasonCode>')
+    expect(xml).toContain('<ram:ID schemeID="FC">123456789</ram:ID>')
+  })
+
+  it('flags the reverse charge of an intra-EU invoice', () => {
+    const reverseCharge = {
+      ...data,
+      invoice: { ...invoice, tvaRegime: 'intra_eu' },
+      client: { ...data.client, country: 'DE', siret: null, tvaNumber: 'DE123456789' },
+      lines: lines.map((line) => ({ ...line, taxRate: '0.00' })),
+    }
+    const xml = buildCiiXml(reverseCharge)
+    expect(xml).toContain('<ram:CategoryCode>AE</ram:CategoryCode>')
+    expect(xml).toContain('<ram:ExemptionReasonCode>VATEX-EU-AE</ram:ExemptionReasonCode>')
+  })
+
+  it('throws the validation issues', () => {
+    expect(() => buildCiiXml({ ...data, lines: [] })).toThrow(EInvoiceValidationError)
+  })
+
+  it('adds the TVA total in euros to a foreign currency invoice', () => {
+    const xml = buildCiiXml({ ...data, invoice: { ...invoice, currency: 'USD', exchangeRate: '1.250000' } })
+    expect(xml).toContain('<ram:TaxCurrencyCode>EUR</ram:TaxCurrencyCode>')
+    expect(xml).toContain('<ram:InvoiceCurrencyCode>USD</ram:InvoiceCurrencyCode>')
+    expect(xml).toContain('<ram:TaxTotalAmount currencyID="USD">200.00</ram:TaxTotalAmount>')
+    expect(xml).toContain('<ram:TaxTotalAmount currencyID="EUR">160.00</ram:TaxTotalAmount>')
+  })
+})
+
+describe('buildUblXml', () => {
+  it('produces a UBL invoice', () => {
+    const xml = buildUblXml(data)
+    expect(xml).toContain('<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"')
+    expect(xml).toContain('<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>')
+    expect(xml).toContain('<cbc:DueDate>2025-02-14</cbc:DueDate>')
+    expect(xml).toContain('<cbc:EndpointID schemeID="0002">123456789</cbc:EndpointID>')
+    expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">1200.00</cbc:PayableAmount>')
+  })
+
+  it('produces a UBL credit note referencing the credited invoice', () => {
+    const xml = buildUblXml(creditNote)
+    expect(xml).toContain('<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"')
+    expect(xml).toContain('<cbc:CreditNoteTypeCode>381</cbc:CreditNoteTypeCode>')
+    expect(xml).toContain('<cbc:CreditedQuantity unitCode="DAY">1</cbc:CreditedQuantity>')
+    expect(xml).toContain('<cac:InvoiceDocumentReference><cbc:ID>20250101</cbc:ID>')
+    expect(xml).not.toContain('<cbc:DueDate>')
+  })
+
+  it('uses the invoice currency and adds the TVA total in euros', () => {
+    const xml = buildUblXml({ ...data, invoice: { ...invoice, currency: 'GBP', exchangeRate: '0.800000' } })
+    expect(xml).toContain('<cbc:DocumentCurrencyCode>GBP</cbc:DocumentCurrencyCode>')
+    expect(xml).toContain('<cbc:TaxCurrencyCode>EUR</cbc:TaxCurrencyCode>')
+    expect(xml).toContain('<cbc:PayableAmount currencyID="GBP">1200.00</cbc:PayableAmount>')
+    expect(xml).toContain('<cac:TaxTotal><cbc:TaxAmount currencyID="EUR">250.00</cbc:TaxAmount></cac:TaxTotal>')
+  })
+})
+
+// Any TrueType pair embeds; these are the ones suggested in .env.example
+const fontRegular = '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf'
+const fontBold = '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf'
+
+describe('renderFacturXPdf', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it.skipIf(!existsSync(fontRegular) || !existsSync(fontBold))('embeds the CII XML as a PDF/A-3 attachment', async () => {
+    vi.stubEnv('PDF_FONT_REGULAR', fontRegular)
+    vi.stubEnv('PDF_FONT_BOLD', fontBold)
+    const pdf = await renderFacturXPdf(data)
+    expect(pdf.subarray(0, 8).toString()).toBe('%PDF-1.7')
+    expect(pdf.toString('latin1')).toContain(FACTURX_FILENAME)
+    expect(pdf.toString('latin1')).toContain('/AFRelationship /Alternative')
+  })
+
+  it('refuses to fall back to the non-embedded standard fonts', async () => {
+    vi.stubEnv('PDF_FONT_REGULAR', '')
+    vi.stubEnv('PDF_FONT_BOLD', '')
+    await expect(renderFacturXPdf(data)).rejects.toBeInstanceOf(MissingPdfFontError)
+  })
+})
@@ -0,0 +1,525 @@
+import type { InvoicePdfData } from './invoice-pdf'
+import { buildLegalMentions, renderInvoicePdf } from './invoice-pdf'
+import { groupTaxByRate, roundCents } from './invoice-totals'
+import { toEur } from './currency'
+import { EU_COUNTRIES } from './tva-regimes'
+import { computeDueDate, describePaymentTerms, resolvePaymentTerms } from './payment-terms'
+
+// EN 16931 (directive 2014/55/EU) is the semantic model behind both Factur-X and UBL
+const EN16931_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017'
+
+// UNTDID 1001 document types
+const DOCUMENT_TYPE_CODES: Record<string, string> = {
+  invoice: '380',
+  credit_note: '381',
+}
+
+// ISO 6523 scheme for SIREN numbers
+const SIREN_SCHEME = '0002'
+
+// UN/ECE Recommendation 20 codes for the units typed on invoice lines
+const UNIT_CODES: Record<string, string> = {
+  h: 'HUR',
+  heure: 'HUR',
+  heures: 'HUR',
+  j: 'DAY',
+  jour: 'DAY',
+  jours: 'DAY',
+  mois: 'MON',
+  an: 'ANN',
+  km: 'KMT',
+  kg: 'KGM',
+}
+
+export class EInvoiceValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Facture électronique impossible : ${issues.join(' ; ')}`)
+  }
+}
+
+interface VatCategory {
+  code: 'S' | 'E' | 'AE' | 'G'
+  exemptionReason?: string
+  exemptionReasonCode?: string
+}
+
+interface EInvoiceLine {
+  position: number
+  description: string
+  quantity: number
+  unitCode: string
+  grossPrice: number
+  discountAmount: number
+  netPrice: number
+  amountHt: number
+  taxRate: number
+  category: VatCategory
+}
+
+interface EInvoiceModel {
+  number: string
+  typeCode: string
+  issueDate: string
+  dueDate: string | null
+  notes: string[]
+  seller: {
+    name: string
+    siren: string
+    vatNumber: string | null
+    address: string
+    postalCode: string
+    city: string
+    countryCode: string
+  }
+  buyer: {
+    name: string
+    siren: string | null
+    vatNumber: string | null
+    address: string | null
+    postalCode: string | null
+    city: string | null
+    countryCode: string
+  }
+  iban: string | null
+  bic: string | null
+  paymentTerms: string | null
+  precedingInvoice: { number: string; issueDate: string } | null
+  lines: EInvoiceLine[]
+  taxes: { rate: number; category: VatCategory; baseHt: number; taxAmount: number }[]
+  currency: string
+  totalHt: number
+  totalTax: number
+  // TVA total in euros (BT-111), only for invoices issued in another currency
+  totalTaxEur: number | null
+  totalTtc: number
+}
+
+// The issuer profile stores the country as free text ("France")
+export function toCountryCode(country: string | null | undefined): string | null {
+  if (!country) return null
+  const value = country.trim()
+  if (/^[A-Z]{2}$/.test(value)) return value
+  return value.toLowerCase() === 'france' ? 'FR' : null
+}
+
+function clientSiren(client: InvoicePdfData['client']): string | null {
+  return client.siren ?? client.siret?.slice(0, 9) ?? null
+}
+
+// The invoice TVA regime gives the reason for 0% lines
+function vatCategory(rate: number, data: InvoicePdfData): VatCategory {
+  if (rate > 0) return { code: 'S' }
+  switch (data.invoice.tvaRegime) {
+    case 'franchise':
+      return { code: 'E', exemptionReason: 'TVA non applicable, art. 293 B du CGI', exemptionReasonCode: 'VATEX-FR-FRANCHISE' }
+    case 'intra_eu':
+      return { code: 'AE', exemptionReason: 'Autoliquidation', exemptionReasonCode: 'VATEX-EU-AE' }
+    case 'export':
+      return { code: 'G', exemptionReason: 'Exportation hors UE', exemptionReasonCode: 'VATEX-EU-G' }
+    default:
+      return { code: 'E', exemptionReason: 'Exonération de TVA' }
+  }
+}
+
+// Mandatory data for an EN 16931 invoice, checked before anything is generated
+export function validateEInvoice(data: InvoicePdfData): string[] {
+  const { invoice, issuer, client, lines, creditedInvoice } = data
+  const issues: string[] = []
+
+  if (!DOCUMENT_TYPE_CODES[invoice.type]) {
+    issues.push('type de document non pris en charge')
+  }
+  if (!invoice.invoiceNumber) {
+    issues.push('numéro de facture manquant')
+  }
+  if (lines.length === 0) {
+    issues.push('la facture ne contient aucune ligne')
+  }
+  if (invoice.type === 'credit_note' && !creditedInvoice?.invoiceNumber) {
+    issues.push('facture d\'origine de l\'avoir introuvable')
+  }
+
+  if (!/^\d{14}$/.test(issuer.siret)) {
+    issues.push('SIRET de l\'émetteur invalide')
+  }
+  if (!toCountryCode(issuer.country)) {
+    issues.push('pays de l\'émetteur non reconnu (code ISO attendu, ex : FR)')
+  }
+  if (issuer.tvaNumber && !/^[A-Z]{2}[0-9A-Z]{2,13}$/.test(issuer.tvaNumber)) {
+    issues.push('numéro de TVA de l\'émetteur invalide')
+  }
+  if (!issuer.tvaNumber && lines.some((line) => parseFloat(line.taxRate) > 0)) {
+    issues.push('numéro de TVA de l\'émetteur requis pour facturer de la TVA')
+  }
+
+  const clientCountry = client.country ?? 'FR'
+  if (clientCountry === 'FR' && !clientSiren(client)) {
+    issues.push('SIREN du client requis pour un client français')
+  }
+  if (clientCountry !== 'FR' && EU_COUNTRIES.has(clientCountry) && !client.tvaNumber) {
+    issues.push('numéro de TVA intracommunautaire du client requis')
+  }
+  if (client.tvaNumber && !/^[A-Z]{2}[0-9A-Z]{2,13}$/.test(client.tvaNumber)) {
+    issues.push('numéro de TVA du client invalide')
+  }
+
+  return issues
+}
+
+// Credit notes are stored negated; EN 16931 expects positive amounts with type code 381
+function buildModel(data: InvoicePdfData): EInvoiceModel {
+  const issues = validateEInvoice(data)
+  if (issues.length > 0) {
+    throw new EInvoiceValidationError(issues)
+  }
+
+  const { invoice, issuer, client, creditedInvoice } = data
+  const sign = invoice.type === 'credit_note' ? -1 : 1
+  const paymentTerms = resolvePaymentTerms(client, issuer)
+
+  const lines = data.lines.map((line, index) => {
+    const grossPrice = parseFloat(line.unitPrice) * sign
+    const discountAmount = roundCents(grossPrice * parseFloat(line.discount) / 100)
+    const taxRate = parseFloat(line.taxRate)
+    return {
+      position: index + 1,
+      description: line.description,
+      quantity: parseFloat(line.quantity),
+      unitCode: (line.unit && UNIT_CODES[line.unit.trim().toLowerCase()]) || 'C62',
+      grossPrice,
+      discountAmount,
+      netPrice: roundCents(grossPrice - discountAmount),
+      amountHt: parseFloat(line.amountHt) * sign,
+      taxRate,
+      category: vatCategory(taxRate, data),
+    }
+  })
+
+  const taxes = groupTaxByRate(lines.map((line) => ({ taxRate: line.taxRate, amountHt: line.amountHt })))
+    .map((group) => ({ ...group, category: vatCategory(group.rate, data) }))
+  const totalHt = roundCents(taxes.reduce((sum, group) => sum + group.baseHt, 0))
+  const totalTax = roundCents(taxes.reduce((sum, group) => sum + group.taxAmount, 0))
+  const isCreditNote = invoice.type === 'credit_note'
+
+  return {
+    number: invoice.invoiceNumber!,
+    typeCode: DOCUMENT_TYPE_CODES[invoice.type],
+    issueDate: invoice.invoiceDate,
+    dueDate: isCreditNote ? null : invoice.dueDate ?? computeDueDate(invoice.invoiceDate, paymentTerms),
+    notes: [...(invoice.note ? [invoice.note] : []), ...buildLegalMentions(invoice, issuer, paymentTerms)],
+    seller: {
+      name: issuer.companyName,
+      siren: issuer.siret.slice(0, 9),
+      vatNumber: issuer.tvaNumber,
+      address: issuer.address,
+      postalCode: issuer.postalCode,
+      city: issuer.city,
+      countryCode: toCountryCode(issuer.country)!,
+    },
+    buyer: {
+      name: client.name,
+      siren: clientSiren(client),
+      vatNumber: client.tvaNumber ?? null,
+      address: client.address ?? null,
+      postalCode: client.postalCode ?? null,
+      city: client.city ?? null,
+      countryCode: client.country ?? 'FR',
+    },
+    iban: isCreditNote ? null : issuer.iban,
+    bic: isCreditNote ? null : issuer.bic,
+    paymentTerms: isCreditNote ? null : describePaymentTerms(paymentTerms),
+    precedingInvoice: isCreditNote && creditedInvoice
+      ? { number: creditedInvoice.invoiceNumber!, issueDate: creditedInvoice.invoiceDate }
+      : null,
+    lines,
+    taxes,
+    currency: invoice.currency,
+    totalHt,
+    totalTax,
+    totalTaxEur: invoice.currency === 'EUR' ? null : toEur(totalTax, parseFloat(invoice.exchangeRate)),
+    totalTtc: roundCents(totalHt + totalTax),
+  }
+}
+
+// ─── XML helpers ────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function element(name: string, value: string | number | null | undefined, attributes = ''): string {
+  if (value === null || value === undefined || value === '') return ''
+  return `<${name}${attributes ? ` ${attributes}` : ''}>${escapeXml(String(value))}</${name}>`
+}
+
+function amount(value: number): string {
+  return value.toFixed(2)
+}
+
+function quantity(value: number): string {
+  return Number(value.toFixed(4)).toString()
+}
+
+// UN/CEFACT format 102 (CCYYMMDD)
+function ciiDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+// ─── Factur-X (UN/CEFACT CII D16B, EN 16931 profile) ───────────────
+
+function ciiTax(tax: { category: VatCategory; rate: number; baseHt?: number; taxAmount?: number }): string {
+  return [
+    '<ram:ApplicableTradeTax>',
+    tax.taxAmount !== undefined ? element('ram:CalculatedAmount', amount(tax.taxAmount)) : '',
+    '<ram:TypeCode>VAT</ram:TypeCode>',
+    tax.taxAmount !== undefined ? element('ram:ExemptionReason', tax.category.exemptionReason) : '',
+    tax.baseHt !== undefined ? element('ram:BasisAmount', amount(tax.baseHt)) : '',
+    element('ram:CategoryCode', tax.category.code),
+    tax.taxAmount !== undefined ? element('ram:ExemptionReasonCode', tax.category.exemptionReasonCode) : '',
+    element('ram:RateApplicablePercent', quantity(tax.rate)),
+    '</ram:ApplicableTradeTax>',
+  ].join('')
+}
+
+function ciiParty(tag: string, party: EInvoiceModel['seller'] | EInvoiceModel['buyer']): string {
+  return [
+    `<ram:${tag}>`,
+    element('ram:Name', party.name),
+    party.siren
+      ? `<ram:SpecifiedLegalOrganization>${element('ram:ID', party.siren, `schemeID="${SIREN_SCHEME}"`)}</ram:SpecifiedLegalOrganization>`
+      : '',
+    '<ram:PostalTradeAddress>',
+    element('ram:PostcodeCode', party.postalCode),
+    element('ram:LineOne', party.address),
+    element('ram:CityName', party.city),
+    element('ram:CountryID', party.countryCode),
+    '</ram:PostalTradeAddress>',
+    party.siren
+      ? `<ram:URIUniversalCommunication>${element('ram:URIID', party.siren, `schemeID="${SIREN_SCHEME}"`)}</ram:URIUniversalCommunication>`
+      : '',
+    party.vatNumber
+      ? `<ram:SpecifiedTaxRegistration>${element('ram:ID', party.vatNumber, 'schemeID="VA"')}</ram:SpecifiedTaxRegistration>`
+      : party.siren && tag === 'SellerTradeParty'
+        ? `<ram:SpecifiedTaxRegistration>${element('ram:ID', party.siren, 'schemeID="FC"')}</ram:SpecifiedTaxRegistration>`
+        : '',
+    `</ram:${tag}>`,
+  ].join('')
+}
+
+export function buildCiiXml(data: InvoicePdfData): string {
+  const model = buildModel(data)
+
+  const lineItems = model.lines.map((line) => [
+    '<ram:IncludedSupplyChainTradeLineItem>',
+    `<ram:AssociatedDocumentLineDocument>${element('ram:LineID', line.position)}</ram:AssociatedDocumentLineDocument>`,
+    `<ram:SpecifiedTradeProduct>${element('ram:Name', line.description)}</ram:SpecifiedTradeProduct>`,
+    '<ram:SpecifiedLineTradeAgreement>',
+    '<ram:GrossPriceProductTradePrice>',
+    element('ram:ChargeAmount', amount(line.grossPrice)),
+    line.discountAmount > 0
+      ? `<ram:AppliedTradeAllowanceCharge><ram:ChargeIndicator><udt:Indicator>false</udt:Indicator></ram:ChargeIndicator>${element('ram:ActualAmount', amount(line.discountAmount))}</ram:AppliedTradeAllowanceCharge>`
+      : '',
+    '</ram:GrossPriceProductTradePrice>',
+    `<ram:NetPriceProductTradePrice>${element('ram:ChargeAmount', amount(line.netPrice))}</ram:NetPriceProductTradePrice>`,
+    '</ram:SpecifiedLineTradeAgreement>',
+    `<ram:SpecifiedLineTradeDelivery>${element('ram:BilledQuantity', quantity(line.quantity), `unitCode="${line.unitCode}"`)}</ram:SpecifiedLineTradeDelivery>`,
+    '<ram:SpecifiedLineTradeSettlement>',
+    ciiTax({ category: line.category, rate: line.taxRate }),
+    `<ram:SpecifiedTradeSettlementLineMonetarySummation>${element('ram:LineTotalAmount', amount(line.amountHt))}</ram:SpecifiedTradeSettlementLineMonetarySummation>`,
+    '</ram:SpecifiedLineTradeSettlement>',
+    '</ram:IncludedSupplyChainTradeLineItem>',
+  ].join(''))
+
+  const paymentMeans = model.iban
+    ? [
+      '<ram:SpecifiedTradeSettlementPaymentMeans>',
+      '<ram:TypeCode>58</ram:TypeCode>',
+      `<ram:PayeePartyCreditorFinancialAccount>${element('ram:IBANID', model.iban)}</ram:PayeePartyCreditorFinancialAccount>`,
+      model.bic ? `<ram:PayeeSpecifiedCreditorFinancialInstitution>${element('ram:BICID', model.bic)}</ram:PayeeSpecifiedCreditorFinancialInstitution>` : '',
+      '</ram:SpecifiedTradeSettlementPaymentMeans>',
+    ].join('')
+    : ''
+
+  const paymentTerms = model.dueDate
+    ? [
+      '<ram:SpecifiedTradePaymentTerms>',
+      element('ram:Description', model.paymentTerms),
+      `<ram:DueDateDateTime><udt:DateTimeString format="102">${ciiDate(model.dueDate)}</udt:DateTimeString></ram:DueDateDateTime>`,
+      '</ram:SpecifiedTradePaymentTerms>',
+    ].join('')
+    : ''
+
+  const precedingInvoice = model.precedingInvoice
+    ? [
+      '<ram:InvoiceReferencedDocument>',
+      element('ram:IssuerAssignedID', model.precedingInvoice.number),
+      `<ram:FormattedIssueDateTime><qdt:DateTimeString format="102">${ciiDate(model.precedingInvoice.issueDate)}</qdt:DateTimeString></ram:FormattedIssueDateTime>`,
+      '</ram:InvoiceReferencedDocument>',
+    ].join('')
+    : ''
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100" xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100" xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100" xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">',
+    '<rsm:ExchangedDocumentContext>',
+    `<ram:GuidelineSpecifiedDocumentContextParameter>${element('ram:ID', EN16931_CUSTOMIZATION_ID)}</ram:GuidelineSpecifiedDocumentContextParameter>`,
+    '</rsm:ExchangedDocumentContext>',
+    '<rsm:ExchangedDocument>',
+    element('ram:ID', model.number),
+    element('ram:TypeCode', model.typeCode),
+    `<ram:IssueDateTime><udt:DateTimeString format="102">${ciiDate(model.issueDate)}</udt:DateTimeString></ram:IssueDateTime>`,
+    ...model.notes.map((note) => `<ram:IncludedNote>${element('ram:Content', note)}</ram:IncludedNote>`),
+    '</rsm:ExchangedDocument>',
+    '<rsm:SupplyChainTradeTransaction>',
+    ...lineItems,
+    '<ram:ApplicableHeaderTradeAgreement>',
+    ciiParty('SellerTradeParty', model.seller),
+    ciiParty('BuyerTradeParty', model.buyer),
+    '</ram:ApplicableHeaderTradeAgreement>',
+    '<ram:ApplicableHeaderTradeDelivery/>',
+    '<ram:ApplicableHeaderTradeSettlement>',
+    model.totalTaxEur !== null ? '<ram:TaxCurrencyCode>EUR</ram:TaxCurrencyCode>' : '',
+    element('ram:InvoiceCurrencyCode', model.currency),
+    paymentMeans,
+    ...model.taxes.map((tax) => ciiTax(tax)),
+    paymentTerms,
+    '<ram:SpecifiedTradeSettlementHeaderMonetarySummation>',
+    element('ram:LineTotalAmount', amount(model.totalHt)),
+    element('ram:TaxBasisTotalAmount', amount(model.totalHt)),
+    element('ram:TaxTotalAmount', amount(model.totalTax), `currencyID="${model.currency}"`),
+    model.totalTaxEur !== null ? element('ram:TaxTotalAmount', amount(model.totalTaxEur), 'currencyID="EUR"') : '',
+    element('ram:GrandTotalAmount', amount(model.totalTtc)),
+    element('ram:DuePayableAmount', amount(model.totalTtc)),
+    '</ram:SpecifiedTradeSettlementHeaderMonetarySummation>',
+    precedingInvoice,
+    '</ram:ApplicableHeaderTradeSettlement>',
+    '</rsm:SupplyChainTradeTransaction>',
+    '</rsm:CrossIndustryInvoice>',
+  ].join('\n')
+}
+
+export function renderFacturXPdf(data: InvoicePdfData): Promise<Buffer> {
+  return renderInvoicePdf(data, { facturXml: buildCiiXml(data) })
+}
+
+// ─── UBL 2.1 ────────────────────────────────────────────────────────
+
+function ublTaxCategory(tag: string, category: VatCategory, rate: number, withReason: boolean): string {
+  return [
+    `<cac:${tag}>`,
+    element('cbc:ID', category.code),
+    element('cbc:Percent', quantity(rate)),
+    withReason ? element('cbc:TaxExemptionReasonCode', category.exemptionReasonCode) : '',
+    withReason ? element('cbc:TaxExemptionReason', category.exemptionReason) : '',
+    '<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>',
+    `</cac:${tag}>`,
+  ].join('')
+}
+
+function ublParty(tag: string, party: EInvoiceModel['seller'] | EInvoiceModel['buyer']): string {
+  return [
+    `<cac:${tag}>`,
+    '<cac:Party>',
+    party.siren ? element('cbc:EndpointID', party.siren, `schemeID="${SIREN_SCHEME}"`) : '',
+    `<cac:PartyName>${element('cbc:Name', party.name)}</cac:PartyName>`,
+    '<cac:PostalAddress>',
+    element('cbc:StreetName', party.address),
+    element('cbc:CityName', party.city),
+    element('cbc:PostalZone', party.postalCode),
+    `<cac:Country>${element('cbc:IdentificationCode', party.countryCode)}</cac:Country>`,
+    '</cac:PostalAddress>',
+    party.vatNumber
+      ? `<cac:PartyTaxScheme>${element('cbc:CompanyID', party.vatNumber)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : '',
+    '<cac:PartyLegalEntity>',
+    element('cbc:RegistrationName', party.name),
+    party.siren ? element('cbc:CompanyID', party.siren, `schemeID="${SIREN_SCHEME}"`) : '',
+    '</cac:PartyLegalEntity>',
+    '</cac:Party>',
+    `</cac:${tag}>`,
+  ].join('')
+}
+
+export function buildUblXml(data: InvoicePdfData): string {
+  const model = buildModel(data)
+  const isCreditNote = model.typeCode === '381'
+  const root = isCreditNote ? 'CreditNote' : 'Invoice'
+  const currency = `currencyID="${model.currency}"`
+
+  const lines = model.lines.map((line) => [
+    `<cac:${root}Line>`,
+    element('cbc:ID', line.position),
+    element(isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', quantity(line.quantity), `unitCode="${line.unitCode}"`),
+    element('cbc:LineExtensionAmount', amount(line.amountHt), currency),
+    '<cac:Item>',
+    element('cbc:Name', line.description),
+    ublTaxCategory('ClassifiedTaxCategory', line.category, line.taxRate, false),
+    '</cac:Item>',
+    '<cac:Price>',
+    element('cbc:PriceAmount', amount(line.netPrice), currency),
+    line.discountAmount > 0
+      ? `<cac:AllowanceCharge><cbc:ChargeIndicator>false</cbc:ChargeIndicator>${element('cbc:Amount', amount(line.discountAmount), currency)}${element('cbc:BaseAmount', amount(line.grossPrice), currency)}</cac:AllowanceCharge>`
+      : '',
+    '</cac:Price>',
+    `</cac:${root}Line>`,
+  ].join(''))
+
+  const paymentMeans = model.iban
+    ? [
+      '<cac:PaymentMeans>',
+      '<cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>',
+      '<cac:PayeeFinancialAccount>',
+      element('cbc:ID', model.iban),
+      model.bic ? `<cac:FinancialInstitutionBranch>${element('cbc:ID', model.bic)}</cac:FinancialInstitutionBranch>` : '',
+      '</cac:PayeeFinancialAccount>',
+      '</cac:PaymentMeans>',
+    ].join('')
+    : ''
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">`,
+    element('cbc:CustomizationID', EN16931_CUSTOMIZATION_ID),
+    element('cbc:ID', model.number),
+    element('cbc:IssueDate', model.issueDate),
+    // UBL 2.1 credit notes have no due date element
+    isCreditNote ? '' : element('cbc:DueDate', model.dueDate),
+    element(isCreditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', model.typeCode),
+    ...model.notes.map((note) => element('cbc:Note', note)),
+    element('cbc:DocumentCurrencyCode', model.currency),
+    model.totalTaxEur !== null ? '<cbc:TaxCurrencyCode>EUR</cbc:TaxCurrencyCode>' : '',
+    model.precedingInvoice
+      ? `<cac:BillingReference><cac:InvoiceDocumentReference>${element('cbc:ID', model.precedingInvoice.number)}${element('cbc:IssueDate', model.precedingInvoice.issueDate)}</cac:InvoiceDocumentReference></cac:BillingReference>`
+      : '',
+    ublParty('AccountingSupplierParty', model.seller),
+    ublParty('AccountingCustomerParty', model.buyer),
+    paymentMeans,
+    model.paymentTerms ? `<cac:PaymentTerms>${element('cbc:Note', model.paymentTerms)}</cac:PaymentTerms>` : '',
+    '<cac:TaxTotal>',
+    element('cbc:TaxAmount', amount(model.totalTax), currency),
+    ...model.taxes.map((tax) => [
+      '<cac:TaxSubtotal>',
+      element('cbc:TaxableAmount', amount(tax.baseHt), currency),
+      element('cbc:TaxAmount', amount(tax.taxAmount), currency),
+      ublTaxCategory('TaxCategory', tax.category, tax.rate, true),
+      '</cac:TaxSubtotal>',
+    ].join('')),
+    '</cac:TaxTotal>',
+    model.totalTaxEur !== null
+      ? `<cac:TaxTotal>${element('cbc:TaxAmount', amount(model.totalTaxEur), 'currencyID="EUR"')}</cac:TaxTotal>`
+      : '',
+    '<cac:LegalMonetaryTotal>',
+    element('cbc:LineExtensionAmount', amount(model.totalHt), currency),
+    element('cbc:TaxExclusiveAmount', amount(model.totalHt), currency),
+    element('cbc:TaxInclusiveAmount', amount(model.totalTtc), currency),
+    element('cbc:PayableAmount', amount(model.totalTtc), currency),
+    '</cac:LegalMonetaryTotal>',
+    ...lines,
+    `</${root}>`,
+  ].filter(Boolean).join('\n')
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildFiscalCalendar,
+  calendarYears,
+  incomeTaxReturnWindow,
+  toICalendar,
+} from './fiscal-calendar'
+import type { FiscalCalendarInput, FiscalCalendarYear } from './fiscal-calendar'
+import { ca12Installments } from './tva-periods'
+
+function year(value: number, overrides: Partial<FiscalCalendarYear> = {}): FiscalCalendarYear {
+  return { year: value, urssafPeriodicity: 'quarterly', tva: null, versementLiberatoire: false, ...overrides }
+}
+
+const input: FiscalCalendarInput = {
+  years: calendarYears('2025-01-01', '2025-12-31').map((value) => year(value)),
+  businessStartDate: '2020-03-01',
+  urssafPayments: [],
+  tvaPayments: [],
+  from: '2025-01-01',
+  to: '2025-12-31',
+  today: '2025-06-01',
+}
+
+describe('buildFiscalCalendar', () => {
+  it('lists the URSSAF declarations due in the range with their payment status', () => {
+    const events = buildFiscalCalendar({
+      ...input,
+      urssafPayments: [
+        { key: '2024-T4', amount: 1200, status: 'paid' },
+        { key: '2025-T2', amount: 900, status: 'pending' },
+      ],
+    }).filter((event) => event.type === 'urssaf')
+
+    expect(events.map((event) => [event.id, event.date, event.status, event.amount])).toEqual([
+      ['urssaf-2024-T4', '2025-01-31', 'paid', '1200.00'],
+      ['urssaf-2025-T1', '2025-04-30', 'overdue', null],
+      ['urssaf-2025-T2', '2025-07-31', 'pending', '900.00'],
+      ['urssaf-2025-T3', '2025-10-31', 'upcoming', null],
+    ])
+  })
+
+  it('adds the TVA returns and installments once TVA is charged', () => {
+    const events = buildFiscalCalendar({
+      ...input,
+      years: [
+        year(2024),
+        year(2025, { tva: { regime: 'annual', from: '2025-01-01', installments: ca12Installments(2025, 4000) } }),
+      ],
+      to: '2026-12-31',
+      tvaPayments: [{ key: '2025-07', amount: 2200, status: 'paid' }],
+    }).filter((event) => event.type === 'tva')
+
+    expect(events.map((event) => [event.id, event.date, event.status, event.amount])).toEqual([
+      ['tva-installment-2025-07', '2025-07-24', 'paid', '2200.00'],
+      ['tva-installment-2025-12', '2025-12-24', 'upcoming', '1600.00'],
+      ['tva-2025', '2026-05-05', 'upcoming', null],
+    ])
+  })
+
+  it('starts the TVA returns with the period TVA is charged from', () => {
+    const events = buildFiscalCalendar({
+      ...input,
+      years: [year(2025, { tva: { regime: 'monthly', from: '2025-10-12', installments: [] } })],
+      to: '2026-01-31',
+    }).filter((event) => event.type === 'tva')
+
+    expect(events.map((event) => event.id)).toEqual(['tva-2025-10', 'tva-2025-11', 'tva-2025-12'])
+  })
+
+  it('waives the CFE and the installments at the creation of the business', () => {
+    const events = buildFiscalCalendar({
+      ...input,
+      years: [year(2025), year(2026), year(2027)],
+      businessStartDate: '2025-05-01',
+      from: '2025-01-01',
+      to: '2027-12-31',
+    })
+
+    expect(events.filter((event) => event.type === 'cfe').map((event) => [event.id, event.date])).toEqual([
+      ['cfe-declaration-2025', '2025-12-31'],
+      ['cfe-2026', '2026-12-15'],
+      ['cfe-2027', '2027-12-15'],
+    ])
+    expect(events.find((event) => event.type === 'income_tax')?.id).toBe('income-tax-2026-09')
+    expect(events.filter((event) => event.type === 'urssaf')[0].id).toBe('urssaf-2025-T2')
+  })
+
+  it('drops the income tax installments under the versement libératoire', () => {
+    const events = buildFiscalCalendar({
+      ...input,
+      years: [year(2024, { versementLiberatoire: true }), year(2025, { versementLiberatoire: true })],
+    })
+    expect(events.some((event) => event.type === 'income_tax')).toBe(false)
+    expect(events.find((event) => event.type === 'income_tax_return')).toMatchObject({
+      id: 'income-tax-return-2024',
+      startDate: '2025-04-10',
+      date: '2025-05-22',
+      status: 'past',
+    })
+  })
+})
+
+describe('incomeTaxReturnWindow', () => {
+  it('moves the latest known window to the years not published yet', () => {
+    expect(incomeTaxReturnWindow(2027)).toEqual({
+      opens: '2027-04-10',
+      deadlines: ['2027-05-22', '2027-05-28', '2027-06-05'],
+    })
+  })
+})
+
+describe('toICalendar', () => {
+  const [event] = buildFiscalCalendar({ ...input, from: '2025-10-01' }).filter((e) => e.type === 'urssaf')
+  const ics = toICalendar([event], { name: 'Échéances fiscales', uidSuffix: 'user-1@business-finance', now: new Date('2025-06-01T08:00:00Z') })
+
+  it('writes all-day events with a reminder and CRLF line endings', () => {
+    const lines = ics.split('\r\n')
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('UID:urssaf-2025-T3-user-1@business-finance')
+    expect(lines).toContain('DTSTAMP:20250601T080000Z')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20251031')
+    expect(lines).toContain('DTEND;VALUE=DATE:20251101')
+    expect(lines).toContain('TRIGGER:-P3D')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('escapes text and folds lines at 75 octets', () => {
+    const lines = ics.split('\r\n')
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true)
+    const description = ics.substring(ics.indexOf('DESCRIPTION:'), ics.indexOf('\r\nCATEGORIES'))
+    expect(description.replace(/\r\n /g, '')).toContain('Statut : à venir')
+    expect(description).toContain('\\n')
+  })
+})
@@ -0,0 +1,375 @@
+import { urssafPeriodsOfYear } from './urssaf-periods'
+import type { UrssafPeriodicity } from './urssaf-periods'
+import { monthsOfPeriod, tvaPeriodsOfYear, TVA_FILING_REGIME_LABELS } from './tva-periods'
+import type { TvaFilingRegime, TvaInstallment } from './tva-periods'
+
+// Due dates of the micro-entrepreneur: URSSAF declarations, TVA returns once the franchise en base
+// no longer applies, CFE, income tax installments (prélèvement à la source) and the annual return
+
+export type FiscalEventType = 'urssaf' | 'tva' | 'cfe' | 'income_tax' | 'income_tax_return'
+
+// Recorded payments are paid or pending; deadlines without one are upcoming or overdue, and
+// 'past' once over for those the app does not track (CFE, income tax installments, returns)
+export type FiscalEventStatus = 'paid' | 'pending' | 'upcoming' | 'overdue' | 'past'
+
+export interface FiscalEvent {
+  id: string // Stable across feeds, e.g. urssaf-2025-T1
+  type: FiscalEventType
+  title: string
+  description: string
+  date: string // Due date, or the last day of a filing window
+  startDate: string | null // First day of a filing window
+  amount: string | null // Recorded or computed amount
+  status: FiscalEventStatus
+}
+
+export interface FiscalCalendarYear {
+  year: number
+  urssafPeriodicity: UrssafPeriodicity
+  // TVA returns, from the first day TVA is charged; null while the franchise en base applies
+  tva: { regime: TvaFilingRegime; from: string; installments: TvaInstallment[] } | null
+  versementLiberatoire: boolean // Income tax paid with the URSSAF declarations, no installments
+}
+
+export interface RecordedPayment {
+  key: string // URSSAF period key, or the YYYY-MM a TVA payment is recorded under
+  amount: number
+  status: 'pending' | 'paid'
+}
+
+export interface FiscalCalendarInput {
+  years: FiscalCalendarYear[]
+  businessStartDate: string | null
+  urssafPayments: RecordedPayment[]
+  tvaPayments: RecordedPayment[]
+  from: string
+  to: string
+  today: string
+}
+
+// Online filing of the 2042-C-PRO per filing year: opening, then the deadline of each
+// department zone (01 to 19, 20 to 54, 55 to 976)
+export const INCOME_TAX_RETURN_WINDOWS: Record<number, { opens: string; deadlines: [string, string, string] }> = {
+  2023: { opens: '2023-04-13', deadlines: ['2023-05-25', '2023-06-01', '2023-06-08'] },
+  2024: { opens: '2024-04-11', deadlines: ['2024-05-23', '2024-05-30', '2024-06-06'] },
+  2025: { opens: '2025-04-10', deadlines: ['2025-05-22', '2025-05-28', '2025-06-05'] },
+}
+
+// CFE is due on 15 December, from the year following the creation of the business
+const CFE_DUE_MONTH = 12
+const CFE_DUE_DAY = 15
+
+// Income tax installments on business income are taken on the 15th of each month
+const INCOME_TAX_INSTALLMENT_DAY = 15
+
+const MONTH_NAMES = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+]
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+// A deadline falling on a weekend moves to the next Monday
+function nextWeekday(year: number, monthIndex: number, day: number): string {
+  const date = new Date(Date.UTC(year, monthIndex, day))
+  const dayOfWeek = date.getUTCDay()
+  if (dayOfWeek === 6) date.setUTCDate(date.getUTCDate() + 2)
+  if (dayOfWeek === 0) date.setUTCDate(date.getUTCDate() + 1)
+  return formatDate(date)
+}
+
+function frenchDate(date: string): string {
+  const [, month, day] = date.split('-').map(Number)
+  return `${day === 1 ? '1er' : day} ${MONTH_NAMES[month - 1]}`
+}
+
+// Filing window of a year, the latest known dates moved to that year when not published yet
+export function incomeTaxReturnWindow(filingYear: number): { opens: string; deadlines: [string, string, string] } {
+  const years = Object.keys(INCOME_TAX_RETURN_WINDOWS).map(Number).sort((a, b) => a - b)
+  if (INCOME_TAX_RETURN_WINDOWS[filingYear]) return INCOME_TAX_RETURN_WINDOWS[filingYear]
+  const known = years.filter((knownYear) => knownYear <= filingYear)
+  const reference = INCOME_TAX_RETURN_WINDOWS[known.length > 0 ? known[known.length - 1] : years[0]]
+  const shift = (date: string) => `${filingYear}${date.substring(4)}`
+  return {
+    opens: shift(reference.opens),
+    deadlines: reference.deadlines.map(shift) as [string, string, string],
+  }
+}
+
+// Years whose deadlines can fall between two dates: December periods are due the next year
+export function calendarYears(from: string, to: string): number[] {
+  const first = Number(from.substring(0, 4)) - 1
+  const last = Number(to.substring(0, 4))
+  return Array.from({ length: last - first + 1 }, (_, index) => first + index)
+}
+
+function paymentsOf(payments: RecordedPayment[], keys: string[]) {
+  const matching = payments.filter((payment) => keys.includes(payment.key))
+  return {
+    paid: matching.filter((payment) => payment.status === 'paid'),
+    pending: matching.filter((payment) => payment.status === 'pending'),
+    total: matching.reduce((sum, payment) => sum + payment.amount, 0),
+  }
+}
+
+// Status of a deadline the app records payments for
+function trackedStatus(payments: ReturnType<typeof paymentsOf>, dueDate: string, today: string): FiscalEventStatus {
+  if (payments.paid.length > 0 && payments.pending.length === 0) return 'paid'
+  if (payments.pending.length > 0) return 'pending'
+  return today > dueDate ? 'overdue' : 'upcoming'
+}
+
+function untrackedStatus(dueDate: string, today: string): FiscalEventStatus {
+  return today > dueDate ? 'past' : 'upcoming'
+}
+
+function urssafEvents(year: FiscalCalendarYear, input: FiscalCalendarInput): FiscalEvent[] {
+  return urssafPeriodsOfYear(year.year, year.urssafPeriodicity)
+    .filter((period) => !input.businessStartDate || period.endDate >= input.businessStartDate)
+    .map((period) => {
+      const payments = paymentsOf(input.urssafPayments, [period.key])
+      return {
+        id: `urssaf-${period.key}`,
+        type: 'urssaf' as const,
+        title: `Déclaration Urssaf ${period.label}`,
+        description: `Déclaration et paiement des cotisations sur le chiffre d'affaires encaissé du ${frenchDate(period.startDate)} au ${frenchDate(period.endDate)} ${period.year}`,
+        date: period.dueDate,
+        startDate: null,
+        amount: payments.total > 0 ? payments.total.toFixed(2) : null,
+        status: trackedStatus(payments, period.dueDate, input.today),
+      }
+    })
+}
+
+function tvaEvents(year: FiscalCalendarYear, input: FiscalCalendarInput): FiscalEvent[] {
+  if (!year.tva) return []
+  const { regime, from, installments } = year.tva
+
+  const installmentEvents = installments
+    .filter((installment) => installment.dueDate >= from)
+    .map((installment) => {
+      const payments = paymentsOf(input.tvaPayments, [installment.key])
+      return {
+        id: `tva-installment-${installment.key}`,
+        type: 'tva' as const,
+        title: `TVA : ${installment.label.toLowerCase()} ${year.year}`,
+        description: `Acompte de ${installment.rate} % de la TVA due au titre de ${year.year - 1} (régime simplifié)`,
+        date: installment.dueDate,
+        startDate: null,
+        amount: (payments.total > 0 ? payments.total : installment.amount).toFixed(2),
+        status: trackedStatus(payments, installment.dueDate, input.today),
+      }
+    })
+
+  const returnEvents = tvaPeriodsOfYear(year.year, regime)
+    .filter((period) => period.endDate >= from)
+    .map((period) => {
+      // The CA12 balance is recorded in the month it is due
+      const payments = paymentsOf(
+        input.tvaPayments,
+        period.form === 'CA12' ? [period.dueDate.substring(0, 7)] : monthsOfPeriod(period)
+      )
+      return {
+        id: `tva-${period.key}`,
+        type: 'tva' as const,
+        title: `Déclaration de TVA ${period.form} ${period.label}`,
+        description: `${TVA_FILING_REGIME_LABELS[regime]} : déclaration et paiement de la TVA due du ${frenchDate(period.startDate)} au ${frenchDate(period.endDate)} ${period.year}`,
+        date: period.dueDate,
+        startDate: null,
+        amount: payments.total > 0 ? payments.total.toFixed(2) : null,
+        status: trackedStatus(payments, period.dueDate, input.today),
+      }
+    })
+
+  return [...installmentEvents, ...returnEvents]
+}
+
+function cfeEvents(year: FiscalCalendarYear, input: FiscalCalendarInput): FiscalEvent[] {
+  const startYear = input.businessStartDate ? Number(input.businessStartDate.substring(0, 4)) : null
+  if (startYear !== null && year.year < startYear) return []
+
+  // The creation year only calls for the initial declaration, the CFE itself being waived
+  if (startYear === year.year) {
+    const date = `${year.year}-12-31`
+    return [{
+      id: `cfe-declaration-${year.year}`,
+      type: 'cfe',
+      title: 'Déclaration initiale de CFE (1447-C-SD)',
+      description: 'Déclaration des locaux et de l\'activité au service des impôts des entreprises, la CFE n\'étant pas due l\'année de création',
+      date,
+      startDate: null,
+      amount: null,
+      status: untrackedStatus(date, input.today),
+    }]
+  }
+
+  const date = nextWeekday(year.year, CFE_DUE_MONTH - 1, CFE_DUE_DAY)
+  return [{
+    id: `cfe-${year.year}`,
+    type: 'cfe',
+    title: `Cotisation foncière des entreprises (CFE) ${year.year}`,
+    description: 'Paiement de la CFE sur l\'espace professionnel impots.gouv.fr (avis disponible en novembre)',
+    date,
+    startDate: null,
+    amount: null,
+    status: untrackedStatus(date, input.today),
+  }]
+}
+
+// Installments are computed from the last declared income: they start in September of the year
+// following the creation, after the first return, and the versement libératoire replaces them
+function incomeTaxInstallmentEvents(year: FiscalCalendarYear, input: FiscalCalendarInput): FiscalEvent[] {
+  if (year.versementLiberatoire) return []
+  const firstMonth = input.businessStartDate ? `${Number(input.businessStartDate.substring(0, 4)) + 1}-09` : null
+
+  return Array.from({ length: 12 }, (_, index) => index + 1)
+    .filter((month) => !firstMonth || `${year.year}-${pad(month)}` >= firstMonth)
+    .map((month) => {
+      const date = `${year.year}-${pad(month)}-${pad(INCOME_TAX_INSTALLMENT_DAY)}`
+      return {
+        id: `income-tax-${year.year}-${pad(month)}`,
+        type: 'income_tax' as const,
+        title: `Acompte d'impôt sur le revenu ${MONTH_NAMES[month - 1]} ${year.year}`,
+        description: 'Prélèvement à la source sur les bénéfices de l\'entreprise, calculé sur les revenus de la dernière déclaration',
+        date,
+        startDate: null,
+        amount: null,
+        status: untrackedStatus(date, input.today),
+      }
+    })
+}
+
+// The income of a year is declared in the spring of the next, with the 2042-C-PRO for the business
+function incomeTaxReturnEvents(year: FiscalCalendarYear, input: FiscalCalendarInput): FiscalEvent[] {
+  if (input.businessStartDate && year.year < Number(input.businessStartDate.substring(0, 4))) return []
+  const { opens, deadlines } = incomeTaxReturnWindow(year.year + 1)
+
+  return [{
+    id: `income-tax-return-${year.year}`,
+    type: 'income_tax_return',
+    title: `Déclaration des revenus ${year.year} (2042 et 2042-C-PRO)`,
+    description: `Déclaration en ligne ouverte le ${frenchDate(opens)}, à déposer au plus tard le ${frenchDate(deadlines[0])} (départements 01 à 19), le ${frenchDate(deadlines[1])} (20 à 54) ou le ${frenchDate(deadlines[2])} (55 à 976)`,
+    date: deadlines[0],
+    startDate: opens,
+    amount: null,
+    status: untrackedStatus(deadlines[0], input.today),
+  }]
+}
+
+// Deadlines between two dates, filing windows included as soon as they are open
+export function buildFiscalCalendar(input: FiscalCalendarInput): FiscalEvent[] {
+  return input.years
+    .flatMap((year) => [
+      ...urssafEvents(year, input),
+      ...tvaEvents(year, input),
+      ...cfeEvents(year, input),
+      ...incomeTaxInstallmentEvents(year, input),
+      ...incomeTaxReturnEvents(year, input),
+    ])
+    .filter((event) => event.date >= input.from && (event.startDate ?? event.date) <= input.to)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+}
+
+const STATUS_LABELS: Record<FiscalEventStatus, string> = {
+  paid: 'payé',
+  pending: 'paiement en attente',
+  upcoming: 'à venir',
+  overdue: 'en retard',
+  past: 'échéance passée',
+}
+
+// Reminder shown by calendar applications before each deadline still to pay
+export const CALENDAR_REMINDER_DAYS = 3
+
+// RFC 5545 text: backslash, semicolon, comma and newlines are escaped
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Content lines are folded at 75 octets, continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function icsDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function dayAfter(date: string): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return formatDate(new Date(Date.UTC(year, month - 1, day + 1)))
+}
+
+// iCalendar feed of the deadlines, all-day events on the due date; uidSuffix keeps the UIDs of
+// each user unique
+export function toICalendar(events: FiscalEvent[], options: { name: string; uidSuffix: string; now: Date }): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Business Finance//Calendrier fiscal//FR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    'X-WR-TIMEZONE:Europe/Paris',
+  ]
+
+  for (const event of events) {
+    const details = [event.description]
+    if (event.amount !== null) details.push(`Montant : ${event.amount} EUR`)
+    details.push(`Statut : ${STATUS_LABELS[event.status]}`)
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}-${options.uidSuffix}`,
+      `DTSTAMP:${icsTimestamp(options.now)}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(dayAfter(event.date))}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      `DESCRIPTION:${escapeText(details.join('\n'))}`,
+      `CATEGORIES:${event.type.toUpperCase()}`,
+      'TRANSP:TRANSPARENT',
+    )
+    if (event.status === 'upcoming' || event.status === 'pending') {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.title)}`,
+        `TRIGGER:-P${CALENDAR_REMINDER_DAYS}D`,
+        'END:VALARM',
+      )
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest'
+import { DEFAULT_HOUSEHOLD_PROFILE, householdIncomeLines, householdOtherIncome, householdParts } from './household'
+
+vi.mock('../db', () => ({ db: {} }))
+
+describe('householdParts', () => {
+  it('counts the parts of the quotient familial', () => {
+    expect(householdParts(DEFAULT_HOUSEHOLD_PROFILE)).toBe(1)
+    expect(householdParts({ ...DEFAULT_HOUSEHOLD_PROFILE, maritalStatus: 'pacs', children: 2 })).toBe(3)
+    expect(householdParts({ ...DEFAULT_HOUSEHOLD_PROFILE, maritalStatus: 'married', children: 3 })).toBe(4)
+    expect(householdParts({ ...DEFAULT_HOUSEHOLD_PROFILE, maritalStatus: 'divorced', children: 1, singleParent: true })).toBe(2)
+    expect(householdParts({ ...DEFAULT_HOUSEHOLD_PROFILE, maritalStatus: 'widowed', children: 1 })).toBe(2.5)
+    expect(householdParts({ ...DEFAULT_HOUSEHOLD_PROFILE, children: 1, parts: 1.75 })).toBe(1.75)
+  })
+})
+
+describe('householdIncomeLines', () => {
+  it('deducts each category of income', () => {
+    const lines = householdIncomeLines({
+      year: 2024,
+      profile: { ...DEFAULT_HOUSEHOLD_PROFILE, maritalStatus: 'married', spouseSalary: 30000 },
+      incomes: [
+        { category: 'salary', label: 'CDD', amount: 3000 },
+        { category: 'pension', label: 'Retraite', amount: 30000 },
+        { category: 'pension', label: 'Retraite complémentaire', amount: 30000 },
+        { category: 'rental', label: 'Location nue', amount: 10000 },
+        { category: 'furnished_rental', label: 'Location meublée', amount: 8000 },
+        { category: 'other', label: 'Autre', amount: 1000 },
+      ],
+    })
+
+    expect(lines.map((line) => [line.label, line.deduction])).toEqual([
+      ['Salaire du conjoint', 3000],
+      ['CDD', 504],
+      ['Retraite', 3000],
+      ['Retraite complémentaire', 1399],
+      ['Location nue', 3000],
+      ['Location meublée', 4000],
+      ['Autre', 0],
+    ])
+    expect(householdOtherIncome(lines)).toBe(27000 + 2496 + 27000 + 28601 + 7000 + 4000 + 1000)
+  })
+
+  it('caps the salary deduction per person', () => {
+    const [line] = householdIncomeLines({
+      year: 2030,
+      profile: DEFAULT_HOUSEHOLD_PROFILE,
+      incomes: [{ category: 'salary', label: 'Salaire', amount: 200000 }],
+    })
+    expect(line.deduction).toBe(14426)
+  })
+})
@@ -0,0 +1,181 @@
+import { eq, and, asc } from 'drizzle-orm'
+import { db } from '../db'
+import { householdIncomes, householdProfiles, settings } from '../db/schema'
+import { roundCents } from './invoice-totals'
+
+// Foyer fiscal of the income tax: the parts of the quotient familial and the other income of the
+// household, each category after its own deduction
+
+export type MaritalStatus = 'single' | 'married' | 'pacs' | 'divorced' | 'widowed'
+
+export const MARITAL_STATUSES: MaritalStatus[] = ['single', 'married', 'pacs', 'divorced', 'widowed']
+
+export type HouseholdIncomeCategory = 'salary' | 'pension' | 'rental' | 'furnished_rental' | 'other'
+
+export const HOUSEHOLD_INCOME_CATEGORIES: HouseholdIncomeCategory[] = ['salary', 'pension', 'rental', 'furnished_rental', 'other']
+
+export interface HouseholdProfile {
+  maritalStatus: MaritalStatus
+  children: number
+  singleParent: boolean
+  parts: number | null // Entered parts, computed from the household when null
+  spouseSalary: number
+}
+
+export interface HouseholdIncome {
+  category: HouseholdIncomeCategory
+  label: string
+  amount: number
+}
+
+export interface HouseholdIncomeLine extends HouseholdIncome {
+  deduction: number
+  net: number
+}
+
+export interface Household {
+  year: number
+  saved: boolean // False for the defaults of a year without household
+  profile: HouseholdProfile
+  incomes: HouseholdIncome[]
+}
+
+interface FlatDeduction {
+  rate: number
+  min: number
+  max: number
+}
+
+// 10 % deductions of the income of each year (art. 83 and 158 CGI): the salary one per person,
+// the pension ceiling for the whole household
+export const INCOME_DEDUCTIONS: Record<number, { salary: FlatDeduction; pension: FlatDeduction }> = {
+  2023: { salary: { rate: 10, min: 495, max: 14171 }, pension: { rate: 10, min: 422, max: 4321 } },
+  2024: { salary: { rate: 10, min: 504, max: 14426 }, pension: { rate: 10, min: 442, max: 4399 } },
+}
+
+// Abattements of the micro-foncier and of the micro-BIC for furnished rentals
+export const RENTAL_DEDUCTION_RATES = {
+  rental: 30,
+  furnished_rental: 50,
+}
+
+export const DEFAULT_HOUSEHOLD_PROFILE: HouseholdProfile = {
+  maritalStatus: 'single',
+  children: 0,
+  singleParent: false,
+  parts: null,
+  spouseSalary: 0,
+}
+
+// Latest known deductions for years not listed yet
+export function incomeDeductions(year: number) {
+  const years = Object.keys(INCOME_DEDUCTIONS).map(Number).sort((a, b) => a - b)
+  const known = years.filter((knownYear) => knownYear <= year)
+  return INCOME_DEDUCTIONS[known.length > 0 ? known[known.length - 1] : years[0]]
+}
+
+export function isCouple(profile: HouseholdProfile): boolean {
+  return profile.maritalStatus === 'married' || profile.maritalStatus === 'pacs'
+}
+
+// Parts the advantage of the quotient familial is measured against: those of the household without
+// its children. A widowed person with dependent children keeps the parts of a couple
+export function referenceParts(profile: HouseholdProfile): number {
+  return isCouple(profile) || (profile.maritalStatus === 'widowed' && profile.children > 0) ? 2 : 1
+}
+
+// Half a part for each of the first two children, a part from the third, and half a part more
+// for a parent isolé
+export function householdParts(profile: HouseholdProfile): number {
+  if (profile.parts !== null) return profile.parts
+
+  const children = profile.children
+  let parts = referenceParts(profile) + (children <= 2 ? children * 0.5 : 1 + (children - 2))
+  if (profile.singleParent && children > 0 && !isCouple(profile) && profile.maritalStatus !== 'widowed') {
+    parts += 0.5
+  }
+  return parts
+}
+
+function flatDeduction(amount: number, deduction: FlatDeduction): number {
+  if (amount <= 0) return 0
+  return Math.min(amount, Math.min(Math.max(amount * deduction.rate / 100, deduction.min), deduction.max))
+}
+
+// The other income of the household after deductions, the salary of the spouse included
+export function householdIncomeLines(household: Pick<Household, 'year' | 'profile' | 'incomes'>): HouseholdIncomeLine[] {
+  const deductions = incomeDeductions(household.year)
+  const incomes: HouseholdIncome[] = [...household.incomes]
+  if (household.profile.spouseSalary > 0) {
+    incomes.unshift({ category: 'salary', label: 'Salaire du conjoint', amount: household.profile.spouseSalary })
+  }
+
+  let pensionDeductionLeft = deductions.pension.max
+  return incomes.map((income) => {
+    let deduction = 0
+    switch (income.category) {
+      case 'salary':
+        deduction = flatDeduction(income.amount, deductions.salary)
+        break
+      case 'pension':
+        deduction = Math.min(flatDeduction(income.amount, deductions.pension), pensionDeductionLeft)
+        pensionDeductionLeft -= deduction
+        break
+      case 'rental':
+      case 'furnished_rental':
+        deduction = income.amount * RENTAL_DEDUCTION_RATES[income.category] / 100
+        break
+    }
+    return { ...income, deduction: roundCents(deduction), net: roundCents(income.amount - deduction) }
+  })
+}
+
+export function householdOtherIncome(lines: HouseholdIncomeLine[]): number {
+  return roundCents(lines.reduce((sum, line) => sum + line.net, 0))
+}
+
+// The household of a year, or a single person with the additional taxable income of the settings
+// when none was entered
+export async function getHousehold(userId: string, year: number): Promise<Household> {
+  const profile = await db.query.householdProfiles.findFirst({
+    where: and(eq(householdProfiles.userId, userId), eq(householdProfiles.year, year)),
+  })
+
+  if (!profile) {
+    const userSettings = await db.query.settings.findFirst({
+      where: eq(settings.userId, userId),
+    })
+    const additionalTaxableIncome = userSettings ? parseFloat(userSettings.additionalTaxableIncome || '0') : 0
+    return {
+      year,
+      saved: false,
+      profile: DEFAULT_HOUSEHOLD_PROFILE,
+      incomes: additionalTaxableIncome > 0
+        ? [{ category: 'other', label: 'Revenu imposable supplémentaire', amount: additionalTaxableIncome }]
+        : [],
+    }
+  }
+
+  const incomes = await db
+    .select()
+    .from(householdIncomes)
+    .where(and(eq(householdIncomes.userId, userId), eq(householdIncomes.year, year)))
+    .orderBy(asc(householdIncomes.category), asc(householdIncomes.label))
+
+  return {
+    year,
+    saved: true,
+    profile: {
+      maritalStatus: profile.maritalStatus as MaritalStatus,
+      children: profile.children,
+      singleParent: profile.singleParent,
+      parts: profile.parts !== null ? parseFloat(profile.parts) : null,
+      spouseSalary: parseFloat(profile.spouseSalary),
+    },
+    incomes: incomes.map((income) => ({
+      category: income.category as HouseholdIncomeCategory,
+      label: income.label,
+      amount: parseFloat(income.amount),
+    })),
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  businessShareOfTax,
+  calculateCehr,
+  calculateDecote,
+  calculateHouseholdTax,
+  calculateProgressiveTax,
+  householdTaxParameters,
+  quotientFamilialCeiling,
+  versementLiberatoireEligibility,
+  versementLiberatoireRfrLimit,
+} from './income-tax'
+import type { HouseholdTaxInput } from './income-tax'
+
+vi.mock('../db', () => ({ db: {} }))
+
+const brackets = [
+  { minIncome: '0.00', maxIncome: '11497.00', rate: '0.00' },
+  { minIncome: '11497.00', maxIncome: '29315.00', rate: '11.00' },
+  { minIncome: '29315.00', maxIncome: '83823.00', rate: '30.00' },
+  { minIncome: '83823.00', maxIncome: '180294.00', rate: '41.00' },
+  { minIncome: '180294.00', maxIncome: null, rate: '45.00' },
+]
+
+describe('calculateProgressiveTax', () => {
+  it('taxes each bracket on the income within it', () => {
+    const { totalTax, breakdown } = calculateProgressiveTax(40000, brackets)
+    expect(totalTax).toBeCloseTo(1959.98 + 3205.5, 2)
+    expect(breakdown.map((line) => line.taxableAmount)).toEqual(['11497.00', '17818.00', '10685.00'])
+  })
+})
+
+const single = { maritalStatus: 'single' as const, children: 0, singleParent: false, parts: null, spouseSalary: 0 }
+
+function householdTax(input: Partial<HouseholdTaxInput>) {
+  return calculateHouseholdTax({
+    year: 2024,
+    profile: single,
+    businessIncome: 0,
+    otherIncome: 0,
+    versementLiberatoire: null,
+    brackets,
+    ...input,
+  })
+}
+
+describe('calculateHouseholdTax', () => {
+  it('caps the advantage of the quotient familial per half-part', () => {
+    const tax = householdTax({
+      profile: { ...single, maritalStatus: 'married', children: 2 },
+      businessIncome: 60000,
+      otherIncome: 30000,
+    })
+    expect(tax.parts).toBe(3)
+    expect(tax.quotient).toBe(30000)
+    expect(tax.taxBeforeCeiling).toBeCloseTo(6496.44, 2)
+    expect(tax.quotientAdvantage).toBeCloseTo(13330.96 - 6496.44, 2)
+    expect(tax.quotientCeiling).toBe(3582)
+    expect(tax.grossTax).toBeCloseTo(13330.96 - 3582, 2)
+    expect(tax.totalTax).toBeCloseTo(9748.96, 2)
+  })
+
+  it('allows a larger advantage for the first child of a parent isolé', () => {
+    expect(quotientFamilialCeiling({ ...single, children: 1, singleParent: true }, 2, householdTaxParameters(2024))).toBe(4224)
+    expect(quotientFamilialCeiling({ ...single, children: 3, singleParent: true }, 3.5, householdTaxParameters(2030))).toBe(4224 + 3 * 1791)
+  })
+
+  it('applies the décote to small amounts of tax', () => {
+    const tax = householdTax({ businessIncome: 20000 })
+    expect(tax.grossTax).toBeCloseTo(935.33, 2)
+    expect(tax.decote).toBeCloseTo(889 - 935.33 * 0.4525, 2)
+    expect(tax.totalTax).toBeCloseTo(469.57, 2)
+    expect(calculateDecote(2000, false, householdTaxParameters(2024))).toBe(0)
+  })
+
+  it('adds the CEHR on high incomes', () => {
+    expect(calculateCehr(300000, false)).toBe(1500)
+    expect(calculateCehr(600000, false)).toBe(11500)
+    expect(calculateCehr(600000, true)).toBe(3000)
+    expect(householdTax({ businessIncome: 300000 }).cehr).toBe(1500)
+  })
+
+  it('charges the other income its share of the tax under the versement libératoire', () => {
+    const tax = householdTax({ businessIncome: 30000, otherIncome: 20000, versementLiberatoire: 660 })
+    const { totalTax } = calculateProgressiveTax(50000, brackets)
+    expect(tax.effectiveRate).toBeCloseTo(totalTax / 500, 6)
+    expect(tax.progressiveTax).toBeCloseTo(totalTax * 0.4, 2)
+    expect(tax.totalTax).toBeCloseTo(totalTax * 0.4 + 660, 2)
+    expect(householdTax({ businessIncome: 30000, versementLiberatoire: 660 }).totalTax).toBe(660)
+  })
+
+  it('attributes to the business the tax it adds to the household', () => {
+    expect(businessShareOfTax({
+      year: 2024,
+      profile: single,
+      businessIncome: 20000,
+      otherIncome: 0,
+      versementLiberatoire: null,
+      brackets,
+    })).toBeCloseTo(469.57, 2)
+
+    const input = { year: 2024, profile: single, businessIncome: 30000, otherIncome: 20000, versementLiberatoire: 660, brackets }
+    const withoutBusiness = householdTax({ otherIncome: 20000 }).totalTax
+    expect(businessShareOfTax(input)).toBeCloseTo(calculateHouseholdTax(input).totalTax - withoutBusiness, 2)
+  })
+})
+
+describe('versementLiberatoireEligibility', () => {
+  it('compares the RFR of two years before with the limit per part', () => {
+    expect(versementLiberatoireRfrLimit(2025, 1)).toBe(28797)
+    expect(versementLiberatoireRfrLimit(2025, 2.5)).toBeCloseTo(71992.5, 2)
+    expect(versementLiberatoireRfrLimit(2030, 1)).toBe(29315)
+
+    const eligibility = versementLiberatoireEligibility({
+      year: 2025,
+      referenceIncome: 25000,
+      estimated: false,
+      parts: 1,
+      optedFor: true,
+    })
+    expect(eligibility).toMatchObject({ referenceYear: 2023, limit: 28797, eligible: true, warning: null })
+  })
+
+  it('warns when the option is taken above the limit', () => {
+    const eligibility = versementLiberatoireEligibility({
+      year: 2025,
+      referenceIncome: 31000,
+      estimated: true,
+      parts: 1,
+      optedFor: true,
+    })
+    expect(eligibility.eligible).toBe(false)
+    expect(eligibility.warning).toContain('Revenu fiscal de référence 2023 estimé')
+    expect(eligibility.warning).toContain('plus possible en 2025')
+
+    expect(versementLiberatoireEligibility({
+      year: 2025,
+      referenceIncome: 31000,
+      estimated: true,
+      parts: 1,
+      optedFor: false,
+    }).warning).toBeNull()
+  })
+})
@@ -0,0 +1,385 @@
+import { eq, and } from 'drizzle-orm'
+import { db } from '../db'
+import { incomeTaxOptions, taxBrackets } from '../db/schema'
+import { getCashReceivedByActivity } from './invoice-payments'
+import { getActivityRates, taxableByActivity } from './activity-rates'
+import type { ActivityLine } from './activity-rates'
+import { componentTotal, getContributionOptions, getVersementLiberatoire, urssafContributions } from './urssaf-contributions'
+import { roundCents } from './invoice-totals'
+import {
+  getHousehold,
+  householdIncomeLines,
+  householdOtherIncome,
+  householdParts,
+  isCouple,
+  referenceParts,
+} from './household'
+import type { Household, HouseholdIncomeLine, HouseholdProfile } from './household'
+
+// Income tax of the household: progressive brackets on the revenue after abattement and the other
+// income, or the versement libératoire paid with the URSSAF contributions, the revenue then only
+// setting the taux effectif applied to the other income
+
+export type IncomeTaxMethod = 'progressive' | 'versement_liberatoire'
+
+export interface TaxBracket {
+  minIncome: string
+  maxIncome: string | null
+  rate: string
+}
+
+export interface TaxBracketAmount extends TaxBracket {
+  taxableAmount: string
+  taxAmount: string
+}
+
+// Revenu fiscal de référence of year - 2 allowed per part for the option of a year: the upper limit
+// of the second bracket (art. 151-0 CGI), +50 % per additional half-part
+export const VERSEMENT_LIBERATOIRE_RFR_LIMITS: Record<number, number> = {
+  2023: 26070,
+  2024: 27478,
+  2025: 28797,
+  2026: 29315,
+}
+
+export interface VersementLiberatoireEligibility {
+  referenceYear: number
+  referenceIncome: number | null // RFR of the reference year, null when unknown
+  estimated: boolean // Computed from the revenue recorded for the reference year, not entered
+  limit: number
+  eligible: boolean | null
+  warning: string | null // Set when the option is taken but no longer allowed
+}
+
+// French tax brackets for 2025 (revenus 2024)
+// Source: https://www.service-public.gouv.fr/particuliers/vosdroits/F1419
+const DEFAULT_TAX_BRACKETS_2025: TaxBracket[] = [
+  { minIncome: '0.00', maxIncome: '11497.00', rate: '0.00' },
+  { minIncome: '11497.00', maxIncome: '29315.00', rate: '11.00' },
+  { minIncome: '29315.00', maxIncome: '83823.00', rate: '30.00' },
+  { minIncome: '83823.00', maxIncome: '180294.00', rate: '41.00' },
+  { minIncome: '180294.00', maxIncome: null, rate: '45.00' },
+]
+
+function formatEuros(amount: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(amount)
+}
+
+export function calculateProgressiveTax(taxableIncome: number, brackets: TaxBracket[]) {
+  let totalTax = 0
+  const breakdown: TaxBracketAmount[] = []
+
+  for (const bracket of brackets) {
+    const minIncome = parseFloat(bracket.minIncome)
+    const maxIncome = bracket.maxIncome ? parseFloat(bracket.maxIncome) : Infinity
+    const rate = parseFloat(bracket.rate)
+
+    // Skip if income doesn't reach this bracket
+    if (taxableIncome <= minIncome) break
+
+    // Calculate income within this bracket
+    const incomeInBracket = Math.min(taxableIncome, maxIncome) - minIncome
+
+    if (incomeInBracket > 0) {
+      const taxForBracket = incomeInBracket * (rate / 100)
+      totalTax += taxForBracket
+      breakdown.push({
+        minIncome: bracket.minIncome,
+        maxIncome: bracket.maxIncome,
+        rate: bracket.rate,
+        taxableAmount: incomeInBracket.toFixed(2),
+        taxAmount: taxForBracket.toFixed(2),
+      })
+    }
+  }
+
+  return { totalTax, breakdown }
+}
+
+export interface HouseholdTaxParameters {
+  quotientCeiling: number // Advantage allowed per half-part above the reference parts
+  singleParentCeiling: number // Advantage allowed for the first child of a parent isolé, its two half-parts
+  decote: { single: number; couple: number; rate: number } // Tax thresholds below which the décote applies
+}
+
+// Plafonnement of the quotient familial and décote for the income of each year (art. 197 CGI)
+export const HOUSEHOLD_TAX_PARAMETERS: Record<number, HouseholdTaxParameters> = {
+  2023: { quotientCeiling: 1759, singleParentCeiling: 4149, decote: { single: 1929, couple: 3191, rate: 45.25 } },
+  2024: { quotientCeiling: 1791, singleParentCeiling: 4224, decote: { single: 1964, couple: 3249, rate: 45.25 } },
+}
+
+// Contribution exceptionnelle sur les hauts revenus, on the revenu fiscal de référence (art. 223 sexies CGI)
+export const CEHR_BANDS = {
+  single: [{ from: 250000, to: 500000, rate: 3 }, { from: 500000, to: Infinity, rate: 4 }],
+  couple: [{ from: 500000, to: 1000000, rate: 3 }, { from: 1000000, to: Infinity, rate: 4 }],
+}
+
+export interface HouseholdTaxInput {
+  year: number
+  profile: HouseholdProfile
+  businessIncome: number // Revenue after abattement
+  otherIncome: number // Other income of the household after deductions
+  versementLiberatoire: number | null // Paid with the URSSAF contributions when opted for
+  brackets: TaxBracket[]
+}
+
+export interface HouseholdTax {
+  parts: number
+  referenceParts: number
+  taxableIncome: number // Revenu fiscal de référence
+  quotient: number // Taxable income per part
+  taxBeforeCeiling: number // Brackets applied to the quotient, times the parts
+  quotientAdvantage: number // Tax saved by the parts above the reference ones
+  quotientCeiling: number
+  ceilingAdjustment: number // Advantage above the ceiling, added back
+  grossTax: number
+  effectiveRate: number | null // Under the versement libératoire only
+  decote: number
+  progressiveTax: number // After the décote, on the other income only under the versement libératoire
+  cehr: number
+  versementLiberatoire: number
+  totalTax: number
+  breakdown: TaxBracketAmount[] // Per bracket of one part, amounts for the whole household
+}
+
+// Latest known parameters for years not listed yet
+export function householdTaxParameters(year: number): HouseholdTaxParameters {
+  const years = Object.keys(HOUSEHOLD_TAX_PARAMETERS).map(Number).sort((a, b) => a - b)
+  const known = years.filter((knownYear) => knownYear <= year)
+  return HOUSEHOLD_TAX_PARAMETERS[known.length > 0 ? known[known.length - 1] : years[0]]
+}
+
+// Advantage of the half-parts above the reference ones that the quotient familial may bring
+export function quotientFamilialCeiling(profile: HouseholdProfile, parts: number, parameters: HouseholdTaxParameters): number {
+  const halfParts = Math.max(0, Math.round((parts - referenceParts(profile)) * 2))
+  if (referenceParts(profile) === 1 && profile.singleParent && profile.children > 0 && halfParts >= 2) {
+    return parameters.singleParentCeiling + (halfParts - 2) * parameters.quotientCeiling
+  }
+  return halfParts * parameters.quotientCeiling
+}
+
+export function calculateDecote(tax: number, couple: boolean, parameters: HouseholdTaxParameters): number {
+  const threshold = couple ? parameters.decote.couple : parameters.decote.single
+  if (tax <= 0 || tax >= threshold) return 0
+  const flatAmount = Math.round(threshold * parameters.decote.rate / 100)
+  return Math.min(tax, Math.max(0, flatAmount - tax * parameters.decote.rate / 100))
+}
+
+export function calculateCehr(referenceIncome: number, couple: boolean): number {
+  return (couple ? CEHR_BANDS.couple : CEHR_BANDS.single).reduce((sum, band) =>
+    sum + Math.max(0, Math.min(referenceIncome, band.to) - band.from) * band.rate / 100, 0)
+}
+
+// Tax of the household: brackets on the income per part with the plafonnement of the quotient
+// familial, then the décote and the CEHR. Under the versement libératoire the business income is
+// already taxed and only sets the taux effectif applied to the other income
+export function calculateHouseholdTax(input: HouseholdTaxInput): HouseholdTax {
+  const parameters = householdTaxParameters(input.year)
+  const couple = isCouple(input.profile)
+  const parts = householdParts(input.profile)
+  const reference = Math.min(referenceParts(input.profile), parts)
+  const taxableIncome = Math.max(0, input.businessIncome + input.otherIncome)
+  const optedFor = input.versementLiberatoire !== null
+
+  const quotient = taxableIncome / parts
+  const { totalTax: taxPerPart, breakdown } = calculateProgressiveTax(quotient, input.brackets)
+  const taxBeforeCeiling = taxPerPart * parts
+  const taxWithoutParts = calculateProgressiveTax(taxableIncome / reference, input.brackets).totalTax * reference
+  const quotientAdvantage = taxWithoutParts - taxBeforeCeiling
+  const quotientCeiling = quotientFamilialCeiling(input.profile, parts, parameters)
+  const ceilingAdjustment = Math.max(0, quotientAdvantage - quotientCeiling)
+  const grossTax = taxBeforeCeiling + ceilingAdjustment
+
+  const effectiveRate = optedFor ? (taxableIncome > 0 ? grossTax / taxableIncome * 100 : 0) : null
+  const taxOnIncome = optedFor
+    ? (input.otherIncome > 0 ? grossTax * input.otherIncome / taxableIncome : 0)
+    : grossTax
+  const decote = calculateDecote(taxOnIncome, couple, parameters)
+  const progressiveTax = taxOnIncome - decote
+  const cehr = calculateCehr(taxableIncome, couple)
+  const versementLiberatoire = input.versementLiberatoire ?? 0
+
+  return {
+    parts,
+    referenceParts: reference,
+    taxableIncome: roundCents(taxableIncome),
+    quotient: roundCents(quotient),
+    taxBeforeCeiling: roundCents(taxBeforeCeiling),
+    quotientAdvantage: roundCents(quotientAdvantage),
+    quotientCeiling,
+    ceilingAdjustment: roundCents(ceilingAdjustment),
+    grossTax: roundCents(grossTax),
+    effectiveRate,
+    decote: roundCents(decote),
+    progressiveTax: roundCents(progressiveTax),
+    cehr: roundCents(cehr),
+    versementLiberatoire,
+    totalTax: roundCents(progressiveTax + cehr + versementLiberatoire),
+    breakdown: breakdown.map((line) => ({
+      ...line,
+      taxableAmount: (parseFloat(line.taxableAmount) * parts).toFixed(2),
+      taxAmount: (parseFloat(line.taxAmount) * parts).toFixed(2),
+    })),
+  }
+}
+
+// Part of the tax of the household due to the business: its tax less the tax it would pay
+// without the business income
+export function businessShareOfTax(input: HouseholdTaxInput, tax: HouseholdTax = calculateHouseholdTax(input)): number {
+  const withoutBusiness = calculateHouseholdTax({ ...input, businessIncome: 0, versementLiberatoire: null })
+  return roundCents(tax.totalTax - withoutBusiness.totalTax)
+}
+
+// Latest known limit for years not listed yet
+export function versementLiberatoireRfrLimit(year: number, parts: number): number {
+  const years = Object.keys(VERSEMENT_LIBERATOIRE_RFR_LIMITS).map(Number).sort((a, b) => a - b)
+  const known = years.filter((knownYear) => knownYear <= year)
+  return VERSEMENT_LIBERATOIRE_RFR_LIMITS[known.length > 0 ? known[known.length - 1] : years[0]] * parts
+}
+
+export function versementLiberatoireEligibility(input: {
+  year: number
+  referenceIncome: number | null
+  estimated: boolean
+  parts: number
+  optedFor: boolean
+}): VersementLiberatoireEligibility {
+  const referenceYear = input.year - 2
+  const limit = versementLiberatoireRfrLimit(input.year, input.parts)
+  const eligible = input.referenceIncome === null ? null : input.referenceIncome <= limit
+
+  return {
+    referenceYear,
+    referenceIncome: input.referenceIncome,
+    estimated: input.estimated,
+    limit,
+    eligible,
+    warning: input.optedFor && eligible === false
+      ? `Revenu fiscal de référence ${referenceYear}${input.estimated ? ' estimé' : ''} de ${formatEuros(input.referenceIncome!)} ` +
+        `au-delà de la limite de ${formatEuros(limit)} : le versement libératoire n'est plus possible en ${input.year}, ` +
+        `l'impôt sera calculé au barème progressif`
+      : null,
+  }
+}
+
+// RFR entered for the option of a year, or estimated from the revenue recorded two years before
+// and the other income of the household of that year
+export async function getVersementLiberatoireEligibility(userId: string, year: number): Promise<VersementLiberatoireEligibility> {
+  const options = await db.query.incomeTaxOptions.findFirst({
+    where: and(eq(incomeTaxOptions.userId, userId), eq(incomeTaxOptions.year, year)),
+  })
+  const optedFor = await getVersementLiberatoire(userId, year)
+  const referenceYear = year - 2
+  const household = await getHousehold(userId, referenceYear)
+  const parts = householdParts(household.profile)
+
+  if (options?.referenceTaxIncome) {
+    return versementLiberatoireEligibility({
+      year,
+      referenceIncome: parseFloat(options.referenceTaxIncome),
+      estimated: false,
+      parts,
+      optedFor,
+    })
+  }
+
+  const { rates } = await getActivityRates(userId, referenceYear)
+  const revenueByActivity = await getCashReceivedByActivity(userId, `${referenceYear}-01-01`, `${referenceYear}-12-31`)
+
+  return versementLiberatoireEligibility({
+    year,
+    referenceIncome: taxableByActivity(revenueByActivity, rates).total + householdOtherIncome(householdIncomeLines(household)),
+    estimated: true,
+    parts,
+    optedFor,
+  })
+}
+
+// The versement libératoire applies when opted for, unless the RFR no longer allows it: the tax then
+// follows the brackets and the versement libératoire already collected is a prepayment
+export function incomeTaxMethod(optedFor: boolean, eligibility: VersementLiberatoireEligibility): IncomeTaxMethod {
+  return optedFor && eligibility.eligible !== false ? 'versement_liberatoire' : 'progressive'
+}
+
+// Brackets of a year: the user's own, else the official ones, else the 2025 defaults
+export async function getTaxBrackets(userId: string, year: number): Promise<TaxBracket[]> {
+  const custom = await db
+    .select()
+    .from(taxBrackets)
+    .where(and(eq(taxBrackets.userId, userId), eq(taxBrackets.year, year)))
+    .orderBy(taxBrackets.minIncome)
+  if (custom.length > 0) return custom
+
+  const official = await db
+    .select()
+    .from(taxBrackets)
+    .where(eq(taxBrackets.year, year))
+    .orderBy(taxBrackets.minIncome)
+  const officialBrackets = official.filter((bracket) => bracket.userId === null)
+
+  return officialBrackets.length > 0 ? officialBrackets : DEFAULT_TAX_BRACKETS_2025
+}
+
+export interface IncomeTaxEstimate {
+  year: number
+  totalRevenue: number
+  deductionRate: number // Blended over the activities
+  activities: ActivityLine[]
+  businessIncome: number // Revenue after abattement
+  household: Household
+  incomeLines: HouseholdIncomeLine[]
+  otherIncome: number
+  method: IncomeTaxMethod
+  optedForVersementLiberatoire: boolean
+  versementLiberatoirePaid: number // Collected with the URSSAF contributions while opted for
+  eligibility: VersementLiberatoireEligibility
+  tax: HouseholdTax
+  businessShare: number
+}
+
+// Income tax of a year on the revenue received, for the income tax page and the dashboards
+export async function getIncomeTaxEstimate(userId: string, year: number): Promise<IncomeTaxEstimate> {
+  const household = await getHousehold(userId, year)
+  const incomeLines = householdIncomeLines(household)
+  const otherIncome = householdOtherIncome(incomeLines)
+
+  const { mainActivity, rates } = await getActivityRates(userId, year)
+  const revenueByActivity = await getCashReceivedByActivity(userId, `${year}-01-01`, `${year}-12-31`)
+  const totalRevenue = Object.values(revenueByActivity).reduce((sum, revenue) => sum + revenue, 0)
+  const { total: businessIncome, lines: activities } = taxableByActivity(revenueByActivity, rates)
+
+  const contributionOptions = await getContributionOptions(userId, year)
+  const optedFor = contributionOptions.versementLiberatoire
+  const versementLiberatoirePaid = optedFor
+    ? componentTotal(urssafContributions(revenueByActivity, contributionOptions, `${year}-12-31`), 'versement_liberatoire')
+    : 0
+  const eligibility = await getVersementLiberatoireEligibility(userId, year)
+  const method = incomeTaxMethod(optedFor, eligibility)
+
+  const taxInput = {
+    year,
+    profile: household.profile,
+    businessIncome,
+    otherIncome,
+    versementLiberatoire: method === 'versement_liberatoire' ? versementLiberatoirePaid : null,
+    brackets: await getTaxBrackets(userId, year),
+  }
+  const tax = calculateHouseholdTax(taxInput)
+
+  return {
+    year,
+    totalRevenue,
+    deductionRate: totalRevenue > 0 ? (1 - businessIncome / totalRevenue) * 100 : rates[mainActivity].deductionRate,
+    activities,
+    businessIncome,
+    household,
+    incomeLines,
+    otherIncome,
+    method,
+    optedForVersementLiberatoire: optedFor,
+    versementLiberatoirePaid,
+    eligibility,
+    tax,
+    businessShare: businessShareOfTax(taxInput, tax),
+  }
+}
@@ -0,0 +1,152 @@
+import { eq, and } from 'drizzle-orm'
+import { db } from '../db'
+import { invoices, invoiceLines, invoicePayments, clients, issuerProfiles, settings } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+import { calculateInvoiceTotals } from './invoice-totals'
+import { computeDueDate } from './payment-terms'
+import { getClientPaymentTerms } from './receivables'
+import { DEFAULT_CURRENCY, resolveExchangeRate } from './currency'
+import { suggestTvaRegime } from './tva-regimes'
+import type { TvaRegime } from './tva-regimes'
+import type { MicroActivityType } from './micro-ceiling'
+import { allocateNumber, claimNumber, InvoiceNumberConflictError, isInvoiceNumberTaken, withInvoiceNumber } from './invoice-numbering'
+
+export interface InvoiceLineInput {
+  description: string
+  quantity: number
+  unit?: string
+  unitPrice: number
+  taxRate: number
+  discount?: number
+}
+
+export interface NewInvoiceInput {
+  description?: string
+  invoiceDate: string
+  // Defaults to the client payment terms
+  dueDate?: string
+  paymentDate?: string
+  lines: InvoiceLineInput[]
+  // Defaults to EUR; foreign currencies fall back to the recorded rate of the invoice date
+  currency?: string
+  exchangeRate?: number
+  // Defaults to domestic, or to the regime the issuer and client imply for a 0% invoice
+  tvaRegime?: TvaRegime
+  // Defaults to the activity set in the settings
+  activityType?: MicroActivityType
+  invoiceNumber?: string
+  note?: string
+}
+
+// Build the line rows and document totals to persist from validated lines (shared by invoices and quotes)
+export function buildInvoiceLines(lines: InvoiceLineInput[]) {
+  const totals = calculateInvoiceTotals(lines)
+  const rows = lines.map((line, index) => ({
+    position: index,
+    description: line.description,
+    quantity: line.quantity.toString(),
+    unit: line.unit || null,
+    unitPrice: line.unitPrice.toFixed(2),
+    taxRate: line.taxRate.toFixed(2),
+    discount: (line.discount ?? 0).toFixed(2),
+    amountHt: totals.lineAmountsHt[index],
+  }))
+
+  return { rows, totals }
+}
+
+// Directory entry by id, or by name with the entry created on the fly if needed
+export async function resolveInvoiceClient(userId: string, clientId?: string, clientName?: string) {
+  if (clientId) {
+    const client = await db.query.clients.findFirst({
+      where: and(eq(clients.id, clientId), eq(clients.userId, userId)),
+    })
+    return client ?? null
+  }
+
+  const name = clientName!.trim()
+  const existing = await db.query.clients.findFirst({
+    where: and(eq(clients.userId, userId), eq(clients.name, name)),
+  })
+  if (existing) return existing
+
+  const [created] = await db.insert(clients).values({ userId, name }).returning()
+  return created
+}
+
+async function defaultTvaRegime(executor: DbExecutor, userId: string, clientId: string, lines: InvoiceLineInput[]) {
+  if (lines.some((line) => line.taxRate > 0)) return 'domestic'
+
+  const issuer = await executor.query.issuerProfiles.findFirst({ where: eq(issuerProfiles.userId, userId) })
+  const client = await executor.query.clients.findFirst({ where: eq(clients.id, clientId) })
+  return suggestTvaRegime(issuer?.tvaNumber, client?.country)
+}
+
+async function defaultActivityType(executor: DbExecutor, userId: string) {
+  const userSettings = await executor.query.settings.findFirst({ where: eq(settings.userId, userId) })
+  return userSettings?.activityType ?? 'bnc'
+}
+
+// Insert an invoice with its lines and number; run inside a transaction
+export async function createInvoice(
+  executor: DbExecutor,
+  userId: string,
+  client: { id: string; name: string },
+  data: NewInvoiceInput
+) {
+  const { rows, totals } = buildInvoiceLines(data.lines)
+  const currency = data.currency ?? DEFAULT_CURRENCY
+  const exchangeRate = await resolveExchangeRate(executor, userId, currency, data.invoiceDate, data.exchangeRate)
+  const tvaRegime = data.tvaRegime ?? await defaultTvaRegime(executor, userId, client.id, data.lines)
+  const activityType = data.activityType ?? await defaultActivityType(executor, userId)
+
+  // Hand-typed numbers must be unique and move the sequence past them; otherwise the next one is allocated
+  let invoiceNumber = data.invoiceNumber
+  if (invoiceNumber) {
+    if (await isInvoiceNumberTaken(executor, userId, invoiceNumber)) {
+      throw new InvoiceNumberConflictError(invoiceNumber)
+    }
+    await claimNumber(executor, userId, 'invoice', data.invoiceDate, invoiceNumber)
+  } else {
+    invoiceNumber = await allocateNumber(executor, userId, 'invoice', data.invoiceDate)
+  }
+
+  const dueDate = data.dueDate ?? computeDueDate(data.invoiceDate, await getClientPaymentTerms(executor, userId, client.id))
+  const [invoice] = await withInvoiceNumber(invoiceNumber, () => executor
+    .insert(invoices)
+    .values({
+      userId,
+      clientId: client.id,
+      client: client.name,
+      description: data.description,
+      invoiceDate: data.invoiceDate,
+      dueDate,
+      paymentDate: data.paymentDate,
+      amountHt: totals.amountHt,
+      taxRate: totals.taxRate,
+      amountTtc: totals.amountTtc,
+      currency,
+      exchangeRate,
+      tvaRegime,
+      activityType,
+      invoiceNumber,
+      note: data.note,
+    })
+    .returning())
+
+  const lines = await executor
+    .insert(invoiceLines)
+    .values(rows.map((row) => ({ ...row, invoiceId: invoice.id })))
+    .returning()
+
+  // An invoice created as paid is settled by a single payment
+  if (data.paymentDate) {
+    await executor.insert(invoicePayments).values({
+      invoiceId: invoice.id,
+      paymentDate: data.paymentDate,
+      amount: totals.amountTtc,
+    })
+  }
+
+  return { ...invoice, lines }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { findSequenceGaps, formatDocumentNumber, getPeriodKey, parseSequence, validateNumberPattern } from './invoice-numbering'
+
+describe('validateNumberPattern', () => {
+  it('accepts the default and prefixed patterns', () => {
+    expect(validateNumberPattern('{YYYY}{MM}{SEQ:2}', 'yearly')).toBeNull()
+    expect(validateNumberPattern('F-{YYYY}-{SEQ:4}', 'yearly')).toBeNull()
+    expect(validateNumberPattern('FAC{SEQ:6}', 'never')).toBeNull()
+  })
+
+  it('requires exactly one sequence', () => {
+    expect(validateNumberPattern('F-{YYYY}', 'yearly')).not.toBeNull()
+    expect(validateNumberPattern('{SEQ:2}-{SEQ:2}', 'never')).not.toBeNull()
+  })
+
+  it('rejects unknown variables and unsafe characters', () => {
+    expect(validateNumberPattern('{YEAR}-{SEQ:3}', 'never')).not.toBeNull()
+    expect(validateNumberPattern('F {YYYY} {SEQ:3}', 'yearly')).not.toBeNull()
+  })
+
+  it('requires the date parts the reset period depends on', () => {
+    expect(validateNumberPattern('F-{SEQ:4}', 'yearly')).not.toBeNull()
+    expect(validateNumberPattern('F-{YYYY}-{SEQ:4}', 'monthly')).not.toBeNull()
+    expect(validateNumberPattern('F-{YY}{MM}-{SEQ:3}', 'monthly')).toBeNull()
+  })
+})
+
+describe('getPeriodKey', () => {
+  it('buckets dates by reset period', () => {
+    expect(getPeriodKey('2025-03-14', 'yearly')).toBe('2025')
+    expect(getPeriodKey('2025-03-14', 'monthly')).toBe('2025-03')
+    expect(getPeriodKey('2025-03-14', 'never')).toBe('all')
+  })
+})
+
+describe('formatDocumentNumber', () => {
+  it('keeps the historical yyyymmxx format by default', () => {
+    expect(formatDocumentNumber('{YYYY}{MM}{SEQ:2}', '2025-03-14', 7)).toBe('20250307')
+  })
+
+  it('pads the sequence and lets it overflow its width', () => {
+    expect(formatDocumentNumber('F-{YY}-{SEQ:4}', '2025-03-14', 42)).toBe('F-25-0042')
+    expect(formatDocumentNumber('{YYYY}{MM}{SEQ:2}', '2025-03-14', 123)).toBe('202503123')
+  })
+})
+
+describe('parseSequence', () => {
+  it('reads the sequence of a number from the same year, whatever its month', () => {
+    expect(parseSequence('{YYYY}{MM}{SEQ:2}', 'yearly', '2025-03-14', '20250112')).toBe(12)
+    expect(parseSequence('F-{YYYY}-{SEQ:4}', 'yearly', '2025-03-14', 'F-2025-0103')).toBe(103)
+  })
+
+  it('ignores numbers of another period or pattern', () => {
+    expect(parseSequence('{YYYY}{MM}{SEQ:2}', 'yearly', '2025-03-14', '20241212')).toBeNull()
+    expect(parseSequence('{YYYY}{MM}{SEQ:2}', 'monthly', '2025-03-14', '20250212')).toBeNull()
+    expect(parseSequence('F-{YYYY}-{SEQ:4}', 'yearly', '2025-03-14', 'FX2025-0103')).toBeNull()
+    expect(parseSequence('F-{YYYY}-{SEQ:4}', 'yearly', '2025-03-14', 'custom-1')).toBeNull()
+  })
+
+  it('matches any year when the sequence never resets', () => {
+    expect(parseSequence('{YYYY}-{SEQ:3}', 'never', '2025-03-14', '2023-017')).toBe(17)
+  })
+})
+
+describe('findSequenceGaps', () => {
+  it('lists values handed out but not used', () => {
+    expect(findSequenceGaps([1, 2, 4, 6], 6)).toEqual([3, 5])
+  })
+
+  it('is empty for a continuous sequence', () => {
+    expect(findSequenceGaps([3, 1, 2], 3)).toEqual([])
+    expect(findSequenceGaps([], 0)).toEqual([])
+  })
+})
@@ -0,0 +1,234 @@
+import { eq, and, ne, isNotNull, sql } from 'drizzle-orm'
+import { invoices, numberingSequences, settings } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+
+export type DocumentType = 'invoice' | 'credit_note'
+export type NumberingReset = 'yearly' | 'monthly' | 'never'
+
+export const NUMBERING_RESETS = ['yearly', 'monthly', 'never'] as const
+export const DEFAULT_INVOICE_NUMBER_PATTERN = '{YYYY}{MM}{SEQ:2}'
+
+// Credit notes keep a fixed pattern, on a sequence of their own
+const CREDIT_NOTE_NUMBERING = { pattern: 'AV{YYYY}{MM}{SEQ:2}', reset: 'yearly' as NumberingReset }
+
+const TOKEN_PATTERN = /\{(YYYY|YY|MM|SEQ:([1-8]))\}/g
+
+export class InvoiceNumberConflictError extends Error {
+  constructor(public readonly invoiceNumber: string) {
+    super(`Le numéro ${invoiceNumber} est déjà utilisé par une autre facture`)
+  }
+}
+
+// Postgres unique_violation on the (user, number) index of the invoices
+const INVOICE_NUMBER_INDEX = 'invoices_user_id_number_idx'
+
+function isInvoiceNumberViolation(error: unknown): boolean {
+  // Drizzle wraps the driver error of a failed query in its cause
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const { code, constraint_name: constraint } = current as Error & { code?: string; constraint_name?: string }
+    if (code === '23505') return constraint === INVOICE_NUMBER_INDEX
+  }
+  return false
+}
+
+// The uniqueness check runs before the write: a concurrent document can still take the number in
+// between, the unique index then rejects the write and the conflict is reported the same way
+export async function withInvoiceNumber<T>(invoiceNumber: string, write: () => Promise<T>): Promise<T> {
+  try {
+    return await write()
+  } catch (error) {
+    if (isInvoiceNumberViolation(error)) throw new InvoiceNumberConflictError(invoiceNumber)
+    throw error
+  }
+}
+
+interface NumberingConfig {
+  pattern: string
+  reset: NumberingReset
+}
+
+// Returns an error message, or null when the pattern can number documents without collisions
+export function validateNumberPattern(pattern: string, reset: NumberingReset): string | null {
+  const tokens = [...pattern.matchAll(TOKEN_PATTERN)].map((match) => match[1])
+  const literal = pattern.replace(TOKEN_PATTERN, '')
+
+  if (tokens.filter((token) => token.startsWith('SEQ')).length !== 1) {
+    return 'Le format doit contenir une seule séquence {SEQ:n}'
+  }
+  if (/[{}]/.test(literal)) {
+    return 'Variable inconnue : utilisez {YYYY}, {YY}, {MM} ou {SEQ:n}'
+  }
+  if (!/^[A-Za-z0-9\-_/.]*$/.test(literal)) {
+    return 'Seuls les lettres, chiffres et séparateurs - _ / . sont autorisés'
+  }
+  const hasYear = tokens.includes('YYYY') || tokens.includes('YY')
+  if (reset !== 'never' && !hasYear) {
+    return 'Le format doit contenir l\'année pour une séquence remise à zéro'
+  }
+  if (reset === 'monthly' && !tokens.includes('MM')) {
+    return 'Le format doit contenir le mois pour une séquence remise à zéro chaque mois'
+  }
+  return null
+}
+
+// Sequence bucket the date belongs to
+export function getPeriodKey(date: string, reset: NumberingReset): string {
+  if (reset === 'monthly') return date.slice(0, 7)
+  if (reset === 'yearly') return date.slice(0, 4)
+  return 'all'
+}
+
+export function formatDocumentNumber(pattern: string, date: string, sequence: number): string {
+  const [year, month] = date.split('-')
+  return pattern.replace(TOKEN_PATTERN, (_, token: string, width?: string) => {
+    if (token === 'YYYY') return year
+    if (token === 'YY') return year.slice(2)
+    if (token === 'MM') return month
+    return sequence.toString().padStart(Number(width), '0')
+  })
+}
+
+// Sequence value of a number in the period of the date, or null if it does not follow the pattern
+export function parseSequence(pattern: string, reset: NumberingReset, date: string, number: string): number | null {
+  const [year, month] = date.split('-')
+  let source = '^'
+  let lastIndex = 0
+
+  for (const match of pattern.matchAll(TOKEN_PATTERN)) {
+    source += pattern.slice(lastIndex, match.index).replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    lastIndex = match.index! + match[0].length
+    const token = match[1]
+    // Only the date parts defining the period are pinned, the others may take any value
+    if (token === 'YYYY') source += reset === 'never' ? '\\d{4}' : year
+    else if (token === 'YY') source += reset === 'never' ? '\\d{2}' : year.slice(2)
+    else if (token === 'MM') source += reset === 'monthly' ? month : '\\d{2}'
+    else source += `(\\d{${match[2]},})`
+  }
+  source += pattern.slice(lastIndex).replace(/[.*+?^${}()|[\]\\/]/g, '\\$&') + '$'
+
+  const result = new RegExp(source).exec(number)
+  return result ? parseInt(result[1], 10) : null
+}
+
+// Sequence values between 1 and the last one handed out that no document carries
+export function findSequenceGaps(sequences: number[], lastValue: number): number[] {
+  const used = new Set(sequences)
+  const gaps: number[] = []
+  for (let value = 1; value <= lastValue; value++) {
+    if (!used.has(value)) gaps.push(value)
+  }
+  return gaps
+}
+
+async function getNumberingConfig(executor: DbExecutor, userId: string, documentType: DocumentType): Promise<NumberingConfig> {
+  if (documentType === 'credit_note') return CREDIT_NOTE_NUMBERING
+
+  const [userSettings] = await executor
+    .select({ pattern: settings.invoiceNumberPattern, reset: settings.invoiceNumberReset })
+    .from(settings)
+    .where(eq(settings.userId, userId))
+
+  return userSettings
+    ? { pattern: userSettings.pattern, reset: userSettings.reset as NumberingReset }
+    : { pattern: DEFAULT_INVOICE_NUMBER_PATTERN, reset: 'yearly' }
+}
+
+async function getLastValue(executor: DbExecutor, userId: string, documentType: DocumentType, periodKey: string) {
+  const [sequence] = await executor
+    .select({ lastValue: numberingSequences.lastValue })
+    .from(numberingSequences)
+    .where(
+      and(
+        eq(numberingSequences.userId, userId),
+        eq(numberingSequences.documentType, documentType),
+        eq(numberingSequences.periodKey, periodKey)
+      )
+    )
+  return sequence?.lastValue ?? 0
+}
+
+// Raise the sequence to at least `value`; the row lock serializes concurrent allocations until commit
+async function advanceSequence(
+  executor: DbExecutor,
+  userId: string,
+  documentType: DocumentType,
+  periodKey: string,
+  value?: number
+): Promise<number> {
+  const [sequence] = await executor
+    .insert(numberingSequences)
+    .values({ userId, documentType, periodKey, lastValue: value ?? 1 })
+    .onConflictDoUpdate({
+      target: [numberingSequences.userId, numberingSequences.documentType, numberingSequences.periodKey],
+      set: {
+        lastValue: value === undefined
+          ? sql`${numberingSequences.lastValue} + 1`
+          : sql`GREATEST(${numberingSequences.lastValue}, ${value})`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ lastValue: numberingSequences.lastValue })
+  return sequence.lastValue
+}
+
+export async function isInvoiceNumberTaken(executor: DbExecutor, userId: string, invoiceNumber: string, excludeId?: string) {
+  const conditions = [eq(invoices.userId, userId), eq(invoices.invoiceNumber, invoiceNumber)]
+  if (excludeId) conditions.push(ne(invoices.id, excludeId))
+
+  const [existing] = await executor
+    .select({ id: invoices.id })
+    .from(invoices)
+    .where(and(...conditions))
+    .limit(1)
+  return Boolean(existing)
+}
+
+// Number the next document would get, without reserving it
+export async function peekNextNumber(executor: DbExecutor, userId: string, documentType: DocumentType, date: string) {
+  const { pattern, reset } = await getNumberingConfig(executor, userId, documentType)
+  let sequence = await getLastValue(executor, userId, documentType, getPeriodKey(date, reset)) + 1
+  let number = formatDocumentNumber(pattern, date, sequence)
+  // Numbers typed by hand may already occupy the next values
+  while (await isInvoiceNumberTaken(executor, userId, number)) {
+    number = formatDocumentNumber(pattern, date, ++sequence)
+  }
+  return number
+}
+
+// Hand out the next number; run inside the transaction inserting the document so a rollback leaves no gap
+export async function allocateNumber(executor: DbExecutor, userId: string, documentType: DocumentType, date: string) {
+  const { pattern, reset } = await getNumberingConfig(executor, userId, documentType)
+  const periodKey = getPeriodKey(date, reset)
+  let number = formatDocumentNumber(pattern, date, await advanceSequence(executor, userId, documentType, periodKey))
+  while (await isInvoiceNumberTaken(executor, userId, number)) {
+    number = formatDocumentNumber(pattern, date, await advanceSequence(executor, userId, documentType, periodKey))
+  }
+  return number
+}
+
+// A number typed by hand that follows the pattern moves the sequence past it
+export async function claimNumber(executor: DbExecutor, userId: string, documentType: DocumentType, date: string, number: string) {
+  const { pattern, reset } = await getNumberingConfig(executor, userId, documentType)
+  const sequence = parseSequence(pattern, reset, date, number)
+  if (sequence !== null) {
+    await advanceSequence(executor, userId, documentType, getPeriodKey(date, reset), sequence)
+  }
+}
+
+// Sequence values of the period containing `date` that were handed out but no document carries (deleted or skipped)
+export async function getSequenceGaps(executor: DbExecutor, userId: string, documentType: DocumentType, date: string) {
+  const { pattern, reset } = await getNumberingConfig(executor, userId, documentType)
+  const periodKey = getPeriodKey(date, reset)
+  const lastValue = await getLastValue(executor, userId, documentType, periodKey)
+
+  const rows = await executor
+    .select({ invoiceNumber: invoices.invoiceNumber })
+    .from(invoices)
+    .where(and(eq(invoices.userId, userId), eq(invoices.type, documentType), isNotNull(invoices.invoiceNumber)))
+
+  const sequences = rows
+    .map((row) => parseSequence(pattern, reset, date, row.invoiceNumber!))
+    .filter((sequence): sequence is number => sequence !== null)
+
+  return { periodKey, lastValue, missing: findSequenceGaps(sequences, lastValue) }
+}
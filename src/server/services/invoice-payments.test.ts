@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getOutstandingAmount, getSettlementDate } from './invoice-payments'
+
+vi.mock('../db', () => ({ db: {} }))
+
+describe('getOutstandingAmount', () => {
+  it('subtracts installments from the invoice total', () => {
+    expect(getOutstandingAmount(1200, [
+      { paymentDate: '2025-01-10', amount: 360 },
+      { paymentDate: '2025-02-10', amount: 500.1 },
+    ])).toBe(339.9)
+  })
+
+  it('stays negative for a credit note awaiting refund', () => {
+    expect(getOutstandingAmount(-240, [{ paymentDate: '2025-03-01', amount: -100 }])).toBe(-140)
+  })
+})
+
+describe('getSettlementDate', () => {
+  it('is null while a balance remains', () => {
+    expect(getSettlementDate(1200, [{ paymentDate: '2025-01-10', amount: 360 }])).toBeNull()
+  })
+
+  it('is null without payments', () => {
+    expect(getSettlementDate(1200, [])).toBeNull()
+  })
+
+  it('uses the date of the latest payment once settled', () => {
+    expect(getSettlementDate(1200, [
+      { paymentDate: '2025-02-10', amount: 840 },
+      { paymentDate: '2025-01-10', amount: 360 },
+    ])).toBe('2025-02-10')
+  })
+
+  it('settles a credit note once fully refunded', () => {
+    expect(getSettlementDate(-240, [
+      { paymentDate: '2025-03-01', amount: -100 },
+      { paymentDate: '2025-03-20', amount: -140 },
+    ])).toBe('2025-03-20')
+  })
+})
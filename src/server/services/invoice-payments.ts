@@ -0,0 +1,153 @@
+import { eq, and, gte, lte, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { invoices, invoiceLines, invoicePayments } from '../db/schema'
+import { groupTaxByRate, roundCents } from './invoice-totals'
+import { eurAmount } from './currency'
+import { emptyActivityAmounts } from './activity-rates'
+import type { MicroActivityType } from './micro-ceiling'
+
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+export interface PaymentAmount {
+  paymentDate: string
+  amount: number
+}
+
+// Share of the invoice covered by a payment: HT and TVA are prorated by this ratio
+const paidShare = sql`${invoicePayments.amount}::numeric / NULLIF(${invoices.amountTtc}::numeric, 0)`
+
+// Payments are in the invoice currency; aggregates below are converted at the invoice rate
+const paymentEur = eurAmount(invoicePayments.amount, invoices.exchangeRate)
+
+// Remaining balance, signed like the invoice (negative for a credit note awaiting refund)
+export function getOutstandingAmount(amountTtc: number, payments: PaymentAmount[]): number {
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0)
+  return roundCents(amountTtc - paid)
+}
+
+// The invoice counts as paid on the date its last payment settled the balance
+export function getSettlementDate(amountTtc: number, payments: PaymentAmount[]): string | null {
+  if (payments.length === 0 || getOutstandingAmount(amountTtc, payments) * Math.sign(amountTtc) > 0) {
+    return null
+  }
+  return payments.reduce((latest, payment) => (payment.paymentDate > latest ? payment.paymentDate : latest), payments[0].paymentDate)
+}
+
+export async function getInvoicePayments(executor: DbExecutor, invoiceId: string) {
+  return executor
+    .select()
+    .from(invoicePayments)
+    .where(eq(invoicePayments.invoiceId, invoiceId))
+    .orderBy(invoicePayments.paymentDate, invoicePayments.createdAt)
+}
+
+// Recompute invoices.paymentDate from the recorded payments
+export async function syncInvoicePaymentDate(executor: DbExecutor, invoiceId: string, amountTtc: string) {
+  const payments = await getInvoicePayments(executor, invoiceId)
+  const paymentDate = getSettlementDate(
+    parseFloat(amountTtc),
+    payments.map((payment) => ({ paymentDate: payment.paymentDate, amount: parseFloat(payment.amount) }))
+  )
+
+  await executor.update(invoices).set({ paymentDate }).where(eq(invoices.id, invoiceId))
+  return paymentDate
+}
+
+// Cash received within the period in EUR, with HT prorated on each payment
+export async function getCashReceived(userId: string, startDate: string, endDate: string) {
+  const result = await db
+    .select({
+      totalHt: sql<string>`COALESCE(SUM(${eurAmount(invoices.amountHt, invoices.exchangeRate)} * ${paidShare}), 0)`,
+      totalTtc: sql<string>`COALESCE(SUM(${paymentEur}), 0)`,
+    })
+    .from(invoicePayments)
+    .innerJoin(invoices, eq(invoicePayments.invoiceId, invoices.id))
+    .where(
+      and(
+        eq(invoices.userId, userId),
+        gte(invoicePayments.paymentDate, startDate),
+        lte(invoicePayments.paymentDate, endDate)
+      )
+    )
+
+  const totalHt = roundCents(parseFloat(result[0].totalHt))
+  const totalTtc = roundCents(parseFloat(result[0].totalTtc))
+  return { totalHt, totalTtc, tvaCollected: roundCents(totalTtc - totalHt) }
+}
+
+// Cash received HT within the period in EUR, split by the activity of the invoices
+export async function getCashReceivedByActivity(userId: string, startDate: string, endDate: string) {
+  const rows = await db
+    .select({
+      activityType: invoices.activityType,
+      totalHt: sql<string>`COALESCE(SUM(${eurAmount(invoices.amountHt, invoices.exchangeRate)} * ${paidShare}), 0)`,
+    })
+    .from(invoicePayments)
+    .innerJoin(invoices, eq(invoicePayments.invoiceId, invoices.id))
+    .where(
+      and(
+        eq(invoices.userId, userId),
+        gte(invoicePayments.paymentDate, startDate),
+        lte(invoicePayments.paymentDate, endDate)
+      )
+    )
+    .groupBy(invoices.activityType)
+
+  const revenue = emptyActivityAmounts()
+  for (const row of rows) {
+    revenue[row.activityType as MicroActivityType] = roundCents(parseFloat(row.totalHt))
+  }
+  return revenue
+}
+
+// HT base and TVA collected per rate in EUR for payments received within the period
+export async function getCollectedByRate(userId: string, startDate: string, endDate: string) {
+  const rows = await db
+    .select({
+      taxRate: invoiceLines.taxRate,
+      baseHt: sql<string>`COALESCE(SUM(${eurAmount(invoiceLines.amountHt, invoices.exchangeRate)} * ${paidShare}), 0)`,
+    })
+    .from(invoicePayments)
+    .innerJoin(invoices, eq(invoicePayments.invoiceId, invoices.id))
+    .innerJoin(invoiceLines, eq(invoiceLines.invoiceId, invoices.id))
+    .where(
+      and(
+        eq(invoices.userId, userId),
+        gte(invoicePayments.paymentDate, startDate),
+        lte(invoicePayments.paymentDate, endDate)
+      )
+    )
+    .groupBy(invoiceLines.taxRate)
+
+  return groupTaxByRate(rows.map((row) => ({ taxRate: parseFloat(row.taxRate), amountHt: parseFloat(row.baseHt) })))
+}
+
+// One row per payment received within the period, for declaration details (amountHt in EUR)
+export async function getReceiptsInPeriod(userId: string, startDate: string, endDate: string) {
+  const rows = await db
+    .select({
+      id: invoicePayments.id,
+      invoiceId: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      client: invoices.client,
+      paymentDate: invoicePayments.paymentDate,
+      method: invoicePayments.method,
+      amount: invoicePayments.amount,
+      currency: invoices.currency,
+      tvaRegime: invoices.tvaRegime,
+      activityType: invoices.activityType,
+      amountHt: sql<string>`ROUND(${eurAmount(invoices.amountHt, invoices.exchangeRate)} * COALESCE(${paidShare}, 0), 2)`,
+    })
+    .from(invoicePayments)
+    .innerJoin(invoices, eq(invoicePayments.invoiceId, invoices.id))
+    .where(
+      and(
+        eq(invoices.userId, userId),
+        gte(invoicePayments.paymentDate, startDate),
+        lte(invoicePayments.paymentDate, endDate)
+      )
+    )
+    .orderBy(invoicePayments.paymentDate)
+
+  return rows
+}
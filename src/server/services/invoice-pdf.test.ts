@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildLegalMentions,
+  formatPdfCurrency,
+  renderInvoicePdf,
+} from './invoice-pdf'
+
+const invoice = {
+  id: 'invoice-id',
+  userId: 'user-id',
+  type: 'invoice',
+  creditedInvoiceId: null,
+  clientId: 'client-id',
+  client: 'Acme Corp',
+  description: 'Développement web',
+  invoiceDate: '2025-01-15',
+  dueDate: '2025-02-14',
+  paymentDate: null,
+  amountHt: '1000.00',
+  taxRate: '20.00',
+  amountTtc: '1200.00',
+  currency: 'EUR',
+  exchangeRate: '1.000000',
+  tvaRegime: 'domestic',
+  activityType: 'bnc',
+  invoiceNumber: '20250101',
+  note: null,
+  createdAt: new Date(),
+}
+
+const lines = [
+  {
+    id: 'line-1',
+    invoiceId: 'invoice-id',
+    position: 0,
+    description: 'Développement web',
+    quantity: '2.000',
+    unit: 'jour',
+    unitPrice: '450.00',
+    taxRate: '20.00',
+    discount: '0.00',
+    amountHt: '900.00',
+    createdAt: new Date(),
+  },
+  {
+    id: 'line-2',
+    invoiceId: 'invoice-id',
+    position: 1,
+    description: 'Support technique',
+    quantity: '1.000',
+    unit: null,
+    unitPrice: '125.00',
+    taxRate: '20.00',
+    discount: '20.00',
+    amountHt: '100.00',
+    createdAt: new Date(),
+  },
+]
+
+const issuer = {
+  id: 'issuer-id',
+  userId: 'user-id',
+  companyName: 'Jean Dupont',
+  legalForm: 'Entrepreneur individuel (EI)',
+  address: '12 rue de la Paix',
+  postalCode: '75002',
+  city: 'Paris',
+  country: 'France',
+  siret: '12345678900012',
+  tvaNumber: 'FR12123456789',
+  email: null,
+  phone: null,
+  iban: 'FR7630006000011234567890189',
+  bic: 'AGRIFRPP',
+  paymentTermsDays: 30,
+  paymentTermsEndOfMonth: false,
+  latePenaltyRate: '12.15',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+describe('formatPdfCurrency', () => {
+  it('uses plain spaces as thousands separator', () => {
+    expect(formatPdfCurrency(1234.5)).toBe('1 234,50 €')
+  })
+
+  it('formats amounts in the invoice currency', () => {
+    expect(formatPdfCurrency(1234.5, 'USD')).toBe('1 234,50 $US')
+  })
+})
+
+describe('buildLegalMentions', () => {
+  it('includes late penalty and recovery indemnity clauses', () => {
+    const mentions = buildLegalMentions(invoice, issuer).join(' ')
+    expect(mentions).toContain('12,15 %')
+    expect(mentions).toContain('40 €')
+    expect(mentions).toContain("Pas d'escompte")
+  })
+
+  it('adds the franchise mention for franchise invoices', () => {
+    const mentions = buildLegalMentions({ ...invoice, taxRate: '0.00', tvaRegime: 'franchise' }, { ...issuer, tvaNumber: null })
+    expect(mentions[0]).toBe('TVA non applicable, art. 293 B du CGI.')
+  })
+
+  it('adds the reverse charge and export mentions', () => {
+    expect(buildLegalMentions({ ...invoice, taxRate: '0.00', tvaRegime: 'intra_eu' }, issuer)[0]).toContain('Autoliquidation')
+    expect(buildLegalMentions({ ...invoice, taxRate: '0.00', tvaRegime: 'export' }, issuer)[0]).toContain('art. 259-1 du CGI')
+    expect(buildLegalMentions({ ...invoice, taxRate: '0.00', tvaRegime: 'export', activityType: 'sales' }, issuer)[0]).toContain('art. 262 I du CGI')
+  })
+
+  it('uses the client payment terms when provided', () => {
+    const mentions = buildLegalMentions(invoice, issuer, { days: 45, endOfMonth: false }).join(' ')
+    expect(mentions).toContain('45 jours')
+  })
+
+  it('omits payment terms on credit notes', () => {
+    const mentions = buildLegalMentions({ ...invoice, type: 'credit_note' }, issuer)
+    expect(mentions.some((m) => m.includes('pénalités'))).toBe(false)
+  })
+
+  it('states the exchange rate and the TVA in euros for a foreign currency invoice', () => {
+    const mentions = buildLegalMentions({ ...invoice, currency: 'USD', exchangeRate: '1.250000' }, issuer).join(' ')
+    expect(mentions).toContain('1 EUR = 1,25 USD')
+    expect(mentions).toContain('Montant de la TVA en euros : 160,00 €')
+  })
+
+  it('omits the exchange rate mention for euro invoices', () => {
+    const mentions = buildLegalMentions(invoice, issuer)
+    expect(mentions.some((m) => m.includes('taux de change'))).toBe(false)
+  })
+
+  it('omits the franchise mention when TVA applies', () => {
+    const mentions = buildLegalMentions(invoice, issuer)
+    expect(mentions.some((m) => m.includes('293 B'))).toBe(false)
+  })
+})
+
+describe('renderInvoicePdf', () => {
+  it('renders a PDF document', async () => {
+    const pdf = await renderInvoicePdf({
+      invoice,
+      lines,
+      issuer,
+      client: { name: invoice.client, address: '1 avenue des Champs', postalCode: '75008', city: 'Paris', siret: '98765432100015' },
+    })
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+  })
+})
@@ -0,0 +1,349 @@
+import PDFDocument from 'pdfkit'
+import type { invoices, invoiceLines, issuerProfiles } from '../db/schema'
+import { groupTaxByRate } from './invoice-totals'
+import { toEur } from './currency'
+import { tvaRegimeMention } from './tva-regimes'
+import type { TvaRegime } from './tva-regimes'
+import { computeDueDate, describePaymentTerms, RECOVERY_INDEMNITY, resolvePaymentTerms } from './payment-terms'
+import type { PaymentTerms } from './payment-terms'
+
+type InvoiceRecord = typeof invoices.$inferSelect
+type InvoiceLineRecord = typeof invoiceLines.$inferSelect
+type IssuerProfileRecord = typeof issuerProfiles.$inferSelect
+
+export interface InvoicePdfClient {
+  name: string
+  address?: string | null
+  postalCode?: string | null
+  city?: string | null
+  country?: string
+  siren?: string | null
+  siret?: string | null
+  tvaNumber?: string | null
+  email?: string | null
+  paymentTermsDays?: number | null
+  paymentTermsEndOfMonth?: boolean | null
+}
+
+export interface InvoicePdfData {
+  invoice: InvoiceRecord
+  // Set when rendering a credit note (avoir)
+  creditedInvoice?: Pick<InvoiceRecord, 'invoiceNumber' | 'invoiceDate'> | null
+  lines: InvoiceLineRecord[]
+  issuer: IssuerProfileRecord
+  client: InvoicePdfClient
+}
+
+const PAGE_MARGIN = 50
+const TEXT_COLOR = '#111827'
+const MUTED_COLOR = '#6B7280'
+const BORDER_COLOR = '#E5E7EB'
+
+// Name of the XML attachment required by the Factur-X specification
+export const FACTURX_FILENAME = 'factur-x.xml'
+
+export interface RenderInvoicePdfOptions {
+  // CII XML to embed: the document is then produced as a Factur-X PDF/A-3
+  facturXml?: string
+}
+
+// The Factur-X file is declared by the relationship of its attachment, which the typings omit
+interface FacturXAttachmentOptions extends PDFKit.Mixins.PDFAttachmentOptions {
+  relationship: 'Source' | 'Data' | 'Alternative' | 'Supplement' | 'Unspecified'
+}
+
+export class MissingPdfFontError extends Error {
+  constructor() {
+    super('Export Factur-X impossible : définissez PDF_FONT_REGULAR et PDF_FONT_BOLD avec des polices TrueType, le PDF/A-3 interdit les polices non incorporées')
+  }
+}
+
+// PDF/A forbids the non-embedded standard fonts: Factur-X documents need both paths set to
+// TrueType files, plain PDFs fall back to Helvetica
+function embeddedFontPaths() {
+  const regular = process.env.PDF_FONT_REGULAR
+  const bold = process.env.PDF_FONT_BOLD
+  return regular && bold ? { regular, bold } : null
+}
+
+function resolveFonts(doc: PDFKit.PDFDocument) {
+  const paths = embeddedFontPaths()
+  if (paths) {
+    doc.registerFont('Regular', paths.regular)
+    doc.registerFont('Bold', paths.bold)
+    return { regular: 'Regular', bold: 'Bold' }
+  }
+  return { regular: 'Helvetica', bold: 'Helvetica-Bold' }
+}
+
+// XMP properties identifying the attachment, with the extension schema PDF/A requires to declare them
+function facturXMetadata(): string {
+  const properties = [
+    ['DocumentFileName', 'Name of the embedded XML invoice file'],
+    ['DocumentType', 'Type of the hybrid document'],
+    ['Version', 'Version of the Factur-X XML schema'],
+    ['ConformanceLevel', 'Conformance level of the embedded XML invoice'],
+  ]
+  return `
+        <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+            <fx:DocumentType>INVOICE</fx:DocumentType>
+            <fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>
+            <fx:Version>1.0</fx:Version>
+            <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>
+        </rdf:Description>
+        <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+            <pdfaExtension:schemas>
+                <rdf:Bag>
+                    <rdf:li rdf:parseType="Resource">
+                        <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+                        <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+                        <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+                        <pdfaSchema:property>
+                            <rdf:Seq>${properties.map(([name, description]) => `
+                                <rdf:li rdf:parseType="Resource">
+                                    <pdfaProperty:name>${name}</pdfaProperty:name>
+                                    <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                                    <pdfaProperty:category>external</pdfaProperty:category>
+                                    <pdfaProperty:description>${description}</pdfaProperty:description>
+                                </rdf:li>`).join('')}
+                            </rdf:Seq>
+                        </pdfaSchema:property>
+                    </rdf:li>
+                </rdf:Bag>
+            </pdfaExtension:schemas>
+        </rdf:Description>
+        `
+}
+
+// Intl fr-FR output uses narrow no-break spaces that the standard PDF fonts cannot render
+function normalizeSpaces(value: string): string {
+  return value.replace(/[\u202f\u00a0]/g, ' ')
+}
+
+export function formatPdfCurrency(amount: string | number, currency = 'EUR'): string {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount
+  return normalizeSpaces(
+    new Intl.NumberFormat('fr-FR', { style: 'currency', currency }).format(num)
+  )
+}
+
+function formatPdfExchangeRate(rate: string): string {
+  return parseFloat(rate).toString().replace('.', ',')
+}
+
+function formatPdfRate(rate: number): string {
+  return `${rate.toString().replace('.', ',')} %`
+}
+
+function formatPdfQuantity(quantity: string, unit: string | null): string {
+  const value = parseFloat(quantity).toString().replace('.', ',')
+  return unit ? `${value} ${unit}` : value
+}
+
+export function formatPdfDate(date: string): string {
+  const [year, month, day] = date.split('-')
+  return `${day}/${month}/${year}`
+}
+
+// Mandatory mentions for a French B2B invoice (art. L441-9 du Code de commerce, art. 242 nonies A annexe II CGI)
+export function buildLegalMentions(
+  invoice: InvoiceRecord,
+  issuer: IssuerProfileRecord,
+  paymentTerms: PaymentTerms = resolvePaymentTerms({}, issuer)
+): string[] {
+  const mentions: string[] = []
+  const latePenaltyRate = parseFloat(issuer.latePenaltyRate).toFixed(2).replace('.', ',')
+
+  const regimeMention = tvaRegimeMention(invoice.tvaRegime as TvaRegime, invoice.activityType)
+  if (regimeMention) {
+    mentions.push(regimeMention)
+  }
+
+  // An invoice in a foreign currency must state its TVA in euros (art. 242 nonies A, I-10° annexe II CGI)
+  if (invoice.currency !== 'EUR') {
+    const taxAmountEur = toEur(parseFloat(invoice.amountTtc) - parseFloat(invoice.amountHt), parseFloat(invoice.exchangeRate))
+    mentions.push(
+      `Montants exprimés en ${invoice.currency}, taux de change appliqué : 1 EUR = ${formatPdfExchangeRate(invoice.exchangeRate)} ${invoice.currency}. ` +
+        `Montant de la TVA en euros : ${formatPdfCurrency(taxAmountEur)}.`
+    )
+  }
+
+  // Payment terms and late penalties do not apply to a credit note
+  if (invoice.type === 'credit_note') {
+    return mentions
+  }
+
+  mentions.push(
+    `Conditions de paiement : ${describePaymentTerms(paymentTerms)}. Pas d'escompte pour paiement anticipé.`,
+    `En cas de retard de paiement, des pénalités au taux annuel de ${latePenaltyRate} % sont exigibles (art. L441-10 du Code de commerce), ` +
+      `ainsi qu'une indemnité forfaitaire pour frais de recouvrement de ${RECOVERY_INDEMNITY} € (art. D441-5 du Code de commerce).`
+  )
+
+  return mentions
+}
+
+export function renderInvoicePdf(
+  { invoice, creditedInvoice, lines, issuer, client }: InvoicePdfData,
+  { facturXml }: RenderInvoicePdfOptions = {}
+): Promise<Buffer> {
+  if (facturXml && !embeddedFontPaths()) {
+    return Promise.reject(new MissingPdfFontError())
+  }
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `${invoice.type === 'credit_note' ? 'Avoir' : 'Facture'} ${invoice.invoiceNumber ?? ''}`.trim(),
+        Author: issuer.companyName,
+      },
+      ...(facturXml ? { pdfVersion: '1.7' as const, subset: 'PDF/A-3b' as const } : {}),
+    })
+
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    const fonts = resolveFonts(doc)
+    const isCreditNote = invoice.type === 'credit_note'
+    const pageWidth = doc.page.width - PAGE_MARGIN * 2
+    const rightColumnX = PAGE_MARGIN + pageWidth / 2
+    const paymentTerms = resolvePaymentTerms(client, issuer)
+    const dueDate = invoice.dueDate ?? computeDueDate(invoice.invoiceDate, paymentTerms)
+    const amountHt = parseFloat(invoice.amountHt)
+    const amountTtc = parseFloat(invoice.amountTtc)
+    const { currency } = invoice
+    const taxByRate = groupTaxByRate(
+      lines.map((line) => ({ taxRate: parseFloat(line.taxRate), amountHt: parseFloat(line.amountHt) }))
+    )
+
+    // Issuer block
+    doc.fillColor(TEXT_COLOR).font(fonts.bold).fontSize(14).text(issuer.companyName, PAGE_MARGIN, PAGE_MARGIN)
+    doc.font(fonts.regular).fontSize(9).fillColor(MUTED_COLOR)
+    doc.text(issuer.legalForm)
+    doc.text(issuer.address)
+    doc.text(`${issuer.postalCode} ${issuer.city}, ${issuer.country}`)
+    doc.text(`SIRET : ${issuer.siret}`)
+    if (issuer.tvaNumber) doc.text(`N° TVA intracommunautaire : ${issuer.tvaNumber}`)
+    if (issuer.email) doc.text(issuer.email)
+    if (issuer.phone) doc.text(issuer.phone)
+
+    // Invoice header block
+    doc.fillColor(TEXT_COLOR).font(fonts.bold).fontSize(20)
+      .text(isCreditNote ? 'AVOIR' : 'FACTURE', rightColumnX, PAGE_MARGIN, { width: pageWidth / 2, align: 'right' })
+    doc.font(fonts.regular).fontSize(10)
+    doc.text(`N° ${invoice.invoiceNumber}`, { width: pageWidth / 2, align: 'right' })
+    doc.text(`Date : ${formatPdfDate(invoice.invoiceDate)}`, { width: pageWidth / 2, align: 'right' })
+    if (isCreditNote && creditedInvoice) {
+      doc.text(
+        `Sur facture N° ${creditedInvoice.invoiceNumber ?? '-'} du ${formatPdfDate(creditedInvoice.invoiceDate)}`,
+        { width: pageWidth / 2, align: 'right' }
+      )
+    } else if (!isCreditNote) {
+      doc.text(`Échéance : ${formatPdfDate(dueDate)}`, { width: pageWidth / 2, align: 'right' })
+    }
+
+    // Client block
+    const clientY = 190
+    doc.font(fonts.bold).fontSize(9).fillColor(MUTED_COLOR).text('FACTURÉ À', rightColumnX, clientY)
+    doc.font(fonts.bold).fontSize(11).fillColor(TEXT_COLOR).text(client.name, rightColumnX, clientY + 14, { width: pageWidth / 2 })
+    doc.font(fonts.regular).fontSize(10)
+    if (client.address) doc.text(client.address, { width: pageWidth / 2 })
+    if (client.postalCode || client.city) {
+      doc.text([client.postalCode, client.city].filter(Boolean).join(' '), { width: pageWidth / 2 })
+    }
+    if (client.country && client.country !== 'FR') doc.text(client.country, { width: pageWidth / 2 })
+    doc.fontSize(9).fillColor(MUTED_COLOR)
+    if (client.siret) doc.text(`SIRET : ${client.siret}`, { width: pageWidth / 2 })
+    if (client.tvaNumber) doc.text(`N° TVA : ${client.tvaNumber}`, { width: pageWidth / 2 })
+
+    // Line items table
+    const tableY = Math.max(290, doc.y + 24)
+    const columns = [
+      { label: 'Désignation', x: PAGE_MARGIN, width: pageWidth - 290, align: 'left' as const },
+      { label: 'Qté', x: PAGE_MARGIN + pageWidth - 290, width: 55, align: 'right' as const },
+      { label: 'PU HT', x: PAGE_MARGIN + pageWidth - 235, width: 70, align: 'right' as const },
+      { label: 'Remise', x: PAGE_MARGIN + pageWidth - 165, width: 40, align: 'right' as const },
+      { label: 'TVA', x: PAGE_MARGIN + pageWidth - 125, width: 40, align: 'right' as const },
+      { label: 'Total HT', x: PAGE_MARGIN + pageWidth - 85, width: 85, align: 'right' as const },
+    ]
+
+    doc.font(fonts.bold).fontSize(9).fillColor(MUTED_COLOR)
+    for (const column of columns) {
+      doc.text(column.label, column.x, tableY, { width: column.width, align: column.align })
+    }
+    doc.moveTo(PAGE_MARGIN, tableY + 14).lineTo(PAGE_MARGIN + pageWidth, tableY + 14).strokeColor(BORDER_COLOR).stroke()
+
+    let rowY = tableY + 22
+    doc.font(fonts.regular).fontSize(10).fillColor(TEXT_COLOR)
+    for (const line of lines) {
+      const discount = parseFloat(line.discount)
+      const row = [
+        line.description,
+        formatPdfQuantity(line.quantity, line.unit),
+        formatPdfCurrency(line.unitPrice, currency),
+        discount > 0 ? formatPdfRate(discount) : '-',
+        formatPdfRate(parseFloat(line.taxRate)),
+        formatPdfCurrency(line.amountHt, currency),
+      ]
+      let rowBottom = rowY
+      columns.forEach((column, index) => {
+        doc.text(row[index], column.x, rowY, { width: column.width, align: column.align })
+        rowBottom = Math.max(rowBottom, doc.y)
+      })
+      rowY = rowBottom + 6
+    }
+
+    // Totals
+    const totalsY = rowY + 20
+    doc.moveTo(rightColumnX, totalsY - 8).lineTo(PAGE_MARGIN + pageWidth, totalsY - 8).strokeColor(BORDER_COLOR).stroke()
+    const totals = [
+      ['Total HT', formatPdfCurrency(amountHt, currency)],
+      ...taxByRate.map((group) => [
+        `TVA ${formatPdfRate(group.rate)} sur ${formatPdfCurrency(group.baseHt, currency)}`,
+        formatPdfCurrency(group.taxAmount, currency),
+      ]),
+      ['Total TTC', formatPdfCurrency(amountTtc, currency)],
+    ]
+    totals.forEach(([label, value], index) => {
+      const y = totalsY + index * 16
+      const isLast = index === totals.length - 1
+      doc.font(isLast ? fonts.bold : fonts.regular).fontSize(isLast ? 11 : 10)
+      doc.text(label, rightColumnX, y, { width: pageWidth / 4 })
+      doc.text(value, rightColumnX + pageWidth / 4, y, { width: pageWidth / 4, align: 'right' })
+    })
+
+    // Payment details
+    let footerY = totalsY + totals.length * 16 + 30
+    if (issuer.iban && !isCreditNote) {
+      doc.font(fonts.bold).fontSize(9).fillColor(MUTED_COLOR).text('RÈGLEMENT PAR VIREMENT', PAGE_MARGIN, footerY)
+      doc.font(fonts.regular).fontSize(9).fillColor(TEXT_COLOR)
+      doc.text(`IBAN : ${issuer.iban}${issuer.bic ? `  -  BIC : ${issuer.bic}` : ''}`)
+      footerY = doc.y + 16
+    }
+
+    if (invoice.note) {
+      doc.font(fonts.regular).fontSize(9).fillColor(TEXT_COLOR).text(invoice.note, PAGE_MARGIN, footerY, { width: pageWidth })
+      footerY = doc.y + 16
+    }
+
+    // Mentions légales
+    doc.font(fonts.regular).fontSize(8).fillColor(MUTED_COLOR)
+    doc.text(buildLegalMentions(invoice, issuer, paymentTerms).join('\n'), PAGE_MARGIN, footerY, { width: pageWidth })
+
+    if (facturXml) {
+      const attachment: FacturXAttachmentOptions = {
+        name: FACTURX_FILENAME,
+        type: 'text/xml',
+        description: 'Factur-X invoice',
+        relationship: 'Alternative',
+      }
+      doc.file(Buffer.from(facturXml, 'utf-8'), attachment)
+      doc.appendXML(facturXMetadata())
+    }
+
+    doc.end()
+  })
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { calculateLineAmountHt, calculateInvoiceTotals, groupTaxByRate } from './invoice-totals'
+
+describe('calculateLineAmountHt', () => {
+  it('multiplies quantity by unit price', () => {
+    expect(calculateLineAmountHt({ quantity: 3, unitPrice: 450, taxRate: 20 })).toBe(1350)
+  })
+
+  it('applies the line discount', () => {
+    expect(calculateLineAmountHt({ quantity: 2, unitPrice: 100, taxRate: 20, discount: 15 })).toBe(170)
+  })
+
+  it('rounds to the cent', () => {
+    expect(calculateLineAmountHt({ quantity: 1.5, unitPrice: 33.33, taxRate: 20 })).toBe(50)
+  })
+})
+
+describe('groupTaxByRate', () => {
+  it('sums bases per rate and computes TVA once per rate', () => {
+    const groups = groupTaxByRate([
+      { taxRate: 20, amountHt: 0.05 },
+      { taxRate: 20, amountHt: 0.05 },
+      { taxRate: 5.5, amountHt: 100 },
+    ])
+    expect(groups).toEqual([
+      { rate: 20, baseHt: 0.1, taxAmount: 0.02 },
+      { rate: 5.5, baseHt: 100, taxAmount: 5.5 },
+    ])
+  })
+})
+
+describe('calculateInvoiceTotals', () => {
+  it('keeps the single rate when all lines share it', () => {
+    const totals = calculateInvoiceTotals([
+      { quantity: 2, unitPrice: 500, taxRate: 20 },
+      { quantity: 1, unitPrice: 200, taxRate: 20 },
+    ])
+    expect(totals.amountHt).toBe('1200.00')
+    expect(totals.amountTtc).toBe('1440.00')
+    expect(totals.taxRate).toBe('20.00')
+    expect(totals.lineAmountsHt).toEqual(['1000.00', '200.00'])
+  })
+
+  it('returns a null rate for mixed-rate invoices', () => {
+    const totals = calculateInvoiceTotals([
+      { quantity: 1, unitPrice: 1000, taxRate: 20 },
+      { quantity: 2, unitPrice: 50, taxRate: 5.5 },
+    ])
+    expect(totals.amountHt).toBe('1100.00')
+    expect(totals.amountTtc).toBe('1305.50')
+    expect(totals.taxRate).toBeNull()
+    expect(totals.taxByRate).toHaveLength(2)
+  })
+})
@@ -0,0 +1,64 @@
+export interface InvoiceLineAmounts {
+  quantity: number
+  unitPrice: number
+  taxRate: number
+  discount?: number
+}
+
+export interface TaxRateTotal {
+  rate: number
+  baseHt: number
+  taxAmount: number
+}
+
+export interface InvoiceTotals {
+  amountHt: string
+  amountTtc: string
+  taxRate: string | null // null when lines use different rates
+  lineAmountsHt: string[]
+  taxByRate: TaxRateTotal[]
+}
+
+export function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+export function calculateLineAmountHt(line: InvoiceLineAmounts): number {
+  const discount = line.discount ?? 0
+  return roundCents(line.quantity * line.unitPrice * (1 - discount / 100))
+}
+
+// Group HT bases by TVA rate; TVA is computed once per rate on the rounded base,
+// which is how it must appear on the invoice and in the CA3.
+export function groupTaxByRate(lines: { taxRate: number; amountHt: number }[]): TaxRateTotal[] {
+  const bases = new Map<number, number>()
+  for (const line of lines) {
+    bases.set(line.taxRate, (bases.get(line.taxRate) ?? 0) + line.amountHt)
+  }
+
+  return Array.from(bases.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([rate, baseHt]) => ({
+      rate,
+      baseHt: roundCents(baseHt),
+      taxAmount: roundCents(baseHt * rate / 100),
+    }))
+}
+
+export function calculateInvoiceTotals(lines: InvoiceLineAmounts[]): InvoiceTotals {
+  const lineAmounts = lines.map(calculateLineAmountHt)
+  const taxByRate = groupTaxByRate(
+    lines.map((line, index) => ({ taxRate: line.taxRate, amountHt: lineAmounts[index] }))
+  )
+
+  const amountHt = taxByRate.reduce((sum, group) => sum + group.baseHt, 0)
+  const taxTotal = taxByRate.reduce((sum, group) => sum + group.taxAmount, 0)
+
+  return {
+    amountHt: amountHt.toFixed(2),
+    amountTtc: (amountHt + taxTotal).toFixed(2),
+    taxRate: taxByRate.length === 1 ? taxByRate[0].rate.toFixed(2) : null,
+    lineAmountsHt: lineAmounts.map((amount) => amount.toFixed(2)),
+    taxByRate,
+  }
+}
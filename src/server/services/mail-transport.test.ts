@@ -0,0 +1,158 @@
+import { describe, it, expect, afterAll } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import net from 'net'
+import os from 'os'
+import path from 'path'
+import { buildMimeMessage, createFileTransport, createSmtpTransport, MailDeliveryError } from './mail-transport'
+import type { MailMessage } from './mail-transport'
+
+const message: MailMessage = {
+  from: 'Société Dupont <factures@dupont.fr>',
+  to: 'compta@acme.fr',
+  replyTo: 'jean@dupont.fr',
+  subject: 'Relance : facture 20250101 impayée',
+  text: 'Bonjour,\n\nMerci de régler la facture.',
+}
+
+function decodeBody(mime: string): string {
+  const [, body] = mime.split('\r\n\r\n')
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')
+}
+
+describe('buildMimeMessage', () => {
+  it('encodes non-ASCII headers and keeps the address readable', () => {
+    const mime = buildMimeMessage(message, '<id@dupont.fr>', new Date('2025-03-02T10:00:00Z'))
+
+    expect(mime).toContain(`From: =?UTF-8?B?${Buffer.from('Société Dupont').toString('base64')}?= <factures@dupont.fr>`)
+    expect(mime).toContain('To: compta@acme.fr')
+    expect(mime).toContain('Reply-To: jean@dupont.fr')
+    expect(mime).toContain('Subject: =?UTF-8?B?')
+    expect(mime).toContain('Date: Sun, 02 Mar 2025 10:00:00 GMT')
+    expect(mime).toContain('Message-ID: <id@dupont.fr>')
+  })
+
+  it('carries the body as base64 with CRLF line endings', () => {
+    const mime = buildMimeMessage(message, '<id@dupont.fr>')
+    expect(decodeBody(mime)).toBe('Bonjour,\r\n\r\nMerci de régler la facture.')
+  })
+})
+
+describe('createFileTransport', () => {
+  let outboxDir: string
+
+  afterAll(async () => {
+    await rm(outboxDir, { recursive: true, force: true })
+  })
+
+  it('writes the message as an .eml file in the outbox', async () => {
+    outboxDir = await mkdtemp(path.join(os.tmpdir(), 'outbox-'))
+    const { messageId } = await createFileTransport(outboxDir).send(message)
+
+    const files = await readdir(outboxDir)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toMatch(/\.eml$/)
+    const mime = await readFile(path.join(outboxDir, files[0]), 'utf8')
+    expect(mime).toContain(`Message-ID: ${messageId}`)
+    expect(messageId).toMatch(/@dupont\.fr>$/)
+  })
+})
+
+// Minimal SMTP server answering each command with the scripted reply
+function startSmtpServer(replies: Record<string, string>) {
+  const commands: string[] = []
+  let data = ''
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 localhost ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end < 0) return
+        data = buffer.slice(0, end)
+        buffer = buffer.slice(end + 5)
+        inData = false
+        socket.write('250 OK queued\r\n')
+      }
+      let index: number
+      while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+        const command = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        commands.push(command)
+        const verb = command.split(' ')[0].split(':')[0].toUpperCase()
+        socket.write(`${replies[verb] ?? '250 OK'}\r\n`)
+        if (verb === 'DATA') inData = true
+        if (verb === 'QUIT') socket.end()
+      }
+    })
+  })
+
+  return new Promise<{ port: number; commands: string[]; getData: () => string; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        getData: () => data,
+        close: () => new Promise((done) => server.close(() => done())),
+      })
+    })
+  })
+}
+
+describe('createSmtpTransport', () => {
+  it('authenticates and delivers the message', async () => {
+    const server = await startSmtpServer({ EHLO: '250-localhost\r\n250 AUTH PLAIN', AUTH: '235 OK', DATA: '354 Go', QUIT: '221 Bye' })
+    try {
+      const transport = createSmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        user: 'jean',
+        password: 'secret',
+        allowInsecureAuth: true,
+        timeoutMs: 5000,
+      })
+      const { messageId } = await transport.send(message)
+
+      expect(server.commands).toEqual([
+        'EHLO localhost',
+        `AUTH PLAIN ${Buffer.from('\0jean\0secret').toString('base64')}`,
+        'MAIL FROM:<factures@dupont.fr>',
+        'RCPT TO:<compta@acme.fr>',
+        'DATA',
+        'QUIT',
+      ])
+      expect(server.getData()).toContain(`Message-ID: ${messageId}`)
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('keeps the credentials when the server does not offer STARTTLS', async () => {
+    const server = await startSmtpServer({ EHLO: '250-localhost\r\n250 AUTH PLAIN', AUTH: '235 OK' })
+    try {
+      const transport = createSmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, user: 'jean', password: 'secret', timeoutMs: 5000 })
+      const error = await transport.send(message).catch((err: unknown) => err)
+
+      expect(error).toBeInstanceOf(MailDeliveryError)
+      expect((error as Error).message).toContain('STARTTLS')
+      expect(server.commands).toEqual(['EHLO localhost'])
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('fails with the server reply when a recipient is refused', async () => {
+    const server = await startSmtpServer({ RCPT: '550 No such user' })
+    try {
+      const transport = createSmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 })
+      const error = await transport.send(message).catch((err: unknown) => err)
+
+      expect(error).toBeInstanceOf(MailDeliveryError)
+      expect((error as Error).message).toContain('550 : No such user')
+    } finally {
+      await server.close()
+    }
+  })
+})
@@ -0,0 +1,255 @@
+import { randomUUID } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import net from 'net'
+import path from 'path'
+import tls from 'tls'
+
+export const MAIL_TRANSPORTS = ['smtp', 'file'] as const
+export type MailTransportName = typeof MAIL_TRANSPORTS[number]
+
+export interface MailMessage {
+  from: string
+  to: string
+  replyTo?: string
+  subject: string
+  text: string
+}
+
+export interface SentMail {
+  messageId: string
+}
+
+export interface MailTransport {
+  name: MailTransportName
+  send(message: MailMessage): Promise<SentMail>
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean
+  user?: string
+  password?: string
+  // Sends the credentials over a connection that is not encrypted; only for a trusted local relay
+  allowInsecureAuth?: boolean
+  timeoutMs?: number
+}
+
+export class MailDeliveryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MailDeliveryError'
+  }
+}
+
+// RFC 2047 encoded-word for headers holding non-ASCII text (accents in subjects and names)
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+// Only the display name of "Name <address>" may be encoded
+function encodeAddress(value: string): string {
+  const match = value.match(/^(.*?)\s*<([^>]+)>$/)
+  return match && match[1] ? `${encodeHeader(match[1])} <${match[2]}>` : value
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim()
+}
+
+function formatMessageId(from: string): string {
+  const domain = extractAddress(from).split('@')[1] || 'localhost'
+  return `<${randomUUID()}@${domain}>`
+}
+
+// Plain-text UTF-8 message; the base64 body keeps lines short and needs no dot-stuffing
+export function buildMimeMessage(message: MailMessage, messageId: string, date = new Date()): string {
+  const headers = [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ]
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').match(/.{1,76}/g) ?? []
+
+  return [...headers, '', ...body, ''].join('\r\n')
+}
+
+// Writes each message as an .eml file, for development and tests
+export function createFileTransport(outboxDir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const messageId = formatMessageId(message.from)
+      await mkdir(outboxDir, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`
+      await writeFile(path.join(outboxDir, fileName), buildMimeMessage(message, messageId))
+      return { messageId }
+    },
+  }
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+// Reads multi-line SMTP replies ("250-..." continued until "250 ...") off a socket
+function createReplyReader(socket: net.Socket) {
+  let buffer = ''
+  let lines: string[] = []
+  let failure: Error | null = null
+  const replies: SmtpReply[] = []
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = []
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let index: number
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+      lines.push(line.slice(4))
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines }
+        lines = []
+        const waiter = waiting.shift()
+        if (waiter) waiter.resolve(reply)
+        else replies.push(reply)
+      }
+    }
+  }
+  const onFailure = (error?: Error) => {
+    failure = error ?? new MailDeliveryError('Connexion SMTP fermée par le serveur')
+    for (const waiter of waiting.splice(0)) waiter.reject(failure)
+  }
+
+  socket.on('data', onData)
+  socket.on('error', onFailure)
+  socket.on('close', () => onFailure())
+
+  return {
+    next(): Promise<SmtpReply> {
+      const reply = replies.shift()
+      if (reply) return Promise.resolve(reply)
+      if (failure) return Promise.reject(failure)
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }))
+    },
+    detach() {
+      socket.off('data', onData)
+      socket.removeAllListeners('error')
+      socket.removeAllListeners('close')
+    },
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket))
+    socket.once('error', reject)
+  })
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket))
+    secureSocket.once('error', reject)
+  })
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const messageId = formatMessageId(message.from)
+      let socket = await connect(options)
+      socket.setTimeout(options.timeoutMs ?? 30_000, () => socket.destroy(new MailDeliveryError('Délai dépassé avec le serveur SMTP')))
+      let reader = createReplyReader(socket)
+
+      const expect = async (expected: number, command?: string): Promise<SmtpReply> => {
+        if (command !== undefined) socket.write(`${command}\r\n`)
+        const reply = await reader.next()
+        if (reply.code !== expected) {
+          throw new MailDeliveryError(`Erreur SMTP ${reply.code} : ${reply.lines.join(' ')}`)
+        }
+        return reply
+      }
+
+      try {
+        await expect(220)
+        const greeting = await expect(250, 'EHLO localhost')
+
+        let encrypted = options.secure
+        if (!encrypted && greeting.lines.some((line) => line.toUpperCase() === 'STARTTLS')) {
+          await expect(220, 'STARTTLS')
+          reader.detach()
+          socket = await upgradeToTls(socket, options.host)
+          reader = createReplyReader(socket)
+          await expect(250, 'EHLO localhost')
+          encrypted = true
+        }
+
+        if (options.user) {
+          // A server without STARTTLS, or a stripped offer, would otherwise receive the password in clear
+          if (!encrypted && !options.allowInsecureAuth) {
+            throw new MailDeliveryError('Le serveur SMTP ne propose pas STARTTLS : les identifiants ne sont pas envoyés sans chiffrement')
+          }
+          const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`, 'utf8').toString('base64')
+          await expect(235, `AUTH PLAIN ${credentials}`)
+        }
+
+        await expect(250, `MAIL FROM:<${extractAddress(message.from)}>`)
+        await expect(250, `RCPT TO:<${extractAddress(message.to)}>`)
+        await expect(354, 'DATA')
+        await expect(250, `${buildMimeMessage(message, messageId)}.`)
+        await expect(221, 'QUIT').catch(() => undefined)
+      } finally {
+        socket.destroy()
+      }
+
+      return { messageId }
+    },
+  }
+}
+
+let configuredTransport: MailTransport | null = null
+
+// MAIL_TRANSPORT selects 'smtp' (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD,
+// SMTP_ALLOW_INSECURE) or 'file' (default, .eml files in MAIL_OUTBOX_DIR)
+export function getMailTransport(): MailTransport {
+  if (!configuredTransport) {
+    if (process.env.MAIL_TRANSPORT === 'smtp') {
+      const port = parseInt(process.env.SMTP_PORT || '587')
+      configuredTransport = createSmtpTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE === 'true',
+      })
+    } else {
+      configuredTransport = createFileTransport(process.env.MAIL_OUTBOX_DIR || path.resolve('outbox'))
+    }
+  }
+  return configuredTransport
+}
+
+// Lets tests and alternative deployments plug in their own transport
+export function setMailTransport(transport: MailTransport | null): void {
+  configuredTransport = transport
+}
+
+// Envelope sender: MAIL_FROM when configured, else the issuer address
+export function getMailSender(issuerEmail: string | null | undefined, issuerName?: string): string {
+  const address = process.env.MAIL_FROM || issuerEmail || 'noreply@localhost'
+  return issuerName && !address.includes('<') ? `${issuerName.replace(/["<>]/g, '')} <${address}>` : address
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest'
+import { microCeilingForActivity, microCeilingYear, microCeilingsForYear, monitorMicroCeiling } from './micro-ceiling'
+
+vi.mock('../db', () => ({ db: {} }))
+
+const base = {
+  year: 2025,
+  activityType: 'bnc' as const,
+  businessStartDate: '2020-03-01',
+  revenueHt: 0,
+  previousYearRevenueHt: 0,
+  today: '2025-09-30',
+}
+
+describe('microCeilingsForYear', () => {
+  it('uses the ceilings of the year and the latest known ones after', () => {
+    expect(microCeilingsForYear(2025)).toEqual({ sales: 188700, services: 77700 })
+    expect(microCeilingsForYear(2030)).toEqual(microCeilingsForYear(2026))
+  })
+
+  it('applies the services ceiling to BIC services and BNC', () => {
+    expect(microCeilingForActivity(2026, 'bnc')).toBe(83600)
+    expect(microCeilingForActivity(2026, 'bic_services')).toBe(83600)
+    expect(microCeilingForActivity(2026, 'sales')).toBe(203100)
+  })
+})
+
+describe('microCeilingYear', () => {
+  it('prorates the ceiling on the days of activity of the creation year', () => {
+    expect(microCeilingYear(2025, 'bnc', '2025-07-01', 30000)).toEqual({
+      year: 2025,
+      ceiling: 39169, // 77 700 x 184 / 365
+      fullCeiling: 77700,
+      prorated: true,
+      activityDays: 184,
+      revenueHt: 30000,
+      exceeded: false,
+    })
+  })
+
+  it('keeps the full ceiling after the creation year', () => {
+    expect(microCeilingYear(2025, 'sales', '2024-07-01', 0)).toMatchObject({ ceiling: 188700, prorated: false, activityDays: 365 })
+  })
+})
+
+describe('monitorMicroCeiling', () => {
+  it('stays under the ceiling', () => {
+    const monitoring = monitorMicroCeiling({ ...base, revenueHt: 30000 })
+    expect(monitoring.current).toMatchObject({ status: 'under', elapsedDays: 273 })
+    expect(monitoring.alerts).toEqual([])
+    expect(monitoring.regimeEndsOn).toBeNull()
+  })
+
+  it('projects the revenue of the year at the current pace', () => {
+    const monitoring = monitorMicroCeiling({ ...base, businessStartDate: '2025-07-01', revenueHt: 20000 })
+    expect(monitoring.current).toMatchObject({ elapsedDays: 92, projectedRevenueHt: 40000, status: 'projected_over' })
+    expect(monitoring.previous).toBeNull()
+    expect(monitoring.alerts[0]).toContain('proratisé')
+  })
+
+  it('keeps the regime after a first year above the ceiling', () => {
+    const monitoring = monitorMicroCeiling({ ...base, revenueHt: 80000 })
+    expect(monitoring.current.status).toBe('exceeded')
+    expect(monitoring.regimeEndsOn).toBeNull()
+    expect(monitoring.alerts[0]).toContain('le régime est conservé')
+  })
+
+  it('ends the regime after two years above the ceiling', () => {
+    const monitoring = monitorMicroCeiling({ ...base, revenueHt: 80000, previousYearRevenueHt: 78000 })
+    expect(monitoring.previous?.exceeded).toBe(true)
+    expect(monitoring.regimeEndsOn).toBe('2026-01-01')
+    expect(monitoring.alerts[0]).toContain('sortie du régime micro-entreprise au 1er janvier 2026')
+  })
+
+  it('compares the previous year with its own prorated ceiling', () => {
+    const monitoring = monitorMicroCeiling({ ...base, businessStartDate: '2024-10-01', previousYearRevenueHt: 25000 })
+    expect(monitoring.previous).toMatchObject({ ceiling: 19531, exceeded: true }) // 77 700 x 92 / 366
+    expect(monitoring.alerts[0]).toContain('un dépassement en 2025 mettrait fin au régime')
+  })
+
+  it('projects over the whole year once it is over', () => {
+    const monitoring = monitorMicroCeiling({ ...base, revenueHt: 50000, today: '2026-03-01' })
+    expect(monitoring.current).toMatchObject({ elapsedDays: 365, projectedRevenueHt: 50000 })
+  })
+})
@@ -0,0 +1,186 @@
+import { eq } from 'drizzle-orm'
+import { db } from '../db'
+import { settings } from '../db/schema'
+import { getCashReceived } from './invoice-payments'
+
+// Micro-entreprise revenue ceilings (art. 50-0 and 102 ter CGI): exceeding the ceiling one year
+// keeps the regime, exceeding it two years in a row ends it on 1 January of the following year.
+// The ceilings are prorated on the days of activity in the creation year.
+
+export type MicroActivityType = 'sales' | 'bic_services' | 'bnc'
+
+export const MICRO_ACTIVITY_TYPES = ['sales', 'bic_services', 'bnc'] as const
+
+export const MICRO_ACTIVITY_TYPE_LABELS: Record<MicroActivityType, string> = {
+  sales: 'Vente de marchandises (BIC)',
+  bic_services: 'Prestations de services (BIC)',
+  bnc: 'Profession libérale (BNC)',
+}
+
+// Ceilings per year, sales and services (revalued every three years, 2026 to 2028 from 2026)
+export const MICRO_CEILINGS: Record<number, { sales: number; services: number }> = {
+  2023: { sales: 188700, services: 77700 },
+  2024: { sales: 188700, services: 77700 },
+  2025: { sales: 188700, services: 77700 },
+  2026: { sales: 203100, services: 83600 },
+}
+
+export type MicroCeilingStatus = 'under' | 'projected_over' | 'exceeded'
+
+export interface MicroCeilingYear {
+  year: number
+  ceiling: number // Prorated in the creation year
+  fullCeiling: number
+  prorated: boolean
+  activityDays: number
+  revenueHt: number
+  exceeded: boolean
+}
+
+export interface MicroCeilingMonitoring {
+  activityType: MicroActivityType
+  businessStartDate: string | null
+  current: MicroCeilingYear & {
+    elapsedDays: number
+    projectedRevenueHt: number // Revenue of the year at the pace of the elapsed days
+    status: MicroCeilingStatus
+  }
+  previous: MicroCeilingYear | null // Null before the business started
+  regimeEndsOn: string | null // 1 January following the second year above the ceiling
+  alerts: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Latest known ceilings for years not listed yet
+export function microCeilingsForYear(year: number): { sales: number; services: number } {
+  const years = Object.keys(MICRO_CEILINGS).map(Number).sort((a, b) => a - b)
+  const known = years.filter((knownYear) => knownYear <= year)
+  return MICRO_CEILINGS[known.length > 0 ? known[known.length - 1] : years[0]]
+}
+
+// Mixed activities aside, BIC services and BNC share the services ceiling
+export function microCeilingForActivity(year: number, activityType: MicroActivityType): number {
+  const ceilings = microCeilingsForYear(year)
+  return activityType === 'sales' ? ceilings.sales : ceilings.services
+}
+
+// Days between two YYYY-MM-DD dates, both included
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS) + 1
+}
+
+// First day of activity in the year, null when the business starts after it
+function activityStart(year: number, businessStartDate: string | null): string | null {
+  const startOfYear = `${year}-01-01`
+  if (!businessStartDate || businessStartDate <= startOfYear) return startOfYear
+  return businessStartDate <= `${year}-12-31` ? businessStartDate : null
+}
+
+export function microCeilingYear(
+  year: number,
+  activityType: MicroActivityType,
+  businessStartDate: string | null,
+  revenueHt: number
+): MicroCeilingYear {
+  const fullCeiling = microCeilingForActivity(year, activityType)
+  const start = activityStart(year, businessStartDate) ?? `${year}-12-31`
+  const yearDays = daysBetween(`${year}-01-01`, `${year}-12-31`)
+  const activityDays = daysBetween(start, `${year}-12-31`)
+  const ceiling = activityDays < yearDays ? Math.round(fullCeiling * activityDays / yearDays) : fullCeiling
+
+  return {
+    year,
+    ceiling,
+    fullCeiling,
+    prorated: ceiling !== fullCeiling,
+    activityDays,
+    revenueHt: Math.round(revenueHt * 100) / 100,
+    exceeded: revenueHt > ceiling,
+  }
+}
+
+function formatEuros(amount: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(amount)
+}
+
+export function monitorMicroCeiling(input: {
+  year: number
+  activityType: MicroActivityType
+  businessStartDate: string | null
+  revenueHt: number
+  previousYearRevenueHt: number
+  today: string // YYYY-MM-DD
+}): MicroCeilingMonitoring {
+  const { year, activityType, businessStartDate } = input
+  const currentYear = microCeilingYear(year, activityType, businessStartDate, input.revenueHt)
+
+  // Days of activity already run in the year, the whole year once it is over
+  const start = activityStart(year, businessStartDate)
+  const lastDay = input.today < `${year}-12-31` ? input.today : `${year}-12-31`
+  const elapsedDays = start && lastDay >= start ? daysBetween(start, lastDay) : 0
+  const projectedRevenueHt = elapsedDays > 0
+    ? Math.round(input.revenueHt / elapsedDays * currentYear.activityDays * 100) / 100
+    : currentYear.revenueHt
+
+  const status: MicroCeilingStatus = currentYear.exceeded
+    ? 'exceeded'
+    : projectedRevenueHt > currentYear.ceiling ? 'projected_over' : 'under'
+
+  const previous = activityStart(year - 1, businessStartDate)
+    ? microCeilingYear(year - 1, activityType, businessStartDate, input.previousYearRevenueHt)
+    : null
+
+  const alerts: string[] = []
+  let regimeEndsOn: string | null = null
+  const ceilingLabel = `${formatEuros(currentYear.ceiling)}${currentYear.prorated ? ' (proratisé)' : ''}`
+
+  if (status === 'exceeded' && previous?.exceeded) {
+    regimeEndsOn = `${year + 1}-01-01`
+    alerts.push(
+      `Plafond micro dépassé en ${year - 1} et ${year} : sortie du régime micro-entreprise au 1er janvier ${year + 1}`
+    )
+  } else if (status === 'exceeded') {
+    alerts.push(
+      `Chiffre d'affaires ${year} de ${formatEuros(currentYear.revenueHt)} au-delà du plafond de ${ceilingLabel} : ` +
+      `le régime est conservé, un nouveau dépassement en ${year + 1} y mettrait fin`
+    )
+  } else if (status === 'projected_over') {
+    alerts.push(
+      `Au rythme actuel, le chiffre d'affaires ${year} atteindrait ${formatEuros(projectedRevenueHt)}, ` +
+      `au-delà du plafond de ${ceilingLabel}` +
+      (previous?.exceeded ? ` : sortie du régime micro-entreprise au 1er janvier ${year + 1}` : '')
+    )
+  } else if (previous?.exceeded) {
+    alerts.push(
+      `Plafond micro dépassé en ${year - 1} : un dépassement en ${year} mettrait fin au régime au 1er janvier ${year + 1}`
+    )
+  }
+
+  return {
+    activityType,
+    businessStartDate,
+    current: { ...currentYear, elapsedDays, projectedRevenueHt, status },
+    previous,
+    regimeEndsOn,
+    alerts,
+  }
+}
+
+// Revenue HT of the year and the previous one, from the payments recorded on invoices
+export async function getMicroCeilingMonitoring(userId: string, year: number, today: string): Promise<MicroCeilingMonitoring> {
+  const userSettings = await db.query.settings.findFirst({
+    where: eq(settings.userId, userId),
+  })
+  const current = await getCashReceived(userId, `${year}-01-01`, `${year}-12-31`)
+  const previousYear = await getCashReceived(userId, `${year - 1}-01-01`, `${year - 1}-12-31`)
+
+  return monitorMicroCeiling({
+    year,
+    activityType: (userSettings?.activityType as MicroActivityType | undefined) ?? 'bnc',
+    businessStartDate: userSettings?.businessStartDate ?? null,
+    revenueHt: current.totalHt,
+    previousYearRevenueHt: previousYear.totalHt,
+    today,
+  })
+}
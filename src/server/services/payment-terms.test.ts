@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { computeDueDate, describePaymentTerms, resolvePaymentTerms } from './payment-terms'
+
+describe('computeDueDate', () => {
+  it('adds payment terms to the invoice date', () => {
+    expect(computeDueDate('2025-01-15', { days: 30, endOfMonth: false })).toBe('2025-02-14')
+  })
+
+  it('rolls over year end', () => {
+    expect(computeDueDate('2025-12-15', { days: 30, endOfMonth: false })).toBe('2026-01-14')
+  })
+
+  it('returns the invoice date for immediate payment', () => {
+    expect(computeDueDate('2025-03-01', { days: 0, endOfMonth: false })).toBe('2025-03-01')
+  })
+
+  it('moves end-of-month terms to the last day of the month reached', () => {
+    expect(computeDueDate('2025-01-10', { days: 45, endOfMonth: true })).toBe('2025-02-28')
+    expect(computeDueDate('2025-01-31', { days: 30, endOfMonth: true })).toBe('2025-03-31')
+  })
+})
+
+describe('resolvePaymentTerms', () => {
+  it('prefers the client terms over the issuer defaults', () => {
+    expect(resolvePaymentTerms(
+      { paymentTermsDays: 45, paymentTermsEndOfMonth: null },
+      { paymentTermsDays: 30, paymentTermsEndOfMonth: true }
+    )).toEqual({ days: 45, endOfMonth: true })
+  })
+
+  it('falls back to 30 days without issuer profile', () => {
+    expect(resolvePaymentTerms({})).toEqual({ days: 30, endOfMonth: false })
+  })
+})
+
+describe('describePaymentTerms', () => {
+  it('words both kinds of terms', () => {
+    expect(describePaymentTerms({ days: 30, endOfMonth: false })).toBe('30 jours à compter de la date de facture')
+    expect(describePaymentTerms({ days: 45, endOfMonth: true })).toBe('45 jours fin de mois')
+  })
+})
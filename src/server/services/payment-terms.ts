@@ -0,0 +1,39 @@
+export interface PaymentTerms {
+  days: number
+  // '45 jours fin de mois': the due date moves to the end of the month reached after `days`
+  endOfMonth: boolean
+}
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = { days: 30, endOfMonth: false }
+
+// Fixed by article D441-5 du Code de commerce
+export const RECOVERY_INDEMNITY = 40
+
+interface TermsSource {
+  paymentTermsDays?: number | null
+  paymentTermsEndOfMonth?: boolean | null
+}
+
+// Client terms win field by field over the issuer defaults
+export function resolvePaymentTerms(client: TermsSource, issuer?: TermsSource | null): PaymentTerms {
+  return {
+    days: client.paymentTermsDays ?? issuer?.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS.days,
+    endOfMonth: client.paymentTermsEndOfMonth ?? issuer?.paymentTermsEndOfMonth ?? DEFAULT_PAYMENT_TERMS.endOfMonth,
+  }
+}
+
+// Add payment terms to an invoice date, both as YYYY-MM-DD
+export function computeDueDate(invoiceDate: string, terms: PaymentTerms): string {
+  const [year, month, day] = invoiceDate.split('-').map(Number)
+  const due = new Date(Date.UTC(year, month - 1, day + terms.days))
+  if (terms.endOfMonth) {
+    due.setUTCMonth(due.getUTCMonth() + 1, 0)
+  }
+  return due.toISOString().split('T')[0]
+}
+
+export function describePaymentTerms(terms: PaymentTerms): string {
+  return terms.endOfMonth
+    ? `${terms.days} jours fin de mois`
+    : `${terms.days} jours à compter de la date de facture`
+}
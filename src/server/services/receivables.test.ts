@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+import { buildAgingReport, calculateLatePenalty, getAgingBucket, getDaysOverdue } from './receivables'
+import type { OpenReceivable } from './receivables'
+
+vi.mock('../db', () => ({ db: {} }))
+
+function receivable(overrides: Partial<OpenReceivable>): OpenReceivable {
+  return {
+    invoiceId: 'invoice-id',
+    invoiceNumber: '20250101',
+    clientId: 'client-a',
+    client: 'Acme Corp',
+    invoiceDate: '2025-01-01',
+    dueDate: '2025-01-31',
+    outstanding: 1200,
+    ...overrides,
+  }
+}
+
+describe('getDaysOverdue', () => {
+  it('counts days past the due date', () => {
+    expect(getDaysOverdue('2025-01-31', '2025-03-02')).toBe(30)
+  })
+
+  it('is negative before the due date', () => {
+    expect(getDaysOverdue('2025-01-31', '2025-01-20')).toBe(-11)
+  })
+})
+
+describe('getAgingBucket', () => {
+  it('maps days overdue to buckets', () => {
+    expect(getAgingBucket(0)).toBe('current')
+    expect(getAgingBucket(1)).toBe('days1to30')
+    expect(getAgingBucket(30)).toBe('days1to30')
+    expect(getAgingBucket(31)).toBe('days31to60')
+    expect(getAgingBucket(90)).toBe('days61to90')
+    expect(getAgingBucket(91)).toBe('over90')
+  })
+})
+
+describe('calculateLatePenalty', () => {
+  it('applies the annual rate prorated by days overdue', () => {
+    expect(calculateLatePenalty(1200, 73, 12.15)).toBe(29.16)
+  })
+
+  it('is zero until the invoice is overdue', () => {
+    expect(calculateLatePenalty(1200, 0, 12.15)).toBe(0)
+  })
+})
+
+describe('buildAgingReport', () => {
+  const report = buildAgingReport([
+    receivable({ invoiceId: 'a1', dueDate: '2025-03-31', outstanding: 500 }),
+    receivable({ invoiceId: 'a2', dueDate: '2025-02-14', outstanding: 1200 }),
+    receivable({ invoiceId: 'b1', clientId: 'client-b', client: 'Globex', dueDate: '2024-12-01', outstanding: 300 }),
+  ], '2025-03-16', 12.15)
+
+  it('totals outstanding amounts per bucket', () => {
+    expect(report.total).toBe('2000.00')
+    expect(report.overdueTotal).toBe('1500.00')
+    expect(report.buckets).toEqual({
+      current: '500.00',
+      days1to30: '1200.00',
+      days31to60: '0.00',
+      days61to90: '0.00',
+      over90: '300.00',
+    })
+  })
+
+  it('groups buckets per client, largest balance first', () => {
+    expect(report.clients.map((entry) => entry.client)).toEqual(['Acme Corp', 'Globex'])
+    expect(report.clients[0].buckets.current).toBe('500.00')
+    expect(report.clients[0].total).toBe('1700.00')
+  })
+
+  it('lists overdue invoices with penalty and recovery indemnity', () => {
+    expect(report.overdueInvoices.map((invoice) => invoice.invoiceId)).toEqual(['b1', 'a2'])
+    const [, late] = report.overdueInvoices
+    expect(late.daysOverdue).toBe(30)
+    expect(late.latePenalty).toBe('11.98')
+    expect(late.recoveryIndemnity).toBe('40.00')
+    expect(late.totalDue).toBe('1251.98')
+  })
+})
@@ -0,0 +1,159 @@
+import { eq, and, lte, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { invoices, invoicePayments, clients, issuerProfiles } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+import { roundCents } from './invoice-totals'
+import { toEur } from './currency'
+import { RECOVERY_INDEMNITY, resolvePaymentTerms } from './payment-terms'
+import type { PaymentTerms } from './payment-terms'
+
+// Default rate printed on invoices when no issuer profile is configured
+export const DEFAULT_LATE_PENALTY_RATE = 12.15
+
+export const AGING_BUCKETS = ['current', 'days1to30', 'days31to60', 'days61to90', 'over90'] as const
+export type AgingBucket = typeof AGING_BUCKETS[number]
+
+export interface OpenReceivable {
+  invoiceId: string
+  invoiceNumber: string | null
+  clientId: string
+  client: string
+  invoiceDate: string
+  dueDate: string | null
+  outstanding: number
+}
+
+// Whole days between the due date and `onDate`; zero or negative while not yet due
+export function getDaysOverdue(dueDate: string, onDate: string): number {
+  return Math.round((Date.parse(onDate) - Date.parse(dueDate)) / 86_400_000)
+}
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'current'
+  if (daysOverdue <= 30) return 'days1to30'
+  if (daysOverdue <= 60) return 'days31to60'
+  if (daysOverdue <= 90) return 'days61to90'
+  return 'over90'
+}
+
+// Simple interest at the annual rate from the day after the due date (art. L441-10 du Code de commerce)
+export function calculateLatePenalty(outstanding: number, daysOverdue: number, annualRate: number): number {
+  if (daysOverdue <= 0 || outstanding <= 0) return 0
+  return roundCents(outstanding * (annualRate / 100) * (daysOverdue / 365))
+}
+
+function emptyBuckets(): Record<AgingBucket, number> {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 }
+}
+
+function formatBuckets(buckets: Record<AgingBucket, number>): Record<AgingBucket, string> {
+  return Object.fromEntries(
+    AGING_BUCKETS.map((bucket) => [bucket, buckets[bucket].toFixed(2)])
+  ) as Record<AgingBucket, string>
+}
+
+// Balance âgée: outstanding amounts per client and lateness bucket, with the penalties owed on overdue invoices
+export function buildAgingReport(receivables: OpenReceivable[], onDate: string, latePenaltyRate: number) {
+  const totals = emptyBuckets()
+  const byClient = new Map<string, { clientId: string; client: string; buckets: Record<AgingBucket, number>; total: number }>()
+  const overdueInvoices = []
+
+  for (const receivable of receivables) {
+    const daysOverdue = getDaysOverdue(receivable.dueDate ?? receivable.invoiceDate, onDate)
+    const bucket = getAgingBucket(daysOverdue)
+
+    totals[bucket] = roundCents(totals[bucket] + receivable.outstanding)
+    const entry = byClient.get(receivable.clientId) ?? {
+      clientId: receivable.clientId,
+      client: receivable.client,
+      buckets: emptyBuckets(),
+      total: 0,
+    }
+    entry.buckets[bucket] = roundCents(entry.buckets[bucket] + receivable.outstanding)
+    entry.total = roundCents(entry.total + receivable.outstanding)
+    byClient.set(receivable.clientId, entry)
+
+    if (daysOverdue > 0) {
+      const latePenalty = calculateLatePenalty(receivable.outstanding, daysOverdue, latePenaltyRate)
+      overdueInvoices.push({
+        invoiceId: receivable.invoiceId,
+        invoiceNumber: receivable.invoiceNumber,
+        clientId: receivable.clientId,
+        client: receivable.client,
+        dueDate: receivable.dueDate ?? receivable.invoiceDate,
+        daysOverdue,
+        outstanding: receivable.outstanding.toFixed(2),
+        latePenalty: latePenalty.toFixed(2),
+        recoveryIndemnity: RECOVERY_INDEMNITY.toFixed(2),
+        totalDue: roundCents(receivable.outstanding + latePenalty + RECOVERY_INDEMNITY).toFixed(2),
+      })
+    }
+  }
+
+  const total = roundCents(AGING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0))
+
+  return {
+    asOf: onDate,
+    latePenaltyRate: latePenaltyRate.toFixed(2),
+    total: total.toFixed(2),
+    overdueTotal: roundCents(total - totals.current).toFixed(2),
+    buckets: formatBuckets(totals),
+    clients: [...byClient.values()]
+      .sort((a, b) => b.total - a.total)
+      .map((entry) => ({ ...entry, buckets: formatBuckets(entry.buckets), total: entry.total.toFixed(2) })),
+    overdueInvoices: overdueInvoices.sort((a, b) => b.daysOverdue - a.daysOverdue),
+  }
+}
+
+// Terms applying to a new invoice for the client: its own, else the issuer defaults
+export async function getClientPaymentTerms(executor: DbExecutor, userId: string, clientId: string): Promise<PaymentTerms> {
+  const [client] = await executor
+    .select({ paymentTermsDays: clients.paymentTermsDays, paymentTermsEndOfMonth: clients.paymentTermsEndOfMonth })
+    .from(clients)
+    .where(and(eq(clients.id, clientId), eq(clients.userId, userId)))
+  const [issuer] = await executor
+    .select({ paymentTermsDays: issuerProfiles.paymentTermsDays, paymentTermsEndOfMonth: issuerProfiles.paymentTermsEndOfMonth })
+    .from(issuerProfiles)
+    .where(eq(issuerProfiles.userId, userId))
+
+  return resolvePaymentTerms(client ?? {}, issuer)
+}
+
+// Invoices issued up to `onDate` whose balance was not settled on that day, outstanding in EUR at
+// the invoice rate: payments received after it still count as owed
+export async function getOpenReceivables(userId: string, onDate: string): Promise<OpenReceivable[]> {
+  const rows = await db
+    .select({
+      invoiceId: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      clientId: invoices.clientId,
+      client: invoices.client,
+      invoiceDate: invoices.invoiceDate,
+      dueDate: invoices.dueDate,
+      amountTtc: invoices.amountTtc,
+      exchangeRate: invoices.exchangeRate,
+      amountPaid: sql<string>`(SELECT COALESCE(SUM(${invoicePayments.amount}::numeric), 0) FROM ${invoicePayments} WHERE ${invoicePayments.invoiceId} = ${invoices.id} AND ${invoicePayments.paymentDate} <= ${onDate})`,
+    })
+    .from(invoices)
+    .where(
+      and(
+        eq(invoices.userId, userId),
+        eq(invoices.type, 'invoice'),
+        lte(invoices.invoiceDate, onDate)
+      )
+    )
+
+  return rows
+    .map(({ amountTtc, amountPaid, exchangeRate, ...row }) => ({
+      ...row,
+      outstanding: toEur(parseFloat(amountTtc) - parseFloat(amountPaid), parseFloat(exchangeRate)),
+    }))
+    .filter((row) => row.outstanding > 0)
+}
+
+export async function getLatePenaltyRate(userId: string): Promise<number> {
+  const issuer = await db.query.issuerProfiles.findFirst({
+    where: eq(issuerProfiles.userId, userId),
+  })
+  return issuer ? parseFloat(issuer.latePenaltyRate) : DEFAULT_LATE_PENALTY_RATE
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  DEFAULT_REMINDER_TEMPLATES,
+  buildReminderValues,
+  composeReminder,
+  getReminderBlocker,
+  renderTemplate,
+  resolveReminderTemplates,
+  suggestReminderLevel,
+  validateTemplate,
+} from './reminders'
+import type { ReminderContext } from './reminders'
+
+vi.mock('../db', () => ({ db: {} }))
+
+function context(overrides: Partial<ReminderContext> = {}): ReminderContext {
+  return {
+    invoiceId: 'invoice-id',
+    type: 'invoice',
+    invoiceNumber: '20250101',
+    client: 'Acme Corp',
+    invoiceDate: '2025-01-01',
+    dueDate: '2025-01-31',
+    paymentDate: null,
+    currency: 'EUR',
+    outstanding: 1200,
+    clientEmail: 'compta@acme.fr',
+    companyName: 'Jean Dupont EI',
+    issuerEmail: 'jean@dupont.fr',
+    latePenaltyRate: 12.15,
+    ...overrides,
+  }
+}
+
+// Intl separates thousands and the currency sign with non-breaking spaces
+function normalizeSpaces(text: string): string {
+  return text.replace(/\s/g, ' ')
+}
+
+describe('validateTemplate', () => {
+  it('accepts the default templates', () => {
+    for (const template of Object.values(DEFAULT_REMINDER_TEMPLATES)) {
+      expect(validateTemplate(template.subject)).toBeNull()
+      expect(validateTemplate(template.body)).toBeNull()
+    }
+  })
+
+  it('reports the first unknown placeholder', () => {
+    expect(validateTemplate('Facture {invoiceNumber} pour {customer}')).toBe('Variable inconnue : {customer}')
+  })
+})
+
+describe('renderTemplate', () => {
+  it('fills known placeholders and leaves other braces alone', () => {
+    const values = buildReminderValues(context(), '2025-03-02')
+    expect(renderTemplate('Facture {invoiceNumber} - {client} {autre}', values)).toBe('Facture 20250101 - Acme Corp {autre}')
+  })
+})
+
+describe('buildReminderValues', () => {
+  it('computes the amounts owed on the reminder date', () => {
+    const values = buildReminderValues(context(), '2025-03-02')
+
+    expect(values.invoiceDate).toBe('01/01/2025')
+    expect(values.dueDate).toBe('31/01/2025')
+    expect(values.daysOverdue).toBe('30')
+    expect(normalizeSpaces(values.amountDue)).toBe('1 200,00 €')
+    expect(values.latePenaltyRate).toBe('12,15 %')
+    expect(normalizeSpaces(values.latePenalty)).toBe('11,98 €')
+    expect(normalizeSpaces(values.recoveryIndemnity)).toBe('40,00 €')
+    expect(normalizeSpaces(values.totalDue)).toBe('1 251,98 €')
+  })
+
+  it('treats an invoice without due date as due on issue', () => {
+    const values = buildReminderValues(context({ dueDate: null }), '2025-01-11')
+    expect(values.dueDate).toBe('01/01/2025')
+    expect(values.daysOverdue).toBe('10')
+  })
+
+  it('keeps the balance in the invoice currency and the indemnity in euros', () => {
+    const values = buildReminderValues(context({ currency: 'USD' }), '2025-03-02')
+    expect(normalizeSpaces(values.amountDue)).toBe('1 200,00 $US')
+    expect(normalizeSpaces(values.totalDue)).toBe('1 211,98 $US + 40,00 €')
+  })
+})
+
+describe('composeReminder', () => {
+  it('renders the mise en demeure with the penalty breakdown', () => {
+    const reminder = composeReminder(context(), DEFAULT_REMINDER_TEMPLATES.formal_notice, '2025-03-02')
+
+    expect(reminder.subject).toBe('Mise en demeure de payer - facture 20250101')
+    expect(normalizeSpaces(reminder.body)).toContain('la somme de 1 251,98 €')
+    expect(reminder.body).toContain('Jean Dupont EI')
+  })
+})
+
+describe('getReminderBlocker', () => {
+  it('allows unpaid invoices past their due date', () => {
+    expect(getReminderBlocker(context(), '2025-02-01')).toBeNull()
+  })
+
+  it('refuses invoices not yet due, including on the due date', () => {
+    expect(getReminderBlocker(context(), '2025-01-31')).toBe('La facture n\'est pas encore échue')
+  })
+
+  it('refuses settled invoices and credit notes', () => {
+    expect(getReminderBlocker(context({ paymentDate: '2025-02-10', outstanding: 0 }), '2025-03-02')).toBe('La facture est déjà réglée')
+    expect(getReminderBlocker(context({ type: 'credit_note', outstanding: -1200 }), '2025-03-02')).not.toBeNull()
+  })
+})
+
+describe('suggestReminderLevel', () => {
+  const delays = { friendly: 1, firm: 15, formal_notice: 30 }
+
+  it('escalates with the days overdue', () => {
+    expect(suggestReminderLevel(3, delays, null)).toBe('friendly')
+    expect(suggestReminderLevel(15, delays, null)).toBe('firm')
+    expect(suggestReminderLevel(45, delays, null)).toBe('formal_notice')
+  })
+
+  it('never suggests a lower level than the last one sent', () => {
+    expect(suggestReminderLevel(3, delays, 'firm')).toBe('firm')
+  })
+
+  it('starts with the friendly reminder before its delay has elapsed', () => {
+    expect(suggestReminderLevel(2, { ...delays, friendly: 5 }, null)).toBe('friendly')
+  })
+})
+
+describe('resolveReminderTemplates', () => {
+  it('falls back to the defaults for levels without a saved template', () => {
+    const templates = resolveReminderTemplates([{ level: 'firm', delayDays: 20, subject: 'Relance', body: 'Merci de régler' }])
+
+    expect(templates.map((template) => template.level)).toEqual(['friendly', 'firm', 'formal_notice'])
+    expect(templates[0]).toMatchObject({ delayDays: 1, isDefault: true })
+    expect(templates[1]).toMatchObject({ delayDays: 20, subject: 'Relance', isDefault: false })
+  })
+})
@@ -0,0 +1,253 @@
+import { eq, and, desc, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { invoices, invoicePayments, invoiceReminders, reminderTemplates, clients, issuerProfiles } from '../db/schema'
+import { roundCents } from './invoice-totals'
+import { RECOVERY_INDEMNITY } from './payment-terms'
+import { DEFAULT_LATE_PENALTY_RATE, calculateLatePenalty, getDaysOverdue } from './receivables'
+
+// Escalation order: a courteous reminder, a firm one quoting the penalties, then the mise en demeure
+export const REMINDER_LEVELS = ['friendly', 'firm', 'formal_notice'] as const
+export type ReminderLevel = typeof REMINDER_LEVELS[number]
+
+export const REMINDER_PLACEHOLDERS = [
+  'client',
+  'invoiceNumber',
+  'invoiceDate',
+  'dueDate',
+  'daysOverdue',
+  'amountDue',
+  'latePenaltyRate',
+  'latePenalty',
+  'recoveryIndemnity',
+  'totalDue',
+  'companyName',
+] as const
+export type ReminderPlaceholder = typeof REMINDER_PLACEHOLDERS[number]
+
+export interface ReminderTemplateContent {
+  delayDays: number
+  subject: string
+  body: string
+}
+
+export const DEFAULT_REMINDER_TEMPLATES: Record<ReminderLevel, ReminderTemplateContent> = {
+  friendly: {
+    delayDays: 1,
+    subject: 'Rappel : facture {invoiceNumber} arrivée à échéance',
+    body: [
+      'Bonjour,',
+      '',
+      'Sauf erreur de notre part, la facture {invoiceNumber} du {invoiceDate} était payable au {dueDate}. Le montant restant dû s\'élève à {amountDue}.',
+      '',
+      'Il s\'agit probablement d\'un simple oubli : pourriez-vous procéder à son règlement dans les meilleurs délais ? Si le paiement a été effectué entre-temps, merci de ne pas tenir compte de ce message.',
+      '',
+      'Cordialement,',
+      '{companyName}',
+    ].join('\n'),
+  },
+  firm: {
+    delayDays: 15,
+    subject: 'Relance : facture {invoiceNumber} impayée',
+    body: [
+      'Bonjour,',
+      '',
+      'Malgré notre précédent rappel, la facture {invoiceNumber} du {invoiceDate} reste impayée à ce jour, avec {daysOverdue} jours de retard. Le montant restant dû s\'élève à {amountDue}.',
+      '',
+      'Conformément à l\'article L441-10 du Code de commerce, tout retard de paiement entraîne des pénalités au taux annuel de {latePenaltyRate}, soit {latePenalty} à ce jour, ainsi qu\'une indemnité forfaitaire pour frais de recouvrement de {recoveryIndemnity}.',
+      '',
+      'Merci de procéder au règlement sous huitaine.',
+      '',
+      'Cordialement,',
+      '{companyName}',
+    ].join('\n'),
+  },
+  formal_notice: {
+    delayDays: 30,
+    subject: 'Mise en demeure de payer - facture {invoiceNumber}',
+    body: [
+      'Madame, Monsieur,',
+      '',
+      'En dépit de nos relances, la facture {invoiceNumber} du {invoiceDate}, échue le {dueDate}, demeure impayée.',
+      '',
+      'Par la présente, nous vous mettons en demeure de nous régler sous huit jours la somme de {totalDue}, qui se décompose ainsi :',
+      '- principal restant dû : {amountDue}',
+      '- pénalités de retard au taux annuel de {latePenaltyRate} : {latePenalty}',
+      '- indemnité forfaitaire pour frais de recouvrement : {recoveryIndemnity}',
+      '',
+      'À défaut de règlement dans ce délai, nous engagerons une procédure de recouvrement judiciaire sans autre avis.',
+      '',
+      'Veuillez agréer, Madame, Monsieur, l\'expression de nos salutations distinguées.',
+      '',
+      '{companyName}',
+    ].join('\n'),
+  },
+}
+
+export interface ReminderContext {
+  invoiceId: string
+  type: string
+  invoiceNumber: string | null
+  client: string
+  invoiceDate: string
+  dueDate: string | null
+  paymentDate: string | null
+  currency: string
+  outstanding: number // In the invoice currency
+  clientEmail: string | null
+  companyName: string | null
+  issuerEmail: string | null
+  latePenaltyRate: number
+}
+
+type StoredTemplate = Pick<typeof reminderTemplates.$inferSelect, 'level' | 'delayDays' | 'subject' | 'body'>
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g
+
+// Null when every {placeholder} is known, else the message for the first unknown one
+export function validateTemplate(text: string): string | null {
+  for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(REMINDER_PLACEHOLDERS as readonly string[]).includes(name)) {
+      return `Variable inconnue : {${name}}`
+    }
+  }
+  return null
+}
+
+export function renderTemplate(text: string, values: Record<ReminderPlaceholder, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    (REMINDER_PLACEHOLDERS as readonly string[]).includes(name) ? values[name as ReminderPlaceholder] : match
+  )
+}
+
+function formatCurrency(amount: number, currency = 'EUR'): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency }).format(amount)
+}
+
+function formatDate(date: string): string {
+  const [year, month, day] = date.split('-')
+  return `${day}/${month}/${year}`
+}
+
+// Placeholder values as of `onDate`; an invoice without due date is due on issue
+export function buildReminderValues(context: ReminderContext, onDate: string): Record<ReminderPlaceholder, string> {
+  const dueDate = context.dueDate ?? context.invoiceDate
+  const daysOverdue = Math.max(getDaysOverdue(dueDate, onDate), 0)
+  const latePenalty = calculateLatePenalty(context.outstanding, daysOverdue, context.latePenaltyRate)
+
+  return {
+    client: context.client,
+    invoiceNumber: context.invoiceNumber ?? '',
+    invoiceDate: formatDate(context.invoiceDate),
+    dueDate: formatDate(dueDate),
+    daysOverdue: daysOverdue.toString(),
+    amountDue: formatCurrency(context.outstanding, context.currency),
+    latePenaltyRate: `${context.latePenaltyRate.toFixed(2).replace('.', ',')} %`,
+    latePenalty: formatCurrency(latePenalty, context.currency),
+    recoveryIndemnity: formatCurrency(RECOVERY_INDEMNITY),
+    // The recovery indemnity is set in euros and cannot be added to a foreign currency balance
+    totalDue: context.currency === 'EUR'
+      ? formatCurrency(roundCents(context.outstanding + latePenalty + RECOVERY_INDEMNITY))
+      : `${formatCurrency(roundCents(context.outstanding + latePenalty), context.currency)} + ${formatCurrency(RECOVERY_INDEMNITY)}`,
+    companyName: context.companyName ?? '',
+  }
+}
+
+export function composeReminder(context: ReminderContext, template: Pick<ReminderTemplateContent, 'subject' | 'body'>, onDate: string) {
+  const values = buildReminderValues(context, onDate)
+  return {
+    subject: renderTemplate(template.subject, values),
+    body: renderTemplate(template.body, values),
+  }
+}
+
+// Why the invoice cannot be reminded, or null when it is an unpaid invoice past its due date
+export function getReminderBlocker(context: ReminderContext, onDate: string): string | null {
+  if (context.type !== 'invoice') return 'Seules les factures peuvent faire l\'objet d\'une relance'
+  if (context.paymentDate || context.outstanding <= 0) return 'La facture est déjà réglée'
+  if (getDaysOverdue(context.dueDate ?? context.invoiceDate, onDate) <= 0) return 'La facture n\'est pas encore échue'
+  return null
+}
+
+// Highest level whose delay has elapsed, never below the last level already sent
+export function suggestReminderLevel(
+  daysOverdue: number,
+  delays: Record<ReminderLevel, number>,
+  lastLevel: ReminderLevel | null
+): ReminderLevel {
+  const reached = REMINDER_LEVELS.filter((level) => daysOverdue >= delays[level])
+  const candidates = [...reached, ...(lastLevel ? [lastLevel] : []), REMINDER_LEVELS[0]]
+  return candidates.reduce((highest, level) =>
+    REMINDER_LEVELS.indexOf(level) > REMINDER_LEVELS.indexOf(highest) ? level : highest
+  )
+}
+
+// Every level, with the user's wording where saved and the defaults otherwise
+export function resolveReminderTemplates(stored: StoredTemplate[]) {
+  return REMINDER_LEVELS.map((level) => {
+    const template = stored.find((row) => row.level === level)
+    return {
+      level,
+      ...(template
+        ? { delayDays: template.delayDays, subject: template.subject, body: template.body }
+        : DEFAULT_REMINDER_TEMPLATES[level]),
+      isDefault: !template,
+    }
+  })
+}
+
+export async function getReminderTemplates(userId: string) {
+  const stored = await db
+    .select({
+      level: reminderTemplates.level,
+      delayDays: reminderTemplates.delayDays,
+      subject: reminderTemplates.subject,
+      body: reminderTemplates.body,
+    })
+    .from(reminderTemplates)
+    .where(eq(reminderTemplates.userId, userId))
+
+  return resolveReminderTemplates(stored)
+}
+
+export async function getReminderContext(userId: string, invoiceId: string): Promise<ReminderContext | null> {
+  const [row] = await db
+    .select({
+      invoiceId: invoices.id,
+      type: invoices.type,
+      invoiceNumber: invoices.invoiceNumber,
+      client: invoices.client,
+      invoiceDate: invoices.invoiceDate,
+      dueDate: invoices.dueDate,
+      paymentDate: invoices.paymentDate,
+      currency: invoices.currency,
+      amountTtc: invoices.amountTtc,
+      amountPaid: sql<string>`(SELECT COALESCE(SUM(${invoicePayments.amount}::numeric), 0) FROM ${invoicePayments} WHERE ${invoicePayments.invoiceId} = ${invoices.id})`,
+      clientEmail: clients.email,
+    })
+    .from(invoices)
+    .leftJoin(clients, eq(clients.id, invoices.clientId))
+    .where(and(eq(invoices.id, invoiceId), eq(invoices.userId, userId)))
+
+  if (!row) return null
+
+  const issuer = await db.query.issuerProfiles.findFirst({
+    where: eq(issuerProfiles.userId, userId),
+  })
+  const { amountTtc, amountPaid, ...invoice } = row
+
+  return {
+    ...invoice,
+    outstanding: roundCents(parseFloat(amountTtc) - parseFloat(amountPaid)),
+    companyName: issuer?.companyName ?? null,
+    issuerEmail: issuer?.email ?? null,
+    latePenaltyRate: issuer ? parseFloat(issuer.latePenaltyRate) : DEFAULT_LATE_PENALTY_RATE,
+  }
+}
+
+export async function getInvoiceReminders(invoiceId: string) {
+  return db
+    .select()
+    .from(invoiceReminders)
+    .where(eq(invoiceReminders.invoiceId, invoiceId))
+    .orderBy(desc(invoiceReminders.sentAt))
+}
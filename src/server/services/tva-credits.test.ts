@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LaterTvaFilingError, creditBalance, fileTvaCredit, installmentsExcess, ledgerMovements } from './tva-credits'
+import type { DbExecutor } from './invoice-payments'
+
+describe('ledgerMovements', () => {
+  it('records the credit of the month and the refund asked', () => {
+    expect(ledgerMovements({ case22: 0, case25: 1000, case26: 800 })).toEqual([
+      { type: 'credit', amount: 1000 },
+      { type: 'refund', amount: 800 },
+    ])
+  })
+
+  it('uses up the carried credit', () => {
+    expect(ledgerMovements({ case22: 300, case25: 0, case26: 0 })).toEqual([
+      { type: 'imputation', amount: 300 },
+    ])
+  })
+
+  it('leaves nothing for a month without credit', () => {
+    expect(ledgerMovements({ case22: 0, case25: 0, case26: 0 })).toEqual([])
+  })
+
+  it('credits the installments a CA12 paid beyond its TVA', () => {
+    const excess = installmentsExcess(400, 1500)
+    expect(excess).toBe(1100)
+    expect(ledgerMovements({ case22: 200, case25: 0, case26: 0 }, excess)).toEqual([
+      { type: 'imputation', amount: 200 },
+      { type: 'credit', amount: 1100 },
+    ])
+  })
+})
+
+describe('creditBalance', () => {
+  it('carries line 27 of each filed return', () => {
+    const entries = [
+      // September: 1000 credit, 800 refunded → 200 carried
+      { type: 'credit', amount: '1000.00' },
+      { type: 'refund', amount: '800.00' },
+      // October: the 200 are used, 50 left over
+      { type: 'imputation', amount: '200.00' },
+      { type: 'credit', amount: '50.00' },
+    ]
+    expect(creditBalance(entries)).toBe(50)
+  })
+})
+
+describe('fileTvaCredit', () => {
+  function fakeExecutor(laterMonths: { periodMonth: string }[]) {
+    const returning = vi.fn().mockResolvedValue([{ id: 'entry-id' }])
+    const values = vi.fn().mockReturnValue({ returning })
+    const executor = {
+      select: vi.fn().mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            orderBy: vi.fn().mockReturnValue({
+              limit: vi.fn().mockResolvedValue(laterMonths),
+            }),
+          }),
+        }),
+      }),
+      delete: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+      insert: vi.fn().mockReturnValue({ values }),
+    }
+    return { executor: executor as unknown as DbExecutor, values }
+  }
+
+  it('refuses to change a month once a later one is filed', async () => {
+    const { executor } = fakeExecutor([{ periodMonth: '2025-11' }])
+    await expect(fileTvaCredit(executor, 'user-id', '2025-10', [])).rejects.toBeInstanceOf(LaterTvaFilingError)
+  })
+
+  it('marks refunds as requested', async () => {
+    const { executor, values } = fakeExecutor([])
+    await fileTvaCredit(executor, 'user-id', '2025-10', [
+      { type: 'credit', amount: 1000 },
+      { type: 'refund', amount: 800 },
+    ])
+    expect(values).toHaveBeenCalledWith([
+      expect.objectContaining({ type: 'credit', amount: '1000.00', refundStatus: null }),
+      expect.objectContaining({ type: 'refund', amount: '800.00', refundStatus: 'requested' }),
+    ])
+  })
+})
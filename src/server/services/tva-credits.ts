@@ -0,0 +1,93 @@
+import { eq, and, gt, lt, sql } from 'drizzle-orm'
+import { tvaCreditEntries } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+import type { Ca3Boxes } from './ca3'
+
+export type TvaCreditEntryType = 'credit' | 'imputation' | 'refund'
+
+export interface TvaCreditMovement {
+  type: TvaCreditEntryType
+  amount: number
+}
+
+// Credits add to the balance; imputations on a later CA3 and refunds take from it
+const SIGNS: Record<TvaCreditEntryType, number> = {
+  credit: 1,
+  imputation: -1,
+  refund: -1,
+}
+
+export class LaterTvaFilingError extends Error {
+  constructor(public readonly laterMonth: string) {
+    super(`La déclaration de ${laterMonth} est déjà enregistrée : annulez-la avant de modifier une période antérieure`)
+  }
+}
+
+// Installments of a CA12 paid beyond its net TVA (line 28), credited like line 25
+export function installmentsExcess(case28: number, installmentsTotal: number): number {
+  return Math.max(0, installmentsTotal - case28)
+}
+
+// Movements a filed CA3 or CA12 writes in the ledger; once line 22 is used up and line 25
+// is credited, the balance equals line 27 of the return plus any excess of installments
+export function ledgerMovements(cases: Pick<Ca3Boxes, 'case22' | 'case25' | 'case26'>, excess = 0): TvaCreditMovement[] {
+  const movements: TvaCreditMovement[] = [
+    { type: 'imputation', amount: cases.case22 },
+    { type: 'credit', amount: cases.case25 + excess },
+    { type: 'refund', amount: cases.case26 },
+  ]
+  return movements.filter((movement) => movement.amount > 0)
+}
+
+export function creditBalance(entries: { type: string; amount: string }[]): number {
+  return entries.reduce((sum, entry) => sum + SIGNS[entry.type as TvaCreditEntryType] * parseFloat(entry.amount), 0)
+}
+
+// Credit available for the CA3 of `beforeMonth` (line 22), or the current balance when omitted
+export async function getTvaCreditBalance(executor: DbExecutor, userId: string, beforeMonth?: string): Promise<number> {
+  const conditions = [eq(tvaCreditEntries.userId, userId)]
+  if (beforeMonth) {
+    conditions.push(lt(tvaCreditEntries.periodMonth, beforeMonth))
+  }
+
+  const [result] = await executor
+    .select({
+      balance: sql<string>`COALESCE(SUM(CASE WHEN ${tvaCreditEntries.type} = 'credit' THEN ${tvaCreditEntries.amount}::numeric ELSE -${tvaCreditEntries.amount}::numeric END), 0)`,
+    })
+    .from(tvaCreditEntries)
+    .where(and(...conditions))
+
+  return parseFloat(result.balance)
+}
+
+// Replaces the ledger entries of a month; only the latest filed month can change,
+// the following returns having carried its credit already
+export async function fileTvaCredit(executor: DbExecutor, userId: string, month: string, movements: TvaCreditMovement[]) {
+  const [later] = await executor
+    .select({ periodMonth: tvaCreditEntries.periodMonth })
+    .from(tvaCreditEntries)
+    .where(and(eq(tvaCreditEntries.userId, userId), gt(tvaCreditEntries.periodMonth, month)))
+    .orderBy(tvaCreditEntries.periodMonth)
+    .limit(1)
+
+  if (later) {
+    throw new LaterTvaFilingError(later.periodMonth)
+  }
+
+  await executor
+    .delete(tvaCreditEntries)
+    .where(and(eq(tvaCreditEntries.userId, userId), eq(tvaCreditEntries.periodMonth, month)))
+
+  if (movements.length === 0) return []
+
+  return executor
+    .insert(tvaCreditEntries)
+    .values(movements.map((movement) => ({
+      userId,
+      periodMonth: month,
+      type: movement.type,
+      amount: movement.amount.toFixed(2),
+      refundStatus: movement.type === 'refund' ? 'requested' : null,
+    })))
+    .returning()
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+import { franchiseThresholdsForYear, monitorFranchise } from './tva-franchise'
+import type { FranchiseReceipt } from './tva-franchise'
+
+vi.mock('../db', () => ({ db: {} }))
+
+function receipt(invoiceNumber: string, paymentDate: string, amountHt: number): FranchiseReceipt {
+  return { invoiceId: `id-${invoiceNumber}`, invoiceNumber, paymentDate, amountHt, tvaRegime: 'franchise' }
+}
+
+describe('franchiseThresholdsForYear', () => {
+  it('uses the thresholds of the year', () => {
+    expect(franchiseThresholdsForYear(2024).services).toEqual({ base: 36800, majore: 39100 })
+    expect(franchiseThresholdsForYear(2025).services).toEqual({ base: 37500, majore: 41250 })
+  })
+
+  it('keeps the latest known thresholds for later years', () => {
+    expect(franchiseThresholdsForYear(2030)).toEqual(franchiseThresholdsForYear(2026))
+  })
+})
+
+describe('monitorFranchise', () => {
+  it('stays under the threshold', () => {
+    const monitoring = monitorFranchise(2025, [receipt('F-1', '2025-03-01', 10000)], 0)
+    expect(monitoring).toMatchObject({ applies: true, status: 'under', receiptsHt: 10000, tvaDueFrom: null, alerts: [] })
+  })
+
+  it('warns from 90 % of the base threshold', () => {
+    const monitoring = monitorFranchise(2025, [receipt('F-1', '2025-03-01', 34000)], 0)
+    expect(monitoring.status).toBe('approaching')
+    expect(monitoring.alerts[0]).toContain('90 %')
+  })
+
+  it('keeps the franchise until 31 December above the base threshold', () => {
+    const monitoring = monitorFranchise(2025, [
+      receipt('F-1', '2025-05-10', 30000),
+      receipt('F-2', '2025-09-15', 8000),
+    ], 0)
+    expect(monitoring.status).toBe('base_exceeded')
+    expect(monitoring.baseCrossing).toEqual({
+      threshold: 37500,
+      date: '2025-09-15',
+      invoiceId: 'id-F-2',
+      invoiceNumber: 'F-2',
+      cumulative: 38000,
+    })
+    expect(monitoring.tvaDueFrom).toEqual({ date: '2026-01-01', invoiceId: null, invoiceNumber: null })
+  })
+
+  it('charges TVA from the invoice crossing the seuil majoré', () => {
+    const monitoring = monitorFranchise(2025, [
+      receipt('F-3', '2025-11-20', 5000),
+      receipt('F-1', '2025-05-10', 30000),
+      receipt('F-2', '2025-09-15', 8000),
+    ], 0)
+    expect(monitoring.status).toBe('majore_exceeded')
+    expect(monitoring.baseCrossing?.invoiceNumber).toBe('F-2')
+    expect(monitoring.majoreCrossing).toMatchObject({ date: '2025-11-20', invoiceNumber: 'F-3', cumulative: 43000 })
+    expect(monitoring.tvaDueFrom).toEqual({ date: '2025-11-20', invoiceId: 'id-F-3', invoiceNumber: 'F-3' })
+    expect(monitoring.alerts[0]).toContain('facture F-3')
+  })
+
+  it('dates the TVA from the first day of the month before 2025', () => {
+    const monitoring = monitorFranchise(2024, [receipt('F-1', '2024-10-17', 40000)], 0)
+    expect(monitoring.tvaDueFrom?.date).toBe('2024-10-01')
+  })
+
+  it('loses the franchise from 1 January after a year above the base threshold', () => {
+    const monitoring = monitorFranchise(2025, [receipt('F-1', '2025-02-01', 1000)], 38000)
+    expect(monitoring.tvaDueFrom?.date).toBe('2025-01-01')
+    expect(monitoring.alerts[0]).toContain('2024')
+  })
+
+  it('uses the sales thresholds for a sales activity', () => {
+    const monitoring = monitorFranchise(2025, [receipt('F-1', '2025-06-01', 86000)], 0, 'sales')
+    expect(monitoring.thresholds).toEqual({ base: 85000, majore: 93500 })
+    expect(monitoring.status).toBe('base_exceeded')
+  })
+
+  it('does not apply without franchise invoices', () => {
+    const monitoring = monitorFranchise(2025, [{ ...receipt('F-1', '2025-02-01', 1000), tvaRegime: 'domestic' }], 0)
+    expect(monitoring.applies).toBe(false)
+  })
+})
@@ -0,0 +1,182 @@
+import { eq } from 'drizzle-orm'
+import { db } from '../db'
+import { settings } from '../db/schema'
+import { getReceiptsInPeriod } from './invoice-payments'
+
+// Franchise en base de TVA (art. 293 B CGI): TVA is not charged while the receipts of the year stay
+// under the base threshold. Crossing it keeps the franchise until 31 December; crossing the
+// "seuil majoré" ends it at once, TVA being due from the sale that crosses it.
+
+export type FranchiseActivity = 'services' | 'sales'
+
+export interface FranchiseThresholds {
+  base: number
+  majore: number
+}
+
+// Thresholds per year, prestations de services and ventes de marchandises (LF 2025 from 2025)
+export const FRANCHISE_THRESHOLDS: Record<number, { services: FranchiseThresholds; sales: FranchiseThresholds }> = {
+  2023: { services: { base: 36800, majore: 39100 }, sales: { base: 91900, majore: 101000 } },
+  2024: { services: { base: 36800, majore: 39100 }, sales: { base: 91900, majore: 101000 } },
+  2025: { services: { base: 37500, majore: 41250 }, sales: { base: 85000, majore: 93500 } },
+  2026: { services: { base: 37500, majore: 41250 }, sales: { base: 85000, majore: 93500 } },
+}
+
+// Warn once the receipts reach 90 % of the base threshold
+export const FRANCHISE_WARNING_RATIO = 0.9
+
+export type FranchiseStatus = 'under' | 'approaching' | 'base_exceeded' | 'majore_exceeded'
+
+export interface FranchiseReceipt {
+  invoiceId: string
+  invoiceNumber: string | null
+  paymentDate: string
+  amountHt: number // EUR
+  tvaRegime: string
+}
+
+export interface FranchiseCrossing {
+  threshold: number
+  date: string
+  invoiceId: string
+  invoiceNumber: string | null
+  cumulative: number
+}
+
+export interface FranchiseMonitoring {
+  year: number
+  applies: boolean // Franchise invoices issued in the year
+  thresholds: FranchiseThresholds
+  receiptsHt: number
+  previousYearReceiptsHt: number
+  status: FranchiseStatus
+  baseCrossing: FranchiseCrossing | null
+  majoreCrossing: FranchiseCrossing | null
+  // First day TVA must be charged, and the invoice it starts with when the seuil majoré is crossed
+  tvaDueFrom: { date: string; invoiceId: string | null; invoiceNumber: string | null } | null
+  alerts: string[]
+}
+
+// Latest known thresholds for years not listed yet
+export function franchiseThresholdsForYear(year: number): { services: FranchiseThresholds; sales: FranchiseThresholds } {
+  const years = Object.keys(FRANCHISE_THRESHOLDS).map(Number).sort((a, b) => a - b)
+  const known = years.filter((knownYear) => knownYear <= year)
+  return FRANCHISE_THRESHOLDS[known.length > 0 ? known[known.length - 1] : years[0]]
+}
+
+function formatEuros(amount: number): string {
+  return new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(amount)
+}
+
+function formatDay(date: string): string {
+  const [year, month, day] = date.split('-')
+  return `${day}/${month}/${year}`
+}
+
+// First receipt taking the cumulative receipts above the threshold
+function findCrossing(receipts: FranchiseReceipt[], threshold: number): FranchiseCrossing | null {
+  let cumulative = 0
+  for (const receipt of receipts) {
+    cumulative += receipt.amountHt
+    if (cumulative > threshold) {
+      return {
+        threshold,
+        date: receipt.paymentDate,
+        invoiceId: receipt.invoiceId,
+        invoiceNumber: receipt.invoiceNumber,
+        cumulative: Math.round(cumulative * 100) / 100,
+      }
+    }
+  }
+  return null
+}
+
+export function monitorFranchise(
+  year: number,
+  receipts: FranchiseReceipt[],
+  previousYearReceiptsHt: number,
+  activity: FranchiseActivity = 'services'
+): FranchiseMonitoring {
+  const thresholds = franchiseThresholdsForYear(year)[activity]
+  const sorted = [...receipts].sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+  const receiptsHt = sorted.reduce((sum, receipt) => sum + receipt.amountHt, 0)
+  const baseCrossing = findCrossing(sorted, thresholds.base)
+  const majoreCrossing = findCrossing(sorted, thresholds.majore)
+  const alerts: string[] = []
+
+  let status: FranchiseStatus = 'under'
+  let tvaDueFrom: FranchiseMonitoring['tvaDueFrom'] = null
+
+  if (majoreCrossing) {
+    status = 'majore_exceeded'
+    // Before 2025 TVA was due from the first day of the month of the crossing
+    tvaDueFrom = year >= 2025
+      ? { date: majoreCrossing.date, invoiceId: majoreCrossing.invoiceId, invoiceNumber: majoreCrossing.invoiceNumber }
+      : { date: `${majoreCrossing.date.substring(0, 7)}-01`, invoiceId: majoreCrossing.invoiceId, invoiceNumber: majoreCrossing.invoiceNumber }
+    alerts.push(
+      `Seuil majoré de ${formatEuros(thresholds.majore)} dépassé le ${formatDay(majoreCrossing.date)} : ` +
+      `TVA due à partir de la facture ${majoreCrossing.invoiceNumber ?? 'sans numéro'}`
+    )
+  } else if (baseCrossing) {
+    status = 'base_exceeded'
+    tvaDueFrom = { date: `${year + 1}-01-01`, invoiceId: null, invoiceNumber: null }
+    alerts.push(
+      `Seuil de franchise de ${formatEuros(thresholds.base)} dépassé le ${formatDay(baseCrossing.date)} ` +
+      `(facture ${baseCrossing.invoiceNumber ?? 'sans numéro'}) : TVA due à partir du 1er janvier ${year + 1}, ` +
+      `ou dès le dépassement du seuil majoré de ${formatEuros(thresholds.majore)}`
+    )
+  } else if (receiptsHt >= thresholds.base * FRANCHISE_WARNING_RATIO) {
+    status = 'approaching'
+    alerts.push(
+      `Chiffre d'affaires ${year} à ${Math.floor(receiptsHt / thresholds.base * 100)} % du seuil de franchise ` +
+      `(${formatEuros(receiptsHt)} sur ${formatEuros(thresholds.base)})`
+    )
+  }
+
+  // Only a year under the base threshold opens the franchise for the next one
+  const previousThreshold = franchiseThresholdsForYear(year - 1)[activity].base
+  if (previousYearReceiptsHt > previousThreshold) {
+    alerts.unshift(
+      `Chiffre d'affaires ${year - 1} supérieur au seuil de franchise de ${formatEuros(previousThreshold)} : ` +
+      `TVA due depuis le 1er janvier ${year}`
+    )
+    if (!tvaDueFrom || tvaDueFrom.date > `${year}-01-01`) {
+      tvaDueFrom = { date: `${year}-01-01`, invoiceId: null, invoiceNumber: null }
+    }
+  }
+
+  return {
+    year,
+    applies: sorted.some((receipt) => receipt.tvaRegime === 'franchise'),
+    thresholds,
+    receiptsHt: Math.round(receiptsHt * 100) / 100,
+    previousYearReceiptsHt: Math.round(previousYearReceiptsHt * 100) / 100,
+    status,
+    baseCrossing,
+    majoreCrossing,
+    tvaDueFrom,
+    alerts,
+  }
+}
+
+// Receipts HT of the year and the previous one, from the payments recorded on invoices
+export async function getFranchiseMonitoring(userId: string, year: number): Promise<FranchiseMonitoring> {
+  const userSettings = await db.query.settings.findFirst({
+    where: eq(settings.userId, userId),
+  })
+  const receipts = await getReceiptsInPeriod(userId, `${year}-01-01`, `${year}-12-31`)
+  const previousYear = await getReceiptsInPeriod(userId, `${year - 1}-01-01`, `${year - 1}-12-31`)
+
+  return monitorFranchise(
+    year,
+    receipts.map((receipt) => ({
+      invoiceId: receipt.invoiceId,
+      invoiceNumber: receipt.invoiceNumber,
+      paymentDate: receipt.paymentDate,
+      amountHt: parseFloat(receipt.amountHt),
+      tvaRegime: receipt.tvaRegime,
+    })),
+    previousYear.reduce((sum, receipt) => sum + parseFloat(receipt.amountHt), 0),
+    userSettings?.activityType === 'sales' ? 'sales' : 'services'
+  )
+}
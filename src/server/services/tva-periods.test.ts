@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ca12InstallmentBase,
+  ca12Installments,
+  checkTvaPeriodRegime,
+  monthBefore,
+  monthsOfPeriod,
+  parseTvaPeriod,
+  tvaPaymentStatus,
+  tvaPeriodOfMonth,
+  tvaPeriodsOfYear,
+} from './tva-periods'
+
+describe('tvaPeriodsOfYear', () => {
+  it('monthly: twelve CA3 due on the 19th of the following month', () => {
+    const periods = tvaPeriodsOfYear(2025, 'monthly')
+    expect(periods).toHaveLength(12)
+    expect(periods[2]).toMatchObject({
+      key: '2025-03',
+      form: 'CA3',
+      startDate: '2025-03-01',
+      endDate: '2025-03-31',
+      dueDate: '2025-04-21', // 19 April 2025 is a Saturday
+    })
+    expect(periods[11].dueDate).toBe('2026-01-19')
+  })
+
+  it('quarterly: four CA3 covering three months each', () => {
+    const periods = tvaPeriodsOfYear(2025, 'quarterly')
+    expect(periods.map((period) => period.key)).toEqual(['2025-T1', '2025-T2', '2025-T3', '2025-T4'])
+    expect(periods[1]).toMatchObject({
+      startMonth: '2025-04',
+      endMonth: '2025-06',
+      endDate: '2025-06-30',
+      dueDate: '2025-07-21', // 19 July 2025 is a Saturday
+    })
+  })
+
+  it('annual: one CA12 due the second working day after 1 May', () => {
+    const [period] = tvaPeriodsOfYear(2025, 'annual')
+    expect(period).toMatchObject({
+      key: '2025',
+      form: 'CA12',
+      startDate: '2025-01-01',
+      endDate: '2025-12-31',
+      endMonth: '2025-12',
+      dueDate: '2026-05-05', // 1 May 2026 is a Friday
+    })
+    expect(tvaPeriodsOfYear(2024, 'annual')[0].dueDate).toBe('2025-05-05')
+  })
+})
+
+describe('parseTvaPeriod', () => {
+  it('reads the regime from the key format', () => {
+    expect(parseTvaPeriod('2025-10')?.regime).toBe('monthly')
+    expect(parseTvaPeriod('2025-T4')?.regime).toBe('quarterly')
+    expect(parseTvaPeriod('2025')?.regime).toBe('annual')
+  })
+
+  it('rejects unknown keys', () => {
+    expect(parseTvaPeriod('2025-13')).toBeNull()
+    expect(parseTvaPeriod('2025-T5')).toBeNull()
+    expect(parseTvaPeriod('25-01')).toBeNull()
+  })
+})
+
+describe('tvaPeriodOfMonth', () => {
+  it('finds the quarter or the year of a month', () => {
+    expect(tvaPeriodOfMonth('2025-08', 'quarterly').key).toBe('2025-T3')
+    expect(tvaPeriodOfMonth('2025-08', 'annual').key).toBe('2025')
+    expect(tvaPeriodOfMonth('2025-08', 'monthly').key).toBe('2025-08')
+  })
+})
+
+describe('monthBefore', () => {
+  it('steps back over the turn of the year', () => {
+    expect(monthBefore('2025-04')).toBe('2025-03')
+    expect(monthBefore('2025-01')).toBe('2024-12')
+  })
+})
+
+describe('checkTvaPeriodRegime', () => {
+  it('accepts a period of the year regime', () => {
+    expect(checkTvaPeriodRegime(parseTvaPeriod('2025-T2')!, 'quarterly')).toBeNull()
+  })
+
+  it('names the expected periods otherwise', () => {
+    expect(checkTvaPeriodRegime(parseTvaPeriod('2025-05')!, 'quarterly')).toContain('2025-T1 à 2025-T4')
+    expect(checkTvaPeriodRegime(parseTvaPeriod('2025-05')!, 'annual')).toContain('période attendue 2025')
+  })
+})
+
+describe('monthsOfPeriod', () => {
+  it('lists the months of a quarter', () => {
+    expect(monthsOfPeriod(parseTvaPeriod('2025-T4')!)).toEqual(['2025-10', '2025-11', '2025-12'])
+  })
+})
+
+describe('ca12Installments', () => {
+  it('55 % in July and 40 % in December of the previous year TVA', () => {
+    expect(ca12Installments(2025, 3000)).toEqual([
+      { key: '2025-07', label: 'Acompte de juillet', rate: 55, amount: 1650, dueDate: '2025-07-24' },
+      { key: '2025-12', label: 'Acompte de décembre', rate: 40, amount: 1200, dueDate: '2025-12-24' },
+    ])
+  })
+
+  it('waives the installments below 1 000 EUR', () => {
+    expect(ca12Installments(2025, 999)).toEqual([])
+  })
+
+  it('takes the base before deducting the TVA on fixed assets', () => {
+    expect(ca12InstallmentBase({ case16: 5000, case20: 1200 })).toBe(3800)
+    expect(ca12InstallmentBase({ case16: 100, case20: 400 })).toBe(0)
+  })
+})
+
+describe('tvaPaymentStatus', () => {
+  const base = { amountDue: 500, paidAmount: 0, pendingAmount: 0, isComplete: true, dueDate: '2025-07-21', today: '2025-07-10' }
+
+  it('follows the recorded payments first', () => {
+    expect(tvaPaymentStatus({ ...base, paidAmount: 500 })).toBe('paid')
+    expect(tvaPaymentStatus({ ...base, pendingAmount: 500 })).toBe('pending')
+  })
+
+  it('is not due while the period runs or without TVA to pay', () => {
+    expect(tvaPaymentStatus({ ...base, isComplete: false })).toBe('not_due')
+    expect(tvaPaymentStatus({ ...base, amountDue: 0 })).toBe('not_due')
+  })
+
+  it('becomes overdue after the due date', () => {
+    expect(tvaPaymentStatus(base)).toBe('upcoming')
+    expect(tvaPaymentStatus({ ...base, today: '2025-07-22' })).toBe('overdue')
+  })
+})
@@ -0,0 +1,222 @@
+import { eq, and } from 'drizzle-orm'
+import { tvaFilingRegimes } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+
+// TVA filing regime chosen for a year: monthly CA3 (réel normal), quarterly CA3 (réel normal
+// with less than 4 000 EUR of TVA a year) or annual CA12 (réel simplifié) with two installments
+export type TvaFilingRegime = 'monthly' | 'quarterly' | 'annual'
+
+export const TVA_FILING_REGIMES = ['monthly', 'quarterly', 'annual'] as const
+
+export const DEFAULT_TVA_FILING_REGIME: TvaFilingRegime = 'monthly'
+
+export const TVA_FILING_REGIME_LABELS: Record<TvaFilingRegime, string> = {
+  monthly: 'CA3 mensuelle',
+  quarterly: 'CA3 trimestrielle',
+  annual: 'CA12 annuelle',
+}
+
+// CA12 installments (art. 287-3 CGI): 55 % in July and 40 % in December of the TVA due for
+// the previous year, waived when that TVA is below 1 000 EUR
+export const CA12_INSTALLMENT_THRESHOLD = 1000
+export const CA12_INSTALLMENTS = [
+  { month: 7, rate: 55, label: 'Acompte de juillet' },
+  { month: 12, rate: 40, label: 'Acompte de décembre' },
+]
+
+// CA3 returns are due around the 19th of the following month (15 to 24 depending on the SIREN),
+// installments by the 24th of their month
+const CA3_DUE_DAY = 19
+const INSTALLMENT_DUE_DAY = 24
+
+export interface TvaPeriod {
+  key: string // YYYY-MM, YYYY-T1 to YYYY-T4, or YYYY
+  regime: TvaFilingRegime
+  form: 'CA3' | 'CA12'
+  label: string
+  year: number
+  startMonth: string // YYYY-MM
+  endMonth: string // YYYY-MM, the credit ledger records the return under it
+  startDate: string
+  endDate: string
+  dueDate: string
+}
+
+export interface TvaInstallment {
+  key: string // YYYY-MM of the installment
+  label: string
+  rate: number // % of the previous year's TVA
+  amount: number
+  dueDate: string
+}
+
+export type TvaPaymentStatus = 'paid' | 'pending' | 'overdue' | 'upcoming' | 'not_due'
+
+const MONTH_NAMES = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+]
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+// A deadline falling on a weekend moves to the next Monday
+function nextWeekday(year: number, monthIndex: number, day: number): string {
+  const date = new Date(Date.UTC(year, monthIndex, day))
+  const dayOfWeek = date.getUTCDay()
+  if (dayOfWeek === 6) date.setUTCDate(date.getUTCDate() + 2)
+  if (dayOfWeek === 0) date.setUTCDate(date.getUTCDate() + 1)
+  return formatDate(date)
+}
+
+// The CA12 is filed by the second working day after 1 May of the following year
+function ca12DueDate(year: number): string {
+  const date = new Date(Date.UTC(year + 1, 4, 1))
+  let workingDays = 0
+  while (workingDays < 2) {
+    date.setUTCDate(date.getUTCDate() + 1)
+    const dayOfWeek = date.getUTCDay()
+    if (dayOfWeek !== 0 && dayOfWeek !== 6) workingDays++
+  }
+  return formatDate(date)
+}
+
+function monthsPeriod(year: number, firstMonth: number, lastMonth: number) {
+  const lastDay = new Date(Date.UTC(year, lastMonth, 0)).getUTCDate()
+  return {
+    year,
+    startMonth: `${year}-${pad(firstMonth)}`,
+    endMonth: `${year}-${pad(lastMonth)}`,
+    startDate: `${year}-${pad(firstMonth)}-01`,
+    endDate: `${year}-${pad(lastMonth)}-${pad(lastDay)}`,
+    // Returns are due the month after the period, January of the next year for December
+    dueDate: nextWeekday(year, lastMonth, CA3_DUE_DAY),
+  }
+}
+
+function monthlyPeriod(year: number, month: number): TvaPeriod {
+  return {
+    key: `${year}-${pad(month)}`,
+    regime: 'monthly',
+    form: 'CA3',
+    label: `${MONTH_NAMES[month - 1]} ${year}`,
+    ...monthsPeriod(year, month, month),
+  }
+}
+
+function quarterlyPeriod(year: number, quarter: number): TvaPeriod {
+  return {
+    key: `${year}-T${quarter}`,
+    regime: 'quarterly',
+    form: 'CA3',
+    label: `${quarter === 1 ? '1er' : `${quarter}e`} trimestre ${year}`,
+    ...monthsPeriod(year, quarter * 3 - 2, quarter * 3),
+  }
+}
+
+function annualPeriod(year: number): TvaPeriod {
+  return {
+    key: `${year}`,
+    regime: 'annual',
+    form: 'CA12',
+    label: `Exercice ${year}`,
+    ...monthsPeriod(year, 1, 12),
+    dueDate: ca12DueDate(year),
+  }
+}
+
+export function tvaPeriodsOfYear(year: number, regime: TvaFilingRegime): TvaPeriod[] {
+  if (regime === 'annual') return [annualPeriod(year)]
+  if (regime === 'quarterly') return [1, 2, 3, 4].map((quarter) => quarterlyPeriod(year, quarter))
+  return Array.from({ length: 12 }, (_, index) => monthlyPeriod(year, index + 1))
+}
+
+// Period of a key, the key format telling the regime it belongs to
+export function parseTvaPeriod(key: string): TvaPeriod | null {
+  const monthly = /^(\d{4})-(\d{2})$/.exec(key)
+  if (monthly) {
+    const month = Number(monthly[2])
+    return month >= 1 && month <= 12 ? monthlyPeriod(Number(monthly[1]), month) : null
+  }
+  const quarterly = /^(\d{4})-T([1-4])$/.exec(key)
+  if (quarterly) return quarterlyPeriod(Number(quarterly[1]), Number(quarterly[2]))
+  if (/^\d{4}$/.test(key)) return annualPeriod(Number(key))
+  return null
+}
+
+// Period containing a month (YYYY-MM) under a regime
+export function tvaPeriodOfMonth(month: string, regime: TvaFilingRegime): TvaPeriod {
+  const [year, monthNum] = month.split('-').map(Number)
+  if (regime === 'annual') return annualPeriod(year)
+  if (regime === 'quarterly') return quarterlyPeriod(year, Math.ceil(monthNum / 3))
+  return monthlyPeriod(year, monthNum)
+}
+
+// Month (YYYY-MM) before another, to find the return preceding a period
+export function monthBefore(month: string): string {
+  const [year, monthNum] = month.split('-').map(Number)
+  return monthNum === 1 ? `${year - 1}-12` : `${year}-${pad(monthNum - 1)}`
+}
+
+// A return must use the periods of the regime chosen for its year
+export function checkTvaPeriodRegime(period: TvaPeriod, regime: TvaFilingRegime): string | null {
+  if (period.regime === regime) return null
+  const periods = tvaPeriodsOfYear(period.year, regime)
+  const expected = periods.length === 1
+    ? periods[0].key
+    : `${periods[0].key} à ${periods[periods.length - 1].key}`
+  return `La TVA ${period.year} est déclarée en ${TVA_FILING_REGIME_LABELS[regime]} : période attendue ${expected}`
+}
+
+// Months of a period as YYYY-MM, to spread recurring expenses over it
+export function monthsOfPeriod(period: Pick<TvaPeriod, 'startMonth' | 'endMonth'>): string[] {
+  const [year, firstMonth] = period.startMonth.split('-').map(Number)
+  const lastMonth = Number(period.endMonth.split('-')[1])
+  return Array.from({ length: lastMonth - firstMonth + 1 }, (_, index) => `${year}-${pad(firstMonth + index)}`)
+}
+
+// Installments base: TVA due for the previous year before deducting the TVA on fixed assets
+// (line 19), i.e. gross TVA less the TVA on other goods and services
+export function ca12InstallmentBase(previousYear: { case16: number; case20: number }): number {
+  return Math.max(0, previousYear.case16 - previousYear.case20)
+}
+
+export function ca12Installments(year: number, base: number): TvaInstallment[] {
+  if (base < CA12_INSTALLMENT_THRESHOLD) return []
+  return CA12_INSTALLMENTS.map(({ month, rate, label }) => ({
+    key: `${year}-${pad(month)}`,
+    label,
+    rate,
+    amount: Math.round(base * rate / 100),
+    dueDate: nextWeekday(year, month - 1, INSTALLMENT_DUE_DAY),
+  }))
+}
+
+// Payment state of a return or installment once its amount is known
+export function tvaPaymentStatus(input: {
+  amountDue: number
+  paidAmount: number
+  pendingAmount: number
+  isComplete: boolean // Period over (returns) or month reached (installments)
+  dueDate: string
+  today: string
+}): TvaPaymentStatus {
+  if (input.paidAmount > 0) return 'paid'
+  if (input.pendingAmount > 0) return 'pending'
+  if (!input.isComplete || input.amountDue <= 0) return 'not_due'
+  return input.today > input.dueDate ? 'overdue' : 'upcoming'
+}
+
+export async function getTvaFilingRegime(executor: DbExecutor, userId: string, year: number): Promise<TvaFilingRegime> {
+  const [row] = await executor
+    .select({ regime: tvaFilingRegimes.regime })
+    .from(tvaFilingRegimes)
+    .where(and(eq(tvaFilingRegimes.userId, userId), eq(tvaFilingRegimes.year, year)))
+
+  return (row?.regime as TvaFilingRegime | undefined) ?? DEFAULT_TVA_FILING_REGIME
+}
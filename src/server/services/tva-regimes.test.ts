@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { checkTvaRegime, checkVatNumber, normalizeVatNumber, suggestTvaRegime, tvaRegimeCa3Line, tvaRegimeMention } from './tva-regimes'
+
+describe('checkTvaRegime', () => {
+  it('accepts any rate on a domestic invoice', () => {
+    expect(checkTvaRegime('domestic', [20, 0], null)).toBeNull()
+  })
+
+  it('rejects TVA on an invoice without TVA', () => {
+    expect(checkTvaRegime('export', [0, 20], null)).toContain('ne peut pas porter de TVA')
+    expect(checkTvaRegime('franchise', [5.5], null)).toContain('ne peut pas porter de TVA')
+  })
+
+  it('requires the client TVA number for reverse charge', () => {
+    expect(checkTvaRegime('intra_eu', [0], null)).toContain('intracommunautaire')
+    expect(checkTvaRegime('intra_eu', [0], 'DE123456789')).toBeNull()
+  })
+})
+
+describe('tvaRegimeCa3Line', () => {
+  it('declares goods on E1 and F2, services on E2', () => {
+    expect(tvaRegimeCa3Line('export', 'sales')).toBe('E1')
+    expect(tvaRegimeCa3Line('intra_eu', 'sales')).toBe('F2')
+    expect(tvaRegimeCa3Line('export', 'bnc')).toBe('E2')
+    expect(tvaRegimeCa3Line('intra_eu', 'bic_services')).toBe('E2')
+  })
+
+  it('keeps domestic sales on A1 and leaves franchise sales out', () => {
+    expect(tvaRegimeCa3Line('domestic', 'sales')).toBe('A1')
+    expect(tvaRegimeCa3Line('franchise', 'bnc')).toBeNull()
+  })
+})
+
+describe('tvaRegimeMention', () => {
+  it('cites the exemption of goods deliveries', () => {
+    expect(tvaRegimeMention('intra_eu', 'sales')).toContain('art. 262 ter I du CGI')
+    expect(tvaRegimeMention('export', 'sales')).toContain('art. 262 I du CGI')
+  })
+
+  it('cites the place of supply of services', () => {
+    expect(tvaRegimeMention('intra_eu', 'bnc')).toContain('art. 283-2 du CGI')
+    expect(tvaRegimeMention('export', 'bic_services')).toContain('art. 259-1 du CGI')
+  })
+})
+
+describe('suggestTvaRegime', () => {
+  it('uses the franchise without issuer TVA number', () => {
+    expect(suggestTvaRegime(null, 'DE')).toBe('franchise')
+  })
+
+  it('follows the client country', () => {
+    expect(suggestTvaRegime('FR12123456789', 'FR')).toBe('domestic')
+    expect(suggestTvaRegime('FR12123456789', undefined)).toBe('domestic')
+    expect(suggestTvaRegime('FR12123456789', 'BE')).toBe('intra_eu')
+    expect(suggestTvaRegime('FR12123456789', 'US')).toBe('export')
+  })
+})
+
+describe('checkVatNumber', () => {
+  it('accepts the VIES format of each country', () => {
+    expect(checkVatNumber('DE123456789', 'DE')).toBeNull()
+    expect(checkVatNumber('ATU12345678', 'AT')).toBeNull()
+    expect(checkVatNumber('NL123456789B01', 'NL')).toBeNull()
+    expect(checkVatNumber('ESX1234567R', 'ES')).toBeNull()
+    expect(checkVatNumber('IE1234567WA', 'IE')).toBeNull()
+  })
+
+  it('uses the EL prefix for Greece', () => {
+    expect(checkVatNumber('EL123456789', 'GR')).toBeNull()
+    expect(checkVatNumber('GR123456789', 'GR')).toContain('doit commencer par EL')
+  })
+
+  it('rejects a prefix of another country', () => {
+    expect(checkVatNumber('FR12987654321', 'BE')).toContain('doit commencer par BE')
+  })
+
+  it('rejects a wrong length', () => {
+    expect(checkVatNumber('DE12345678', 'DE')).toContain('invalide')
+    expect(checkVatNumber('BE2123456789', 'BE')).toContain('invalide')
+  })
+
+  it('rejects countries outside the EU', () => {
+    expect(checkVatNumber('GB123456789', 'GB')).toContain('hors Union européenne')
+  })
+
+  it('ignores spaces and dots', () => {
+    expect(normalizeVatNumber('de 123.456.789')).toBe('DE123456789')
+    expect(checkVatNumber('DE 123 456 789', 'DE')).toBeNull()
+  })
+})
@@ -0,0 +1,124 @@
+// TVA regime of an invoice: why TVA is (or is not) charged and where the sale is declared
+export type TvaRegime = 'domestic' | 'intra_eu' | 'export' | 'franchise'
+
+export const TVA_REGIMES = ['domestic', 'intra_eu', 'export', 'franchise'] as const
+
+export const EU_COUNTRIES = new Set([
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+])
+
+// Mention printed on the invoice to justify the absence of TVA (art. 242 nonies A, I-13° annexe II CGI).
+// Goods (activity type 'sales') are exempt deliveries; services are taxed where the client is established
+const TVA_REGIME_MENTIONS: Record<TvaRegime, { goods: string | null; services: string | null }> = {
+  domestic: { goods: null, services: null },
+  intra_eu: {
+    goods: 'Exonération de TVA, art. 262 ter I du CGI (livraison intracommunautaire).',
+    services: 'Autoliquidation : TVA due par le preneur, art. 283-2 du CGI et art. 196 de la directive 2006/112/CE.',
+  },
+  export: {
+    goods: 'Exonération de TVA, art. 262 I du CGI (exportation hors Union européenne).',
+    services: 'TVA non applicable, art. 259-1 du CGI (preneur établi hors Union européenne).',
+  },
+  franchise: { goods: 'TVA non applicable, art. 293 B du CGI.', services: 'TVA non applicable, art. 293 B du CGI.' },
+}
+
+export type TvaRegimeCa3Line = 'A1' | 'E1' | 'E2' | 'F2'
+
+// CA3 line receiving the HT of the sales: exports of goods on E1, intra-EU deliveries on F2,
+// services to EU businesses and outside the EU on E2; franchise sales are not declared at all
+const TVA_REGIME_CA3_LINES: Record<TvaRegime, { goods: TvaRegimeCa3Line | null; services: TvaRegimeCa3Line | null }> = {
+  domestic: { goods: 'A1', services: 'A1' },
+  intra_eu: { goods: 'F2', services: 'E2' },
+  export: { goods: 'E1', services: 'E2' },
+  franchise: { goods: null, services: null },
+}
+
+function isGoods(activityType: string): boolean {
+  return activityType === 'sales'
+}
+
+export function tvaRegimeMention(regime: TvaRegime, activityType: string): string | null {
+  const mentions = TVA_REGIME_MENTIONS[regime]
+  return isGoods(activityType) ? mentions.goods : mentions.services
+}
+
+export function tvaRegimeCa3Line(regime: TvaRegime, activityType: string): TvaRegimeCa3Line | null {
+  const lines = TVA_REGIME_CA3_LINES[regime]
+  return isGoods(activityType) ? lines.goods : lines.services
+}
+
+// Regimes without TVA only accept 0% lines; reverse charge needs the client's TVA number on the invoice
+export function checkTvaRegime(regime: TvaRegime, taxRates: number[], clientTvaNumber: string | null | undefined): string | null {
+  if (regime !== 'domestic' && taxRates.some((rate) => rate > 0)) {
+    return 'Une facture en autoliquidation, à l\'export ou en franchise ne peut pas porter de TVA'
+  }
+  if (regime === 'intra_eu' && !clientTvaNumber) {
+    return 'Numéro de TVA intracommunautaire du client requis pour l\'autoliquidation'
+  }
+  return null
+}
+
+// Regime suggested for a new invoice from the issuer and client (the user can still change it)
+export function suggestTvaRegime(issuerTvaNumber: string | null | undefined, clientCountry: string | null | undefined): TvaRegime {
+  if (!issuerTvaNumber) return 'franchise'
+  const country = clientCountry ?? 'FR'
+  if (country === 'FR') return 'domestic'
+  return EU_COUNTRIES.has(country) ? 'intra_eu' : 'export'
+}
+
+// VIES formats of the digits after the country prefix; Greece uses EL instead of its ISO code
+const VAT_NUMBER_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^[1-9]\d{1,9}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+}
+
+export function vatNumberPrefix(country: string): string {
+  return country === 'GR' ? 'EL' : country
+}
+
+// Numbers are often typed with spaces or dots ("DE 123.456.789")
+export function normalizeVatNumber(vatNumber: string): string {
+  return vatNumber.toUpperCase().replace(/[\s.\-]/g, '')
+}
+
+// Checks the prefix against the client country and the format against VIES; does not query VIES
+export function checkVatNumber(vatNumber: string, country: string): string | null {
+  const prefix = vatNumberPrefix(country)
+  const format = VAT_NUMBER_FORMATS[prefix]
+  if (!format) return `Pays ${country} hors Union européenne`
+
+  const normalized = normalizeVatNumber(vatNumber)
+  if (!normalized.startsWith(prefix)) {
+    return `Le numéro de TVA ${normalized} doit commencer par ${prefix}`
+  }
+  if (!format.test(normalized.slice(prefix.length))) {
+    return `Format de numéro de TVA ${prefix} invalide : ${normalized}`
+  }
+  return null
+}
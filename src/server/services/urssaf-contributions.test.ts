@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest'
+import { acreWindow, componentTotal, urssafContributions } from './urssaf-contributions'
+import type { ContributionOptions } from './urssaf-contributions'
+import { buildActivityRates } from './activity-rates'
+
+vi.mock('../db', () => ({ db: {} }))
+
+const options: ContributionOptions = {
+  year: 2025,
+  rates: buildActivityRates(2025, 'bnc', { urssafRate: 24.6, deductionRate: 34 }),
+  versementLiberatoire: false,
+  chamber: 'none',
+  acre: null,
+}
+
+describe('acreWindow', () => {
+  it('ends with the third quarter following the start', () => {
+    expect(acreWindow('2025-05-10')).toEqual({ reduction: 50, startDate: '2025-05-10', endDate: '2026-03-31' })
+    expect(acreWindow('2025-02-01').endDate).toBe('2025-12-31')
+  })
+
+  it('reduces the contributions by a quarter for businesses started from July 2026', () => {
+    expect(acreWindow('2026-07-01')).toMatchObject({ reduction: 25, endDate: '2027-06-30' })
+  })
+})
+
+describe('urssafContributions', () => {
+  const revenue = { sales: 0, bic_services: 0, bnc: 10000 }
+
+  it('adds the CFP to the social contributions', () => {
+    const contributions = urssafContributions(revenue, options, '2025-03-31')
+    expect(contributions.components.map((line) => [line.component, line.total])).toEqual([
+      ['social', 2460],
+      ['cfp', 20],
+    ])
+    expect(contributions.total).toBe(2480)
+  })
+
+  it('adds the versement libératoire when opted for', () => {
+    const contributions = urssafContributions(revenue, { ...options, versementLiberatoire: true }, '2025-03-31')
+    expect(componentTotal(contributions, 'versement_liberatoire')).toBe(220)
+    expect(contributions.total).toBe(2700)
+  })
+
+  it('charges the chamber tax and the artisan CFP to BIC activities only', () => {
+    const contributions = urssafContributions(
+      { sales: 10000, bic_services: 0, bnc: 10000 },
+      { ...options, chamber: 'cma' },
+      '2025-03-31'
+    )
+    expect(contributions.components.find((line) => line.component === 'cfp')?.lines).toEqual([
+      { activityType: 'sales', revenueHt: 10000, rate: 0.3, amount: 30 },
+      { activityType: 'bnc', revenueHt: 10000, rate: 0.2, amount: 20 },
+    ])
+    expect(componentTotal(contributions, 'chamber')).toBe(22)
+  })
+
+  it('reduces the social contributions inside the ACRE window only', () => {
+    const acre = { ...options, acre: acreWindow('2025-02-01') }
+    const during = urssafContributions(revenue, acre, '2025-12-31')
+    expect(during.acreReduction).toBe(50)
+    expect(componentTotal(during, 'social')).toBe(1230)
+    expect(componentTotal(during, 'cfp')).toBe(20)
+
+    const after = urssafContributions(revenue, acre, '2026-01-31')
+    expect(after.acreReduction).toBe(0)
+    expect(componentTotal(after, 'social')).toBe(2460)
+  })
+})
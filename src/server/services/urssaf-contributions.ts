@@ -0,0 +1,188 @@
+import { eq, and } from 'drizzle-orm'
+import { db } from '../db'
+import { settings, incomeTaxOptions } from '../db/schema'
+import { MICRO_ACTIVITY_TYPES } from './micro-ceiling'
+import type { MicroActivityType } from './micro-ceiling'
+import { applyByActivity, getActivityRates } from './activity-rates'
+import type { ActivityAmounts, ActivityLine, ActivityRateTable } from './activity-rates'
+import { roundCents } from './invoice-totals'
+
+// The micro-entrepreneur pays on each declaration, on the same revenue: the social contributions,
+// the contribution à la formation professionnelle (CFP), the versement libératoire de l'impôt
+// when opted for, and the taxe pour frais de chambre of the CCI or CMA the business belongs to
+
+export type UrssafComponent = 'social' | 'cfp' | 'versement_liberatoire' | 'chamber'
+
+export const URSSAF_COMPONENT_LABELS: Record<UrssafComponent, string> = {
+  social: 'Cotisations sociales',
+  cfp: 'Formation professionnelle (CFP)',
+  versement_liberatoire: 'Versement libératoire de l\'impôt',
+  chamber: 'Taxe pour frais de chambre',
+}
+
+export type ChamberType = 'none' | 'cci' | 'cma'
+
+export const CHAMBER_TYPES = ['none', 'cci', 'cma'] as const
+
+// CFP per year: commerçants, artisans (registered with the CMA) and professions libérales
+export const CFP_RATES: Record<number, { commerce: number; artisan: number; liberal: number }> = {
+  2023: { commerce: 0.1, artisan: 0.3, liberal: 0.2 },
+  2024: { commerce: 0.1, artisan: 0.3, liberal: 0.2 },
+  2025: { commerce: 0.1, artisan: 0.3, liberal: 0.2 },
+  2026: { commerce: 0.1, artisan: 0.3, liberal: 0.2 },
+}
+
+// Versement libératoire per year (art. 151-0 CGI)
+export const VERSEMENT_LIBERATOIRE_RATES: Record<number, ActivityAmounts> = {
+  2023: { sales: 1, bic_services: 1.7, bnc: 2.2 },
+  2024: { sales: 1, bic_services: 1.7, bnc: 2.2 },
+  2025: { sales: 1, bic_services: 1.7, bnc: 2.2 },
+  2026: { sales: 1, bic_services: 1.7, bnc: 2.2 },
+}
+
+// Taxe pour frais de chambre per year, sales and services; professions libérales pay none
+export const CHAMBER_RATES: Record<number, Record<Exclude<ChamberType, 'none'>, { sales: number; services: number }>> = {
+  2023: { cci: { sales: 0.015, services: 0.044 }, cma: { sales: 0.22, services: 0.48 } },
+  2024: { cci: { sales: 0.015, services: 0.044 }, cma: { sales: 0.22, services: 0.48 } },
+  2025: { cci: { sales: 0.015, services: 0.044 }, cma: { sales: 0.22, services: 0.48 } },
+  2026: { cci: { sales: 0.015, services: 0.044 }, cma: { sales: 0.22, services: 0.48 } },
+}
+
+// ACRE reduction of the social contributions, by start of the business (halved to 25 % from July 2026)
+export const ACRE_REDUCTIONS = [
+  { startedFrom: '2020-01-01', reduction: 50 },
+  { startedFrom: '2026-07-01', reduction: 25 },
+]
+
+export interface AcreWindow {
+  reduction: number // % off the social contributions
+  startDate: string
+  endDate: string // End of the third calendar quarter following the start
+}
+
+export interface ContributionOptions {
+  year: number
+  rates: ActivityRateTable // Social contribution rates
+  versementLiberatoire: boolean
+  chamber: ChamberType
+  acre: AcreWindow | null
+}
+
+export interface ContributionComponent {
+  component: UrssafComponent
+  total: number
+  lines: ActivityLine[]
+}
+
+export interface UrssafContributions {
+  total: number
+  acreReduction: number // 0 outside the ACRE window
+  components: ContributionComponent[]
+}
+
+// Latest known rates for years not listed yet
+function ratesForYear<T>(table: Record<number, T>, year: number): T {
+  const years = Object.keys(table).map(Number).sort((a, b) => a - b)
+  const known = years.filter((knownYear) => knownYear <= year)
+  return table[known.length > 0 ? known[known.length - 1] : years[0]]
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+// ACRE runs from the start of the business to the end of the third quarter after the one it started in
+export function acreWindow(businessStartDate: string): AcreWindow {
+  const [year, month] = businessStartDate.split('-').map(Number)
+  const lastQuarter = Math.ceil(month / 3) + 3
+  const endYear = year + Math.floor((lastQuarter - 1) / 4)
+  const endMonth = ((lastQuarter - 1) % 4) * 3 + 3
+  const lastDay = new Date(Date.UTC(endYear, endMonth, 0)).getUTCDate()
+  const applicable = ACRE_REDUCTIONS.filter((entry) => entry.startedFrom <= businessStartDate)
+
+  return {
+    reduction: applicable.length > 0 ? applicable[applicable.length - 1].reduction : 0,
+    startDate: businessStartDate,
+    endDate: `${endYear}-${pad(endMonth)}-${pad(lastDay)}`,
+  }
+}
+
+function cfpRate(year: number, activityType: MicroActivityType, chamber: ChamberType): number {
+  const rates = ratesForYear(CFP_RATES, year)
+  if (activityType === 'bnc') return rates.liberal
+  return chamber === 'cma' ? rates.artisan : rates.commerce
+}
+
+function chamberRate(year: number, activityType: MicroActivityType, chamber: ChamberType): number {
+  if (chamber === 'none' || activityType === 'bnc') return 0
+  const rates = ratesForYear(CHAMBER_RATES, year)[chamber]
+  return activityType === 'sales' ? rates.sales : rates.services
+}
+
+// Contributions due on revenue received up to a date, the date telling whether ACRE still applies
+export function urssafContributions(revenue: ActivityAmounts, options: ContributionOptions, date: string): UrssafContributions {
+  const { year, rates, chamber } = options
+  const acreReduction = options.acre && date >= options.acre.startDate && date <= options.acre.endDate
+    ? options.acre.reduction
+    : 0
+
+  const components: ContributionComponent[] = [
+    {
+      component: 'social',
+      ...applyByActivity(revenue, (activityType) =>
+        roundCents(rates[activityType].urssafRate * (1 - acreReduction / 100))),
+    },
+    { component: 'cfp', ...applyByActivity(revenue, (activityType) => cfpRate(year, activityType, chamber)) },
+  ]
+
+  if (options.versementLiberatoire) {
+    const liberatoireRates = ratesForYear(VERSEMENT_LIBERATOIRE_RATES, year)
+    components.push({
+      component: 'versement_liberatoire',
+      ...applyByActivity(revenue, (activityType) => liberatoireRates[activityType]),
+    })
+  }
+
+  // Professions libérales belong to no chamber
+  const chamberRevenue = { ...revenue, bnc: 0 }
+  if (chamber !== 'none' && MICRO_ACTIVITY_TYPES.some((activityType) => chamberRevenue[activityType] !== 0)) {
+    components.push({
+      component: 'chamber',
+      ...applyByActivity(chamberRevenue, (activityType) => chamberRate(year, activityType, chamber)),
+    })
+  }
+
+  return {
+    total: roundCents(components.reduce((sum, component) => sum + component.total, 0)),
+    acreReduction,
+    components,
+  }
+}
+
+// Amount of one component, 0 when it does not apply
+export function componentTotal(contributions: UrssafContributions, component: UrssafComponent): number {
+  return contributions.components.find((line) => line.component === component)?.total ?? 0
+}
+
+export async function getVersementLiberatoire(userId: string, year: number): Promise<boolean> {
+  const options = await db.query.incomeTaxOptions.findFirst({
+    where: and(eq(incomeTaxOptions.userId, userId), eq(incomeTaxOptions.year, year)),
+  })
+  return options?.versementLiberatoire ?? false
+}
+
+export async function getContributionOptions(userId: string, year: number): Promise<ContributionOptions & { mainActivity: MicroActivityType }> {
+  const userSettings = await db.query.settings.findFirst({
+    where: eq(settings.userId, userId),
+  })
+  const { mainActivity, rates } = await getActivityRates(userId, year)
+
+  return {
+    year,
+    mainActivity,
+    rates,
+    versementLiberatoire: await getVersementLiberatoire(userId, year),
+    chamber: (userSettings?.chamber as ChamberType | undefined) ?? 'none',
+    acre: userSettings?.acre && userSettings.businessStartDate ? acreWindow(userSettings.businessStartDate) : null,
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkUrssafPeriodicity,
+  urssafPeriodOf,
+  urssafPeriodOfMonth,
+  urssafPeriodsOfYear,
+} from './urssaf-periods'
+
+describe('urssafPeriodsOfYear', () => {
+  it('quarterly: four declarations due the last day of the following month', () => {
+    const periods = urssafPeriodsOfYear(2025, 'quarterly')
+    expect(periods.map((period) => period.dueDate)).toEqual(['2025-04-30', '2025-07-31', '2025-10-31', '2026-02-02'])
+    expect(periods[0]).toMatchObject({
+      key: '2025-T1',
+      label: 'T1 2025',
+      trimester: 1,
+      month: null,
+      startDate: '2025-01-01',
+      endDate: '2025-03-31',
+    })
+  })
+
+  it('monthly: twelve declarations keeping the quarter of each month', () => {
+    const periods = urssafPeriodsOfYear(2025, 'monthly')
+    expect(periods).toHaveLength(12)
+    expect(periods[1]).toMatchObject({ key: '2025-02', endDate: '2025-02-28', dueDate: '2025-03-31' })
+    expect(periods[3]).toMatchObject({
+      key: '2025-04',
+      label: 'avril 2025',
+      trimester: 2,
+      month: 4,
+      dueDate: '2025-06-02', // 31 May 2025 is a Saturday
+    })
+    expect(periods[6].dueDate).toBe('2025-09-01') // 31 August 2025 is a Sunday
+  })
+})
+
+describe('urssafPeriodOf', () => {
+  it('reads the periodicity from the month of the payment', () => {
+    expect(urssafPeriodOf({ year: 2025, trimester: 3, month: null }).key).toBe('2025-T3')
+    expect(urssafPeriodOf({ year: 2025, trimester: 3, month: 8 }).key).toBe('2025-08')
+  })
+})
+
+describe('urssafPeriodOfMonth', () => {
+  it('finds the period containing a month', () => {
+    expect(urssafPeriodOfMonth(2025, 11, 'quarterly').key).toBe('2025-T4')
+    expect(urssafPeriodOfMonth(2025, 11, 'monthly').key).toBe('2025-11')
+  })
+})
+
+describe('checkUrssafPeriodicity', () => {
+  it('accepts the periods of the periodicity of the year', () => {
+    expect(checkUrssafPeriodicity(urssafPeriodOf({ year: 2025, trimester: 1, month: 2 }), 'monthly')).toBeNull()
+  })
+
+  it('rejects the periods of the other periodicity', () => {
+    expect(checkUrssafPeriodicity(urssafPeriodOf({ year: 2025, trimester: 1, month: null }), 'monthly'))
+      .toContain('indiquez le mois')
+    expect(checkUrssafPeriodicity(urssafPeriodOf({ year: 2025, trimester: 1, month: 2 }), 'quarterly'))
+      .toContain('indiquez le trimestre')
+  })
+})
@@ -0,0 +1,116 @@
+import { eq, and } from 'drizzle-orm'
+import { urssafPeriodicities } from '../db/schema'
+import type { DbExecutor } from './invoice-payments'
+
+// URSSAF declaration periodicity chosen for a year: the micro-entrepreneur declares and pays
+// the revenue of each month or of each quarter
+export type UrssafPeriodicity = 'monthly' | 'quarterly'
+
+export const URSSAF_PERIODICITIES = ['monthly', 'quarterly'] as const
+
+export const DEFAULT_URSSAF_PERIODICITY: UrssafPeriodicity = 'quarterly'
+
+export const URSSAF_PERIODICITY_LABELS: Record<UrssafPeriodicity, string> = {
+  monthly: 'Déclaration mensuelle',
+  quarterly: 'Déclaration trimestrielle',
+}
+
+export interface UrssafPeriod {
+  key: string // YYYY-MM or YYYY-T1 to YYYY-T4
+  periodicity: UrssafPeriodicity
+  label: string
+  year: number
+  trimester: number // Quarter of the period, also set on monthly periods
+  month: number | null // 1-12 for a monthly period
+  startDate: string
+  endDate: string
+  dueDate: string
+}
+
+const MONTH_NAMES = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+]
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+// Declarations are due the last day of the month following the period, or the next working day
+function dueDateAfter(year: number, lastMonth: number): string {
+  const date = new Date(Date.UTC(year, lastMonth + 1, 0))
+  const dayOfWeek = date.getUTCDay()
+  if (dayOfWeek === 6) date.setUTCDate(date.getUTCDate() + 2)
+  if (dayOfWeek === 0) date.setUTCDate(date.getUTCDate() + 1)
+  return formatDate(date)
+}
+
+function monthsPeriod(year: number, firstMonth: number, lastMonth: number) {
+  const lastDay = new Date(Date.UTC(year, lastMonth, 0)).getUTCDate()
+  return {
+    year,
+    startDate: `${year}-${pad(firstMonth)}-01`,
+    endDate: `${year}-${pad(lastMonth)}-${pad(lastDay)}`,
+    dueDate: dueDateAfter(year, lastMonth),
+  }
+}
+
+function monthlyPeriod(year: number, month: number): UrssafPeriod {
+  return {
+    key: `${year}-${pad(month)}`,
+    periodicity: 'monthly',
+    label: `${MONTH_NAMES[month - 1]} ${year}`,
+    trimester: Math.ceil(month / 3),
+    month,
+    ...monthsPeriod(year, month, month),
+  }
+}
+
+function quarterlyPeriod(year: number, trimester: number): UrssafPeriod {
+  return {
+    key: `${year}-T${trimester}`,
+    periodicity: 'quarterly',
+    label: `T${trimester} ${year}`,
+    trimester,
+    month: null,
+    ...monthsPeriod(year, trimester * 3 - 2, trimester * 3),
+  }
+}
+
+export function urssafPeriodsOfYear(year: number, periodicity: UrssafPeriodicity): UrssafPeriod[] {
+  if (periodicity === 'quarterly') return [1, 2, 3, 4].map((trimester) => quarterlyPeriod(year, trimester))
+  return Array.from({ length: 12 }, (_, index) => monthlyPeriod(year, index + 1))
+}
+
+// Period of a payment, monthly when it carries a month
+export function urssafPeriodOf(payment: { year: number; trimester: number; month: number | null }): UrssafPeriod {
+  return payment.month !== null
+    ? monthlyPeriod(payment.year, payment.month)
+    : quarterlyPeriod(payment.year, payment.trimester)
+}
+
+// Period containing a month (1-12) under a periodicity
+export function urssafPeriodOfMonth(year: number, month: number, periodicity: UrssafPeriodicity): UrssafPeriod {
+  return periodicity === 'monthly' ? monthlyPeriod(year, month) : quarterlyPeriod(year, Math.ceil(month / 3))
+}
+
+// A payment must use the periods of the periodicity chosen for its year
+export function checkUrssafPeriodicity(period: UrssafPeriod, periodicity: UrssafPeriodicity): string | null {
+  if (period.periodicity === periodicity) return null
+  return periodicity === 'monthly'
+    ? `Les cotisations Urssaf ${period.year} sont déclarées chaque mois : indiquez le mois`
+    : `Les cotisations Urssaf ${period.year} sont déclarées chaque trimestre : indiquez le trimestre`
+}
+
+export async function getUrssafPeriodicity(executor: DbExecutor, userId: string, year: number): Promise<UrssafPeriodicity> {
+  const [row] = await executor
+    .select({ periodicity: urssafPeriodicities.periodicity })
+    .from(urssafPeriodicities)
+    .where(and(eq(urssafPeriodicities.userId, userId), eq(urssafPeriodicities.year, year)))
+
+  return (row?.periodicity as UrssafPeriodicity | undefined) ?? DEFAULT_URSSAF_PERIODICITY
+}
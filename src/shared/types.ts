@@ -6,37 +6,299 @@ export interface User {
   updatedAt: string
 }
 
+// Client types
+export interface Client {
+  id: string
+  userId: string
+  name: string
+  address: string | null
+  postalCode: string | null
+  city: string | null
+  country: string
+  siren: string | null
+  siret: string | null
+  tvaNumber: string | null
+  email: string | null
+  paymentTermsDays: number | null
+  paymentTermsEndOfMonth: boolean | null
+  defaultTaxRate: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ClientWithStats extends Client {
+  invoiceCount: number
+}
+
+export interface CreateClientInput {
+  name: string
+  address?: string | null
+  postalCode?: string | null
+  city?: string | null
+  country?: string
+  siren?: string | null
+  siret?: string | null
+  tvaNumber?: string | null
+  email?: string | null
+  paymentTermsDays?: number | null
+  paymentTermsEndOfMonth?: boolean | null
+  defaultTaxRate?: number | null
+}
+
+export type UpdateClientInput = Partial<CreateClientInput>
+
 // Invoice types
+export type InvoiceType = 'invoice' | 'credit_note'
+
+// Why TVA is charged or not: France, intra-EU B2B reverse charge, export outside the EU, franchise (art. 293 B)
+export type TvaRegime = 'domestic' | 'intra_eu' | 'export' | 'franchise'
+
 export interface Invoice {
   id: string
   userId: string
-  client: string
+  type: InvoiceType
+  creditedInvoiceId: string | null // Source invoice of a credit note
+  clientId: string
+  client: string // Client name as printed on the invoice
   description: string | null
   invoiceDate: string
-  paymentDate: string | null
+  dueDate: string | null // null for credit notes
+  paymentDate: string | null // Date the balance was fully settled
   amountHt: string
-  taxRate: string
+  taxRate: string | null // null when lines use different rates
   amountTtc: string
+  currency: string // ISO 4217; amounts and payments are in this currency
+  exchangeRate: string // Units of currency per EUR, used to convert tax bases
+  tvaRegime: TvaRegime
+  activityType: MicroActivityType
+  amountPaid?: string // Sum of recorded payments, on list responses
   invoiceNumber: string | null
   note: string | null
-  isCanceled: boolean
   createdAt: string
 }
 
-export interface CreateInvoiceInput {
+export type InvoicePaymentMethod = 'transfer' | 'check' | 'card' | 'cash' | 'direct_debit' | 'credit_note' | 'other'
+
+export interface InvoicePayment {
+  id: string
+  invoiceId: string
+  paymentDate: string
+  amount: string // TTC; negative for credit note refunds and offsets
+  method: InvoicePaymentMethod
+  reference: string | null
+  bankTransactionId: string | null
+  createdAt: string
+}
+
+export interface CreateInvoicePaymentInput {
+  paymentDate: string
+  amount: number // Always positive, refunds are negated server-side
+  method?: Exclude<InvoicePaymentMethod, 'credit_note'>
+  reference?: string
+}
+
+// A payment received within a period, with its prorated HT share
+export interface InvoiceReceipt {
+  id: string
+  invoiceId: string
+  invoiceNumber: string | null
   client: string
+  paymentDate: string
+  method: InvoicePaymentMethod
+  amount: string // In the invoice currency
+  currency: string
+  tvaRegime: TvaRegime
+  activityType: MicroActivityType // Goods and services go to different CA3 lines
+  amountHt: string // In EUR
+}
+
+export interface InvoiceLine {
+  id: string
+  invoiceId: string
+  position: number
+  description: string
+  quantity: string
+  unit: string | null
+  unitPrice: string
+  taxRate: string
+  discount: string
+  amountHt: string
+  createdAt: string
+}
+
+export interface InvoiceWithLines extends Invoice {
+  lines: InvoiceLine[]
+  payments: InvoicePayment[]
+}
+
+export interface CreateInvoiceLineInput {
+  description: string
+  quantity: number
+  unit?: string
+  unitPrice: number
+  taxRate: number
+  discount?: number
+}
+
+export interface CreateInvoiceInput {
+  clientId?: string
+  client?: string // Unknown names are added to the client directory
   description?: string
   invoiceDate: string
+  dueDate?: string // Computed from the client payment terms when omitted
   paymentDate?: string
-  amountHt: number
-  taxRate: number
+  amountHt?: number
+  taxRate?: number
+  lines?: CreateInvoiceLineInput[]
+  currency?: string // Defaults to EUR
+  exchangeRate?: number // Looked up from the recorded rates when omitted
+  tvaRegime?: TvaRegime // Inferred for 0% invoices when omitted
+  activityType?: MicroActivityType // Defaults to the activity set in the settings
   invoiceNumber?: string
   note?: string
-  isCanceled?: boolean
 }
 
 export type UpdateInvoiceInput = Partial<CreateInvoiceInput>
 
+// Receivables aging (balance âgée)
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90'
+
+export interface OverdueInvoice {
+  invoiceId: string
+  invoiceNumber: string | null
+  clientId: string
+  client: string
+  dueDate: string
+  daysOverdue: number
+  outstanding: string
+  latePenalty: string
+  recoveryIndemnity: string
+  totalDue: string // Outstanding plus penalty and indemnity
+}
+
+export interface AgingReport {
+  asOf: string
+  latePenaltyRate: string
+  total: string
+  overdueTotal: string
+  buckets: Record<AgingBucket, string>
+  clients: { clientId: string; client: string; buckets: Record<AgingBucket, string>; total: string }[]
+  overdueInvoices: OverdueInvoice[]
+}
+
+// Payment reminders (relances)
+export type ReminderLevel = 'friendly' | 'firm' | 'formal_notice'
+
+export interface ReminderTemplate {
+  level: ReminderLevel
+  delayDays: number // Days past the due date from which the level is suggested
+  subject: string
+  body: string
+  isDefault: boolean
+}
+
+export interface ReminderTemplates {
+  templates: ReminderTemplate[]
+  placeholders: string[]
+}
+
+export interface UpdateReminderTemplateInput {
+  delayDays: number
+  subject: string
+  body: string
+}
+
+export interface InvoiceReminder {
+  id: string
+  invoiceId: string
+  level: ReminderLevel
+  recipient: string
+  subject: string
+  body: string
+  transport: 'smtp' | 'file'
+  messageId: string
+  sentAt: string
+}
+
+export interface ReminderPreview {
+  level: ReminderLevel
+  suggestedLevel: ReminderLevel
+  daysOverdue: number
+  recipient: string | null // Client email, if known
+  subject: string
+  body: string
+}
+
+export interface SendReminderInput {
+  level?: ReminderLevel
+  recipient?: string
+  subject?: string
+  body?: string
+}
+
+export interface CreateCreditNoteInput {
+  invoiceDate: string
+  refundDate?: string
+  lines?: CreateInvoiceLineInput[] // Omit for a full credit note
+  reason?: string
+}
+
+// Quote (devis) types
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'refused' | 'expired'
+
+export interface Quote {
+  id: string
+  userId: string
+  clientId: string
+  client: string
+  description: string | null
+  quoteNumber: string
+  quoteDate: string
+  validUntil: string
+  status: QuoteStatus // Draft and sent quotes read as expired past their validity date
+  amountHt: string
+  taxRate: string | null
+  amountTtc: string
+  invoiceId: string | null // Invoice created from the quote
+  note: string | null
+  createdAt: string
+}
+
+export interface QuoteLine extends Omit<InvoiceLine, 'invoiceId'> {
+  quoteId: string
+}
+
+export interface QuoteWithLines extends Quote {
+  lines: QuoteLine[]
+}
+
+export interface CreateQuoteInput {
+  clientId?: string
+  client?: string // Unknown names are added to the client directory
+  description?: string
+  quoteDate: string
+  validUntil?: string // Defaults to 30 days after the quote date
+  status?: QuoteStatus
+  lines: CreateInvoiceLineInput[]
+  quoteNumber?: string
+  note?: string
+}
+
+export type UpdateQuoteInput = Partial<CreateQuoteInput>
+
+export interface ConvertQuoteResult {
+  quote: Quote
+  invoice: InvoiceWithLines
+}
+
+// Open quotes (draft, sent, accepted not yet invoiced) as potential revenue
+export interface QuotePipeline {
+  count: number
+  amountHt: string
+  amountTtc: string
+  byStatus: Record<'draft' | 'sent' | 'accepted', { count: number; amountHt: string }>
+}
+
 // Expense types
 export interface Expense {
   id: string
@@ -46,9 +308,12 @@ export interface Expense {
   amountHt: string
   taxAmount: string
   taxRecoveryRate: string
+  currency: string
+  exchangeRate: string // Units of currency per EUR
   category: string
   isRecurring: boolean
   isIntraEu: boolean
+  reverseChargeRate: string // TVA self-assessed on intra-EU purchases
   recurrencePeriod: string | null
   startMonth: string | null
   endMonth: string | null
@@ -66,9 +331,12 @@ export interface CreateExpenseInput {
   amountHt: number
   taxAmount?: number
   taxRecoveryRate?: number
+  currency?: string
+  exchangeRate?: number
   category: ExpenseCategory
   isRecurring?: boolean
   isIntraEu?: boolean
+  reverseChargeRate?: number
   recurrencePeriod?: RecurrencePeriod
   startMonth?: string
   endMonth?: string
@@ -78,6 +346,44 @@ export interface CreateExpenseInput {
 
 export type UpdateExpenseInput = Partial<CreateExpenseInput>
 
+// Exchange rates against EUR (ECB convention: 1 EUR = rate units of currency)
+export type ExchangeRateSource = 'manual' | 'ecb'
+
+export interface ExchangeRate {
+  id: string
+  userId: string
+  currency: string
+  date: string
+  rate: string
+  source: ExchangeRateSource
+  createdAt: string
+}
+
+export interface CreateExchangeRateInput {
+  currency: string
+  date: string
+  rate: number
+}
+
+export interface ImportExchangeRatesInput {
+  content: string
+  currencies?: string[]
+  from?: string
+}
+
+export interface ImportExchangeRatesResult {
+  imported: number
+  currencies: string[]
+  from: string | null
+  to: string | null
+}
+
+export interface ExchangeRateLookup {
+  currency: string
+  date: string
+  rate: string | null // Latest known on or before the date
+}
+
 // Tax payment types
 export interface TaxPayment {
   id: string
@@ -106,7 +412,8 @@ export type UpdateTaxPaymentInput = Partial<CreateTaxPaymentInput>
 export interface UrssafPayment {
   id: string
   userId: string
-  trimester: number
+  trimester: number        // Quarter of the period, also set on monthly declarations
+  month: number | null     // 1-12 for a monthly declaration
   year: number
   revenue: string
   amount: string
@@ -117,8 +424,10 @@ export interface UrssafPayment {
   createdAt: string
 }
 
+// A quarterly payment gives its trimester, a monthly one its month
 export interface CreateUrssafPaymentInput {
-  trimester: number
+  trimester?: number
+  month?: number | null
   year: number
   revenue: number
   amount: number
@@ -130,6 +439,26 @@ export interface CreateUrssafPaymentInput {
 
 export type UpdateUrssafPaymentInput = Partial<CreateUrssafPaymentInput>
 
+// URSSAF declaration periodicity of a year, quarterly by default
+export type UrssafPeriodicity = 'monthly' | 'quarterly'
+
+export interface UrssafPeriodicitySetting {
+  year: number
+  periodicity: UrssafPeriodicity
+}
+
+export interface UrssafPeriod {
+  key: string        // YYYY-MM or YYYY-T1 to YYYY-T4
+  periodicity: UrssafPeriodicity
+  label: string
+  year: number
+  trimester: number
+  month: number | null
+  startDate: string
+  endDate: string
+  dueDate: string
+}
+
 // Income tax payment types
 export interface IncomeTaxPayment {
   id: string
@@ -160,14 +489,56 @@ export interface IncomeTaxSummary {
   estimatedTax: string
   taxableIncome: string
   totalRevenue: string
-  deductionRate: string
-  additionalTaxableIncome: string
+  deductionRate: string // Blended over the activities
+  activities: ActivityLine[] // rate: share of the revenue kept after the abattement
+  additionalTaxableIncome: string // Other income of the household after deductions
   totalPaid: string
   totalPending: string
+  household: {
+    saved: boolean // False when no household was entered for the year
+    maritalStatus: MaritalStatus
+    children: number
+    parts: number
+    incomes: HouseholdIncomeLine[] // Salary of the spouse included
+  }
+  quotientFamilial: QuotientFamilial
+  method: IncomeTaxMethod
+  grossTax: string // After the plafonnement of the quotient familial
+  decote: string
+  progressiveTax: string // After the décote, on all the income or on the other income at the taux effectif
+  cehr: string // Contribution exceptionnelle sur les hauts revenus
+  effectiveRate: string | null // Taux effectif under the versement libératoire
+  businessShare: string // Tax of the household less its tax without the business income
+  versementLiberatoire: boolean
+  versementLiberatoirePaid: string // Paid with the URSSAF contributions, deducted from the remaining tax
+  versementLiberatoireEligibility: VersementLiberatoireEligibility
   remaining: string
   brackets: TaxBracketBreakdown[]
 }
 
+// Versement libératoire: the business income is taxed flat and only sets the taux effectif of the rest
+export type IncomeTaxMethod = 'progressive' | 'versement_liberatoire'
+
+// The option requires the revenu fiscal de référence of year - 2 under a limit per part
+export interface VersementLiberatoireEligibility {
+  referenceYear: number
+  referenceIncome: number | null
+  estimated: boolean // From the revenue recorded for the reference year, not entered
+  limit: number
+  eligible: boolean | null
+  warning: string | null
+}
+
+export interface QuotientFamilial {
+  parts: number
+  referenceParts: number // Parts of the household without its children
+  quotient: string // Taxable income per part
+  taxBeforeCeiling: string
+  advantage: string // Tax saved by the parts above the reference ones
+  ceiling: string
+  ceilingAdjustment: string // Advantage above the ceiling, added back to the tax
+}
+
 export interface TaxBracketBreakdown {
   minIncome: string
   maxIncome: string | null
@@ -185,16 +556,167 @@ export interface Settings {
   revenueDeductionRate: string
   monthlySalary: string
   additionalTaxableIncome: string
+  invoiceNumberPattern: string
+  invoiceNumberReset: NumberingReset
+  businessStartDate: string | null
+  activityType: MicroActivityType
+  acre: boolean
+  chamber: ChamberType
   createdAt: string
   updatedAt: string
 }
 
+export type NumberingReset = 'yearly' | 'monthly' | 'never'
+
+export type MicroActivityType = 'sales' | 'bic_services' | 'bnc'
+
+// Amount computed on the revenue of one activity at its own rate
+export interface ActivityLine {
+  activityType: MicroActivityType
+  revenueHt: number
+  rate: number
+  amount: number
+}
+
+// Chambre de commerce (commerçants) or chambre de métiers (artisans) collecting the taxe pour frais de chambre
+export type ChamberType = 'none' | 'cci' | 'cma'
+
+// Parts of the URSSAF contributions, all computed on the revenue of the period
+export type UrssafComponent = 'social' | 'cfp' | 'versement_liberatoire' | 'chamber'
+
+export interface UrssafContributionComponent {
+  component: UrssafComponent
+  total: number
+  lines: ActivityLine[]
+}
+
+// ACRE reduction of the social contributions, until the end of the third quarter after the start
+export interface AcreWindow {
+  reduction: number
+  startDate: string
+  endDate: string
+}
+
+export interface IncomeTaxOptions {
+  year: number
+  versementLiberatoire: boolean
+  referenceTaxIncome: string | null // RFR of year - 2, estimated when null
+  eligibility: VersementLiberatoireEligibility
+}
+
+export interface SetIncomeTaxOptionsInput {
+  year: number
+  versementLiberatoire: boolean
+  referenceTaxIncome?: number | null
+}
+
+// Foyer fiscal of a year for the income tax
+export type MaritalStatus = 'single' | 'married' | 'pacs' | 'divorced' | 'widowed'
+
+// salary and pension: 10 % deduction, rental: micro-foncier, furnished_rental: micro-BIC
+export type HouseholdIncomeCategory = 'salary' | 'pension' | 'rental' | 'furnished_rental' | 'other'
+
+export interface HouseholdIncomeLine {
+  category: HouseholdIncomeCategory
+  label: string
+  amount: string
+  deduction: string
+  net: string
+}
+
+export interface Household {
+  year: number
+  saved: boolean // False for the defaults of a year without household
+  maritalStatus: MaritalStatus
+  children: number
+  singleParent: boolean
+  parts: number | null // Entered parts, computed when null
+  computedParts: number
+  spouseSalary: string
+  incomes: HouseholdIncomeLine[]
+}
+
+export interface SetHouseholdInput {
+  year: number
+  maritalStatus: MaritalStatus
+  children: number
+  singleParent: boolean
+  parts: number | null
+  spouseSalary: number
+  incomes: { category: HouseholdIncomeCategory; label: string; amount: number }[]
+}
+
+export interface ActivityRates {
+  urssafRate: number
+  deductionRate: number
+}
+
+export interface ActivityRatesResponse {
+  year: number
+  mainActivity: MicroActivityType
+  rates: Record<MicroActivityType, ActivityRates>
+}
+
 export interface UpdateSettingsInput {
   urssafRate?: number
   estimatedTaxRate?: number
   revenueDeductionRate?: number
   monthlySalary?: number
   additionalTaxableIncome?: number
+  invoiceNumberPattern?: string
+  invoiceNumberReset?: NumberingReset
+  businessStartDate?: string | null
+  activityType?: MicroActivityType
+  acre?: boolean
+  chamber?: ChamberType
+}
+
+// Sequence values of the current numbering period that no invoice carries
+export interface NumberingGaps {
+  periodKey: string
+  lastValue: number
+  missing: number[]
+}
+
+// Issuer profile types
+export interface IssuerProfile {
+  id: string
+  userId: string
+  companyName: string
+  legalForm: string
+  address: string
+  postalCode: string
+  city: string
+  country: string
+  siret: string
+  tvaNumber: string | null
+  email: string | null
+  phone: string | null
+  iban: string | null
+  bic: string | null
+  paymentTermsDays: number
+  paymentTermsEndOfMonth: boolean
+  latePenaltyRate: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface UpdateIssuerProfileInput {
+  companyName: string
+  legalForm?: string
+  address: string
+  postalCode: string
+  city: string
+  country?: string
+  siret: string
+  tvaNumber?: string | null
+  email?: string | null
+  phone?: string | null
+  iban?: string | null
+  bic?: string | null
+  paymentTermsDays?: number
+  paymentTermsEndOfMonth?: boolean
+  latePenaltyRate?: number
 }
 
 // Tax bracket types
@@ -261,15 +783,75 @@ export interface AccountBalance {
   id: string
   userId: string
   balance: string
+  balanceDate: string | null
+  currentBalance: string // Recorded balance plus transactions imported since balanceDate
+  transactionsSinceBalance: number
   updatedAt: string
 }
 
+// Bank reconciliation types
+export type BankStatementFormat = 'csv' | 'ofx' | 'camt'
+export type BankTransactionStatus = 'unmatched' | 'matched' | 'ignored'
+export type BankMatchType = 'invoice' | 'expense' | 'tva' | 'urssaf' | 'income_tax'
+
+export interface BankMatchSuggestion {
+  type: BankMatchType
+  id: string
+  label: string
+  amount: number
+  date: string | null
+  score: number
+}
+
+export interface BankTransaction {
+  id: string
+  userId: string
+  date: string
+  amount: string // Positive for credits, negative for debits
+  label: string
+  counterparty: string | null
+  reference: string | null
+  source: BankStatementFormat
+  status: BankTransactionStatus
+  matchType: BankMatchType | null
+  matchId: string | null
+  createdAt: string
+  suggestions: BankMatchSuggestion[]
+}
+
+export interface CsvColumnMapping {
+  delimiter: ';' | ',' | '\t'
+  dateColumn: string
+  dateFormat: 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'MM/DD/YYYY'
+  labelColumn: string
+  amountColumn?: string
+  debitColumn?: string
+  creditColumn?: string
+  counterpartyColumn?: string
+  referenceColumn?: string
+  decimalSeparator: ',' | '.'
+}
+
+export interface ImportBankStatementInput {
+  format?: BankStatementFormat
+  content: string
+  mapping?: CsvColumnMapping
+}
+
+export interface ImportBankStatementResult {
+  format: BankStatementFormat
+  imported: number
+  duplicates: number
+}
+
 export interface AccountSummary {
   currentBalance: string
   pendingTva: string
   estimatedTva: string
+  tvaCredit: string // Deducted from estimatedTva in totalObligations
   pendingUrssaf: string
   estimatedUrssaf: string
+  estimatedVersementLiberatoire: string // Part of estimatedUrssaf paying the income tax
   typicalMonthlyExpenses: string
   typicalMonthlyExpensesMonths: number
   totalObligations: string
@@ -287,19 +869,23 @@ export interface DashboardSummary {
   tvaRecoverable: string
   netTva: string
   urssafEstimate: string
-  incomeTaxEstimate: string
+  incomeTaxEstimate: string // Share of the yearly business income tax matching the revenue of the month
   expensesHt: string
   netRemaining: string
   pendingTva: string
+  tvaCredit: string
   pendingUrssaf: string
   upcomingPayments: UpcomingPayment[]
+  franchiseAlerts: string[] // Franchise en base thresholds approached or crossed this year
 }
 
+// Next deadline to pay, taken from the fiscal calendar
 export interface UpcomingPayment {
-  type: 'tva' | 'urssaf' | 'income_tax'
-  amount: string
-  dueDate?: string
+  type: Exclude<FiscalEventType, 'income_tax_return'>
+  amount: string | null // Recorded or computed amount, null when not known yet
+  dueDate: string
   description: string
+  status: Extract<FiscalEventStatus, 'pending' | 'upcoming' | 'overdue'>
 }
 
 // Yearly dashboard types
@@ -309,7 +895,7 @@ export interface YearlyDashboardKpis {
   totalUrssafEstimated: string
   totalUrssaf: string
   totalIncomeTaxPaid: string
-  totalIncomeTaxEstimated: string
+  totalIncomeTaxEstimated: string // Share of the household tax due to the business, as on the income tax page
   totalTvaPaid: string
   totalTvaEstimated: string
   totalRemaining: string
@@ -332,34 +918,237 @@ export interface YearlyDashboard {
   currentMonth: number | null
   kpis: YearlyDashboardKpis
   months: MonthlyBreakdown[]
+  franchiseAlerts: string[]
+}
+
+// Micro-entreprise revenue ceiling, prorated in the creation year
+export type MicroCeilingStatus = 'under' | 'projected_over' | 'exceeded'
+
+export interface MicroCeilingYear {
+  year: number
+  ceiling: number
+  fullCeiling: number
+  prorated: boolean
+  activityDays: number
+  revenueHt: number
+  exceeded: boolean
+}
+
+export interface MicroCeilingMonitoring {
+  activityType: MicroActivityType
+  businessStartDate: string | null
+  current: MicroCeilingYear & {
+    elapsedDays: number
+    projectedRevenueHt: number
+    status: MicroCeilingStatus
+  }
+  previous: MicroCeilingYear | null
+  regimeEndsOn: string | null
+  alerts: string[]
+}
+
+// TVA Declaration types (formulaire 3310-CA3, whole euros)
+export type Ca3RateLineCode = '08' | '9B' | '09' | '14'
+
+export interface Ca3RateLine {
+  line: Ca3RateLineCode // 08: 20 %, 9B: 10 %, 09: 5,5 %, 14: 2,1 % and other rates
+  rate: number
+  baseHt: number
+  tva: number
 }
 
-// TVA Declaration types
 export interface TvaDeclarationCases {
-  A1: number      // CA encaisse HT
-  B2: number      // Achats intra-UE HT
-  case08: number  // Base HT 20% (A1 + B2)
-  case17: number  // TVA intra-UE (20% de B2)
-  case19: number  // TVA immobilisations (> 500 EUR)
-  case20: number  // Autre TVA + case17
+  A1: number      // Ventes, prestations de services (CA encaissé HT en France)
+  B2: number      // Acquisitions intracommunautaires HT
+  E1: number      // Exportations hors UE (biens)
+  E2: number      // Autres opérations non imposables (services intra-UE et hors UE)
+  F2: number      // Livraisons intracommunautaires (biens)
+  rateLines: Ca3RateLine[]
+  case16: number  // Total TVA brute due
+  case17: number  // Dont TVA sur acquisitions intracommunautaires
+  case19: number  // TVA déductible sur immobilisations (> 500 EUR HT)
+  case20: number  // TVA déductible sur autres biens et services (dont autoliquidation)
+  case22: number  // Report du crédit de la précédente déclaration (ligne 27)
+  case23: number  // Total TVA déductible
+  case25: number  // Crédit de TVA
+  case26: number  // Remboursement de crédit demandé (3519)
+  case27: number  // Crédit à reporter
+  case28: number  // TVA nette due
 }
 
 export interface TvaDeclarationDetails {
-  invoicesPaid: Invoice[]
+  invoicesPaid: InvoiceReceipt[]
   expensesWithTva: Expense[]
   expensesIntraEu: Expense[]
   expensesOver500: Expense[]
 }
 
+export interface TvaRateBreakdown {
+  rate: number
+  baseHt: number
+  tva: number
+}
+
 export interface TvaDeclarationSummary {
   tvaCollected: number
   tvaDeductible: number
   tvaNet: number
+  collectedByRate: TvaRateBreakdown[]
+}
+
+// TVA filing regime of a year: monthly or quarterly CA3, annual CA12 with July / December installments
+export type TvaFilingRegime = 'monthly' | 'quarterly' | 'annual'
+
+export interface TvaFilingRegimeSetting {
+  year: number
+  regime: TvaFilingRegime
+}
+
+export interface TvaPeriod {
+  key: string        // YYYY-MM, YYYY-T1 to YYYY-T4, or YYYY
+  regime: TvaFilingRegime
+  form: 'CA3' | 'CA12'
+  label: string
+  year: number
+  startMonth: string
+  endMonth: string   // Month the credit ledger records the return under
+  startDate: string
+  endDate: string
+  dueDate: string
+}
+
+export interface TvaInstallment {
+  key: string        // YYYY-MM
+  label: string
+  rate: number       // % of the previous year's TVA
+  amount: number
+  dueDate: string
 }
 
 export interface TvaDeclaration {
-  month: string
+  period: TvaPeriod
   cases: TvaDeclarationCases
   details: TvaDeclarationDetails
   summary: TvaDeclarationSummary
+  installments: TvaInstallment[] // CA12 only, deducted from the TVA due
+  filed: boolean // Credit and refund of the period recorded in the ledger
+  refundMismatch: string | null // Filed refund no longer matching the recomputed credit
+  // Previous return not filed yet, with the line 22 this period would carry once it is
+  unfiledPrevious: { key: string; label: string; creditCarriedForward: number } | null
+}
+
+export type TvaPaymentStatus = 'paid' | 'pending' | 'overdue' | 'upcoming' | 'not_due'
+
+// Return or CA12 installment of the year schedule, with the payments recorded for it
+export interface TvaScheduleEntry {
+  key: string
+  kind: 'return' | 'installment'
+  label: string
+  startMonth: string
+  endMonth: string
+  tvaCollected: string | null
+  tvaRecoverable: string | null
+  creditCarriedForward: string | null // Line 22 of a return, with the credit of an unfiled previous return
+  amountDue: string
+  dueDate: string
+  paidAmount: string
+  pendingAmount: string
+  paymentStatus: TvaPaymentStatus
+}
+
+// Franchise en base de TVA (art. 293 B CGI): receipts of the year against the thresholds
+export type FranchiseStatus = 'under' | 'approaching' | 'base_exceeded' | 'majore_exceeded'
+
+export interface FranchiseCrossing {
+  threshold: number
+  date: string
+  invoiceId: string
+  invoiceNumber: string | null
+  cumulative: number
+}
+
+export interface FranchiseMonitoring {
+  year: number
+  applies: boolean
+  thresholds: { base: number; majore: number }
+  receiptsHt: number
+  previousYearReceiptsHt: number
+  status: FranchiseStatus
+  baseCrossing: FranchiseCrossing | null
+  majoreCrossing: FranchiseCrossing | null
+  tvaDueFrom: { date: string; invoiceId: string | null; invoiceNumber: string | null } | null
+  alerts: string[]
+}
+
+// TVA credit ledger: credit of a filed CA3, its use on the next return, refunds (3519)
+export type TvaCreditEntryType = 'credit' | 'imputation' | 'refund'
+
+export interface TvaCreditEntry {
+  id: string
+  userId: string
+  periodMonth: string
+  type: TvaCreditEntryType
+  amount: string
+  refundStatus: 'requested' | 'received' | null
+  refundReceivedDate: string | null
+  createdAt: string
+}
+
+export interface TvaCreditLedger {
+  balance: string
+  entries: TvaCreditEntry[]
+}
+
+export interface FileTvaDeclarationResult {
+  period: string
+  entries: TvaCreditEntry[]
+  balance: string
+}
+
+// Déclaration européenne de services: reverse-charge sales of a month, per client TVA number
+export interface DesLine {
+  lineNumber: number
+  clientId: string
+  client: string
+  country: string
+  tvaNumber: string
+  amount: number // Whole euros
+  invoices: { invoiceId: string; invoiceNumber: string | null; invoiceDate: string; amountHt: string }[]
+  issues: string[]
+}
+
+export interface DesDeclaration {
+  month: string
+  issuerTvaNumber: string | null
+  lines: DesLine[]
+  total: number
+  issues: string[]
+}
+
+// Fiscal calendar: URSSAF declarations, TVA returns, CFE, income tax installments and annual return
+export type FiscalEventType = 'urssaf' | 'tva' | 'cfe' | 'income_tax' | 'income_tax_return'
+
+// 'past' for deadlines over that the app records no payment for
+export type FiscalEventStatus = 'paid' | 'pending' | 'upcoming' | 'overdue' | 'past'
+
+export interface FiscalEvent {
+  id: string
+  type: FiscalEventType
+  title: string
+  description: string
+  date: string // Due date, or the last day of a filing window
+  startDate: string | null // First day of a filing window
+  amount: string | null
+  status: FiscalEventStatus
+}
+
+export interface FiscalCalendar {
+  from: string
+  to: string
+  events: FiscalEvent[]
+}
+
+// Secret token of the iCalendar feed, null while disabled
+export interface CalendarFeed {
+  token: string | null
 }